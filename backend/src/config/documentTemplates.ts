@@ -0,0 +1,74 @@
+/**
+ * Document templates bundled with the application, added to a database without any.
+ * Admins edit or replace them afterwards through /api/document-templates.
+ */
+export const DEFAULT_DOCUMENT_TEMPLATES: readonly { key: string; nama: string; isi: string; keterangan: string }[] = [
+  {
+    key: 'lembar-ringkasan',
+    nama: 'Lembar Ringkasan Pengadaan',
+    keterangan: 'Ringkasan data umum, nilai, jadwal dan penyedia satu paket',
+    isi: [
+      '# LEMBAR RINGKASAN PENGADAAN',
+      '{{namaPaket}}',
+      '---',
+      '## Data Umum',
+      'ID Pengadaan :: {{id}}',
+      'Status :: {{status}}',
+      'Pengguna Barang/ Jasa :: {{penggunaBarangJasa}}',
+      'Jenis Pengadaan :: {{jenisPengadaan}}',
+      'Metode Pengadaan :: {{metodePengadaan}}',
+      'Tahun Anggaran :: {{tahunAnggaran}} ({{jenisAnggaran}})',
+      'No PPL :: {{noPpl}}',
+      'PIC Tim PPSM :: {{picTimPpsm}}',
+      '',
+      '## Nilai',
+      'Nilai Anggaran :: {{nilaiAnggaranIdr}}',
+      'Nilai HPS :: {{nilaiHpsAmount}}',
+      'Nilai HPS Eq. Rupiah :: {{nilaiHpsEqRupiah}}',
+      'Nilai Penunjukan Eq. Rupiah :: {{nilaiPenunjukanEqRupiah}}',
+      'Nilai Kontrak :: {{nilaiKontrakRupiah}}',
+      'Cost Saving :: {{costSavingRp}}',
+      '',
+      '## Jadwal',
+      'Tanggal Permintaan :: {{tanggalPermintaan}}',
+      'Tanggal Perintah Pengadaan :: {{tanggalPerintahPengadaan}}',
+      'Surat Penunjukan :: {{suratPenunjukan}}',
+      'Jangka Waktu Pengerjaan :: {{jangkaWaktuPengerjaan}}',
+      'Tanggal Kontrak :: {{kontrakTanggal}}',
+      '',
+      '## Penyedia',
+      'Penyedia Barang/ Jasa :: {{penyediaBarangJasa}}',
+      'Status Penyedia :: {{statusPenyedia}}',
+      'Nomor Kontrak :: {{kontrakNomor}}',
+    ].join('\n'),
+  },
+  {
+    key: 'memo-rekomendasi',
+    nama: 'Memo Rekomendasi Penetapan Penyedia',
+    keterangan: 'Memo rekomendasi penunjukan penyedia kepada pengguna barang/ jasa',
+    isi: [
+      '# MEMO REKOMENDASI',
+      '---',
+      'Kepada :: {{penggunaBarangJasa}}',
+      'Dari :: Tim PPSM ({{picTimPpsm}})',
+      'Tanggal :: {{hariIni}}',
+      'Perihal :: Rekomendasi Penetapan Penyedia {{namaPaket}}',
+      '---',
+      'Sehubungan dengan permintaan pengadaan tanggal {{tanggalPermintaan}} untuk paket {{namaPaket}} ' +
+        '(ID {{id}}), Tim PPSM telah melaksanakan proses pengadaan dengan metode {{metodePengadaan}}.',
+      '',
+      'Berdasarkan hasil evaluasi, kami merekomendasikan {{penyediaBarangJasa}} ({{statusPenyedia}}) ' +
+        'sebagai pelaksana pekerjaan dengan nilai penunjukan {{nilaiPenunjukanAmount}} ' +
+        '(setara {{nilaiPenunjukanEqRupiah}}) dari nilai HPS {{nilaiHpsEqRupiah}}, ' +
+        'dengan jangka waktu pengerjaan {{jangkaWaktuPengerjaan}}.',
+      '',
+      'Demikian rekomendasi ini disampaikan untuk dapat dipergunakan sebagaimana mestinya.',
+      '',
+      '',
+      'Tim PPSM',
+      '',
+      '',
+      '{{picTimPpsm}}',
+    ].join('\n'),
+  },
+];
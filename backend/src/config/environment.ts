@@ -20,9 +20,35 @@ const envSchema = z.object({
   RATE_LIMIT_MAX_REQUESTS: z.string().transform(Number).default('100'),
   MAX_FILE_SIZE: z.string().transform(Number).default('5242880'), // 5MB
   UPLOAD_PATH: z.string().default('uploads'),
+  // Number of rows inserted per batch when importing pengadaan from a spreadsheet
+  IMPORT_BATCH_SIZE: z.string().transform(Number).default('200'),
+  // Backups: target directory, and retention by count and by age (0 disables either rule)
+  BACKUP_PATH: z.string().default('backups'),
+  BACKUP_RETENTION_COUNT: z.string().transform(Number).default('10'),
+  BACKUP_RETENTION_DAYS: z.string().transform(Number).default('30'),
+  // Days a soft-deleted pengadaan stays in the recycle bin before purge may remove it
+  SOFT_DELETE_RETENTION_DAYS: z.string().transform(Number).default('30'),
   LOG_LEVEL: z.enum(['error', 'warn', 'info', 'debug']).default('info'),
   API_VERSION: z.string().default('v1'),
   API_PREFIX: z.string().default('/api'),
+  // Approval chain: HPS (eq. rupiah) from which director sign-off is needed, and methods needing board approval
+  APPROVAL_DIRECTOR_THRESHOLD: z.string().transform(Number).default('1000000000'),
+  APPROVAL_BOARD_METHODS: z.string().default('Penunjukan Langsung'),
+  // SLA: working days left at which a running package is flagged at risk
+  SLA_AT_RISK_DAYS: z.string().transform(Number).default('5'),
+  // Mail: 'smtp' relays through SMTP_HOST, 'maildir' writes messages under MAIL_PATH (for testing)
+  MAIL_TRANSPORT: z.enum(['smtp', 'maildir']).default('maildir'),
+  MAIL_FROM: z.string().default('Procure Flow <noreply@procure-flow.local>'),
+  MAIL_PATH: z.string().default('mail'),
+  SMTP_HOST: z.string().default('localhost'),
+  SMTP_PORT: z.string().transform(Number).default('587'),
+  // 'true' for implicit TLS (port 465); otherwise STARTTLS is used when the server offers it
+  SMTP_SECURE: z.enum(['true', 'false']).default('false'),
+  SMTP_USER: z.string().optional(),
+  SMTP_PASS: z.string().optional(),
+  // Scheduled report delivery: whether this instance runs schedules, and the UTC offset of cron times
+  REPORT_SCHEDULER_ENABLED: z.enum(['true', 'false']).default('true'),
+  REPORT_SCHEDULE_UTC_OFFSET_MINUTES: z.string().transform(Number).default('420'),
 });
 
 // Validate environment variables
@@ -61,6 +87,15 @@ export const config = {
   // File upload
   maxFileSize: env.MAX_FILE_SIZE,
   uploadPath: env.UPLOAD_PATH,
+  importBatchSize: env.IMPORT_BATCH_SIZE,
+
+  // Backups
+  backupPath: env.BACKUP_PATH,
+  backupRetentionCount: env.BACKUP_RETENTION_COUNT,
+  backupRetentionDays: env.BACKUP_RETENTION_DAYS,
+
+  // Recycle bin
+  softDeleteRetentionDays: env.SOFT_DELETE_RETENTION_DAYS,
   
   // Logging
   logLevel: env.LOG_LEVEL,
@@ -68,6 +103,27 @@ export const config = {
   // API
   apiVersion: env.API_VERSION,
   apiPrefix: env.API_PREFIX,
+
+  // Approval chains
+  approvalDirectorThreshold: env.APPROVAL_DIRECTOR_THRESHOLD,
+  approvalBoardMethods: env.APPROVAL_BOARD_METHODS.split(',').map(method => method.trim()).filter(Boolean),
+
+  // SLA tracking
+  slaAtRiskDays: env.SLA_AT_RISK_DAYS,
+
+  // Mail
+  mailTransport: env.MAIL_TRANSPORT,
+  mailFrom: env.MAIL_FROM,
+  mailPath: env.MAIL_PATH,
+  smtpHost: env.SMTP_HOST,
+  smtpPort: env.SMTP_PORT,
+  smtpSecure: env.SMTP_SECURE === 'true',
+  smtpUser: env.SMTP_USER,
+  smtpPass: env.SMTP_PASS,
+
+  // Scheduled reports
+  reportSchedulerEnabled: env.REPORT_SCHEDULER_ENABLED === 'true',
+  reportScheduleUtcOffsetMinutes: env.REPORT_SCHEDULE_UTC_OFFSET_MINUTES,
   
   // Derived values
   isDevelopment: env.NODE_ENV === 'development',
@@ -0,0 +1,140 @@
+import { IPengadaan } from '../types/pengadaan';
+
+/**
+ * Form sections of a pengadaan, in the order they appear on the form
+ */
+export enum PengadaanSection {
+  DATA_UMUM = 'DATA UMUM PENGADAAN',
+  PERSIAPAN = 'PROSES PERSIAPAN PENGADAAN',
+  PENGADAAN = 'PROSES PENGADAAN',
+  KONTRAK = 'PROSES KONTRAK',
+}
+
+/**
+ * Value type of a field, used by exports and imports to pick typed cells; text when omitted
+ */
+export type PengadaanFieldType = 'amount' | 'date' | 'number';
+
+export interface PengadaanFieldDefinition {
+  key: keyof IPengadaan;
+  label: string;
+  section: PengadaanSection;
+  type?: PengadaanFieldType;
+}
+
+/**
+ * Every user-editable pengadaan field with its form label and section.
+ * Legacy fields are kept last under DATA UMUM so older exports still line up.
+ */
+export const PENGADAAN_FIELDS: readonly PengadaanFieldDefinition[] = [
+  // Section 1: DATA UMUM PENGADAAN
+  { key: 'sinergi', label: 'Sinergi/ Non Sinergi', section: PengadaanSection.DATA_UMUM },
+  { key: 'namaPaket', label: 'Nama Paket Pengadaan', section: PengadaanSection.DATA_UMUM },
+  { key: 'lapPtm', label: 'Lap PTM', section: PengadaanSection.DATA_UMUM },
+  { key: 'sla', label: 'SLA/ Non SLA', section: PengadaanSection.DATA_UMUM },
+  { key: 'tahunSla', label: 'Tahun SLA', section: PengadaanSection.DATA_UMUM },
+  { key: 'costSaving', label: 'CostSaving/ Non CostSaving', section: PengadaanSection.DATA_UMUM },
+  { key: 'tahunCostSaving', label: 'Tahun CostSaving', section: PengadaanSection.DATA_UMUM },
+  { key: 'barangJasa', label: 'Barang/Jasa', section: PengadaanSection.DATA_UMUM },
+
+  // Section 2: PROSES PERSIAPAN PENGADAAN
+  { key: 'penggunaBarangJasa', label: 'Pengguna Barang/ Jasa', section: PengadaanSection.PERSIAPAN },
+  { key: 'jenisPaket', label: 'Jenis Paket Pengadaan', section: PengadaanSection.PERSIAPAN },
+  { key: 'jenisPengadaan', label: 'Jenis Pengadaan', section: PengadaanSection.PERSIAPAN },
+  { key: 'baseline', label: 'Baseline', section: PengadaanSection.PERSIAPAN },
+  { key: 'noPpl', label: 'No PPL', section: PengadaanSection.PERSIAPAN },
+  { key: 'metodePengadaan', label: 'Metode Pengadaan', section: PengadaanSection.PERSIAPAN },
+  { key: 'tahunAnggaran', label: 'Tahun Anggaran', section: PengadaanSection.PERSIAPAN },
+  { key: 'jenisAnggaran', label: 'Jenis Anggaran', section: PengadaanSection.PERSIAPAN },
+  { key: 'jenisKontrak', label: 'Jenis Kontrak', section: PengadaanSection.PERSIAPAN },
+  { key: 'nilaiAnggaranIdr', label: 'Nilai Anggaran (IDR)', section: PengadaanSection.PERSIAPAN, type: 'amount' },
+  { key: 'nilaiAnggaranUsd', label: 'Nilai Anggaran (USD)', section: PengadaanSection.PERSIAPAN, type: 'amount' },
+  { key: 'nilaiHpsCurrency', label: 'Mata Uang HPS', section: PengadaanSection.PERSIAPAN },
+  { key: 'nilaiHpsAmount', label: 'Nilai HPS', section: PengadaanSection.PERSIAPAN, type: 'amount' },
+  { key: 'nilaiHpsEqRupiah', label: 'Nilai HPS Eq. Rupiah', section: PengadaanSection.PERSIAPAN, type: 'amount' },
+  { key: 'nilaiHpsPortiTahun', label: 'Nilai HPS Porsi Tahun Berjalan', section: PengadaanSection.PERSIAPAN, type: 'amount' },
+  { key: 'bulanPermintaan', label: 'Bulan Permintaan', section: PengadaanSection.PERSIAPAN },
+  { key: 'tanggalPermintaan', label: 'Tanggal Permintaan', section: PengadaanSection.PERSIAPAN, type: 'date' },
+  { key: 'tanggalPermintaanDiterima', label: 'Tanggal Permintaan Diterima', section: PengadaanSection.PERSIAPAN, type: 'date' },
+  { key: 'tanggalRapatPersiapan', label: 'Tanggal Rapat Persiapan', section: PengadaanSection.PERSIAPAN, type: 'date' },
+  { key: 'tanggalRevisiPermintaan', label: 'Tanggal Revisi Permintaan', section: PengadaanSection.PERSIAPAN, type: 'date' },
+  { key: 'lamaRevisiPermintaan', label: 'Lama Revisi Permintaan (Hari Kerja)', section: PengadaanSection.PERSIAPAN, type: 'number' },
+  { key: 'noPurchaseRequisition', label: 'No Purchase Requisition', section: PengadaanSection.PERSIAPAN },
+  { key: 'tanggalPurchaseRequisition', label: 'Tanggal Purchase Requisition MySAP', section: PengadaanSection.PERSIAPAN, type: 'date' },
+  { key: 'jenisMySap', label: 'Jenis MySAP', section: PengadaanSection.PERSIAPAN },
+  { key: 'tanggalPerintahPengadaan', label: 'Tanggal Perintah Pengadaan', section: PengadaanSection.PERSIAPAN, type: 'date' },
+  { key: 'lamaProsesPersiapan', label: 'Lama Proses Persiapan Pengadaan (Hari Kerja)', section: PengadaanSection.PERSIAPAN, type: 'number' },
+  { key: 'kategoriRisiko', label: 'Kategori Risiko', section: PengadaanSection.PERSIAPAN },
+  { key: 'keteranganPersiapan', label: 'Keterangan Persiapan', section: PengadaanSection.PERSIAPAN },
+  { key: 'picTimPpsm', label: 'PIC Tim PPSM', section: PengadaanSection.PERSIAPAN },
+
+  // Section 3: PROSES PENGADAAN
+  { key: 'suratPenunjukan', label: 'Surat Penunjukan Pelaksana Pekerjaan', section: PengadaanSection.PENGADAAN, type: 'date' },
+  { key: 'lamaProsesPengadaan', label: 'Lama Proses Pengadaan (Hari Kerja)', section: PengadaanSection.PENGADAAN, type: 'number' },
+  { key: 'jangkaWaktuPengerjaan', label: 'Jangka Waktu Pengerjaan', section: PengadaanSection.PENGADAAN },
+  { key: 'nilaiPenunjukanCurrency', label: 'Mata Uang Penunjukan', section: PengadaanSection.PENGADAAN },
+  { key: 'nilaiPenunjukanAmount', label: 'Nilai Penunjukan', section: PengadaanSection.PENGADAAN, type: 'amount' },
+  { key: 'nilaiPenunjukanEqRupiah', label: 'Nilai Penunjukan Eq. Rupiah', section: PengadaanSection.PENGADAAN, type: 'amount' },
+  { key: 'statusPengadaan', label: 'Status Pengadaan', section: PengadaanSection.PENGADAAN },
+  { key: 'bulanSelesai', label: 'Bulan Selesai', section: PengadaanSection.PENGADAAN },
+  { key: 'keteranganPengadaan', label: 'Keterangan Pengadaan', section: PengadaanSection.PENGADAAN },
+
+  // Section 4: PROSES KONTRAK
+  { key: 'costSavingRp', label: 'Cost Saving (Rp)', section: PengadaanSection.KONTRAK, type: 'amount' },
+  { key: 'nilaiKontrakRupiah', label: 'Nilai Kontrak (Rupiah)', section: PengadaanSection.KONTRAK, type: 'amount' },
+  { key: 'nilaiKontrakUsd', label: 'Nilai Kontrak (USD)', section: PengadaanSection.KONTRAK, type: 'amount' },
+  { key: 'nilaiKontrakPortiTahun', label: 'Nilai Kontrak Porsi Tahun Berjalan (Rupiah)', section: PengadaanSection.KONTRAK, type: 'amount' },
+  { key: 'penyediaBarangJasa', label: 'Penyedia Barang/ Jasa/ Konsultan', section: PengadaanSection.KONTRAK },
+  { key: 'statusPenyedia', label: 'Status Penyedia (UMKM/Non UMKM)', section: PengadaanSection.KONTRAK },
+  { key: 'kontrakNomor', label: 'Nomor Kontrak', section: PengadaanSection.KONTRAK },
+  { key: 'kontrakTanggal', label: 'Tanggal Kontrak', section: PengadaanSection.KONTRAK, type: 'date' },
+
+  // Legacy fields
+  { key: 'nama', label: 'Nama', section: PengadaanSection.DATA_UMUM },
+  { key: 'kategori', label: 'Kategori', section: PengadaanSection.DATA_UMUM },
+  { key: 'deskripsi', label: 'Deskripsi', section: PengadaanSection.DATA_UMUM },
+  { key: 'vendor', label: 'Vendor', section: PengadaanSection.DATA_UMUM },
+  { key: 'nilai', label: 'Nilai', section: PengadaanSection.DATA_UMUM, type: 'amount' },
+  { key: 'tanggal', label: 'Tanggal', section: PengadaanSection.DATA_UMUM, type: 'date' },
+  { key: 'deadline', label: 'Deadline', section: PengadaanSection.DATA_UMUM, type: 'date' },
+];
+
+/**
+ * Keys of every user-editable field, used to decide what an update may touch and diff
+ */
+export const PENGADAAN_FIELD_KEYS: readonly string[] = PENGADAAN_FIELDS.map((field) => field.key);
+
+/**
+ * Keys of the monetary fields, stored as Decimal128 and served as text
+ */
+export const PENGADAAN_AMOUNT_FIELDS: readonly string[] = PENGADAAN_FIELDS.filter(
+  (field) => field.type === 'amount'
+).map((field) => field.key);
+
+/**
+ * Keys of the date fields, stored as dates and served as "YYYY-MM-DD"
+ */
+export const PENGADAAN_DATE_FIELDS: readonly string[] = PENGADAAN_FIELDS.filter(
+  (field) => field.type === 'date'
+).map((field) => field.key);
+
+/**
+ * Text fields the analytics endpoint can group and filter packages by
+ */
+export const ANALYTICS_DIMENSIONS = [
+  'metodePengadaan',
+  'jenisPengadaan',
+  'picTimPpsm',
+  'penggunaBarangJasa',
+  'statusPenyedia',
+  'kategoriRisiko',
+  'jenisPaket',
+  'jenisAnggaran',
+  'jenisKontrak',
+  'tahunAnggaran',
+  'barangJasa',
+  'status',
+  'kategori',
+] as const;
+
+export type AnalyticsDimension = (typeof ANALYTICS_DIMENSIONS)[number];
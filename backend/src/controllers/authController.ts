@@ -1,6 +1,6 @@
 import { Request, Response, NextFunction } from 'express';
 import authService, { RegisterData, LoginData, PasswordChangeData, ProfileUpdateData } from '../services/authService';
-import { UserRole, UserStatus } from '../models/User';
+import { ApproverRole, UserRole, UserStatus } from '../models/User';
 import { AppError } from '../utils/errors';
 import { sendSuccess as successResponse } from '../utils/response';
 import { commonSchemas } from '../utils/validation';
@@ -259,6 +259,40 @@ class AuthController {
     }
   }
 
+  /**
+   * Update the approval chain roles a user holds (admin only)
+   */
+  async updateApproverRoles(req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user || req.user.role !== UserRole.ADMIN) {
+        throw new AppError('Access denied. Admin role required.', 403);
+      }
+
+      const { userId } = req.params;
+      if (!userId) {
+        throw new AppError('User ID is required', 400);
+      }
+
+      const { approverRoles } = req.body;
+
+      if (
+        !Array.isArray(approverRoles) ||
+        !approverRoles.every((role) => Object.values(ApproverRole).includes(role))
+      ) {
+        throw new AppError(
+          `approverRoles must be an array of: ${Object.values(ApproverRole).join(', ')}`,
+          400
+        );
+      }
+
+      const updatedUser = await authService.updateApproverRoles(userId, approverRoles);
+
+      successResponse(res, updatedUser, 'User approver roles updated successfully');
+    } catch (error) {
+      next(error);
+    }
+  }
+
   /**
    * Update user status (admin only)
    */
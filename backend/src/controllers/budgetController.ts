@@ -0,0 +1,198 @@
+import { Request, Response, NextFunction } from "express";
+import budgetService from "../services/budgetService";
+import {
+  sendSuccess,
+  sendCreated,
+  sendNoContent,
+  sendPaginated,
+  getRequestId,
+} from "../utils/response";
+import { AuthenticationError } from "../utils/errors";
+import { logger } from "../utils/logger";
+import {
+  ValidatedCreateBudget,
+  ValidatedUpdateBudget,
+  ValidatedBudgetQuery,
+  ValidatedBudgetAbsorption,
+  ValidatedBudgetCheck,
+} from "../utils/validation";
+import { AuthenticatedRequest } from "../middleware/auth";
+
+/**
+ * Resolve the ID of the authenticated user
+ */
+const getUserId = (req: Request): string => {
+  const user = (req as AuthenticatedRequest).user;
+  if (!user) {
+    throw new AuthenticationError("Authentication required");
+  }
+  return user.id;
+};
+
+/**
+ * List budget ceilings by year, budget type and user unit
+ */
+export const getBudgets = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const requestId = getRequestId(req);
+    const query = req.query as unknown as ValidatedBudgetQuery;
+
+    const result = await budgetService.listBudgets(query);
+
+    sendPaginated(
+      res,
+      result.data,
+      query.page,
+      query.limit,
+      result.total,
+      "Budgets retrieved successfully",
+      requestId
+    );
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Get a budget with its committed, realised and remaining amounts
+ */
+export const getBudgetById = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const requestId = getRequestId(req);
+    const budget = await budgetService.getBudgetById(req.params["id"] as string);
+
+    sendSuccess(res, budget, "Budget retrieved successfully", 200, undefined, requestId);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Budget absorption per budget with totals, for the dashboard
+ */
+export const getBudgetAbsorption = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const requestId = getRequestId(req);
+    const filters = req.query as unknown as ValidatedBudgetAbsorption;
+
+    const absorption = await budgetService.getAbsorption(filters);
+
+    sendSuccess(res, absorption, "Budget absorption retrieved successfully", 200, undefined, requestId);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Check whether a new package would exceed the remaining budget; data is null when it fits
+ */
+export const checkBudgetCeiling = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const requestId = getRequestId(req);
+    const target = req.query as unknown as ValidatedBudgetCheck;
+
+    const warning = await budgetService.checkCeiling(target);
+
+    sendSuccess(
+      res,
+      warning,
+      warning ? "Package exceeds the remaining budget" : "Package fits the remaining budget",
+      200,
+      undefined,
+      requestId
+    );
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Create budget
+ */
+export const createBudget = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const requestId = getRequestId(req);
+    const userId = getUserId(req);
+
+    const budget = await budgetService.createBudget(req.body as ValidatedCreateBudget, userId);
+
+    logger.info("Budget created successfully", { requestId, userId });
+    sendCreated(res, budget, "Budget created successfully", requestId);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Update budget
+ */
+export const updateBudget = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const requestId = getRequestId(req);
+    const userId = getUserId(req);
+    const id = req.params["id"] as string;
+
+    const budget = await budgetService.updateBudget(id, req.body as ValidatedUpdateBudget, userId);
+
+    logger.info("Budget updated successfully", { requestId, budgetId: id, userId });
+    sendSuccess(res, budget, "Budget updated successfully", 200, undefined, requestId);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Delete budget
+ */
+export const deleteBudget = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const requestId = getRequestId(req);
+    const userId = getUserId(req);
+    const id = req.params["id"] as string;
+
+    await budgetService.deleteBudget(id, userId);
+
+    logger.info("Budget deleted successfully", { requestId, budgetId: id, userId });
+    sendNoContent(res, "Budget deleted successfully", requestId);
+  } catch (error) {
+    next(error);
+  }
+};
+
+export default {
+  getBudgets,
+  getBudgetById,
+  getBudgetAbsorption,
+  checkBudgetCeiling,
+  createBudget,
+  updateBudget,
+  deleteBudget,
+};
@@ -0,0 +1,202 @@
+import { Request, Response, NextFunction } from "express";
+import calendarService from "../services/calendarService";
+import {
+  sendSuccess,
+  sendCreated,
+  sendNoContent,
+  getRequestId,
+} from "../utils/response";
+import { AuthenticationError } from "../utils/errors";
+import { formatDateOnly } from "../utils/date";
+import { logger } from "../utils/logger";
+import {
+  ValidatedHolidayQuery,
+  ValidatedCreateHoliday,
+  ValidatedUpdateHoliday,
+  ValidatedSeedHolidays,
+  ValidatedWorkingDays,
+  ValidatedAddWorkingDays,
+} from "../utils/validation";
+import { AuthenticatedRequest } from "../middleware/auth";
+
+/**
+ * Resolve the ID of the authenticated user
+ */
+const getUserId = (req: Request): string => {
+  const user = (req as AuthenticatedRequest).user;
+  if (!user) {
+    throw new AuthenticationError("Authentication required");
+  }
+  return user.id;
+};
+
+/**
+ * Working days between two dates
+ */
+export const getWorkingDays = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const requestId = getRequestId(req);
+    const { from, to } = req.query as unknown as ValidatedWorkingDays;
+
+    const workingDays = await calendarService.countWorkingDays(from, to);
+
+    sendSuccess(
+      res,
+      { from: formatDateOnly(from), to: formatDateOnly(to), workingDays },
+      "Working days calculated successfully",
+      200,
+      undefined,
+      requestId
+    );
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Date a number of working days after another
+ */
+export const addWorkingDays = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const requestId = getRequestId(req);
+    const { from, days } = req.query as unknown as ValidatedAddWorkingDays;
+
+    const date = await calendarService.addWorkingDays(from, days);
+
+    sendSuccess(
+      res,
+      { from: formatDateOnly(from), days, date: formatDateOnly(date) },
+      "Working days added successfully",
+      200,
+      undefined,
+      requestId
+    );
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * List holidays in date order
+ */
+export const getHolidays = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const requestId = getRequestId(req);
+    const query = req.query as unknown as ValidatedHolidayQuery;
+
+    const holidays = await calendarService.listHolidays(query);
+
+    sendSuccess(res, holidays, "Holidays retrieved successfully", 200, undefined, requestId);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Load the bundled holidays that are not stored yet
+ */
+export const seedHolidays = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const requestId = getRequestId(req);
+    const userId = getUserId(req);
+    const { tahun } = req.body as ValidatedSeedHolidays;
+
+    const added = await calendarService.seedHolidays(tahun);
+
+    logger.info("Holidays seeded successfully", { requestId, tahun, added, userId });
+    sendSuccess(res, { added }, "Holidays seeded successfully", 200, undefined, requestId);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Create holiday
+ */
+export const createHoliday = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const requestId = getRequestId(req);
+    const userId = getUserId(req);
+
+    const holiday = await calendarService.createHoliday(req.body as ValidatedCreateHoliday, userId);
+
+    logger.info("Holiday created successfully", { requestId, userId });
+    sendCreated(res, holiday, "Holiday created successfully", requestId);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Update holiday
+ */
+export const updateHoliday = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const requestId = getRequestId(req);
+    const userId = getUserId(req);
+    const id = req.params["id"] as string;
+
+    const holiday = await calendarService.updateHoliday(id, req.body as ValidatedUpdateHoliday, userId);
+
+    logger.info("Holiday updated successfully", { requestId, holidayId: id, userId });
+    sendSuccess(res, holiday, "Holiday updated successfully", 200, undefined, requestId);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Delete holiday
+ */
+export const deleteHoliday = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const requestId = getRequestId(req);
+    const userId = getUserId(req);
+    const id = req.params["id"] as string;
+
+    await calendarService.deleteHoliday(id, userId);
+
+    logger.info("Holiday deleted successfully", { requestId, holidayId: id, userId });
+    sendNoContent(res, "Holiday deleted successfully", requestId);
+  } catch (error) {
+    next(error);
+  }
+};
+
+export default {
+  getWorkingDays,
+  addWorkingDays,
+  getHolidays,
+  seedHolidays,
+  createHoliday,
+  updateHoliday,
+  deleteHoliday,
+};
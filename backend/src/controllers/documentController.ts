@@ -0,0 +1,142 @@
+import { Request, Response, NextFunction } from "express";
+import documentService from "../services/documentService";
+import {
+  sendSuccess,
+  sendCreated,
+  sendNoContent,
+  getRequestId,
+} from "../utils/response";
+import { AuthenticationError } from "../utils/errors";
+import { logger } from "../utils/logger";
+import {
+  ValidatedCreateDocumentTemplate,
+  ValidatedUpdateDocumentTemplate,
+} from "../utils/validation";
+import { AuthenticatedRequest } from "../middleware/auth";
+
+/**
+ * Resolve the ID of the authenticated user
+ */
+const getUserId = (req: Request): string => {
+  const user = (req as AuthenticatedRequest).user;
+  if (!user) {
+    throw new AuthenticationError("Authentication required");
+  }
+  return user.id;
+};
+
+/**
+ * List document templates
+ */
+export const getDocumentTemplates = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const requestId = getRequestId(req);
+
+    const templates = await documentService.listTemplates();
+
+    sendSuccess(res, templates, "Document templates retrieved successfully", 200, undefined, requestId);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Create document template
+ */
+export const createDocumentTemplate = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const requestId = getRequestId(req);
+    const userId = getUserId(req);
+
+    const template = await documentService.createTemplate(req.body as ValidatedCreateDocumentTemplate, userId);
+
+    logger.info("Document template created successfully", { requestId, userId });
+    sendCreated(res, template, "Document template created successfully", requestId);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Update document template
+ */
+export const updateDocumentTemplate = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const requestId = getRequestId(req);
+    const userId = getUserId(req);
+    const id = req.params["id"] as string;
+
+    const template = await documentService.updateTemplate(id, req.body as ValidatedUpdateDocumentTemplate, userId);
+
+    logger.info("Document template updated successfully", { requestId, documentTemplateId: id, userId });
+    sendSuccess(res, template, "Document template updated successfully", 200, undefined, requestId);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Delete document template
+ */
+export const deleteDocumentTemplate = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const requestId = getRequestId(req);
+    const userId = getUserId(req);
+    const id = req.params["id"] as string;
+
+    await documentService.deleteTemplate(id, userId);
+
+    logger.info("Document template deleted successfully", { requestId, documentTemplateId: id, userId });
+    sendNoContent(res, "Document template deleted successfully", requestId);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Download a pengadaan document rendered from a template as PDF
+ */
+export const getPengadaanDocument = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const requestId = getRequestId(req);
+    const id = req.params["id"] as string;
+    const template = req.params["template"] as string;
+
+    const file = await documentService.generateDocument(id, template);
+
+    logger.info("Pengadaan document downloaded", { requestId, pengadaanId: id, template });
+    res.setHeader("Content-Type", file.contentType);
+    res.setHeader("Content-Disposition", `attachment; filename="${file.filename}"`);
+    res.send(file.buffer);
+  } catch (error) {
+    next(error);
+  }
+};
+
+export default {
+  getDocumentTemplates,
+  createDocumentTemplate,
+  updateDocumentTemplate,
+  deleteDocumentTemplate,
+  getPengadaanDocument,
+};
@@ -0,0 +1,150 @@
+import { Request, Response, NextFunction } from "express";
+import exchangeRateService from "../services/exchangeRateService";
+import {
+  sendSuccess,
+  sendCreated,
+  sendNoContent,
+  sendPaginated,
+  getRequestId,
+} from "../utils/response";
+import { AuthenticationError } from "../utils/errors";
+import { logger } from "../utils/logger";
+import {
+  ValidatedCreateExchangeRate,
+  ValidatedUpdateExchangeRate,
+  ValidatedExchangeRateQuery,
+  ValidatedEffectiveExchangeRate,
+} from "../utils/validation";
+import { AuthenticatedRequest } from "../middleware/auth";
+
+/**
+ * Resolve the ID of the authenticated user
+ */
+const getUserId = (req: Request): string => {
+  const user = (req as AuthenticatedRequest).user;
+  if (!user) {
+    throw new AuthenticationError("Authentication required");
+  }
+  return user.id;
+};
+
+/**
+ * List exchange rates, newest first
+ */
+export const getExchangeRates = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const requestId = getRequestId(req);
+    const query = req.query as unknown as ValidatedExchangeRateQuery;
+
+    const result = await exchangeRateService.listRates(query);
+
+    sendPaginated(
+      res,
+      result.data,
+      query.page,
+      query.limit,
+      result.total,
+      "Exchange rates retrieved successfully",
+      requestId
+    );
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Rate in force for a currency on a date (today by default)
+ */
+export const getEffectiveExchangeRate = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const requestId = getRequestId(req);
+    const { currency, date } = req.query as unknown as ValidatedEffectiveExchangeRate;
+
+    const rate = await exchangeRateService.getEffectiveRate(currency, date ?? new Date());
+
+    sendSuccess(res, rate, "Exchange rate retrieved successfully", 200, undefined, requestId);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Create exchange rate
+ */
+export const createExchangeRate = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const requestId = getRequestId(req);
+    const userId = getUserId(req);
+
+    const rate = await exchangeRateService.createRate(req.body as ValidatedCreateExchangeRate, userId);
+
+    logger.info("Exchange rate created successfully", { requestId, userId });
+    sendCreated(res, rate, "Exchange rate created successfully", requestId);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Update exchange rate
+ */
+export const updateExchangeRate = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const requestId = getRequestId(req);
+    const userId = getUserId(req);
+    const id = req.params["id"] as string;
+
+    const rate = await exchangeRateService.updateRate(id, req.body as ValidatedUpdateExchangeRate, userId);
+
+    logger.info("Exchange rate updated successfully", { requestId, exchangeRateId: id, userId });
+    sendSuccess(res, rate, "Exchange rate updated successfully", 200, undefined, requestId);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Delete exchange rate
+ */
+export const deleteExchangeRate = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const requestId = getRequestId(req);
+    const userId = getUserId(req);
+    const id = req.params["id"] as string;
+
+    await exchangeRateService.deleteRate(id, userId);
+
+    logger.info("Exchange rate deleted successfully", { requestId, exchangeRateId: id, userId });
+    sendNoContent(res, "Exchange rate deleted successfully", requestId);
+  } catch (error) {
+    next(error);
+  }
+};
+
+export default {
+  getExchangeRates,
+  getEffectiveExchangeRate,
+  createExchangeRate,
+  updateExchangeRate,
+  deleteExchangeRate,
+};
@@ -1,6 +1,12 @@
 import { Request, Response, NextFunction } from "express";
 import { ParsedQs } from "qs";
 import pengadaanService from "../services/pengadaanService";
+import exportService from "../services/exportService";
+import importService from "../services/importService";
+import backupService from "../services/backupService";
+import auditService from "../services/auditService";
+import vendorService from "../services/vendorService";
+import analyticsService from "../services/analyticsService";
 import {
   sendSuccess,
   sendCreated,
@@ -8,13 +14,43 @@ import {
   sendPaginated,
   getRequestId,
 } from "../utils/response";
-import { NotFoundError, ValidationError } from "../utils/errors";
+import {
+  AuthenticationError,
+  NotFoundError,
+  ValidationError,
+} from "../utils/errors";
 import { logger } from "../utils/logger";
 import {
   ValidatedCreatePengadaan,
   ValidatedUpdatePengadaan,
+  ValidatedTransitionPengadaan,
+  ValidatedApprovePengadaan,
+  ValidatedRejectPengadaan,
+  ValidatedPointInTime,
+  ValidatedRestorePengadaan,
+  ValidatedStatsQuery,
+  ValidatedAnalyticsQuery,
+  ValidatedActivityQuery,
+  ValidatedExportQuery,
+  ValidatedImportOptions,
+  ValidatedImportReportList,
+  ValidatedImportReportQuery,
+  ValidatedCreateBackup,
+  ValidatedRestoreBackup,
+  ValidatedRecycleBinList,
+  ValidatedReviewQueue,
+  ValidatedAuditLogList,
+  ValidatedVendorRating,
 } from "../utils/validation";
 import { AuthenticatedRequest } from "../middleware/auth";
+import { ANALYTICS_DIMENSIONS } from "../config/pengadaanFields";
+import {
+  AnalyticsQuery,
+  PengadaanQueryParams,
+  PengadaanStatus,
+  SlaStatus,
+  TransitionActor,
+} from "../types/pengadaan";
 
 /**
  * Extended request interface for pengadaan operations
@@ -24,6 +60,49 @@ interface PengadaanRequest extends AuthenticatedRequest {
   query: ParsedQs;
 }
 
+/**
+ * Resolve the authenticated user acting on a pengadaan
+ */
+const getActor = (req: AuthenticatedRequest): TransitionActor => {
+  if (!req.user) {
+    throw new AuthenticationError("Authentication required");
+  }
+  return {
+    id: req.user.id,
+    role: req.user.role,
+    approverRoles: req.user.approverRoles ?? [],
+  };
+};
+
+/**
+ * Read the list filters shared by the list and export endpoints from the query string
+ */
+const buildListParams = (req: Request): PengadaanQueryParams => {
+  const stringParam = (key: string): string | undefined =>
+    typeof req.query[key] === "string" ? (req.query[key] as string) : undefined;
+
+  const params: PengadaanQueryParams = {
+    sortBy: stringParam("sortBy") ?? "createdAt",
+    sortOrder: stringParam("sortOrder") === "asc" ? "asc" : "desc",
+  };
+  const startDate = stringParam("startDate");
+  const endDate = stringParam("endDate");
+  const search = stringParam("search");
+  const status = stringParam("status");
+  const kategori = stringParam("kategori");
+  const slaStatus = stringParam("slaStatus");
+  if (startDate) params.dateFrom = startDate;
+  if (endDate) params.dateTo = endDate;
+  if (search) params.search = search;
+  if (status) params.status = status;
+  if (kategori) params.kategori = kategori;
+  if (slaStatus && (Object.values(SlaStatus) as string[]).includes(slaStatus)) {
+    params.slaStatus = slaStatus as SlaStatus;
+  }
+
+  return params;
+};
+
 /**
  * Get all pengadaan with pagination, filtering, and search
  */
@@ -36,31 +115,6 @@ export const getAllPengadaan = async (
     const requestId = getRequestId(req);
     const page = Number(req.query["page"] ?? 1);
     const limit = Number(req.query["limit"] ?? 10);
-    const search =
-      typeof req.query["search"] === "string" ? req.query["search"] : undefined;
-    const status =
-      typeof req.query["status"] === "string" ? req.query["status"] : undefined;
-    const kategori =
-      typeof req.query["kategori"] === "string"
-        ? req.query["kategori"]
-        : undefined;
-    const sortBy =
-      typeof req.query["sortBy"] === "string"
-        ? req.query["sortBy"]
-        : "createdAt";
-    const sortOrderRaw =
-      typeof req.query["sortOrder"] === "string"
-        ? req.query["sortOrder"]
-        : "desc";
-    const sortOrder: "asc" | "desc" = sortOrderRaw === "asc" ? "asc" : "desc";
-    const startDate =
-      typeof req.query["startDate"] === "string"
-        ? req.query["startDate"]
-        : undefined;
-    const endDate =
-      typeof req.query["endDate"] === "string"
-        ? req.query["endDate"]
-        : undefined;
 
     logger.debug("Getting all pengadaan", {
       requestId,
@@ -68,17 +122,11 @@ export const getAllPengadaan = async (
       userId: req.user?.id,
     });
 
-    const params: import("../types/pengadaan").PengadaanQueryParams = {
+    const params: PengadaanQueryParams = {
+      ...buildListParams(req),
       page,
       limit,
-      sortBy,
-      sortOrder,
     };
-    if (startDate) params.dateFrom = startDate;
-    if (endDate) params.dateTo = endDate;
-    if (search) params.search = search;
-    if (status) params.status = status;
-    if (kategori) params.kategori = kategori;
 
     const result = await pengadaanService.getAllPengadaan(params);
 
@@ -154,11 +202,11 @@ export const createPengadaan = async (
     const pengadaanData = req.body as ValidatedCreatePengadaan;
     const userId = (req as AuthenticatedRequest).user?.id;
 
-    // Ensure createdBy is set from the authenticated user and default status if missing
+    // Ensure createdBy is set from the authenticated user; new packages always start as Draft
     const payload = {
       ...pengadaanData,
       createdBy: userId,
-      status: pengadaanData.status ?? 'Draft',
+      status: PengadaanStatus.DRAFT,
     } as ValidatedCreatePengadaan & { createdBy?: string; status?: string };
 
     logger.debug("Creating new pengadaan", {
@@ -169,7 +217,10 @@ export const createPengadaan = async (
       userId: req.user?.id,
     });
 
-    const newPengadaan = await pengadaanService.createPengadaan(payload as unknown as Record<string, unknown>);
+    const newPengadaan = await pengadaanService.createPengadaan(
+      payload as unknown as Record<string, unknown>,
+      getActor(req)
+    );
 
     logger.info("Pengadaan created successfully", {
       requestId,
@@ -178,7 +229,14 @@ export const createPengadaan = async (
       userId: req.user?.id,
     });
 
-    sendCreated(res, newPengadaan, "Pengadaan created successfully", requestId);
+    sendCreated(
+      res,
+      newPengadaan,
+      newPengadaan.budgetWarning
+        ? "Pengadaan created; it exceeds the remaining budget"
+        : "Pengadaan created successfully",
+      requestId
+    );
   } catch (error) {
     next(error);
   }
@@ -210,7 +268,8 @@ export const updatePengadaan = async (
 
     const updatedPengadaan = await pengadaanService.updatePengadaan(
       id,
-      updateData
+      updateData,
+      getActor(req)
     );
 
     if (!updatedPengadaan) {
@@ -238,9 +297,9 @@ export const updatePengadaan = async (
 };
 
 /**
- * Delete pengadaan by ID
+ * Get the edit history of a pengadaan with user names
  */
-export const deletePengadaan = async (
+export const getPengadaanHistory = async (
   req: Request,
   res: Response,
   next: NextFunction
@@ -253,48 +312,57 @@ export const deletePengadaan = async (
       throw new ValidationError("ID is required");
     }
 
-    logger.debug("Deleting pengadaan", {
+    logger.debug("Getting pengadaan history", {
       requestId,
       pengadaanId: id,
       userId: (req as AuthenticatedRequest).user?.id,
     });
 
-    await pengadaanService.deletePengadaan(id);
-
-    logger.info("Pengadaan deleted successfully", {
-      requestId,
-      pengadaanId: id,
-      userId: (req as AuthenticatedRequest).user?.id,
-    });
+    const history = await pengadaanService.getPengadaanHistory(id);
 
-    sendNoContent(res, "Pengadaan deleted successfully", requestId);
+    sendSuccess(
+      res,
+      { history },
+      "Pengadaan history retrieved successfully",
+      200,
+      undefined,
+      requestId
+    );
   } catch (error) {
     next(error);
   }
 };
 
 /**
- * Get pengadaan statistics
+ * Reconstruct a pengadaan as it was at a past timestamp (admin only)
  */
-export const getPengadaanStats = async (
-  req: Request,
+export const getPengadaanSnapshot = async (
+  req: AuthenticatedRequest,
   res: Response,
   next: NextFunction
 ): Promise<void> => {
   try {
     const requestId = getRequestId(req);
+    const id = req.params["id"] as string;
+    const { at } = req.query as unknown as ValidatedPointInTime;
 
-    logger.debug("Getting pengadaan statistics", {
+    if (!id) {
+      throw new ValidationError("ID is required");
+    }
+
+    logger.debug("Reconstructing pengadaan", {
       requestId,
-      userId: (req as AuthenticatedRequest).user?.id,
+      pengadaanId: id,
+      at,
+      userId: req.user?.id,
     });
 
-    const stats = await pengadaanService.getPengadaanStats();
+    const snapshot = await pengadaanService.getPengadaanAt(id, at);
 
     sendSuccess(
       res,
-      stats,
-      "Pengadaan statistics retrieved successfully",
+      snapshot,
+      "Pengadaan snapshot reconstructed successfully",
       200,
       undefined,
       requestId
@@ -305,36 +373,49 @@ export const getPengadaanStats = async (
 };
 
 /**
- * Search pengadaan
+ * Restore a pengadaan to its state at a past timestamp (admin only)
  */
-export const searchPengadaan = async (
-  req: PengadaanRequest,
+export const restorePengadaan = async (
+  req: AuthenticatedRequest,
   res: Response,
   next: NextFunction
 ): Promise<void> => {
   try {
     const requestId = getRequestId(req);
-    const query =
-      typeof req.query["q"] === "string" ? req.query["q"] : undefined;
-    const limit = Number(req.query["limit"] ?? 10);
+    const id = req.params["id"] as string;
+    const { at } = req.query as unknown as ValidatedPointInTime;
+    const { blacklistOverrideReason } = req.body as ValidatedRestorePengadaan;
 
-    if (!query || typeof query !== "string") {
-      throw new ValidationError("Search query is required", "q", query);
+    if (!id) {
+      throw new ValidationError("ID is required");
     }
+    const actor = getActor(req);
 
-    logger.debug("Searching pengadaan", {
+    logger.debug("Restoring pengadaan", {
       requestId,
-      query,
-      limit,
-      userId: req.user?.id,
+      pengadaanId: id,
+      at,
+      userId: actor.id,
     });
 
-    const results = await pengadaanService.searchPengadaan(query, limit);
+    const restoredPengadaan = await pengadaanService.restorePengadaan(
+      id,
+      at,
+      actor,
+      blacklistOverrideReason
+    );
+
+    logger.info("Pengadaan restored successfully", {
+      requestId,
+      pengadaanId: id,
+      at,
+      userId: actor.id,
+    });
 
     sendSuccess(
       res,
-      results,
-      "Search completed successfully",
+      restoredPengadaan,
+      "Pengadaan restored successfully",
       200,
       undefined,
       requestId
@@ -345,66 +426,32 @@ export const searchPengadaan = async (
 };
 
 /**
- * Bulk create pengadaan
+ * Get the lifecycle transitions available to the current user
  */
-export const bulkCreatePengadaan = async (
-  req: Request,
+export const getPengadaanTransitions = async (
+  req: AuthenticatedRequest,
   res: Response,
   next: NextFunction
 ): Promise<void> => {
   try {
     const requestId = getRequestId(req);
-    const { pengadaanList } = req.body;
-
-    if (!Array.isArray(pengadaanList) || pengadaanList.length === 0) {
-      throw new ValidationError(
-        "pengadaanList must be a non-empty array",
-        "pengadaanList",
-        pengadaanList
-      );
-    }
-
-    logger.debug("Bulk creating pengadaan", {
-      requestId,
-      count: pengadaanList.length,
-      userId: (req as AuthenticatedRequest).user?.id,
-    });
-
-    // Since bulkCreatePengadaan doesn't exist in service, we'll create individually
-    const results = {
-      success: [] as import("../types/pengadaan").PengadaanResponse[],
-      errors: [] as {
-        data: import("../types/pengadaan").CreatePengadaanDTO;
-        error: string;
-      }[],
-    };
+    const id = req.params["id"] as string;
 
-    for (const pengadaanData of pengadaanList) {
-      try {
-        const created = await pengadaanService.createPengadaan(
-          pengadaanData as import("../types/pengadaan").CreatePengadaanDTO
-        );
-        results.success.push(created);
-      } catch (error) {
-        results.errors.push({
-          data: pengadaanData,
-          error: error instanceof Error ? error.message : "Unknown error",
-        });
-      }
+    if (!id) {
+      throw new ValidationError("ID is required");
     }
 
-    logger.info("Bulk pengadaan creation completed", {
-      requestId,
-      totalRequested: pengadaanList.length,
-      successCount: results.success.length,
-      errorCount: results.errors.length,
-      userId: (req as AuthenticatedRequest).user?.id,
-    });
+    const transitions = await pengadaanService.getAvailableTransitions(
+      id,
+      getActor(req)
+    );
 
-    sendCreated(
+    sendSuccess(
       res,
-      results,
-      `Bulk operation completed: ${results.success.length} created, ${results.errors.length} failed`,
+      { transitions },
+      "Available transitions retrieved successfully",
+      200,
+      undefined,
       requestId
     );
   } catch (error) {
@@ -413,64 +460,48 @@ export const bulkCreatePengadaan = async (
 };
 
 /**
- * Bulk update pengadaan
+ * Move pengadaan to a new lifecycle status
  */
-export const bulkUpdatePengadaan = async (
-  req: Request,
+export const transitionPengadaan = async (
+  req: AuthenticatedRequest,
   res: Response,
   next: NextFunction
 ): Promise<void> => {
   try {
     const requestId = getRequestId(req);
-    const { updates } = req.body;
+    const id = req.params["id"] as string;
+    const { to, reason } = req.body as ValidatedTransitionPengadaan;
 
-    if (!Array.isArray(updates) || updates.length === 0) {
-      throw new ValidationError(
-        "updates must be a non-empty array",
-        "updates",
-        updates
-      );
+    if (!id) {
+      throw new ValidationError("ID is required");
     }
+    const actor = getActor(req);
 
-    logger.debug("Bulk updating pengadaan", {
+    logger.debug("Transitioning pengadaan", {
       requestId,
-      count: updates.length,
-      userId: (req as AuthenticatedRequest).user?.id,
+      pengadaanId: id,
+      to,
+      userId: actor.id,
     });
 
-    // Since bulkUpdatePengadaan doesn't exist in service, we'll update individually
-    const results = {
-      success: [] as import("../types/pengadaan").PengadaanResponse[],
-      errors: [] as { id: string; error: string }[],
-    };
-
-    for (const update of updates) {
-      try {
-        const updated = await pengadaanService.updatePengadaan(
-          update.id,
-          update.data
-        );
-        results.success.push(updated);
-      } catch (error) {
-        results.errors.push({
-          id: update.id,
-          error: error instanceof Error ? error.message : "Unknown error",
-        });
-      }
-    }
+    const updatedPengadaan = await pengadaanService.transitionPengadaan(
+      id,
+      to,
+      actor,
+      reason
+    );
 
-    logger.info("Bulk pengadaan update completed", {
+    logger.info("Pengadaan transitioned successfully", {
       requestId,
-      totalRequested: updates.length,
-      successCount: results.success.length,
-      errorCount: results.errors.length,
-      userId: (req as AuthenticatedRequest).user?.id,
+      pengadaanId: id,
+      status: updatedPengadaan.status,
+      userId: actor.id,
     });
 
     sendSuccess(
       res,
-      results,
-      `Bulk update completed: ${results.success.length} updated, ${results.errors.length} failed`,
+      updatedPengadaan,
+      `Pengadaan moved to ${updatedPengadaan.status}`,
       200,
       undefined,
       requestId
@@ -481,58 +512,34 @@ export const bulkUpdatePengadaan = async (
 };
 
 /**
- * Bulk delete pengadaan
+ * Submit pengadaan for review
  */
-export const bulkDeletePengadaan = async (
-  req: Request,
+export const submitPengadaan = async (
+  req: AuthenticatedRequest,
   res: Response,
   next: NextFunction
 ): Promise<void> => {
   try {
     const requestId = getRequestId(req);
-    const { ids } = req.body;
+    const id = req.params["id"] as string;
 
-    if (!Array.isArray(ids) || ids.length === 0) {
-      throw new ValidationError("ids must be a non-empty array", "ids", ids);
+    if (!id) {
+      throw new ValidationError("ID is required");
     }
+    const actor = getActor(req);
 
-    logger.debug("Bulk deleting pengadaan", {
-      requestId,
-      count: ids.length,
-      ids,
-      userId: (req as AuthenticatedRequest).user?.id,
-    });
-
-    // Since bulkDeletePengadaan doesn't exist in service, we'll delete individually
-    const results = {
-      success: [] as string[],
-      errors: [] as { id: string; error: string }[],
-    };
-
-    for (const id of ids) {
-      try {
-        await pengadaanService.deletePengadaan(id);
-        results.success.push(id);
-      } catch (error) {
-        results.errors.push({
-          id,
-          error: error instanceof Error ? error.message : "Unknown error",
-        });
-      }
-    }
+    const submitted = await pengadaanService.submitPengadaan(id, actor);
 
-    logger.info("Bulk pengadaan deletion completed", {
+    logger.info("Pengadaan submitted for review", {
       requestId,
-      totalRequested: ids.length,
-      successCount: results.success.length,
-      errorCount: results.errors.length,
-      userId: (req as AuthenticatedRequest).user?.id,
+      pengadaanId: id,
+      userId: actor.id,
     });
 
     sendSuccess(
       res,
-      results,
-      `Bulk delete completed: ${results.success.length} deleted, ${results.errors.length} failed`,
+      submitted,
+      "Pengadaan submitted for review",
       200,
       undefined,
       requestId
@@ -543,151 +550,934 @@ export const bulkDeletePengadaan = async (
 };
 
 /**
- * Export pengadaan data
+ * Approve submitted pengadaan (admin only)
  */
-export const exportPengadaan = async (
-  req: PengadaanRequest,
+export const approvePengadaan = async (
+  req: AuthenticatedRequest,
   res: Response,
   next: NextFunction
 ): Promise<void> => {
   try {
     const requestId = getRequestId(req);
-    const format =
-      typeof req.query["format"] === "string" ? req.query["format"] : "json";
-    const filters: {
-      search?: string;
-      status?: string;
-      kategori?: string;
-      sortBy?: string;
-      sortOrder?: "asc" | "desc";
-      dateFrom?: string;
-      dateTo?: string;
-    } = {};
-    const search =
-      typeof req.query["search"] === "string" ? req.query["search"] : undefined;
-    const status =
-      typeof req.query["status"] === "string" ? req.query["status"] : undefined;
-    const kategori =
-      typeof req.query["kategori"] === "string"
-        ? req.query["kategori"]
-        : undefined;
-    const sortBy =
-      typeof req.query["sortBy"] === "string" ? req.query["sortBy"] : undefined;
-    const sortOrderStr =
-      typeof req.query["sortOrder"] === "string"
-        ? req.query["sortOrder"]
-        : undefined;
-    const sortOrder: "asc" | "desc" | undefined =
-      sortOrderStr === "asc"
-        ? "asc"
-        : sortOrderStr === "desc"
-        ? "desc"
-        : undefined;
-    const dateFrom =
-      typeof req.query["startDate"] === "string"
-        ? req.query["startDate"]
-        : undefined;
-    const dateTo =
-      typeof req.query["endDate"] === "string"
-        ? req.query["endDate"]
-        : undefined;
-    if (search) filters.search = search;
-    if (status) filters.status = status;
-    if (kategori) filters.kategori = kategori;
-    if (sortBy) filters.sortBy = sortBy;
-    if (sortOrder) filters.sortOrder = sortOrder;
-    if (dateFrom) filters.dateFrom = dateFrom;
-    if (dateTo) filters.dateTo = dateTo;
+    const id = req.params["id"] as string;
+    const { reason } = req.body as ValidatedApprovePengadaan;
 
-    logger.debug("Exporting pengadaan data", {
+    if (!id) {
+      throw new ValidationError("ID is required");
+    }
+    const actor = getActor(req);
+
+    const approved = await pengadaanService.approvePengadaan(id, actor, reason);
+
+    logger.info("Pengadaan approved", {
       requestId,
-      format,
-      filters,
-      userId: req.user?.id,
+      pengadaanId: id,
+      userId: actor.id,
     });
 
-    // Get all data without pagination for export
-    const result = await pengadaanService.getAllPengadaan({
-      ...filters,
-      page: 1,
-      limit: 10000, // Large limit for export
-    });
+    sendSuccess(res, approved, "Pengadaan approved", 200, undefined, requestId);
+  } catch (error) {
+    next(error);
+  }
+};
 
-    const filename = `pengadaan_export_${
-      new Date().toISOString().split("T")[0]
-    }`;
+/**
+ * Reject submitted pengadaan with a reason (admin only)
+ */
+export const rejectPengadaan = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const requestId = getRequestId(req);
+    const id = req.params["id"] as string;
+    const { reason } = req.body as ValidatedRejectPengadaan;
 
-    switch (format) {
-      case "csv":
-        res.setHeader("Content-Type", "text/csv");
-        res.setHeader(
-          "Content-Disposition",
-          `attachment; filename="${filename}.csv"`
-        );
-        // TODO: Implement CSV conversion
-        res.send("CSV export not implemented yet");
-        break;
-
-      case "excel":
-        res.setHeader(
-          "Content-Type",
-          "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
-        );
-        res.setHeader(
-          "Content-Disposition",
-          `attachment; filename="${filename}.xlsx"`
-        );
-        // TODO: Implement Excel conversion
-        res.send("Excel export not implemented yet");
-        break;
-
-      case "json":
-      default:
-        res.setHeader("Content-Type", "application/json");
-        res.setHeader(
-          "Content-Disposition",
-          `attachment; filename="${filename}.json"`
-        );
-        sendSuccess(
-          res,
-          result.data,
-          "Data exported successfully",
-          200,
-          undefined,
-          requestId
-        );
-        break;
+    if (!id) {
+      throw new ValidationError("ID is required");
     }
+    const actor = getActor(req);
 
-    logger.info("Pengadaan data exported", {
+    const rejected = await pengadaanService.rejectPengadaan(id, actor, reason);
+
+    logger.info("Pengadaan rejected", {
       requestId,
-      format,
-      recordCount: result.data.length,
-      userId: req.user?.id,
+      pengadaanId: id,
+      userId: actor.id,
     });
+
+    sendSuccess(res, rejected, "Pengadaan rejected", 200, undefined, requestId);
   } catch (error) {
     next(error);
   }
 };
 
 /**
- * Get pengadaan by custom ID (P-YYYYMMDD-XXXX format)
+ * Get the rating given to the vendor of a pengadaan (null when not rated yet)
  */
-export const getPengadaanByCustomId = async (
+export const getVendorRating = async (
   req: Request,
   res: Response,
   next: NextFunction
 ): Promise<void> => {
   try {
     const requestId = getRequestId(req);
-    const { customId } = req.params;
+    const id = req.params["id"] as string;
 
-    if (!customId) {
-      throw new ValidationError("Custom ID is required");
-    }
+    const rating = await vendorService.getPengadaanRating(id);
 
-    logger.debug("Getting pengadaan by custom ID", {
-      requestId,
+    sendSuccess(res, rating, "Vendor rating retrieved successfully", 200, undefined, requestId);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Rate the vendor of a pengadaan that reached contract stage
+ */
+export const rateVendor = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const requestId = getRequestId(req);
+    const id = req.params["id"] as string;
+    const actor = getActor(req);
+
+    const rating = await vendorService.ratePengadaanVendor(
+      id,
+      req.body as ValidatedVendorRating,
+      actor
+    );
+
+    logger.info("Vendor rated successfully", {
+      requestId,
+      pengadaanId: id,
+      userId: actor.id,
+    });
+
+    sendSuccess(res, rating, "Vendor rated successfully", 200, undefined, requestId);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Get submitted pengadaan awaiting review (admin only)
+ */
+export const getReviewQueue = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const requestId = getRequestId(req);
+    const { page, limit } = req.query as unknown as ValidatedReviewQueue;
+
+    logger.debug("Getting review queue", {
+      requestId,
+      page,
+      limit,
+      userId: (req as AuthenticatedRequest).user?.id,
+    });
+
+    const result = await pengadaanService.getReviewQueue(
+      getActor(req as AuthenticatedRequest),
+      page,
+      limit
+    );
+
+    sendPaginated(
+      res,
+      result.data,
+      page,
+      limit,
+      result.total,
+      "Review queue retrieved successfully",
+      requestId
+    );
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Move pengadaan to the recycle bin
+ */
+export const deletePengadaan = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const requestId = getRequestId(req);
+    const id = req.params["id"] as string;
+
+    if (!id) {
+      throw new ValidationError("ID is required");
+    }
+
+    const actor = getActor(req as AuthenticatedRequest);
+
+    logger.debug("Deleting pengadaan", {
+      requestId,
+      pengadaanId: id,
+      userId: actor.id,
+    });
+
+    await pengadaanService.deletePengadaan(id, actor.id);
+
+    logger.info("Pengadaan deleted successfully", {
+      requestId,
+      pengadaanId: id,
+      userId: actor.id,
+    });
+
+    sendNoContent(res, "Pengadaan deleted successfully", requestId);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Get pengadaan statistics, filtered by tahun anggaran and pengguna barang/jasa
+ */
+export const getPengadaanStats = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const requestId = getRequestId(req);
+
+    const { tahunAnggaran, penggunaBarangJasa } = req.query as unknown as ValidatedStatsQuery;
+
+    logger.debug("Getting pengadaan statistics", {
+      requestId,
+      tahunAnggaran,
+      penggunaBarangJasa,
+      userId: (req as AuthenticatedRequest).user?.id,
+    });
+
+    const stats = await pengadaanService.getPengadaanStats({ tahunAnggaran, penggunaBarangJasa });
+
+    sendSuccess(
+      res,
+      stats,
+      "Pengadaan statistics retrieved successfully",
+      200,
+      undefined,
+      requestId
+    );
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Get pengadaan analytics grouped by any dimensions and time bucket
+ */
+export const getPengadaanAnalytics = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const requestId = getRequestId(req);
+    const { groupBy, measures, bucket, dateField, from, to, ...rest } =
+      req.query as unknown as ValidatedAnalyticsQuery;
+
+    const filters: AnalyticsQuery["filters"] = {};
+    for (const dimension of ANALYTICS_DIMENSIONS) {
+      const value = rest[dimension];
+      if (value) {
+        filters[dimension] = value;
+      }
+    }
+
+    logger.debug("Getting pengadaan analytics", {
+      requestId,
+      groupBy,
+      measures,
+      bucket,
+      filters,
+      userId: (req as AuthenticatedRequest).user?.id,
+    });
+
+    const analytics = await analyticsService.getAnalytics({
+      groupBy,
+      measures,
+      bucket,
+      dateField,
+      from,
+      to,
+      filters,
+    });
+
+    sendSuccess(
+      res,
+      analytics,
+      "Pengadaan analytics retrieved successfully",
+      200,
+      undefined,
+      requestId
+    );
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Search pengadaan
+ */
+export const searchPengadaan = async (
+  req: PengadaanRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const requestId = getRequestId(req);
+    const query =
+      typeof req.query["q"] === "string" ? req.query["q"] : undefined;
+    const limit = Number(req.query["limit"] ?? 10);
+
+    if (!query || typeof query !== "string") {
+      throw new ValidationError("Search query is required", "q", query);
+    }
+
+    logger.debug("Searching pengadaan", {
+      requestId,
+      query,
+      limit,
+      userId: req.user?.id,
+    });
+
+    const results = await pengadaanService.searchPengadaan(query, limit);
+
+    sendSuccess(
+      res,
+      results,
+      "Search completed successfully",
+      200,
+      undefined,
+      requestId
+    );
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Bulk create pengadaan
+ */
+export const bulkCreatePengadaan = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const requestId = getRequestId(req);
+    const { pengadaanList } = req.body;
+
+    if (!Array.isArray(pengadaanList) || pengadaanList.length === 0) {
+      throw new ValidationError(
+        "pengadaanList must be a non-empty array",
+        "pengadaanList",
+        pengadaanList
+      );
+    }
+
+    logger.debug("Bulk creating pengadaan", {
+      requestId,
+      count: pengadaanList.length,
+      userId: (req as AuthenticatedRequest).user?.id,
+    });
+
+    const created = await pengadaanService.bulkCreatePengadaan(
+      pengadaanList as Record<string, unknown>[],
+      getActor(req as AuthenticatedRequest).id
+    );
+    const results = {
+      success: created.created,
+      errors: created.errors.map(({ index, message }) => ({
+        data: pengadaanList[index] as import("../types/pengadaan").CreatePengadaanDTO,
+        error: message,
+      })),
+    };
+
+    logger.info("Bulk pengadaan creation completed", {
+      requestId,
+      totalRequested: pengadaanList.length,
+      successCount: results.success.length,
+      errorCount: results.errors.length,
+      userId: (req as AuthenticatedRequest).user?.id,
+    });
+
+    sendCreated(
+      res,
+      results,
+      `Bulk operation completed: ${results.success.length} created, ${results.errors.length} failed`,
+      requestId
+    );
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Bulk update pengadaan
+ */
+export const bulkUpdatePengadaan = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const requestId = getRequestId(req);
+    const { updates } = req.body;
+    const actor = getActor(req as AuthenticatedRequest);
+
+    if (!Array.isArray(updates) || updates.length === 0) {
+      throw new ValidationError(
+        "updates must be a non-empty array",
+        "updates",
+        updates
+      );
+    }
+
+    logger.debug("Bulk updating pengadaan", {
+      requestId,
+      count: updates.length,
+      userId: (req as AuthenticatedRequest).user?.id,
+    });
+
+    // Since bulkUpdatePengadaan doesn't exist in service, we'll update individually
+    const results = {
+      success: [] as import("../types/pengadaan").PengadaanResponse[],
+      errors: [] as { id: string; error: string }[],
+    };
+
+    for (const update of updates) {
+      try {
+        const updated = await pengadaanService.updatePengadaan(
+          update.id,
+          update.data,
+          actor
+        );
+        results.success.push(updated);
+      } catch (error) {
+        results.errors.push({
+          id: update.id,
+          error: error instanceof Error ? error.message : "Unknown error",
+        });
+      }
+    }
+
+    logger.info("Bulk pengadaan update completed", {
+      requestId,
+      totalRequested: updates.length,
+      successCount: results.success.length,
+      errorCount: results.errors.length,
+      userId: (req as AuthenticatedRequest).user?.id,
+    });
+
+    sendSuccess(
+      res,
+      results,
+      `Bulk update completed: ${results.success.length} updated, ${results.errors.length} failed`,
+      200,
+      undefined,
+      requestId
+    );
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Bulk delete pengadaan
+ */
+export const bulkDeletePengadaan = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const requestId = getRequestId(req);
+    const { ids } = req.body;
+
+    if (!Array.isArray(ids) || ids.length === 0) {
+      throw new ValidationError("ids must be a non-empty array", "ids", ids);
+    }
+
+    const actor = getActor(req as AuthenticatedRequest);
+
+    logger.debug("Bulk deleting pengadaan", {
+      requestId,
+      count: ids.length,
+      ids,
+      userId: (req as AuthenticatedRequest).user?.id,
+    });
+
+    // Since bulkDeletePengadaan doesn't exist in service, we'll delete individually
+    const results = {
+      success: [] as string[],
+      errors: [] as { id: string; error: string }[],
+    };
+
+    for (const id of ids) {
+      try {
+        await pengadaanService.deletePengadaan(id, actor.id);
+        results.success.push(id);
+      } catch (error) {
+        results.errors.push({
+          id,
+          error: error instanceof Error ? error.message : "Unknown error",
+        });
+      }
+    }
+
+    logger.info("Bulk pengadaan deletion completed", {
+      requestId,
+      totalRequested: ids.length,
+      successCount: results.success.length,
+      errorCount: results.errors.length,
+      userId: (req as AuthenticatedRequest).user?.id,
+    });
+
+    sendSuccess(
+      res,
+      results,
+      `Bulk delete completed: ${results.success.length} deleted, ${results.errors.length} failed`,
+      200,
+      undefined,
+      requestId
+    );
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Export pengadaan data, streamed through a cursor with the same filters as the list
+ */
+export const exportPengadaan = async (
+  req: PengadaanRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const requestId = getRequestId(req);
+    const { format, columns: columnSelection } = req.query as unknown as ValidatedExportQuery;
+    const params = buildListParams(req);
+    const columns = exportService.resolveColumns(columnSelection);
+
+    logger.debug("Exporting pengadaan data", {
+      requestId,
+      format,
+      params,
+      columns: columns.length,
+      userId: req.user?.id,
+    });
+
+    const filename = `pengadaan_export_${
+      new Date().toISOString().split("T")[0]
+    }`;
+    const cursor = await pengadaanService.streamPengadaan(params);
+    // Stop reading from MongoDB as soon as the client goes away
+    res.on("close", () => {
+      void cursor.close();
+    });
+
+    let recordCount: number;
+    if (format === "csv") {
+      res.setHeader("Content-Type", "text/csv; charset=utf-8");
+      res.setHeader(
+        "Content-Disposition",
+        `attachment; filename="${filename}.csv"`
+      );
+      recordCount = await exportService.streamCsv(cursor, columns, res);
+    } else if (format === "excel") {
+      res.setHeader(
+        "Content-Type",
+        "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+      );
+      res.setHeader(
+        "Content-Disposition",
+        `attachment; filename="${filename}.xlsx"`
+      );
+      recordCount = await exportService.streamXlsx(cursor, columns, res);
+    } else {
+      res.setHeader("Content-Type", "application/json; charset=utf-8");
+      res.setHeader(
+        "Content-Disposition",
+        `attachment; filename="${filename}.json"`
+      );
+      recordCount = await exportService.streamJson(cursor, columns, res, requestId);
+    }
+
+    logger.info("Pengadaan data exported", {
+      requestId,
+      format,
+      recordCount,
+      userId: req.user?.id,
+    });
+  } catch (error) {
+    if (res.headersSent) {
+      logger.error("Pengadaan export failed mid-stream", { error });
+      res.destroy(error instanceof Error ? error : undefined);
+      return;
+    }
+    next(error);
+  }
+};
+
+/**
+ * Import pengadaan from an uploaded XLSX/CSV sheet. A dry run only validates;
+ * otherwise valid rows are inserted. Either way an import report is stored.
+ */
+export const importPengadaan = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const requestId = getRequestId(req);
+    const actor = getActor(req as AuthenticatedRequest);
+    const { dryRun, mapping } = req.body as ValidatedImportOptions;
+
+    if (!req.file) {
+      throw new ValidationError("A spreadsheet file is required", "file");
+    }
+
+    logger.debug("Importing pengadaan", {
+      requestId,
+      fileName: req.file.originalname,
+      size: req.file.size,
+      dryRun,
+      userId: actor.id,
+    });
+
+    const report = await importService.importPengadaan(
+      { name: req.file.originalname, buffer: req.file.buffer, size: req.file.size },
+      { dryRun, mapping },
+      actor.id
+    );
+
+    const message = dryRun
+      ? `Import validated: ${report.validRows} valid, ${report.invalidRows} invalid`
+      : `Import completed: ${report.importedRows} imported, ${
+          report.invalidRows + report.failedRows
+        } not imported`;
+
+    sendCreated(res, report.toResponse(), message, requestId);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * List import reports, newest first (without their row results)
+ */
+export const getImportReports = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const requestId = getRequestId(req);
+    const { page, limit } = req.query as unknown as ValidatedImportReportList;
+
+    const result = await importService.listReports(page, limit);
+
+    sendPaginated(
+      res,
+      result.data,
+      page,
+      limit,
+      result.total,
+      "Import reports retrieved successfully",
+      requestId
+    );
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Get an import report as JSON or download it as CSV
+ */
+export const getImportReport = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const requestId = getRequestId(req);
+    const reportId = req.params["reportId"] as string;
+    const { format } = req.query as unknown as ValidatedImportReportQuery;
+
+    const report = await importService.getReport(reportId);
+
+    if (format === "csv") {
+      res.setHeader("Content-Type", "text/csv; charset=utf-8");
+      res.setHeader(
+        "Content-Disposition",
+        `attachment; filename="import_report_${reportId}.csv"`
+      );
+      res.send(importService.renderReportCsv(report));
+      return;
+    }
+
+    sendSuccess(
+      res,
+      report.toResponse(),
+      "Import report retrieved successfully",
+      200,
+      undefined,
+      requestId
+    );
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Snapshot the pengadaan and user collections to a compressed archive on disk
+ */
+export const createBackup = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const requestId = getRequestId(req);
+    const actor = getActor(req as AuthenticatedRequest);
+    const { reason } = req.body as ValidatedCreateBackup;
+
+    const manifest = await backupService.createBackup(actor.id, reason);
+
+    logger.info("Backup created", {
+      requestId,
+      backupId: manifest.id,
+      userId: actor.id,
+    });
+
+    sendCreated(res, manifest, "Backup created successfully", requestId);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * List backups on disk, newest first
+ */
+export const listBackups = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const requestId = getRequestId(req);
+    const backups = await backupService.listBackups();
+
+    sendSuccess(
+      res,
+      backups,
+      "Backups retrieved successfully",
+      200,
+      undefined,
+      requestId
+    );
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Restore from a backup by replacing or merging data; dry-run by default
+ */
+export const restoreBackup = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const requestId = getRequestId(req);
+    const actor = getActor(req as AuthenticatedRequest);
+    const { backupId, mode, dryRun, collections } = req.body as ValidatedRestoreBackup;
+
+    const result = await backupService.restoreBackup(
+      backupId,
+      { mode, dryRun, collections },
+      actor.id
+    );
+
+    logger.info("Backup restore requested", {
+      requestId,
+      backupId,
+      mode,
+      dryRun,
+      userId: actor.id,
+    });
+
+    sendSuccess(
+      res,
+      result,
+      dryRun ? "Backup verified; no data was changed" : "Backup restored successfully",
+      200,
+      undefined,
+      requestId
+    );
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * List soft-deleted pengadaan, most recently deleted first
+ */
+export const getRecycleBin = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const requestId = getRequestId(req);
+    const { page, limit } = req.query as unknown as ValidatedRecycleBinList;
+
+    const result = await pengadaanService.getRecycleBin(page, limit);
+
+    sendPaginated(
+      res,
+      result.data,
+      page,
+      limit,
+      result.total,
+      "Recycle bin retrieved successfully",
+      requestId
+    );
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Take pengadaan back out of the recycle bin
+ */
+export const undeletePengadaan = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const requestId = getRequestId(req);
+    const id = req.params["id"] as string;
+    const actor = getActor(req as AuthenticatedRequest);
+
+    const pengadaan = await pengadaanService.undeletePengadaan(id, actor.id);
+
+    logger.info("Pengadaan undeleted", {
+      requestId,
+      pengadaanId: id,
+      userId: actor.id,
+    });
+
+    sendSuccess(
+      res,
+      pengadaan,
+      "Pengadaan restored from recycle bin successfully",
+      200,
+      undefined,
+      requestId
+    );
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Permanently remove pengadaan past the recycle bin retention window
+ */
+export const purgePengadaan = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const requestId = getRequestId(req);
+    const actor = getActor(req as AuthenticatedRequest);
+
+    const result = await pengadaanService.purgeDeletedPengadaan(actor.id, requestId);
+
+    logger.warn("Deleted pengadaan purged", {
+      requestId,
+      purgedCount: result.purgedCount,
+      backupId: result.backupId,
+      userId: actor.id,
+    });
+
+    sendSuccess(
+      res,
+      result,
+      `Purge completed: ${result.purgedCount} pengadaan permanently removed`,
+      200,
+      undefined,
+      requestId
+    );
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * List audit log entries, newest first
+ */
+export const getAuditLogs = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const requestId = getRequestId(req);
+    const { page, limit, action } = req.query as unknown as ValidatedAuditLogList;
+
+    const result = await auditService.list(page, limit, action);
+
+    sendPaginated(
+      res,
+      result.data,
+      page,
+      limit,
+      result.total,
+      "Audit logs retrieved successfully",
+      requestId
+    );
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Get pengadaan by custom ID (P-YYYYMMDD-XXXX format)
+ */
+export const getPengadaanByCustomId = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const requestId = getRequestId(req);
+    const { customId } = req.params;
+
+    if (!customId) {
+      throw new ValidationError("Custom ID is required");
+    }
+
+    logger.debug("Getting pengadaan by custom ID", {
+      requestId,
       customId,
       userId: (req as AuthenticatedRequest).user?.id,
     });
@@ -721,7 +1511,7 @@ export const getRecentActivity = async (
 ): Promise<void> => {
   try {
     const requestId = getRequestId(req);
-    const limit = Number((req.query as Record<string, unknown>)["limit"] ?? 10);
+    const { limit, tahunAnggaran, penggunaBarangJasa } = req.query as unknown as ValidatedActivityQuery;
 
     logger.debug("Getting recent pengadaan activity", {
       requestId,
@@ -729,16 +1519,11 @@ export const getRecentActivity = async (
       userId: (req as AuthenticatedRequest).user?.id,
     });
 
-    // Since getRecentActivity is private, we'll use getPengadaanStats instead
-    const stats = await pengadaanService.getPengadaanStats();
-    const recentActivity = {
-      recent: stats.recentActivity || { created: 0, updated: 0, completed: 0 },
-      limit,
-    };
+    const activity = await pengadaanService.getActivityFeed({ tahunAnggaran, penggunaBarangJasa }, limit);
 
     sendSuccess(
       res,
-      recentActivity,
+      activity,
       "Recent activity retrieved successfully",
       200,
       undefined,
@@ -754,13 +1539,35 @@ export default {
   getPengadaanById,
   createPengadaan,
   updatePengadaan,
+  getPengadaanHistory,
+  getPengadaanSnapshot,
+  restorePengadaan,
+  getPengadaanTransitions,
+  transitionPengadaan,
+  submitPengadaan,
+  approvePengadaan,
+  rejectPengadaan,
+  getVendorRating,
+  rateVendor,
+  getReviewQueue,
   deletePengadaan,
   getPengadaanStats,
+  getPengadaanAnalytics,
   searchPengadaan,
   bulkCreatePengadaan,
   bulkUpdatePengadaan,
   bulkDeletePengadaan,
   exportPengadaan,
+  importPengadaan,
+  getImportReports,
+  getImportReport,
+  createBackup,
+  listBackups,
+  restoreBackup,
+  getRecycleBin,
+  undeletePengadaan,
+  purgePengadaan,
+  getAuditLogs,
   getPengadaanByCustomId,
   getRecentActivity,
 };
@@ -0,0 +1,61 @@
+import { Request, Response, NextFunction } from "express";
+import reportService from "../services/reportService";
+import { sendSuccess, getRequestId } from "../utils/response";
+import { logger } from "../utils/logger";
+import { ValidatedRunReport } from "../utils/validation";
+import { ReportFormat } from "../types/report";
+
+/**
+ * List the available reports
+ */
+export const getReports = (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): void => {
+  try {
+    const requestId = getRequestId(req);
+
+    const reports = reportService.listReports();
+
+    sendSuccess(res, reports, "Reports retrieved successfully", 200, undefined, requestId);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Run a report, as JSON for display or as a CSV/XLSX/PDF download
+ */
+export const runReport = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const requestId = getRequestId(req);
+    const reportId = req.params["reportId"] as string;
+    const { format, ...params } = req.query as unknown as ValidatedRunReport;
+
+    const result = await reportService.runReport(reportId, params);
+
+    if (format === ReportFormat.JSON) {
+      sendSuccess(res, result, "Report generated successfully", 200, undefined, requestId);
+      return;
+    }
+
+    const file = await reportService.render(result, format);
+    logger.info("Report downloaded", { requestId, reportId, format });
+
+    res.setHeader("Content-Type", file.contentType);
+    res.setHeader("Content-Disposition", `attachment; filename="${file.filename}"`);
+    res.send(file.buffer);
+  } catch (error) {
+    next(error);
+  }
+};
+
+export default {
+  getReports,
+  runReport,
+};
@@ -0,0 +1,140 @@
+import { Request, Response, NextFunction } from "express";
+import scheduleService from "../services/scheduleService";
+import {
+  sendSuccess,
+  sendCreated,
+  sendNoContent,
+  getRequestId,
+} from "../utils/response";
+import { AuthenticationError } from "../utils/errors";
+import { logger } from "../utils/logger";
+import {
+  ValidatedCreateReportSchedule,
+  ValidatedUpdateReportSchedule,
+} from "../utils/validation";
+import { AuthenticatedRequest } from "../middleware/auth";
+
+/**
+ * Resolve the ID of the authenticated user
+ */
+const getUserId = (req: Request): string => {
+  const user = (req as AuthenticatedRequest).user;
+  if (!user) {
+    throw new AuthenticationError("Authentication required");
+  }
+  return user.id;
+};
+
+/**
+ * List report schedules
+ */
+export const getReportSchedules = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const requestId = getRequestId(req);
+
+    const schedules = await scheduleService.listSchedules();
+
+    sendSuccess(res, schedules, "Report schedules retrieved successfully", 200, undefined, requestId);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Create report schedule
+ */
+export const createReportSchedule = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const requestId = getRequestId(req);
+    const userId = getUserId(req);
+
+    const schedule = await scheduleService.createSchedule(req.body as ValidatedCreateReportSchedule, userId);
+
+    logger.info("Report schedule created successfully", { requestId, userId });
+    sendCreated(res, schedule, "Report schedule created successfully", requestId);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Update report schedule
+ */
+export const updateReportSchedule = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const requestId = getRequestId(req);
+    const userId = getUserId(req);
+    const id = req.params["id"] as string;
+
+    const schedule = await scheduleService.updateSchedule(id, req.body as ValidatedUpdateReportSchedule, userId);
+
+    logger.info("Report schedule updated successfully", { requestId, reportScheduleId: id, userId });
+    sendSuccess(res, schedule, "Report schedule updated successfully", 200, undefined, requestId);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Delete report schedule
+ */
+export const deleteReportSchedule = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const requestId = getRequestId(req);
+    const userId = getUserId(req);
+    const id = req.params["id"] as string;
+
+    await scheduleService.deleteSchedule(id, userId);
+
+    logger.info("Report schedule deleted successfully", { requestId, reportScheduleId: id, userId });
+    sendNoContent(res, "Report schedule deleted successfully", requestId);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Deliver a report schedule now
+ */
+export const runReportSchedule = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const requestId = getRequestId(req);
+    const userId = getUserId(req);
+    const id = req.params["id"] as string;
+
+    const schedule = await scheduleService.runSchedule(id);
+
+    logger.info("Report schedule run manually", { requestId, reportScheduleId: id, userId });
+    sendSuccess(res, schedule, "Report delivered successfully", 200, undefined, requestId);
+  } catch (error) {
+    next(error);
+  }
+};
+
+export default {
+  getReportSchedules,
+  createReportSchedule,
+  updateReportSchedule,
+  deleteReportSchedule,
+  runReportSchedule,
+};
@@ -0,0 +1,139 @@
+import { Request, Response, NextFunction } from "express";
+import slaService from "../services/slaService";
+import {
+  sendSuccess,
+  sendCreated,
+  sendNoContent,
+  getRequestId,
+} from "../utils/response";
+import { AuthenticationError } from "../utils/errors";
+import { logger } from "../utils/logger";
+import {
+  ValidatedCreateSlaTarget,
+  ValidatedUpdateSlaTarget,
+} from "../utils/validation";
+import { AuthenticatedRequest } from "../middleware/auth";
+
+/**
+ * Resolve the ID of the authenticated user
+ */
+const getUserId = (req: Request): string => {
+  const user = (req as AuthenticatedRequest).user;
+  if (!user) {
+    throw new AuthenticationError("Authentication required");
+  }
+  return user.id;
+};
+
+/**
+ * List SLA targets
+ */
+export const getSlaTargets = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const requestId = getRequestId(req);
+
+    const targets = await slaService.listTargets();
+
+    sendSuccess(res, targets, "SLA targets retrieved successfully", 200, undefined, requestId);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Create SLA target
+ */
+export const createSlaTarget = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const requestId = getRequestId(req);
+    const userId = getUserId(req);
+
+    const target = await slaService.createTarget(req.body as ValidatedCreateSlaTarget, userId);
+
+    logger.info("SLA target created successfully", { requestId, userId });
+    sendCreated(res, target, "SLA target created successfully", requestId);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Update SLA target
+ */
+export const updateSlaTarget = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const requestId = getRequestId(req);
+    const userId = getUserId(req);
+    const id = req.params["id"] as string;
+
+    const target = await slaService.updateTarget(id, req.body as ValidatedUpdateSlaTarget, userId);
+
+    logger.info("SLA target updated successfully", { requestId, slaTargetId: id, userId });
+    sendSuccess(res, target, "SLA target updated successfully", 200, undefined, requestId);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Delete SLA target
+ */
+export const deleteSlaTarget = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const requestId = getRequestId(req);
+    const userId = getUserId(req);
+    const id = req.params["id"] as string;
+
+    await slaService.deleteTarget(id, userId);
+
+    logger.info("SLA target deleted successfully", { requestId, slaTargetId: id, userId });
+    sendNoContent(res, "SLA target deleted successfully", requestId);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Re-track running packages, e.g. after the holiday calendar changed
+ */
+export const recomputeSlaTracking = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const requestId = getRequestId(req);
+    const userId = getUserId(req);
+
+    const updated = await slaService.recomputeTracking();
+
+    logger.info("SLA tracking recomputed successfully", { requestId, updated, userId });
+    sendSuccess(res, { updated }, "SLA tracking recomputed successfully", 200, undefined, requestId);
+  } catch (error) {
+    next(error);
+  }
+};
+
+export default {
+  getSlaTargets,
+  createSlaTarget,
+  updateSlaTarget,
+  deleteSlaTarget,
+  recomputeSlaTracking,
+};
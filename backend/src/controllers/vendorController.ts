@@ -0,0 +1,305 @@
+import { Request, Response, NextFunction } from "express";
+import vendorService from "../services/vendorService";
+import blacklistService from "../services/blacklistService";
+import {
+  sendSuccess,
+  sendCreated,
+  sendNoContent,
+  sendPaginated,
+  getRequestId,
+} from "../utils/response";
+import { AuthenticationError } from "../utils/errors";
+import { logger } from "../utils/logger";
+import {
+  ValidatedCreateVendor,
+  ValidatedUpdateVendor,
+  ValidatedVendorQuery,
+  ValidatedVendorLinkSuggestions,
+  ValidatedApplyVendorLinks,
+  ValidatedBlacklistQuery,
+  ValidatedCreateBlacklistEntry,
+  ValidatedRevokeBlacklistEntry,
+} from "../utils/validation";
+import { AuthenticatedRequest } from "../middleware/auth";
+
+/**
+ * Resolve the ID of the authenticated user
+ */
+const getUserId = (req: Request): string => {
+  const user = (req as AuthenticatedRequest).user;
+  if (!user) {
+    throw new AuthenticationError("Authentication required");
+  }
+  return user.id;
+};
+
+/**
+ * List vendors with search and status filters
+ */
+export const getVendors = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const requestId = getRequestId(req);
+    const query = req.query as unknown as ValidatedVendorQuery;
+
+    const result = await vendorService.listVendors(query);
+
+    sendPaginated(
+      res,
+      result.data,
+      query.page,
+      query.limit,
+      result.total,
+      "Vendors retrieved successfully",
+      requestId
+    );
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Get vendor by ID
+ */
+export const getVendorById = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const requestId = getRequestId(req);
+    const vendor = await vendorService.getVendor(req.params["id"] as string);
+
+    sendSuccess(res, vendor, "Vendor retrieved successfully", 200, undefined, requestId);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Get the vendor scorecard: won pengadaan, contract value, delays and ratings
+ */
+export const getVendorScorecard = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const requestId = getRequestId(req);
+    const scorecard = await vendorService.getScorecard(req.params["id"] as string);
+
+    sendSuccess(res, scorecard, "Vendor scorecard retrieved successfully", 200, undefined, requestId);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Create vendor
+ */
+export const createVendor = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const requestId = getRequestId(req);
+    const userId = getUserId(req);
+
+    const vendor = await vendorService.createVendor(req.body as ValidatedCreateVendor, userId);
+
+    logger.info("Vendor created successfully", { requestId, userId });
+    sendCreated(res, vendor, "Vendor created successfully", requestId);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Update vendor
+ */
+export const updateVendor = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const requestId = getRequestId(req);
+    const id = req.params["id"] as string;
+
+    const vendor = await vendorService.updateVendor(id, req.body as ValidatedUpdateVendor);
+
+    logger.info("Vendor updated successfully", { requestId, vendorId: id, userId: getUserId(req) });
+    sendSuccess(res, vendor, "Vendor updated successfully", 200, undefined, requestId);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Delete vendor that no pengadaan refers to
+ */
+export const deleteVendor = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const requestId = getRequestId(req);
+    const id = req.params["id"] as string;
+
+    await vendorService.deleteVendor(id);
+
+    logger.info("Vendor deleted successfully", { requestId, vendorId: id, userId: getUserId(req) });
+    sendNoContent(res, "Vendor deleted successfully", requestId);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Suggest vendor records for the free-text penyedia names on unlinked pengadaan
+ */
+export const getVendorLinkSuggestions = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const requestId = getRequestId(req);
+    const { threshold, limit } = req.query as unknown as ValidatedVendorLinkSuggestions;
+
+    const suggestions = await vendorService.suggestVendorLinks(threshold, limit);
+
+    sendSuccess(
+      res,
+      suggestions,
+      "Vendor link suggestions retrieved successfully",
+      200,
+      undefined,
+      requestId
+    );
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Link pengadaan to vendors for the name/vendor pairs an admin confirmed
+ */
+export const applyVendorLinks = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const requestId = getRequestId(req);
+    const userId = getUserId(req);
+    const { links } = req.body as ValidatedApplyVendorLinks;
+
+    const results = await vendorService.applyVendorLinks(links, userId);
+    const linked = results.reduce((sum, result) => sum + result.linked, 0);
+
+    logger.info("Vendor links applied", { requestId, links: links.length, linked, userId });
+    sendSuccess(
+      res,
+      results,
+      `Linked ${linked} pengadaan to ${results.length} vendor name(s)`,
+      200,
+      undefined,
+      requestId
+    );
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * List the blacklist (Daftar Hitam) register
+ */
+export const getBlacklist = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const requestId = getRequestId(req);
+    const query = req.query as unknown as ValidatedBlacklistQuery;
+
+    const result = await blacklistService.listEntries(query);
+
+    sendPaginated(
+      res,
+      result.data,
+      query.page,
+      query.limit,
+      result.total,
+      "Blacklist retrieved successfully",
+      requestId
+    );
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Blacklist a vendor for a sanction period
+ */
+export const createBlacklistEntry = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const requestId = getRequestId(req);
+    const userId = getUserId(req);
+    const data = req.body as ValidatedCreateBlacklistEntry;
+
+    const entry = await blacklistService.createEntry(data, userId);
+
+    logger.info("Vendor blacklisted successfully", { requestId, vendorId: data.vendorId, userId });
+    sendCreated(res, entry, "Vendor blacklisted successfully", requestId);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Lift a blacklist sanction early
+ */
+export const revokeBlacklistEntry = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const requestId = getRequestId(req);
+    const userId = getUserId(req);
+    const id = req.params["id"] as string;
+    const { reason } = req.body as ValidatedRevokeBlacklistEntry;
+
+    const entry = await blacklistService.revokeEntry(id, userId, reason);
+
+    logger.info("Blacklist entry revoked successfully", { requestId, blacklistId: id, userId });
+    sendSuccess(res, entry, "Blacklist entry revoked successfully", 200, undefined, requestId);
+  } catch (error) {
+    next(error);
+  }
+};
+
+export default {
+  getVendors,
+  getVendorById,
+  getVendorScorecard,
+  createVendor,
+  updateVendor,
+  deleteVendor,
+  getVendorLinkSuggestions,
+  applyVendorLinks,
+  getBlacklist,
+  createBlacklistEntry,
+  revokeBlacklistEntry,
+};
@@ -4,7 +4,7 @@ import { AuthenticationError, AuthorizationError } from '../utils/errors';
 import { logger } from '../utils/logger';
 import { config } from '../config/environment';
 import { getRequestId } from '../utils/response';
-import UserModel, { UserRole, UserStatus } from '../models/User';
+import UserModel, { ApproverRole, UserRole, UserStatus } from '../models/User';
 
 /**
  * Extended Request interface with user information
@@ -15,6 +15,7 @@ export interface AuthenticatedRequest extends Request {
     email: string;
     role: UserRole;
     status: UserStatus;
+    approverRoles?: ApproverRole[];
     iat?: number | undefined;
     exp?: number | undefined;
   };
@@ -148,6 +149,7 @@ export const authenticate = async (
       email: user.email,
       role: user.role,
       status: user.status,
+      approverRoles: user.approverRoles,
       iat: decoded.iat || undefined,
       exp: decoded.exp || undefined,
     };
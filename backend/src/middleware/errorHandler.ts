@@ -1,6 +1,7 @@
 import { Request, Response, NextFunction } from 'express';
 import {
   AppError,
+  ValidationError,
   isOperationalError,
   logError,
   handleMongoError,
@@ -71,7 +72,8 @@ export const errorHandler = (
     appError.message,
     appError.statusCode,
     appError.details,
-    requestId
+    requestId,
+    appError instanceof ValidationError ? { field: appError.field, value: appError.value } : undefined
   );
 };
 
@@ -0,0 +1,31 @@
+import path from 'path';
+import multer from 'multer';
+import { config } from '../config/environment';
+import { ValidationError } from '../utils/errors';
+import { IMPORT_FILE_EXTENSIONS } from '../services/importService';
+
+/**
+ * Single spreadsheet upload for the pengadaan import, kept in memory.
+ * Size limit errors surface as MulterError and are mapped by the error handler.
+ */
+export const uploadImportFile = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: config.maxFileSize,
+    files: 1,
+  },
+  fileFilter: (_req, file, callback) => {
+    const extension = path.extname(file.originalname).toLowerCase();
+    if (!(IMPORT_FILE_EXTENSIONS as readonly string[]).includes(extension)) {
+      callback(
+        new ValidationError(
+          `Unsupported file type; expected ${IMPORT_FILE_EXTENSIONS.join(' or ')}`,
+          'file',
+          file.originalname
+        )
+      );
+      return;
+    }
+    callback(null, true);
+  },
+}).single('file');
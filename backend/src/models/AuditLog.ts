@@ -0,0 +1,79 @@
+import mongoose, { Schema, Document, Model } from 'mongoose';
+
+// Audited administrative actions
+export enum AuditAction {
+  PENGADAAN_PURGE = 'pengadaan.purge',
+  VENDOR_BLACKLIST_OVERRIDE = 'vendor.blacklist_override'
+}
+
+// Audit log interface
+export interface IAuditLog {
+  action: AuditAction;
+  actor: mongoose.Types.ObjectId;
+  targetType: string;
+  targetIds: string[];
+  details: Record<string, unknown>;
+  requestId?: string;
+  createdAt: Date;
+}
+
+// Audit log document interface
+export interface IAuditLogDocument extends IAuditLog, Document {
+  toResponse(): object;
+}
+
+export type IAuditLogModel = Model<IAuditLogDocument>;
+
+// Audit entries are append-only: no updatedAt and no update paths in the services
+const auditLogSchema = new Schema<IAuditLogDocument>(
+  {
+    action: {
+      type: String,
+      enum: Object.values(AuditAction),
+      required: [true, 'Audit action is required'],
+    },
+    actor: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: [true, 'Audit actor is required'],
+    },
+    targetType: {
+      type: String,
+      required: true,
+      trim: true,
+    },
+    targetIds: {
+      type: [String],
+      default: [],
+    },
+    details: {
+      type: Schema.Types.Mixed,
+      default: {},
+    },
+    requestId: {
+      type: String,
+    },
+  },
+  {
+    timestamps: { createdAt: true, updatedAt: false },
+    versionKey: false,
+  }
+);
+
+auditLogSchema.index({ createdAt: -1 });
+auditLogSchema.index({ action: 1, createdAt: -1 });
+
+// Instance methods
+auditLogSchema.methods['toResponse'] = function (): object {
+  const obj = this['toObject']();
+  obj.id = String(obj._id);
+  delete obj._id;
+  return obj;
+};
+
+const AuditLogModel: IAuditLogModel = mongoose.model<IAuditLogDocument, IAuditLogModel>(
+  'AuditLog',
+  auditLogSchema
+);
+
+export default AuditLogModel;
@@ -0,0 +1,94 @@
+import mongoose, { Schema, Document, Model } from 'mongoose';
+
+// Budget types, as used by the pengadaan jenisAnggaran field
+export enum JenisAnggaran {
+  ABO = 'ABO',
+  ABI = 'ABI'
+}
+
+// Budget (Anggaran) ceiling interface
+export interface IBudget {
+  tahunAnggaran: number;
+  jenisAnggaran: JenisAnggaran;
+  // User unit, matched against the pengadaan penggunaBarangJasa field
+  penggunaBarangJasa: string;
+  // Ceiling (pagu) in Rupiah
+  pagu: number;
+  keterangan?: string;
+  createdBy: mongoose.Types.ObjectId;
+  updatedBy?: mongoose.Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Budget document interface
+export interface IBudgetDocument extends IBudget, Document {
+  toResponse(): object;
+}
+
+export type IBudgetModel = Model<IBudgetDocument>;
+
+// One ceiling per year, budget type and user unit
+const budgetSchema = new Schema<IBudgetDocument>(
+  {
+    tahunAnggaran: {
+      type: Number,
+      required: [true, 'Budget year is required'],
+      min: [2000, 'Budget year must be 2000 or later'],
+      max: [2100, 'Budget year must be 2100 or earlier'],
+      validate: {
+        validator: Number.isInteger,
+        message: 'Budget year must be a whole number',
+      },
+    },
+    jenisAnggaran: {
+      type: String,
+      enum: Object.values(JenisAnggaran),
+      required: [true, 'Budget type is required'],
+    },
+    penggunaBarangJasa: {
+      type: String,
+      required: [true, 'User unit is required'],
+      trim: true,
+      maxlength: [200, 'User unit cannot exceed 200 characters'],
+    },
+    pagu: {
+      type: Number,
+      required: [true, 'Budget ceiling is required'],
+      min: [0, 'Budget ceiling cannot be negative'],
+    },
+    keterangan: {
+      type: String,
+      trim: true,
+      maxlength: [1000, 'Notes cannot exceed 1000 characters'],
+    },
+    createdBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    updatedBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+    },
+  },
+  {
+    timestamps: true,
+    versionKey: false,
+  }
+);
+
+// Indexes
+budgetSchema.index({ tahunAnggaran: 1, jenisAnggaran: 1, penggunaBarangJasa: 1 }, { unique: true });
+
+// Instance methods
+budgetSchema.methods['toResponse'] = function (): object {
+  const obj = this['toObject']();
+  obj.id = String(obj._id);
+  delete obj._id;
+  return obj;
+};
+
+const BudgetModel: IBudgetModel = mongoose.model<IBudgetDocument, IBudgetModel>('Budget', budgetSchema);
+
+export default BudgetModel;
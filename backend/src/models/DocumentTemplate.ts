@@ -0,0 +1,82 @@
+import mongoose, { Schema, Document, Model } from 'mongoose';
+
+// Document template interface: a printable document filled with the fields of one pengadaan.
+// The key names the file at /api/pengadaan/:id/documents/:key.pdf; isi is the template text.
+export interface IDocumentTemplate {
+  key: string;
+  nama: string;
+  isi: string;
+  keterangan?: string;
+  createdBy?: mongoose.Types.ObjectId;
+  updatedBy?: mongoose.Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Document template document interface
+export interface IDocumentTemplateDocument extends IDocumentTemplate, Document {
+  toResponse(): object;
+}
+
+// Document template model interface
+export type IDocumentTemplateModel = Model<IDocumentTemplateDocument>;
+
+export const TEMPLATE_KEY_PATTERN = /^[a-z0-9]+(?:-[a-z0-9]+)*$/;
+
+const documentTemplateSchema = new Schema<IDocumentTemplateDocument>(
+  {
+    key: {
+      type: String,
+      required: [true, 'Template key is required'],
+      unique: true,
+      trim: true,
+      lowercase: true,
+      maxlength: [60, 'Template key cannot exceed 60 characters'],
+      match: [TEMPLATE_KEY_PATTERN, 'Template key may only contain lowercase letters, digits and dashes'],
+    },
+    nama: {
+      type: String,
+      required: [true, 'Template name is required'],
+      trim: true,
+      maxlength: [200, 'Template name cannot exceed 200 characters'],
+    },
+    isi: {
+      type: String,
+      required: [true, 'Template content is required'],
+      maxlength: [20000, 'Template content cannot exceed 20000 characters'],
+    },
+    keterangan: {
+      type: String,
+      trim: true,
+      maxlength: [500, 'Keterangan cannot exceed 500 characters'],
+    },
+    // Unset on the bundled templates
+    createdBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+    },
+    updatedBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+    },
+  },
+  {
+    timestamps: true,
+    versionKey: false,
+  }
+);
+
+// Instance methods
+documentTemplateSchema.methods['toResponse'] = function (): object {
+  const obj = this['toObject']();
+  obj.id = String(obj._id);
+  delete obj._id;
+  return obj;
+};
+
+const DocumentTemplateModel: IDocumentTemplateModel = mongoose.model<IDocumentTemplateDocument, IDocumentTemplateModel>(
+  'DocumentTemplate',
+  documentTemplateSchema
+);
+
+export default DocumentTemplateModel;
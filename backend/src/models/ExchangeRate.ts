@@ -0,0 +1,100 @@
+import mongoose, { Schema, Document, Model } from 'mongoose';
+import { Currency } from '../types/pengadaan';
+
+// Currencies that need a rate; IDR always converts at 1
+export const FOREIGN_CURRENCIES = Object.values(Currency).filter((currency) => currency !== Currency.IDR);
+
+// Exchange rate (kurs) interface: rupiah per one unit of the currency, valid from `date`
+export interface IExchangeRate {
+  currency: Currency;
+  date: Date;
+  rate: number;
+  // Where the rate was taken from, e.g. "Kurs Tengah BI"
+  source?: string;
+  createdBy: mongoose.Types.ObjectId;
+  updatedBy?: mongoose.Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Exchange rate document interface
+export interface IExchangeRateDocument extends IExchangeRate, Document {
+  toResponse(): object;
+}
+
+// Exchange rate model interface with static methods
+export interface IExchangeRateModel extends Model<IExchangeRateDocument> {
+  findEffective(currency: Currency, at: Date): mongoose.Query<IExchangeRateDocument | null, IExchangeRateDocument>;
+}
+
+// One rate per currency and day
+const exchangeRateSchema = new Schema<IExchangeRateDocument>(
+  {
+    currency: {
+      type: String,
+      required: [true, 'Currency is required'],
+      enum: {
+        values: FOREIGN_CURRENCIES,
+        message: 'Invalid currency value',
+      },
+    },
+    date: {
+      type: Date,
+      required: [true, 'Rate date is required'],
+    },
+    rate: {
+      type: Number,
+      required: [true, 'Rate is required'],
+      min: [0.000001, 'Rate must be greater than zero'],
+    },
+    source: {
+      type: String,
+      trim: true,
+      maxlength: [200, 'Source cannot exceed 200 characters'],
+    },
+    createdBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    updatedBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+    },
+  },
+  {
+    timestamps: true,
+    versionKey: false,
+  }
+);
+
+// Indexes
+exchangeRateSchema.index({ currency: 1, date: -1 }, { unique: true });
+
+// A rate applies to the whole day it is set for
+exchangeRateSchema.pre('validate', function (next) {
+  if (this.isModified('date') && this.date) {
+    this.date.setUTCHours(0, 0, 0, 0);
+  }
+  next();
+});
+
+// Instance methods
+exchangeRateSchema.methods['toResponse'] = function (): object {
+  const obj = this['toObject']();
+  obj.id = String(obj._id);
+  delete obj._id;
+  return obj;
+};
+
+// Static methods
+exchangeRateSchema.statics['findEffective'] = function (currency: Currency, at: Date) {
+  return this.findOne({ currency, date: { $lte: at } }).sort({ date: -1 });
+};
+
+const ExchangeRateModel: IExchangeRateModel = mongoose.model<IExchangeRateDocument, IExchangeRateModel>(
+  'ExchangeRate',
+  exchangeRateSchema
+);
+
+export default ExchangeRateModel;
@@ -0,0 +1,90 @@
+import mongoose, { Schema, Document, Model } from 'mongoose';
+import { formatDateOnly, toDateOnly } from '../utils/date';
+
+// Kind of non-working day, as set by the joint ministerial decree (SKB) each year
+export enum HolidayType {
+  LIBUR_NASIONAL = 'Libur Nasional',
+  CUTI_BERSAMA = 'Cuti Bersama',
+}
+
+// Holiday interface: a weekday on which no working days are counted
+export interface IHoliday {
+  date: Date;
+  name: string;
+  jenis: HolidayType;
+  createdBy?: mongoose.Types.ObjectId;
+  updatedBy?: mongoose.Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Holiday document interface
+export interface IHolidayDocument extends IHoliday, Document {
+  toResponse(): object;
+}
+
+// Holiday model interface with static methods
+export interface IHolidayModel extends Model<IHolidayDocument> {
+  findByYear(tahun: number): mongoose.Query<IHolidayDocument[], IHolidayDocument>;
+}
+
+// One entry per day
+const holidaySchema = new Schema<IHolidayDocument>(
+  {
+    date: {
+      type: Date,
+      required: [true, 'Holiday date is required'],
+      set: toDateOnly,
+    },
+    name: {
+      type: String,
+      required: [true, 'Holiday name is required'],
+      trim: true,
+      maxlength: [200, 'Holiday name cannot exceed 200 characters'],
+    },
+    jenis: {
+      type: String,
+      required: [true, 'Holiday type is required'],
+      enum: {
+        values: Object.values(HolidayType),
+        message: 'Invalid holiday type',
+      },
+    },
+    // Empty for entries loaded from the bundled seed
+    createdBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+    },
+    updatedBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+    },
+  },
+  {
+    timestamps: true,
+    versionKey: false,
+  }
+);
+
+// Indexes
+holidaySchema.index({ date: 1 }, { unique: true });
+
+// Instance methods
+holidaySchema.methods['toResponse'] = function (): object {
+  const obj = this['toObject']();
+  obj.id = String(obj._id);
+  obj.date = formatDateOnly(obj.date);
+  delete obj._id;
+  return obj;
+};
+
+// Static methods
+holidaySchema.statics['findByYear'] = function (tahun: number) {
+  return this.find({
+    date: { $gte: new Date(Date.UTC(tahun, 0, 1)), $lt: new Date(Date.UTC(tahun + 1, 0, 1)) },
+  }).sort({ date: 1 });
+};
+
+const HolidayModel: IHolidayModel = mongoose.model<IHolidayDocument, IHolidayModel>('Holiday', holidaySchema);
+
+export default HolidayModel;
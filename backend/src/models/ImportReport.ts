@@ -0,0 +1,149 @@
+import mongoose, { Schema, Document, Model } from 'mongoose';
+
+// Overall outcome of an import run
+export enum ImportReportStatus {
+  VALIDATED = 'validated',
+  COMPLETED = 'completed',
+  FAILED = 'failed'
+}
+
+// Outcome of a single spreadsheet row
+export enum ImportRowStatus {
+  VALID = 'valid',
+  INVALID = 'invalid',
+  IMPORTED = 'imported',
+  FAILED = 'failed'
+}
+
+// A spreadsheet header and the pengadaan field it was mapped to (null when ignored)
+export interface ImportColumn {
+  header: string;
+  field: string | null;
+}
+
+export interface ImportRowError {
+  field?: string;
+  message: string;
+}
+
+export interface ImportRowResult {
+  rowNumber: number;
+  status: ImportRowStatus;
+  namaPaket?: string;
+  pengadaanId?: string;
+  issues: ImportRowError[];
+}
+
+// Import report interface
+export interface IImportReport {
+  fileName: string;
+  fileSize: number;
+  dryRun: boolean;
+  status: ImportReportStatus;
+  columns: ImportColumn[];
+  totalRows: number;
+  validRows: number;
+  invalidRows: number;
+  importedRows: number;
+  failedRows: number;
+  rows: ImportRowResult[];
+  createdBy: mongoose.Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Import report document interface
+export interface IImportReportDocument extends IImportReport, Document {
+  toResponse(includeRows?: boolean): object;
+}
+
+export type IImportReportModel = Model<IImportReportDocument>;
+
+const importRowErrorSchema = new Schema<ImportRowError>(
+  {
+    field: { type: String },
+    message: { type: String, required: true },
+  },
+  { _id: false }
+);
+
+const importReportSchema = new Schema<IImportReportDocument>(
+  {
+    fileName: {
+      type: String,
+      required: [true, 'File name is required'],
+      trim: true,
+    },
+    fileSize: {
+      type: Number,
+      required: true,
+      min: 0,
+    },
+    dryRun: {
+      type: Boolean,
+      required: true,
+    },
+    status: {
+      type: String,
+      enum: Object.values(ImportReportStatus),
+      required: true,
+    },
+    // Stored as a list: spreadsheet headers often contain dots, which Map keys cannot
+    columns: [
+      {
+        _id: false,
+        header: { type: String, required: true },
+        field: { type: String, default: null },
+      },
+    ],
+    totalRows: { type: Number, default: 0 },
+    validRows: { type: Number, default: 0 },
+    invalidRows: { type: Number, default: 0 },
+    importedRows: { type: Number, default: 0 },
+    failedRows: { type: Number, default: 0 },
+    rows: [
+      {
+        _id: false,
+        rowNumber: { type: Number, required: true },
+        status: {
+          type: String,
+          enum: Object.values(ImportRowStatus),
+          required: true,
+        },
+        namaPaket: { type: String },
+        pengadaanId: { type: String },
+        issues: { type: [importRowErrorSchema], default: [] },
+      },
+    ],
+    createdBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: [true, 'Created by user is required'],
+    },
+  },
+  {
+    timestamps: true,
+    versionKey: false,
+  }
+);
+
+importReportSchema.index({ createdAt: -1 });
+importReportSchema.index({ createdBy: 1, createdAt: -1 });
+
+// Instance methods
+importReportSchema.methods['toResponse'] = function (includeRows = true): object {
+  const obj = this['toObject']();
+  obj.id = String(obj._id);
+  delete obj._id;
+  if (!includeRows) {
+    delete obj.rows;
+  }
+  return obj;
+};
+
+const ImportReportModel: IImportReportModel = mongoose.model<IImportReportDocument, IImportReportModel>(
+  'ImportReport',
+  importReportSchema
+);
+
+export default ImportReportModel;
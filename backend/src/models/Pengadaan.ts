@@ -1,12 +1,63 @@
 import mongoose, { Schema } from 'mongoose';
-import { IPengadaanDocument, IPengadaanModel, PengadaanStatus, PengadaanKategori, Currency } from '../types/pengadaan';
+import { IPengadaanDocument, IPengadaanModel, PengadaanStatus, PengadaanKategori, Currency, ApprovalDecision } from '../types/pengadaan';
+import { ApproverRole, UserRole } from './User';
+import { PENGADAAN_AMOUNT_FIELDS, PENGADAAN_DATE_FIELDS } from '../config/pengadaanFields';
+import { serializeAmounts, toDecimal128 } from '../utils/amount';
+import { serializeDates, toDateOnly } from '../utils/date';
+
+/**
+ * API form of a stored pengadaan record: amounts as text and dates as "YYYY-MM-DD".
+ * Used by the toJSON/toObject transforms and for lean query results.
+ */
+const serializePengadaan = <T extends Record<string, unknown>>(record: T): T =>
+  serializeDates(serializeAmounts(record, PENGADAAN_AMOUNT_FIELDS), PENGADAAN_DATE_FIELDS);
 
 // Custom ID generator for Pengadaan
+const formatPengadaanId = (sequence: number): string => `PGD-${String(sequence).padStart(3, '0')}`;
+
+// Next free sequence number. Reads the raw collection so soft-deleted packages keep
+// their numbers, and uses the highest number rather than a count so purges never
+// hand out an ID that is still taken.
+const nextPengadaanSequence = async (): Promise<number> => {
+  const [result] = await PengadaanModel.collection
+    .aggregate<{ max: number }>([
+      { $match: { id: { $regex: /^PGD-\d+$/ } } },
+      { $group: { _id: null, max: { $max: { $toInt: { $substrCP: ['$id', 4, 20] } } } } },
+    ])
+    .toArray();
+  return (result?.max ?? 0) + 1;
+};
+
 const generatePengadaanId = async (): Promise<string> => {
-  const count = await PengadaanModel.countDocuments();
-  return `PGD-${String(count + 1).padStart(3, '0')}`;
+  return formatPengadaanId(await nextPengadaanSequence());
 };
 
+// Exchange rate a rupiah equivalent was computed with
+const appliedExchangeRateSchema = new Schema(
+  {
+    currency: { type: String, required: true },
+    rate: { type: Number, required: true },
+    rateDate: { type: Date, required: true },
+    exchangeRateId: { type: Schema.Types.ObjectId, ref: 'ExchangeRate', default: null },
+  },
+  { _id: false }
+);
+
+// SLA target a package is measured against, with the dates it was computed from
+const slaTrackingSchema = new Schema(
+  {
+    targetId: { type: Schema.Types.ObjectId, ref: 'SlaTarget', required: true },
+    hariKerja: { type: Number, required: true },
+    dari: { type: String, required: true },
+    sampai: { type: String, required: true },
+    mulai: { type: Date, required: true },
+    jatuhTempo: { type: Date, required: true },
+    selesai: { type: Date, default: null },
+    terlambat: { type: Boolean, default: null },
+  },
+  { _id: false }
+);
+
 // Pengadaan Schema
 const pengadaanSchema = new Schema<IPengadaanDocument>(
   {
@@ -38,7 +89,7 @@ const pengadaanSchema = new Schema<IPengadaanDocument>(
       },
       action: {
         type: String,
-        enum: ['created', 'updated', 'submitted', 'approved', 'rejected'],
+        enum: ['created', 'updated', 'submitted', 'approved', 'rejected', 'transitioned', 'restored', 'deleted', 'undeleted', 'blacklist_override'],
         required: true,
       },
       timestamp: {
@@ -60,6 +111,51 @@ const pengadaanSchema = new Schema<IPengadaanDocument>(
       type: Schema.Types.ObjectId,
       ref: 'User',
     },
+
+    // Multi-level approval chain, built when the package is submitted
+    approvalChain: [{
+      _id: false,
+      step: {
+        type: Number,
+        required: true,
+      },
+      approverRole: {
+        type: String,
+        enum: Object.values(ApproverRole),
+        required: true,
+      },
+      decision: {
+        type: String,
+        enum: Object.values(ApprovalDecision),
+        default: ApprovalDecision.PENDING,
+      },
+      decidedBy: {
+        type: Schema.Types.ObjectId,
+        ref: 'User',
+      },
+      decidedAt: {
+        type: Date,
+      },
+      comment: {
+        type: String,
+        trim: true,
+        maxlength: [500, 'Comment cannot exceed 500 characters'],
+      },
+    }],
+    pendingApproverRole: {
+      type: String,
+      enum: Object.values(ApproverRole),
+    },
+
+    // Soft delete: set when the package is moved to the recycle bin
+    deletedAt: {
+      type: Date,
+      default: null,
+    },
+    deletedBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+    },
     
     // Legacy fields for backward compatibility
     nama: {
@@ -89,9 +185,9 @@ const pengadaanSchema = new Schema<IPengadaanDocument>(
       maxlength: [200, 'Vendor name cannot exceed 200 characters'],
     },
     nilai: {
-      type: String,
+      type: Schema.Types.Decimal128,
       required: [true, 'Nilai is required'],
-      trim: true,
+      set: toDecimal128,
     },
     status: {
       type: String,
@@ -103,12 +199,14 @@ const pengadaanSchema = new Schema<IPengadaanDocument>(
       default: PengadaanStatus.DRAFT,
     },
     tanggal: {
-      type: String,
+      type: Date,
       required: [true, 'Tanggal is required'],
+      set: toDateOnly,
     },
     deadline: {
-      type: String,
+      type: Date,
       required: [true, 'Deadline is required'],
+      set: toDateOnly,
     },
     
     // Section 1: DATA UMUM PENGADAAN
@@ -197,12 +295,12 @@ const pengadaanSchema = new Schema<IPengadaanDocument>(
       trim: true,
     },
     nilaiAnggaranIdr: {
-      type: String,
-      trim: true,
+      type: Schema.Types.Decimal128,
+      set: toDecimal128,
     },
     nilaiAnggaranUsd: {
-      type: String,
-      trim: true,
+      type: Schema.Types.Decimal128,
+      set: toDecimal128,
     },
     nilaiHpsCurrency: {
       type: String,
@@ -213,19 +311,23 @@ const pengadaanSchema = new Schema<IPengadaanDocument>(
       },
     },
     nilaiHpsAmount: {
-      type: String,
+      type: Schema.Types.Decimal128,
       required: [true, 'Nilai HPS amount is required'],
-      trim: true,
+      set: toDecimal128,
     },
     nilaiHpsEqRupiah: {
-      type: String,
+      type: Schema.Types.Decimal128,
       required: [true, 'Nilai HPS equivalent rupiah is required'],
-      trim: true,
+      set: toDecimal128,
+    },
+    nilaiHpsKurs: {
+      type: appliedExchangeRateSchema,
+      default: null,
     },
     nilaiHpsPortiTahun: {
-      type: String,
+      type: Schema.Types.Decimal128,
       required: [true, 'Nilai HPS porsi tahun is required'],
-      trim: true,
+      set: toDecimal128,
     },
     bulanPermintaan: {
       type: String,
@@ -233,23 +335,29 @@ const pengadaanSchema = new Schema<IPengadaanDocument>(
       trim: true,
     },
     tanggalPermintaan: {
-      type: String,
+      type: Date,
       required: [true, 'Tanggal permintaan is required'],
+      set: toDateOnly,
     },
     tanggalPermintaanDiterima: {
-      type: String,
+      type: Date,
       required: [true, 'Tanggal permintaan diterima is required'],
+      set: toDateOnly,
     },
     tanggalRapatPersiapan: {
-      type: String,
+      type: Date,
       required: [true, 'Tanggal rapat persiapan is required'],
+      set: toDateOnly,
     },
     tanggalRevisiPermintaan: {
-      type: String,
+      type: Date,
+      set: toDateOnly,
     },
+    // Working days, computed from the process dates
     lamaRevisiPermintaan: {
-      type: String,
-      trim: true,
+      type: Number,
+      min: [0, 'Duration cannot be negative'],
+      default: null,
     },
     noPurchaseRequisition: {
       type: String,
@@ -257,8 +365,9 @@ const pengadaanSchema = new Schema<IPengadaanDocument>(
       trim: true,
     },
     tanggalPurchaseRequisition: {
-      type: String,
+      type: Date,
       required: [true, 'Tanggal Purchase Requisition is required'],
+      set: toDateOnly,
     },
     jenisMySap: {
       type: String,
@@ -266,13 +375,15 @@ const pengadaanSchema = new Schema<IPengadaanDocument>(
       trim: true,
     },
     tanggalPerintahPengadaan: {
-      type: String,
+      type: Date,
       required: [true, 'Tanggal perintah pengadaan is required'],
+      set: toDateOnly,
     },
+    // Working days, computed from the process dates
     lamaProsesPersiapan: {
-      type: String,
-      required: [true, 'Lama proses persiapan is required'],
-      trim: true,
+      type: Number,
+      min: [0, 'Duration cannot be negative'],
+      default: null,
     },
     kategoriRisiko: {
       type: String,
@@ -292,14 +403,15 @@ const pengadaanSchema = new Schema<IPengadaanDocument>(
 
     // Section 3: PROSES PENGADAAN
     suratPenunjukan: {
-      type: String,
+      type: Date,
       required: [true, 'Surat penunjukan is required'],
-      trim: true,
+      set: toDateOnly,
     },
+    // Working days, computed from the process dates
     lamaProsesPengadaan: {
-      type: String,
-      required: [true, 'Lama proses pengadaan is required'],
-      trim: true,
+      type: Number,
+      min: [0, 'Duration cannot be negative'],
+      default: null,
     },
     jangkaWaktuPengerjaan: {
       type: String,
@@ -314,14 +426,18 @@ const pengadaanSchema = new Schema<IPengadaanDocument>(
       },
     },
     nilaiPenunjukanAmount: {
-      type: String,
+      type: Schema.Types.Decimal128,
       required: [true, 'Nilai penunjukan amount is required'],
-      trim: true,
+      set: toDecimal128,
     },
     nilaiPenunjukanEqRupiah: {
-      type: String,
+      type: Schema.Types.Decimal128,
       required: [true, 'Nilai penunjukan equivalent rupiah is required'],
-      trim: true,
+      set: toDecimal128,
+    },
+    nilaiPenunjukanKurs: {
+      type: appliedExchangeRateSchema,
+      default: null,
     },
     statusPengadaan: {
       type: String,
@@ -341,20 +457,26 @@ const pengadaanSchema = new Schema<IPengadaanDocument>(
 
     // Section 4: PROSES KONTRAK
     costSavingRp: {
-      type: String,
-      trim: true,
+      type: Schema.Types.Decimal128,
+      set: toDecimal128,
     },
     nilaiKontrakRupiah: {
-      type: String,
-      trim: true,
+      type: Schema.Types.Decimal128,
+      set: toDecimal128,
     },
     nilaiKontrakUsd: {
-      type: String,
-      trim: true,
+      type: Schema.Types.Decimal128,
+      set: toDecimal128,
     },
     nilaiKontrakPortiTahun: {
-      type: String,
-      trim: true,
+      type: Schema.Types.Decimal128,
+      set: toDecimal128,
+    },
+    // Linked vendor record; penyediaBarangJasa and statusPenyedia are copied from it
+    vendorId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Vendor',
+      default: null,
     },
     penyediaBarangJasa: {
       type: String,
@@ -372,8 +494,15 @@ const pengadaanSchema = new Schema<IPengadaanDocument>(
       trim: true,
     },
     kontrakTanggal: {
-      type: String,
+      type: Date,
       required: [true, 'Tanggal kontrak is required'],
+      set: toDateOnly,
+    },
+
+    // Computed from the SLA target of the method and type
+    slaTracking: {
+      type: slaTrackingSchema,
+      default: null,
     },
   },
   {
@@ -382,13 +511,13 @@ const pengadaanSchema = new Schema<IPengadaanDocument>(
     toJSON: {
       transform: (_doc, ret) => {
         delete ret['_id'];
-        return ret;
+        return serializePengadaan(ret);
       },
     },
     toObject: {
       transform: (_doc, ret) => {
         delete ret['_id'];
-        return ret;
+        return serializePengadaan(ret);
       },
     },
   }
@@ -400,6 +529,7 @@ pengadaanSchema.index({ nama: 'text', deskripsi: 'text', vendor: 'text' });
 pengadaanSchema.index({ kategori: 1 });
 pengadaanSchema.index({ status: 1 });
 pengadaanSchema.index({ vendor: 1 });
+pengadaanSchema.index({ vendorId: 1 });
 pengadaanSchema.index({ tanggal: 1 });
 pengadaanSchema.index({ deadline: 1 });
 pengadaanSchema.index({ createdAt: -1 });
@@ -410,6 +540,37 @@ pengadaanSchema.index({ lastModifiedBy: 1 });
 pengadaanSchema.index({ isEditable: 1 });
 pengadaanSchema.index({ submittedAt: 1 });
 pengadaanSchema.index({ submittedBy: 1 });
+pengadaanSchema.index({ pendingApproverRole: 1, submittedAt: 1 });
+
+pengadaanSchema.index({ deletedAt: 1 });
+pengadaanSchema.index({ 'slaTracking.jatuhTempo': 1 });
+// Dashboard and analytics filters; grouping runs over what these match
+pengadaanSchema.index({ tahunAnggaran: 1, penggunaBarangJasa: 1 });
+pengadaanSchema.index({ penggunaBarangJasa: 1 });
+pengadaanSchema.index({ metodePengadaan: 1, jenisPengadaan: 1 });
+pengadaanSchema.index({ picTimPpsm: 1 });
+pengadaanSchema.index({ tanggalPermintaan: 1 });
+
+// Soft delete: queries skip packages in the recycle bin unless their filter
+// mentions deletedAt (recycle bin, purge)
+pengadaanSchema.pre(
+  ['find', 'findOne', 'countDocuments', 'distinct', 'findOneAndUpdate', 'updateOne', 'updateMany'],
+  function (next) {
+    if (!Object.prototype.hasOwnProperty.call(this.getFilter(), 'deletedAt')) {
+      this.where({ deletedAt: null });
+    }
+    next();
+  }
+);
+
+pengadaanSchema.pre('aggregate', function (next) {
+  const [first] = this.pipeline();
+  const match = first && '$match' in first ? (first['$match'] as Record<string, unknown>) : undefined;
+  if (!match || !Object.prototype.hasOwnProperty.call(match, 'deletedAt')) {
+    this.pipeline().unshift({ $match: { deletedAt: null } });
+  }
+  next();
+});
 
 // Pre-save middleware to generate custom ID
 pengadaanSchema.pre('save', async function (next) {
@@ -442,7 +603,7 @@ pengadaanSchema.methods['addEditHistory'] = function (userId: string, action: st
 // Method to check if user can edit
 pengadaanSchema.methods['canUserEdit'] = function (userId: string, userRole: string): boolean {
   // Admin can always edit
-  if (userRole === 'ADMIN') {
+  if (userRole === UserRole.ADMIN) {
     return true;
   }
   
@@ -461,24 +622,39 @@ pengadaanSchema.methods['canUserEdit'] = function (userId: string, userRole: str
 
 // Method to submit form
 pengadaanSchema.methods['submitForm'] = function (userId: string) {
+  const from = this['status'];
+  this['status'] = PengadaanStatus.SUBMITTED;
   this['submittedAt'] = new Date();
   this['submittedBy'] = userId;
   this['isEditable'] = false;
-  this['addEditHistory'](userId, 'submitted');
+  this['addEditHistory'](userId, 'submitted', { status: { from, to: PengadaanStatus.SUBMITTED } });
 };
 
 // Method to approve form (admin only)
 pengadaanSchema.methods['approveForm'] = function (userId: string, reason?: string) {
-  this['addEditHistory'](userId, 'approved', undefined, reason);
+  const from = this['status'];
+  this['status'] = PengadaanStatus.APPROVED;
+  this['pendingApproverRole'] = undefined;
+  this['addEditHistory'](userId, 'approved', { status: { from, to: PengadaanStatus.APPROVED } }, reason);
 };
 
-// Method to reject form (admin only)
+// Method to reject form (admin only); the owner may edit and resubmit afterwards
 pengadaanSchema.methods['rejectForm'] = function (userId: string, reason: string) {
+  const from = this['status'];
+  this['status'] = PengadaanStatus.REJECTED;
   this['isEditable'] = true;
-  this['addEditHistory'](userId, 'rejected', undefined, reason);
+  this['submittedAt'] = undefined;
+  this['pendingApproverRole'] = undefined;
+  this['addEditHistory'](userId, 'rejected', { status: { from, to: PengadaanStatus.REJECTED } }, reason);
 };
 
 // Static methods
+// Reserve sequential custom IDs for documents inserted without save middleware (insertMany)
+pengadaanSchema.statics['generateCustomIds'] = async function (count: number): Promise<string[]> {
+  const next = await nextPengadaanSequence();
+  return Array.from({ length: count }, (_, index) => formatPengadaanId(next + index));
+};
+
 pengadaanSchema.statics['findByCustomId'] = function (customId: string) {
   return this.findOne({ id: customId });
 };
@@ -496,8 +672,8 @@ pengadaanSchema.statics['findByUser'] = function (userId: string, options: Recor
 };
 
 // Static method to find submitted forms
-pengadaanSchema.statics['findSubmitted'] = function (options: Record<string, unknown> = {}) {
-  const query = { submittedAt: { $exists: true } };
+pengadaanSchema.statics['findSubmitted'] = function (options: Record<string, unknown> = {}, filter: Record<string, unknown> = {}) {
+  const query = { submittedAt: { $exists: true }, ...filter };
   return this.find(query, null, options).populate('createdBy lastModifiedBy submittedBy', 'firstName lastName email');
 };
 
@@ -508,4 +684,4 @@ const PengadaanModel: IPengadaanModel = mongoose.model<IPengadaanDocument, IPeng
 );
 
 export default PengadaanModel;
-export { generatePengadaanId };
\ No newline at end of file
+export { generatePengadaanId, serializePengadaan };
\ No newline at end of file
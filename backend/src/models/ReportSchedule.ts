@@ -0,0 +1,134 @@
+import mongoose, { Schema, Document, Model } from 'mongoose';
+import { ReportFormat } from '../types/report';
+
+export const SCHEDULE_FORMATS = [ReportFormat.CSV, ReportFormat.XLSX, ReportFormat.PDF] as const;
+
+export type ScheduleFormat = (typeof SCHEDULE_FORMATS)[number];
+
+export enum ScheduleRunStatus {
+  SUCCESS = 'success',
+  FAILED = 'failed',
+}
+
+// Report schedule interface: a saved report run (report and parameters) rendered and
+// mailed to the recipients whenever the cron expression comes due
+export interface IReportSchedule {
+  nama: string;
+  reportId: string;
+  params: Record<string, string>;
+  format: ScheduleFormat;
+  cron: string;
+  recipients: string[];
+  aktif: boolean;
+  // Next due run; null when inactive or the expression never comes due
+  nextRunAt: Date | null;
+  lastRunAt: Date | null;
+  lastStatus: ScheduleRunStatus | null;
+  lastError: string | null;
+  createdBy: mongoose.Types.ObjectId;
+  updatedBy?: mongoose.Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Report schedule document interface
+export interface IReportScheduleDocument extends IReportSchedule, Document {
+  toResponse(): object;
+}
+
+// Report schedule model interface
+export type IReportScheduleModel = Model<IReportScheduleDocument>;
+
+const reportScheduleSchema = new Schema<IReportScheduleDocument>(
+  {
+    nama: {
+      type: String,
+      required: [true, 'Schedule name is required'],
+      trim: true,
+      maxlength: [200, 'Schedule name cannot exceed 200 characters'],
+    },
+    reportId: {
+      type: String,
+      required: [true, 'Report is required'],
+      trim: true,
+    },
+    // Report parameters by key, as taken by GET /api/reports/:reportId
+    params: {
+      type: Schema.Types.Mixed,
+      default: {},
+    },
+    format: {
+      type: String,
+      required: true,
+      enum: {
+        values: SCHEDULE_FORMATS,
+        message: 'Invalid report format',
+      },
+    },
+    cron: {
+      type: String,
+      required: [true, 'Cron expression is required'],
+      trim: true,
+      maxlength: [100, 'Cron expression cannot exceed 100 characters'],
+    },
+    recipients: {
+      type: [String],
+      validate: {
+        validator: (value: string[]) => value.length > 0,
+        message: 'At least one recipient is required',
+      },
+    },
+    aktif: {
+      type: Boolean,
+      default: true,
+    },
+    nextRunAt: {
+      type: Date,
+      default: null,
+    },
+    lastRunAt: {
+      type: Date,
+      default: null,
+    },
+    lastStatus: {
+      type: String,
+      enum: [...Object.values(ScheduleRunStatus), null],
+      default: null,
+    },
+    lastError: {
+      type: String,
+      default: null,
+    },
+    createdBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    updatedBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+    },
+  },
+  {
+    timestamps: true,
+    versionKey: false,
+  }
+);
+
+// Indexes
+reportScheduleSchema.index({ aktif: 1, nextRunAt: 1 });
+
+// Instance methods
+reportScheduleSchema.methods['toResponse'] = function (): object {
+  const obj = this['toObject']();
+  obj.id = String(obj._id);
+  delete obj._id;
+  return obj;
+};
+
+const ReportScheduleModel: IReportScheduleModel = mongoose.model<IReportScheduleDocument, IReportScheduleModel>(
+  'ReportSchedule',
+  reportScheduleSchema
+);
+
+export default ReportScheduleModel;
@@ -0,0 +1,112 @@
+import mongoose, { Schema, Document, Model } from 'mongoose';
+import { PENGADAAN_DATE_FIELDS } from '../config/pengadaanFields';
+
+// Process dates an SLA can run between; the legacy tanggal and deadline are not process dates
+export const SLA_DATE_FIELDS = PENGADAAN_DATE_FIELDS.filter((field) => field !== 'tanggal' && field !== 'deadline');
+
+// SLA target interface: working days allowed from one process date to another
+// for a procurement method, optionally narrowed to one jenis pengadaan
+export interface ISlaTarget {
+  metodePengadaan: string;
+  // Null applies the target to every jenis pengadaan of the method
+  jenisPengadaan: string | null;
+  hariKerja: number;
+  dari: string;
+  sampai: string;
+  keterangan?: string;
+  createdBy: mongoose.Types.ObjectId;
+  updatedBy?: mongoose.Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// SLA target document interface
+export interface ISlaTargetDocument extends ISlaTarget, Document {
+  toResponse(): object;
+}
+
+// SLA target model interface
+export type ISlaTargetModel = Model<ISlaTargetDocument>;
+
+// One target per method and jenis pengadaan
+const slaTargetSchema = new Schema<ISlaTargetDocument>(
+  {
+    metodePengadaan: {
+      type: String,
+      required: [true, 'Metode pengadaan is required'],
+      trim: true,
+      maxlength: [200, 'Metode pengadaan cannot exceed 200 characters'],
+    },
+    jenisPengadaan: {
+      type: String,
+      trim: true,
+      default: null,
+      maxlength: [200, 'Jenis pengadaan cannot exceed 200 characters'],
+    },
+    hariKerja: {
+      type: Number,
+      required: [true, 'Target working days are required'],
+      min: [1, 'Target must be at least one working day'],
+    },
+    dari: {
+      type: String,
+      required: [true, 'Start date field is required'],
+      enum: {
+        values: SLA_DATE_FIELDS,
+        message: 'Invalid start date field',
+      },
+    },
+    sampai: {
+      type: String,
+      required: [true, 'End date field is required'],
+      enum: {
+        values: SLA_DATE_FIELDS,
+        message: 'Invalid end date field',
+      },
+    },
+    keterangan: {
+      type: String,
+      trim: true,
+      maxlength: [500, 'Keterangan cannot exceed 500 characters'],
+    },
+    createdBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    updatedBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+    },
+  },
+  {
+    timestamps: true,
+    versionKey: false,
+  }
+);
+
+// Indexes
+slaTargetSchema.index({ metodePengadaan: 1, jenisPengadaan: 1 }, { unique: true });
+
+// An SLA cannot start and end on the same date
+slaTargetSchema.pre('validate', function (next) {
+  if (this.dari && this.dari === this.sampai) {
+    this.invalidate('sampai', 'End date field must differ from the start date field', this.sampai);
+  }
+  next();
+});
+
+// Instance methods
+slaTargetSchema.methods['toResponse'] = function (): object {
+  const obj = this['toObject']();
+  obj.id = String(obj._id);
+  delete obj._id;
+  return obj;
+};
+
+const SlaTargetModel: ISlaTargetModel = mongoose.model<ISlaTargetDocument, ISlaTargetModel>(
+  'SlaTarget',
+  slaTargetSchema
+);
+
+export default SlaTargetModel;
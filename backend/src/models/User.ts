@@ -8,6 +8,13 @@ export enum UserRole {
   ADMIN = 'admin'
 }
 
+// Approver roles used by pengadaan approval chains
+export enum ApproverRole {
+  MANAGER = 'manager',
+  DIRECTOR = 'director',
+  BOARD = 'board'
+}
+
 // User status enum
 export enum UserStatus {
   ACTIVE = 'active',
@@ -25,6 +32,7 @@ export interface IUser {
   lastName: string;
   role: UserRole;
   status: UserStatus;
+  approverRoles: ApproverRole[];
   lastLogin?: Date;
   profilePicture?: string;
   department?: string;
@@ -108,6 +116,16 @@ const userSchema = new Schema<IUserDocument>(
       },
       default: UserStatus.ACTIVE,
     },
+    approverRoles: {
+      type: [{
+        type: String,
+        enum: {
+          values: Object.values(ApproverRole),
+          message: 'Invalid approver role value',
+        },
+      }],
+      default: [],
+    },
     lastLogin: {
       type: Date,
     },
@@ -158,6 +176,7 @@ userSchema.index({ email: 1 }, { unique: true });
 userSchema.index({ username: 1 }, { unique: true });
 userSchema.index({ role: 1 });
 userSchema.index({ status: 1 });
+userSchema.index({ approverRoles: 1 });
 userSchema.index({ createdAt: -1 });
 
 // Pre-save middleware to hash password
@@ -209,6 +228,7 @@ userSchema.methods['toResponse'] = function (): object {
     lastName: user.lastName,
     role: user.role,
     status: user.status,
+    approverRoles: user.approverRoles,
     lastLogin: user.lastLogin,
     profilePicture: user.profilePicture,
     department: user.department,
@@ -0,0 +1,165 @@
+import mongoose, { Schema, Document, Model } from 'mongoose';
+import { normalizeCompanyName } from '../utils/fuzzy';
+
+// UMKM classification, stored with the labels used on the pengadaan form
+export enum VendorUmkmStatus {
+  UMKM = 'UMKM',
+  NON_UMKM = 'Non UMKM'
+}
+
+// Vendor bank account
+export interface IVendorBankAccount {
+  namaBank: string;
+  nomorRekening: string;
+  atasNama: string;
+}
+
+// Vendor contact person
+export interface IVendorContact {
+  nama: string;
+  jabatan?: string;
+  email?: string;
+  telepon?: string;
+}
+
+// Vendor interface
+export interface IVendor {
+  nama: string;
+  normalizedName: string;
+  npwp?: string;
+  alamat?: string;
+  statusUmkm: VendorUmkmStatus;
+  bankAccount?: IVendorBankAccount;
+  contacts: IVendorContact[];
+  isActive: boolean;
+  createdBy: mongoose.Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Vendor document interface
+export interface IVendorDocument extends IVendor, Document {
+  toResponse(): object;
+}
+
+// Vendor model interface
+export interface IVendorModel extends Model<IVendorDocument> {
+  findByNpwp(npwp: string): Promise<IVendorDocument | null>;
+}
+
+/**
+ * Keep only the digits of an NPWP; both the 15-digit and the 16-digit (NIK-based) forms are accepted
+ */
+export const normalizeNpwp = (npwp: string): string => npwp.replace(/\D/g, '');
+
+const contactSchema = new Schema<IVendorContact>(
+  {
+    nama: {
+      type: String,
+      required: [true, 'Contact name is required'],
+      trim: true,
+      maxlength: [100, 'Contact name cannot exceed 100 characters'],
+    },
+    jabatan: { type: String, trim: true },
+    email: {
+      type: String,
+      trim: true,
+      lowercase: true,
+      match: [/^\w+([.-]?\w+)*@\w+([.-]?\w+)*(\.\w{2,3})+$/, 'Please provide a valid email'],
+    },
+    telepon: { type: String, trim: true },
+  },
+  { _id: false }
+);
+
+// Vendor Schema
+const vendorSchema = new Schema<IVendorDocument>(
+  {
+    nama: {
+      type: String,
+      required: [true, 'Vendor name is required'],
+      trim: true,
+      maxlength: [200, 'Vendor name cannot exceed 200 characters'],
+    },
+    // Lowercased name without legal forms, used for duplicate checks and fuzzy matching
+    normalizedName: {
+      type: String,
+      required: true,
+    },
+    npwp: {
+      type: String,
+      trim: true,
+      set: (value: string | undefined) => (value ? normalizeNpwp(value) : value),
+      match: [/^(\d{15}|\d{16})$/, 'NPWP must have 15 or 16 digits'],
+    },
+    alamat: {
+      type: String,
+      trim: true,
+      maxlength: [500, 'Address cannot exceed 500 characters'],
+    },
+    statusUmkm: {
+      type: String,
+      enum: Object.values(VendorUmkmStatus),
+      required: [true, 'UMKM status is required'],
+    },
+    bankAccount: {
+      type: new Schema<IVendorBankAccount>(
+        {
+          namaBank: { type: String, required: [true, 'Bank name is required'], trim: true },
+          nomorRekening: { type: String, required: [true, 'Account number is required'], trim: true },
+          atasNama: { type: String, required: [true, 'Account holder is required'], trim: true },
+        },
+        { _id: false }
+      ),
+    },
+    contacts: {
+      type: [contactSchema],
+      default: [],
+    },
+    isActive: {
+      type: Boolean,
+      default: true,
+    },
+    createdBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+  },
+  {
+    timestamps: true,
+    versionKey: false,
+  }
+);
+
+// Indexes
+vendorSchema.index({ npwp: 1 }, { unique: true, sparse: true });
+vendorSchema.index({ normalizedName: 1 });
+vendorSchema.index({ nama: 'text' });
+vendorSchema.index({ isActive: 1 });
+
+// Keep the matching key in step with the display name
+vendorSchema.pre('validate', function (next) {
+  if (this.isModified('nama') || !this.normalizedName) {
+    this.normalizedName = normalizeCompanyName(this.nama ?? '');
+  }
+  next();
+});
+
+// Instance methods
+vendorSchema.methods['toResponse'] = function (): object {
+  const obj = this['toObject']();
+  obj.id = String(obj._id);
+  delete obj._id;
+  delete obj.normalizedName;
+  return obj;
+};
+
+// Static methods
+vendorSchema.statics['findByNpwp'] = function (npwp: string) {
+  return this.findOne({ npwp: normalizeNpwp(npwp) });
+};
+
+const VendorModel: IVendorModel = mongoose.model<IVendorDocument, IVendorModel>('Vendor', vendorSchema);
+
+export default VendorModel;
@@ -0,0 +1,129 @@
+import mongoose, { Schema, Document, Model } from 'mongoose';
+
+// Blacklist (Daftar Hitam) entry interface
+export interface IVendorBlacklist {
+  vendorId: mongoose.Types.ObjectId;
+  reason: string;
+  // Sanction period; endDate is the last sanctioned day
+  startDate: Date;
+  endDate: Date;
+  // Number of the decree or letter imposing the sanction
+  referenceDocument: string;
+  createdBy: mongoose.Types.ObjectId;
+  revokedAt?: Date | null;
+  revokedBy?: mongoose.Types.ObjectId;
+  revokeReason?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Blacklist entry document interface
+export interface IVendorBlacklistDocument extends IVendorBlacklist, Document {
+  isActiveAt(at: Date): boolean;
+  toResponse(): object;
+}
+
+// Blacklist model interface with static methods
+export interface IVendorBlacklistModel extends Model<IVendorBlacklistDocument> {
+  findActive(at: Date, vendorIds?: mongoose.Types.ObjectId[]): mongoose.Query<IVendorBlacklistDocument[], IVendorBlacklistDocument>;
+}
+
+const vendorBlacklistSchema = new Schema<IVendorBlacklistDocument>(
+  {
+    vendorId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Vendor',
+      required: true,
+    },
+    reason: {
+      type: String,
+      required: [true, 'Sanction reason is required'],
+      trim: true,
+      maxlength: [1000, 'Reason cannot exceed 1000 characters'],
+    },
+    startDate: {
+      type: Date,
+      required: [true, 'Sanction start date is required'],
+    },
+    endDate: {
+      type: Date,
+      required: [true, 'Sanction end date is required'],
+      validate: {
+        validator(this: IVendorBlacklistDocument, value: Date) {
+          return !this.startDate || value >= this.startDate;
+        },
+        message: 'Sanction end date cannot be before its start date',
+      },
+    },
+    referenceDocument: {
+      type: String,
+      required: [true, 'Reference document is required'],
+      trim: true,
+      maxlength: [200, 'Reference document cannot exceed 200 characters'],
+    },
+    createdBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    revokedAt: {
+      type: Date,
+      default: null,
+    },
+    revokedBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+    },
+    revokeReason: {
+      type: String,
+      trim: true,
+      maxlength: [1000, 'Revoke reason cannot exceed 1000 characters'],
+    },
+  },
+  {
+    timestamps: true,
+    versionKey: false,
+  }
+);
+
+// Indexes
+vendorBlacklistSchema.index({ vendorId: 1, startDate: -1 });
+vendorBlacklistSchema.index({ revokedAt: 1, startDate: 1, endDate: 1 });
+
+// The sanction covers the whole of its last day
+vendorBlacklistSchema.pre('validate', function (next) {
+  if (this.isModified('endDate') && this.endDate) {
+    this.endDate.setUTCHours(23, 59, 59, 999);
+  }
+  next();
+});
+
+// Instance methods
+vendorBlacklistSchema.methods['isActiveAt'] = function (at: Date): boolean {
+  return !this['revokedAt'] && this['startDate'] <= at && this['endDate'] >= at;
+};
+
+vendorBlacklistSchema.methods['toResponse'] = function (): object {
+  const obj = this['toObject']();
+  obj.id = String(obj._id);
+  obj.isActive = this['isActiveAt'](new Date());
+  delete obj._id;
+  return obj;
+};
+
+// Static methods
+vendorBlacklistSchema.statics['findActive'] = function (at: Date, vendorIds?: mongoose.Types.ObjectId[]) {
+  return this.find({
+    revokedAt: null,
+    startDate: { $lte: at },
+    endDate: { $gte: at },
+    ...(vendorIds ? { vendorId: { $in: vendorIds } } : {}),
+  });
+};
+
+const VendorBlacklistModel: IVendorBlacklistModel = mongoose.model<IVendorBlacklistDocument, IVendorBlacklistModel>(
+  'VendorBlacklist',
+  vendorBlacklistSchema
+);
+
+export default VendorBlacklistModel;
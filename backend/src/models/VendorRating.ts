@@ -0,0 +1,93 @@
+import mongoose, { Schema, Document, Model } from 'mongoose';
+
+// Rating criteria, each scored 1 (poor) to 5 (excellent)
+export const VENDOR_RATING_CRITERIA = ['timeliness', 'quality', 'compliance'] as const;
+export type VendorRatingCriterion = (typeof VENDOR_RATING_CRITERIA)[number];
+
+// Vendor rating interface
+export interface IVendorRating {
+  vendorId: mongoose.Types.ObjectId;
+  pengadaan: mongoose.Types.ObjectId;
+  pengadaanId: string;
+  timeliness: number;
+  quality: number;
+  compliance: number;
+  comment?: string;
+  ratedBy: mongoose.Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Vendor rating document interface
+export interface IVendorRatingDocument extends IVendorRating, Document {
+  toResponse(): object;
+}
+
+export type IVendorRatingModel = Model<IVendorRatingDocument>;
+
+const score = (label: string) => ({
+  type: Number,
+  required: [true, `${label} score is required`] as [boolean, string],
+  min: [1, `${label} score must be between 1 and 5`] as [number, string],
+  max: [5, `${label} score must be between 1 and 5`] as [number, string],
+  validate: {
+    validator: Number.isInteger,
+    message: `${label} score must be a whole number`,
+  },
+});
+
+// One rating per pengadaan, given once the package reaches contract stage
+const vendorRatingSchema = new Schema<IVendorRatingDocument>(
+  {
+    vendorId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Vendor',
+      required: true,
+    },
+    pengadaan: {
+      type: Schema.Types.ObjectId,
+      ref: 'Pengadaan',
+      required: true,
+    },
+    // Custom pengadaan ID (PGD-001), kept for display
+    pengadaanId: {
+      type: String,
+      required: true,
+    },
+    timeliness: score('Timeliness'),
+    quality: score('Quality'),
+    compliance: score('Compliance'),
+    comment: {
+      type: String,
+      trim: true,
+      maxlength: [1000, 'Comment cannot exceed 1000 characters'],
+    },
+    ratedBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+  },
+  {
+    timestamps: true,
+    versionKey: false,
+  }
+);
+
+vendorRatingSchema.index({ pengadaan: 1 }, { unique: true });
+vendorRatingSchema.index({ vendorId: 1, createdAt: -1 });
+
+// Instance methods
+vendorRatingSchema.methods['toResponse'] = function (): object {
+  const obj = this['toObject']();
+  obj.id = String(obj._id);
+  delete obj._id;
+  return obj;
+};
+
+const VendorRatingModel: IVendorRatingModel = mongoose.model<IVendorRatingDocument, IVendorRatingModel>(
+  'VendorRating',
+  vendorRatingSchema
+);
+
+export default VendorRatingModel;
@@ -71,6 +71,13 @@ router.get('/users', authenticate, requireAdmin, asyncHandler(authController.get
  */
 router.put('/users/:userId/role', authenticate, requireAdmin, asyncHandler(authController.updateUserRole));
 
+/**
+ * @route   PUT /api/auth/users/:userId/approver-roles
+ * @desc    Update the approval chain roles a user holds (admin only)
+ * @access  Private/Admin
+ */
+router.put('/users/:userId/approver-roles', authenticate, requireAdmin, asyncHandler(authController.updateApproverRoles));
+
 /**
  * @route   PUT /api/auth/users/:userId/status
  * @desc    Update user status (admin only)
@@ -0,0 +1,105 @@
+import { Router } from 'express';
+import budgetController from '../controllers/budgetController';
+import { validate, budgetSchemas, validateObjectId } from '../utils/validation';
+import { asyncHandler } from '../utils/errors';
+import { authenticate, requireAdmin } from '../middleware/auth';
+
+const router = Router();
+
+/**
+ * Consumption reports. Registered before /:id so "absorption" and "check" are not taken for an ID.
+ */
+
+/**
+ * @route   GET /api/budgets/absorption
+ * @desc    Committed, realised and remaining amounts per budget, with totals (dashboard)
+ * @access  Private (authenticated users)
+ * @query   tahunAnggaran, jenisAnggaran (ABO|ABI), penggunaBarangJasa
+ */
+router.get(
+  '/absorption',
+  authenticate,
+  validate(budgetSchemas.absorption, 'query'),
+  asyncHandler(budgetController.getBudgetAbsorption)
+);
+
+/**
+ * @route   GET /api/budgets/check
+ * @desc    Warn when a new package's HPS would exceed what is left of its budget
+ * @access  Private (authenticated users)
+ * @query   tahunAnggaran, jenisAnggaran, penggunaBarangJasa, amount (Rupiah)
+ */
+router.get(
+  '/check',
+  authenticate,
+  validate(budgetSchemas.check, 'query'),
+  asyncHandler(budgetController.checkBudgetCeiling)
+);
+
+/**
+ * @route   GET /api/budgets
+ * @desc    List budget ceilings
+ * @access  Private (authenticated users)
+ * @query   page, limit, tahunAnggaran, jenisAnggaran (ABO|ABI), penggunaBarangJasa
+ */
+router.get(
+  '/',
+  authenticate,
+  validate(budgetSchemas.query, 'query'),
+  asyncHandler(budgetController.getBudgets)
+);
+
+/**
+ * @route   GET /api/budgets/:id
+ * @desc    Get budget by ID with its consumption
+ * @access  Private (authenticated users)
+ */
+router.get(
+  '/:id',
+  authenticate,
+  validateObjectId('id'),
+  asyncHandler(budgetController.getBudgetById)
+);
+
+/**
+ * @route   POST /api/budgets
+ * @desc    Set the ceiling for a year, budget type and user unit
+ * @access  Admin only
+ * @body    { tahunAnggaran, jenisAnggaran, penggunaBarangJasa, pagu, keterangan? }
+ */
+router.post(
+  '/',
+  authenticate,
+  requireAdmin,
+  validate(budgetSchemas.create),
+  asyncHandler(budgetController.createBudget)
+);
+
+/**
+ * @route   PUT /api/budgets/:id
+ * @desc    Update budget
+ * @access  Admin only
+ */
+router.put(
+  '/:id',
+  authenticate,
+  requireAdmin,
+  validateObjectId('id'),
+  validate(budgetSchemas.update),
+  asyncHandler(budgetController.updateBudget)
+);
+
+/**
+ * @route   DELETE /api/budgets/:id
+ * @desc    Delete budget
+ * @access  Admin only
+ */
+router.delete(
+  '/:id',
+  authenticate,
+  requireAdmin,
+  validateObjectId('id'),
+  asyncHandler(budgetController.deleteBudget)
+);
+
+export default router;
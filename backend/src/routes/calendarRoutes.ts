@@ -0,0 +1,106 @@
+import { Router } from 'express';
+import calendarController from '../controllers/calendarController';
+import { validate, calendarSchemas, validateObjectId } from '../utils/validation';
+import { asyncHandler } from '../utils/errors';
+import { authenticate, requireAdmin } from '../middleware/auth';
+
+const router = Router();
+
+/**
+ * @route   GET /api/calendar/working-days
+ * @desc    Working days from one date to another: weekends and holidays are skipped,
+ *          the start day is not counted, so the same day gives 0
+ * @access  Private (authenticated users)
+ * @query   from, to
+ */
+router.get(
+  '/working-days',
+  authenticate,
+  validate(calendarSchemas.workingDays, 'query'),
+  asyncHandler(calendarController.getWorkingDays)
+);
+
+/**
+ * @route   GET /api/calendar/add-working-days
+ * @desc    Date N working days after a date (before it when N is negative)
+ * @access  Private (authenticated users)
+ * @query   from, days
+ */
+router.get(
+  '/add-working-days',
+  authenticate,
+  validate(calendarSchemas.addWorkingDays, 'query'),
+  asyncHandler(calendarController.addWorkingDays)
+);
+
+/**
+ * @route   GET /api/calendar/holidays
+ * @desc    National holidays and cuti bersama, in date order
+ * @access  Private (authenticated users)
+ * @query   tahun, jenis (Libur Nasional|Cuti Bersama)
+ */
+router.get(
+  '/holidays',
+  authenticate,
+  validate(calendarSchemas.holidayQuery, 'query'),
+  asyncHandler(calendarController.getHolidays)
+);
+
+/**
+ * @route   POST /api/calendar/holidays/seed
+ * @desc    Load the bundled holidays of a year (all bundled years by default)
+ *          that are not stored yet; existing entries are kept
+ * @access  Admin only
+ * @body    { tahun? }
+ */
+router.post(
+  '/holidays/seed',
+  authenticate,
+  requireAdmin,
+  validate(calendarSchemas.seedHolidays),
+  asyncHandler(calendarController.seedHolidays)
+);
+
+/**
+ * @route   POST /api/calendar/holidays
+ * @desc    Add a holiday
+ * @access  Admin only
+ * @body    { date, name, jenis }
+ */
+router.post(
+  '/holidays',
+  authenticate,
+  requireAdmin,
+  validate(calendarSchemas.createHoliday),
+  asyncHandler(calendarController.createHoliday)
+);
+
+/**
+ * @route   PUT /api/calendar/holidays/:id
+ * @desc    Correct a holiday; stored durations are recomputed when their dates next change
+ * @access  Admin only
+ * @body    { date?, name?, jenis? }
+ */
+router.put(
+  '/holidays/:id',
+  authenticate,
+  requireAdmin,
+  validateObjectId('id'),
+  validate(calendarSchemas.updateHoliday),
+  asyncHandler(calendarController.updateHoliday)
+);
+
+/**
+ * @route   DELETE /api/calendar/holidays/:id
+ * @desc    Delete holiday
+ * @access  Admin only
+ */
+router.delete(
+  '/holidays/:id',
+  authenticate,
+  requireAdmin,
+  validateObjectId('id'),
+  asyncHandler(calendarController.deleteHoliday)
+);
+
+export default router;
@@ -0,0 +1,62 @@
+import { Router } from 'express';
+import documentController from '../controllers/documentController';
+import { validate, documentSchemas, validateObjectId } from '../utils/validation';
+import { asyncHandler } from '../utils/errors';
+import { authenticate, requireAdmin } from '../middleware/auth';
+
+const router = Router();
+
+/**
+ * @route   GET /api/document-templates
+ * @desc    Templates of the documents printable per pengadaan
+ * @access  Private (authenticated users)
+ */
+router.get(
+  '/',
+  authenticate,
+  asyncHandler(documentController.getDocumentTemplates)
+);
+
+/**
+ * @route   POST /api/document-templates
+ * @desc    Add a template; {{field}} and {{field|rupiah|angka|tanggal|kapital}} are filled per pengadaan
+ * @access  Admin only
+ * @body    { key, nama, isi, keterangan? }
+ */
+router.post(
+  '/',
+  authenticate,
+  requireAdmin,
+  validate(documentSchemas.createTemplate),
+  asyncHandler(documentController.createDocumentTemplate)
+);
+
+/**
+ * @route   PUT /api/document-templates/:id
+ * @desc    Update a template
+ * @access  Admin only
+ * @body    { key?, nama?, isi?, keterangan? }
+ */
+router.put(
+  '/:id',
+  authenticate,
+  requireAdmin,
+  validateObjectId('id'),
+  validate(documentSchemas.updateTemplate),
+  asyncHandler(documentController.updateDocumentTemplate)
+);
+
+/**
+ * @route   DELETE /api/document-templates/:id
+ * @desc    Delete a template
+ * @access  Admin only
+ */
+router.delete(
+  '/:id',
+  authenticate,
+  requireAdmin,
+  validateObjectId('id'),
+  asyncHandler(documentController.deleteDocumentTemplate)
+);
+
+export default router;
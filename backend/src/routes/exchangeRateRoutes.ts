@@ -0,0 +1,77 @@
+import { Router } from 'express';
+import exchangeRateController from '../controllers/exchangeRateController';
+import { validate, exchangeRateSchemas, validateObjectId } from '../utils/validation';
+import { asyncHandler } from '../utils/errors';
+import { authenticate, requireAdmin } from '../middleware/auth';
+
+const router = Router();
+
+/**
+ * @route   GET /api/exchange-rates/effective
+ * @desc    Rate in force for a currency on a date: the latest one set on or before it
+ * @access  Private (authenticated users)
+ * @query   currency (IDR|USD|EUR|SGD), date (default today)
+ */
+router.get(
+  '/effective',
+  authenticate,
+  validate(exchangeRateSchemas.effective, 'query'),
+  asyncHandler(exchangeRateController.getEffectiveExchangeRate)
+);
+
+/**
+ * @route   GET /api/exchange-rates
+ * @desc    List exchange rates, newest first
+ * @access  Private (authenticated users)
+ * @query   page, limit, currency (USD|EUR|SGD), dateFrom, dateTo
+ */
+router.get(
+  '/',
+  authenticate,
+  validate(exchangeRateSchemas.query, 'query'),
+  asyncHandler(exchangeRateController.getExchangeRates)
+);
+
+/**
+ * @route   POST /api/exchange-rates
+ * @desc    Record the rupiah rate of a currency for a day
+ * @access  Admin only
+ * @body    { currency, date, rate, source? }
+ */
+router.post(
+  '/',
+  authenticate,
+  requireAdmin,
+  validate(exchangeRateSchemas.create),
+  asyncHandler(exchangeRateController.createExchangeRate)
+);
+
+/**
+ * @route   PUT /api/exchange-rates/:id
+ * @desc    Correct a rate; packages already converted keep the rate stored on them
+ * @access  Admin only
+ * @body    { rate?, source? }
+ */
+router.put(
+  '/:id',
+  authenticate,
+  requireAdmin,
+  validateObjectId('id'),
+  validate(exchangeRateSchemas.update),
+  asyncHandler(exchangeRateController.updateExchangeRate)
+);
+
+/**
+ * @route   DELETE /api/exchange-rates/:id
+ * @desc    Delete exchange rate
+ * @access  Admin only
+ */
+router.delete(
+  '/:id',
+  authenticate,
+  requireAdmin,
+  validateObjectId('id'),
+  asyncHandler(exchangeRateController.deleteExchangeRate)
+);
+
+export default router;
@@ -7,6 +7,14 @@ import { asyncHandler } from '../utils/errors';
 import pengadaanRoutes from './pengadaanRoutes';
 import healthRoutes from './healthRoutes';
 import authRoutes from './authRoutes';
+import vendorRoutes from './vendorRoutes';
+import budgetRoutes from './budgetRoutes';
+import exchangeRateRoutes from './exchangeRateRoutes';
+import calendarRoutes from './calendarRoutes';
+import slaRoutes from './slaRoutes';
+import reportRoutes from './reportRoutes';
+import documentTemplateRoutes from './documentTemplateRoutes';
+import reportScheduleRoutes from './reportScheduleRoutes';
 
 // Create main router
 const router = Router();
@@ -46,8 +54,98 @@ const apiBase = `${config.apiPrefix}/${config.apiVersion}`;
           delete: `DELETE ${apiBase}/pengadaan/:id`,
           search: `GET ${apiBase}/pengadaan/search`,
           stats: `GET ${apiBase}/pengadaan/stats`,
+          analytics: `GET ${apiBase}/pengadaan/analytics`,
           export: `GET ${apiBase}/pengadaan/export`,
           bulk: `POST ${apiBase}/pengadaan/bulk`,
+          transitions: `POST ${apiBase}/pengadaan/:id/transitions`,
+          history: `GET ${apiBase}/pengadaan/:id/history`,
+          document: `GET ${apiBase}/pengadaan/:id/documents/:template.pdf`,
+          snapshot: `GET ${apiBase}/pengadaan/:id/snapshot?at=`,
+          restore: `POST ${apiBase}/pengadaan/:id/restore?at=`,
+          submit: `POST ${apiBase}/pengadaan/:id/submit`,
+          approve: `POST ${apiBase}/pengadaan/:id/approve`,
+          reject: `POST ${apiBase}/pengadaan/:id/reject`,
+          reviewQueue: `GET ${apiBase}/pengadaan/review-queue`,
+          vendorRating: `PUT ${apiBase}/pengadaan/:id/vendor-rating`,
+          import: `POST ${apiBase}/pengadaan/admin/import`,
+          importReports: `GET ${apiBase}/pengadaan/admin/import/reports`,
+          backup: `POST ${apiBase}/pengadaan/admin/backup`,
+          backups: `GET ${apiBase}/pengadaan/admin/backups`,
+          restoreBackup: `POST ${apiBase}/pengadaan/admin/restore`,
+          recycleBin: `GET ${apiBase}/pengadaan/admin/recycle-bin`,
+          undelete: `POST ${apiBase}/pengadaan/admin/recycle-bin/:id/restore`,
+          purge: `DELETE ${apiBase}/pengadaan/admin/purge`,
+          auditLogs: `GET ${apiBase}/pengadaan/admin/audit-logs`,
+        },
+        vendors: {
+          base: `${apiBase}/vendors`,
+          list: `GET ${apiBase}/vendors`,
+          create: `POST ${apiBase}/vendors`,
+          get: `GET ${apiBase}/vendors/:id`,
+          update: `PUT ${apiBase}/vendors/:id`,
+          delete: `DELETE ${apiBase}/vendors/:id`,
+          scorecard: `GET ${apiBase}/vendors/:id/scorecard`,
+          blacklist: `GET ${apiBase}/vendors/blacklist`,
+          createBlacklist: `POST ${apiBase}/vendors/blacklist`,
+          revokeBlacklist: `POST ${apiBase}/vendors/blacklist/:id/revoke`,
+          linkSuggestions: `GET ${apiBase}/vendors/migration/suggestions`,
+          applyLinks: `POST ${apiBase}/vendors/migration/apply`,
+        },
+        budgets: {
+          base: `${apiBase}/budgets`,
+          list: `GET ${apiBase}/budgets`,
+          create: `POST ${apiBase}/budgets`,
+          get: `GET ${apiBase}/budgets/:id`,
+          update: `PUT ${apiBase}/budgets/:id`,
+          delete: `DELETE ${apiBase}/budgets/:id`,
+          absorption: `GET ${apiBase}/budgets/absorption`,
+          check: `GET ${apiBase}/budgets/check`,
+        },
+        exchangeRates: {
+          base: `${apiBase}/exchange-rates`,
+          list: `GET ${apiBase}/exchange-rates`,
+          create: `POST ${apiBase}/exchange-rates`,
+          update: `PUT ${apiBase}/exchange-rates/:id`,
+          delete: `DELETE ${apiBase}/exchange-rates/:id`,
+          effective: `GET ${apiBase}/exchange-rates/effective?currency=&date=`,
+        },
+        calendar: {
+          base: `${apiBase}/calendar`,
+          workingDays: `GET ${apiBase}/calendar/working-days?from=&to=`,
+          addWorkingDays: `GET ${apiBase}/calendar/add-working-days?from=&days=`,
+          holidays: `GET ${apiBase}/calendar/holidays`,
+          createHoliday: `POST ${apiBase}/calendar/holidays`,
+          updateHoliday: `PUT ${apiBase}/calendar/holidays/:id`,
+          deleteHoliday: `DELETE ${apiBase}/calendar/holidays/:id`,
+          seedHolidays: `POST ${apiBase}/calendar/holidays/seed`,
+        },
+        sla: {
+          base: `${apiBase}/sla`,
+          targets: `GET ${apiBase}/sla/targets`,
+          createTarget: `POST ${apiBase}/sla/targets`,
+          updateTarget: `PUT ${apiBase}/sla/targets/:id`,
+          deleteTarget: `DELETE ${apiBase}/sla/targets/:id`,
+          recompute: `POST ${apiBase}/sla/recompute`,
+        },
+        reports: {
+          base: `${apiBase}/reports`,
+          list: `GET ${apiBase}/reports`,
+          run: `GET ${apiBase}/reports/:reportId?format=json|csv|xlsx|pdf`,
+        },
+        documentTemplates: {
+          base: `${apiBase}/document-templates`,
+          list: `GET ${apiBase}/document-templates`,
+          create: `POST ${apiBase}/document-templates`,
+          update: `PUT ${apiBase}/document-templates/:id`,
+          delete: `DELETE ${apiBase}/document-templates/:id`,
+        },
+        reportSchedules: {
+          base: `${apiBase}/report-schedules`,
+          list: `GET ${apiBase}/report-schedules`,
+          create: `POST ${apiBase}/report-schedules`,
+          update: `PUT ${apiBase}/report-schedules/:id`,
+          delete: `DELETE ${apiBase}/report-schedules/:id`,
+          run: `POST ${apiBase}/report-schedules/:id/run`,
         },
         authentication: {
           base: `${apiBase}/auth`,
@@ -60,6 +158,7 @@ const apiBase = `${config.apiPrefix}/${config.apiVersion}`;
           changePassword: `PUT ${apiBase}/auth/change-password`,
           users: `GET ${apiBase}/auth/users`,
           updateUserRole: `PUT ${apiBase}/auth/users/:userId/role`,
+          updateApproverRoles: `PUT ${apiBase}/auth/users/:userId/approver-roles`,
           updateUserStatus: `PUT ${apiBase}/auth/users/:userId/status`,
           deleteUser: `DELETE ${apiBase}/auth/users/:userId`,
           createAdmin: `POST ${apiBase}/auth/create-admin`,
@@ -95,11 +194,34 @@ router.use('/auth', authRoutes);
 
 // Pengadaan routes
 router.use('/pengadaan', pengadaanRoutes);
+
+// Vendor (penyedia) master data
+router.use('/vendors', vendorRoutes);
+
+// Budget (anggaran) ceilings and absorption
+router.use('/budgets', budgetRoutes);
+
+// Exchange rates (kurs) for rupiah equivalents
+router.use('/exchange-rates', exchangeRateRoutes);
+
+// Working-day calendar: national holidays and cuti bersama
+router.use('/calendar', calendarRoutes);
+
+// SLA targets per procurement method
+router.use('/sla', slaRoutes);
+
+// Predefined procurement reports (laporan)
+router.use('/reports', reportRoutes);
+
+// Templates of the PDF documents printed per pengadaan
+router.use('/document-templates', documentTemplateRoutes);
+
+// Reports mailed on a schedule
+router.use('/report-schedules', reportScheduleRoutes);
 // router.use('/permissions', permissionRoutes);
 // router.use('/audit', auditRoutes);
 // router.use('/notifications', notificationRoutes);
 // router.use('/files', fileRoutes);
-// router.use('/reports', reportRoutes);
 // router.use('/settings', settingsRoutes);
 
 /**
@@ -1,18 +1,35 @@
 import { Router, Request, Response, NextFunction } from 'express';
 import pengadaanController from '../controllers/pengadaanController';
-import { validate, pengadaanSchemas, validateObjectId, validateCustomId } from '../utils/validation';
+import documentController from '../controllers/documentController';
+import { validate, pengadaanSchemas, vendorSchemas, validateObjectId, validateCustomId } from '../utils/validation';
 import { asyncHandler } from '../utils/errors';
 import { authenticate, requireAdmin } from '../middleware/auth';
 import { authRateLimiter } from '../middleware/security';
+import { uploadImportFile } from '../middleware/upload';
 import { logger } from '../utils/logger';
 
 const router = Router();
 
+/**
+ * Admin-only routes
+ * These routes require admin permissions and additional security.
+ * Mounted first so paths like /admin/restore are never taken for /:id routes.
+ */
+const adminRouter = Router();
+
+// Apply authentication and admin authorization to all admin routes
+adminRouter.use(authenticate);
+adminRouter.use(requireAdmin);
+adminRouter.use(authRateLimiter);
+
+router.use('/admin', adminRouter);
+
 /**
  * @route   GET /api/pengadaan
  * @desc    Get all pengadaan with pagination, filtering, and search
  * @access  Private (authenticated users)
- * @query   page, limit, search, status, kategori, sortBy, sortOrder, startDate, endDate, minNilai, maxNilai
+ * @query   page, limit, search, status, kategori, sortBy, sortOrder, startDate, endDate, minNilai, maxNilai,
+ *          slaStatus (On Track|At Risk|Breached|Met)
  */
 router.get(
   '/',
@@ -23,15 +40,33 @@ router.get(
 
 /**
  * @route   GET /api/pengadaan/stats
- * @desc    Get pengadaan statistics
+ * @desc    Get pengadaan statistics: counts, rupiah totals, monthly trend and SLA compliance
  * @access  Private (authenticated users)
+ * @query   tahunAnggaran?, penggunaBarangJasa?
  */
 router.get(
   '/stats',
   authenticate,
+  validate(pengadaanSchemas.statsQuery, 'query'),
   asyncHandler(pengadaanController.getPengadaanStats)
 );
 
+/**
+ * @route   GET /api/pengadaan/analytics
+ * @desc    Group packages by up to 3 dimensions and an optional time bucket, with chosen measures
+ * @access  Private (authenticated users)
+ * @query   groupBy? (comma list: metodePengadaan, jenisPengadaan, picTimPpsm, penggunaBarangJasa,
+ *          statusPenyedia, kategoriRisiko, ...), measures? (count, hps, kontrak, costSaving),
+ *          bucket? (month, quarter, year), dateField? (default tanggalPermintaan), from?, to?,
+ *          and an equality filter per dimension, e.g. metodePengadaan=Tender
+ */
+router.get(
+  '/analytics',
+  authenticate,
+  validate(pengadaanSchemas.analyticsQuery, 'query'),
+  asyncHandler(pengadaanController.getPengadaanAnalytics)
+);
+
 /**
  * @route   GET /api/pengadaan/search
  * @desc    Search pengadaan
@@ -46,28 +81,43 @@ router.get(
 
 /**
  * @route   GET /api/pengadaan/export
- * @desc    Export pengadaan data
+ * @desc    Export pengadaan data (streamed; same filters as the list)
  * @access  Private (authenticated users)
- * @query   format, filters
+ * @query   format (json|csv|excel), columns (comma-separated field keys), filters
  */
 router.get(
   '/export',
   authenticate,
-  validate(pengadaanSchemas.query),
+  validate(pengadaanSchemas.exportQuery, 'query'),
   asyncHandler(pengadaanController.exportPengadaan)
 );
 
 /**
  * @route   GET /api/pengadaan/recent
- * @desc    Get recent pengadaan activity
+ * @desc    Get recent pengadaan activity: the latest edit history entries across packages
  * @access  Private (authenticated users)
+ * @query   limit?, tahunAnggaran?, penggunaBarangJasa?
  */
 router.get(
   '/recent',
   authenticate,
+  validate(pengadaanSchemas.activityQuery, 'query'),
   asyncHandler(pengadaanController.getRecentActivity)
 );
 
+/**
+ * @route   GET /api/pengadaan/review-queue
+ * @desc    Get submitted pengadaan awaiting a review decision
+ * @access  Private (admin sees all; approvers see packages pending on their roles)
+ * @query   page, limit
+ */
+router.get(
+  '/review-queue',
+  authenticate,
+  validate(pengadaanSchemas.reviewQueue, 'query'),
+  asyncHandler(pengadaanController.getReviewQueue)
+);
+
 /**
  * @route   POST /api/pengadaan
  * @desc    Create new pengadaan
@@ -152,38 +202,171 @@ router.patch(
 );
 
 /**
- * @route   DELETE /api/pengadaan/:id
- * @desc    Delete pengadaan
+ * @route   GET /api/pengadaan/:id/history
+ * @desc    Get the edit history (field-level diffs) of a pengadaan with user names
+ * @access  Private (authenticated users)
+ * @param   id - Custom pengadaan ID
+ */
+router.get(
+  '/:id/history',
+  authenticate,
+  validateCustomId('id'),
+  asyncHandler(pengadaanController.getPengadaanHistory)
+);
+
+/**
+ * @route   GET /api/pengadaan/:id/documents/:template.pdf
+ * @desc    Download a document of the pengadaan filled from a template, e.g. lembar-ringkasan.pdf
+ * @access  Private (authenticated users)
+ * @param   id - Custom pengadaan ID
+ * @param   template - Document template key
+ */
+router.get(
+  '/:id/documents/:template.pdf',
+  authenticate,
+  validateCustomId('id'),
+  asyncHandler(documentController.getPengadaanDocument)
+);
+
+/**
+ * @route   GET /api/pengadaan/:id/snapshot
+ * @desc    Reconstruct a pengadaan as it was at a past timestamp
  * @access  Private/Admin (admin only)
- * @param   id - MongoDB ObjectId
+ * @param   id - Custom pengadaan ID
+ * @query   at - ISO timestamp
  */
-router.delete(
-  '/:id',
+router.get(
+  '/:id/snapshot',
   authenticate,
   requireAdmin,
-  validateObjectId('id'),
-  asyncHandler(pengadaanController.deletePengadaan)
+  validateCustomId('id'),
+  validate(pengadaanSchemas.pointInTime, 'query'),
+  asyncHandler(pengadaanController.getPengadaanSnapshot)
 );
 
 /**
- * @route   PUT /api/pengadaan/bulk/update
- * @desc    Bulk update pengadaan
+ * @route   POST /api/pengadaan/:id/restore
+ * @desc    Restore a pengadaan to its state at a past timestamp as a new revision
  * @access  Private/Admin (admin only)
- * @body    array of pengadaan updates
+ * @param   id - Custom pengadaan ID
+ * @query   at - ISO timestamp
+ * @body    blacklistOverrideReason - required when the restored penyedia is blacklisted
  */
-router.put(
-  '/bulk/update',
+router.post(
+  '/:id/restore',
   authenticate,
   requireAdmin,
-  authRateLimiter, // Extra rate limiting for bulk operations
-  asyncHandler(pengadaanController.bulkUpdatePengadaan)
+  validateCustomId('id'),
+  validate(pengadaanSchemas.pointInTime, 'query'),
+  validate(pengadaanSchemas.restore),
+  asyncHandler(pengadaanController.restorePengadaan)
+);
+
+/**
+ * @route   GET /api/pengadaan/:id/transitions
+ * @desc    List lifecycle statuses the current user may move the pengadaan to
+ * @access  Private (creator or admin)
+ * @param   id - Custom pengadaan ID
+ */
+router.get(
+  '/:id/transitions',
+  authenticate,
+  validateCustomId('id'),
+  asyncHandler(pengadaanController.getPengadaanTransitions)
+);
+
+/**
+ * @route   POST /api/pengadaan/:id/transitions
+ * @desc    Move pengadaan to a new lifecycle status
+ * @access  Private (role depends on the transition; users only on their own forms)
+ * @param   id - Custom pengadaan ID
+ * @body    { to: PengadaanStatus, reason?: string }
+ */
+router.post(
+  '/:id/transitions',
+  authenticate,
+  validateCustomId('id'),
+  validate(pengadaanSchemas.transition),
+  asyncHandler(pengadaanController.transitionPengadaan)
+);
+
+/**
+ * @route   POST /api/pengadaan/:id/submit
+ * @desc    Submit pengadaan for review
+ * @access  Private (creator while editable, or admin)
+ * @param   id - Custom pengadaan ID
+ */
+router.post(
+  '/:id/submit',
+  authenticate,
+  validateCustomId('id'),
+  asyncHandler(pengadaanController.submitPengadaan)
+);
+
+/**
+ * @route   POST /api/pengadaan/:id/approve
+ * @desc    Approve the current approval chain step of a submitted pengadaan
+ * @access  Private (admin or holder of the pending approver role)
+ * @param   id - Custom pengadaan ID
+ * @body    { reason?: string }
+ */
+router.post(
+  '/:id/approve',
+  authenticate,
+  validateCustomId('id'),
+  validate(pengadaanSchemas.approve),
+  asyncHandler(pengadaanController.approvePengadaan)
+);
+
+/**
+ * @route   POST /api/pengadaan/:id/reject
+ * @desc    Reject submitted pengadaan at its current approval chain step
+ * @access  Private (admin or holder of the pending approver role)
+ * @param   id - Custom pengadaan ID
+ * @body    { reason: string }
+ */
+router.post(
+  '/:id/reject',
+  authenticate,
+  validateCustomId('id'),
+  validate(pengadaanSchemas.reject),
+  asyncHandler(pengadaanController.rejectPengadaan)
+);
+
+/**
+ * @route   GET /api/pengadaan/:id/vendor-rating
+ * @desc    Get the rating given to the pengadaan's vendor (null when not rated yet)
+ * @access  Private (authenticated users)
+ * @param   id - Custom pengadaan ID
+ */
+router.get(
+  '/:id/vendor-rating',
+  authenticate,
+  validateCustomId('id'),
+  asyncHandler(pengadaanController.getVendorRating)
+);
+
+/**
+ * @route   PUT /api/pengadaan/:id/vendor-rating
+ * @desc    Rate the pengadaan's vendor once it reaches contract stage (In Progress or Completed)
+ * @access  Private (creator or admin)
+ * @param   id - Custom pengadaan ID
+ * @body    { timeliness: 1-5, quality: 1-5, compliance: 1-5, comment?: string }
+ */
+router.put(
+  '/:id/vendor-rating',
+  authenticate,
+  validateCustomId('id'),
+  validate(vendorSchemas.rating),
+  asyncHandler(pengadaanController.rateVendor)
 );
 
 /**
  * @route   DELETE /api/pengadaan/bulk
- * @desc    Bulk delete pengadaan
+ * @desc    Bulk move pengadaan to the recycle bin
  * @access  Private/Admin (admin only)
- * @body    array of pengadaan IDs
+ * @body    { ids: string[] }
+ * Registered before DELETE /:id so "bulk" is not taken for an ID.
  */
 router.delete(
   '/bulk',
@@ -194,101 +377,162 @@ router.delete(
 );
 
 /**
- * Route-specific middleware for advanced permissions
+ * @route   DELETE /api/pengadaan/:id
+ * @desc    Move pengadaan to the recycle bin (soft delete)
+ * @access  Private/Admin (admin only)
+ * @param   id - Custom pengadaan ID
  */
+router.delete(
+  '/:id',
+  authenticate,
+  requireAdmin,
+  validateCustomId('id'),
+  asyncHandler(pengadaanController.deletePengadaan)
+);
 
 /**
- * Admin-only routes
- * These routes require admin permissions and additional security
+ * @route   PUT /api/pengadaan/bulk/update
+ * @desc    Bulk update pengadaan
+ * @access  Private/Admin (admin only)
+ * @body    array of pengadaan updates
  */
-const adminRouter = Router();
+router.put(
+  '/bulk/update',
+  authenticate,
+  requireAdmin,
+  authRateLimiter, // Extra rate limiting for bulk operations
+  asyncHandler(pengadaanController.bulkUpdatePengadaan)
+);
 
-// Apply authentication and admin authorization to all admin routes
-adminRouter.use(authenticate);
-adminRouter.use(requireAdmin);
-adminRouter.use(authRateLimiter);
+/**
+ * Route-specific middleware for advanced permissions
+ */
+
+/**
+ * Admin-only routes (mounted at the top of this router)
+ */
 
 /**
  * @route   POST /api/pengadaan/admin/import
- * @desc    Import pengadaan data from file
+ * @desc    Import pengadaan from an XLSX/CSV monitoring sheet; stores an import report
  * @access  Admin only
- * @body    File upload with pengadaan data
+ * @body    multipart: file (.xlsx|.csv), dryRun ('true'|'false', default 'true'),
+ *          mapping (JSON object of sheet header -> field key, or null to ignore)
  */
 adminRouter.post(
   '/import',
-  // TODO: Add file upload middleware
-  asyncHandler(async (_req, res, _next) => {
-    // TODO: Implement import functionality
-    res.json({
-      success: false,
-      message: 'Import functionality not implemented yet',
-    });
-  })
+  uploadImportFile,
+  validate(pengadaanSchemas.importOptions),
+  asyncHandler(pengadaanController.importPengadaan)
+);
+
+/**
+ * @route   GET /api/pengadaan/admin/import/reports
+ * @desc    List import reports, newest first
+ * @access  Admin only
+ * @query   page, limit
+ */
+adminRouter.get(
+  '/import/reports',
+  validate(pengadaanSchemas.importReportList, 'query'),
+  asyncHandler(pengadaanController.getImportReports)
+);
+
+/**
+ * @route   GET /api/pengadaan/admin/import/reports/:reportId
+ * @desc    Get an import report with per-row results, or download it as CSV
+ * @access  Admin only
+ * @query   format (json|csv)
+ */
+adminRouter.get(
+  '/import/reports/:reportId',
+  validateObjectId('reportId'),
+  validate(pengadaanSchemas.importReportQuery, 'query'),
+  asyncHandler(pengadaanController.getImportReport)
 );
 
 /**
  * @route   POST /api/pengadaan/admin/backup
- * @desc    Create backup of all pengadaan data
+ * @desc    Snapshot pengadaan and users to a compressed, checksummed archive
  * @access  Admin only
+ * @body    { reason? }
  */
 adminRouter.post(
   '/backup',
-  asyncHandler(async (_req, res, _next) => {
-    // TODO: Implement backup functionality
-    res.json({
-      success: false,
-      message: 'Backup functionality not implemented yet',
-    });
-  })
+  validate(pengadaanSchemas.createBackup),
+  asyncHandler(pengadaanController.createBackup)
+);
+
+/**
+ * @route   GET /api/pengadaan/admin/backups
+ * @desc    List backups with their manifests, newest first
+ * @access  Admin only
+ */
+adminRouter.get(
+  '/backups',
+  asyncHandler(pengadaanController.listBackups)
 );
 
 /**
  * @route   POST /api/pengadaan/admin/restore
- * @desc    Restore pengadaan data from backup
+ * @desc    Verify and restore a backup (replace or merge); dry-run by default
  * @access  Admin only
- * @body    Backup file
+ * @body    { backupId, mode: 'replace'|'merge', dryRun?: boolean, collections?: ('pengadaan'|'users'|'vendors')[] }
  */
 adminRouter.post(
   '/restore',
-  asyncHandler(async (_req, res, _next) => {
-    // TODO: Implement restore functionality
-    res.json({
-      success: false,
-      message: 'Restore functionality not implemented yet',
-    });
-  })
+  validate(pengadaanSchemas.restoreBackup),
+  asyncHandler(pengadaanController.restoreBackup)
+);
+
+/**
+ * @route   GET /api/pengadaan/admin/recycle-bin
+ * @desc    List soft-deleted pengadaan, most recently deleted first
+ * @access  Admin only
+ * @query   page, limit
+ */
+adminRouter.get(
+  '/recycle-bin',
+  validate(pengadaanSchemas.recycleBinList, 'query'),
+  asyncHandler(pengadaanController.getRecycleBin)
+);
+
+/**
+ * @route   POST /api/pengadaan/admin/recycle-bin/:id/restore
+ * @desc    Take pengadaan back out of the recycle bin
+ * @access  Admin only
+ * @param   id - Custom pengadaan ID
+ */
+adminRouter.post(
+  '/recycle-bin/:id/restore',
+  validateCustomId('id'),
+  asyncHandler(pengadaanController.undeletePengadaan)
 );
 
 /**
  * @route   DELETE /api/pengadaan/admin/purge
- * @desc    Purge all pengadaan data (dangerous operation)
+ * @desc    Permanently remove pengadaan deleted longer ago than SOFT_DELETE_RETENTION_DAYS;
+ *          takes a backup first and records an audit entry
  * @access  Admin only
  * @body    { confirm: 'PURGE_ALL_DATA' }
  */
 adminRouter.delete(
   '/purge',
-  asyncHandler(async (_req, res, _next) => {
-    const { confirm } = _req.body;
-    
-    if (confirm !== 'PURGE_ALL_DATA') {
-      res.status(400).json({
-        success: false,
-        message: 'Confirmation required. Send { "confirm": "PURGE_ALL_DATA" } to proceed.',
-      });
-      return;
-    }
-
-    // TODO: Implement data purge functionality
-    res.status(501).json({
-      success: false,
-      message: 'Data purge functionality not yet implemented',
-    });
-    return;
-  })
+  validate(pengadaanSchemas.purge),
+  asyncHandler(pengadaanController.purgePengadaan)
 );
 
-// Mount admin routes
-router.use('/admin', adminRouter);
+/**
+ * @route   GET /api/pengadaan/admin/audit-logs
+ * @desc    List audit log entries, newest first
+ * @access  Admin only
+ * @query   page, limit, action
+ */
+adminRouter.get(
+  '/audit-logs',
+  validate(pengadaanSchemas.auditLogList, 'query'),
+  asyncHandler(pengadaanController.getAuditLogs)
+);
 
 /**
  * Public routes (no authentication required)
@@ -376,7 +620,13 @@ export default router;
  *    - GET /api/pengadaan/:id - Get specific pengadaan
  *    - POST /api/pengadaan - Create new pengadaan
  *    - PUT/PATCH /api/pengadaan/:id - Update pengadaan
- *    - DELETE /api/pengadaan/:id - Delete pengadaan
+ *    - DELETE /api/pengadaan/:id - Move pengadaan to the recycle bin (soft delete)
+ *    - GET/POST /api/pengadaan/:id/transitions - Lifecycle status transitions
+ *    - GET /api/pengadaan/:id/history - Edit history with field-level diffs
+ *    - GET /api/pengadaan/:id/snapshot, POST /api/pengadaan/:id/restore - Point-in-time restore
+ *    - POST /api/pengadaan/:id/submit|approve|reject - Review workflow
+ *    - GET/PUT /api/pengadaan/:id/vendor-rating - Vendor rating at contract stage
+ *    - GET /api/pengadaan/review-queue - Submissions awaiting review
  * 
  * 2. **Advanced Operations:**
  *    - GET /api/pengadaan/search - Search functionality
@@ -385,10 +635,15 @@ export default router;
  *    - POST /api/pengadaan/bulk - Bulk operations
  * 
  * 3. **Admin Operations:**
- *    - POST /api/pengadaan/admin/import - Data import
+ *    - POST /api/pengadaan/admin/import - Spreadsheet import with dry-run
+ *    - GET /api/pengadaan/admin/import/reports[/:reportId] - Import reports (JSON/CSV)
  *    - POST /api/pengadaan/admin/backup - Create backup
- *    - POST /api/pengadaan/admin/restore - Restore from backup
- *    - DELETE /api/pengadaan/admin/purge - Purge all data
+ *    - GET /api/pengadaan/admin/backups - List backups
+ *    - POST /api/pengadaan/admin/restore - Restore from backup (replace/merge, dry-run)
+ *    - GET /api/pengadaan/admin/recycle-bin - Soft-deleted pengadaan
+ *    - POST /api/pengadaan/admin/recycle-bin/:id/restore - Undelete pengadaan
+ *    - DELETE /api/pengadaan/admin/purge - Purge expired deleted pengadaan (backup + audit entry)
+ *    - GET /api/pengadaan/admin/audit-logs - Audit log
  * 
  * 4. **Public Operations:**
  *    - GET /api/pengadaan/public/stats - Public statistics
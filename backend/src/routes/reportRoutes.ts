@@ -0,0 +1,34 @@
+import { Router } from 'express';
+import reportController from '../controllers/reportController';
+import { validate, reportSchemas } from '../utils/validation';
+import { asyncHandler } from '../utils/errors';
+import { authenticate } from '../middleware/auth';
+
+const router = Router();
+
+/**
+ * @route   GET /api/reports
+ * @desc    Predefined procurement reports with their parameters and columns
+ * @access  Private (authenticated users)
+ */
+router.get(
+  '/',
+  authenticate,
+  reportController.getReports
+);
+
+/**
+ * @route   GET /api/reports/:reportId
+ * @desc    Run a report; every parameter is optional and narrows it
+ * @access  Private (authenticated users)
+ * @query   format (json|csv|xlsx|pdf, default json), then the report's parameters,
+ *          e.g. tahunAnggaran, penggunaBarangJasa, metodePengadaan, picTimPpsm
+ */
+router.get(
+  '/:reportId',
+  authenticate,
+  validate(reportSchemas.run, 'query'),
+  asyncHandler(reportController.runReport)
+);
+
+export default router;
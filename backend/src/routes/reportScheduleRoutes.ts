@@ -0,0 +1,76 @@
+import { Router } from 'express';
+import scheduleController from '../controllers/scheduleController';
+import { validate, scheduleSchemas, validateObjectId } from '../utils/validation';
+import { asyncHandler } from '../utils/errors';
+import { authenticate, requireAdmin } from '../middleware/auth';
+
+const router = Router();
+
+/**
+ * @route   GET /api/report-schedules
+ * @desc    Saved reports mailed on a schedule, with their next and last runs
+ * @access  Admin only
+ */
+router.get(
+  '/',
+  authenticate,
+  requireAdmin,
+  asyncHandler(scheduleController.getReportSchedules)
+);
+
+/**
+ * @route   POST /api/report-schedules
+ * @desc    Mail a report on a cron schedule, e.g. "0 7 * * 1" for Mondays at 07:00 WIB
+ * @access  Admin only
+ * @body    { nama, reportId, params?, format (csv|xlsx|pdf), cron, recipients[], aktif? }
+ */
+router.post(
+  '/',
+  authenticate,
+  requireAdmin,
+  validate(scheduleSchemas.create),
+  asyncHandler(scheduleController.createReportSchedule)
+);
+
+/**
+ * @route   PUT /api/report-schedules/:id
+ * @desc    Update a schedule; its next run is recomputed from now
+ * @access  Admin only
+ * @body    { nama?, reportId?, params?, format?, cron?, recipients?, aktif? }
+ */
+router.put(
+  '/:id',
+  authenticate,
+  requireAdmin,
+  validateObjectId('id'),
+  validate(scheduleSchemas.update),
+  asyncHandler(scheduleController.updateReportSchedule)
+);
+
+/**
+ * @route   DELETE /api/report-schedules/:id
+ * @desc    Delete a schedule
+ * @access  Admin only
+ */
+router.delete(
+  '/:id',
+  authenticate,
+  requireAdmin,
+  validateObjectId('id'),
+  asyncHandler(scheduleController.deleteReportSchedule)
+);
+
+/**
+ * @route   POST /api/report-schedules/:id/run
+ * @desc    Deliver a schedule now; its next scheduled run is unchanged
+ * @access  Admin only
+ */
+router.post(
+  '/:id/run',
+  authenticate,
+  requireAdmin,
+  validateObjectId('id'),
+  asyncHandler(scheduleController.runReportSchedule)
+);
+
+export default router;
@@ -0,0 +1,75 @@
+import { Router } from 'express';
+import slaController from '../controllers/slaController';
+import { validate, slaSchemas, validateObjectId } from '../utils/validation';
+import { asyncHandler } from '../utils/errors';
+import { authenticate, requireAdmin } from '../middleware/auth';
+
+const router = Router();
+
+/**
+ * @route   GET /api/sla/targets
+ * @desc    SLA targets per metode and jenis pengadaan, in working days
+ * @access  Private (authenticated users)
+ */
+router.get(
+  '/targets',
+  authenticate,
+  asyncHandler(slaController.getSlaTargets)
+);
+
+/**
+ * @route   POST /api/sla/targets
+ * @desc    Set the SLA of a method, for every jenis pengadaan or just one;
+ *          running packages are re-tracked against it
+ * @access  Admin only
+ * @body    { metodePengadaan, jenisPengadaan?, hariKerja, dari?, sampai?, keterangan? }
+ */
+router.post(
+  '/targets',
+  authenticate,
+  requireAdmin,
+  validate(slaSchemas.createTarget),
+  asyncHandler(slaController.createSlaTarget)
+);
+
+/**
+ * @route   PUT /api/sla/targets/:id
+ * @desc    Correct a target; finished packages keep the target they were measured against
+ * @access  Admin only
+ * @body    { metodePengadaan?, jenisPengadaan?, hariKerja?, dari?, sampai?, keterangan? }
+ */
+router.put(
+  '/targets/:id',
+  authenticate,
+  requireAdmin,
+  validateObjectId('id'),
+  validate(slaSchemas.updateTarget),
+  asyncHandler(slaController.updateSlaTarget)
+);
+
+/**
+ * @route   DELETE /api/sla/targets/:id
+ * @desc    Delete SLA target; running packages of the method stop being tracked
+ * @access  Admin only
+ */
+router.delete(
+  '/targets/:id',
+  authenticate,
+  requireAdmin,
+  validateObjectId('id'),
+  asyncHandler(slaController.deleteSlaTarget)
+);
+
+/**
+ * @route   POST /api/sla/recompute
+ * @desc    Re-track running packages against the current targets and holiday calendar
+ * @access  Admin only
+ */
+router.post(
+  '/recompute',
+  authenticate,
+  requireAdmin,
+  asyncHandler(slaController.recomputeSlaTracking)
+);
+
+export default router;
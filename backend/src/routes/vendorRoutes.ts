@@ -0,0 +1,168 @@
+import { Router } from 'express';
+import vendorController from '../controllers/vendorController';
+import { validate, vendorSchemas, validateObjectId } from '../utils/validation';
+import { asyncHandler } from '../utils/errors';
+import { authenticate, requireAdmin } from '../middleware/auth';
+import { authRateLimiter } from '../middleware/security';
+
+const router = Router();
+
+/**
+ * Linking free-text penyedia names to vendor records.
+ * Registered before /:id so "migration" is not taken for an ID.
+ */
+
+/**
+ * @route   GET /api/vendors/migration/suggestions
+ * @desc    Group unlinked pengadaan by penyedia name and suggest matching vendors (read-only)
+ * @access  Admin only
+ * @query   threshold (0-1, default 0.6), limit (suggestions per name, default 3)
+ */
+router.get(
+  '/migration/suggestions',
+  authenticate,
+  requireAdmin,
+  validate(vendorSchemas.linkSuggestions, 'query'),
+  asyncHandler(vendorController.getVendorLinkSuggestions)
+);
+
+/**
+ * @route   POST /api/vendors/migration/apply
+ * @desc    Link unlinked pengadaan to vendors for the confirmed name/vendor pairs
+ * @access  Admin only
+ * @body    { links: { name: string, vendorId: string }[] }
+ */
+router.post(
+  '/migration/apply',
+  authenticate,
+  requireAdmin,
+  authRateLimiter,
+  validate(vendorSchemas.applyLinks),
+  asyncHandler(vendorController.applyVendorLinks)
+);
+
+/**
+ * Blacklist (Daftar Hitam) register. Registered before /:id so "blacklist" is not taken for an ID.
+ */
+
+/**
+ * @route   GET /api/vendors/blacklist
+ * @desc    List blacklist entries, newest sanction first
+ * @access  Private (authenticated users)
+ * @query   page, limit, vendorId, status (active|upcoming|expired|revoked)
+ */
+router.get(
+  '/blacklist',
+  authenticate,
+  validate(vendorSchemas.blacklistQuery, 'query'),
+  asyncHandler(vendorController.getBlacklist)
+);
+
+/**
+ * @route   POST /api/vendors/blacklist
+ * @desc    Blacklist a vendor for a sanction period
+ * @access  Admin only
+ * @body    { vendorId, reason, startDate, endDate, referenceDocument }
+ */
+router.post(
+  '/blacklist',
+  authenticate,
+  requireAdmin,
+  validate(vendorSchemas.blacklistCreate),
+  asyncHandler(vendorController.createBlacklistEntry)
+);
+
+/**
+ * @route   POST /api/vendors/blacklist/:id/revoke
+ * @desc    Lift a sanction before its end date; the entry stays on record
+ * @access  Admin only
+ * @body    { reason: string }
+ */
+router.post(
+  '/blacklist/:id/revoke',
+  authenticate,
+  requireAdmin,
+  validateObjectId('id'),
+  validate(vendorSchemas.blacklistRevoke),
+  asyncHandler(vendorController.revokeBlacklistEntry)
+);
+
+/**
+ * @route   GET /api/vendors
+ * @desc    List vendors (used by the pengadaan form's vendor picker)
+ * @access  Private (authenticated users)
+ * @query   page, limit, search (name or NPWP), status (active|inactive|blacklisted), statusUmkm
+ */
+router.get(
+  '/',
+  authenticate,
+  validate(vendorSchemas.query, 'query'),
+  asyncHandler(vendorController.getVendors)
+);
+
+/**
+ * @route   GET /api/vendors/:id
+ * @desc    Get vendor by ID
+ * @access  Private (authenticated users)
+ */
+router.get(
+  '/:id',
+  authenticate,
+  validateObjectId('id'),
+  asyncHandler(vendorController.getVendorById)
+);
+
+/**
+ * @route   GET /api/vendors/:id/scorecard
+ * @desc    Vendor scorecard: pengadaan won, total contract value, average delay and ratings
+ * @access  Private (authenticated users)
+ */
+router.get(
+  '/:id/scorecard',
+  authenticate,
+  validateObjectId('id'),
+  asyncHandler(vendorController.getVendorScorecard)
+);
+
+/**
+ * @route   POST /api/vendors
+ * @desc    Create vendor
+ * @access  Admin only
+ * @body    { nama, npwp?, alamat?, statusUmkm, bankAccount?, contacts?, isActive? }
+ */
+router.post(
+  '/',
+  authenticate,
+  requireAdmin,
+  validate(vendorSchemas.create),
+  asyncHandler(vendorController.createVendor)
+);
+
+/**
+ * @route   PUT /api/vendors/:id
+ * @desc    Update vendor
+ * @access  Admin only
+ */
+router.put(
+  '/:id',
+  authenticate,
+  requireAdmin,
+  validateObjectId('id'),
+  validate(vendorSchemas.update),
+  asyncHandler(vendorController.updateVendor)
+);
+
+/**
+ * @route   DELETE /api/vendors/:id
+ * @desc    Delete vendor; refused while pengadaan refer to it
+ * @access  Admin only
+ */
+router.delete(
+  '/:id',
+  authenticate,
+  requireAdmin,
+  validateObjectId('id'),
+  asyncHandler(vendorController.deleteVendor)
+);
+
+export default router;
@@ -0,0 +1,88 @@
+import mongoose from 'mongoose';
+import { connectDatabase, disconnectDatabase } from '../config/database';
+import { logger } from '../utils/logger';
+import { MIGRATIONS } from './migrations';
+
+/**
+ * Data migrations.
+ *
+ *   npm run migrate up       apply every pending migration, in order
+ *   npm run migrate down     revert the last applied migration
+ *   npm run migrate status   list migrations and whether they are applied
+ *
+ * Applied migrations are recorded in the `migrations` collection.
+ */
+
+interface MigrationRecord {
+  _id: string;
+  appliedAt: Date;
+}
+
+const getRecords = (): mongoose.mongo.Collection<MigrationRecord> =>
+  mongoose.connection.collection<MigrationRecord>('migrations');
+
+const up = async (): Promise<void> => {
+  const applied = new Set((await getRecords().find().toArray()).map((record) => record._id));
+  const pending = MIGRATIONS.filter((migration) => !applied.has(migration.id));
+  if (pending.length === 0) {
+    logger.info('No pending migrations');
+    return;
+  }
+
+  for (const migration of pending) {
+    logger.info(`Applying ${migration.id}: ${migration.description}`);
+    const changed = await migration.up();
+    await getRecords().insertOne({ _id: migration.id, appliedAt: new Date() });
+    logger.info(`Applied ${migration.id}`, { changed });
+  }
+};
+
+const down = async (): Promise<void> => {
+  const [last] = await getRecords().find().sort({ appliedAt: -1 }).limit(1).toArray();
+  if (!last) {
+    logger.info('No applied migrations');
+    return;
+  }
+
+  const migration = MIGRATIONS.find((candidate) => candidate.id === last._id);
+  if (!migration) {
+    throw new Error(`Applied migration ${last._id} is unknown`);
+  }
+
+  logger.info(`Reverting ${migration.id}: ${migration.description}`);
+  const changed = await migration.down();
+  await getRecords().deleteOne({ _id: migration.id });
+  logger.info(`Reverted ${migration.id}`, { changed });
+};
+
+const status = async (): Promise<void> => {
+  const records = new Map((await getRecords().find().toArray()).map((record) => [record._id, record.appliedAt]));
+  for (const migration of MIGRATIONS) {
+    const appliedAt = records.get(migration.id);
+    logger.info(`${appliedAt ? `applied ${appliedAt.toISOString()}` : 'pending'}  ${migration.id}  ${migration.description}`);
+  }
+};
+
+const COMMANDS: Record<string, () => Promise<void>> = { up, down, status };
+
+const main = async (): Promise<void> => {
+  const name = process.argv[2] ?? 'status';
+  const command = COMMANDS[name];
+  if (!command) {
+    logger.error(`Unknown command "${name}"; use up, down or status`);
+    process.exitCode = 1;
+    return;
+  }
+
+  await connectDatabase();
+  try {
+    await command();
+  } catch (error) {
+    logger.error(`Migration ${name} failed:`, error);
+    process.exitCode = 1;
+  } finally {
+    await disconnectDatabase();
+  }
+};
+
+void main();
@@ -0,0 +1,58 @@
+import mongoose from 'mongoose';
+import type { Migration } from '.';
+import PengadaanModel from '../../models/Pengadaan';
+import { PENGADAAN_AMOUNT_FIELDS } from '../../config/pengadaanFields';
+import { formatAmount, normalizeAmount } from '../../utils/amount';
+import { convertAll, DocumentConverter, RawDocument } from './convertAll';
+
+/**
+ * Decimal128 values for the text and number amounts of a stored pengadaan.
+ * Empty text becomes null; text that does not parse is reported and left as is.
+ */
+export const toDecimalAmounts: DocumentConverter = (document) => {
+  const set: RawDocument = {};
+  const invalid: string[] = [];
+
+  for (const field of PENGADAAN_AMOUNT_FIELDS) {
+    const value = document[field];
+    if (typeof value !== 'string' && typeof value !== 'number') {
+      continue;
+    }
+
+    const text = normalizeAmount(value);
+    if (text !== undefined) {
+      set[field] = mongoose.Types.Decimal128.fromString(text);
+    } else if (String(value).trim() === '') {
+      set[field] = null;
+    } else {
+      invalid.push(field);
+    }
+  }
+
+  return { set, invalid };
+};
+
+/**
+ * Text amounts for the Decimal128 amounts of a stored pengadaan, as before the migration
+ */
+export const toTextAmounts: DocumentConverter = (document) => {
+  const set: RawDocument = {};
+
+  for (const field of PENGADAAN_AMOUNT_FIELDS) {
+    const value = document[field];
+    if (value instanceof mongoose.Types.Decimal128 || value === null) {
+      set[field] = formatAmount(value);
+    }
+  }
+
+  return { set, invalid: [] };
+};
+
+const migration: Migration = {
+  id: '001-pengadaan-amounts-decimal',
+  description: 'Store pengadaan amounts as Decimal128 instead of text',
+  up: () => convertAll(PengadaanModel.collection, PENGADAAN_AMOUNT_FIELDS, toDecimalAmounts),
+  down: () => convertAll(PengadaanModel.collection, PENGADAAN_AMOUNT_FIELDS, toTextAmounts),
+};
+
+export default migration;
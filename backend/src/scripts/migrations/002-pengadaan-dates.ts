@@ -0,0 +1,88 @@
+import type { Migration } from '.';
+import PengadaanModel from '../../models/Pengadaan';
+import { PENGADAAN_DATE_FIELDS } from '../../config/pengadaanFields';
+import calendarService from '../../services/calendarService';
+import { computeDuration, DURATION_FIELDS, PENGADAAN_DURATIONS } from '../../services/pengadaanDurations';
+import { formatDateOnly, parseDateOnly } from '../../utils/date';
+import { convertAll, DocumentConverter, RawDocument } from './convertAll';
+
+const MIGRATED_FIELDS = [...PENGADAAN_DATE_FIELDS, ...DURATION_FIELDS];
+
+/**
+ * Dates for the text dates of a stored pengadaan, with its durations recomputed
+ * in working days. Empty text becomes null; text that does not parse, and
+ * durations whose dates are out of order, are reported and left empty.
+ */
+export const toDateFields = (
+  document: RawDocument,
+  holidays: ReadonlySet<string>
+): { set: RawDocument; invalid: string[] } => {
+  const set: RawDocument = {};
+  const invalid: string[] = [];
+
+  for (const field of PENGADAAN_DATE_FIELDS) {
+    const value = document[field];
+    if (typeof value !== 'string') {
+      continue;
+    }
+
+    const date = parseDateOnly(value);
+    if (date) {
+      set[field] = date;
+    } else if (value.trim() === '') {
+      set[field] = null;
+    } else {
+      invalid.push(field);
+    }
+  }
+
+  const dates = { ...document, ...set };
+  for (const rule of PENGADAAN_DURATIONS) {
+    try {
+      set[rule.field] = computeDuration(rule, dates, holidays);
+    } catch {
+      set[rule.field] = null;
+      invalid.push(rule.field);
+    }
+  }
+
+  return { set, invalid };
+};
+
+/**
+ * Text dates and durations of a stored pengadaan, as before the migration
+ */
+export const toTextDateFields: DocumentConverter = (document) => {
+  const set: RawDocument = {};
+
+  for (const field of PENGADAAN_DATE_FIELDS) {
+    const value = document[field];
+    if (value instanceof Date) {
+      set[field] = formatDateOnly(value);
+    } else if (value === null) {
+      set[field] = '';
+    }
+  }
+  for (const field of DURATION_FIELDS) {
+    const value = document[field];
+    if (typeof value === 'number' || value === null) {
+      set[field] = value === null ? '' : String(value);
+    }
+  }
+
+  return { set, invalid: [] };
+};
+
+const migration: Migration = {
+  id: '002-pengadaan-dates',
+  description: 'Store pengadaan dates as dates and compute durations in working days',
+  up: async () => {
+    // Seeded first so durations of a fresh database already skip the holidays
+    await calendarService.seedEmptyYears();
+    const holidays = await calendarService.getHolidays();
+    return convertAll(PengadaanModel.collection, MIGRATED_FIELDS, (document) => toDateFields(document, holidays));
+  },
+  down: () => convertAll(PengadaanModel.collection, MIGRATED_FIELDS, toTextDateFields),
+};
+
+export default migration;
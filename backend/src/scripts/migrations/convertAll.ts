@@ -0,0 +1,48 @@
+import mongoose from 'mongoose';
+import { logger } from '../../utils/logger';
+
+const BATCH_SIZE = 500;
+
+export type RawDocument = Record<string, unknown>;
+
+/**
+ * Values to $set on a stored document, and the fields that could not be converted
+ */
+export type DocumentConverter = (document: RawDocument) => { set: RawDocument; invalid: string[] };
+
+/**
+ * Rewrite `fields` of every document in a collection, in batches, and return how many changed.
+ * Goes through the raw collection so neither schema casts nor soft-delete filters apply.
+ */
+export const convertAll = async (
+  collection: mongoose.Collection,
+  fields: readonly string[],
+  convert: DocumentConverter
+): Promise<number> => {
+  const projection = Object.fromEntries(['id', ...fields].map((field) => [field, 1]));
+  let operations: mongoose.mongo.AnyBulkWriteOperation[] = [];
+  let modified = 0;
+
+  const flush = async (): Promise<void> => {
+    if (operations.length > 0) {
+      modified += (await collection.bulkWrite(operations, { ordered: false })).modifiedCount;
+      operations = [];
+    }
+  };
+
+  for await (const document of collection.find({}, { projection })) {
+    const { set, invalid } = convert(document);
+    if (invalid.length > 0) {
+      logger.warn(`${collection.collectionName} fields left unconverted`, { id: document['id'], fields: invalid });
+    }
+    if (Object.keys(set).length > 0) {
+      operations.push({ updateOne: { filter: { _id: document._id }, update: { $set: set } } });
+    }
+    if (operations.length >= BATCH_SIZE) {
+      await flush();
+    }
+  }
+  await flush();
+
+  return modified;
+};
@@ -0,0 +1,18 @@
+import pengadaanAmountsToDecimal from './001-pengadaan-amounts-decimal';
+import pengadaanDates from './002-pengadaan-dates';
+
+/**
+ * A one-off data migration. `up` applies it, `down` reverts it; both return
+ * how many documents they changed.
+ */
+export interface Migration {
+  id: string;
+  description: string;
+  up(): Promise<number>;
+  down(): Promise<number>;
+}
+
+/**
+ * Every migration, in the order they are applied
+ */
+export const MIGRATIONS: readonly Migration[] = [pengadaanAmountsToDecimal, pengadaanDates];
@@ -11,6 +11,9 @@ import { notFoundHandler } from '@/middleware/errorHandler';
 import { requestLogger } from '@/middleware/security';
 import apiRoutes from '@/routes/index';
 import healthRoutes from '@/routes/healthRoutes';
+import calendarService from '@/services/calendarService';
+import documentService from '@/services/documentService';
+import scheduleService from '@/services/scheduleService';
 import { logger } from '@/utils/logger';
 
 class Server {
@@ -45,6 +48,8 @@ class Server {
       credentials: true,
       methods: ['GET', 'POST', 'PUT', 'DELETE', 'PATCH', 'OPTIONS'],
       allowedHeaders: ['Content-Type', 'Authorization', 'X-Requested-With'],
+      // Lets the browser read download filenames
+      exposedHeaders: ['Content-Disposition'],
     }));
 
     // Rate limiting
@@ -109,6 +114,21 @@ class Server {
     try {
       // Connect to database (non-blocking in development)
       await connectDatabase();
+
+      // Load the bundled holiday calendar into years that have none yet
+      await calendarService.seedEmptyYears().catch((error) => {
+        logger.warn('⚠️  Holiday calendar could not be seeded', error);
+      });
+
+      // Add the bundled document templates to a database without any
+      await documentService.seedDefaults().catch((error) => {
+        logger.warn('⚠️  Document templates could not be seeded', error);
+      });
+
+      // Mail scheduled reports as they come due
+      if (config.reportSchedulerEnabled) {
+        scheduleService.start();
+      }
       
       // Start server
       this.app.listen(this.port, () => {
@@ -0,0 +1,138 @@
+import { PipelineStage } from 'mongoose';
+import PengadaanModel from '../models/Pengadaan';
+import {
+  AnalyticsBucket,
+  AnalyticsMeasure,
+  AnalyticsQuery,
+  AnalyticsResult,
+  AnalyticsRow,
+} from '../types/pengadaan';
+import { parseAmount } from '../utils/amount';
+import { logger } from '../utils/logger';
+import { AppError } from '../utils/errors';
+
+// Amount summed by each measure; rupiah equivalents, so packages in different currencies add up
+const MEASURE_FIELDS: Record<Exclude<AnalyticsMeasure, AnalyticsMeasure.COUNT>, string> = {
+  [AnalyticsMeasure.HPS]: 'nilaiHpsEqRupiah',
+  [AnalyticsMeasure.KONTRAK]: 'nilaiKontrakRupiah',
+  [AnalyticsMeasure.COST_SAVING]: 'costSavingRp',
+};
+
+export const QUARTER_LABELS = ['TW I', 'TW II', 'TW III', 'TW IV'];
+
+/**
+ * Label of a time bucket: "2024-03" for a month, "2024 TW I" for a quarter, "2024" for a year
+ */
+export function formatPeriod(bucket: AnalyticsBucket, tahun: number, bagian: number): string {
+  switch (bucket) {
+    case AnalyticsBucket.MONTH:
+      return `${tahun}-${String(bagian).padStart(2, '0')}`;
+    case AnalyticsBucket.QUARTER:
+      return `${tahun} ${QUARTER_LABELS[bagian - 1] ?? ''}`.trim();
+    default:
+      return String(tahun);
+  }
+}
+
+/**
+ * Aggregation pipeline for an analytics query. Only the first $match can use indexes
+ * (tahunAnggaran/penggunaBarangJasa, metodePengadaan, the process dates); grouping
+ * and bucketing run over the matched packages.
+ */
+export function buildAnalyticsPipeline(query: AnalyticsQuery): PipelineStage[] {
+  const { groupBy, measures, bucket, dateField, from, to, filters } = query;
+
+  const match: Record<string, unknown> = { ...filters };
+  if (bucket || from || to) {
+    // $type also drops packages without the date, which $year/$month cannot bucket
+    match[dateField] = {
+      $type: 'date',
+      ...(from ? { $gte: from } : {}),
+      ...(to ? { $lte: to } : {}),
+    };
+  }
+
+  const groupId: Record<string, unknown> = {};
+  for (const dimension of groupBy) {
+    groupId[dimension] = `$${dimension}`;
+  }
+  if (bucket) {
+    const date = `$${dateField}`;
+    groupId['tahun'] = { $year: date };
+    if (bucket === AnalyticsBucket.MONTH) {
+      groupId['bagian'] = { $month: date };
+    } else if (bucket === AnalyticsBucket.QUARTER) {
+      groupId['bagian'] = { $ceil: { $divide: [{ $month: date }, 3] } };
+    }
+  }
+
+  const accumulators: Record<string, unknown> = {};
+  for (const measure of measures) {
+    accumulators[measure] =
+      measure === AnalyticsMeasure.COUNT ? { $sum: 1 } : { $sum: `$${MEASURE_FIELDS[measure]}` };
+  }
+
+  const [firstMeasure = AnalyticsMeasure.COUNT] = measures;
+  const sort: Record<string, 1 | -1> = bucket ? { '_id.tahun': 1, '_id.bagian': 1 } : {};
+  sort[firstMeasure] = -1;
+
+  return [
+    { $match: match },
+    { $group: { _id: Object.keys(groupId).length > 0 ? groupId : null, ...accumulators } },
+    { $sort: sort },
+  ] as PipelineStage[];
+}
+
+/**
+ * Flatten a $group result into a row: dimensions (null when unset), periode, then measures as numbers
+ */
+export function toAnalyticsRow(result: Record<string, unknown>, query: AnalyticsQuery): AnalyticsRow {
+  const groupId = (result['_id'] ?? {}) as Record<string, unknown>;
+  const row: AnalyticsRow = {};
+
+  for (const dimension of query.groupBy) {
+    const value = groupId[dimension];
+    row[dimension] = value === undefined || value === null || value === '' ? null : String(value);
+  }
+  if (query.bucket) {
+    row['periode'] = formatPeriod(query.bucket, Number(groupId['tahun']), Number(groupId['bagian'] ?? 0));
+  }
+  for (const measure of query.measures) {
+    row[measure] = measure === AnalyticsMeasure.COUNT
+      ? Number(result[measure] ?? 0)
+      : parseAmount(result[measure]) ?? 0;
+  }
+
+  return row;
+}
+
+class AnalyticsService {
+  /**
+   * Group packages by any dimensions and time bucket, with the requested measures and their totals
+   */
+  async getAnalytics(query: AnalyticsQuery): Promise<AnalyticsResult> {
+    try {
+      const results = await PengadaanModel.aggregate<Record<string, unknown>>(buildAnalyticsPipeline(query));
+      const rows = results.map((result) => toAnalyticsRow(result, query));
+
+      const totals: AnalyticsResult['totals'] = {};
+      for (const measure of query.measures) {
+        totals[measure] = rows.reduce((sum, row) => sum + Number(row[measure] ?? 0), 0);
+      }
+
+      return {
+        groupBy: query.groupBy,
+        measures: query.measures,
+        bucket: query.bucket ?? null,
+        dateField: query.bucket || query.from || query.to ? query.dateField : null,
+        rows,
+        totals,
+      };
+    } catch (error) {
+      logger.error('Error calculating pengadaan analytics:', error);
+      throw new AppError('Failed to calculate analytics', 500);
+    }
+  }
+}
+
+export default new AnalyticsService();
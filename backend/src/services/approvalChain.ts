@@ -0,0 +1,124 @@
+import { ApproverRole, UserRole } from '../models/User';
+import { ApprovalChainRule, ApprovalDecision, ApprovalStep } from '../types/pengadaan';
+import { AmountValue, parseAmount } from '../utils/amount';
+
+/**
+ * Build the approval chain rules, most demanding first.
+ *
+ * Methods listed in `boardMethods` need manager, director and board sign-off;
+ * packages whose HPS (eq. rupiah) reaches `directorThreshold` need manager and
+ * director; everything else only needs a manager.
+ */
+export const createApprovalChainRules = (
+  directorThreshold: number,
+  boardMethods: readonly string[]
+): ApprovalChainRule[] => [
+  {
+    name: 'board',
+    metodePengadaan: [...boardMethods],
+    steps: [ApproverRole.MANAGER, ApproverRole.DIRECTOR, ApproverRole.BOARD],
+  },
+  {
+    name: 'director',
+    minHpsEqRupiah: directorThreshold,
+    steps: [ApproverRole.MANAGER, ApproverRole.DIRECTOR],
+  },
+  {
+    name: 'manager',
+    steps: [ApproverRole.MANAGER],
+  },
+];
+
+/**
+ * Check whether a rule applies to a package
+ */
+const ruleMatches = (
+  rule: ApprovalChainRule,
+  metodePengadaan: string | undefined,
+  hps: number
+): boolean => {
+  if (rule.metodePengadaan) {
+    const metode = (metodePengadaan ?? '').trim().toLowerCase();
+    if (!rule.metodePengadaan.some((method) => method.trim().toLowerCase() === metode)) {
+      return false;
+    }
+  }
+
+  if (rule.minHpsEqRupiah !== undefined && hps < rule.minHpsEqRupiah) {
+    return false;
+  }
+
+  return true;
+};
+
+/**
+ * Resolve the approver roles needed for a package; the first matching rule wins
+ */
+export const resolveApprovalSteps = (
+  rules: readonly ApprovalChainRule[],
+  pengadaan: { metodePengadaan?: string; nilaiHpsEqRupiah?: AmountValue }
+): ApproverRole[] => {
+  const hps = parseAmount(pengadaan.nilaiHpsEqRupiah) ?? 0;
+  const rule = rules.find((candidate) => ruleMatches(candidate, pengadaan.metodePengadaan, hps));
+  return rule ? [...rule.steps] : [ApproverRole.MANAGER];
+};
+
+/**
+ * Build a fresh chain with every step pending
+ */
+export const buildApprovalChain = (
+  rules: readonly ApprovalChainRule[],
+  pengadaan: { metodePengadaan?: string; nilaiHpsEqRupiah?: AmountValue }
+): ApprovalStep[] => {
+  return resolveApprovalSteps(rules, pengadaan).map((approverRole, index) => ({
+    step: index + 1,
+    approverRole,
+    decision: ApprovalDecision.PENDING,
+  }));
+};
+
+/**
+ * The first step still waiting for a decision, if any
+ */
+export const getCurrentStep = (chain: readonly ApprovalStep[]): ApprovalStep | undefined => {
+  return chain.find((step) => step.decision === ApprovalDecision.PENDING);
+};
+
+/**
+ * A chain is approved once every step has been approved
+ */
+export const isChainApproved = (chain: readonly ApprovalStep[]): boolean => {
+  return chain.length > 0 && chain.every((step) => step.decision === ApprovalDecision.APPROVED);
+};
+
+/**
+ * Admins may decide any step; other users need the step's approver role
+ */
+export const canDecideStep = (
+  step: ApprovalStep,
+  actor: { role: UserRole; approverRoles?: readonly ApproverRole[] }
+): boolean => {
+  if (actor.role === UserRole.ADMIN) {
+    return true;
+  }
+  return (actor.approverRoles ?? []).includes(step.approverRole);
+};
+
+/**
+ * Separation of duties: why the actor may not decide a step of this package, or undefined
+ * when they may. Nobody decides on a package they created, and each step of a chain is
+ * decided by a different user, whatever roles they hold.
+ */
+export const findDutyConflict = (
+  chain: readonly ApprovalStep[],
+  actorId: string,
+  createdBy: unknown
+): string | undefined => {
+  if (String(createdBy) === actorId) {
+    return 'The creator of a pengadaan cannot decide on its approval';
+  }
+  const decided = chain.find(
+    (step) => step.decision !== ApprovalDecision.PENDING && String(step.decidedBy) === actorId
+  );
+  return decided ? `Approval step ${decided.step} was already decided by the same user` : undefined;
+};
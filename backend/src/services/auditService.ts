@@ -0,0 +1,58 @@
+import AuditLogModel, { AuditAction, IAuditLogDocument } from '../models/AuditLog';
+import { logger } from '../utils/logger';
+import { AppError } from '../utils/errors';
+
+export interface AuditEntry {
+  action: AuditAction;
+  actorId: string;
+  targetType: string;
+  targetIds?: string[];
+  details?: Record<string, unknown>;
+  requestId?: string | undefined;
+}
+
+class AuditService {
+  /**
+   * Append an entry to the audit log
+   */
+  async record(entry: AuditEntry): Promise<IAuditLogDocument> {
+    try {
+      const log = await AuditLogModel.create({
+        action: entry.action,
+        actor: entry.actorId,
+        targetType: entry.targetType,
+        targetIds: entry.targetIds ?? [],
+        details: entry.details ?? {},
+        ...(entry.requestId ? { requestId: entry.requestId } : {}),
+      });
+
+      logger.info('Audit entry recorded', { id: log.id, action: entry.action, actorId: entry.actorId });
+      return log;
+    } catch (error) {
+      logger.error('Error recording audit entry:', error);
+      throw new AppError('Failed to record audit entry', 500);
+    }
+  }
+
+  /**
+   * Audit entries, newest first, optionally for a single action
+   */
+  async list(page: number, limit: number, action?: AuditAction) {
+    const filter = action ? { action } : {};
+    const [entries, total] = await Promise.all([
+      AuditLogModel.find(filter)
+        .sort({ createdAt: -1 })
+        .skip((page - 1) * limit)
+        .limit(limit)
+        .populate('actor', 'firstName lastName email username'),
+      AuditLogModel.countDocuments(filter),
+    ]);
+
+    return {
+      data: entries.map((entry) => entry.toResponse()),
+      total,
+    };
+  }
+}
+
+export default new AuditService();
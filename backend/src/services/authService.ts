@@ -1,4 +1,4 @@
-import UserModel, { UserRole, UserStatus } from '../models/User';
+import UserModel, { ApproverRole, UserRole, UserStatus } from '../models/User';
 import { AppError } from '../utils/errors';
 import { logger } from '../utils/logger';
 import { generateRefreshToken } from '../middleware/auth';
@@ -406,6 +406,32 @@ class AuthService {
     }
   }
 
+  /**
+   * Update the approval chain roles a user holds (admin only)
+   */
+  async updateApproverRoles(userId: string, approverRoles: ApproverRole[]): Promise<object> {
+    try {
+      const user = await UserModel.findById(userId);
+
+      if (!user) {
+        throw new AppError('User not found', 404);
+      }
+
+      user.approverRoles = [...new Set(approverRoles)];
+      await user.save();
+
+      logger.info(`Approver roles updated for user ${user.email}`, { approverRoles: user.approverRoles });
+
+      return user.toResponse();
+    } catch (error) {
+      logger.error('Update approver roles error:', error);
+      if (error instanceof AppError) {
+        throw error;
+      }
+      throw new AppError('Failed to update approver roles', 500);
+    }
+  }
+
   /**
    * Update user status (admin only)
    */
@@ -0,0 +1,564 @@
+import fs from 'fs';
+import { FileHandle, mkdir, open, readdir, readFile, rename, rm, stat, writeFile } from 'fs/promises';
+import path from 'path';
+import crypto from 'crypto';
+import readline from 'readline';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import { createGunzip, createGzip } from 'zlib';
+import mongoose from 'mongoose';
+import PengadaanModel from '../models/Pengadaan';
+import UserModel from '../models/User';
+import VendorModel from '../models/Vendor';
+import VendorRatingModel from '../models/VendorRating';
+import VendorBlacklistModel from '../models/VendorBlacklist';
+import BudgetModel from '../models/Budget';
+import ExchangeRateModel from '../models/ExchangeRate';
+import HolidayModel from '../models/Holiday';
+import SlaTargetModel from '../models/SlaTarget';
+import DocumentTemplateModel from '../models/DocumentTemplate';
+import ReportScheduleModel from '../models/ReportSchedule';
+import { BACKUP_COLLECTIONS, BackupCollection } from '../types/backup';
+import { config } from '../config/environment';
+import { logger } from '../utils/logger';
+import { AppError, NotFoundError, ValidationError } from '../utils/errors';
+
+const { EJSON } = mongoose.mongo.BSON;
+type RawDocument = mongoose.mongo.Document;
+
+/**
+ * Bumped whenever the archive layout changes; restore refuses newer formats
+ */
+export const BACKUP_FORMAT_VERSION = 1;
+export const BACKUP_FORMAT = 'procure-flow-backup';
+
+export type RestoreMode = 'replace' | 'merge';
+
+/**
+ * Backup IDs double as file names, so only the generated shape is accepted
+ */
+export const BACKUP_ID_PATTERN = /^backup-\d{8}T\d{9}Z$/;
+
+const ARCHIVE_SUFFIX = '.ndjson.gz';
+const MANIFEST_SUFFIX = '.manifest.json';
+const RESTORE_BATCH_SIZE = 500;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Sidecar written next to every archive
+ */
+export interface BackupManifest {
+  id: string;
+  format: typeof BACKUP_FORMAT;
+  formatVersion: number;
+  apiVersion: string;
+  createdAt: string;
+  createdBy: string;
+  reason?: string;
+  archive: string;
+  size: number;
+  checksum: { algorithm: 'sha256'; value: string };
+  // Collections added after a backup was taken are missing from its manifest
+  collections: Partial<Record<BackupCollection, number>>;
+}
+
+export interface RestoreOptions {
+  mode: RestoreMode;
+  dryRun: boolean;
+  collections?: BackupCollection[] | undefined;
+}
+
+export interface RestoreCollectionSummary {
+  inBackup: number;
+  existing: number;
+  inserted: number;
+  updated: number;
+  deleted: number;
+  failed: number;
+}
+
+/**
+ * Outcome of a restore; for a dry run the counts are what the restore would do
+ */
+export interface RestoreResult {
+  backupId: string;
+  mode: RestoreMode;
+  dryRun: boolean;
+  safetyBackupId?: string;
+  collections: Partial<Record<BackupCollection, RestoreCollectionSummary>>;
+}
+
+/**
+ * One archive line: the header first, then one line per document
+ */
+type ArchiveLine =
+  | { type: 'header'; format: string; formatVersion: number; id: string }
+  | { type: 'document'; collection: BackupCollection; document: RawDocument };
+
+const isBackupCollection = (value: unknown): value is BackupCollection =>
+  (BACKUP_COLLECTIONS as readonly unknown[]).includes(value);
+
+/**
+ * Serialize a document as canonical Extended JSON so ObjectIds, dates and number
+ * types survive the round trip
+ */
+export const encodeArchiveLine = (line: ArchiveLine): string => {
+  if (line.type === 'header') {
+    return `${JSON.stringify(line)}\n`;
+  }
+  return `${JSON.stringify({
+    type: line.type,
+    collection: line.collection,
+    document: EJSON.serialize(line.document, { relaxed: false }),
+  })}\n`;
+};
+
+export const decodeArchiveLine = (text: string): ArchiveLine => {
+  let parsed: Record<string, unknown>;
+  try {
+    parsed = JSON.parse(text) as Record<string, unknown>;
+  } catch {
+    throw new ValidationError('Backup archive contains a malformed line');
+  }
+
+  if (parsed['type'] === 'header') {
+    return {
+      type: 'header',
+      format: String(parsed['format']),
+      formatVersion: Number(parsed['formatVersion']),
+      id: String(parsed['id']),
+    };
+  }
+
+  const document = parsed['document'];
+  if (
+    parsed['type'] !== 'document' ||
+    !isBackupCollection(parsed['collection']) ||
+    !document ||
+    typeof document !== 'object'
+  ) {
+    throw new ValidationError('Backup archive contains an unknown record');
+  }
+
+  return {
+    type: 'document',
+    collection: parsed['collection'],
+    document: EJSON.deserialize(document as RawDocument, { relaxed: false }) as RawDocument,
+  };
+};
+
+/**
+ * Pick the backups the retention policy drops: beyond the newest `maxCount`, or
+ * older than `maxAgeDays`. A limit of 0 disables that rule.
+ */
+export const selectExpiredBackups = (
+  manifests: readonly Pick<BackupManifest, 'id' | 'createdAt'>[],
+  now: Date,
+  maxCount: number,
+  maxAgeDays: number
+): string[] => {
+  const newestFirst = [...manifests].sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  const cutoff = now.getTime() - maxAgeDays * DAY_MS;
+
+  return newestFirst
+    .filter(
+      (manifest, index) =>
+        (maxCount > 0 && index >= maxCount) ||
+        (maxAgeDays > 0 && new Date(manifest.createdAt).getTime() < cutoff)
+    )
+    .map((manifest) => manifest.id);
+};
+
+const BACKUP_MODELS = {
+  pengadaan: PengadaanModel,
+  users: UserModel,
+  vendors: VendorModel,
+  vendorRatings: VendorRatingModel,
+  vendorBlacklist: VendorBlacklistModel,
+  budgets: BudgetModel,
+  exchangeRates: ExchangeRateModel,
+  holidays: HolidayModel,
+  slaTargets: SlaTargetModel,
+  documentTemplates: DocumentTemplateModel,
+  reportSchedules: ReportScheduleModel,
+} satisfies Record<BackupCollection, unknown>;
+
+const getCollection = (name: BackupCollection): mongoose.Collection => BACKUP_MODELS[name].collection;
+
+const emptyCounts = (): Record<BackupCollection, number> =>
+  Object.fromEntries(BACKUP_COLLECTIONS.map((name) => [name, 0])) as Record<BackupCollection, number>;
+
+const hashFile = async (filePath: string): Promise<string> => {
+  const hash = crypto.createHash('sha256');
+  await pipeline(fs.createReadStream(filePath), hash);
+  return hash.digest('hex');
+};
+
+class BackupService {
+  /**
+   * Snapshot the pengadaan and user collections into a gzipped NDJSON archive with
+   * a manifest, then apply the retention policy. Backups listed in `protectedIds`
+   * survive the retention pass alongside the new one.
+   */
+  async createBackup(
+    userId: string,
+    reason?: string,
+    protectedIds: readonly string[] = []
+  ): Promise<BackupManifest> {
+    const directory = this.getDirectory();
+    const createdAt = new Date();
+    const id = `backup-${createdAt.toISOString().replace(/[-:.]/g, '')}`;
+    const archive = `${id}${ARCHIVE_SUFFIX}`;
+    const archivePath = path.join(directory, archive);
+    const temporaryPath = `${archivePath}.tmp`;
+    const counts = emptyCounts();
+
+    try {
+      logger.info('Creating backup', { id, userId, reason });
+      await mkdir(directory, { recursive: true });
+
+      await pipeline(
+        Readable.from(this.archiveLines(id, counts)),
+        createGzip(),
+        fs.createWriteStream(temporaryPath)
+      );
+      await rename(temporaryPath, archivePath);
+
+      const manifest: BackupManifest = {
+        id,
+        format: BACKUP_FORMAT,
+        formatVersion: BACKUP_FORMAT_VERSION,
+        apiVersion: config.apiVersion,
+        createdAt: createdAt.toISOString(),
+        createdBy: userId,
+        ...(reason ? { reason } : {}),
+        archive,
+        size: (await stat(archivePath)).size,
+        checksum: { algorithm: 'sha256', value: await hashFile(archivePath) },
+        collections: counts,
+      };
+      await writeFile(path.join(directory, `${id}${MANIFEST_SUFFIX}`), JSON.stringify(manifest, null, 2));
+
+      logger.info('Backup created', { id, size: manifest.size, collections: counts });
+      await this.applyRetention([id, ...protectedIds]).catch((error: unknown) => {
+        logger.warn('Backup retention could not be applied', { error });
+      });
+      return manifest;
+    } catch (error) {
+      await rm(temporaryPath, { force: true });
+      logger.error('Error creating backup:', error);
+      throw new AppError('Failed to create backup', 500);
+    }
+  }
+
+  /**
+   * Manifests of every backup on disk, newest first
+   */
+  async listBackups(): Promise<BackupManifest[]> {
+    let files: string[];
+    try {
+      files = await readdir(this.getDirectory());
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+
+    const manifests: BackupManifest[] = [];
+    for (const file of files.filter((name) => name.endsWith(MANIFEST_SUFFIX))) {
+      try {
+        manifests.push(await this.readManifest(file.slice(0, -MANIFEST_SUFFIX.length)));
+      } catch (error) {
+        logger.warn('Skipping unreadable backup manifest', { file, error });
+      }
+    }
+
+    return manifests.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  }
+
+  /**
+   * Restore collections from a backup. The archive is verified first; a real
+   * restore takes a safety backup of the current data before writing. The archive
+   * stays open from verification to the last batch, so nothing in between can take it away.
+   *   - replace: empty each collection, then insert the backup's documents
+   *   - merge: upsert the backup's documents by _id and keep everything else
+   */
+  async restoreBackup(id: string, options: RestoreOptions, userId: string): Promise<RestoreResult> {
+    const manifest = await this.verifyBackup(id);
+    // Backups taken before a collection existed leave it alone unless it is asked for
+    const collections =
+      options.collections ?? BACKUP_COLLECTIONS.filter((name) => manifest.collections[name] !== undefined);
+
+    const result: RestoreResult = {
+      backupId: id,
+      mode: options.mode,
+      dryRun: options.dryRun,
+      collections: {},
+    };
+    for (const name of collections) {
+      result.collections[name] = {
+        inBackup: manifest.collections[name] ?? 0,
+        existing: await getCollection(name).countDocuments(),
+        inserted: 0,
+        updated: 0,
+        deleted: 0,
+        failed: 0,
+      };
+    }
+
+    logger.info('Restoring backup', { id, mode: options.mode, dryRun: options.dryRun, collections, userId });
+
+    const archive = await this.openArchive(manifest);
+    try {
+      if (!options.dryRun) {
+        // The backup being restored must outlive the retention pass of the safety backup
+        result.safetyBackupId = (await this.createBackup(userId, `Before restoring ${id}`, [id])).id;
+      }
+
+      if (options.mode === 'replace') {
+        for (const name of collections) {
+          const summary = result.collections[name] as RestoreCollectionSummary;
+          summary.deleted = options.dryRun
+            ? summary.existing
+            : (await getCollection(name).deleteMany({})).deletedCount;
+        }
+      }
+
+      await this.forEachBatch(manifest, archive, collections, async (name, documents) => {
+        const summary = result.collections[name] as RestoreCollectionSummary;
+        if (options.mode === 'replace') {
+          await this.insertBatch(name, documents, summary, options.dryRun);
+        } else {
+          await this.upsertBatch(name, documents, summary, options.dryRun);
+        }
+      });
+    } finally {
+      await archive.close();
+    }
+
+    logger.info('Backup restore finished', { id, result });
+    return result;
+  }
+
+  /**
+   * Check an archive against its manifest: format version, checksum and per-collection counts
+   */
+  async verifyBackup(id: string): Promise<BackupManifest> {
+    const manifest = await this.readManifest(id);
+
+    if (manifest.format !== BACKUP_FORMAT || manifest.formatVersion > BACKUP_FORMAT_VERSION) {
+      throw new ValidationError(
+        `Unsupported backup format ${manifest.format} v${manifest.formatVersion}`,
+        'backupId',
+        id
+      );
+    }
+
+    const archivePath = path.join(this.getDirectory(), manifest.archive);
+    try {
+      await stat(archivePath);
+    } catch {
+      throw new NotFoundError('Backup archive');
+    }
+    if ((await hashFile(archivePath)) !== manifest.checksum.value) {
+      throw new ValidationError('Backup archive checksum does not match its manifest', 'backupId', id);
+    }
+
+    const counts = emptyCounts();
+    let header: ArchiveLine | undefined;
+    for await (const line of this.readArchive(manifest)) {
+      if (!header) {
+        header = line;
+        if (line.type !== 'header' || line.id !== manifest.id) {
+          throw new ValidationError('Backup archive header does not match its manifest', 'backupId', id);
+        }
+      } else if (line.type === 'document') {
+        counts[line.collection] += 1;
+      }
+    }
+
+    const mismatched = BACKUP_COLLECTIONS.filter((name) => counts[name] !== (manifest.collections[name] ?? 0));
+    if (!header || mismatched.length > 0) {
+      throw new ValidationError(
+        `Backup archive is incomplete: ${mismatched.join(', ') || 'missing header'}`,
+        'backupId',
+        id
+      );
+    }
+
+    return manifest;
+  }
+
+  private getDirectory(): string {
+    return path.resolve(config.backupPath);
+  }
+
+  private async readManifest(id: string): Promise<BackupManifest> {
+    if (!BACKUP_ID_PATTERN.test(id)) {
+      throw new ValidationError('Invalid backup ID', 'backupId', id);
+    }
+
+    try {
+      const text = await readFile(path.join(this.getDirectory(), `${id}${MANIFEST_SUFFIX}`), 'utf8');
+      return JSON.parse(text) as BackupManifest;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        throw new NotFoundError('Backup');
+      }
+      throw new ValidationError('Backup manifest is not readable', 'backupId', id);
+    }
+  }
+
+  private async *archiveLines(id: string, counts: Record<BackupCollection, number>): AsyncGenerator<string> {
+    yield encodeArchiveLine({ type: 'header', format: BACKUP_FORMAT, formatVersion: BACKUP_FORMAT_VERSION, id });
+
+    for (const name of BACKUP_COLLECTIONS) {
+      for await (const document of getCollection(name).find({}).sort({ _id: 1 })) {
+        counts[name] += 1;
+        yield encodeArchiveLine({ type: 'document', collection: name, document });
+      }
+    }
+  }
+
+  private async openArchive(manifest: BackupManifest): Promise<FileHandle> {
+    try {
+      return await open(path.join(this.getDirectory(), manifest.archive), 'r');
+    } catch {
+      throw new NotFoundError('Backup archive');
+    }
+  }
+
+  /**
+   * Decode the archive line by line, from an already opened handle when one is given
+   */
+  private async *readArchive(manifest: BackupManifest, handle?: FileHandle): AsyncGenerator<ArchiveLine> {
+    const source = handle
+      ? handle.createReadStream({ start: 0, autoClose: false })
+      : fs.createReadStream(path.join(this.getDirectory(), manifest.archive));
+    const input = source.pipe(createGunzip());
+    const lines = readline.createInterface({ input, crlfDelay: Infinity });
+
+    try {
+      for await (const text of lines) {
+        if (text.trim()) {
+          yield decodeArchiveLine(text);
+        }
+      }
+    } catch (error) {
+      if (error instanceof AppError) throw error;
+      throw new ValidationError('Backup archive is not a readable gzip file', 'backupId', manifest.id);
+    } finally {
+      lines.close();
+      input.destroy();
+      source.destroy();
+    }
+  }
+
+  /**
+   * Hand the archive's documents to `handle` in batches, per selected collection
+   */
+  private async forEachBatch(
+    manifest: BackupManifest,
+    archive: FileHandle,
+    collections: readonly BackupCollection[],
+    handle: (name: BackupCollection, documents: RawDocument[]) => Promise<void>
+  ): Promise<void> {
+    let current: BackupCollection | undefined;
+    let batch: RawDocument[] = [];
+
+    const flush = async (): Promise<void> => {
+      if (current && batch.length > 0) {
+        await handle(current, batch);
+      }
+      batch = [];
+    };
+
+    for await (const line of this.readArchive(manifest, archive)) {
+      if (line.type !== 'document' || !collections.includes(line.collection)) {
+        continue;
+      }
+      if (line.collection !== current || batch.length >= RESTORE_BATCH_SIZE) {
+        await flush();
+        current = line.collection;
+      }
+      batch.push(line.document);
+    }
+    await flush();
+  }
+
+  private async insertBatch(
+    name: BackupCollection,
+    documents: RawDocument[],
+    summary: RestoreCollectionSummary,
+    dryRun: boolean
+  ): Promise<void> {
+    if (dryRun) {
+      summary.inserted += documents.length;
+      return;
+    }
+
+    try {
+      summary.inserted += (await getCollection(name).insertMany(documents, { ordered: false })).insertedCount;
+    } catch (error) {
+      if (!(error instanceof mongoose.mongo.MongoBulkWriteError)) throw error;
+      summary.inserted += error.insertedCount;
+      summary.failed += documents.length - error.insertedCount;
+    }
+  }
+
+  private async upsertBatch(
+    name: BackupCollection,
+    documents: RawDocument[],
+    summary: RestoreCollectionSummary,
+    dryRun: boolean
+  ): Promise<void> {
+    if (dryRun) {
+      const existing = await getCollection(name).countDocuments({
+        _id: { $in: documents.map((document) => document['_id']) },
+      });
+      summary.updated += existing;
+      summary.inserted += documents.length - existing;
+      return;
+    }
+
+    const operations = documents.map((document) => ({
+      replaceOne: { filter: { _id: document['_id'] }, replacement: document, upsert: true },
+    }));
+    try {
+      const written = await getCollection(name).bulkWrite(operations, { ordered: false });
+      summary.inserted += written.upsertedCount;
+      summary.updated += written.matchedCount;
+    } catch (error) {
+      if (!(error instanceof mongoose.mongo.MongoBulkWriteError)) throw error;
+      summary.inserted += error.upsertedCount;
+      summary.updated += error.matchedCount;
+      summary.failed += documents.length - error.upsertedCount - error.matchedCount;
+    }
+  }
+
+  /**
+   * Delete backups dropped by the retention policy, never the ones in `keepIds`
+   */
+  private async applyRetention(keepIds: readonly string[]): Promise<void> {
+    const manifests = await this.listBackups();
+    const expired = selectExpiredBackups(
+      manifests,
+      new Date(),
+      config.backupRetentionCount,
+      config.backupRetentionDays
+    ).filter((id) => !keepIds.includes(id));
+
+    for (const id of expired) {
+      const manifest = manifests.find((item) => item.id === id);
+      await rm(path.join(this.getDirectory(), manifest?.archive ?? `${id}${ARCHIVE_SUFFIX}`), { force: true });
+      await rm(path.join(this.getDirectory(), `${id}${MANIFEST_SUFFIX}`), { force: true });
+    }
+
+    if (expired.length > 0) {
+      logger.info('Expired backups removed', { removed: expired });
+    }
+  }
+}
+
+export default new BackupService();
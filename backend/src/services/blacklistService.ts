@@ -0,0 +1,209 @@
+import mongoose from 'mongoose';
+import VendorModel from '../models/Vendor';
+import VendorBlacklistModel, { IVendorBlacklist, IVendorBlacklistDocument } from '../models/VendorBlacklist';
+import { normalizeCompanyName } from '../utils/fuzzy';
+import { logger } from '../utils/logger';
+import { AppError, NotFoundError, ValidationError } from '../utils/errors';
+
+export interface BlacklistListParams {
+  page: number;
+  limit: number;
+  vendorId?: string | undefined;
+  status?: 'active' | 'upcoming' | 'expired' | 'revoked' | undefined;
+}
+
+export interface CreateBlacklistEntry {
+  vendorId: string;
+  reason: string;
+  startDate: Date;
+  endDate: Date;
+  referenceDocument: string;
+}
+
+/**
+ * A sanction in force, with the vendor it applies to
+ */
+export interface ActiveSanction {
+  blacklistId: string;
+  vendorId: string;
+  vendorName: string;
+  normalizedName: string;
+  reason: string;
+  referenceDocument: string;
+  startDate: Date;
+  endDate: Date;
+}
+
+/**
+ * The sanction a pengadaan's penyedia falls under: matched on the linked vendor,
+ * or on the free-text name for packages not linked to a vendor record
+ */
+export const matchSanction = (
+  penyedia: { vendorId?: string | null | undefined; name?: string | null | undefined },
+  sanctions: readonly ActiveSanction[]
+): ActiveSanction | undefined => {
+  if (penyedia.vendorId) {
+    const linked = sanctions.find((sanction) => sanction.vendorId === penyedia.vendorId);
+    if (linked) return linked;
+  }
+  const name = normalizeCompanyName(penyedia.name ?? '');
+  return name ? sanctions.find((sanction) => sanction.normalizedName === name) : undefined;
+};
+
+class BlacklistService {
+  /**
+   * Put a vendor on the blacklist for a sanction period
+   */
+  async createEntry(data: CreateBlacklistEntry, userId: string): Promise<object> {
+    try {
+      const vendor = mongoose.isValidObjectId(data.vendorId) ? await VendorModel.findById(data.vendorId) : null;
+      if (!vendor) {
+        throw new ValidationError('Vendor not found', 'vendorId', data.vendorId);
+      }
+
+      const entry = await VendorBlacklistModel.create({ ...data, createdBy: userId });
+
+      logger.info('Vendor blacklisted', { id: entry.id, vendorId: data.vendorId, userId });
+      return entry.toResponse();
+    } catch (error) {
+      throw this.toServiceError(error, 'Failed to blacklist vendor');
+    }
+  }
+
+  /**
+   * Blacklist entries, newest sanction first
+   */
+  async listEntries(params: BlacklistListParams): Promise<{ data: object[]; total: number }> {
+    try {
+      const { page, limit, vendorId, status } = params;
+      const now = new Date();
+      const filter: Record<string, unknown> = {};
+
+      if (vendorId) {
+        filter['vendorId'] = vendorId;
+      }
+      if (status === 'revoked') {
+        filter['revokedAt'] = { $ne: null };
+      } else if (status) {
+        filter['revokedAt'] = null;
+        if (status === 'active') {
+          filter['startDate'] = { $lte: now };
+          filter['endDate'] = { $gte: now };
+        } else if (status === 'upcoming') {
+          filter['startDate'] = { $gt: now };
+        } else {
+          filter['endDate'] = { $lt: now };
+        }
+      }
+
+      const [entries, total] = await Promise.all([
+        VendorBlacklistModel.find(filter)
+          .sort({ startDate: -1, _id: -1 })
+          .skip((page - 1) * limit)
+          .limit(limit)
+          .populate('vendorId', 'nama npwp statusUmkm')
+          .populate('createdBy', 'firstName lastName email username'),
+        VendorBlacklistModel.countDocuments(filter),
+      ]);
+
+      return { data: entries.map((entry) => entry.toResponse()), total };
+    } catch (error) {
+      logger.error('Error listing blacklist entries:', error);
+      throw new AppError('Failed to retrieve blacklist', 500);
+    }
+  }
+
+  /**
+   * Lift a sanction before its end date. The entry is kept for the record.
+   */
+  async revokeEntry(id: string, userId: string, reason: string): Promise<object> {
+    try {
+      const entry = await this.findEntry(id);
+      if (entry.revokedAt) {
+        throw new ValidationError('Blacklist entry is already revoked', 'id', id);
+      }
+
+      entry.revokedAt = new Date();
+      entry.revokedBy = new mongoose.Types.ObjectId(userId);
+      entry.revokeReason = reason;
+      await entry.save();
+
+      logger.info('Blacklist entry revoked', { id, vendorId: String(entry.vendorId), userId });
+      return entry.toResponse();
+    } catch (error) {
+      throw this.toServiceError(error, 'Failed to revoke blacklist entry');
+    }
+  }
+
+  /**
+   * Sanctions in force at `at`, with the vendor names they are matched on
+   */
+  async getActiveSanctions(at: Date = new Date()): Promise<ActiveSanction[]> {
+    const entries = await VendorBlacklistModel.findActive(at).lean<(IVendorBlacklist & { _id: mongoose.Types.ObjectId })[]>();
+    if (entries.length === 0) return [];
+
+    const vendors = await VendorModel.find(
+      { _id: { $in: entries.map((entry) => entry.vendorId) } },
+      'nama normalizedName'
+    ).lean();
+    const vendorById = new Map(vendors.map((vendor) => [String(vendor._id), vendor]));
+
+    return entries.flatMap((entry) => {
+      const vendor = vendorById.get(String(entry.vendorId));
+      return vendor
+        ? [
+            {
+              blacklistId: String(entry._id),
+              vendorId: String(entry.vendorId),
+              vendorName: vendor.nama,
+              normalizedName: vendor.normalizedName,
+              reason: entry.reason,
+              referenceDocument: entry.referenceDocument,
+              startDate: entry.startDate,
+              endDate: entry.endDate,
+            },
+          ]
+        : [];
+    });
+  }
+
+  /**
+   * Sanction in force today for a pengadaan's penyedia, if any
+   */
+  async findSanction(penyedia: {
+    vendorId?: string | null | undefined;
+    name?: string | null | undefined;
+  }): Promise<ActiveSanction | undefined> {
+    if (!penyedia.vendorId && !penyedia.name) return undefined;
+    return matchSanction(penyedia, await this.getActiveSanctions());
+  }
+
+  /**
+   * IDs of the vendors under a sanction in force at `at`. Sanctions start and end with
+   * the calendar, so whether a vendor is blacklisted is worked out when it is read.
+   */
+  async getBlacklistedVendorIds(at: Date = new Date()): Promise<mongoose.Types.ObjectId[]> {
+    return VendorBlacklistModel.findActive(at).distinct('vendorId');
+  }
+
+  private async findEntry(id: string): Promise<IVendorBlacklistDocument> {
+    const entry = mongoose.isValidObjectId(id) ? await VendorBlacklistModel.findById(id) : null;
+    if (!entry) {
+      throw new NotFoundError('Blacklist entry');
+    }
+    return entry;
+  }
+
+  private toServiceError(error: unknown, message: string): AppError {
+    if (error instanceof AppError) {
+      return error;
+    }
+    if (error instanceof mongoose.Error.ValidationError) {
+      return new AppError('Validation failed', 400, error.message);
+    }
+    logger.error(`${message}:`, error);
+    return new AppError(message, 500);
+  }
+}
+
+export default new BlacklistService();
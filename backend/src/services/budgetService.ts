@@ -0,0 +1,420 @@
+import mongoose from 'mongoose';
+import BudgetModel, { IBudget, IBudgetDocument, JenisAnggaran } from '../models/Budget';
+import PengadaanModel from '../models/Pengadaan';
+import { PengadaanStatus } from '../types/pengadaan';
+import { CONTRACT_STAGE_STATUSES } from './vendorService';
+import { AmountValue, parseAmount } from '../utils/amount';
+import { formatRupiah } from '../utils/format';
+import { logger } from '../utils/logger';
+import { AppError, ConflictError, NotFoundError } from '../utils/errors';
+
+export interface BudgetListParams {
+  page: number;
+  limit: number;
+  tahunAnggaran?: number | undefined;
+  jenisAnggaran?: JenisAnggaran | undefined;
+  penggunaBarangJasa?: string | undefined;
+}
+
+export type BudgetFilters = Omit<BudgetListParams, 'page' | 'limit'>;
+
+export interface BudgetInput {
+  tahunAnggaran: number;
+  jenisAnggaran: JenisAnggaran;
+  penggunaBarangJasa: string;
+  pagu: number;
+  keterangan?: string | undefined;
+}
+
+/**
+ * Amount fields of a pengadaan that count against a budget
+ */
+export interface BudgetPackage {
+  status: string;
+  nilaiAnggaranIdr?: AmountValue;
+  nilaiHpsEqRupiah?: AmountValue;
+  nilaiPenunjukanEqRupiah?: AmountValue;
+  nilaiKontrakRupiah?: AmountValue;
+}
+
+/**
+ * How much of a ceiling is committed by packages still being procured and
+ * realised by packages under contract. Absorption is realised over ceiling, in percent.
+ */
+export interface BudgetConsumption {
+  pagu: number;
+  committed: number;
+  realised: number;
+  remaining: number;
+  absorption: number | null;
+  committedCount: number;
+  realisedCount: number;
+}
+
+export type BudgetAbsorptionItem = BudgetInput & BudgetConsumption & { id: string };
+
+export interface BudgetAbsorption {
+  items: BudgetAbsorptionItem[];
+  totals: BudgetConsumption;
+}
+
+/**
+ * Raised when a new package's HPS does not fit in what is left of its budget
+ */
+export interface BudgetWarning {
+  budgetId: string;
+  tahunAnggaran: number;
+  jenisAnggaran: JenisAnggaran;
+  penggunaBarangJasa: string;
+  pagu: number;
+  remaining: number;
+  amount: number;
+  excess: number;
+  message: string;
+}
+
+/**
+ * Packages submitted for procurement but not yet under contract; their HPS is committed
+ */
+export const COMMITTED_STATUSES: readonly string[] = [
+  PengadaanStatus.SUBMITTED,
+  PengadaanStatus.IN_REVIEW,
+  PengadaanStatus.APPROVED,
+];
+
+const round = (value: number, digits = 2): number => Math.round(value * 10 ** digits) / 10 ** digits;
+
+const normalizeUnit = (unit: string): string => unit.trim().toLowerCase();
+
+/**
+ * Key shared by a budget and the packages charged to it
+ */
+export const getBudgetKey = (tahunAnggaran: unknown, jenisAnggaran: unknown, penggunaBarangJasa: unknown): string =>
+  [
+    String(tahunAnggaran ?? '').trim(),
+    String(jenisAnggaran ?? '').trim().toUpperCase(),
+    normalizeUnit(String(penggunaBarangJasa ?? '')),
+  ].join('|');
+
+/**
+ * Amount a package commits: its HPS, or its budget line when no HPS is set yet
+ */
+export const getCommittedAmount = (item: Omit<BudgetPackage, 'status'>): number =>
+  parseAmount(item.nilaiHpsEqRupiah) ?? parseAmount(item.nilaiAnggaranIdr) ?? 0;
+
+/**
+ * Amount a package under contract realises: the contract value, or the award value before the contract is recorded
+ */
+export const getRealisedAmount = (item: Omit<BudgetPackage, 'status'>): number =>
+  parseAmount(item.nilaiKontrakRupiah) ?? parseAmount(item.nilaiPenunjukanEqRupiah) ?? 0;
+
+/**
+ * Consumption of a ceiling by the packages charged to it. Drafts, rejected and
+ * cancelled packages do not count.
+ */
+export const computeBudgetConsumption = (pagu: number, packages: readonly BudgetPackage[]): BudgetConsumption => {
+  let committed = 0;
+  let realised = 0;
+  let committedCount = 0;
+  let realisedCount = 0;
+
+  for (const item of packages) {
+    if (CONTRACT_STAGE_STATUSES.includes(item.status)) {
+      realised += getRealisedAmount(item);
+      realisedCount += 1;
+    } else if (COMMITTED_STATUSES.includes(item.status)) {
+      committed += getCommittedAmount(item);
+      committedCount += 1;
+    }
+  }
+
+  return {
+    pagu,
+    committed: round(committed),
+    realised: round(realised),
+    remaining: round(pagu - committed - realised),
+    absorption: pagu > 0 ? round((realised / pagu) * 100) : null,
+    committedCount,
+    realisedCount,
+  };
+};
+
+/**
+ * Add up several consumptions, e.g. for the dashboard totals
+ */
+export const sumConsumption = (items: readonly BudgetConsumption[]): BudgetConsumption => {
+  const total = items.reduce(
+    (sum, item) => ({
+      pagu: sum.pagu + item.pagu,
+      committed: sum.committed + item.committed,
+      realised: sum.realised + item.realised,
+      committedCount: sum.committedCount + item.committedCount,
+      realisedCount: sum.realisedCount + item.realisedCount,
+    }),
+    { pagu: 0, committed: 0, realised: 0, committedCount: 0, realisedCount: 0 }
+  );
+
+  return {
+    ...total,
+    pagu: round(total.pagu),
+    committed: round(total.committed),
+    realised: round(total.realised),
+    remaining: round(total.pagu - total.committed - total.realised),
+    absorption: total.pagu > 0 ? round((total.realised / total.pagu) * 100) : null,
+  };
+};
+
+/**
+ * Warning for a package of `amount` when it exceeds what is left of the budget; null when it fits
+ */
+export const evaluateCeiling = (
+  budget: BudgetInput & { id: string },
+  consumption: BudgetConsumption,
+  amount: number
+): BudgetWarning | null => {
+  const excess = round(amount - consumption.remaining);
+  if (amount <= 0 || excess <= 0) {
+    return null;
+  }
+
+  return {
+    budgetId: budget.id,
+    tahunAnggaran: budget.tahunAnggaran,
+    jenisAnggaran: budget.jenisAnggaran,
+    penggunaBarangJasa: budget.penggunaBarangJasa,
+    pagu: budget.pagu,
+    remaining: consumption.remaining,
+    amount,
+    excess,
+    message:
+      `Nilai paket ${formatRupiah(amount)} melebihi sisa pagu ${budget.jenisAnggaran} ${budget.tahunAnggaran} ` +
+      `${budget.penggunaBarangJasa} (${formatRupiah(consumption.remaining)}) sebesar ${formatRupiah(excess)}`,
+  };
+};
+
+type LeanBudget = IBudget & { _id: mongoose.Types.ObjectId };
+
+const toBudgetInput = (budget: LeanBudget): BudgetInput & { id: string } => ({
+  id: String(budget._id),
+  tahunAnggaran: budget.tahunAnggaran,
+  jenisAnggaran: budget.jenisAnggaran,
+  penggunaBarangJasa: budget.penggunaBarangJasa,
+  pagu: budget.pagu,
+  keterangan: budget.keterangan,
+});
+
+class BudgetService {
+  /**
+   * Set the ceiling for a year, budget type and user unit
+   */
+  async createBudget(data: BudgetInput, userId: string): Promise<object> {
+    try {
+      await this.assertKeyAvailable(data);
+      const budget = await BudgetModel.create({ ...data, createdBy: userId });
+
+      logger.info('Budget created', { id: budget.id, userId });
+      return budget.toResponse();
+    } catch (error) {
+      throw this.toServiceError(error, 'Failed to create budget');
+    }
+  }
+
+  /**
+   * Budgets, latest year first
+   */
+  async listBudgets(params: BudgetListParams): Promise<{ data: object[]; total: number }> {
+    try {
+      const { page, limit, ...filters } = params;
+      const filter = this.buildFilter(filters);
+
+      const [budgets, total] = await Promise.all([
+        BudgetModel.find(filter)
+          .sort({ tahunAnggaran: -1, jenisAnggaran: 1, penggunaBarangJasa: 1 })
+          .skip((page - 1) * limit)
+          .limit(limit),
+        BudgetModel.countDocuments(filter),
+      ]);
+
+      return { data: budgets.map((budget) => budget.toResponse()), total };
+    } catch (error) {
+      logger.error('Error listing budgets:', error);
+      throw new AppError('Failed to retrieve budgets', 500);
+    }
+  }
+
+  /**
+   * A budget with its current consumption
+   */
+  async getBudgetById(id: string): Promise<object> {
+    try {
+      const budget = await this.findBudget(id);
+      const [item] = await this.withConsumption([budget.toObject<LeanBudget>()]);
+      return { ...budget.toResponse(), ...item };
+    } catch (error) {
+      throw this.toServiceError(error, 'Failed to retrieve budget');
+    }
+  }
+
+  async updateBudget(
+    id: string,
+    data: { [K in keyof BudgetInput]?: BudgetInput[K] | undefined },
+    userId: string
+  ): Promise<object> {
+    try {
+      const budget = await this.findBudget(id);
+      const next = {
+        tahunAnggaran: data.tahunAnggaran ?? budget.tahunAnggaran,
+        jenisAnggaran: data.jenisAnggaran ?? budget.jenisAnggaran,
+        penggunaBarangJasa: data.penggunaBarangJasa ?? budget.penggunaBarangJasa,
+      };
+      const currentKey = getBudgetKey(budget.tahunAnggaran, budget.jenisAnggaran, budget.penggunaBarangJasa);
+      if (getBudgetKey(next.tahunAnggaran, next.jenisAnggaran, next.penggunaBarangJasa) !== currentKey) {
+        await this.assertKeyAvailable(next);
+      }
+
+      budget.set({ ...data, updatedBy: userId });
+      await budget.save();
+
+      logger.info('Budget updated', { id, userId });
+      return budget.toResponse();
+    } catch (error) {
+      throw this.toServiceError(error, 'Failed to update budget');
+    }
+  }
+
+  async deleteBudget(id: string, userId: string): Promise<void> {
+    try {
+      const budget = await this.findBudget(id);
+      await budget.deleteOne();
+      logger.info('Budget deleted', { id, userId });
+    } catch (error) {
+      throw this.toServiceError(error, 'Failed to delete budget');
+    }
+  }
+
+  /**
+   * Committed, realised and remaining amounts per budget, with totals, for the dashboard
+   */
+  async getAbsorption(filters: BudgetFilters): Promise<BudgetAbsorption> {
+    try {
+      const budgets = await BudgetModel.find(this.buildFilter(filters))
+        .sort({ tahunAnggaran: -1, jenisAnggaran: 1, penggunaBarangJasa: 1 })
+        .lean<LeanBudget[]>();
+      const items = await this.withConsumption(budgets);
+      return { items, totals: sumConsumption(items) };
+    } catch (error) {
+      throw this.toServiceError(error, 'Failed to compute budget absorption');
+    }
+  }
+
+  /**
+   * Warning when a package of `amount` would exceed what is left of its budget.
+   * Packages with no budget set for their year, type and unit are not checked.
+   */
+  async checkCeiling(target: {
+    tahunAnggaran?: unknown;
+    jenisAnggaran?: unknown;
+    penggunaBarangJasa?: unknown;
+    amount: number;
+  }): Promise<BudgetWarning | null> {
+    const tahunAnggaran = Number(String(target.tahunAnggaran ?? '').trim());
+    const jenisAnggaran = String(target.jenisAnggaran ?? '').trim().toUpperCase();
+    const unit = String(target.penggunaBarangJasa ?? '').trim();
+    if (!Number.isInteger(tahunAnggaran) || !jenisAnggaran || !unit || target.amount <= 0) {
+      return null;
+    }
+
+    const key = getBudgetKey(tahunAnggaran, jenisAnggaran, unit);
+    const candidates = await BudgetModel.find({ tahunAnggaran, jenisAnggaran }).lean<LeanBudget[]>();
+    const budget = candidates.find(
+      (candidate) => getBudgetKey(candidate.tahunAnggaran, candidate.jenisAnggaran, candidate.penggunaBarangJasa) === key
+    );
+    if (!budget) {
+      return null;
+    }
+
+    const [item] = await this.withConsumption([budget]);
+    return item ? evaluateCeiling(toBudgetInput(budget), item, target.amount) : null;
+  }
+
+  /**
+   * Attach consumption to budgets, reading the packages of all their years in one query
+   */
+  private async withConsumption(budgets: readonly LeanBudget[]): Promise<BudgetAbsorptionItem[]> {
+    if (budgets.length === 0) return [];
+
+    const years = [...new Set(budgets.map((budget) => String(budget.tahunAnggaran)))];
+    const packages = await PengadaanModel.find(
+      {
+        tahunAnggaran: { $in: years },
+        status: { $in: [...COMMITTED_STATUSES, ...CONTRACT_STAGE_STATUSES] },
+      },
+      'status tahunAnggaran jenisAnggaran penggunaBarangJasa nilaiAnggaranIdr nilaiHpsEqRupiah nilaiPenunjukanEqRupiah nilaiKontrakRupiah'
+    ).lean<(BudgetPackage & { tahunAnggaran?: string; jenisAnggaran?: string; penggunaBarangJasa?: string })[]>();
+
+    const packagesByKey = new Map<string, BudgetPackage[]>();
+    for (const item of packages) {
+      const key = getBudgetKey(item.tahunAnggaran, item.jenisAnggaran, item.penggunaBarangJasa);
+      packagesByKey.set(key, [...(packagesByKey.get(key) ?? []), item]);
+    }
+
+    return budgets.map((budget) => ({
+      ...toBudgetInput(budget),
+      ...computeBudgetConsumption(
+        budget.pagu,
+        packagesByKey.get(getBudgetKey(budget.tahunAnggaran, budget.jenisAnggaran, budget.penggunaBarangJasa)) ?? []
+      ),
+    }));
+  }
+
+  private buildFilter(filters: BudgetFilters): Record<string, unknown> {
+    const filter: Record<string, unknown> = {};
+    if (filters.tahunAnggaran) {
+      filter['tahunAnggaran'] = filters.tahunAnggaran;
+    }
+    if (filters.jenisAnggaran) {
+      filter['jenisAnggaran'] = filters.jenisAnggaran;
+    }
+    if (filters.penggunaBarangJasa) {
+      const pattern = filters.penggunaBarangJasa.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+      filter['penggunaBarangJasa'] = { $regex: `^${pattern}$`, $options: 'i' };
+    }
+    return filter;
+  }
+
+  private async assertKeyAvailable(
+    data: Pick<BudgetInput, 'tahunAnggaran' | 'jenisAnggaran' | 'penggunaBarangJasa'>
+  ): Promise<void> {
+    const existing = await BudgetModel.find(
+      { tahunAnggaran: data.tahunAnggaran, jenisAnggaran: data.jenisAnggaran },
+      'penggunaBarangJasa'
+    ).lean();
+    const unit = normalizeUnit(data.penggunaBarangJasa);
+    if (existing.some((budget) => normalizeUnit(budget.penggunaBarangJasa) === unit)) {
+      throw new ConflictError(
+        `A ${data.jenisAnggaran} ${data.tahunAnggaran} budget already exists for ${data.penggunaBarangJasa}`
+      );
+    }
+  }
+
+  private async findBudget(id: string): Promise<IBudgetDocument> {
+    const budget = mongoose.isValidObjectId(id) ? await BudgetModel.findById(id) : null;
+    if (!budget) {
+      throw new NotFoundError('Budget');
+    }
+    return budget;
+  }
+
+  private toServiceError(error: unknown, message: string): AppError {
+    if (error instanceof AppError) {
+      return error;
+    }
+    if (error instanceof mongoose.Error.ValidationError) {
+      return new AppError('Validation failed', 400, error.message);
+    }
+    logger.error(`${message}:`, error);
+    return new AppError(message, 500);
+  }
+}
+
+export default new BudgetService();
@@ -0,0 +1,281 @@
+import mongoose from 'mongoose';
+import HolidayModel, { HolidayType, IHolidayDocument } from '../models/Holiday';
+import PengadaanModel from '../models/Pengadaan';
+import holidaySeed from '../config/holidays.json';
+import { formatDateOnly, parseDateOnly } from '../utils/date';
+import { logger } from '../utils/logger';
+import { AppError, ConflictError, NotFoundError } from '../utils/errors';
+import { addWorkingDays, countWorkingDays } from '../utils/workingDays';
+import slaService from './slaService';
+import { computeDuration, PENGADAAN_DURATIONS, PengadaanDurationRule } from './pengadaanDurations';
+
+export interface HolidayListParams {
+  tahun?: number | undefined;
+  jenis?: HolidayType | undefined;
+}
+
+export interface HolidayInput {
+  date: Date;
+  name: string;
+  jenis: HolidayType;
+}
+
+/**
+ * Holidays of the bundled seed (national holidays and cuti bersama per the SKB),
+ * for one year or all of them
+ */
+export const getSeedHolidays = (tahun?: number): HolidayInput[] =>
+  holidaySeed.holidays
+    .map((entry) => ({
+      date: parseDateOnly(entry.date) as Date,
+      name: entry.name,
+      jenis: entry.jenis as HolidayType,
+    }))
+    .filter((entry) => tahun === undefined || entry.date.getUTCFullYear() === tahun);
+
+/**
+ * Years the bundled seed covers
+ */
+export const getSeedYears = (): number[] => [
+  ...new Set(getSeedHolidays().map((entry) => entry.date.getUTCFullYear())),
+];
+
+class CalendarService {
+  // Holiday dates ("YYYY-MM-DD"), loaded on first use and dropped on every change
+  private holidays: Promise<ReadonlySet<string>> | null = null;
+
+  /**
+   * Holiday dates skipped when counting working days
+   */
+  getHolidays(): Promise<ReadonlySet<string>> {
+    if (!this.holidays) {
+      this.holidays = HolidayModel.find({}, { date: 1 })
+        .lean()
+        .then((rows) => new Set(rows.map((row) => formatDateOnly(row.date))));
+      // A failed load is retried on the next call
+      this.holidays.catch(() => {
+        this.holidays = null;
+      });
+    }
+    return this.holidays;
+  }
+
+  /**
+   * Working days from `from` to `to`; the same day counts 0
+   */
+  async countWorkingDays(from: Date, to: Date): Promise<number> {
+    return countWorkingDays(from, to, await this.getHolidays());
+  }
+
+  /**
+   * The date `days` working days after `from`
+   */
+  async addWorkingDays(from: Date, days: number): Promise<Date> {
+    return addWorkingDays(from, days, await this.getHolidays());
+  }
+
+  /**
+   * Holidays in date order, optionally for one year and type
+   */
+  async listHolidays(params: HolidayListParams): Promise<object[]> {
+    try {
+      const { tahun, jenis } = params;
+      const filter: Record<string, unknown> = {};
+
+      if (tahun !== undefined) {
+        filter['date'] = { $gte: new Date(Date.UTC(tahun, 0, 1)), $lt: new Date(Date.UTC(tahun + 1, 0, 1)) };
+      }
+      if (jenis) {
+        filter['jenis'] = jenis;
+      }
+
+      const holidays = await HolidayModel.find(filter).sort({ date: 1 });
+      return holidays.map((holiday) => holiday.toResponse());
+    } catch (error) {
+      logger.error('Error listing holidays:', error);
+      throw new AppError('Failed to retrieve holidays', 500);
+    }
+  }
+
+  async createHoliday(data: HolidayInput, userId: string): Promise<object> {
+    try {
+      const date = parseDateOnly(data.date) as Date;
+      await this.assertDateFree(date);
+
+      const holiday = await HolidayModel.create({ ...data, date, createdBy: userId });
+      await this.applyCalendarChange([date]);
+
+      logger.info('Holiday created', { id: holiday.id, date: formatDateOnly(date), userId });
+      return holiday.toResponse();
+    } catch (error) {
+      throw this.toServiceError(error, 'Failed to create holiday');
+    }
+  }
+
+  /**
+   * Correct a holiday; packages are recomputed for both its old and its new date
+   */
+  async updateHoliday(
+    id: string,
+    data: { date?: Date | undefined; name?: string | undefined; jenis?: HolidayType | undefined },
+    userId: string
+  ): Promise<object> {
+    try {
+      const holiday = await this.findHoliday(id);
+      const previousDate = holiday.date;
+      const date = data.date ? (parseDateOnly(data.date) as Date) : undefined;
+      if (date && date.getTime() !== holiday.date.getTime()) {
+        await this.assertDateFree(date);
+      }
+
+      holiday.set({ ...data, ...(date ? { date } : {}), updatedBy: userId });
+      await holiday.save();
+      await this.applyCalendarChange([previousDate, ...(date ? [date] : [])]);
+
+      logger.info('Holiday updated', { id, userId });
+      return holiday.toResponse();
+    } catch (error) {
+      throw this.toServiceError(error, 'Failed to update holiday');
+    }
+  }
+
+  async deleteHoliday(id: string, userId: string): Promise<void> {
+    try {
+      const holiday = await this.findHoliday(id);
+      await holiday.deleteOne();
+      await this.applyCalendarChange([holiday.date]);
+      logger.info('Holiday deleted', { id, userId });
+    } catch (error) {
+      throw this.toServiceError(error, 'Failed to delete holiday');
+    }
+  }
+
+  /**
+   * Add the bundled holidays of a year (every seeded year by default) that are not
+   * stored yet. Entries already there, including admin corrections, are kept.
+   * Returns how many were added.
+   */
+  async seedHolidays(tahun?: number): Promise<number> {
+    try {
+      const seed = getSeedHolidays(tahun);
+      if (seed.length === 0) {
+        return 0;
+      }
+
+      const existing = await HolidayModel.find({ date: { $in: seed.map((entry) => entry.date) } }, { date: 1 }).lean();
+      const stored = new Set(existing.map((row) => row.date.getTime()));
+      const missing = seed.filter((entry) => !stored.has(entry.date.getTime()));
+
+      if (missing.length > 0) {
+        await HolidayModel.insertMany(missing);
+        await this.applyCalendarChange(missing.map((entry) => entry.date));
+        logger.info('Holidays seeded', { tahun, count: missing.length });
+      }
+      return missing.length;
+    } catch (error) {
+      throw this.toServiceError(error, 'Failed to seed holidays');
+    }
+  }
+
+  /**
+   * Seed the years of the bundled file that have no holidays at all, so a fresh
+   * database starts with the calendar while deletions made by an admin stay deleted
+   */
+  async seedEmptyYears(): Promise<number> {
+    let added = 0;
+    for (const tahun of getSeedYears()) {
+      if (!(await HolidayModel.findByYear(tahun).limit(1)).length) {
+        added += await this.seedHolidays(tahun);
+      }
+    }
+    return added;
+  }
+
+  /**
+   * Bring packages in line with a changed calendar: the stored durations spanning one
+   * of the changed days, then the SLA due dates of running packages
+   */
+  private async applyCalendarChange(dates: readonly Date[]): Promise<void> {
+    this.holidays = null;
+    await this.recomputeDurations(dates);
+    await slaService.recomputeTracking();
+  }
+
+  /**
+   * Recompute the durations whose dates run across one of the given days.
+   * Returns how many packages changed.
+   */
+  private async recomputeDurations(dates: readonly Date[]): Promise<number> {
+    const holidays = await this.getHolidays();
+    let operations: mongoose.mongo.AnyBulkWriteOperation[] = [];
+    let modified = 0;
+
+    const flush = async (): Promise<void> => {
+      if (operations.length > 0) {
+        modified += (await PengadaanModel.collection.bulkWrite(operations, { ordered: false })).modifiedCount;
+        operations = [];
+      }
+    };
+
+    const spans = (rule: PengadaanDurationRule, row: Record<string, unknown>): boolean => {
+      const from = parseDateOnly(row[rule.from]);
+      const to = parseDateOnly(row[rule.to]);
+      return !!from && !!to && dates.some((date) => from <= date && date <= to);
+    };
+
+    const cursor = PengadaanModel.find({
+      $or: PENGADAAN_DURATIONS.flatMap((rule) =>
+        dates.map((date) => ({ [rule.from]: { $lte: date }, [rule.to]: { $gte: date } }))
+      ),
+    })
+      .select(PENGADAAN_DURATIONS.flatMap((rule) => [rule.field, rule.from, rule.to]).join(' '))
+      .lean<Record<string, unknown>[]>()
+      .cursor({ batchSize: 500 });
+    for await (const row of cursor) {
+      const update: Record<string, number | null> = {};
+      for (const rule of PENGADAAN_DURATIONS.filter((item) => spans(item, row))) {
+        const value = computeDuration(rule, row, holidays);
+        if (value !== row[rule.field]) {
+          update[rule.field] = value;
+        }
+      }
+      if (Object.keys(update).length > 0) {
+        operations.push({ updateOne: { filter: { _id: row['_id'] as mongoose.Types.ObjectId }, update: { $set: update } } });
+      }
+      if (operations.length >= 500) {
+        await flush();
+      }
+    }
+    await flush();
+
+    logger.info('Pengadaan durations recomputed', { modified });
+    return modified;
+  }
+
+  private async assertDateFree(date: Date): Promise<void> {
+    if (await HolidayModel.exists({ date })) {
+      throw new ConflictError(`A holiday on ${formatDateOnly(date)} already exists`);
+    }
+  }
+
+  private async findHoliday(id: string): Promise<IHolidayDocument> {
+    const holiday = mongoose.isValidObjectId(id) ? await HolidayModel.findById(id) : null;
+    if (!holiday) {
+      throw new NotFoundError('Holiday');
+    }
+    return holiday;
+  }
+
+  private toServiceError(error: unknown, message: string): AppError {
+    if (error instanceof AppError) {
+      return error;
+    }
+    if (error instanceof mongoose.Error.ValidationError) {
+      return new AppError('Validation failed', 400, error.message);
+    }
+    logger.error(`${message}:`, error);
+    return new AppError(message, 500);
+  }
+}
+
+export default new CalendarService();
@@ -0,0 +1,330 @@
+import mongoose from 'mongoose';
+import DocumentTemplateModel, { IDocumentTemplateDocument } from '../models/DocumentTemplate';
+import { DEFAULT_DOCUMENT_TEMPLATES } from '../config/documentTemplates';
+import { PENGADAAN_FIELDS } from '../config/pengadaanFields';
+import { RenderedReport } from '../types/report';
+import pengadaanService from './pengadaanService';
+import { parseAmount } from '../utils/amount';
+import { parseDateOnly } from '../utils/date';
+import { formatNumber, formatRupiah, formatTanggal } from '../utils/format';
+import { PAGE_SIZES, PdfDocument, measureText, wrapText } from '../utils/pdf';
+import { logger } from '../utils/logger';
+import { AppError, ConflictError, NotFoundError, ValidationError } from '../utils/errors';
+
+export interface DocumentTemplateInput {
+  key: string;
+  nama: string;
+  isi: string;
+  keterangan?: string | undefined;
+}
+
+/**
+ * Formats a placeholder can ask for, as in {{nilaiHpsAmount|angka}}
+ */
+export const TEMPLATE_FORMATS = ['rupiah', 'angka', 'tanggal', 'kapital'] as const;
+
+export type TemplateFormat = (typeof TEMPLATE_FORMATS)[number];
+
+export interface TemplatePlaceholder {
+  field: string;
+  format: string | null;
+}
+
+// {{field}} or {{field|format}}; field may be a dotted path such as slaStatus.jatuhTempo
+const PLACEHOLDER_PATTERN = /\{\{\s*([A-Za-z][\w.]*)\s*(?:\|\s*(\w+)\s*)?\}\}/g;
+
+// Field standing for the day the document is printed
+const TODAY_FIELD = 'hariIni';
+
+const FIELD_TYPES = new Map(PENGADAAN_FIELDS.map((field) => [field.key as string, field.type]));
+
+const isEmpty = (value: unknown): boolean => value === undefined || value === null || value === '';
+
+const getPath = (record: Record<string, unknown>, path: string): unknown =>
+  path.split('.').reduce<unknown>(
+    (value, key) => (value && typeof value === 'object' ? (value as Record<string, unknown>)[key] : undefined),
+    record
+  );
+
+/**
+ * Placeholders of a template text, in order of appearance
+ */
+export const findPlaceholders = (isi: string): TemplatePlaceholder[] =>
+  Array.from(isi.matchAll(PLACEHOLDER_PATTERN), (match) => ({ field: match[1] ?? '', format: match[2] ?? null }));
+
+// Amount in the currency of its field: USD fields in dollars, xxxAmount in the xxxCurrency beside it
+const formatAmountField = (record: Record<string, unknown>, field: string, amount: number): string => {
+  if (field.endsWith('Usd')) {
+    return `USD ${formatNumber(amount)}`;
+  }
+  if (field.endsWith('Amount')) {
+    const currency = String(record[`${field.slice(0, -'Amount'.length)}Currency`] ?? 'IDR');
+    return currency === 'IDR' ? formatRupiah(amount) : `${currency} ${formatNumber(amount)}`;
+  }
+  return formatRupiah(amount);
+};
+
+/**
+ * Display text of one placeholder. Without a format, amount fields print in their
+ * currency (rupiah by default) and date fields as Indonesian dates; empty fields print "-".
+ */
+export const formatTemplateValue = (
+  record: Record<string, unknown>,
+  field: string,
+  format: string | null,
+  today: Date
+): string => {
+  const value = field === TODAY_FIELD ? today : getPath(record, field);
+  if (isEmpty(value)) {
+    return '-';
+  }
+
+  const kind = format ?? FIELD_TYPES.get(field) ?? (value instanceof Date ? 'date' : null);
+  if (kind === 'rupiah' || kind === 'amount' || kind === 'angka' || kind === 'number') {
+    const amount = parseAmount(value);
+    if (amount !== undefined) {
+      if (kind === 'amount') {
+        return formatAmountField(record, field, amount);
+      }
+      return kind === 'rupiah' ? formatRupiah(amount) : formatNumber(amount);
+    }
+  }
+  if (kind === 'tanggal' || kind === 'date') {
+    const date = parseDateOnly(value);
+    if (date) {
+      return formatTanggal(date);
+    }
+  }
+  const text = String(value);
+  return kind === 'kapital' ? text.toUpperCase() : text;
+};
+
+/**
+ * Replace every placeholder of a text with the formatted pengadaan field
+ */
+export const fillTemplate = (text: string, record: Record<string, unknown>, today: Date): string =>
+  text.replace(PLACEHOLDER_PATTERN, (_match, field: string, format: string | undefined) =>
+    formatTemplateValue(record, field, format ?? null, today)
+  );
+
+/**
+ * Reject template texts with placeholder formats that do not exist
+ */
+export const assertTemplateFormats = (isi: string): void => {
+  const unknown = findPlaceholders(isi).find(
+    (placeholder) => placeholder.format !== null && !(TEMPLATE_FORMATS as readonly string[]).includes(placeholder.format)
+  );
+  if (unknown) {
+    throw new ValidationError(
+      `Unknown format "${unknown.format}" for {{${unknown.field}}}; use ${TEMPLATE_FORMATS.join(', ')}`,
+      'isi',
+      unknown.format
+    );
+  }
+};
+
+/**
+ * A4 portrait PDF of a filled template. Each line of the template is one block:
+ * "# " a centered title, "## " a section heading, "Label :: value" a labelled row,
+ * "---" a rule, an empty line a gap, and anything else a wrapped paragraph.
+ */
+export const renderDocumentPdf = (
+  nama: string,
+  isi: string,
+  record: Record<string, unknown>,
+  today: Date
+): Buffer => {
+  const doc = new PdfDocument(PAGE_SIZES.A4_PORTRAIT, nama);
+  const margin = 56;
+  const bottom = doc.height - margin;
+  const contentWidth = doc.width - margin * 2;
+  const labelWidth = 170;
+  const fontSize = 10;
+  const lineHeight = 14;
+  let y = margin;
+
+  const drawFooter = (): void => {
+    const footer = `${nama} · Dicetak ${formatTanggal(today)} · Halaman ${doc.pageCount}`;
+    doc.text(footer, doc.width - margin - measureText(footer, 7), bottom + 16, { size: 7 });
+  };
+
+  // Move to a new page unless `height` more points fit on this one
+  const reserve = (height: number): void => {
+    if (y + height > bottom) {
+      drawFooter();
+      doc.addPage();
+      y = margin;
+    }
+  };
+
+  for (const line of isi.split(/\r?\n/)) {
+    const trimmed = line.trim();
+    if (!trimmed) {
+      y += lineHeight / 2;
+    } else if (trimmed === '---') {
+      reserve(lineHeight);
+      doc.line(margin, y + 4, margin + contentWidth, y + 4, 0.75);
+      y += lineHeight / 2 + 4;
+    } else if (trimmed.startsWith('## ')) {
+      reserve(lineHeight * 2);
+      y += 4;
+      doc.text(fillTemplate(trimmed.slice(3), record, today), margin, y, { size: 11, bold: true });
+      y += lineHeight + 4;
+    } else if (trimmed.startsWith('# ')) {
+      reserve(lineHeight * 2);
+      doc.text(fillTemplate(trimmed.slice(2), record, today), margin, y, {
+        size: 14,
+        bold: true,
+        align: 'center',
+        width: contentWidth,
+      });
+      y += lineHeight + 8;
+    } else if (trimmed.includes(' :: ')) {
+      const [label = '', ...rest] = trimmed.split(' :: ');
+      const values = wrapText(fillTemplate(rest.join(' :: '), record, today), contentWidth - labelWidth, fontSize);
+      reserve(values.length * lineHeight);
+      doc.text(fillTemplate(label, record, today), margin, y, { size: fontSize });
+      doc.text(':', margin + labelWidth - 10, y, { size: fontSize });
+      for (const value of values) {
+        doc.text(value, margin + labelWidth, y, { size: fontSize });
+        y += lineHeight;
+      }
+    } else {
+      for (const text of wrapText(fillTemplate(trimmed, record, today), contentWidth, fontSize)) {
+        reserve(lineHeight);
+        doc.text(text, margin, y, { size: fontSize });
+        y += lineHeight;
+      }
+    }
+  }
+  drawFooter();
+
+  return doc.toBuffer();
+};
+
+class DocumentService {
+  /**
+   * Document templates by name
+   */
+  async listTemplates(): Promise<object[]> {
+    try {
+      const templates = await DocumentTemplateModel.find({}).sort({ nama: 1 });
+      return templates.map((template) => template.toResponse());
+    } catch (error) {
+      logger.error('Error listing document templates:', error);
+      throw new AppError('Failed to retrieve document templates', 500);
+    }
+  }
+
+  async createTemplate(data: DocumentTemplateInput, userId: string): Promise<object> {
+    try {
+      assertTemplateFormats(data.isi);
+      await this.assertKeyFree(data.key);
+
+      const template = await DocumentTemplateModel.create({ ...data, createdBy: userId });
+
+      logger.info('Document template created', { id: template.id, key: template.key, userId });
+      return template.toResponse();
+    } catch (error) {
+      throw this.toServiceError(error, 'Failed to create document template');
+    }
+  }
+
+  async updateTemplate(
+    id: string,
+    data: { [K in keyof DocumentTemplateInput]?: DocumentTemplateInput[K] | undefined },
+    userId: string
+  ): Promise<object> {
+    try {
+      const template = await this.findTemplate(id);
+      if (data.isi !== undefined) {
+        assertTemplateFormats(data.isi);
+      }
+      if (data.key !== undefined && data.key !== template.key) {
+        await this.assertKeyFree(data.key);
+      }
+
+      template.set({ ...data, updatedBy: userId });
+      await template.save();
+
+      logger.info('Document template updated', { id, userId });
+      return template.toResponse();
+    } catch (error) {
+      throw this.toServiceError(error, 'Failed to update document template');
+    }
+  }
+
+  async deleteTemplate(id: string, userId: string): Promise<void> {
+    try {
+      const template = await this.findTemplate(id);
+      await template.deleteOne();
+      logger.info('Document template deleted', { id, key: template.key, userId });
+    } catch (error) {
+      throw this.toServiceError(error, 'Failed to delete document template');
+    }
+  }
+
+  /**
+   * Add the bundled templates to a database without any, so deletions made by an admin stay deleted
+   */
+  async seedDefaults(): Promise<number> {
+    if (await DocumentTemplateModel.exists({})) {
+      return 0;
+    }
+    await DocumentTemplateModel.insertMany(DEFAULT_DOCUMENT_TEMPLATES);
+    logger.info('Document templates seeded', { count: DEFAULT_DOCUMENT_TEMPLATES.length });
+    return DEFAULT_DOCUMENT_TEMPLATES.length;
+  }
+
+  /**
+   * Fill a template with a pengadaan and render it as PDF
+   */
+  async generateDocument(pengadaanId: string, key: string): Promise<RenderedReport> {
+    const template = await DocumentTemplateModel.findOne({ key: key.toLowerCase() });
+    if (!template) {
+      throw new NotFoundError(`Document template ${key}`);
+    }
+    const pengadaan = await pengadaanService.getPengadaanById(pengadaanId);
+
+    try {
+      const buffer = renderDocumentPdf(
+        template.nama,
+        template.isi,
+        pengadaan as unknown as Record<string, unknown>,
+        parseDateOnly(new Date()) as Date
+      );
+      logger.info('Document generated', { pengadaanId, key: template.key });
+      return { buffer, contentType: 'application/pdf', filename: `${template.key}_${pengadaanId}.pdf` };
+    } catch (error) {
+      logger.error('Error generating document:', error);
+      throw new AppError('Failed to generate document', 500);
+    }
+  }
+
+  private async assertKeyFree(key: string): Promise<void> {
+    if (await DocumentTemplateModel.exists({ key: key.toLowerCase() })) {
+      throw new ConflictError(`A document template with key ${key} already exists`);
+    }
+  }
+
+  private async findTemplate(id: string): Promise<IDocumentTemplateDocument> {
+    const template = mongoose.isValidObjectId(id) ? await DocumentTemplateModel.findById(id) : null;
+    if (!template) {
+      throw new NotFoundError('Document template');
+    }
+    return template;
+  }
+
+  private toServiceError(error: unknown, message: string): AppError {
+    if (error instanceof AppError) {
+      return error;
+    }
+    if (error instanceof mongoose.Error.ValidationError) {
+      return new AppError('Validation failed', 400, error.message);
+    }
+    logger.error(`${message}:`, error);
+    return new AppError(message, 500);
+  }
+}
+
+export default new DocumentService();
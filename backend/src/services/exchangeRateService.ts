@@ -0,0 +1,209 @@
+import mongoose from 'mongoose';
+import ExchangeRateModel, { IExchangeRateDocument } from '../models/ExchangeRate';
+import { AppliedExchangeRate, Currency } from '../types/pengadaan';
+import { parseAmount } from '../utils/amount';
+import { formatDateOnly, parseDateOnly } from '../utils/date';
+import { logger } from '../utils/logger';
+import { AppError, ConflictError, NotFoundError, ValidationError } from '../utils/errors';
+
+export interface ExchangeRateListParams {
+  page: number;
+  limit: number;
+  currency?: Currency | undefined;
+  dateFrom?: Date | undefined;
+  dateTo?: Date | undefined;
+}
+
+export interface ExchangeRateInput {
+  currency: Currency;
+  date: Date;
+  rate: number;
+  source?: string | undefined;
+}
+
+/**
+ * Amount, currency and rupiah-equivalent fields that are converted together
+ */
+export const CONVERTED_AMOUNTS = [
+  {
+    currency: 'nilaiHpsCurrency',
+    amount: 'nilaiHpsAmount',
+    eqRupiah: 'nilaiHpsEqRupiah',
+    kurs: 'nilaiHpsKurs',
+  },
+  {
+    currency: 'nilaiPenunjukanCurrency',
+    amount: 'nilaiPenunjukanAmount',
+    eqRupiah: 'nilaiPenunjukanEqRupiah',
+    kurs: 'nilaiPenunjukanKurs',
+  },
+] as const;
+
+/**
+ * Fields whose change requires the rupiah equivalents to be recomputed
+ */
+export const CONVERSION_INPUT_FIELDS: readonly string[] = [
+  'tanggalPermintaan',
+  ...CONVERTED_AMOUNTS.flatMap((fields) => [fields.currency, fields.amount]),
+];
+
+/**
+ * Date a rate is looked up for: the request date (tanggalPermintaan) at UTC midnight
+ */
+export const parseRateDate = parseDateOnly;
+
+/**
+ * Rupiah equivalent of `amount` at `rate`, rounded to the sen
+ */
+export const convertToRupiah = (amount: number, rate: number): number => Math.round(amount * rate * 100) / 100;
+
+class ExchangeRateService {
+  /**
+   * Record the rate of a currency for a day
+   */
+  async createRate(data: ExchangeRateInput, userId: string): Promise<object> {
+    try {
+      const date = parseRateDate(data.date) as Date;
+      if (await ExchangeRateModel.exists({ currency: data.currency, date })) {
+        throw new ConflictError(`A ${data.currency} rate for ${formatDateOnly(date)} already exists`);
+      }
+
+      const rate = await ExchangeRateModel.create({ ...data, date, createdBy: userId });
+
+      logger.info('Exchange rate created', { id: rate.id, currency: data.currency, date, userId });
+      return rate.toResponse();
+    } catch (error) {
+      throw this.toServiceError(error, 'Failed to create exchange rate');
+    }
+  }
+
+  /**
+   * Rates, newest first
+   */
+  async listRates(params: ExchangeRateListParams): Promise<{ data: object[]; total: number }> {
+    try {
+      const { page, limit, currency, dateFrom, dateTo } = params;
+      const filter: Record<string, unknown> = {};
+
+      if (currency) {
+        filter['currency'] = currency;
+      }
+      if (dateFrom || dateTo) {
+        filter['date'] = {
+          ...(dateFrom ? { $gte: parseRateDate(dateFrom) } : {}),
+          ...(dateTo ? { $lte: parseRateDate(dateTo) } : {}),
+        };
+      }
+
+      const [rates, total] = await Promise.all([
+        ExchangeRateModel.find(filter)
+          .sort({ date: -1, currency: 1 })
+          .skip((page - 1) * limit)
+          .limit(limit),
+        ExchangeRateModel.countDocuments(filter),
+      ]);
+
+      return { data: rates.map((rate) => rate.toResponse()), total };
+    } catch (error) {
+      logger.error('Error listing exchange rates:', error);
+      throw new AppError('Failed to retrieve exchange rates', 500);
+    }
+  }
+
+  /**
+   * Correct a rate. Packages already converted keep the rate stored on them.
+   */
+  async updateRate(
+    id: string,
+    data: { rate?: number | undefined; source?: string | undefined },
+    userId: string
+  ): Promise<object> {
+    try {
+      const rate = await this.findRate(id);
+      rate.set({ ...data, updatedBy: userId });
+      await rate.save();
+
+      logger.info('Exchange rate updated', { id, userId });
+      return rate.toResponse();
+    } catch (error) {
+      throw this.toServiceError(error, 'Failed to update exchange rate');
+    }
+  }
+
+  async deleteRate(id: string, userId: string): Promise<void> {
+    try {
+      const rate = await this.findRate(id);
+      await rate.deleteOne();
+      logger.info('Exchange rate deleted', { id, userId });
+    } catch (error) {
+      throw this.toServiceError(error, 'Failed to delete exchange rate');
+    }
+  }
+
+  /**
+   * Rate in force for a currency on a date: the latest one set on or before it.
+   * `field` names the currency field reported when no rate is found.
+   */
+  async getEffectiveRate(currency: string, at: Date, field = 'currency'): Promise<AppliedExchangeRate> {
+    const rateDate = parseRateDate(at) as Date;
+    if (currency === Currency.IDR) {
+      return { currency, rate: 1, rateDate, exchangeRateId: null };
+    }
+
+    const rate = Object.values(Currency).includes(currency as Currency)
+      ? await ExchangeRateModel.findEffective(currency as Currency, rateDate)
+      : null;
+    if (!rate) {
+      throw new ValidationError(
+        `No ${currency} exchange rate on or before ${formatDateOnly(rateDate)}`,
+        field,
+        currency
+      );
+    }
+    return { currency, rate: rate.rate, rateDate: rate.date, exchangeRateId: rate._id as mongoose.Types.ObjectId };
+  }
+
+  /**
+   * Rupiah equivalents of the HPS and award amounts at the rate on the request date,
+   * with the rates used. Amounts without a currency are left alone.
+   */
+  async computeRupiahEquivalents(source: Record<string, unknown>): Promise<Record<string, unknown>> {
+    const requestDate = parseRateDate(source['tanggalPermintaan']) ?? (parseRateDate(new Date()) as Date);
+    const result: Record<string, unknown> = {};
+
+    for (const fields of CONVERTED_AMOUNTS) {
+      const currency = String(source[fields.currency] ?? '').trim().toUpperCase();
+      const amount = parseAmount(source[fields.amount]);
+      if (!currency || amount === undefined) {
+        continue;
+      }
+
+      const applied = await this.getEffectiveRate(currency, requestDate, fields.currency);
+      result[fields.eqRupiah] = convertToRupiah(amount, applied.rate);
+      result[fields.kurs] = applied;
+    }
+
+    return result;
+  }
+
+  private async findRate(id: string): Promise<IExchangeRateDocument> {
+    const rate = mongoose.isValidObjectId(id) ? await ExchangeRateModel.findById(id) : null;
+    if (!rate) {
+      throw new NotFoundError('Exchange rate');
+    }
+    return rate;
+  }
+
+  private toServiceError(error: unknown, message: string): AppError {
+    if (error instanceof AppError) {
+      return error;
+    }
+    if (error instanceof mongoose.Error.ValidationError) {
+      return new AppError('Validation failed', 400, error.message);
+    }
+    logger.error(`${message}:`, error);
+    return new AppError(message, 500);
+  }
+}
+
+export default new ExchangeRateService();
@@ -0,0 +1,335 @@
+import { once } from 'events';
+import { Writable } from 'stream';
+import ExcelJS from 'exceljs';
+import { PENGADAAN_FIELDS, PengadaanFieldType, PengadaanSection } from '../config/pengadaanFields';
+import { logger } from '../utils/logger';
+import { ValidationError } from '../utils/errors';
+import { CSV_BOM, toCsvRow } from '../utils/csv';
+import { parseAmount } from '../utils/amount';
+
+/**
+ * A column of a pengadaan export
+ */
+export interface ExportColumn {
+  key: string;
+  label: string;
+  section?: PengadaanSection;
+  type?: PengadaanFieldType;
+}
+
+/**
+ * Per-year totals for the XLSX summary sheet
+ */
+interface YearTotals {
+  count: number;
+  hps: number;
+  penunjukan: number;
+  costSaving: number;
+}
+
+const IDENTITY_GROUP = 'IDENTITAS';
+const AMOUNT_FORMAT = '#,##0.00';
+const DATE_FORMAT = 'dd/mm/yyyy';
+
+/**
+ * Every exportable column: identifiers and workflow status first, then the
+ * form fields in form order, then timestamps
+ */
+export const EXPORT_COLUMNS: readonly ExportColumn[] = [
+  { key: 'id', label: 'ID Pengadaan' },
+  { key: 'status', label: 'Status' },
+  ...PENGADAAN_FIELDS,
+  { key: 'createdAt', label: 'Dibuat Pada', type: 'date' },
+  { key: 'updatedAt', label: 'Diperbarui Pada', type: 'date' },
+];
+
+class ExportService {
+  /**
+   * Resolve a comma-separated column list (field keys) into export columns.
+   * An empty selection exports every column.
+   */
+  resolveColumns(selection?: string | string[]): ExportColumn[] {
+    const keys = (Array.isArray(selection) ? selection.join(',') : selection ?? '')
+      .split(',')
+      .map((key) => key.trim())
+      .filter(Boolean);
+
+    if (keys.length === 0) {
+      return [...EXPORT_COLUMNS];
+    }
+
+    const unknown = keys.filter((key) => !EXPORT_COLUMNS.some((column) => column.key === key));
+    if (unknown.length > 0) {
+      throw new ValidationError(
+        `Unknown export columns: ${unknown.join(', ')}`,
+        'columns',
+        unknown
+      );
+    }
+
+    // Keep the caller's order and drop duplicates
+    return [...new Set(keys)].map(
+      (key) => EXPORT_COLUMNS.find((column) => column.key === key) as ExportColumn
+    );
+  }
+
+  /**
+   * Stream rows as CSV with a UTF-8 BOM and Indonesian headers
+   */
+  async streamCsv(
+    rows: AsyncIterable<Record<string, unknown>>,
+    columns: readonly ExportColumn[],
+    output: Writable
+  ): Promise<number> {
+    await this.write(output, CSV_BOM + toCsvRow(columns.map((column) => column.label)));
+
+    let count = 0;
+    for await (const row of rows) {
+      if (output.destroyed) {
+        break;
+      }
+      await this.write(output, toCsvRow(columns.map((column) => row[column.key])));
+      count += 1;
+    }
+
+    output.end();
+    logger.info('CSV export streamed', { rows: count, columns: columns.length });
+    return count;
+  }
+
+  /**
+   * Stream rows as the standard success envelope with a JSON array of records
+   */
+  async streamJson(
+    rows: AsyncIterable<Record<string, unknown>>,
+    columns: readonly ExportColumn[],
+    output: Writable,
+    requestId?: string
+  ): Promise<number> {
+    await this.write(output, '{"success":true,"message":"Data exported successfully","data":[');
+
+    let count = 0;
+    for await (const row of rows) {
+      if (output.destroyed) {
+        break;
+      }
+      const record = Object.fromEntries(columns.map((column) => [column.key, row[column.key] ?? null]));
+      await this.write(output, (count > 0 ? ',' : '') + JSON.stringify(record));
+      count += 1;
+    }
+
+    await this.write(output, `]${requestId ? `,"requestId":${JSON.stringify(requestId)}` : ''}}`);
+    output.end();
+    logger.info('JSON export streamed', { rows: count, columns: columns.length });
+    return count;
+  }
+
+  /**
+   * Stream rows as an XLSX workbook: a data sheet with section-grouped, frozen
+   * headers and typed cells, plus a summary sheet with totals per tahunAnggaran
+   */
+  async streamXlsx(
+    rows: AsyncIterable<Record<string, unknown>>,
+    columns: readonly ExportColumn[],
+    output: Writable
+  ): Promise<number> {
+    const workbook = new ExcelJS.stream.xlsx.WorkbookWriter({
+      stream: output,
+      useStyles: true,
+      useSharedStrings: false,
+    });
+    workbook.creator = 'Procure Flow';
+    workbook.created = new Date();
+
+    const sheet = workbook.addWorksheet('Pengadaan', {
+      views: [{ state: 'frozen', xSplit: 0, ySplit: 2 }],
+    });
+    sheet.columns = columns.map((column) => ({
+      key: column.key,
+      width: Math.min(Math.max(column.label.length + 2, 12), 40),
+      ...(column.type === 'amount' ? { style: { numFmt: AMOUNT_FORMAT } } : {}),
+      ...(column.type === 'date' ? { style: { numFmt: DATE_FORMAT } } : {}),
+    }));
+
+    // Row 1: section titles merged over their columns; row 2: field labels
+    const groupRow = sheet.getRow(1);
+    const labelRow = sheet.getRow(2);
+    let groupStart = 1;
+    columns.forEach((column, index) => {
+      const position = index + 1;
+      const group = column.section ?? IDENTITY_GROUP;
+      labelRow.getCell(position).value = column.label;
+
+      const next = columns[index + 1];
+      if (!next || (next.section ?? IDENTITY_GROUP) !== group) {
+        groupRow.getCell(groupStart).value = group;
+        if (position > groupStart) {
+          sheet.mergeCells(1, groupStart, 1, position);
+        }
+        groupStart = position + 1;
+      }
+    });
+    for (const headerRow of [groupRow, labelRow]) {
+      headerRow.font = { bold: true };
+      headerRow.alignment = { vertical: 'middle', horizontal: 'center', wrapText: true };
+      headerRow.commit();
+    }
+
+    const totals = new Map<string, YearTotals>();
+    let count = 0;
+
+    for await (const row of rows) {
+      if (output.destroyed) {
+        break;
+      }
+      sheet.addRow(columns.map((column) => this.toCellValue(row[column.key], column.type))).commit();
+      this.addToTotals(totals, row);
+      count += 1;
+    }
+    sheet.commit();
+
+    this.writeSummarySheet(workbook, totals, columns, count);
+    await workbook.commit();
+
+    logger.info('XLSX export streamed', { rows: count, columns: columns.length, years: totals.size });
+    return count;
+  }
+
+  /**
+   * Convert a stored value to a typed cell value; unparseable values stay as text
+   */
+  private toCellValue(value: unknown, type?: PengadaanFieldType): ExcelJS.CellValue {
+    if (value === null || value === undefined || value === '') {
+      return null;
+    }
+
+    if (type === 'amount' || type === 'number') {
+      const parsed = parseAmount(value);
+      return parsed ?? String(value);
+    }
+
+    if (type === 'date') {
+      const date = value instanceof Date ? value : new Date(String(value));
+      return Number.isNaN(date.getTime()) ? String(value) : date;
+    }
+
+    return value instanceof Date ? value : String(value);
+  }
+
+  private addToTotals(totals: Map<string, YearTotals>, row: Record<string, unknown>): void {
+    const year = String(row['tahunAnggaran'] ?? '').trim() || '-';
+    const current = totals.get(year) ?? { count: 0, hps: 0, penunjukan: 0, costSaving: 0 };
+    current.count += 1;
+    current.hps += parseAmount(row['nilaiHpsEqRupiah']) ?? 0;
+    current.penunjukan += parseAmount(row['nilaiPenunjukanEqRupiah']) ?? 0;
+    current.costSaving += parseAmount(row['costSavingRp']) ?? 0;
+    totals.set(year, current);
+  }
+
+  /**
+   * Summary per tahunAnggaran. When the data sheet carries the needed columns the
+   * totals are SUMIF formulas over it (with cached results); otherwise plain values.
+   */
+  private writeSummarySheet(
+    workbook: ExcelJS.stream.xlsx.WorkbookWriter,
+    totals: Map<string, YearTotals>,
+    columns: readonly ExportColumn[],
+    rowCount: number
+  ): void {
+    const summary = workbook.addWorksheet('Ringkasan', {
+      views: [{ state: 'frozen', xSplit: 0, ySplit: 1 }],
+    });
+    summary.columns = [
+      { header: 'Tahun Anggaran', key: 'tahun', width: 16 },
+      { header: 'Jumlah Paket', key: 'count', width: 14 },
+      { header: 'Total HPS (Eq. Rupiah)', key: 'hps', width: 24, style: { numFmt: AMOUNT_FORMAT } },
+      { header: 'Total Penunjukan (Eq. Rupiah)', key: 'penunjukan', width: 28, style: { numFmt: AMOUNT_FORMAT } },
+      { header: 'Total Cost Saving (Rp)', key: 'costSaving', width: 24, style: { numFmt: AMOUNT_FORMAT } },
+    ];
+    summary.getRow(1).font = { bold: true };
+
+    const dataRange = (key: string): string | undefined => {
+      const index = columns.findIndex((column) => column.key === key);
+      if (index < 0 || rowCount === 0) {
+        return undefined;
+      }
+      const letter = this.columnLetter(index + 1);
+      return `Pengadaan!$${letter}$3:$${letter}$${rowCount + 2}`;
+    };
+    const yearRange = dataRange('tahunAnggaran');
+
+    const years = [...totals.keys()].sort();
+    years.forEach((year, index) => {
+      const totalsForYear = totals.get(year) as YearTotals;
+      const criteria = `$A${index + 2}`;
+      const sumIf = (key: string, result: number): ExcelJS.CellValue => {
+        const range = dataRange(key);
+        return yearRange && range && year !== '-'
+          ? { formula: `SUMIF(${yearRange},${criteria},${range})`, result }
+          : result;
+      };
+
+      summary.addRow({
+        tahun: year,
+        count: yearRange && year !== '-'
+          ? { formula: `COUNTIF(${yearRange},${criteria})`, result: totalsForYear.count }
+          : totalsForYear.count,
+        hps: sumIf('nilaiHpsEqRupiah', totalsForYear.hps),
+        penunjukan: sumIf('nilaiPenunjukanEqRupiah', totalsForYear.penunjukan),
+        costSaving: sumIf('costSavingRp', totalsForYear.costSaving),
+      }).commit();
+    });
+
+    const lastRow = years.length + 1;
+    const grand = [...totals.values()].reduce(
+      (acc, item) => ({
+        count: acc.count + item.count,
+        hps: acc.hps + item.hps,
+        penunjukan: acc.penunjukan + item.penunjukan,
+        costSaving: acc.costSaving + item.costSaving,
+      }),
+      { count: 0, hps: 0, penunjukan: 0, costSaving: 0 }
+    );
+    const sum = (letter: string, result: number): ExcelJS.CellValue =>
+      years.length > 0 ? { formula: `SUM(${letter}2:${letter}${lastRow})`, result } : result;
+
+    const totalRow = summary.addRow({
+      tahun: 'Total',
+      count: sum('B', grand.count),
+      hps: sum('C', grand.hps),
+      penunjukan: sum('D', grand.penunjukan),
+      costSaving: sum('E', grand.costSaving),
+    });
+    totalRow.font = { bold: true };
+    totalRow.commit();
+    summary.commit();
+  }
+
+  /**
+   * Spreadsheet column letter for a 1-based column index (1 → A, 27 → AA)
+   */
+  private columnLetter(index: number): string {
+    let letter = '';
+    let remaining = index;
+    while (remaining > 0) {
+      const mod = (remaining - 1) % 26;
+      letter = String.fromCharCode(65 + mod) + letter;
+      remaining = Math.floor((remaining - mod) / 26);
+    }
+    return letter;
+  }
+
+  /**
+   * Write a chunk, waiting for the consumer to drain when its buffer is full
+   */
+  private async write(output: Writable, chunk: string): Promise<void> {
+    if (output.destroyed) {
+      return;
+    }
+    if (!output.write(chunk)) {
+      await Promise.race([once(output, 'drain'), once(output, 'close')]);
+    }
+  }
+}
+
+export default new ExportService();
@@ -0,0 +1,478 @@
+import path from 'path';
+import ExcelJS from 'exceljs';
+import ImportReportModel, {
+  IImportReportDocument,
+  ImportColumn,
+  ImportReportStatus,
+  ImportRowError,
+  ImportRowResult,
+  ImportRowStatus,
+} from '../models/ImportReport';
+import { PENGADAAN_FIELDS, PengadaanFieldDefinition } from '../config/pengadaanFields';
+import { config } from '../config/environment';
+import { PengadaanKategori } from '../types/pengadaan';
+import { pengadaanSchemas } from '../utils/validation';
+import { CSV_BOM, parseCsv, toCsvRow } from '../utils/csv';
+import { logger } from '../utils/logger';
+import { AppError, NotFoundError, ValidationError } from '../utils/errors';
+import pengadaanService from './pengadaanService';
+
+/**
+ * An uploaded spreadsheet, independent of the upload middleware
+ */
+export interface ImportFile {
+  name: string;
+  buffer: Buffer;
+  size: number;
+}
+
+/**
+ * Options of an import run. `mapping` overrides the automatic header matching:
+ * header → field key, or null to ignore the column.
+ */
+export interface ImportOptions {
+  dryRun: boolean;
+  mapping?: Record<string, string | null> | undefined;
+}
+
+interface SheetRow {
+  rowNumber: number;
+  values: unknown[];
+}
+
+interface ParsedSheet {
+  headers: string[];
+  rows: SheetRow[];
+}
+
+export const IMPORT_FILE_EXTENSIONS = ['.xlsx', '.csv'] as const;
+
+// The header row is searched for in the first rows, so sheets with a title or a
+// section row above the labels (like our own XLSX export) still import
+const HEADER_SCAN_ROWS = 5;
+
+const ROW_STATUS_LABELS: Record<ImportRowStatus, string> = {
+  [ImportRowStatus.VALID]: 'Valid',
+  [ImportRowStatus.INVALID]: 'Tidak Valid',
+  [ImportRowStatus.IMPORTED]: 'Diimpor',
+  [ImportRowStatus.FAILED]: 'Gagal',
+};
+
+const normalizeHeader = (header: string): string => header.toLowerCase().replace(/\s+/g, ' ').trim();
+
+const FIELDS_BY_HEADER = new Map<string, PengadaanFieldDefinition>();
+for (const field of PENGADAAN_FIELDS) {
+  FIELDS_BY_HEADER.set(normalizeHeader(field.label), field);
+  FIELDS_BY_HEADER.set(normalizeHeader(field.key), field);
+}
+
+const getFieldLabel = (key: string): string =>
+  PENGADAAN_FIELDS.find((field) => field.key === key)?.label ?? key;
+
+class ImportService {
+  /**
+   * Validate an uploaded spreadsheet row by row and, unless it is a dry run,
+   * insert the valid rows in batches. The outcome is stored as an import report.
+   */
+  async importPengadaan(
+    file: ImportFile,
+    options: ImportOptions,
+    userId: string
+  ): Promise<IImportReportDocument> {
+    const sheet = await this.parseFile(file);
+    if (sheet.rows.length === 0) {
+      throw new ValidationError('The file contains no data rows', 'file', file.name);
+    }
+
+    const columns = this.resolveColumns(sheet.headers, options.mapping);
+    if (!columns.some((column) => column.field)) {
+      throw new ValidationError(
+        'None of the columns could be mapped to a pengadaan field',
+        'mapping',
+        sheet.headers
+      );
+    }
+
+    logger.info('Importing pengadaan', {
+      file: file.name,
+      rows: sheet.rows.length,
+      mappedColumns: columns.filter((column) => column.field).length,
+      dryRun: options.dryRun,
+      userId,
+    });
+
+    const results: ImportRowResult[] = [];
+    const validRows: { result: ImportRowResult; data: Record<string, unknown> }[] = [];
+
+    for (const row of sheet.rows) {
+      const record = this.mapRow(row.values, columns);
+      const { data, issues } = this.validateRow(record, userId);
+      const result: ImportRowResult = {
+        rowNumber: row.rowNumber,
+        status: data ? ImportRowStatus.VALID : ImportRowStatus.INVALID,
+        issues,
+      };
+      if (typeof record['namaPaket'] === 'string') {
+        result.namaPaket = record['namaPaket'];
+      }
+      results.push(result);
+      if (data) {
+        validRows.push({ result, data });
+      }
+    }
+
+    let status = options.dryRun ? ImportReportStatus.VALIDATED : ImportReportStatus.COMPLETED;
+    if (!options.dryRun) {
+      status = await this.commitRows(validRows, userId);
+    }
+
+    const count = (rowStatus: ImportRowStatus): number =>
+      results.filter((result) => result.status === rowStatus).length;
+
+    const report = await ImportReportModel.create({
+      fileName: file.name,
+      fileSize: file.size,
+      dryRun: options.dryRun,
+      status,
+      columns,
+      totalRows: results.length,
+      validRows: validRows.length,
+      invalidRows: count(ImportRowStatus.INVALID),
+      importedRows: count(ImportRowStatus.IMPORTED),
+      failedRows: count(ImportRowStatus.FAILED),
+      rows: results,
+      createdBy: userId,
+    });
+
+    logger.info('Pengadaan import finished', {
+      reportId: report.id,
+      status,
+      totalRows: report.totalRows,
+      validRows: report.validRows,
+      importedRows: report.importedRows,
+    });
+    return report;
+  }
+
+  /**
+   * Read the first worksheet of an XLSX file or a CSV file into a header row and data rows
+   */
+  async parseFile(file: ImportFile): Promise<ParsedSheet> {
+    const extension = path.extname(file.name).toLowerCase();
+    let rows: SheetRow[];
+
+    if (extension === '.csv') {
+      rows = parseCsv(file.buffer.toString('utf8')).map((values, index) => ({
+        rowNumber: index + 1,
+        values,
+      }));
+    } else if (extension === '.xlsx') {
+      rows = await this.readWorkbook(file.buffer);
+    } else {
+      throw new ValidationError(
+        `Unsupported file type; expected ${IMPORT_FILE_EXTENSIONS.join(' or ')}`,
+        'file',
+        file.name
+      );
+    }
+
+    const nonEmpty = rows.filter((row) => row.values.some((value) => !this.isBlank(value)));
+    const headerIndex = this.findHeaderRow(nonEmpty);
+    const headerRow = nonEmpty[headerIndex];
+    if (!headerRow) {
+      return { headers: [], rows: [] };
+    }
+
+    return {
+      headers: headerRow.values.map((value) => String(value ?? '').trim()),
+      rows: nonEmpty.slice(headerIndex + 1),
+    };
+  }
+
+  /**
+   * Match sheet headers to pengadaan fields by form label or field key, then apply
+   * the caller's overrides
+   */
+  resolveColumns(headers: readonly string[], mapping?: Record<string, string | null>): ImportColumn[] {
+    const overrides = mapping ?? {};
+
+    const unknownHeaders = Object.keys(overrides).filter((header) => !headers.includes(header));
+    if (unknownHeaders.length > 0) {
+      throw new ValidationError(
+        `Mapping refers to headers not found in the file: ${unknownHeaders.join(', ')}`,
+        'mapping',
+        unknownHeaders
+      );
+    }
+
+    const unknownFields = Object.values(overrides).filter(
+      (field): field is string => !!field && !PENGADAAN_FIELDS.some((definition) => definition.key === field)
+    );
+    if (unknownFields.length > 0) {
+      throw new ValidationError(
+        `Mapping refers to unknown fields: ${unknownFields.join(', ')}`,
+        'mapping',
+        unknownFields
+      );
+    }
+
+    const columns = headers.map((header): ImportColumn => {
+      if (Object.prototype.hasOwnProperty.call(overrides, header)) {
+        return { header, field: overrides[header] || null };
+      }
+      return { header, field: FIELDS_BY_HEADER.get(normalizeHeader(header))?.key ?? null };
+    });
+
+    const seen = new Set<string>();
+    const duplicates = new Set<string>();
+    for (const { field } of columns) {
+      if (field && seen.has(field)) duplicates.add(field);
+      if (field) seen.add(field);
+    }
+    if (duplicates.size > 0) {
+      throw new ValidationError(
+        `Several columns map to the same field: ${[...duplicates].join(', ')}`,
+        'mapping',
+        [...duplicates]
+      );
+    }
+
+    return columns;
+  }
+
+  /**
+   * Turn the cells of a row into a create payload, with the legacy fields filled
+   * in the same way the pengadaan form does
+   */
+  mapRow(values: readonly unknown[], columns: readonly ImportColumn[]): Record<string, unknown> {
+    const record: Record<string, unknown> = {};
+
+    columns.forEach((column, index) => {
+      if (!column.field) return;
+      const value = this.toFieldValue(values[index]);
+      if (value !== undefined) {
+        record[column.field] = value;
+      }
+    });
+
+    const text = (key: string): string | undefined =>
+      typeof record[key] === 'string' ? (record[key] as string) : undefined;
+    const kategori = Object.values(PengadaanKategori).find(
+      (value) => value.toLowerCase() === (text('kategori') ?? text('barangJasa'))?.toLowerCase()
+    );
+    const today = new Date().toISOString().split('T')[0];
+
+    return {
+      ...record,
+      nama: text('nama') ?? text('namaPaket') ?? 'Untitled',
+      kategori: kategori ?? PengadaanKategori.BARANG,
+      vendor: text('vendor') ?? text('penyediaBarangJasa') ?? 'TBD',
+      nilai: record['nilai'] ?? record['nilaiHpsEqRupiah'] ?? '0',
+      tanggal: text('tanggal') ?? text('tanggalPermintaan') ?? today,
+      deadline: text('deadline') ?? text('kontrakTanggal') ?? today,
+      deskripsi:
+        text('deskripsi') ??
+        `${text('jenisPengadaan') ?? 'Pengadaan'} - ${text('metodePengadaan') ?? 'Standar'}`,
+    };
+  }
+
+  /**
+   * Validate a mapped row against the create schema, then the database schema
+   */
+  validateRow(
+    record: Record<string, unknown>,
+    userId: string
+  ): { data?: Record<string, unknown>; issues: ImportRowError[] } {
+    const parsed = pengadaanSchemas.create.safeParse(record);
+    if (!parsed.success) {
+      return {
+        issues: parsed.error.issues.map((issue) => {
+          const field = issue.path[0];
+          return field === undefined
+            ? { message: issue.message }
+            : { field: String(field), message: issue.message };
+        }),
+      };
+    }
+
+    const schemaErrors = pengadaanService.checkPengadaanPayload(parsed.data, userId);
+    const issues = Object.entries(schemaErrors).map(([field, message]) => ({ field, message }));
+    return issues.length > 0 ? { issues } : { data: parsed.data, issues };
+  }
+
+  async listReports(page: number, limit: number) {
+    const [reports, total] = await Promise.all([
+      ImportReportModel.find({})
+        .select('-rows')
+        .sort({ createdAt: -1 })
+        .skip((page - 1) * limit)
+        .limit(limit),
+      ImportReportModel.countDocuments({}),
+    ]);
+
+    return {
+      data: reports.map((report) => report.toResponse(false)),
+      total,
+    };
+  }
+
+  async getReport(id: string): Promise<IImportReportDocument> {
+    const report = await ImportReportModel.findById(id);
+    if (!report) {
+      throw new NotFoundError('Import report');
+    }
+    return report;
+  }
+
+  /**
+   * Render an import report as CSV, one line per spreadsheet row
+   */
+  renderReportCsv(report: IImportReportDocument): string {
+    const lines = [toCsvRow(['Baris', 'Status', 'Nama Paket', 'ID Pengadaan', 'Kesalahan'])];
+
+    for (const row of report.rows) {
+      const issues = row.issues
+        .map((issue) => (issue.field ? `${getFieldLabel(issue.field)}: ${issue.message}` : issue.message))
+        .join('; ');
+      lines.push(
+        toCsvRow([row.rowNumber, ROW_STATUS_LABELS[row.status], row.namaPaket, row.pengadaanId, issues])
+      );
+    }
+
+    return CSV_BOM + lines.join('');
+  }
+
+  /**
+   * Insert valid rows in batches, updating each row result in place
+   */
+  private async commitRows(
+    validRows: { result: ImportRowResult; data: Record<string, unknown> }[],
+    userId: string
+  ): Promise<ImportReportStatus> {
+    const batchSize = Math.max(config.importBatchSize, 1);
+
+    for (let start = 0; start < validRows.length; start += batchSize) {
+      const batch = validRows.slice(start, start + batchSize);
+      try {
+        const { created, errors } = await pengadaanService.bulkCreatePengadaan(
+          batch.map(({ data }) => data),
+          userId
+        );
+        const failures = new Map(errors.map(({ index, message }) => [index, message]));
+        let createdIndex = 0;
+
+        batch.forEach(({ result }, index) => {
+          const failure = failures.get(index);
+          if (failure !== undefined) {
+            result.status = ImportRowStatus.FAILED;
+            result.issues.push({ message: failure });
+            return;
+          }
+          result.status = ImportRowStatus.IMPORTED;
+          const pengadaanId = created[createdIndex]?.id;
+          if (pengadaanId) {
+            result.pengadaanId = pengadaanId;
+          }
+          createdIndex += 1;
+        });
+      } catch (error) {
+        logger.error('Import batch failed; remaining rows are not imported', error);
+        const message = error instanceof AppError ? error.message : 'Import batch failed';
+        for (const { result } of validRows.slice(start)) {
+          result.status = ImportRowStatus.FAILED;
+          result.issues.push({ message });
+        }
+        return ImportReportStatus.FAILED;
+      }
+    }
+
+    return ImportReportStatus.COMPLETED;
+  }
+
+  private async readWorkbook(buffer: Buffer): Promise<SheetRow[]> {
+    const workbook = new ExcelJS.Workbook();
+    try {
+      await workbook.xlsx.load(buffer);
+    } catch (error) {
+      throw new ValidationError(
+        'The file is not a readable XLSX workbook',
+        'file',
+        undefined,
+        error instanceof Error ? error.message : undefined
+      );
+    }
+
+    const worksheet = workbook.worksheets[0];
+    if (!worksheet) {
+      return [];
+    }
+
+    const rows: SheetRow[] = [];
+    worksheet.eachRow({ includeEmpty: false }, (row, rowNumber) => {
+      const values: unknown[] = [];
+      for (let column = 1; column <= worksheet.columnCount; column += 1) {
+        values.push(this.readCell(row.getCell(column).value));
+      }
+      rows.push({ rowNumber, values });
+    });
+    return rows;
+  }
+
+  /**
+   * Unwrap formulas, rich text and hyperlinks to the value a user sees in the cell
+   */
+  private readCell(value: ExcelJS.CellValue): unknown {
+    if (value === null || value === undefined) {
+      return null;
+    }
+    if (typeof value !== 'object' || value instanceof Date) {
+      return value;
+    }
+    if ('result' in value) {
+      return this.readCell(value.result as ExcelJS.CellValue);
+    }
+    if ('richText' in value) {
+      return value.richText.map((part) => part.text).join('');
+    }
+    if ('text' in value) {
+      return value.text;
+    }
+    return null;
+  }
+
+  private findHeaderRow(rows: readonly SheetRow[]): number {
+    let bestIndex = 0;
+    let bestScore = 0;
+
+    rows.slice(0, HEADER_SCAN_ROWS).forEach((row, index) => {
+      const score = row.values.filter(
+        (value) => typeof value === 'string' && FIELDS_BY_HEADER.has(normalizeHeader(value))
+      ).length;
+      if (score > bestScore) {
+        bestScore = score;
+        bestIndex = index;
+      }
+    });
+
+    return bestIndex;
+  }
+
+  /**
+   * Cell value as stored by the form: trimmed text, dates as YYYY-MM-DD
+   */
+  private toFieldValue(value: unknown): string | undefined {
+    if (this.isBlank(value)) {
+      return undefined;
+    }
+    if (value instanceof Date) {
+      return Number.isNaN(value.getTime()) ? undefined : value.toISOString().split('T')[0];
+    }
+    return String(value).trim();
+  }
+
+  private isBlank(value: unknown): boolean {
+    return value === null || value === undefined || String(value).trim() === '';
+  }
+}
+
+export default new ImportService();
@@ -0,0 +1,49 @@
+import { config } from '../config/environment';
+import { MailMessage, MailTransport, MaildirTransport, SmtpTransport } from '../utils/mail';
+import { logger } from '../utils/logger';
+import { ExternalServiceError } from '../utils/errors';
+
+/**
+ * Transport chosen by MAIL_TRANSPORT
+ */
+export const createMailTransport = (): MailTransport =>
+  config.mailTransport === 'smtp'
+    ? new SmtpTransport({
+        host: config.smtpHost,
+        port: config.smtpPort,
+        secure: config.smtpSecure,
+        user: config.smtpUser,
+        pass: config.smtpPass,
+      })
+    : new MaildirTransport(config.mailPath);
+
+class MailService {
+  private transport: MailTransport | null = null;
+
+  /**
+   * Replace the transport, e.g. with another implementation of MailTransport
+   */
+  setTransport(transport: MailTransport): void {
+    this.transport = transport;
+  }
+
+  /**
+   * Send a message from MAIL_FROM unless it names a sender
+   */
+  async send(message: Omit<MailMessage, 'from'> & { from?: string }): Promise<string> {
+    this.transport ??= createMailTransport();
+    try {
+      const result = await this.transport.send({ ...message, from: message.from ?? config.mailFrom });
+      logger.info('Mail sent', { transport: this.transport.name, to: message.to, subject: message.subject, result });
+      return result;
+    } catch (error) {
+      logger.error('Error sending mail:', error);
+      throw new ExternalServiceError(
+        'Mail',
+        `Failed to send mail: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+}
+
+export default new MailService();
@@ -0,0 +1,61 @@
+import { parseDateOnly } from '../utils/date';
+import { ValidationError } from '../utils/errors';
+import { countWorkingDays } from '../utils/workingDays';
+
+export interface PengadaanDurationRule {
+  field: string;
+  from: string;
+  to: string;
+}
+
+/**
+ * Process durations, in working days, with the dates they run between:
+ * the request revision after the preparation meeting, preparation from receipt
+ * of the request to the procurement order, and procurement up to the award letter.
+ */
+export const PENGADAAN_DURATIONS: readonly PengadaanDurationRule[] = [
+  { field: 'lamaRevisiPermintaan', from: 'tanggalRapatPersiapan', to: 'tanggalRevisiPermintaan' },
+  { field: 'lamaProsesPersiapan', from: 'tanggalPermintaanDiterima', to: 'tanggalPerintahPengadaan' },
+  { field: 'lamaProsesPengadaan', from: 'tanggalPerintahPengadaan', to: 'suratPenunjukan' },
+];
+
+/**
+ * Duration fields; computed on the server, never taken from the client
+ */
+export const DURATION_FIELDS: readonly string[] = PENGADAAN_DURATIONS.map((rule) => rule.field);
+
+/**
+ * Dates whose change requires the durations to be recomputed
+ */
+export const DURATION_INPUT_FIELDS: readonly string[] = [
+  ...new Set(PENGADAAN_DURATIONS.flatMap((rule) => [rule.from, rule.to])),
+];
+
+/**
+ * One duration of a package in working days; null while either date is missing.
+ * A date before the one its duration starts from is rejected.
+ */
+export const computeDuration = (
+  rule: PengadaanDurationRule,
+  source: Record<string, unknown>,
+  holidays: ReadonlySet<string>
+): number | null => {
+  const from = parseDateOnly(source[rule.from]);
+  const to = parseDateOnly(source[rule.to]);
+  if (!from || !to) {
+    return null;
+  }
+  if (to < from) {
+    throw new ValidationError(`${rule.to} cannot be before ${rule.from}`, rule.to, source[rule.to]);
+  }
+  return countWorkingDays(from, to, holidays);
+};
+
+/**
+ * Every duration of a package, keyed by field
+ */
+export const computeDurations = (
+  source: Record<string, unknown>,
+  holidays: ReadonlySet<string>
+): Record<string, number | null> =>
+  Object.fromEntries(PENGADAAN_DURATIONS.map((rule) => [rule.field, computeDuration(rule, source, holidays)]));
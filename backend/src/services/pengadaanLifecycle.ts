@@ -0,0 +1,105 @@
+import { UserRole } from '../models/User';
+import { PengadaanStatus, PengadaanTransitionRule, TransitionActor } from '../types/pengadaan';
+import { AuthorizationError, InvalidTransitionError } from '../utils/errors';
+
+/**
+ * Allowed procurement lifecycle transitions.
+ *
+ * Draft → Submitted → In Review → Approved/Rejected → In Progress → Completed/Cancelled.
+ * A rejected package goes back to Draft so its owner can rework and resubmit it.
+ */
+export const PENGADAAN_TRANSITIONS: readonly PengadaanTransitionRule[] = [
+  { from: PengadaanStatus.DRAFT, to: PengadaanStatus.SUBMITTED, roles: [UserRole.USER, UserRole.ADMIN] },
+  { from: PengadaanStatus.DRAFT, to: PengadaanStatus.CANCELLED, roles: [UserRole.USER, UserRole.ADMIN] },
+  { from: PengadaanStatus.SUBMITTED, to: PengadaanStatus.IN_REVIEW, roles: [UserRole.ADMIN] },
+  { from: PengadaanStatus.IN_REVIEW, to: PengadaanStatus.APPROVED, roles: [UserRole.ADMIN] },
+  { from: PengadaanStatus.IN_REVIEW, to: PengadaanStatus.REJECTED, roles: [UserRole.ADMIN] },
+  { from: PengadaanStatus.REJECTED, to: PengadaanStatus.DRAFT, roles: [UserRole.USER, UserRole.ADMIN] },
+  { from: PengadaanStatus.APPROVED, to: PengadaanStatus.IN_PROGRESS, roles: [UserRole.ADMIN] },
+  { from: PengadaanStatus.IN_PROGRESS, to: PengadaanStatus.COMPLETED, roles: [UserRole.ADMIN] },
+  { from: PengadaanStatus.IN_PROGRESS, to: PengadaanStatus.CANCELLED, roles: [UserRole.ADMIN] },
+];
+
+/**
+ * Check whether a value is a known lifecycle status
+ */
+export const isPengadaanStatus = (value: unknown): value is PengadaanStatus => {
+  return Object.values(PengadaanStatus).includes(value as PengadaanStatus);
+};
+
+/**
+ * Find the rule for a transition, if one exists
+ */
+export const findTransition = (
+  from: PengadaanStatus,
+  to: PengadaanStatus
+): PengadaanTransitionRule | undefined => {
+  return PENGADAAN_TRANSITIONS.find((rule) => rule.from === from && rule.to === to);
+};
+
+/**
+ * List the statuses an actor may move a package to from its current status.
+ * Non-admin actors only get transitions on packages they created.
+ */
+export const getAllowedTransitions = (
+  from: PengadaanStatus,
+  actor: TransitionActor,
+  isOwner: boolean
+): PengadaanStatus[] => {
+  if (actor.role !== UserRole.ADMIN && !isOwner) {
+    return [];
+  }
+
+  return PENGADAAN_TRANSITIONS
+    .filter((rule) => rule.from === from && rule.roles.includes(actor.role))
+    .map((rule) => rule.to);
+};
+
+/**
+ * Ensure a transition exists in the lifecycle, regardless of who performs it
+ */
+export const assertTransitionExists = (
+  from: PengadaanStatus,
+  to: PengadaanStatus
+): PengadaanTransitionRule => {
+  const rule = findTransition(from, to);
+
+  if (!rule) {
+    const allowed = PENGADAAN_TRANSITIONS
+      .filter((candidate) => candidate.from === from)
+      .map((candidate) => candidate.to);
+    throw new InvalidTransitionError(
+      from,
+      to,
+      allowed.length > 0
+        ? `Allowed transitions from '${from}': ${allowed.join(', ')}`
+        : `'${from}' is a final status`
+    );
+  }
+
+  return rule;
+};
+
+/**
+ * Validate a transition, throwing a typed error when it is not allowed
+ */
+export const assertTransition = (
+  from: PengadaanStatus,
+  to: PengadaanStatus,
+  actor: TransitionActor,
+  isOwner: boolean
+): PengadaanTransitionRule => {
+  const rule = assertTransitionExists(from, to);
+
+  if (!rule.roles.includes(actor.role)) {
+    throw new AuthorizationError(
+      `Role '${actor.role}' cannot move pengadaan from '${from}' to '${to}'`
+    );
+  }
+
+  if (actor.role !== UserRole.ADMIN && !isOwner) {
+    throw new AuthorizationError('Only the creator of this pengadaan can change its status');
+  }
+
+  return rule;
+};
@@ -1,53 +1,90 @@
-import PengadaanModel from '../models/Pengadaan';
+import mongoose from 'mongoose';
+import PengadaanModel, { serializePengadaan } from '../models/Pengadaan';
+import VendorModel from '../models/Vendor';
 import {
+  IPengadaanDocument,
   PengadaanResponse,
   PengadaanQueryParams,
   PaginatedPengadaanResponse,
   PengadaanStats,
+  PengadaanStatsFilter,
+  PengadaanMonthlyStats,
+  PengadaanActivityEntry,
   PengadaanStatus,
+  TransitionActor,
+  Currency,
+  ApprovalDecision,
+  ApprovalStep,
+  PengadaanHistoryEntry,
+  BulkCreatePengadaanResult,
+  PurgePengadaanResult,
 } from '../types/pengadaan';
+import { PENGADAAN_AMOUNT_FIELDS, PENGADAAN_FIELD_KEYS } from '../config/pengadaanFields';
+import { diffFields, FieldChanges, hasChanges, reconstructSnapshot } from '../utils/diff';
+import UserModel, { UserRole } from '../models/User';
+import { AuditAction } from '../models/AuditLog';
+import backupService from './backupService';
+import auditService from './auditService';
+import blacklistService, { ActiveSanction, matchSanction } from './blacklistService';
+import budgetService, { BudgetWarning, getCommittedAmount } from './budgetService';
+import calendarService from './calendarService';
+import slaService, { computeSlaTracking, SlaTargetRule } from './slaService';
+import exchangeRateService, { CONVERSION_INPUT_FIELDS, CONVERTED_AMOUNTS } from './exchangeRateService';
+import { computeDurations, DURATION_FIELDS, DURATION_INPUT_FIELDS } from './pengadaanDurations';
+import { config } from '../config/environment';
+import { normalizeAmount, parseAmount } from '../utils/amount';
 import { logger } from '../utils/logger';
-import { AppError } from '../utils/errors';
+import { AppError, AuthorizationError, InvalidTransitionError, ValidationError } from '../utils/errors';
+import {
+  assertTransition,
+  assertTransitionExists,
+  getAllowedTransitions,
+  isPengadaanStatus,
+} from './pengadaanLifecycle';
+import {
+  buildApprovalChain,
+  canDecideStep,
+  createApprovalChainRules,
+  findDutyConflict,
+  getCurrentStep,
+} from './approvalChain';
 
-class PengadaanService {
-  /**
-   * Normalize numeric-like string fields to canonical numeric strings.
-   * Keeps schema types (string) but removes separators and non-numeric chars.
-   */
-  private normalizeNumericString(value: unknown): string | undefined {
-    if (value === null || value === undefined) return undefined;
-    const str = String(value).trim();
-    if (!str) return undefined;
-    // Allow digits, optional decimal and minus; strip other characters like commas and currency symbols
-    const cleaned = str.replace(/[^0-9.-]+/g, '');
-    // If cleaned is just '-' or '.', treat as undefined
-    if (!cleaned || cleaned === '-' || cleaned === '.' || cleaned === '-.' || cleaned === '.-') return undefined;
-    return cleaned;
-  }
+interface PopulatedHistoryUser {
+  _id: unknown;
+  firstName: string;
+  lastName: string;
+  username: string;
+  email: string;
+}
 
+const approvalChainRules = createApprovalChainRules(
+  config.approvalDirectorThreshold,
+  config.approvalBoardMethods
+);
+
+// Checking a payload only needs its dates in order, which neither holidays nor SLA targets affect
+const NO_HOLIDAYS: ReadonlySet<string> = new Set();
+
+// A point-in-time restore brings the vendor link back together with the penyedia copied from it
+const RESTORED_FIELDS: readonly string[] = [...PENGADAAN_FIELD_KEYS, 'vendorId'];
+
+/**
+ * Deletion time at or before which a soft-deleted pengadaan may be purged
+ */
+export const getPurgeCutoff = (now: Date, retentionDays: number): Date =>
+  new Date(now.getTime() - retentionDays * 24 * 60 * 60 * 1000);
+
+class PengadaanService {
   /**
-   * Coerce legacy and numeric fields to expected formats for persistence.
+   * Coerce amounts to canonical decimal text and currency codes to upper case for persistence,
+   * dropping the computed durations.
    */
   private normalizePengadaanPayload(data: Record<string, unknown>): Record<string, unknown> {
-    const numericFields = [
-      'nilai',
-      'nilaiAnggaranIdr',
-      'nilaiAnggaranUsd',
-      'nilaiHpsAmount',
-      'nilaiHpsEqRupiah',
-      'nilaiHpsPortiTahun',
-      'nilaiPenunjukanAmount',
-      'nilaiPenunjukanEqRupiah',
-      'nilaiKontrakRupiah',
-      'nilaiKontrakUsd',
-      'costSavingRp',
-    ];
-
     const normalized: Record<string, unknown> = { ...data };
 
-    for (const field of numericFields) {
+    for (const field of PENGADAAN_AMOUNT_FIELDS) {
       if (Object.prototype.hasOwnProperty.call(data, field)) {
-        const coerced = this.normalizeNumericString((data as Record<string, unknown>)[field]);
+        const coerced = normalizeAmount((data as Record<string, unknown>)[field]);
         if (coerced !== undefined) {
           normalized[field] = coerced;
         } else {
@@ -61,6 +98,11 @@ class PengadaanService {
       }
     }
 
+    // Durations are computed from the process dates
+    for (const field of DURATION_FIELDS) {
+      delete normalized[field];
+    }
+
     // Normalize currency codes to uppercase if present
     for (const currencyField of ['nilaiHpsCurrency', 'nilaiPenunjukanCurrency']) {
       if (typeof (normalized as Record<string, unknown>)[currencyField] === 'string') {
@@ -70,10 +112,110 @@ class PengadaanService {
 
     return normalized;
   }
+
+  /**
+   * Resolve a vendorId in the payload to its vendor record and copy the vendor's
+   * name and UMKM status into the free-text penyedia fields. An empty vendorId unlinks.
+   * Blacklisted vendors are left to checkBlacklist, which admins may override.
+   */
+  private async applyVendorSelection(payload: Record<string, unknown>): Promise<void> {
+    if (!Object.prototype.hasOwnProperty.call(payload, 'vendorId')) {
+      return;
+    }
+    const vendorId = payload['vendorId'];
+    if (vendorId === '' || vendorId === null || vendorId === undefined) {
+      payload['vendorId'] = null;
+      return;
+    }
+
+    const vendor = mongoose.isValidObjectId(vendorId) ? await VendorModel.findById(vendorId) : null;
+    if (!vendor) {
+      throw new ValidationError('Vendor not found', 'vendorId', vendorId);
+    }
+    if (!vendor.isActive) {
+      throw new ValidationError('Vendor is inactive', 'vendorId', vendorId);
+    }
+
+    payload['penyediaBarangJasa'] = vendor.nama;
+    payload['statusPenyedia'] = vendor.statusUmkm;
+    payload['vendor'] = vendor.nama;
+  }
+
+  /**
+   * Refuse a penyedia under a blacklist sanction unless an admin gives an override reason.
+   * Returns the overridden sanction so the override can be recorded.
+   */
+  private async checkBlacklist(
+    penyedia: { vendorId?: unknown; name?: unknown },
+    actor: TransitionActor,
+    overrideReason: string | undefined
+  ): Promise<ActiveSanction | undefined> {
+    const sanction = await blacklistService.findSanction({
+      vendorId: penyedia.vendorId ? String(penyedia.vendorId) : null,
+      name: typeof penyedia.name === 'string' ? penyedia.name : null,
+    });
+    if (!sanction) {
+      return undefined;
+    }
+
+    if (!overrideReason) {
+      throw new ValidationError(
+        `Vendor ${sanction.vendorName} is blacklisted until ${sanction.endDate.toISOString().slice(0, 10)}`,
+        'blacklistOverrideReason',
+        {
+          vendorId: sanction.vendorId,
+          vendorName: sanction.vendorName,
+          reason: sanction.reason,
+          referenceDocument: sanction.referenceDocument,
+          startDate: sanction.startDate,
+          endDate: sanction.endDate,
+        },
+        'An admin may award the package anyway by giving blacklistOverrideReason'
+      );
+    }
+    if (actor.role !== UserRole.ADMIN) {
+      throw new AuthorizationError('Only admins can override the vendor blacklist');
+    }
+    return sanction;
+  }
+
+  /**
+   * Audit an admin override of the blacklist; the edit history entry is added before saving
+   */
+  private async auditBlacklistOverride(
+    pengadaan: IPengadaanDocument,
+    sanction: ActiveSanction,
+    actor: TransitionActor,
+    reason: string
+  ): Promise<void> {
+    await auditService.record({
+      action: AuditAction.VENDOR_BLACKLIST_OVERRIDE,
+      actorId: actor.id,
+      targetType: 'pengadaan',
+      targetIds: [pengadaan.id],
+      details: {
+        reason,
+        blacklistId: sanction.blacklistId,
+        vendorId: sanction.vendorId,
+        vendorName: sanction.vendorName,
+        referenceDocument: sanction.referenceDocument,
+      },
+    });
+    logger.warn('Vendor blacklist overridden', {
+      id: pengadaan.id,
+      vendorId: sanction.vendorId,
+      userId: actor.id,
+    });
+  }
+
   /**
-   * Create a new pengadaan
+   * Create a new pengadaan. The package is saved even when its HPS exceeds what is left
+   * of its budget; the warning is returned alongside it.
    */
-  async createPengadaan(data: Record<string, unknown>): Promise<PengadaanResponse> {
+  async createPengadaan(
+    data: Record<string, unknown>,
+    actor: TransitionActor
+  ): Promise<PengadaanResponse & { budgetWarning?: BudgetWarning }> {
     try {
       const nama = typeof (data as Record<string, unknown>)['nama'] === 'string'
         ? (data as Record<string, unknown>)['nama']
@@ -81,13 +223,49 @@ class PengadaanService {
       logger.info('Creating new pengadaan', { nama });
       
       // Normalize payload before persistence; Mongoose will enforce schema
-      const payload = this.normalizePengadaanPayload(data as Record<string, unknown>);
+      const { blacklistOverrideReason, ...fields } = data;
+      const overrideReason = typeof blacklistOverrideReason === 'string' ? blacklistOverrideReason : undefined;
+      const payload = this.normalizePengadaanPayload(fields);
+      await this.applyVendorSelection(payload);
+      Object.assign(payload, await exchangeRateService.computeRupiahEquivalents(payload));
+      Object.assign(payload, computeDurations(payload, await calendarService.getHolidays()));
+      payload['slaTracking'] = await slaService.trackPackage(payload);
+      const sanction = await this.checkBlacklist(
+        { vendorId: payload['vendorId'], name: payload['penyediaBarangJasa'] },
+        actor,
+        overrideReason
+      );
+
       const pengadaan = new PengadaanModel(payload as Record<string, unknown>);
+      if (sanction && overrideReason) {
+        pengadaan.addEditHistory(actor.id, 'blacklist_override', undefined, overrideReason);
+      }
+      const budgetWarning = await budgetService.checkCeiling({
+        tahunAnggaran: payload['tahunAnggaran'],
+        jenisAnggaran: payload['jenisAnggaran'],
+        penggunaBarangJasa: payload['penggunaBarangJasa'],
+        amount: getCommittedAmount(payload as Parameters<typeof getCommittedAmount>[0]),
+      });
       const savedPengadaan = await pengadaan.save();
+      if (sanction && overrideReason) {
+        await this.auditBlacklistOverride(savedPengadaan, sanction, actor, overrideReason);
+      }
       
       logger.info('Pengadaan created successfully', { id: savedPengadaan.id });
-      return savedPengadaan.toResponse() as PengadaanResponse;
+      if (budgetWarning) {
+        logger.warn('Pengadaan exceeds remaining budget', {
+          id: savedPengadaan.id,
+          budgetId: budgetWarning.budgetId,
+          excess: budgetWarning.excess,
+        });
+        return { ...(await this.toResponseWithSla(savedPengadaan)), budgetWarning };
+      }
+      return this.toResponseWithSla(savedPengadaan);
     } catch (error) {
+      if (error instanceof AppError) {
+        throw error;
+      }
+
       logger.error('Error creating pengadaan:', error);
       
       if (error instanceof Error && error.name === 'ValidationError') {
@@ -102,72 +280,94 @@ class PengadaanService {
     }
   }
 
+  /**
+   * Build the Mongo filter and sort shared by the list, export and stream endpoints
+   */
+  private async buildListQuery(params: PengadaanQueryParams): Promise<{
+    query: Record<string, unknown>;
+    sort: Record<string, 1 | -1>;
+  }> {
+    const {
+      search,
+      kategori,
+      status,
+      vendor,
+      sortBy = 'createdAt',
+      sortOrder = 'desc',
+      dateFrom,
+      dateTo,
+      slaStatus,
+    } = params;
+
+    // Build query
+    const query: Record<string, unknown> = {};
+
+    // Text search
+    if (search) {
+      query['$or'] = [
+        { nama: { $regex: search, $options: 'i' } },
+        { deskripsi: { $regex: search, $options: 'i' } },
+        { vendor: { $regex: search, $options: 'i' } },
+        { namaPaket: { $regex: search, $options: 'i' } },
+      ];
+    }
+
+    // Filter by kategori
+    if (kategori) {
+      query['kategori'] = kategori;
+    }
+
+    // Filter by status
+    if (status) {
+      query['status'] = status;
+    }
+
+    // Filter by vendor
+    if (vendor) {
+      query['vendor'] = { $regex: vendor, $options: 'i' };
+    }
+
+    // Date range filter
+    if (dateFrom || dateTo) {
+      query['createdAt'] = {};
+      if (dateFrom) {
+        (query['createdAt'] as Record<string, unknown>)['$gte'] = new Date(dateFrom);
+      }
+      if (dateTo) {
+        (query['createdAt'] as Record<string, unknown>)['$lte'] = new Date(dateTo);
+      }
+    }
+
+    // SLA status as of today; kept apart from the search $or
+    if (slaStatus) {
+      query['$and'] = [await slaService.getStatusFilter(slaStatus)];
+    }
+
+    const sort: Record<string, 1 | -1> = {};
+    sort[sortBy] = sortOrder === 'asc' ? 1 : -1;
+    // Tie-breaker keeps cursor order stable across identical sort values
+    if (sortBy !== '_id') {
+      sort['_id'] = 1;
+    }
+
+    return { query, sort };
+  }
+
   /**
    * Get all pengadaan with pagination and filtering
    */
   async getAllPengadaan(params: PengadaanQueryParams): Promise<PaginatedPengadaanResponse> {
     try {
-      const {
-        page = 1,
-        limit = 10,
-        search,
-        kategori,
-        status,
-        vendor,
-        sortBy = 'createdAt',
-        sortOrder = 'desc',
-        dateFrom,
-        dateTo,
-      } = params;
-
-      // Build query
-      const query: Record<string, unknown> = {};
-
-      // Text search
-      if (search) {
-        query['$or'] = [
-          { nama: { $regex: search, $options: 'i' } },
-          { deskripsi: { $regex: search, $options: 'i' } },
-          { vendor: { $regex: search, $options: 'i' } },
-          { namaPaket: { $regex: search, $options: 'i' } },
-        ];
-      }
-
-      // Filter by kategori
-      if (kategori) {
-        query['kategori'] = kategori;
-      }
-
-      // Filter by status
-      if (status) {
-        query['status'] = status;
-      }
-
-      // Filter by vendor
-      if (vendor) {
-        query['vendor'] = { $regex: vendor, $options: 'i' };
-      }
-
-      // Date range filter
-      if (dateFrom || dateTo) {
-        query['createdAt'] = {};
-        if (dateFrom) {
-          (query['createdAt'] as Record<string, unknown>)['$gte'] = new Date(dateFrom);
-        }
-        if (dateTo) {
-          (query['createdAt'] as Record<string, unknown>)['$lte'] = new Date(dateTo);
-        }
-      }
+      const { page = 1, limit = 10 } = params;
+      const { query, sort } = await this.buildListQuery(params);
 
       // Calculate pagination
       const skip = (page - 1) * limit;
-      const sortOptions: Record<string, 1 | -1> = {};
-      sortOptions[sortBy] = sortOrder === 'asc' ? 1 : -1;
 
       // Execute query
       const [pengadaanList, total] = await Promise.all([
         PengadaanModel.find(query)
-          .sort(sortOptions)
+          .sort(sort)
           .skip(skip)
           .limit(limit)
           .lean(),
@@ -184,11 +384,9 @@ class PengadaanService {
       });
 
       return {
-        data: pengadaanList.map(item => ({
-          ...item,
-          createdAt: item.createdAt,
-          updatedAt: item.updatedAt,
-        })) as PengadaanResponse[],
+        data: (await slaService.withSlaStatus(
+          pengadaanList.map((item) => serializePengadaan({ ...item } as Record<string, unknown>))
+        )) as unknown as PengadaanResponse[],
         pagination: {
           page,
           limit,
@@ -204,6 +402,19 @@ class PengadaanService {
     }
   }
 
+  /**
+   * Open a cursor over every pengadaan matching the list filters, without a row limit
+   */
+  async streamPengadaan(params: PengadaanQueryParams) {
+    const { query, sort } = await this.buildListQuery(params);
+    logger.info('Streaming pengadaan list', { query, sort });
+    return PengadaanModel.find(query)
+      .sort(sort)
+      .lean<Record<string, unknown>[]>()
+      .cursor({ batchSize: 500 })
+      .map((row: Record<string, unknown>) => serializePengadaan(row));
+  }
+
   /**
    * Get pengadaan by ID
    */
@@ -218,7 +429,7 @@ class PengadaanService {
       }
 
       logger.info('Pengadaan retrieved successfully', { id });
-      return pengadaan.toResponse() as PengadaanResponse;
+      return this.toResponseWithSla(pengadaan);
     } catch (error) {
       if (error instanceof AppError) {
         throw error;
@@ -230,11 +441,13 @@ class PengadaanService {
   }
 
   /**
-   * Update pengadaan by ID
+   * Update pengadaan by ID, recording a field-level diff in the edit history.
+   * Changing the penyedia to a blacklisted vendor needs an admin override.
    */
-  async updatePengadaan(id: string, data: Record<string, unknown>): Promise<PengadaanResponse> {
+  async updatePengadaan(id: string, data: Record<string, unknown>, actor: TransitionActor): Promise<PengadaanResponse> {
     try {
-      logger.info('Updating pengadaan', { id });
+      const userId = actor.id;
+      logger.info('Updating pengadaan', { id, userId });
       
       const pengadaan = await PengadaanModel.findByCustomId(id);
       
@@ -243,12 +456,87 @@ class PengadaanService {
       }
 
       // Update fields
-      const payload = this.normalizePengadaanPayload(data as Record<string, unknown>);
-      Object.assign(pengadaan, payload);
+      const { blacklistOverrideReason, ...fields } = data;
+      const overrideReason = typeof blacklistOverrideReason === 'string' ? blacklistOverrideReason : undefined;
+      const payload = this.normalizePengadaanPayload(fields);
+      await this.applyVendorSelection(payload);
+
+      // Status changes must go through the lifecycle transitions endpoint
+      if (payload['status'] !== undefined && payload['status'] !== pengadaan.status) {
+        throw new InvalidTransitionError(
+          pengadaan.status,
+          String(payload['status']),
+          'Use POST /api/pengadaan/:id/transitions to change the status'
+        );
+      }
+
+      // Only form fields and the vendor link may be edited; ownership, workflow and history stay untouched.
+      // Rupiah equivalents and durations are computed here, never taken from the client.
+      const editable = Object.fromEntries(
+        Object.entries(payload).filter(
+          ([field]) =>
+            (field === 'vendorId' || PENGADAAN_FIELD_KEYS.includes(field)) &&
+            !CONVERTED_AMOUNTS.some((fields) => fields.eqRupiah === field)
+        )
+      );
+
+      const before = pengadaan.toObject() as Record<string, unknown>;
+      Object.assign(pengadaan, editable);
+      const conversionChanges = diffFields(
+        before,
+        pengadaan.toObject() as Record<string, unknown>,
+        Object.keys(editable).filter((field) => CONVERSION_INPUT_FIELDS.includes(field))
+      );
+      if (hasChanges(conversionChanges)) {
+        Object.assign(
+          pengadaan,
+          await exchangeRateService.computeRupiahEquivalents(pengadaan.toObject() as Record<string, unknown>)
+        );
+      }
+      const dateChanges = diffFields(
+        before,
+        pengadaan.toObject() as Record<string, unknown>,
+        Object.keys(editable).filter((field) => DURATION_INPUT_FIELDS.includes(field))
+      );
+      if (hasChanges(dateChanges)) {
+        Object.assign(
+          pengadaan,
+          computeDurations(pengadaan.toObject() as Record<string, unknown>, await calendarService.getHolidays())
+        );
+      }
+      const changes = diffFields(before, pengadaan.toObject() as Record<string, unknown>, [
+        ...Object.keys(editable),
+        ...CONVERTED_AMOUNTS.map((fields) => fields.eqRupiah),
+        ...DURATION_FIELDS,
+      ]);
+
+      if (!hasChanges(changes)) {
+        logger.info('Pengadaan update had no changes', { id });
+        return this.toResponseWithSla(pengadaan);
+      }
+      pengadaan.slaTracking = await slaService.trackPackage(pengadaan.toObject() as Record<string, unknown>);
+
+      // Only a change of penyedia is checked, so packages awarded before a sanction stay editable
+      const sanction =
+        changes['vendorId'] || changes['penyediaBarangJasa']
+          ? await this.checkBlacklist(
+              { vendorId: pengadaan.vendorId, name: pengadaan.penyediaBarangJasa },
+              actor,
+              overrideReason
+            )
+          : undefined;
+
+      pengadaan.addEditHistory(userId, 'updated', changes);
+      if (sanction && overrideReason) {
+        pengadaan.addEditHistory(userId, 'blacklist_override', undefined, overrideReason);
+      }
       const updatedPengadaan = await pengadaan.save();
+      if (sanction && overrideReason) {
+        await this.auditBlacklistOverride(updatedPengadaan, sanction, actor, overrideReason);
+      }
 
-      logger.info('Pengadaan updated successfully', { id });
-      return updatedPengadaan.toResponse() as PengadaanResponse;
+      logger.info('Pengadaan updated successfully', { id, changedFields: Object.keys(changes) });
+      return this.toResponseWithSla(updatedPengadaan);
     } catch (error) {
       if (error instanceof AppError) {
         throw error;
@@ -264,18 +552,465 @@ class PengadaanService {
   }
 
   /**
-   * Delete pengadaan by ID
+   * Get the edit history of a pengadaan, oldest first, with the acting users populated
+   */
+  async getPengadaanHistory(id: string): Promise<PengadaanHistoryEntry[]> {
+    try {
+      const pengadaan = await PengadaanModel.findOne({ id })
+        .select('id editHistory')
+        .populate('editHistory.userId', 'firstName lastName email username')
+        .lean();
+
+      if (!pengadaan) {
+        throw new AppError('Pengadaan not found', 404);
+      }
+
+      return (pengadaan.editHistory ?? []).map((entry) => {
+        const user = entry.userId as unknown as PopulatedHistoryUser | null;
+        const populated = user && typeof user === 'object' && 'email' in user;
+
+        return {
+          action: entry.action,
+          timestamp: entry.timestamp,
+          changes: (entry.changes ?? {}) as FieldChanges,
+          ...(entry.reason ? { reason: entry.reason } : {}),
+          user: populated
+            ? {
+                id: String(user._id),
+                name: `${user.firstName} ${user.lastName}`.trim() || user.username,
+                email: user.email,
+              }
+            : { id: user ? String(user) : '', name: 'Pengguna tidak dikenal', email: '' },
+        };
+      });
+    } catch (error) {
+      if (error instanceof AppError) {
+        throw error;
+      }
+
+      logger.error('Error retrieving pengadaan history:', error);
+      throw new AppError('Failed to retrieve pengadaan history', 500);
+    }
+  }
+
+  /**
+   * Reconstruct the form fields of a pengadaan as they were at a past moment
+   */
+  async getPengadaanAt(id: string, at: Date): Promise<Record<string, unknown>> {
+    const pengadaan = await PengadaanModel.findByCustomId(id);
+
+    if (!pengadaan) {
+      throw new AppError('Pengadaan not found', 404);
+    }
+
+    return { id: pengadaan.id, at, ...this.reconstructAt(pengadaan, at) };
+  }
+
+  /**
+   * Restore a pengadaan to its state at a past moment, recorded as a new revision.
+   * Rupiah equivalents, durations and SLA tracking are worked out again from the restored values.
+   * Bringing back a penyedia that is blacklisted today needs an admin override like any other change of penyedia.
+   */
+  async restorePengadaan(
+    id: string,
+    at: Date,
+    actor: TransitionActor,
+    overrideReason?: string
+  ): Promise<PengadaanResponse> {
+    try {
+      const userId = actor.id;
+      logger.info('Restoring pengadaan', { id, at, userId });
+
+      const pengadaan = await PengadaanModel.findByCustomId(id);
+
+      if (!pengadaan) {
+        throw new AppError('Pengadaan not found', 404);
+      }
+
+      const snapshot = this.reconstructAt(pengadaan, at, RESTORED_FIELDS);
+      const before = pengadaan.toObject() as Record<string, unknown>;
+      for (const field of PENGADAAN_FIELD_KEYS) {
+        pengadaan.set(field, snapshot[field] ?? undefined);
+      }
+      pengadaan.set('vendorId', snapshot['vendorId'] ?? null);
+      // History from before vendor links cannot bring the link back, so an older penyedia is unlinked
+      if (
+        pengadaan.vendorId &&
+        String(pengadaan.vendorId) === String(before['vendorId']) &&
+        pengadaan.penyediaBarangJasa !== before['penyediaBarangJasa']
+      ) {
+        pengadaan.vendorId = null;
+      }
+      Object.assign(
+        pengadaan,
+        await exchangeRateService.computeRupiahEquivalents(pengadaan.toObject() as Record<string, unknown>)
+      );
+      Object.assign(
+        pengadaan,
+        computeDurations(pengadaan.toObject() as Record<string, unknown>, await calendarService.getHolidays())
+      );
+      const changes = diffFields(before, pengadaan.toObject() as Record<string, unknown>, RESTORED_FIELDS);
+
+      if (!hasChanges(changes)) {
+        logger.info('Pengadaan already matches the requested state', { id, at });
+        return this.toResponseWithSla(pengadaan);
+      }
+      pengadaan.slaTracking = await slaService.trackPackage(pengadaan.toObject() as Record<string, unknown>);
+
+      const sanction =
+        changes['vendorId'] || changes['penyediaBarangJasa']
+          ? await this.checkBlacklist(
+              { vendorId: pengadaan.vendorId, name: pengadaan.penyediaBarangJasa },
+              actor,
+              overrideReason
+            )
+          : undefined;
+
+      pengadaan.addEditHistory(userId, 'restored', changes, `Restored to state at ${at.toISOString()}`);
+      if (sanction && overrideReason) {
+        pengadaan.addEditHistory(userId, 'blacklist_override', undefined, overrideReason);
+      }
+      const restoredPengadaan = await pengadaan.save();
+      if (sanction && overrideReason) {
+        await this.auditBlacklistOverride(restoredPengadaan, sanction, actor, overrideReason);
+      }
+
+      logger.info('Pengadaan restored successfully', { id, at, changedFields: Object.keys(changes) });
+      return this.toResponseWithSla(restoredPengadaan);
+    } catch (error) {
+      if (error instanceof AppError) {
+        throw error;
+      }
+
+      if (error instanceof Error && error.name === 'ValidationError') {
+        throw new AppError('Validation failed', 400, error.message);
+      }
+
+      logger.error('Error restoring pengadaan:', error);
+      throw new AppError('Failed to restore pengadaan', 500);
+    }
+  }
+
+  /**
+   * Revert every recorded field change made after `at`
+   */
+  private reconstructAt(
+    pengadaan: IPengadaanDocument,
+    at: Date,
+    fields: readonly string[] = PENGADAAN_FIELD_KEYS
+  ): Record<string, unknown> {
+    if (at.getTime() < pengadaan.createdAt.getTime()) {
+      throw new ValidationError(
+        `Pengadaan did not exist yet at ${at.toISOString()}`,
+        'at',
+        at.toISOString()
+      );
+    }
+
+    return reconstructSnapshot(
+      pengadaan.toObject() as Record<string, unknown>,
+      pengadaan.editHistory,
+      at,
+      fields
+    );
+  }
+
+  /**
+   * Get the statuses the actor may move a pengadaan to
+   */
+  async getAvailableTransitions(id: string, actor: TransitionActor): Promise<PengadaanStatus[]> {
+    const pengadaan = await PengadaanModel.findByCustomId(id);
+
+    if (!pengadaan) {
+      throw new AppError('Pengadaan not found', 404);
+    }
+
+    const from = pengadaan.status as PengadaanStatus;
+    const isOwner = pengadaan.createdBy.toString() === actor.id;
+    return getAllowedTransitions(from, actor, isOwner);
+  }
+
+  /**
+   * Validate a lifecycle transition and apply it to the document.
+   * Submit, approve and reject go through the document methods so their side effects stay in one place.
+   */
+  private applyTransition(
+    pengadaan: IPengadaanDocument,
+    to: string,
+    actor: TransitionActor,
+    reason?: string,
+    chainAuthorized = false
+  ): void {
+    const from = pengadaan.status as PengadaanStatus;
+    if (!isPengadaanStatus(to)) {
+      throw new InvalidTransitionError(from, to, `Unknown status '${to}'`);
+    }
+
+    // Approval chain members decide their own step without holding the admin role
+    if (chainAuthorized) {
+      assertTransitionExists(from, to);
+    } else {
+      const isOwner = pengadaan.createdBy.toString() === actor.id;
+      assertTransition(from, to, actor, isOwner);
+    }
+
+    switch (to) {
+      case PengadaanStatus.SUBMITTED: {
+        pengadaan.submitForm(actor.id);
+        pengadaan.approvalChain = buildApprovalChain(approvalChainRules, pengadaan);
+        const firstStep = getCurrentStep(pengadaan.approvalChain);
+        if (firstStep) {
+          pengadaan.pendingApproverRole = firstStep.approverRole;
+        }
+        break;
+      }
+      case PengadaanStatus.APPROVED: {
+        const pendingStep = getCurrentStep(pengadaan.approvalChain);
+        if (pendingStep) {
+          throw new InvalidTransitionError(
+            from,
+            to,
+            `Approval step ${pendingStep.step} (${pendingStep.approverRole}) is still pending`
+          );
+        }
+        pengadaan.approveForm(actor.id, reason);
+        break;
+      }
+      case PengadaanStatus.REJECTED:
+        if (!reason) {
+          throw new ValidationError('A reason is required to reject a pengadaan', 'reason');
+        }
+        pengadaan.rejectForm(actor.id, reason);
+        break;
+      default:
+        pengadaan.status = to;
+        pengadaan.addEditHistory(actor.id, 'transitioned', { status: { from, to } }, reason);
+    }
+  }
+
+  /**
+   * Return the pending approval step the actor is about to decide, or undefined
+   * for packages submitted before approval chains existed (admin-only review).
+   */
+  private authorizeApprovalStep(
+    pengadaan: IPengadaanDocument,
+    actor: TransitionActor
+  ): ApprovalStep | undefined {
+    const conflict = findDutyConflict(pengadaan.approvalChain ?? [], actor.id, pengadaan.createdBy);
+    if (conflict) {
+      throw new AuthorizationError(conflict);
+    }
+
+    const step = getCurrentStep(pengadaan.approvalChain ?? []);
+    if (!step) {
+      return undefined;
+    }
+
+    if (!canDecideStep(step, actor)) {
+      throw new AuthorizationError(
+        `Approval step ${step.step} requires the '${step.approverRole}' approver role`
+      );
+    }
+
+    return step;
+  }
+
+  /**
+   * Record a decision on an approval chain step
+   */
+  private decideApprovalStep(
+    pengadaan: IPengadaanDocument,
+    step: ApprovalStep,
+    decision: ApprovalDecision.APPROVED | ApprovalDecision.REJECTED,
+    actor: TransitionActor,
+    comment?: string
+  ): void {
+    step.decision = decision;
+    step.decidedBy = actor.id;
+    step.decidedAt = new Date();
+    if (comment) {
+      step.comment = comment;
+    }
+
+    pengadaan.addEditHistory(
+      actor.id,
+      decision,
+      {
+        [`approvalChain.${step.step}.decision`]: { from: ApprovalDecision.PENDING, to: decision },
+      },
+      comment
+    );
+  }
+
+  /**
+   * Load a pengadaan, run a workflow step on it and save the result
+   */
+  private async runWorkflowStep(
+    id: string,
+    action: string,
+    step: (pengadaan: IPengadaanDocument) => void
+  ): Promise<PengadaanResponse> {
+    try {
+      const pengadaan = await PengadaanModel.findByCustomId(id);
+
+      if (!pengadaan) {
+        throw new AppError('Pengadaan not found', 404);
+      }
+
+      const from = pengadaan.status;
+      step(pengadaan);
+      const updatedPengadaan = await pengadaan.save();
+
+      logger.info(`Pengadaan ${action} successfully`, { id, from, to: updatedPengadaan.status });
+      return this.toResponseWithSla(updatedPengadaan);
+    } catch (error) {
+      if (error instanceof AppError) {
+        throw error;
+      }
+
+      logger.error(`Error during pengadaan ${action}:`, error);
+      throw new AppError(`Failed to ${action} pengadaan`, 500);
+    }
+  }
+
+  /**
+   * Move a pengadaan to a new lifecycle status and record it in the edit history
+   */
+  async transitionPengadaan(
+    id: string,
+    to: string,
+    actor: TransitionActor,
+    reason?: string
+  ): Promise<PengadaanResponse> {
+    logger.info('Transitioning pengadaan', { id, to, userId: actor.id });
+    return this.runWorkflowStep(id, 'transition', (pengadaan) => {
+      this.applyTransition(pengadaan, to, actor, reason);
+    });
+  }
+
+  /**
+   * Submit a draft pengadaan for review
+   */
+  async submitPengadaan(id: string, actor: TransitionActor): Promise<PengadaanResponse> {
+    logger.info('Submitting pengadaan', { id, userId: actor.id });
+    return this.runWorkflowStep(id, 'submit', (pengadaan) => {
+      if (!pengadaan.canUserEdit(actor.id, actor.role)) {
+        throw new AuthorizationError('You are not allowed to submit this pengadaan');
+      }
+      this.applyTransition(pengadaan, PengadaanStatus.SUBMITTED, actor);
+    });
+  }
+
+  /**
+   * Approve the current step of a submitted pengadaan; the package itself is
+   * approved once every step of its approval chain has been approved
+   */
+  async approvePengadaan(id: string, actor: TransitionActor, reason?: string): Promise<PengadaanResponse> {
+    logger.info('Approving pengadaan', { id, userId: actor.id });
+    return this.runWorkflowStep(id, 'approve', (pengadaan) => {
+      const step = this.authorizeApprovalStep(pengadaan, actor);
+      if (!step) {
+        this.startReview(pengadaan, actor);
+        this.applyTransition(pengadaan, PengadaanStatus.APPROVED, actor, reason);
+        return;
+      }
+
+      this.startReview(pengadaan, actor, true);
+      this.decideApprovalStep(pengadaan, step, ApprovalDecision.APPROVED, actor, reason);
+
+      const nextStep = getCurrentStep(pengadaan.approvalChain);
+      if (nextStep) {
+        pengadaan.pendingApproverRole = nextStep.approverRole;
+      } else {
+        this.applyTransition(pengadaan, PengadaanStatus.APPROVED, actor, reason, true);
+      }
+    });
+  }
+
+  /**
+   * Reject a submitted pengadaan at its current approval step with a mandatory reason
+   */
+  async rejectPengadaan(id: string, actor: TransitionActor, reason: string): Promise<PengadaanResponse> {
+    logger.info('Rejecting pengadaan', { id, userId: actor.id });
+    return this.runWorkflowStep(id, 'reject', (pengadaan) => {
+      const step = this.authorizeApprovalStep(pengadaan, actor);
+      if (!step) {
+        this.startReview(pengadaan, actor);
+        this.applyTransition(pengadaan, PengadaanStatus.REJECTED, actor, reason);
+        return;
+      }
+
+      this.startReview(pengadaan, actor, true);
+      this.decideApprovalStep(pengadaan, step, ApprovalDecision.REJECTED, actor, reason);
+      this.applyTransition(pengadaan, PengadaanStatus.REJECTED, actor, reason, true);
+    });
+  }
+
+  /**
+   * Move a freshly submitted pengadaan into review before a decision is recorded
+   */
+  private startReview(pengadaan: IPengadaanDocument, actor: TransitionActor, chainAuthorized = false): void {
+    if (pengadaan.status === PengadaanStatus.SUBMITTED) {
+      this.applyTransition(pengadaan, PengadaanStatus.IN_REVIEW, actor, undefined, chainAuthorized);
+    }
+  }
+
+  /**
+   * Get submitted pengadaan awaiting a review decision, oldest submission first.
+   * Admins see the whole queue; approvers only see packages waiting on one of their roles.
    */
-  async deletePengadaan(id: string): Promise<void> {
+  async getReviewQueue(
+    actor: TransitionActor,
+    page = 1,
+    limit = 10
+  ): Promise<{ data: PengadaanResponse[]; total: number }> {
     try {
-      logger.info('Deleting pengadaan', { id });
+      const filter: Record<string, unknown> = {
+        status: { $in: [PengadaanStatus.SUBMITTED, PengadaanStatus.IN_REVIEW] },
+      };
+      if (actor.role !== UserRole.ADMIN) {
+        filter['pendingApproverRole'] = { $in: actor.approverRoles ?? [] };
+      }
+      // Packages the actor created or already decided a step of are left to other reviewers
+      filter['createdBy'] = { $ne: actor.id };
+      filter['approvalChain.decidedBy'] = { $ne: actor.id };
+      const [pengadaanList, total] = await Promise.all([
+        PengadaanModel.findSubmitted(
+          { sort: { submittedAt: 1 }, skip: (page - 1) * limit, limit },
+          filter
+        ),
+        PengadaanModel.countDocuments({ submittedAt: { $exists: true }, ...filter }),
+      ]);
+
+      logger.info('Retrieved review queue', { total, page, limit });
+      return {
+        data: pengadaanList.map((item) => item.toResponse()),
+        total,
+      };
+    } catch (error) {
+      logger.error('Error retrieving review queue:', error);
+      throw new AppError('Failed to retrieve review queue', 500);
+    }
+  }
+
+  /**
+   * Move pengadaan to the recycle bin (soft delete)
+   */
+  async deletePengadaan(id: string, userId: string): Promise<void> {
+    try {
+      logger.info('Deleting pengadaan', { id, userId });
       
-      const result = await PengadaanModel.findOneAndDelete({ id });
+      const pengadaan = await PengadaanModel.findOne({ id });
       
-      if (!result) {
+      if (!pengadaan) {
         throw new AppError('Pengadaan not found', 404);
       }
 
+      pengadaan.deletedAt = new Date();
+      pengadaan.deletedBy = new mongoose.Types.ObjectId(userId);
+      pengadaan.addEditHistory(userId, 'deleted');
+      await pengadaan.save();
+
       logger.info('Pengadaan deleted successfully', { id });
     } catch (error) {
       if (error instanceof AppError) {
@@ -287,6 +1022,113 @@ class PengadaanService {
     }
   }
 
+  /**
+   * Get soft-deleted pengadaan, most recently deleted first
+   */
+  async getRecycleBin(page = 1, limit = 10): Promise<{ data: PengadaanResponse[]; total: number }> {
+    try {
+      const filter = { deletedAt: { $ne: null } };
+      const [pengadaanList, total] = await Promise.all([
+        PengadaanModel.find(filter)
+          .sort({ deletedAt: -1, _id: 1 })
+          .skip((page - 1) * limit)
+          .limit(limit)
+          .populate('deletedBy', 'firstName lastName email username'),
+        PengadaanModel.countDocuments(filter),
+      ]);
+
+      logger.info('Retrieved recycle bin', { total, page, limit });
+      return {
+        data: pengadaanList.map((item) => item.toResponse()),
+        total,
+      };
+    } catch (error) {
+      logger.error('Error retrieving recycle bin:', error);
+      throw new AppError('Failed to retrieve recycle bin', 500);
+    }
+  }
+
+  /**
+   * Take pengadaan back out of the recycle bin
+   */
+  async undeletePengadaan(id: string, userId: string): Promise<PengadaanResponse> {
+    try {
+      logger.info('Undeleting pengadaan', { id, userId });
+
+      const pengadaan = await PengadaanModel.findOne({ id, deletedAt: { $ne: null } });
+
+      if (!pengadaan) {
+        throw new AppError('Deleted pengadaan not found', 404);
+      }
+
+      pengadaan.deletedAt = null;
+      pengadaan.set('deletedBy', undefined);
+      pengadaan.addEditHistory(userId, 'undeleted');
+      await pengadaan.save();
+
+      logger.info('Pengadaan undeleted successfully', { id });
+      return pengadaan.toResponse();
+    } catch (error) {
+      if (error instanceof AppError) {
+        throw error;
+      }
+
+      logger.error('Error undeleting pengadaan:', error);
+      throw new AppError('Failed to undelete pengadaan', 500);
+    }
+  }
+
+  /**
+   * Permanently remove pengadaan that have been in the recycle bin longer than the
+   * retention window. A backup is taken before anything is removed and every run,
+   * including one with nothing to purge, leaves an audit entry.
+   */
+  async purgeDeletedPengadaan(userId: string, requestId?: string): Promise<PurgePengadaanResult> {
+    const cutoff = getPurgeCutoff(new Date(), config.softDeleteRetentionDays);
+
+    try {
+      logger.info('Purging deleted pengadaan', { cutoff, userId });
+
+      const candidates = await PengadaanModel.find({ deletedAt: { $ne: null, $lte: cutoff } }, '_id id').lean();
+      const result: PurgePengadaanResult = { cutoff, purgedCount: 0, purgedIds: [] };
+
+      if (candidates.length > 0) {
+        result.backupId = (await backupService.createBackup(userId, 'Before purging deleted pengadaan')).id;
+
+        const { deletedCount } = await PengadaanModel.deleteMany({
+          _id: { $in: candidates.map((item) => item._id) },
+          deletedAt: { $ne: null, $lte: cutoff },
+        });
+        result.purgedCount = deletedCount;
+        result.purgedIds = candidates.map((item) => item.id);
+      }
+
+      await auditService.record({
+        action: AuditAction.PENGADAAN_PURGE,
+        actorId: userId,
+        targetType: 'pengadaan',
+        targetIds: result.purgedIds,
+        details: {
+          cutoff,
+          retentionDays: config.softDeleteRetentionDays,
+          purgedCount: result.purgedCount,
+          ...(result.backupId ? { backupId: result.backupId } : {}),
+        },
+        requestId,
+      });
+
+      logger.info('Purge completed', { purgedCount: result.purgedCount, backupId: result.backupId });
+      return result;
+    } catch (error) {
+      if (error instanceof AppError) {
+        throw error;
+      }
+
+      logger.error('Error purging deleted pengadaan:', error);
+      throw new AppError('Failed to purge deleted pengadaan', 500);
+    }
+  }
+
   /**
    * Search pengadaan by text
    */
@@ -298,11 +1140,7 @@ class PengadaanService {
       
       logger.info('Search completed', { resultsCount: pengadaanList.length });
       
-      return pengadaanList.slice(0, limit).map((item) => ({
-        ...item,
-        createdAt: item.createdAt,
-        updatedAt: item.updatedAt,
-      })) as PengadaanResponse[];
+      return pengadaanList.slice(0, limit).map((item) => item.toResponse() as PengadaanResponse);
     } catch (error) {
       logger.error('Error searching pengadaan:', error);
       throw new AppError('Failed to search pengadaan', 500);
@@ -310,31 +1148,45 @@ class PengadaanService {
   }
 
   /**
-   * Get pengadaan statistics
+   * Get pengadaan statistics, optionally for one tahun anggaran and/or pengguna barang/jasa
    */
-  async getPengadaanStats(): Promise<PengadaanStats> {
+  async getPengadaanStats(filter: PengadaanStatsFilter = {}): Promise<PengadaanStats> {
     try {
-      logger.info('Calculating pengadaan statistics');
-      
-      const [total, statusStats, kategoriStats, recentActivity] = await Promise.all([
-        PengadaanModel.countDocuments(),
-        this.getStatsByField('status'),
-        this.getStatsByField('kategori'),
-        this.getRecentActivity(),
-      ]);
+      logger.info('Calculating pengadaan statistics', { filter });
 
-      // Calculate total nilai (simplified - you might want to implement proper currency conversion)
-      const nilaiStats = await this.calculateTotalNilai();
+      const match = this.buildStatsMatch(filter);
+      const [
+        total,
+        statusStats,
+        kategoriStats,
+        nilaiStats,
+        totalRupiah,
+        byBulanPermintaan,
+        recentActivity,
+        slaCompliance,
+      ] = await Promise.all([
+        PengadaanModel.countDocuments(match),
+        this.getStatsByField('status', match),
+        this.getStatsByField('kategori', match),
+        this.calculateTotalNilai(match),
+        this.calculateTotalRupiah(match),
+        this.getMonthlyStats(match),
+        this.getRecentActivity(match),
+        slaService.getCompliance(match),
+      ]);
 
       const stats: PengadaanStats = {
         total,
         byStatus: statusStats,
         byKategori: kategoriStats,
         totalNilai: nilaiStats,
+        totalRupiah,
+        byBulanPermintaan,
         recentActivity,
+        slaCompliance,
       };
 
-      logger.info('Statistics calculated successfully', stats);
+      logger.info('Statistics calculated successfully', { filter, total });
       return stats;
     } catch (error) {
       logger.error('Error calculating statistics:', error);
@@ -342,11 +1194,79 @@ class PengadaanService {
     }
   }
 
+  /**
+   * Latest edit history entries across packages, newest first
+   */
+  async getActivityFeed(filter: PengadaanStatsFilter = {}, limit = 10): Promise<PengadaanActivityEntry[]> {
+    try {
+      const results = await PengadaanModel.aggregate<{
+        id: string;
+        namaPaket?: string;
+        nama: string;
+        entry: { action: PengadaanActivityEntry['action']; timestamp: Date; reason?: string; userId: unknown };
+        user?: PopulatedHistoryUser;
+      }>([
+        { $match: this.buildStatsMatch(filter) },
+        { $unwind: '$editHistory' },
+        { $sort: { 'editHistory.timestamp': -1 } },
+        { $limit: limit },
+        {
+          $lookup: {
+            from: UserModel.collection.name,
+            localField: 'editHistory.userId',
+            foreignField: '_id',
+            as: 'user',
+          },
+        },
+        {
+          $project: {
+            id: 1,
+            namaPaket: 1,
+            nama: 1,
+            entry: '$editHistory',
+            user: { $arrayElemAt: ['$user', 0] },
+          },
+        },
+      ]);
+
+      return results.map(({ id, namaPaket, nama, entry, user }) => ({
+        pengadaanId: id,
+        namaPaket: namaPaket || nama,
+        action: entry.action,
+        timestamp: entry.timestamp,
+        ...(entry.reason ? { reason: entry.reason } : {}),
+        user: user
+          ? { id: String(user._id), name: `${user.firstName} ${user.lastName}`.trim() || user.username }
+          : { id: entry.userId ? String(entry.userId) : '', name: 'Pengguna tidak dikenal' },
+      }));
+    } catch (error) {
+      logger.error('Error retrieving pengadaan activity:', error);
+      throw new AppError('Failed to retrieve pengadaan activity', 500);
+    }
+  }
+
+  /**
+   * Match stage for the statistics filter
+   */
+  private buildStatsMatch(filter: PengadaanStatsFilter): Record<string, unknown> {
+    const match: Record<string, unknown> = {};
+    if (filter.tahunAnggaran) {
+      match['tahunAnggaran'] = filter.tahunAnggaran;
+    }
+    if (filter.penggunaBarangJasa) {
+      match['penggunaBarangJasa'] = filter.penggunaBarangJasa;
+    }
+    return match;
+  }
+
   /**
    * Get statistics by field
    */
-  private async getStatsByField(field: string): Promise<Record<string, number>> {
+  private async getStatsByField(field: string, match: Record<string, unknown>): Promise<Record<string, number>> {
     const pipeline = [
+      {
+        $match: match,
+      },
       {
         $group: {
           _id: `$${field}`,
@@ -367,40 +1287,80 @@ class PengadaanService {
   }
 
   /**
-   * Calculate total nilai
+   * Calculate total nilai: HPS amounts summed per currency, zero for currencies without packages
    */
-  private async calculateTotalNilai(): Promise<{ idr: number; usd: number }> {
-    // This is a simplified calculation
-    // In a real application, you'd want to properly parse and convert currencies
-    const pengadaanList = await PengadaanModel.find({}, 'nilaiHpsCurrency nilaiHpsAmount').lean();
-    
-    let totalIdr = 0;
-    let totalUsd = 0;
+  private async calculateTotalNilai(match: Record<string, unknown>): Promise<PengadaanStats['totalNilai']> {
+    const results = await PengadaanModel.aggregate<{ _id: string; total: mongoose.Types.Decimal128 }>([
+      { $match: match },
+      { $group: { _id: '$nilaiHpsCurrency', total: { $sum: '$nilaiHpsAmount' } } },
+    ]);
 
-    pengadaanList.forEach(item => {
-      const amount = parseFloat(item.nilaiHpsAmount?.replace(/[^0-9.-]+/g, '') || '0');
-      
-      if (item.nilaiHpsCurrency === 'IDR') {
-        totalIdr += amount;
-      } else if (item.nilaiHpsCurrency === 'USD') {
-        totalUsd += amount;
-      }
-    });
+    const totals = new Map(results.map((item) => [item._id, parseAmount(item.total) ?? 0]));
+    return Object.fromEntries(
+      Object.values(Currency).map((currency) => [currency.toLowerCase(), totals.get(currency) ?? 0])
+    ) as PengadaanStats['totalNilai'];
+  }
+
+  /**
+   * Rupiah equivalents of HPS, contract value and cost saving; packages without a contract add nothing
+   */
+  private async calculateTotalRupiah(
+    match: Record<string, unknown>
+  ): Promise<{ hps: number; kontrak: number; costSaving: number }> {
+    const [result] = await PengadaanModel.aggregate<{
+      hps: mongoose.Types.Decimal128;
+      kontrak: mongoose.Types.Decimal128;
+      costSaving: mongoose.Types.Decimal128;
+    }>([
+      { $match: match },
+      {
+        $group: {
+          _id: null,
+          hps: { $sum: '$nilaiHpsEqRupiah' },
+          kontrak: { $sum: '$nilaiKontrakRupiah' },
+          costSaving: { $sum: '$costSavingRp' },
+        },
+      },
+    ]);
 
-    return { idr: totalIdr, usd: totalUsd };
+    return {
+      hps: parseAmount(result?.hps) ?? 0,
+      kontrak: parseAmount(result?.kontrak) ?? 0,
+      costSaving: parseAmount(result?.costSaving) ?? 0,
+    };
+  }
+
+  /**
+   * Packages per bulan permintaan, oldest month first
+   */
+  private async getMonthlyStats(match: Record<string, unknown>): Promise<PengadaanMonthlyStats[]> {
+    const results = await PengadaanModel.aggregate<{ _id: string; count: number; nilaiHps: mongoose.Types.Decimal128 }>([
+      { $match: { ...match, bulanPermintaan: { $nin: [null, ''] } } },
+      { $group: { _id: '$bulanPermintaan', count: { $sum: 1 }, nilaiHps: { $sum: '$nilaiHpsEqRupiah' } } },
+      { $sort: { _id: 1 } },
+    ]);
+
+    return results.map((item) => ({
+      bulan: item._id,
+      count: item.count,
+      nilaiHps: parseAmount(item.nilaiHps) ?? 0,
+    }));
   }
 
   /**
    * Get recent activity statistics
    */
-  private async getRecentActivity(): Promise<{ created: number; updated: number; completed: number }> {
+  private async getRecentActivity(
+    match: Record<string, unknown>
+  ): Promise<{ created: number; updated: number; completed: number }> {
     const thirtyDaysAgo = new Date();
     thirtyDaysAgo.setDate(thirtyDaysAgo.getDate() - 30);
 
     const [created, updated, completed] = await Promise.all([
-      PengadaanModel.countDocuments({ createdAt: { $gte: thirtyDaysAgo } }),
-      PengadaanModel.countDocuments({ updatedAt: { $gte: thirtyDaysAgo } }),
+      PengadaanModel.countDocuments({ ...match, createdAt: { $gte: thirtyDaysAgo } }),
+      PengadaanModel.countDocuments({ ...match, updatedAt: { $gte: thirtyDaysAgo } }),
       PengadaanModel.countDocuments({
+        ...match,
         status: PengadaanStatus.COMPLETED,
         updatedAt: { $gte: thirtyDaysAgo },
       }),
@@ -410,48 +1370,154 @@ class PengadaanService {
   }
 
   /**
-   * Bulk operations
+   * Response of a package with its SLA status as of today
    */
-  async bulkUpdateStatus(ids: string[], status: PengadaanStatus): Promise<number> {
-    try {
-      logger.info('Bulk updating status', { ids, status });
-      
-      const result = await PengadaanModel.updateMany(
-        { id: { $in: ids } },
-        { status, updatedAt: new Date() }
-      );
+  private async toResponseWithSla(pengadaan: IPengadaanDocument): Promise<PengadaanResponse> {
+    const [response] = await slaService.withSlaStatus([pengadaan.toResponse() as unknown as Record<string, unknown>]);
+    return response as unknown as PengadaanResponse;
+  }
 
-      logger.info('Bulk update completed', { modifiedCount: result.modifiedCount });
-      return result.modifiedCount;
+  /**
+   * New unsaved Draft document from a create payload, with the rupiah equivalents
+   * and rates from computeRupiahEquivalents
+   */
+  private buildDraft(
+    data: Record<string, unknown>,
+    userId: string,
+    holidays: ReadonlySet<string>,
+    slaTargets: readonly SlaTargetRule[],
+    rupiahEquivalents: Record<string, unknown> = {}
+  ): IPengadaanDocument {
+    const payload = { ...this.normalizePengadaanPayload(data), ...rupiahEquivalents };
+    return new PengadaanModel({
+      ...payload,
+      ...computeDurations(payload, holidays),
+      slaTracking: computeSlaTracking(payload, slaTargets, holidays),
+      createdBy: userId,
+      status: PengadaanStatus.DRAFT,
+    });
+  }
+
+  /**
+   * Check a create payload against the database schema without saving it.
+   * Returns the validation messages by field; empty when the payload is valid.
+   */
+  checkPengadaanPayload(data: Record<string, unknown>, userId: string): Record<string, string> {
+    let draft: IPengadaanDocument;
+    try {
+      draft = this.buildDraft(data, userId, NO_HOLIDAYS, []);
     } catch (error) {
-      logger.error('Error in bulk update:', error);
-      throw new AppError('Failed to bulk update status', 500);
+      if (error instanceof ValidationError && error.field) {
+        return { [error.field]: error.message };
+      }
+      throw error;
+    }
+
+    const validationError = draft.validateSync({ pathsToSkip: ['id'] });
+    const messages: Record<string, string> = {};
+    for (const [field, error] of Object.entries(validationError?.errors ?? {})) {
+      messages[field] = error.message;
     }
+    return messages;
   }
 
   /**
-   * Export pengadaan data
+   * Create many pengadaan in one insertMany call. Every package starts as Draft;
+   * rows failing schema validation or the insert are reported by index instead of
+   * aborting the batch.
    */
-  async exportPengadaan(format: 'json' | 'csv' = 'json'): Promise<Record<string, unknown>[]> {
+  async bulkCreatePengadaan(
+    dataList: Record<string, unknown>[],
+    userId: string
+  ): Promise<BulkCreatePengadaanResult> {
     try {
-      logger.info('Exporting pengadaan data', { format });
-      
-      const pengadaanList = await PengadaanModel.find({}).lean();
-      
-      if (format === 'json') {
-        return pengadaanList as Record<string, unknown>[];
+      logger.info('Bulk creating pengadaan', { count: dataList.length, userId });
+
+      const result: BulkCreatePengadaanResult = { created: [], errors: [] };
+      const [ids, sanctions, holidays, slaTargets] = await Promise.all([
+        PengadaanModel.generateCustomIds(dataList.length),
+        blacklistService.getActiveSanctions(),
+        calendarService.getHolidays(),
+        slaService.getTargets(),
+      ]);
+      const pending: { index: number; document: IPengadaanDocument }[] = [];
+
+      for (const [index, data] of dataList.entries()) {
+        // Bulk rows cannot carry an override; blacklisted vendors go through the single create
+        const sanction = matchSanction(
+          {
+            vendorId: typeof data['vendorId'] === 'string' ? data['vendorId'] : null,
+            name: typeof data['penyediaBarangJasa'] === 'string' ? data['penyediaBarangJasa'] : null,
+          },
+          sanctions
+        );
+        if (sanction) {
+          result.errors.push({
+            index,
+            message: `Vendor ${sanction.vendorName} is blacklisted until ${sanction.endDate.toISOString().slice(0, 10)}`,
+          });
+          continue;
+        }
+
+        let document: IPengadaanDocument;
+        try {
+          const rupiahEquivalents = await exchangeRateService.computeRupiahEquivalents(data);
+          document = this.buildDraft(data, userId, holidays, slaTargets, rupiahEquivalents);
+        } catch (error) {
+          if (!(error instanceof ValidationError)) {
+            throw error;
+          }
+          result.errors.push({ index, message: error.message });
+          continue;
+        }
+        document.id = ids[index] as string;
+        const validationError = document.validateSync();
+        if (validationError) {
+          result.errors.push({ index, message: validationError.message });
+        } else {
+          pending.push({ index, document });
+        }
       }
-      
-      // For CSV format, you might want to implement CSV conversion
-      // This is a placeholder for CSV export functionality
-      throw new AppError('CSV export not implemented yet', 501);
-    } catch (error) {
-      if (error instanceof AppError) {
-        throw error;
+
+      const failedInserts = new Map<number, string>();
+      if (pending.length > 0) {
+        try {
+          await PengadaanModel.insertMany(
+            pending.map(({ document }) => document),
+            { ordered: false }
+          );
+        } catch (error) {
+          if (!(error instanceof mongoose.mongo.MongoBulkWriteError)) {
+            throw error;
+          }
+          const writeErrors = Array.isArray(error.writeErrors) ? error.writeErrors : [error.writeErrors];
+          for (const writeError of writeErrors) {
+            failedInserts.set(writeError.index, writeError.errmsg ?? 'Insert failed');
+          }
+        }
       }
-      
-      logger.error('Error exporting data:', error);
-      throw new AppError('Failed to export data', 500);
+
+      pending.forEach(({ index, document }, position) => {
+        const failure = failedInserts.get(position);
+        if (failure) {
+          result.errors.push({
+            index,
+            message: failure.includes('duplicate key') ? 'Pengadaan with this ID already exists' : failure,
+          });
+        } else {
+          result.created.push(document.toResponse());
+        }
+      });
+      result.errors.sort((a, b) => a.index - b.index);
+
+      logger.info('Bulk create completed', {
+        created: result.created.length,
+        failed: result.errors.length,
+      });
+      return result;
+    } catch (error) {
+      logger.error('Error in bulk create:', error);
+      throw new AppError('Failed to bulk create pengadaan', 500);
     }
   }
 }
@@ -0,0 +1,516 @@
+import ExcelJS from 'exceljs';
+import mongoose from 'mongoose';
+import PengadaanModel from '../models/Pengadaan';
+import { AnalyticsDimension } from '../config/pengadaanFields';
+import { AnalyticsMeasure, PengadaanStatus, SlaStatus, SlaSummary } from '../types/pengadaan';
+import {
+  RenderedReport,
+  ReportCell,
+  ReportColumn,
+  ReportDefinition,
+  ReportFormat,
+  ReportParameter,
+  ReportParams,
+  ReportResult,
+} from '../types/report';
+import analyticsService from './analyticsService';
+import slaService from './slaService';
+import { parseAmount } from '../utils/amount';
+import { CSV_BOM, toCsvRow } from '../utils/csv';
+import { formatDateOnly, parseDateOnly } from '../utils/date';
+import { formatNumber, formatTanggal } from '../utils/format';
+import { PAGE_SIZES, PdfDocument, measureText, truncateText } from '../utils/pdf';
+import { logger } from '../utils/logger';
+import { AppError, NotFoundError, ValidationError } from '../utils/errors';
+
+type ReportRows = Pick<ReportResult, 'rows' | 'totals'>;
+
+interface ReportRunner extends ReportDefinition {
+  run(params: ReportParams): Promise<ReportRows>;
+}
+
+type DecimalSum = mongoose.Types.Decimal128 | null;
+
+const TAHUN_ANGGARAN: ReportParameter = { key: 'tahunAnggaran', label: 'Tahun Anggaran', type: 'year' };
+const PENGGUNA: ReportParameter = { key: 'penggunaBarangJasa', label: 'Pengguna Barang/ Jasa', type: 'text' };
+const METODE: ReportParameter = { key: 'metodePengadaan', label: 'Metode Pengadaan', type: 'text' };
+const PIC: ReportParameter = { key: 'picTimPpsm', label: 'PIC Tim PPSM', type: 'text' };
+
+const NOT_FILLED = 'Tidak diisi';
+
+const XLSX_FORMATS: Partial<Record<NonNullable<ReportColumn['type']>, string>> = {
+  number: '#,##0',
+  amount: '#,##0.00',
+  percent: '0.0"%"',
+  date: 'dd/mm/yyyy',
+};
+
+const round = (value: number, digits = 2): number => Math.round(value * 10 ** digits) / 10 ** digits;
+
+/**
+ * Percentage of part in whole with one decimal; null when whole is zero
+ */
+export const share = (part: number, whole: number): number | null =>
+  whole > 0 ? round((part / whole) * 100, 1) : null;
+
+/**
+ * Totals row: numeric columns summed, the first column labelled "Total", the rest empty
+ */
+export const sumRows = (
+  rows: readonly Record<string, ReportCell>[],
+  columns: readonly ReportColumn[]
+): Record<string, ReportCell> => {
+  const totals: Record<string, ReportCell> = {};
+  columns.forEach((column, index) => {
+    if (index === 0) {
+      totals[column.key] = 'Total';
+    } else if (column.type === 'number' || column.type === 'amount') {
+      totals[column.key] = round(rows.reduce((sum, row) => sum + Number(row[column.key] ?? 0), 0));
+    } else {
+      totals[column.key] = null;
+    }
+  });
+  return totals;
+};
+
+/**
+ * Cell as display text: Indonesian number grouping, percentages and dates
+ */
+export const formatReportCell = (value: ReportCell, type: ReportColumn['type']): string => {
+  if (value === null || value === '') {
+    return '-';
+  }
+  if (value instanceof Date) {
+    return formatTanggal(value);
+  }
+  if (typeof value === 'number') {
+    return type === 'percent' ? `${formatNumber(value)}%` : formatNumber(value);
+  }
+  return value;
+};
+
+// Cell for CSV: raw numbers and ISO dates so spreadsheets can compute with them
+const toCsvCell = (value: ReportCell): unknown => (value instanceof Date ? formatDateOnly(value) : value);
+
+const REPORTS: readonly ReportRunner[] = [
+  {
+    id: 'rekap-metode',
+    title: 'Rekap per Metode Pengadaan',
+    description: 'Jumlah paket, HPS, nilai kontrak dan cost saving per metode pengadaan',
+    parameters: [TAHUN_ANGGARAN, PENGGUNA],
+    columns: [
+      { key: 'metodePengadaan', label: 'Metode Pengadaan' },
+      { key: 'count', label: 'Jumlah Paket', type: 'number' },
+      { key: 'hps', label: 'Total HPS (Eq. Rupiah)', type: 'amount' },
+      { key: 'kontrak', label: 'Nilai Kontrak (Rp)', type: 'amount' },
+      { key: 'costSaving', label: 'Cost Saving (Rp)', type: 'amount' },
+    ],
+    async run(params) {
+      const result = await analyticsService.getAnalytics({
+        groupBy: ['metodePengadaan'],
+        measures: [AnalyticsMeasure.COUNT, AnalyticsMeasure.HPS, AnalyticsMeasure.KONTRAK, AnalyticsMeasure.COST_SAVING],
+        dateField: 'tanggalPermintaan',
+        filters: params as Partial<Record<AnalyticsDimension, string>>,
+      });
+      const rows = result.rows.map((row) => ({ ...row, metodePengadaan: row['metodePengadaan'] ?? NOT_FILLED }));
+      return { rows, totals: sumRows(rows, this.columns) };
+    },
+  },
+  {
+    id: 'rekap-cost-saving',
+    title: 'Rekap Cost Saving per Tahun',
+    description: 'Paket CostSaving per tahun cost saving (tahun anggaran bila kosong) dengan persentase penghematan dari HPS',
+    parameters: [PENGGUNA, METODE],
+    columns: [
+      { key: 'tahun', label: 'Tahun' },
+      { key: 'count', label: 'Jumlah Paket', type: 'number' },
+      { key: 'hps', label: 'Total HPS (Eq. Rupiah)', type: 'amount' },
+      { key: 'penunjukan', label: 'Nilai Penunjukan (Eq. Rupiah)', type: 'amount' },
+      { key: 'costSaving', label: 'Cost Saving (Rp)', type: 'amount' },
+      { key: 'persentase', label: 'Cost Saving (%)', type: 'percent' },
+    ],
+    async run(params) {
+      const results = await PengadaanModel.aggregate<{
+        _id: string | null;
+        count: number;
+        hps: DecimalSum;
+        penunjukan: DecimalSum;
+        costSaving: DecimalSum;
+      }>([
+        { $match: { ...params, costSaving: 'CostSaving' } },
+        {
+          $group: {
+            _id: {
+              $cond: [
+                { $gt: [{ $strLenCP: { $trim: { input: { $ifNull: ['$tahunCostSaving', ''] } } } }, 0] },
+                { $trim: { input: '$tahunCostSaving' } },
+                '$tahunAnggaran',
+              ],
+            },
+            count: { $sum: 1 },
+            hps: { $sum: '$nilaiHpsEqRupiah' },
+            penunjukan: { $sum: '$nilaiPenunjukanEqRupiah' },
+            costSaving: { $sum: '$costSavingRp' },
+          },
+        },
+        { $sort: { _id: 1 } },
+      ]);
+
+      const rows = results.map((item) => {
+        const hps = parseAmount(item.hps) ?? 0;
+        const costSaving = parseAmount(item.costSaving) ?? 0;
+        return {
+          tahun: item._id || NOT_FILLED,
+          count: item.count,
+          hps,
+          penunjukan: parseAmount(item.penunjukan) ?? 0,
+          costSaving,
+          persentase: share(costSaving, hps),
+        };
+      });
+      const totals = sumRows(rows, this.columns);
+      totals['persentase'] = share(Number(totals['costSaving']), Number(totals['hps']));
+      return { rows, totals };
+    },
+  },
+  {
+    id: 'partisipasi-umkm',
+    title: 'Partisipasi UMKM',
+    description: 'Jumlah dan nilai penunjukan paket per status UMKM penyedia',
+    parameters: [TAHUN_ANGGARAN, PENGGUNA],
+    columns: [
+      { key: 'statusPenyedia', label: 'Status Penyedia' },
+      { key: 'count', label: 'Jumlah Paket', type: 'number' },
+      { key: 'persentasePaket', label: 'Porsi Paket (%)', type: 'percent' },
+      { key: 'penunjukan', label: 'Nilai Penunjukan (Eq. Rupiah)', type: 'amount' },
+      { key: 'persentaseNilai', label: 'Porsi Nilai (%)', type: 'percent' },
+    ],
+    async run(params) {
+      const results = await PengadaanModel.aggregate<{ _id: string | null; count: number; penunjukan: DecimalSum }>([
+        { $match: params },
+        { $group: { _id: '$statusPenyedia', count: { $sum: 1 }, penunjukan: { $sum: '$nilaiPenunjukanEqRupiah' } } },
+        { $sort: { count: -1 } },
+      ]);
+
+      const totalCount = results.reduce((sum, item) => sum + item.count, 0);
+      const totalValue = results.reduce((sum, item) => sum + (parseAmount(item.penunjukan) ?? 0), 0);
+      const rows = results.map((item) => {
+        const penunjukan = parseAmount(item.penunjukan) ?? 0;
+        return {
+          statusPenyedia: item._id || NOT_FILLED,
+          count: item.count,
+          persentasePaket: share(item.count, totalCount),
+          penunjukan,
+          persentaseNilai: share(penunjukan, totalValue),
+        };
+      });
+      const totals = sumRows(rows, this.columns);
+      totals['persentasePaket'] = totalCount > 0 ? 100 : null;
+      totals['persentaseNilai'] = totalValue > 0 ? 100 : null;
+      return { rows, totals };
+    },
+  },
+  {
+    id: 'paket-per-pic',
+    title: 'Paket per PIC Tim PPSM',
+    description: 'Beban kerja PIC: paket berjalan, selesai, dibatalkan dan melewati SLA',
+    parameters: [TAHUN_ANGGARAN, PENGGUNA],
+    columns: [
+      { key: 'picTimPpsm', label: 'PIC Tim PPSM' },
+      { key: 'count', label: 'Jumlah Paket', type: 'number' },
+      { key: 'berjalan', label: 'Berjalan', type: 'number' },
+      { key: 'selesai', label: 'Selesai', type: 'number' },
+      { key: 'batal', label: 'Ditolak/ Dibatalkan', type: 'number' },
+      { key: 'melewatiSla', label: 'Melewati SLA', type: 'number' },
+      { key: 'hps', label: 'Total HPS (Eq. Rupiah)', type: 'amount' },
+    ],
+    async run(params) {
+      const breachedFilter = await slaService.getStatusFilter(SlaStatus.BREACHED);
+      const [results, breached] = await Promise.all([
+        PengadaanModel.aggregate<{ _id: string | null; count: number; selesai: number; batal: number; hps: DecimalSum }>([
+          { $match: params },
+          {
+            $group: {
+              _id: '$picTimPpsm',
+              count: { $sum: 1 },
+              selesai: { $sum: { $cond: [{ $eq: ['$status', PengadaanStatus.COMPLETED] }, 1, 0] } },
+              batal: {
+                $sum: {
+                  $cond: [{ $in: ['$status', [PengadaanStatus.REJECTED, PengadaanStatus.CANCELLED]] }, 1, 0],
+                },
+              },
+              hps: { $sum: '$nilaiHpsEqRupiah' },
+            },
+          },
+          { $sort: { count: -1, _id: 1 } },
+        ]),
+        PengadaanModel.aggregate<{ _id: string | null; count: number }>([
+          { $match: { ...params, ...breachedFilter } },
+          { $group: { _id: '$picTimPpsm', count: { $sum: 1 } } },
+        ]),
+      ]);
+
+      const breachedByPic = new Map(breached.map((item) => [item._id, item.count]));
+      const rows = results.map((item) => ({
+        picTimPpsm: item._id || NOT_FILLED,
+        count: item.count,
+        berjalan: item.count - item.selesai - item.batal,
+        selesai: item.selesai,
+        batal: item.batal,
+        melewatiSla: breachedByPic.get(item._id) ?? 0,
+        hps: parseAmount(item.hps) ?? 0,
+      }));
+      return { rows, totals: sumRows(rows, this.columns) };
+    },
+  },
+  {
+    id: 'paket-terlambat',
+    title: 'Paket Terlambat',
+    description: 'Paket berjalan yang telah melewati jatuh tempo SLA, paling lama terlambat di atas',
+    parameters: [PIC, PENGGUNA, METODE],
+    columns: [
+      { key: 'id', label: 'ID Pengadaan' },
+      { key: 'namaPaket', label: 'Nama Paket' },
+      { key: 'metodePengadaan', label: 'Metode Pengadaan' },
+      { key: 'picTimPpsm', label: 'PIC Tim PPSM' },
+      { key: 'penggunaBarangJasa', label: 'Pengguna' },
+      { key: 'jatuhTempo', label: 'Jatuh Tempo', type: 'date' },
+      { key: 'hariKerja', label: 'Target (Hari Kerja)', type: 'number' },
+      { key: 'terlambat', label: 'Terlambat (Hari Kerja)', type: 'number' },
+    ],
+    async run(params) {
+      const overdueFilter = await slaService.getOverdueFilter();
+      const packages = await PengadaanModel.find({ ...params, ...overdueFilter })
+        .select('id namaPaket nama metodePengadaan picTimPpsm penggunaBarangJasa slaTracking')
+        .sort({ 'slaTracking.jatuhTempo': 1 })
+        .lean<Record<string, unknown>[]>();
+      await slaService.withSlaStatus(packages);
+
+      const rows = packages.map((item) => {
+        const sla = item['slaStatus'] as SlaSummary | null;
+        return {
+          id: String(item['id'] ?? ''),
+          namaPaket: String(item['namaPaket'] || item['nama'] || ''),
+          metodePengadaan: (item['metodePengadaan'] as string | undefined) ?? null,
+          picTimPpsm: (item['picTimPpsm'] as string | undefined) ?? null,
+          penggunaBarangJasa: (item['penggunaBarangJasa'] as string | undefined) ?? null,
+          jatuhTempo: sla ? (parseDateOnly(sla.jatuhTempo) ?? null) : null,
+          hariKerja: sla?.hariKerja ?? null,
+          terlambat: sla ? Math.max(0, -sla.sisaHari) : null,
+        };
+      });
+      return { rows, totals: null };
+    },
+  },
+];
+
+/**
+ * Parameters as "Label: value" pairs for report headers; "Semua data" without any
+ */
+export const describeReportParams = (result: ReportResult): string => {
+  const report = REPORTS.find((item) => item.id === result.id);
+  const parts = Object.entries(result.params).map(([key, value]) => {
+    const label = report?.parameters.find((parameter) => parameter.key === key)?.label ?? key;
+    return `${label}: ${value}`;
+  });
+  return parts.length > 0 ? parts.join(', ') : 'Semua data';
+};
+
+/**
+ * CSV with a UTF-8 BOM: header labels, rows, then the totals row
+ */
+export const renderReportCsv = (result: ReportResult): string => {
+  const lines = [toCsvRow(result.columns.map((column) => column.label))];
+  for (const row of [...result.rows, ...(result.totals ? [result.totals] : [])]) {
+    lines.push(toCsvRow(result.columns.map((column) => toCsvCell(row[column.key] ?? null))));
+  }
+  return CSV_BOM + lines.join('');
+};
+
+/**
+ * XLSX workbook: title and parameters above a typed table with a bold totals row
+ */
+export const renderReportXlsx = async (result: ReportResult): Promise<Buffer> => {
+  const workbook = new ExcelJS.Workbook();
+  workbook.creator = 'Procure Flow';
+  workbook.created = result.generatedAt;
+
+  const sheet = workbook.addWorksheet('Laporan', { views: [{ state: 'frozen', xSplit: 0, ySplit: 4 }] });
+  sheet.columns = result.columns.map((column) => {
+    const numFmt = column.type ? XLSX_FORMATS[column.type] : undefined;
+    return {
+      key: column.key,
+      width: Math.min(Math.max(column.label.length + 2, 12), 40),
+      ...(numFmt ? { style: { numFmt } } : {}),
+    };
+  });
+
+  sheet.getCell(1, 1).value = result.title;
+  sheet.getCell(1, 1).font = { bold: true, size: 14 };
+  sheet.getCell(2, 1).value = `${describeReportParams(result)} · Dicetak ${formatTanggal(result.generatedAt)}`;
+
+  const header = sheet.getRow(4);
+  header.values = result.columns.map((column) => column.label);
+  header.font = { bold: true };
+  header.alignment = { vertical: 'middle', wrapText: true };
+
+  for (const row of result.rows) {
+    sheet.addRow(result.columns.map((column) => row[column.key] ?? null));
+  }
+  if (result.totals) {
+    const totals = result.totals;
+    sheet.addRow(result.columns.map((column) => totals[column.key] ?? null)).font = { bold: true };
+  }
+
+  const buffer = await workbook.xlsx.writeBuffer();
+  return Buffer.from(buffer as ArrayBuffer);
+};
+
+/**
+ * A4 landscape PDF: title, parameters, and the table repeated with its header on every page
+ */
+export const renderReportPdf = (result: ReportResult): Buffer => {
+  const doc = new PdfDocument(PAGE_SIZES.A4_LANDSCAPE, result.title);
+  const margin = 40;
+  const fontSize = 8;
+  const rowHeight = 16;
+  const tableWidth = doc.width - margin * 2;
+
+  // Text columns get twice the room of numeric ones
+  const weights = result.columns.map((column) => (!column.type || column.type === 'text' ? 2 : 1));
+  const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
+  const widths = weights.map((weight) => (tableWidth * weight) / totalWeight);
+  const lefts = widths.map((_, index) => margin + widths.slice(0, index).reduce((sum, width) => sum + width, 0));
+
+  const drawRow = (cells: string[], y: number, bold: boolean): void => {
+    result.columns.forEach((column, index) => {
+      const width = (widths[index] ?? 0) - 8;
+      const numeric = column.type !== undefined && column.type !== 'text' && column.type !== 'date';
+      doc.text(truncateText(cells[index] ?? '', width, fontSize, bold), (lefts[index] ?? margin) + 4, y + 4, {
+        size: fontSize,
+        bold,
+        ...(numeric ? { align: 'right' as const, width } : {}),
+      });
+    });
+  };
+
+  const drawHeader = (y: number): number => {
+    doc.fillRect(margin, y, tableWidth, rowHeight, 0.88);
+    drawRow(result.columns.map((column) => column.label), y, true);
+    return y + rowHeight;
+  };
+
+  const drawFooter = (): void => {
+    const footer = `${result.title} · Dicetak ${formatTanggal(result.generatedAt)} · Halaman ${doc.pageCount}`;
+    doc.text(footer, doc.width - margin - measureText(footer, 7), doc.height - margin + 10, { size: 7 });
+  };
+
+  doc.text(result.title, margin, margin, { size: 14, bold: true });
+  doc.text(describeReportParams(result), margin, margin + 20, { size: 9 });
+  let y = drawHeader(margin + 40);
+
+  const bodyRows = result.rows.map((row) => ({ row, bold: false }));
+  if (result.totals) {
+    bodyRows.push({ row: result.totals, bold: true });
+  }
+  if (bodyRows.length === 0) {
+    doc.text('Tidak ada data.', margin + 4, y + 4, { size: fontSize });
+  }
+
+  for (const { row, bold } of bodyRows) {
+    if (y + rowHeight > doc.height - margin) {
+      drawFooter();
+      doc.addPage();
+      y = drawHeader(margin);
+    }
+    drawRow(result.columns.map((column) => formatReportCell(row[column.key] ?? null, column.type)), y, bold);
+    doc.line(margin, y + rowHeight, margin + tableWidth, y + rowHeight, 0.25);
+    y += rowHeight;
+  }
+  drawFooter();
+
+  return doc.toBuffer();
+};
+
+class ReportService {
+  /**
+   * Every report with its parameters and columns
+   */
+  listReports(): ReportDefinition[] {
+    return REPORTS.map(({ id, title, description, parameters, columns }) => ({
+      id,
+      title,
+      description,
+      parameters,
+      columns,
+    }));
+  }
+
+  /**
+   * Run a report; parameters it does not take are ignored and empty ones dropped
+   */
+  async runReport(id: string, rawParams: Record<string, unknown> = {}): Promise<ReportResult> {
+    const report = REPORTS.find((item) => item.id === id);
+    if (!report) {
+      throw new NotFoundError(`Report ${id}`);
+    }
+
+    const params: ReportParams = {};
+    for (const parameter of report.parameters) {
+      const value = String(rawParams[parameter.key] ?? '').trim();
+      if (!value) {
+        continue;
+      }
+      if (parameter.type === 'year' && !/^\d{4}$/.test(value)) {
+        throw new ValidationError(`${parameter.label} must be a four-digit year`, parameter.key, value);
+      }
+      params[parameter.key] = value;
+    }
+
+    try {
+      const { rows, totals } = await report.run(params);
+      logger.info('Report generated', { reportId: id, params, rows: rows.length });
+      return {
+        id: report.id,
+        title: report.title,
+        params,
+        generatedAt: new Date(),
+        columns: report.columns,
+        rows,
+        totals,
+      };
+    } catch (error) {
+      logger.error('Error generating report:', error);
+      throw new AppError('Failed to generate report', 500);
+    }
+  }
+
+  /**
+   * Render a report run as a CSV, XLSX or PDF file
+   */
+  async render(result: ReportResult, format: Exclude<ReportFormat, ReportFormat.JSON>): Promise<RenderedReport> {
+    const filename = `${result.id}_${formatDateOnly(result.generatedAt)}`;
+    switch (format) {
+      case ReportFormat.CSV:
+        return {
+          buffer: Buffer.from(renderReportCsv(result), 'utf8'),
+          contentType: 'text/csv; charset=utf-8',
+          filename: `${filename}.csv`,
+        };
+      case ReportFormat.XLSX:
+        return {
+          buffer: await renderReportXlsx(result),
+          contentType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+          filename: `${filename}.xlsx`,
+        };
+      case ReportFormat.PDF:
+        return {
+          buffer: renderReportPdf(result),
+          contentType: 'application/pdf',
+          filename: `${filename}.pdf`,
+        };
+    }
+  }
+}
+
+export default new ReportService();
@@ -0,0 +1,282 @@
+import mongoose from 'mongoose';
+import ReportScheduleModel, {
+  IReportScheduleDocument,
+  ScheduleFormat,
+  ScheduleRunStatus,
+} from '../models/ReportSchedule';
+import { RenderedReport, ReportParams, ReportResult } from '../types/report';
+import { config } from '../config/environment';
+import reportService, { describeReportParams } from './reportService';
+import mailService from './mailService';
+import { nextCronRun, parseCron } from '../utils/cron';
+import { formatTanggal } from '../utils/format';
+import { MailMessage } from '../utils/mail';
+import { logger } from '../utils/logger';
+import { AppError, NotFoundError, ValidationError } from '../utils/errors';
+
+export interface ReportScheduleInput {
+  nama: string;
+  reportId: string;
+  params?: ReportParams | undefined;
+  format: ScheduleFormat;
+  cron: string;
+  recipients: string[];
+  aktif?: boolean | undefined;
+}
+
+// How often the scheduler looks for due schedules
+const TICK_MS = 60 * 1000;
+
+/**
+ * Next run of a cron expression after a moment, at the configured UTC offset.
+ * Throws a ValidationError for an invalid expression.
+ */
+export const computeNextRun = (
+  cron: string,
+  after: Date,
+  utcOffsetMinutes: number = config.reportScheduleUtcOffsetMinutes
+): Date | null => {
+  try {
+    return nextCronRun(parseCron(cron), after, utcOffsetMinutes);
+  } catch (error) {
+    throw new ValidationError(error instanceof Error ? error.message : 'Invalid cron expression', 'cron', cron);
+  }
+};
+
+/**
+ * Mail carrying a rendered report run as attachment
+ */
+export const buildReportMail = (
+  nama: string,
+  recipients: string[],
+  result: ReportResult,
+  file: RenderedReport
+): Omit<MailMessage, 'from'> => ({
+  to: recipients,
+  subject: `${nama}: ${result.title} (${formatTanggal(result.generatedAt)})`,
+  text: [
+    `Terlampir ${result.title} per ${formatTanggal(result.generatedAt)}.`,
+    '',
+    `Parameter: ${describeReportParams(result)}`,
+    `Jumlah baris: ${result.rows.length}`,
+    '',
+    `Email ini dikirim otomatis oleh jadwal laporan "${nama}".`,
+  ].join('\n'),
+  attachments: [{ filename: file.filename, contentType: file.contentType, content: file.buffer }],
+});
+
+class ScheduleService {
+  private timer: NodeJS.Timeout | null = null;
+  private ticking = false;
+
+  /**
+   * Report schedules by name
+   */
+  async listSchedules(): Promise<object[]> {
+    try {
+      const schedules = await ReportScheduleModel.find({}).sort({ nama: 1 });
+      return schedules.map((schedule) => schedule.toResponse());
+    } catch (error) {
+      logger.error('Error listing report schedules:', error);
+      throw new AppError('Failed to retrieve report schedules', 500);
+    }
+  }
+
+  async createSchedule(data: ReportScheduleInput, userId: string): Promise<object> {
+    try {
+      const aktif = data.aktif ?? true;
+      const schedule = await ReportScheduleModel.create({
+        ...data,
+        params: this.keepReportParams(data.reportId, data.params ?? {}),
+        aktif,
+        nextRunAt: aktif ? computeNextRun(data.cron, new Date()) : null,
+        createdBy: userId,
+      });
+
+      logger.info('Report schedule created', { id: schedule.id, reportId: schedule.reportId, userId });
+      return schedule.toResponse();
+    } catch (error) {
+      throw this.toServiceError(error, 'Failed to create report schedule');
+    }
+  }
+
+  /**
+   * Update a schedule; the next run is recomputed from now
+   */
+  async updateSchedule(
+    id: string,
+    data: { [K in keyof ReportScheduleInput]?: ReportScheduleInput[K] | undefined },
+    userId: string
+  ): Promise<object> {
+    try {
+      const schedule = await this.findSchedule(id);
+      const reportId = data.reportId ?? schedule.reportId;
+      const params = data.params ?? (data.reportId !== undefined ? {} : schedule.params ?? {});
+      const cron = data.cron ?? schedule.cron;
+      const aktif = data.aktif ?? schedule.aktif;
+
+      schedule.set({
+        ...data,
+        params: this.keepReportParams(reportId, params),
+        nextRunAt: aktif ? computeNextRun(cron, new Date()) : null,
+        updatedBy: userId,
+      });
+      await schedule.save();
+
+      logger.info('Report schedule updated', { id, userId });
+      return schedule.toResponse();
+    } catch (error) {
+      throw this.toServiceError(error, 'Failed to update report schedule');
+    }
+  }
+
+  async deleteSchedule(id: string, userId: string): Promise<void> {
+    try {
+      const schedule = await this.findSchedule(id);
+      await schedule.deleteOne();
+      logger.info('Report schedule deleted', { id, userId });
+    } catch (error) {
+      throw this.toServiceError(error, 'Failed to delete report schedule');
+    }
+  }
+
+  /**
+   * Deliver a schedule now, outside its cron times; the next scheduled run is unchanged
+   */
+  async runSchedule(id: string): Promise<object> {
+    const schedule = await this.findSchedule(id);
+    const error = await this.deliver(schedule);
+    if (error) {
+      throw error;
+    }
+    return schedule.toResponse();
+  }
+
+  /**
+   * Deliver every active schedule that has come due and move it to its next run.
+   * Runs missed while the server was down are delivered once. Returns how many ran.
+   */
+  async runDue(now: Date = new Date()): Promise<number> {
+    const due = await ReportScheduleModel.find({ aktif: true, nextRunAt: { $ne: null, $lte: now } });
+    let ran = 0;
+    for (const schedule of due) {
+      // Claim the run so another instance polling at the same time skips it
+      const claimed = await ReportScheduleModel.findOneAndUpdate(
+        { _id: schedule._id, nextRunAt: schedule.nextRunAt },
+        { $set: { nextRunAt: this.nextRunOrNull(schedule, now) } },
+        { new: true }
+      );
+      if (claimed) {
+        await this.deliver(claimed);
+        ran += 1;
+      }
+    }
+    return ran;
+  }
+
+  /**
+   * Check for due schedules every minute until stop()
+   */
+  start(): void {
+    if (this.timer) {
+      return;
+    }
+    this.timer = setInterval(() => void this.tick(), TICK_MS);
+    this.timer.unref();
+    void this.tick();
+    logger.info('Report scheduler started', { utcOffsetMinutes: config.reportScheduleUtcOffsetMinutes });
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private async tick(): Promise<void> {
+    // A slow delivery must not overlap the next tick
+    if (this.ticking) {
+      return;
+    }
+    this.ticking = true;
+    try {
+      await this.runDue();
+    } catch (error) {
+      logger.error('Error running due report schedules:', error);
+    } finally {
+      this.ticking = false;
+    }
+  }
+
+  /**
+   * Run, render and mail a schedule's report, recording the outcome on the schedule.
+   * Returns the error of a failed delivery instead of throwing it.
+   */
+  private async deliver(schedule: IReportScheduleDocument): Promise<AppError | null> {
+    let failure: AppError | null = null;
+    try {
+      const result = await reportService.runReport(schedule.reportId, schedule.params ?? {});
+      const file = await reportService.render(result, schedule.format);
+      await mailService.send(buildReportMail(schedule.nama, schedule.recipients, result, file));
+      logger.info('Scheduled report delivered', { id: schedule.id, reportId: schedule.reportId });
+    } catch (error) {
+      failure = this.toServiceError(error, 'Failed to deliver scheduled report');
+      logger.error('Scheduled report delivery failed', { id: schedule.id, error: failure.message });
+    }
+
+    schedule.set({
+      lastRunAt: new Date(),
+      lastStatus: failure ? ScheduleRunStatus.FAILED : ScheduleRunStatus.SUCCESS,
+      lastError: failure ? failure.message : null,
+    });
+    await schedule.save();
+    return failure;
+  }
+
+  // A stored expression that no longer parses stops the schedule instead of failing every tick
+  private nextRunOrNull(schedule: IReportScheduleDocument, after: Date): Date | null {
+    try {
+      return computeNextRun(schedule.cron, after);
+    } catch {
+      return null;
+    }
+  }
+
+  // Parameters the report takes; the rest would be ignored when it runs
+  private keepReportParams(reportId: string, params: ReportParams): ReportParams {
+    const report = reportService.listReports().find((item) => item.id === reportId);
+    if (!report) {
+      throw new ValidationError(`Unknown report ${reportId}`, 'reportId', reportId);
+    }
+    const kept: ReportParams = {};
+    for (const parameter of report.parameters) {
+      const value = params[parameter.key]?.trim();
+      if (value) {
+        kept[parameter.key] = value;
+      }
+    }
+    return kept;
+  }
+
+  private async findSchedule(id: string): Promise<IReportScheduleDocument> {
+    const schedule = mongoose.isValidObjectId(id) ? await ReportScheduleModel.findById(id) : null;
+    if (!schedule) {
+      throw new NotFoundError('Report schedule');
+    }
+    return schedule;
+  }
+
+  private toServiceError(error: unknown, message: string): AppError {
+    if (error instanceof AppError) {
+      return error;
+    }
+    if (error instanceof mongoose.Error.ValidationError) {
+      return new AppError('Validation failed', 400, error.message);
+    }
+    logger.error(`${message}:`, error);
+    return new AppError(message, 500);
+  }
+}
+
+export default new ScheduleService();
@@ -0,0 +1,405 @@
+import mongoose from 'mongoose';
+import PengadaanModel from '../models/Pengadaan';
+import SlaTargetModel, { ISlaTarget, ISlaTargetDocument, SLA_DATE_FIELDS } from '../models/SlaTarget';
+import { SlaComplianceYear, SlaStatus, SlaSummary, SlaTracking } from '../types/pengadaan';
+import { config } from '../config/environment';
+import { formatDateOnly, parseDateOnly } from '../utils/date';
+import { logger } from '../utils/logger';
+import { AppError, ConflictError, NotFoundError } from '../utils/errors';
+import { addWorkingDays, countWorkingDays, isWorkingDay } from '../utils/workingDays';
+import calendarService from './calendarService';
+
+export type SlaTargetRule = Pick<ISlaTarget, 'metodePengadaan' | 'jenisPengadaan' | 'hariKerja' | 'dari' | 'sampai'> & {
+  _id: mongoose.Types.ObjectId;
+};
+
+export interface SlaTargetInput {
+  metodePengadaan: string;
+  jenisPengadaan?: string | null | undefined;
+  hariKerja: number;
+  dari: string;
+  sampai: string;
+  keterangan?: string | undefined;
+}
+
+/**
+ * Dates bounding the SLA statuses of running packages on a day: a package is breached
+ * when its due date is before `breachedBefore`, and at risk when it is before `atRiskBefore`
+ */
+export interface SlaCutoffs {
+  breachedBefore: Date;
+  atRiskBefore: Date;
+}
+
+// Fields an SLA is computed from
+const SLA_INPUT_FIELDS = ['sla', 'metodePengadaan', 'jenisPengadaan', ...SLA_DATE_FIELDS];
+
+const normalizeKey = (value: unknown): string => String(value ?? '').trim().toLowerCase();
+
+/**
+ * Target for a method and jenis pengadaan: the one naming both, else the one for the
+ * method alone. Matching ignores case and surrounding spaces.
+ */
+export const matchSlaTarget = <T extends SlaTargetRule>(
+  targets: readonly T[],
+  metodePengadaan: unknown,
+  jenisPengadaan: unknown
+): T | undefined => {
+  const metode = normalizeKey(metodePengadaan);
+  const jenis = normalizeKey(jenisPengadaan);
+  const forMethod = targets.filter((target) => normalizeKey(target.metodePengadaan) === metode);
+  return (
+    forMethod.find((target) => target.jenisPengadaan && normalizeKey(target.jenisPengadaan) === jenis) ??
+    forMethod.find((target) => !target.jenisPengadaan)
+  );
+};
+
+/**
+ * SLA tracking of a package: its target and the due date in working days from the start date.
+ * Null for Non SLA packages, methods without a target and packages not started yet.
+ */
+export const computeSlaTracking = (
+  source: Record<string, unknown>,
+  targets: readonly SlaTargetRule[],
+  holidays: ReadonlySet<string>
+): SlaTracking | null => {
+  if (normalizeKey(source['sla']) === 'non sla') {
+    return null;
+  }
+  const target = matchSlaTarget(targets, source['metodePengadaan'], source['jenisPengadaan']);
+  const mulai = target ? parseDateOnly(source[target.dari]) : undefined;
+  if (!target || !mulai) {
+    return null;
+  }
+
+  const selesai = parseDateOnly(source[target.sampai]) ?? null;
+  return {
+    targetId: target._id,
+    hariKerja: target.hariKerja,
+    dari: target.dari,
+    sampai: target.sampai,
+    mulai,
+    jatuhTempo: addWorkingDays(mulai, target.hariKerja, holidays),
+    selesai,
+    terlambat: selesai ? countWorkingDays(mulai, selesai, holidays) > target.hariKerja : null,
+  };
+};
+
+/**
+ * Status, elapsed and remaining working days of a tracked package on `today`.
+ * A running package is at risk once `atRiskDays` or fewer remain.
+ */
+export const describeSla = (
+  tracking: SlaTracking,
+  today: Date,
+  holidays: ReadonlySet<string>,
+  atRiskDays: number
+): SlaSummary => {
+  const summary = { hariKerja: tracking.hariKerja, jatuhTempo: formatDateOnly(tracking.jatuhTempo) };
+
+  if (tracking.selesai) {
+    const hariBerjalan = countWorkingDays(tracking.mulai, tracking.selesai, holidays);
+    return {
+      ...summary,
+      status: tracking.terlambat ? SlaStatus.BREACHED : SlaStatus.MET,
+      hariBerjalan,
+      sisaHari: tracking.hariKerja - hariBerjalan,
+    };
+  }
+
+  const sisaHari = countWorkingDays(today, tracking.jatuhTempo, holidays);
+  let status = SlaStatus.ON_TRACK;
+  if (sisaHari < 0) {
+    status = SlaStatus.BREACHED;
+  } else if (sisaHari <= atRiskDays) {
+    status = SlaStatus.AT_RISK;
+  }
+  return {
+    ...summary,
+    status,
+    hariBerjalan: Math.max(0, countWorkingDays(tracking.mulai, today, holidays)),
+    sisaHari,
+  };
+};
+
+/**
+ * Due-date bounds matching describeSla for running packages on `today`
+ */
+export const getSlaCutoffs = (today: Date, holidays: ReadonlySet<string>, atRiskDays: number): SlaCutoffs => {
+  const day = parseDateOnly(today) as Date;
+  return {
+    // Overdue once a working day has passed after the due date
+    breachedBefore: isWorkingDay(day, holidays) ? day : addWorkingDays(day, -1, holidays),
+    atRiskBefore: addWorkingDays(day, atRiskDays + 1, holidays),
+  };
+};
+
+/**
+ * Mongo filter for the running packages past their due date
+ */
+export const buildOverdueFilter = (cutoffs: SlaCutoffs): Record<string, unknown> => ({
+  'slaTracking.selesai': null,
+  'slaTracking.jatuhTempo': { $lt: cutoffs.breachedBefore },
+});
+
+/**
+ * Mongo filter for the packages in an SLA status
+ */
+export const buildSlaStatusFilter = (status: SlaStatus, cutoffs: SlaCutoffs): Record<string, unknown> => {
+  const running = { 'slaTracking.jatuhTempo': { $ne: null }, 'slaTracking.selesai': null };
+
+  switch (status) {
+    case SlaStatus.MET:
+      return { 'slaTracking.terlambat': false };
+    case SlaStatus.BREACHED:
+      return { $or: [{ 'slaTracking.terlambat': true }, buildOverdueFilter(cutoffs)] };
+    case SlaStatus.AT_RISK:
+      return {
+        ...running,
+        'slaTracking.jatuhTempo': { $gte: cutoffs.breachedBefore, $lt: cutoffs.atRiskBefore },
+      };
+    case SlaStatus.ON_TRACK:
+      return { ...running, 'slaTracking.jatuhTempo': { $gte: cutoffs.atRiskBefore } };
+  }
+};
+
+class SlaService {
+  // Targets, loaded on first use and dropped on every change
+  private targets: Promise<SlaTargetRule[]> | null = null;
+
+  /**
+   * Every SLA target, for matching packages against
+   */
+  getTargets(): Promise<SlaTargetRule[]> {
+    if (!this.targets) {
+      this.targets = SlaTargetModel.find({}, { metodePengadaan: 1, jenisPengadaan: 1, hariKerja: 1, dari: 1, sampai: 1 })
+        .lean<SlaTargetRule[]>()
+        .exec();
+      // A failed load is retried on the next call
+      this.targets.catch(() => {
+        this.targets = null;
+      });
+    }
+    return this.targets;
+  }
+
+  /**
+   * SLA tracking of a package from its current fields
+   */
+  async trackPackage(source: Record<string, unknown>): Promise<SlaTracking | null> {
+    const [targets, holidays] = await Promise.all([this.getTargets(), calendarService.getHolidays()]);
+    return computeSlaTracking(source, targets, holidays);
+  }
+
+  /**
+   * Add the SLA status as of today to serialized packages, in place
+   */
+  async withSlaStatus<T extends Record<string, unknown>>(rows: T[]): Promise<T[]> {
+    const holidays = await calendarService.getHolidays();
+    const today = parseDateOnly(new Date()) as Date;
+    for (const row of rows) {
+      const tracking = row['slaTracking'] as SlaTracking | null | undefined;
+      (row as Record<string, unknown>)['slaStatus'] = tracking
+        ? describeSla(tracking, today, holidays, config.slaAtRiskDays)
+        : null;
+    }
+    return rows;
+  }
+
+  /**
+   * Filter for the packages in an SLA status as of today
+   */
+  async getStatusFilter(status: SlaStatus): Promise<Record<string, unknown>> {
+    const holidays = await calendarService.getHolidays();
+    return buildSlaStatusFilter(status, getSlaCutoffs(new Date(), holidays, config.slaAtRiskDays));
+  }
+
+  /**
+   * Filter for the running packages past their due date as of today
+   */
+  async getOverdueFilter(): Promise<Record<string, unknown>> {
+    const holidays = await calendarService.getHolidays();
+    return buildOverdueFilter(getSlaCutoffs(new Date(), holidays, config.slaAtRiskDays));
+  }
+
+  /**
+   * Finished SLA packages per year and how many met their target, newest year first.
+   * The year is tahunSla when filled in, else the year the package finished; match narrows the packages.
+   */
+  async getCompliance(match: Record<string, unknown> = {}): Promise<SlaComplianceYear[]> {
+    const results = await PengadaanModel.aggregate<{ _id: string; total: number; met: number }>([
+      { $match: { ...match, deletedAt: null, 'slaTracking.terlambat': { $in: [true, false] } } },
+      {
+        $group: {
+          _id: {
+            $cond: [
+              { $gt: [{ $strLenCP: { $trim: { input: { $ifNull: ['$tahunSla', ''] } } } }, 0] },
+              { $trim: { input: '$tahunSla' } },
+              { $toString: { $year: '$slaTracking.selesai' } },
+            ],
+          },
+          total: { $sum: 1 },
+          met: { $sum: { $cond: ['$slaTracking.terlambat', 0, 1] } },
+        },
+      },
+      { $sort: { _id: -1 } },
+    ]);
+
+    return results.map((item) => ({
+      tahun: item._id,
+      total: item.total,
+      met: item.met,
+      breached: item.total - item.met,
+      rate: Math.round((item.met / item.total) * 1000) / 10,
+    }));
+  }
+
+  /**
+   * SLA targets by method and jenis pengadaan
+   */
+  async listTargets(): Promise<object[]> {
+    try {
+      const targets = await SlaTargetModel.find({}).sort({ metodePengadaan: 1, jenisPengadaan: 1 });
+      return targets.map((target) => target.toResponse());
+    } catch (error) {
+      logger.error('Error listing SLA targets:', error);
+      throw new AppError('Failed to retrieve SLA targets', 500);
+    }
+  }
+
+  /**
+   * Set the SLA of a method (and jenis pengadaan). Packages still running, and those
+   * never measured, are re-tracked against it.
+   */
+  async createTarget(data: SlaTargetInput, userId: string): Promise<object> {
+    try {
+      await this.assertUnique(data.metodePengadaan, data.jenisPengadaan);
+
+      const target = await SlaTargetModel.create({
+        ...data,
+        jenisPengadaan: data.jenisPengadaan || null,
+        createdBy: userId,
+      });
+      this.targets = null;
+      await this.recomputeTracking();
+
+      logger.info('SLA target created', { id: target.id, metodePengadaan: target.metodePengadaan, userId });
+      return target.toResponse();
+    } catch (error) {
+      throw this.toServiceError(error, 'Failed to create SLA target');
+    }
+  }
+
+  /**
+   * Correct a target. Finished packages keep the target they were measured against.
+   */
+  async updateTarget(
+    id: string,
+    data: { [K in keyof SlaTargetInput]?: SlaTargetInput[K] | undefined },
+    userId: string
+  ): Promise<object> {
+    try {
+      const target = await this.findTarget(id);
+      const metodePengadaan = data.metodePengadaan ?? target.metodePengadaan;
+      const jenisPengadaan = data.jenisPengadaan !== undefined ? data.jenisPengadaan || null : target.jenisPengadaan;
+      await this.assertUnique(metodePengadaan, jenisPengadaan, target.id);
+
+      target.set({ ...data, jenisPengadaan, updatedBy: userId });
+      await target.save();
+      this.targets = null;
+      await this.recomputeTracking();
+
+      logger.info('SLA target updated', { id, userId });
+      return target.toResponse();
+    } catch (error) {
+      throw this.toServiceError(error, 'Failed to update SLA target');
+    }
+  }
+
+  async deleteTarget(id: string, userId: string): Promise<void> {
+    try {
+      const target = await this.findTarget(id);
+      await target.deleteOne();
+      this.targets = null;
+      await this.recomputeTracking();
+      logger.info('SLA target deleted', { id, userId });
+    } catch (error) {
+      throw this.toServiceError(error, 'Failed to delete SLA target');
+    }
+  }
+
+  /**
+   * Re-track packages that are still running or were never measured, against the current
+   * targets and holiday calendar. Finished packages keep their result. Returns how many changed.
+   */
+  async recomputeTracking(): Promise<number> {
+    const [targets, holidays] = await Promise.all([this.getTargets(), calendarService.getHolidays()]);
+    let operations: mongoose.mongo.AnyBulkWriteOperation[] = [];
+    let modified = 0;
+
+    const flush = async (): Promise<void> => {
+      if (operations.length > 0) {
+        modified += (await PengadaanModel.collection.bulkWrite(operations, { ordered: false })).modifiedCount;
+        operations = [];
+      }
+    };
+
+    const cursor = PengadaanModel.find({ 'slaTracking.selesai': null })
+      .select([...SLA_INPUT_FIELDS, 'slaTracking'].join(' '))
+      .lean<Record<string, unknown>[]>()
+      .cursor({ batchSize: 500 });
+    for await (const row of cursor) {
+      const tracking = computeSlaTracking(row, targets, holidays);
+      if (JSON.stringify(tracking) !== JSON.stringify(row['slaTracking'] ?? null)) {
+        operations.push({ updateOne: { filter: { _id: row['_id'] as mongoose.Types.ObjectId }, update: { $set: { slaTracking: tracking } } } });
+      }
+      if (operations.length >= 500) {
+        await flush();
+      }
+    }
+    await flush();
+
+    logger.info('SLA tracking recomputed', { modified });
+    return modified;
+  }
+
+  private async assertUnique(
+    metodePengadaan: string,
+    jenisPengadaan: string | null | undefined,
+    exceptId?: string
+  ): Promise<void> {
+    const targets = await SlaTargetModel.find({}, { metodePengadaan: 1, jenisPengadaan: 1 });
+    const clash = targets.find(
+      (target) =>
+        target.id !== exceptId &&
+        normalizeKey(target.metodePengadaan) === normalizeKey(metodePengadaan) &&
+        normalizeKey(target.jenisPengadaan) === normalizeKey(jenisPengadaan)
+    );
+    if (clash) {
+      throw new ConflictError(
+        `An SLA target for ${metodePengadaan}${jenisPengadaan ? ` (${jenisPengadaan})` : ''} already exists`
+      );
+    }
+  }
+
+  private async findTarget(id: string): Promise<ISlaTargetDocument> {
+    const target = mongoose.isValidObjectId(id) ? await SlaTargetModel.findById(id) : null;
+    if (!target) {
+      throw new NotFoundError('SLA target');
+    }
+    return target;
+  }
+
+  private toServiceError(error: unknown, message: string): AppError {
+    if (error instanceof AppError) {
+      return error;
+    }
+    if (error instanceof mongoose.Error.ValidationError) {
+      return new AppError('Validation failed', 400, error.message);
+    }
+    logger.error(`${message}:`, error);
+    return new AppError(message, 500);
+  }
+}
+
+export default new SlaService();
@@ -0,0 +1,596 @@
+import mongoose from 'mongoose';
+import VendorModel, { IVendorDocument, normalizeNpwp, VendorUmkmStatus } from '../models/Vendor';
+import VendorRatingModel, { IVendorRating, VENDOR_RATING_CRITERIA, VendorRatingCriterion } from '../models/VendorRating';
+import PengadaanModel from '../models/Pengadaan';
+import { UserRole } from '../models/User';
+import { PengadaanStatus, TransitionActor } from '../types/pengadaan';
+import blacklistService from './blacklistService';
+import { companyNameSimilarity } from '../utils/fuzzy';
+import { diffFields } from '../utils/diff';
+import { AmountValue, parseAmount } from '../utils/amount';
+import { formatDateOnly, parseDateOnly } from '../utils/date';
+import { daysBetween, getPeriodEnd } from '../utils/period';
+import { logger } from '../utils/logger';
+import {
+  AppError,
+  AuthorizationError,
+  ConflictError,
+  NotFoundError,
+  ValidationError,
+} from '../utils/errors';
+
+export interface VendorListParams {
+  page: number;
+  limit: number;
+  search?: string | undefined;
+  status?: 'active' | 'inactive' | 'blacklisted' | undefined;
+  statusUmkm?: VendorUmkmStatus | undefined;
+}
+
+export interface VendorMatch {
+  vendorId: string;
+  nama: string;
+  npwp?: string | undefined;
+  score: number;
+}
+
+/**
+ * A free-text penyedia name on unlinked pengadaan, with the vendors it probably refers to
+ */
+export interface VendorLinkSuggestion {
+  name: string;
+  pengadaanCount: number;
+  statusPenyedia: string[];
+  suggestions: VendorMatch[];
+}
+
+export interface VendorLink {
+  name: string;
+  vendorId: string;
+}
+
+/**
+ * Best vendor candidates for a free-text name, highest score first
+ */
+export const rankVendorMatches = (
+  name: string,
+  vendors: ReadonlyArray<{ id: string; nama: string; npwp?: string | undefined }>,
+  threshold: number,
+  limit: number
+): VendorMatch[] =>
+  vendors
+    .map((vendor) => ({
+      vendorId: vendor.id,
+      nama: vendor.nama,
+      npwp: vendor.npwp,
+      score: Math.round(companyNameSimilarity(name, vendor.nama) * 100) / 100,
+    }))
+    .filter((match) => match.score >= threshold)
+    .sort((a, b) => b.score - a.score || a.nama.localeCompare(b.nama))
+    .slice(0, limit);
+
+export type VendorRatingScores = Record<VendorRatingCriterion, number> & { comment?: string | undefined };
+
+/**
+ * Average score per criterion and overall; null when nothing was rated
+ */
+export type VendorRatingAverages = Record<VendorRatingCriterion | 'overall', number> | null;
+
+/**
+ * Fields of a won pengadaan the scorecard reads
+ */
+export interface ScorecardPengadaan {
+  _id: unknown;
+  id: string;
+  namaPaket?: string;
+  metodePengadaan?: string;
+  status: string;
+  kontrakNomor?: string;
+  kontrakTanggal?: Date | string | null;
+  bulanSelesai?: string;
+  nilaiKontrakRupiah?: AmountValue;
+  nilaiPenunjukanEqRupiah?: AmountValue;
+}
+
+export interface VendorScorecard {
+  summary: {
+    packageCount: number;
+    ratedCount: number;
+    totalContractValue: number;
+    averageDelayDays: number | null;
+    ratings: VendorRatingAverages;
+  };
+  packages: Array<{
+    id: string;
+    namaPaket: string;
+    metodePengadaan: string;
+    status: string;
+    kontrakNomor: string;
+    kontrakTanggal: string;
+    bulanSelesai: string;
+    contractValue: number;
+    delayDays: number | null;
+    rating: (VendorRatingScores & { average: number }) | null;
+  }>;
+}
+
+// A package can be rated once its contract is running or done
+export const CONTRACT_STAGE_STATUSES: readonly string[] = [PengadaanStatus.IN_PROGRESS, PengadaanStatus.COMPLETED];
+
+const round = (value: number, digits = 2): number => Math.round(value * 10 ** digits) / 10 ** digits;
+
+const averageScores = (ratings: ReadonlyArray<Record<VendorRatingCriterion, number>>): VendorRatingAverages => {
+  if (ratings.length === 0) return null;
+  const averages = { overall: 0 } as Record<VendorRatingCriterion | 'overall', number>;
+  for (const criterion of VENDOR_RATING_CRITERIA) {
+    averages[criterion] = round(ratings.reduce((sum, rating) => sum + rating[criterion], 0) / ratings.length);
+  }
+  averages.overall = round(
+    VENDOR_RATING_CRITERIA.reduce((sum, criterion) => sum + averages[criterion], 0) / VENDOR_RATING_CRITERIA.length
+  );
+  return averages;
+};
+
+/**
+ * Days from contract signing to the end of the completion period (bulanSelesai).
+ * Periods without a year fall in the contract year, or the next one when that
+ * period had already ended at signing.
+ */
+export const getContractDelayDays = (kontrakTanggal?: Date | string | null, bulanSelesai?: string): number | null => {
+  if (!kontrakTanggal || !bulanSelesai) return null;
+  const signed = parseDateOnly(kontrakTanggal);
+  if (!signed) return null;
+
+  let periodEnd = getPeriodEnd(bulanSelesai, signed.getUTCFullYear());
+  if (periodEnd && periodEnd < signed && !/^\d{4}-/.test(bulanSelesai.trim())) {
+    periodEnd = getPeriodEnd(bulanSelesai, signed.getUTCFullYear() + 1);
+  }
+  return periodEnd ? daysBetween(signed, periodEnd) : null;
+};
+
+/**
+ * Aggregate the pengadaan a vendor won and their ratings into a scorecard
+ */
+export const buildVendorScorecard = (
+  pengadaanList: readonly ScorecardPengadaan[],
+  ratings: ReadonlyArray<Pick<IVendorRating, 'pengadaan' | 'timeliness' | 'quality' | 'compliance' | 'comment'>>
+): VendorScorecard => {
+  const ratingByPengadaan = new Map(ratings.map((rating) => [String(rating.pengadaan), rating]));
+
+  const packages = pengadaanList.map((item) => {
+    const rating = ratingByPengadaan.get(String(item._id));
+    const signedOn = parseDateOnly(item.kontrakTanggal);
+    return {
+      id: item.id,
+      namaPaket: item.namaPaket ?? '',
+      metodePengadaan: item.metodePengadaan ?? '',
+      status: item.status,
+      kontrakNomor: item.kontrakNomor ?? '',
+      kontrakTanggal: signedOn ? formatDateOnly(signedOn) : '',
+      bulanSelesai: item.bulanSelesai ?? '',
+      contractValue: parseAmount(item.nilaiKontrakRupiah) ?? parseAmount(item.nilaiPenunjukanEqRupiah) ?? 0,
+      delayDays: getContractDelayDays(item.kontrakTanggal, item.bulanSelesai),
+      rating: rating
+        ? {
+            timeliness: rating.timeliness,
+            quality: rating.quality,
+            compliance: rating.compliance,
+            comment: rating.comment,
+            average: round((rating.timeliness + rating.quality + rating.compliance) / 3),
+          }
+        : null,
+    };
+  });
+
+  const delays = packages.map((item) => item.delayDays).filter((days): days is number => days !== null);
+  const rated = packages.flatMap((item) => (item.rating ? [item.rating] : []));
+
+  return {
+    summary: {
+      packageCount: packages.length,
+      ratedCount: rated.length,
+      totalContractValue: packages.reduce((sum, item) => sum + item.contractValue, 0),
+      averageDelayDays: delays.length > 0 ? round(delays.reduce((sum, days) => sum + days, 0) / delays.length, 1) : null,
+      ratings: averageScores(rated),
+    },
+    packages,
+  };
+};
+
+// Pengadaan still carrying only a free-text vendor name
+const UNLINKED_FILTER = { $or: [{ vendorId: null }, { vendorId: { $exists: false } }] };
+
+// Placeholder names written by the form and import when no vendor was known
+const PLACEHOLDER_NAMES = new Set(['', 'tbd', '-']);
+
+class VendorService {
+  /**
+   * Create a vendor; NPWP must be unique
+   */
+  async createVendor(data: Record<string, unknown>, userId: string): Promise<object> {
+    try {
+      if (typeof data['npwp'] === 'string' && data['npwp']) {
+        await this.assertNpwpAvailable(data['npwp']);
+      }
+
+      const vendor = await VendorModel.create({ ...data, createdBy: userId });
+
+      logger.info('Vendor created', { id: vendor.id, userId });
+      return this.toVendorResponse(vendor, await this.getBlacklistedIds());
+    } catch (error) {
+      throw this.toServiceError(error, 'Failed to create vendor');
+    }
+  }
+
+  /**
+   * List vendors by name, NPWP or status
+   */
+  async listVendors(params: VendorListParams): Promise<{ data: object[]; total: number }> {
+    try {
+      const { page, limit, search, status, statusUmkm } = params;
+      const blacklistedIds = await blacklistService.getBlacklistedVendorIds();
+      const blacklisted = new Set(blacklistedIds.map(String));
+      const filter: Record<string, unknown> = {};
+
+      if (search) {
+        const pattern = search.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+        const npwp = normalizeNpwp(search);
+        filter['$or'] = [
+          { nama: { $regex: pattern, $options: 'i' } },
+          ...(npwp ? [{ npwp: { $regex: `^${npwp}` } }] : []),
+        ];
+      }
+      if (status === 'active') {
+        filter['isActive'] = true;
+        filter['_id'] = { $nin: blacklistedIds };
+      } else if (status === 'inactive') {
+        filter['isActive'] = false;
+      } else if (status === 'blacklisted') {
+        filter['_id'] = { $in: blacklistedIds };
+      }
+      if (statusUmkm) {
+        filter['statusUmkm'] = statusUmkm;
+      }
+
+      const [vendors, total] = await Promise.all([
+        VendorModel.find(filter)
+          .sort({ nama: 1, _id: 1 })
+          .skip((page - 1) * limit)
+          .limit(limit),
+        VendorModel.countDocuments(filter),
+      ]);
+
+      const ratingSummaries = await this.getRatingSummaries(vendors.map((vendor) => vendor._id));
+
+      return {
+        data: vendors.map((vendor) => ({
+          ...this.toVendorResponse(vendor, blacklisted),
+          rating: ratingSummaries.get(String(vendor._id)) ?? null,
+        })),
+        total,
+      };
+    } catch (error) {
+      logger.error('Error listing vendors:', error);
+      throw new AppError('Failed to retrieve vendors', 500);
+    }
+  }
+
+  /**
+   * Get a vendor by ID
+   */
+  async getVendor(id: string): Promise<object> {
+    const [vendor, blacklisted] = await Promise.all([this.findVendor(id), this.getBlacklistedIds()]);
+    return this.toVendorResponse(vendor, blacklisted);
+  }
+
+  /**
+   * Update a vendor. Pengadaan already linked keep the penyedia name they were saved with,
+   * the way the contract was signed.
+   */
+  async updateVendor(id: string, data: Record<string, unknown>): Promise<object> {
+    try {
+      const vendor = await this.findVendor(id);
+
+      if (typeof data['npwp'] === 'string' && data['npwp'] && normalizeNpwp(data['npwp']) !== vendor.npwp) {
+        await this.assertNpwpAvailable(data['npwp']);
+      }
+
+      vendor.set(data);
+      await vendor.save();
+
+      logger.info('Vendor updated', { id, fields: Object.keys(data) });
+      return this.toVendorResponse(vendor, await this.getBlacklistedIds());
+    } catch (error) {
+      throw this.toServiceError(error, 'Failed to update vendor');
+    }
+  }
+
+  /**
+   * Delete a vendor that no pengadaan refers to, including ones in the recycle bin
+   */
+  async deleteVendor(id: string): Promise<void> {
+    try {
+      const vendor = await this.findVendor(id);
+      const linked = await PengadaanModel.collection.countDocuments({ vendorId: vendor._id });
+
+      if (linked > 0) {
+        throw new ConflictError(
+          'Vendor is linked to pengadaan',
+          `${linked} pengadaan refer to this vendor; deactivate it instead`
+        );
+      }
+
+      await vendor.deleteOne();
+      logger.info('Vendor deleted', { id });
+    } catch (error) {
+      throw this.toServiceError(error, 'Failed to delete vendor');
+    }
+  }
+
+  /**
+   * Group unlinked pengadaan by their free-text penyedia name and suggest matching vendors.
+   * Nothing is changed; an admin confirms the links through applyVendorLinks.
+   */
+  async suggestVendorLinks(threshold: number, limit: number): Promise<VendorLinkSuggestion[]> {
+    try {
+      const blacklistedIds = await blacklistService.getBlacklistedVendorIds();
+      const [groups, vendors] = await Promise.all([
+        PengadaanModel.aggregate<{ _id: string | null; count: number; statusPenyedia: string[] }>([
+          { $match: { deletedAt: null, ...UNLINKED_FILTER } },
+          {
+            $group: {
+              _id: { $ifNull: ['$penyediaBarangJasa', '$vendor'] },
+              count: { $sum: 1 },
+              statusPenyedia: { $addToSet: '$statusPenyedia' },
+            },
+          },
+          { $sort: { count: -1, _id: 1 } },
+        ]),
+        VendorModel.find({ _id: { $nin: blacklistedIds } }, 'nama npwp').lean(),
+      ]);
+
+      const candidates = vendors.map((vendor) => ({
+        id: String(vendor._id),
+        nama: vendor.nama,
+        npwp: vendor.npwp,
+      }));
+
+      const suggestions = groups
+        .filter((group) => typeof group._id === 'string' && !PLACEHOLDER_NAMES.has(group._id.trim().toLowerCase()))
+        .map((group) => ({
+          name: group._id as string,
+          pengadaanCount: group.count,
+          statusPenyedia: group.statusPenyedia.filter(Boolean),
+          suggestions: rankVendorMatches(group._id as string, candidates, threshold, limit),
+        }));
+
+      logger.info('Vendor link suggestions computed', { names: suggestions.length, vendors: candidates.length });
+      return suggestions;
+    } catch (error) {
+      logger.error('Error computing vendor link suggestions:', error);
+      throw new AppError('Failed to compute vendor link suggestions', 500);
+    }
+  }
+
+  /**
+   * Link every unlinked pengadaan carrying one of the confirmed names to its vendor.
+   * The penyedia fields take the vendor's name and UMKM status, recorded in each edit history.
+   */
+  async applyVendorLinks(links: VendorLink[], userId: string): Promise<{ name: string; vendorId: string; linked: number }[]> {
+    try {
+      const vendorIds = [...new Set(links.map((link) => link.vendorId))];
+      const [vendors, blacklisted] = await Promise.all([
+        VendorModel.find({ _id: { $in: vendorIds } }),
+        this.getBlacklistedIds(),
+      ]);
+      const vendorById = new Map(vendors.map((vendor) => [String(vendor._id), vendor]));
+
+      for (const link of links) {
+        const vendor = vendorById.get(link.vendorId);
+        if (!vendor) {
+          throw new ValidationError(`Vendor ${link.vendorId} not found`, 'vendorId', link.vendorId);
+        }
+        if (blacklisted.has(link.vendorId)) {
+          throw new ValidationError(`Vendor ${vendor.nama} is blacklisted`, 'vendorId', link.vendorId);
+        }
+      }
+
+      const results: { name: string; vendorId: string; linked: number }[] = [];
+      for (const link of links) {
+        const vendor = vendorById.get(link.vendorId) as IVendorDocument;
+        const pengadaanList = await PengadaanModel.find({
+          $and: [
+            UNLINKED_FILTER,
+            {
+              $or: [
+                { penyediaBarangJasa: link.name },
+                { penyediaBarangJasa: { $in: [null, ''] }, vendor: link.name },
+              ],
+            },
+          ],
+        });
+
+        for (const pengadaan of pengadaanList) {
+          const before = pengadaan.toObject<Record<string, unknown>>();
+          pengadaan.vendorId = vendor._id as mongoose.Types.ObjectId;
+          pengadaan.penyediaBarangJasa = vendor.nama;
+          pengadaan.statusPenyedia = vendor.statusUmkm;
+          const changes = diffFields(before, pengadaan.toObject<Record<string, unknown>>(), [
+            'vendorId',
+            'penyediaBarangJasa',
+            'statusPenyedia',
+          ]);
+          pengadaan.addEditHistory(userId, 'updated', changes);
+          await pengadaan.save({ validateModifiedOnly: true });
+        }
+
+        results.push({ name: link.name, vendorId: link.vendorId, linked: pengadaanList.length });
+      }
+
+      logger.info('Vendor links applied', {
+        userId,
+        links: results.length,
+        linked: results.reduce((sum, result) => sum + result.linked, 0),
+      });
+      return results;
+    } catch (error) {
+      throw this.toServiceError(error, 'Failed to apply vendor links');
+    }
+  }
+
+  /**
+   * Rate the vendor of a pengadaan on timeliness, quality and compliance.
+   * Allowed for admins and the package owner once the contract stage is reached;
+   * rating again replaces the earlier scores.
+   */
+  async ratePengadaanVendor(
+    pengadaanId: string,
+    scores: VendorRatingScores,
+    actor: TransitionActor
+  ): Promise<object> {
+    try {
+      const pengadaan = await PengadaanModel.findByCustomId(pengadaanId);
+      if (!pengadaan) {
+        throw new NotFoundError('Pengadaan');
+      }
+      if (actor.role !== UserRole.ADMIN && String(pengadaan.createdBy) !== actor.id) {
+        throw new AuthorizationError('Only the package owner or an admin can rate its vendor');
+      }
+      if (!pengadaan.vendorId) {
+        throw new ValidationError('Pengadaan is not linked to a vendor', 'vendorId');
+      }
+      if (!CONTRACT_STAGE_STATUSES.includes(pengadaan.status)) {
+        throw new ValidationError(
+          'Vendors can only be rated once the pengadaan reaches contract stage',
+          'status',
+          pengadaan.status
+        );
+      }
+
+      const rating = await VendorRatingModel.findOneAndUpdate(
+        { pengadaan: pengadaan._id },
+        {
+          vendorId: pengadaan.vendorId,
+          pengadaanId: pengadaan.id,
+          timeliness: scores.timeliness,
+          quality: scores.quality,
+          compliance: scores.compliance,
+          comment: scores.comment,
+          ratedBy: actor.id,
+        },
+        { upsert: true, new: true, runValidators: true, setDefaultsOnInsert: true }
+      );
+
+      logger.info('Vendor rated', { pengadaanId, vendorId: String(pengadaan.vendorId), userId: actor.id });
+      return rating.toResponse();
+    } catch (error) {
+      throw this.toServiceError(error, 'Failed to rate vendor');
+    }
+  }
+
+  /**
+   * Rating given for the vendor of a pengadaan, or null when not rated yet
+   */
+  async getPengadaanRating(pengadaanId: string): Promise<object | null> {
+    try {
+      const pengadaan = await PengadaanModel.findByCustomId(pengadaanId);
+      if (!pengadaan) {
+        throw new NotFoundError('Pengadaan');
+      }
+      const rating = await VendorRatingModel.findOne({ pengadaan: pengadaan._id }).populate(
+        'ratedBy',
+        'firstName lastName email username'
+      );
+      return rating ? rating.toResponse() : null;
+    } catch (error) {
+      throw this.toServiceError(error, 'Failed to retrieve vendor rating');
+    }
+  }
+
+  /**
+   * Scorecard of every pengadaan the vendor won: contract value, delays and ratings
+   */
+  async getScorecard(id: string): Promise<VendorScorecard & { vendor: object }> {
+    try {
+      const vendor = await this.findVendor(id);
+      const [pengadaanList, ratings, blacklisted] = await Promise.all([
+        PengadaanModel.find(
+          { vendorId: vendor._id },
+          'id namaPaket metodePengadaan status kontrakNomor kontrakTanggal bulanSelesai nilaiKontrakRupiah nilaiPenunjukanEqRupiah'
+        )
+          .sort({ createdAt: -1 })
+          .lean<ScorecardPengadaan[]>(),
+        VendorRatingModel.find({ vendorId: vendor._id }).lean(),
+        this.getBlacklistedIds(),
+      ]);
+
+      // Ratings of packages that were deleted since do not count
+      const scorecard = buildVendorScorecard(pengadaanList, ratings);
+
+      logger.info('Vendor scorecard computed', { id, packages: scorecard.summary.packageCount });
+      return { vendor: this.toVendorResponse(vendor, blacklisted), ...scorecard };
+    } catch (error) {
+      throw this.toServiceError(error, 'Failed to compute vendor scorecard');
+    }
+  }
+
+  /**
+   * Overall average rating and rating count per vendor
+   */
+  private async getRatingSummaries(
+    vendorIds: unknown[]
+  ): Promise<Map<string, { overall: number; count: number }>> {
+    const rows = await VendorRatingModel.aggregate<{ _id: unknown; overall: number; count: number }>([
+      { $match: { vendorId: { $in: vendorIds } } },
+      {
+        $group: {
+          _id: '$vendorId',
+          overall: { $avg: { $avg: VENDOR_RATING_CRITERIA.map((criterion) => `$${criterion}`) } },
+          count: { $sum: 1 },
+        },
+      },
+    ]);
+    return new Map(rows.map((row) => [String(row._id), { overall: round(row.overall), count: row.count }]));
+  }
+
+  /**
+   * IDs of the vendors blacklisted today, as strings
+   */
+  private async getBlacklistedIds(): Promise<Set<string>> {
+    return new Set((await blacklistService.getBlacklistedVendorIds()).map(String));
+  }
+
+  /**
+   * Vendor response with its blacklist status as of today
+   */
+  private toVendorResponse(vendor: IVendorDocument, blacklisted: ReadonlySet<string>): object {
+    return { ...vendor.toResponse(), isBlacklisted: blacklisted.has(String(vendor._id)) };
+  }
+
+  private async findVendor(id: string): Promise<IVendorDocument> {
+    const vendor = mongoose.isValidObjectId(id) ? await VendorModel.findById(id) : null;
+    if (!vendor) {
+      throw new NotFoundError('Vendor');
+    }
+    return vendor;
+  }
+
+  private async assertNpwpAvailable(npwp: string): Promise<void> {
+    if (await VendorModel.findByNpwp(npwp)) {
+      throw new ConflictError('A vendor with this NPWP already exists');
+    }
+  }
+
+  private toServiceError(error: unknown, message: string): AppError {
+    if (error instanceof AppError) {
+      return error;
+    }
+    if (error instanceof mongoose.Error.ValidationError) {
+      return new AppError('Validation failed', 400, error.message);
+    }
+    logger.error(`${message}:`, error);
+    return new AppError(message, 500);
+  }
+}
+
+export default new VendorService();
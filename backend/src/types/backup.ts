@@ -0,0 +1,18 @@
+/**
+ * Collections a backup archive holds
+ */
+export const BACKUP_COLLECTIONS = [
+  'pengadaan',
+  'users',
+  'vendors',
+  'vendorRatings',
+  'vendorBlacklist',
+  'budgets',
+  'exchangeRates',
+  'holidays',
+  'slaTargets',
+  'documentTemplates',
+  'reportSchedules',
+] as const;
+
+export type BackupCollection = (typeof BACKUP_COLLECTIONS)[number];
@@ -1,7 +1,47 @@
 import { Document, Model, Types } from 'mongoose';
+import { ApproverRole, UserRole } from '../models/User';
+import type { AnalyticsDimension } from '../config/pengadaanFields';
 
 /**
- * Base Pengadaan interface matching the frontend structure
+ * Exchange rate a rupiah equivalent was computed with, kept for audit.
+ * IDR amounts carry rate 1 and no exchangeRateId.
+ */
+export interface AppliedExchangeRate {
+  currency: string;
+  rate: number;
+  rateDate: Date;
+  exchangeRateId?: Types.ObjectId | null;
+}
+
+/**
+ * SLA a package is measured against, kept with the dates it was computed from.
+ * `selesai` and `terlambat` stay null while the package is still running.
+ */
+export interface SlaTracking {
+  targetId: Types.ObjectId;
+  hariKerja: number;
+  dari: string;
+  sampai: string;
+  mulai: Date;
+  jatuhTempo: Date;
+  selesai: Date | null;
+  terlambat: boolean | null;
+}
+
+/**
+ * SLA position of a package as served to clients, counted in working days
+ */
+export interface SlaSummary {
+  status: SlaStatus;
+  hariKerja: number;
+  jatuhTempo: string;
+  hariBerjalan: number;
+  sisaHari: number;
+}
+
+/**
+ * Base Pengadaan interface matching the frontend structure.
+ * Amounts are stored as Decimal128 and dates as dates; responses serve them as text.
  */
 export interface IPengadaan {
   // Legacy fields for backward compatibility
@@ -9,10 +49,10 @@ export interface IPengadaan {
   kategori: string;
   deskripsi: string;
   vendor: string;
-  nilai: string;
+  nilai: Types.Decimal128 | null;
   status: string;
-  tanggal: string;
-  deadline: string;
+  tanggal: Date | null;
+  deadline: Date | null;
   
   // Section 1: DATA UMUM PENGADAAN
   sinergi: string;
@@ -34,47 +74,53 @@ export interface IPengadaan {
   tahunAnggaran: string;
   jenisAnggaran: string;
   jenisKontrak: string;
-  nilaiAnggaranIdr?: string;
-  nilaiAnggaranUsd?: string;
+  nilaiAnggaranIdr?: Types.Decimal128 | null;
+  nilaiAnggaranUsd?: Types.Decimal128 | null;
   nilaiHpsCurrency: string;
-  nilaiHpsAmount: string;
-  nilaiHpsEqRupiah: string;
-  nilaiHpsPortiTahun: string;
+  nilaiHpsAmount: Types.Decimal128 | null;
+  nilaiHpsEqRupiah: Types.Decimal128 | null;
+  nilaiHpsKurs?: AppliedExchangeRate | null;
+  nilaiHpsPortiTahun: Types.Decimal128 | null;
   bulanPermintaan: string;
-  tanggalPermintaan: string;
-  tanggalPermintaanDiterima: string;
-  tanggalRapatPersiapan: string;
-  tanggalRevisiPermintaan?: string;
-  lamaRevisiPermintaan?: string;
+  tanggalPermintaan: Date | null;
+  tanggalPermintaanDiterima: Date | null;
+  tanggalRapatPersiapan: Date | null;
+  tanggalRevisiPermintaan?: Date | null;
+  lamaRevisiPermintaan?: number | null;
   noPurchaseRequisition: string;
-  tanggalPurchaseRequisition: string;
+  tanggalPurchaseRequisition: Date | null;
   jenisMySap: string;
-  tanggalPerintahPengadaan: string;
-  lamaProsesPersiapan: string;
+  tanggalPerintahPengadaan: Date | null;
+  lamaProsesPersiapan?: number | null;
   kategoriRisiko: string;
   keteranganPersiapan?: string;
   picTimPpsm: string;
 
   // Section 3: PROSES PENGADAAN
-  suratPenunjukan: string;
-  lamaProsesPengadaan: string;
+  suratPenunjukan: Date | null;
+  lamaProsesPengadaan?: number | null;
   jangkaWaktuPengerjaan?: string;
   nilaiPenunjukanCurrency: string;
-  nilaiPenunjukanAmount: string;
-  nilaiPenunjukanEqRupiah: string;
+  nilaiPenunjukanAmount: Types.Decimal128 | null;
+  nilaiPenunjukanEqRupiah: Types.Decimal128 | null;
+  nilaiPenunjukanKurs?: AppliedExchangeRate | null;
   statusPengadaan: string;
   bulanSelesai: string;
   keteranganPengadaan?: string;
 
   // Section 4: PROSES KONTRAK
-  costSavingRp?: string;
-  nilaiKontrakRupiah?: string;
-  nilaiKontrakUsd?: string;
-  nilaiKontrakPortiTahun?: string;
+  costSavingRp?: Types.Decimal128 | null;
+  nilaiKontrakRupiah?: Types.Decimal128 | null;
+  nilaiKontrakUsd?: Types.Decimal128 | null;
+  nilaiKontrakPortiTahun?: Types.Decimal128 | null;
+  vendorId?: Types.ObjectId | null;
   penyediaBarangJasa: string;
   statusPenyedia: string;
   kontrakNomor: string;
-  kontrakTanggal: string;
+  kontrakTanggal: Date | null;
+
+  // Computed from the SLA target of the method and type, never taken from the client
+  slaTracking?: SlaTracking | null;
 }
 
 /**
@@ -87,13 +133,17 @@ export interface IPengadaanDocument extends IPengadaan, Document {
   isEditable: boolean;
   editHistory: Array<{
     userId: Types.ObjectId; // ObjectId reference
-    action: 'created' | 'updated' | 'submitted' | 'approved' | 'rejected';
+    action: PengadaanHistoryAction;
     timestamp: Date;
     changes?: Record<string, unknown>;
     reason?: string;
   }>;
   submittedAt?: Date;
   submittedBy?: Types.ObjectId; // ObjectId reference
+  approvalChain: ApprovalStep[];
+  pendingApproverRole?: ApproverRole;
+  deletedAt?: Date | null;
+  deletedBy?: Types.ObjectId; // ObjectId reference
   createdAt: Date;
   updatedAt: Date;
   toResponse(): PengadaanResponse;
@@ -104,14 +154,30 @@ export interface IPengadaanDocument extends IPengadaan, Document {
   rejectForm(userId: string, reason: string): void;
 }
 
+/**
+ * Actions recorded in a pengadaan edit history
+ */
+export type PengadaanHistoryAction =
+  | 'created'
+  | 'updated'
+  | 'submitted'
+  | 'approved'
+  | 'rejected'
+  | 'transitioned'
+  | 'restored'
+  | 'deleted'
+  | 'undeleted'
+  | 'blacklist_override';
+
 /**
  * Pengadaan model interface with static methods
  */
 export interface IPengadaanModel extends Model<IPengadaanDocument> {
+  generateCustomIds(count: number): Promise<string[]>;
   findByCustomId(customId: string): Promise<IPengadaanDocument | null>;
   searchByText(searchTerm: string): Promise<IPengadaanDocument[]>;
   findByUser(userId: string, options?: Record<string, unknown>): Promise<IPengadaanDocument[]>;
-  findSubmitted(options?: Record<string, unknown>): Promise<IPengadaanDocument[]>;
+  findSubmitted(options?: Record<string, unknown>, filter?: Record<string, unknown>): Promise<IPengadaanDocument[]>;
 }
 
 /**
@@ -119,6 +185,24 @@ export interface IPengadaanModel extends Model<IPengadaanDocument> {
  */
 export type CreatePengadaanDTO = Omit<IPengadaan, 'id'>;
 
+/**
+ * Outcome of a bulk create; error indexes refer to the submitted list
+ */
+export interface BulkCreatePengadaanResult {
+  created: PengadaanResponse[];
+  errors: { index: number; message: string }[];
+}
+
+/**
+ * Outcome of purging the recycle bin
+ */
+export interface PurgePengadaanResult {
+  cutoff: Date;
+  purgedCount: number;
+  purgedIds: string[];
+  backupId?: string;
+}
+
 /**
  * Update Pengadaan DTO
  */
@@ -159,27 +243,29 @@ export interface PengadaanResponse {
   nilaiHpsCurrency: string;
   nilaiHpsAmount: string;
   nilaiHpsEqRupiah: string;
+  nilaiHpsKurs?: AppliedExchangeRate | null;
   nilaiHpsPortiTahun: string;
   bulanPermintaan: string;
   tanggalPermintaan: string;
   tanggalPermintaanDiterima: string;
   tanggalRapatPersiapan: string;
   tanggalRevisiPermintaan?: string;
-  lamaRevisiPermintaan?: string;
+  lamaRevisiPermintaan?: number | null;
   noPurchaseRequisition: string;
   tanggalPurchaseRequisition: string;
   jenisMySap: string;
   tanggalPerintahPengadaan: string;
-  lamaProsesPersiapan: string;
+  lamaProsesPersiapan?: number | null;
   kategoriRisiko: string;
   keteranganPersiapan?: string;
   picTimPpsm: string;
   suratPenunjukan: string;
-  lamaProsesPengadaan: string;
+  lamaProsesPengadaan?: number | null;
   jangkaWaktuPengerjaan?: string;
   nilaiPenunjukanCurrency: string;
   nilaiPenunjukanAmount: string;
   nilaiPenunjukanEqRupiah: string;
+  nilaiPenunjukanKurs?: AppliedExchangeRate | null;
   statusPengadaan: string;
   bulanSelesai: string;
   keteranganPengadaan?: string;
@@ -191,6 +277,11 @@ export interface PengadaanResponse {
   statusPenyedia: string;
   kontrakNomor: string;
   kontrakTanggal: string;
+  slaTracking?: SlaTracking | null;
+  slaStatus?: SlaSummary | null;
+  approvalChain?: ApprovalStep[];
+  pendingApproverRole?: ApproverRole;
+  deletedAt?: Date | null;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -209,6 +300,7 @@ export interface PengadaanQueryParams {
   sortOrder?: 'asc' | 'desc';
   dateFrom?: string;
   dateTo?: string;
+  slaStatus?: SlaStatus;
 }
 
 /**
@@ -233,15 +325,115 @@ export interface PengadaanStats {
   total: number;
   byStatus: Record<string, number>;
   byKategori: Record<string, number>;
-  totalNilai: {
-    idr: number;
-    usd: number;
+  // HPS per currency, keyed by the lower-case currency code
+  totalNilai: Record<Lowercase<Currency>, number>;
+  // Rupiah equivalents summed over every package
+  totalRupiah: {
+    hps: number;
+    kontrak: number;
+    costSaving: number;
   };
+  byBulanPermintaan: PengadaanMonthlyStats[];
   recentActivity: {
     created: number;
     updated: number;
     completed: number;
   };
+  slaCompliance: SlaComplianceYear[];
+}
+
+/**
+ * Narrows the statistics and activity feed to a budget year and/or user unit
+ */
+export interface PengadaanStatsFilter {
+  tahunAnggaran?: string | undefined;
+  penggunaBarangJasa?: string | undefined;
+}
+
+/**
+ * Packages requested in a month (bulanPermintaan, YYYY-MM) and their HPS in rupiah
+ */
+export interface PengadaanMonthlyStats {
+  bulan: string;
+  count: number;
+  nilaiHps: number;
+}
+
+/**
+ * Edit history entry of any package, for the activity feed
+ */
+export interface PengadaanActivityEntry {
+  pengadaanId: string;
+  namaPaket: string;
+  action: PengadaanHistoryAction;
+  timestamp: Date;
+  reason?: string;
+  user: {
+    id: string;
+    name: string;
+  };
+}
+
+/**
+ * Quantities the analytics endpoint can total per group; amounts are rupiah equivalents
+ */
+export enum AnalyticsMeasure {
+  COUNT = 'count',
+  HPS = 'hps',
+  KONTRAK = 'kontrak',
+  COST_SAVING = 'costSaving',
+}
+
+/**
+ * Time bucket of the analytics endpoint; quarters are labelled TW I to TW IV
+ */
+export enum AnalyticsBucket {
+  MONTH = 'month',
+  QUARTER = 'quarter',
+  YEAR = 'year',
+}
+
+/**
+ * Analytics request: groups, measures, an optional time bucket over a process date and equality filters
+ */
+export interface AnalyticsQuery {
+  groupBy: AnalyticsDimension[];
+  measures: AnalyticsMeasure[];
+  bucket?: AnalyticsBucket | undefined;
+  // Date the bucket and the from/to range apply to
+  dateField: string;
+  from?: Date | undefined;
+  to?: Date | undefined;
+  filters: Partial<Record<AnalyticsDimension, string>>;
+}
+
+/**
+ * One group: its dimension values, periode when bucketed, and the requested measures
+ */
+export type AnalyticsRow = Record<string, string | number | null>;
+
+/**
+ * Analytics response, rows ordered by periode and then by the first measure, largest first
+ */
+export interface AnalyticsResult {
+  groupBy: AnalyticsDimension[];
+  measures: AnalyticsMeasure[];
+  bucket: AnalyticsBucket | null;
+  dateField: string | null;
+  rows: AnalyticsRow[];
+  totals: Partial<Record<AnalyticsMeasure, number>>;
+}
+
+/**
+ * Finished SLA packages of a year (tahunSla, else the year they finished) and how many met their target
+ */
+export interface SlaComplianceYear {
+  tahun: string;
+  total: number;
+  met: number;
+  breached: number;
+  // Share met, in percent
+  rate: number;
 }
 
 /**
@@ -258,6 +450,81 @@ export enum PengadaanStatus {
   CANCELLED = 'Cancelled',
 }
 
+/**
+ * SLA position of a package. Running packages are On Track, At Risk or Breached;
+ * finished ones Met or Breached.
+ */
+export enum SlaStatus {
+  ON_TRACK = 'On Track',
+  AT_RISK = 'At Risk',
+  BREACHED = 'Breached',
+  MET = 'Met',
+}
+
+/**
+ * Lifecycle transition rule
+ */
+export interface PengadaanTransitionRule {
+  from: PengadaanStatus;
+  to: PengadaanStatus;
+  roles: UserRole[];
+}
+
+/**
+ * User triggering a lifecycle transition
+ */
+export interface TransitionActor {
+  id: string;
+  role: UserRole;
+  approverRoles?: ApproverRole[];
+}
+
+/**
+ * Edit history entry as returned by the history endpoint
+ */
+export interface PengadaanHistoryEntry {
+  action: PengadaanHistoryAction;
+  timestamp: Date;
+  changes: Record<string, { from: unknown; to: unknown }>;
+  reason?: string;
+  user: {
+    id: string;
+    name: string;
+    email: string;
+  };
+}
+
+/**
+ * Decision on a single approval chain step
+ */
+export enum ApprovalDecision {
+  PENDING = 'pending',
+  APPROVED = 'approved',
+  REJECTED = 'rejected',
+}
+
+/**
+ * One step of a pengadaan approval chain
+ */
+export interface ApprovalStep {
+  step: number;
+  approverRole: ApproverRole;
+  decision: ApprovalDecision;
+  decidedBy?: Types.ObjectId | string;
+  decidedAt?: Date;
+  comment?: string;
+}
+
+/**
+ * Rule selecting the approval steps for a pengadaan; the first matching rule wins
+ */
+export interface ApprovalChainRule {
+  name: string;
+  metodePengadaan?: string[];
+  minHpsEqRupiah?: number;
+  steps: ApproverRole[];
+}
+
 /**
  * Enum for pengadaan categories
  */
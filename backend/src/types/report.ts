@@ -0,0 +1,66 @@
+/**
+ * Output formats of a report
+ */
+export enum ReportFormat {
+  JSON = 'json',
+  CSV = 'csv',
+  XLSX = 'xlsx',
+  PDF = 'pdf',
+}
+
+/**
+ * Value type of a report column, deciding how cells are formatted in each output
+ */
+export type ReportColumnType = 'text' | 'number' | 'amount' | 'percent' | 'date';
+
+export interface ReportColumn {
+  key: string;
+  label: string;
+  type?: ReportColumnType;
+}
+
+/**
+ * Field of a report's parameter form; every parameter is optional and narrows the report
+ */
+export interface ReportParameter {
+  key: string;
+  label: string;
+  type: 'year' | 'text';
+}
+
+/**
+ * Report as listed to clients: what it shows and which parameters it takes
+ */
+export interface ReportDefinition {
+  id: string;
+  title: string;
+  description: string;
+  parameters: ReportParameter[];
+  columns: ReportColumn[];
+}
+
+export type ReportParams = Record<string, string>;
+
+export type ReportCell = string | number | Date | null;
+
+/**
+ * A report run: rows keyed by column, with a totals row when the report sums up
+ */
+export interface ReportResult {
+  id: string;
+  title: string;
+  params: ReportParams;
+  generatedAt: Date;
+  columns: ReportColumn[];
+  rows: Record<string, ReportCell>[];
+  totals: Record<string, ReportCell> | null;
+}
+
+/**
+ * Rendered report file
+ */
+export interface RenderedReport {
+  buffer: Buffer;
+  contentType: string;
+  filename: string;
+}
@@ -0,0 +1,95 @@
+import mongoose from 'mongoose';
+
+const { Decimal128 } = mongoose.Types;
+
+/**
+ * An amount as it may arrive from a client, an import or a stored document
+ */
+export type AmountValue = string | number | mongoose.Types.Decimal128 | null | undefined;
+
+/**
+ * Canonical decimal text: no leading zeros in the integer part, no trailing
+ * zeros in the fraction ("001500000.50" becomes "1500000.5")
+ */
+const toCanonicalDecimal = (text: string): string | undefined => {
+  const match = /^(-?)(\d+)(?:\.(\d+))?$/.exec(text);
+  if (!match) {
+    return undefined;
+  }
+
+  const integer = (match[2] ?? '').replace(/^0+(?=\d)/, '');
+  const fraction = (match[3] ?? '').replace(/0+$/, '');
+  const canonical = fraction ? `${integer}.${fraction}` : integer;
+  return match[1] && /[1-9]/.test(canonical) ? `-${canonical}` : canonical;
+};
+
+/**
+ * Canonical decimal text of an amount. Stored amounts are Decimal128; text
+ * input is often in Indonesian notation ("1.500.000,50"), so thousands dots
+ * are dropped and the decimal comma becomes a point.
+ */
+export const normalizeAmount = (value: unknown): string | undefined => {
+  if (value instanceof Decimal128) {
+    return toCanonicalDecimal(value.toString());
+  }
+  if (typeof value === 'number') {
+    return Number.isFinite(value) ? toCanonicalDecimal(String(value)) : undefined;
+  }
+
+  let text = String(value ?? '').replace(/[^0-9.,-]+/g, '');
+  if (/^-?\d{1,3}(\.\d{3})+(,\d+)?$/.test(text) || /^-?\d+,\d+$/.test(text)) {
+    text = text.replace(/\./g, '').replace(',', '.');
+  } else {
+    text = text.replace(/,/g, '');
+  }
+
+  return toCanonicalDecimal(text);
+};
+
+/**
+ * Parse an amount to a number for arithmetic
+ */
+export const parseAmount = (value: unknown): number | undefined => {
+  const text = normalizeAmount(value);
+  return text === undefined ? undefined : Number(text);
+};
+
+/**
+ * Schema setter for Decimal128 amount paths. Empty input clears the amount;
+ * unparseable text is passed on so the cast fails validation.
+ */
+export const toDecimal128 = (value: unknown): unknown => {
+  if (value === null || value === '') {
+    return null;
+  }
+  if (value === undefined || value instanceof Decimal128) {
+    return value;
+  }
+
+  const text = normalizeAmount(value);
+  return text === undefined ? value : Decimal128.fromString(text);
+};
+
+/**
+ * API form of a stored amount. Amounts were served as text before they were
+ * stored as Decimal128, so responses keep returning strings ("" when cleared).
+ */
+export const formatAmount = (value: unknown): unknown => {
+  if (value instanceof Decimal128) {
+    return normalizeAmount(value) ?? value.toString();
+  }
+  return value === null ? '' : value;
+};
+
+/**
+ * Replace the stored amounts of a plain record with their API form, in place
+ */
+export const serializeAmounts = <T extends Record<string, unknown>>(record: T, fields: readonly string[]): T => {
+  const target = record as Record<string, unknown>;
+  for (const field of fields) {
+    if (Object.prototype.hasOwnProperty.call(target, field)) {
+      target[field] = formatAmount(target[field]);
+    }
+  }
+  return record;
+};
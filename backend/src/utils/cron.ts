@@ -0,0 +1,161 @@
+/**
+ * Five-field cron expressions (minute hour day-of-month month day-of-week) as used by
+ * crontab: lists, ranges, steps, month and day names, and the @hourly/@daily/@weekly/
+ * @monthly/@yearly shorthands. Times are wall-clock times at a fixed UTC offset.
+ */
+
+export interface CronSchedule {
+  minutes: ReadonlySet<number>;
+  hours: ReadonlySet<number>;
+  daysOfMonth: ReadonlySet<number>;
+  months: ReadonlySet<number>;
+  // 0 is Sunday; 7 is accepted for Sunday too
+  daysOfWeek: ReadonlySet<number>;
+  // crontab runs on either day field when both are restricted, on the restricted one otherwise
+  anyDayOfMonth: boolean;
+  anyDayOfWeek: boolean;
+}
+
+const SHORTHANDS: Record<string, string> = {
+  '@hourly': '0 * * * *',
+  '@daily': '0 0 * * *',
+  '@midnight': '0 0 * * *',
+  '@weekly': '0 0 * * 0',
+  '@monthly': '0 0 1 * *',
+  '@yearly': '0 0 1 1 *',
+  '@annually': '0 0 1 1 *',
+};
+
+const MONTH_NAMES = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+const DAY_NAMES = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+
+interface FieldSpec {
+  name: string;
+  min: number;
+  max: number;
+  names?: string[];
+  // Value the first name stands for
+  nameOffset?: number;
+}
+
+const FIELDS: FieldSpec[] = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day of month', min: 1, max: 31 },
+  { name: 'month', min: 1, max: 12, names: MONTH_NAMES, nameOffset: 1 },
+  { name: 'day of week', min: 0, max: 7, names: DAY_NAMES, nameOffset: 0 },
+];
+
+// Give up looking for a run after this many days, e.g. for "0 0 31 2 *"
+const SEARCH_LIMIT_DAYS = 366 * 5;
+const MINUTE_MS = 60 * 1000;
+
+const parseValue = (text: string, spec: FieldSpec): number => {
+  const nameIndex = spec.names?.indexOf(text.toLowerCase()) ?? -1;
+  const value = nameIndex >= 0 ? nameIndex + (spec.nameOffset ?? 0) : /^\d+$/.test(text) ? Number(text) : NaN;
+  if (!Number.isInteger(value) || value < spec.min || value > spec.max) {
+    throw new Error(`Invalid ${spec.name} "${text}" (${spec.min}-${spec.max})`);
+  }
+  return value;
+};
+
+const parseField = (text: string, spec: FieldSpec): Set<number> => {
+  const values = new Set<number>();
+  for (const part of text.split(',')) {
+    const [range = '', stepText] = part.split('/');
+    const step = stepText === undefined ? 1 : Number(stepText);
+    if (!Number.isInteger(step) || step < 1) {
+      throw new Error(`Invalid step "${stepText}" in ${spec.name}`);
+    }
+
+    let start: number;
+    let end: number;
+    if (range === '*') {
+      start = spec.min;
+      end = spec.max;
+    } else if (range.includes('-')) {
+      const [from = '', to = ''] = range.split('-');
+      start = parseValue(from, spec);
+      end = parseValue(to, spec);
+      if (start > end) {
+        throw new Error(`Invalid range "${range}" in ${spec.name}`);
+      }
+    } else {
+      start = parseValue(range, spec);
+      // "5/15" runs from 5 to the end of the field
+      end = stepText === undefined ? start : spec.max;
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+  return values;
+};
+
+/**
+ * Parse a cron expression; throws an Error naming the invalid field
+ */
+export const parseCron = (expression: string): CronSchedule => {
+  const trimmed = expression.trim();
+  const fields = (SHORTHANDS[trimmed.toLowerCase()] ?? trimmed).split(/\s+/);
+  if (fields.length !== 5) {
+    throw new Error('A cron expression needs 5 fields: minute hour day-of-month month day-of-week');
+  }
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = fields.map((field, index) =>
+    parseField(field, FIELDS[index] as FieldSpec)
+  ) as [Set<number>, Set<number>, Set<number>, Set<number>, Set<number>];
+
+  if (daysOfWeek.delete(7)) {
+    daysOfWeek.add(0);
+  }
+  return {
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    anyDayOfMonth: fields[2]?.startsWith('*') ?? false,
+    anyDayOfWeek: fields[4]?.startsWith('*') ?? false,
+  };
+};
+
+const matchesDay = (schedule: CronSchedule, local: Date): boolean => {
+  if (!schedule.months.has(local.getUTCMonth() + 1)) {
+    return false;
+  }
+  const dayOfMonth = schedule.daysOfMonth.has(local.getUTCDate());
+  const dayOfWeek = schedule.daysOfWeek.has(local.getUTCDay());
+  if (schedule.anyDayOfMonth || schedule.anyDayOfWeek) {
+    return dayOfMonth && dayOfWeek;
+  }
+  return dayOfMonth || dayOfWeek;
+};
+
+/**
+ * First run strictly after `after`, for wall-clock times `utcOffsetMinutes` ahead of UTC
+ * (420 for WIB). Null when the schedule never runs, e.g. on 31 February.
+ */
+export const nextCronRun = (schedule: CronSchedule, after: Date, utcOffsetMinutes = 0): Date | null => {
+  const offsetMs = utcOffsetMinutes * MINUTE_MS;
+  // Walk wall-clock time kept in a Date's UTC fields, from the next whole minute
+  const local = new Date(Math.floor((after.getTime() + offsetMs) / MINUTE_MS) * MINUTE_MS + MINUTE_MS);
+  const limit = local.getTime() + SEARCH_LIMIT_DAYS * 24 * 60 * MINUTE_MS;
+
+  while (local.getTime() <= limit) {
+    if (!matchesDay(schedule, local)) {
+      local.setUTCHours(24, 0, 0, 0);
+      continue;
+    }
+    if (!schedule.hours.has(local.getUTCHours())) {
+      local.setUTCHours(local.getUTCHours() + 1, 0, 0, 0);
+      continue;
+    }
+    if (!schedule.minutes.has(local.getUTCMinutes())) {
+      local.setUTCMinutes(local.getUTCMinutes() + 1, 0, 0);
+      continue;
+    }
+    return new Date(local.getTime() - offsetMs);
+  }
+  return null;
+};
@@ -0,0 +1,100 @@
+/**
+ * Byte order mark so Excel opens UTF-8 CSV files with the right encoding
+ */
+export const CSV_BOM = '\uFEFF';
+
+export const CSV_DELIMITER = ',';
+export const CSV_LINE_END = '\r\n';
+
+// Spreadsheets run a cell starting with one of these as a formula; signed numbers are left alone
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+const SIGNED_NUMBER = /^[+-]?\d+(?:[.,]\d+)*$/;
+
+/**
+ * Render a single value as a CSV field (RFC 4180).
+ * Fields containing the delimiter, quotes or line breaks are quoted and inner quotes doubled.
+ * Text that a spreadsheet would run as a formula is prefixed with an apostrophe.
+ */
+export const escapeCsvValue = (value: unknown): string => {
+  if (value === null || value === undefined) {
+    return '';
+  }
+
+  let text = value instanceof Date ? value.toISOString() : String(value);
+
+  if (typeof value === 'string' && FORMULA_PREFIX.test(text) && !SIGNED_NUMBER.test(text)) {
+    text = `'${text}`;
+  }
+
+  if (/[",\r\n]/.test(text) || text !== text.trim()) {
+    return `"${text.replace(/"/g, '""')}"`;
+  }
+
+  return text;
+};
+
+/**
+ * Render a row of values as a CSV line, including the line terminator
+ */
+export const toCsvRow = (values: readonly unknown[]): string => {
+  return values.map((value) => escapeCsvValue(value)).join(CSV_DELIMITER) + CSV_LINE_END;
+};
+
+/**
+ * Guess the delimiter of a CSV document from its first line.
+ * Spreadsheets saved with an Indonesian locale use semicolons.
+ */
+export const detectCsvDelimiter = (text: string): string => {
+  const firstLine = text.split(/\r?\n/, 1)[0] ?? '';
+  const count = (delimiter: string): number => firstLine.split(delimiter).length - 1;
+  return count(';') > count(CSV_DELIMITER) ? ';' : CSV_DELIMITER;
+};
+
+/**
+ * Parse a CSV document (RFC 4180) into rows of raw string fields.
+ * A leading BOM is dropped and quoted fields may span line breaks.
+ */
+export const parseCsv = (text: string, delimiter = detectCsvDelimiter(text)): string[][] => {
+  const input = text.startsWith(CSV_BOM) ? text.slice(CSV_BOM.length) : text;
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let index = 0; index < input.length; index += 1) {
+    const char = input[index];
+
+    if (inQuotes) {
+      if (char === '"' && input[index + 1] === '"') {
+        field += '"';
+        index += 1;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[index + 1] === '\n') {
+        index += 1;
+      }
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows;
+};
@@ -0,0 +1,60 @@
+/**
+ * Calendar dates without a time of day, kept as UTC midnight.
+ * Accepts ISO dates ("2024-03-15") and Indonesian day-first dates ("15/03/2024").
+ */
+export const parseDateOnly = (value: unknown): Date | undefined => {
+  if (value instanceof Date) {
+    return Number.isNaN(value.getTime())
+      ? undefined
+      : new Date(Date.UTC(value.getUTCFullYear(), value.getUTCMonth(), value.getUTCDate()));
+  }
+
+  const text = String(value ?? '').trim();
+  const dayFirst = /^(\d{1,2})[/-](\d{1,2})[/-](\d{4})$/.exec(text);
+  const date = dayFirst
+    ? new Date(Date.UTC(Number(dayFirst[3]), Number(dayFirst[2]) - 1, Number(dayFirst[1])))
+    : new Date(text);
+  if (!text || Number.isNaN(date.getTime())) {
+    return undefined;
+  }
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+};
+
+/**
+ * "YYYY-MM-DD" of a date
+ */
+export const formatDateOnly = (date: Date): string => date.toISOString().slice(0, 10);
+
+/**
+ * Schema setter for date-only paths. Empty input clears the date;
+ * unparseable text is passed on so the cast fails validation.
+ */
+export const toDateOnly = (value: unknown): unknown => {
+  if (value === null || value === '') {
+    return null;
+  }
+  if (value === undefined) {
+    return value;
+  }
+  return parseDateOnly(value) ?? value;
+};
+
+/**
+ * Replace the stored dates of a plain record with "YYYY-MM-DD", in place.
+ * Dates were served as the text the form sent, so responses keep that shape ("" when cleared).
+ */
+export const serializeDates = <T extends Record<string, unknown>>(record: T, fields: readonly string[]): T => {
+  const target = record as Record<string, unknown>;
+  for (const field of fields) {
+    if (!Object.prototype.hasOwnProperty.call(target, field)) {
+      continue;
+    }
+    const value = target[field];
+    if (value instanceof Date) {
+      target[field] = Number.isNaN(value.getTime()) ? '' : formatDateOnly(value);
+    } else if (value === null) {
+      target[field] = '';
+    }
+  }
+  return record;
+};
@@ -0,0 +1,90 @@
+/**
+ * Before/after values of a single changed field
+ */
+export interface FieldChange {
+  from: unknown;
+  to: unknown;
+}
+
+export type FieldChanges = Record<string, FieldChange>;
+
+/**
+ * Reduce a value to a comparable, JSON-safe form.
+ * Dates become ISO strings, ObjectIds their hex string and empty values null.
+ */
+export const normalizeDiffValue = (value: unknown): unknown => {
+  if (value === undefined || value === null || value === '') {
+    return null;
+  }
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+  if (typeof value === 'object' && value !== null && '_bsontype' in value) {
+    return String(value);
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => normalizeDiffValue(item));
+  }
+  return value;
+};
+
+const isEqualValue = (a: unknown, b: unknown): boolean => {
+  return JSON.stringify(a) === JSON.stringify(b);
+};
+
+/**
+ * Compare two snapshots field by field and return only the fields that changed
+ */
+export const diffFields = (
+  before: Record<string, unknown>,
+  after: Record<string, unknown>,
+  fields: readonly string[]
+): FieldChanges => {
+  const changes: FieldChanges = {};
+
+  for (const field of fields) {
+    const from = normalizeDiffValue(before[field]);
+    const to = normalizeDiffValue(after[field]);
+    if (!isEqualValue(from, to)) {
+      changes[field] = { from, to };
+    }
+  }
+
+  return changes;
+};
+
+/**
+ * Whether a diff recorded any change
+ */
+export const hasChanges = (changes: FieldChanges): boolean => Object.keys(changes).length > 0;
+
+/**
+ * Rebuild a snapshot as it was at `at` by reverting, newest first, every change
+ * recorded after that moment. Only the listed fields are reverted.
+ */
+export const reconstructSnapshot = (
+  current: Record<string, unknown>,
+  history: ReadonlyArray<{ timestamp: Date; changes?: Record<string, unknown> }>,
+  at: Date,
+  fields: readonly string[]
+): Record<string, unknown> => {
+  const snapshot: Record<string, unknown> = {};
+  for (const field of fields) {
+    snapshot[field] = normalizeDiffValue(current[field]);
+  }
+
+  // History is append-only, so walking it backwards visits the newest change first
+  const later = [...history]
+    .reverse()
+    .filter((entry) => new Date(entry.timestamp).getTime() > at.getTime());
+
+  for (const entry of later) {
+    for (const [field, change] of Object.entries(entry.changes ?? {})) {
+      if (fields.includes(field) && change && typeof change === 'object' && 'from' in change) {
+        snapshot[field] = (change as FieldChange).from;
+      }
+    }
+  }
+
+  return snapshot;
+};
@@ -87,6 +87,20 @@ export class ConflictError extends AppError {
   }
 }
 
+/**
+ * Invalid state transition error class
+ */
+export class InvalidTransitionError extends AppError {
+  public readonly from: string;
+  public readonly to: string;
+
+  constructor(from: string, to: string, details?: string) {
+    super(`Invalid transition from '${from}' to '${to}'`, 409, details);
+    this.from = from;
+    this.to = to;
+  }
+}
+
 /**
  * Rate limit error class
  */
@@ -357,6 +371,10 @@ export const isConflictError = (error: unknown): error is ConflictError => {
   return error instanceof ConflictError;
 };
 
+export const isInvalidTransitionError = (error: unknown): error is InvalidTransitionError => {
+  return error instanceof InvalidTransitionError;
+};
+
 export const isDatabaseError = (error: unknown): error is DatabaseError => {
   return error instanceof DatabaseError;
 };
@@ -0,0 +1,34 @@
+/**
+ * Indonesian display formats for reports and documents
+ */
+
+const MONTH_NAMES = [
+  'Januari',
+  'Februari',
+  'Maret',
+  'April',
+  'Mei',
+  'Juni',
+  'Juli',
+  'Agustus',
+  'September',
+  'Oktober',
+  'November',
+  'Desember',
+];
+
+/**
+ * "1.500.000,5" — Indonesian digit grouping, at most two decimals
+ */
+export const formatNumber = (value: number): string => value.toLocaleString('id-ID', { maximumFractionDigits: 2 });
+
+/**
+ * "Rp 1.500.000"
+ */
+export const formatRupiah = (value: number): string => `Rp ${formatNumber(value)}`;
+
+/**
+ * "15 Maret 2024" for a calendar date kept as UTC midnight
+ */
+export const formatTanggal = (date: Date): string =>
+  `${date.getUTCDate()} ${MONTH_NAMES[date.getUTCMonth()] ?? ''} ${date.getUTCFullYear()}`;
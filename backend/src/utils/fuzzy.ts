@@ -0,0 +1,57 @@
+/**
+ * Company name matching for linking free-text vendor names to vendor records
+ */
+
+// Legal-form words that say nothing about which company is meant
+const LEGAL_FORM_WORDS = new Set(['pt', 'cv', 'tbk', 'persero', 'ud', 'pd', 'fa', 'koperasi', 'kop', 'inc', 'ltd', 'co']);
+
+/**
+ * Lowercase a company name and drop punctuation and legal forms,
+ * so "PT. Maju Jaya, Tbk" and "maju jaya" compare equal
+ */
+export const normalizeCompanyName = (name: string): string =>
+  name
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .split(' ')
+    .filter((word) => word && !LEGAL_FORM_WORDS.has(word))
+    .join(' ');
+
+const levenshtein = (a: string, b: string): number => {
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i += 1) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j += 1) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(
+        (previous[j] as number) + 1,
+        (current[j - 1] as number) + 1,
+        (previous[j - 1] as number) + cost
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length] as number;
+};
+
+/**
+ * Similarity of two company names between 0 and 1, after normalization.
+ * Takes the better of an edit-distance ratio (typos) and word overlap (reordered or extra words).
+ */
+export const companyNameSimilarity = (a: string, b: string): number => {
+  const left = normalizeCompanyName(a);
+  const right = normalizeCompanyName(b);
+  if (!left || !right) return 0;
+  if (left === right) return 1;
+
+  const editRatio = 1 - levenshtein(left, right) / Math.max(left.length, right.length);
+
+  const leftWords = new Set(left.split(' '));
+  const rightWords = new Set(right.split(' '));
+  const shared = [...leftWords].filter((word) => rightWords.has(word)).length;
+  const overlap = (2 * shared) / (leftWords.size + rightWords.size);
+
+  return Math.max(editRatio, overlap);
+};
@@ -0,0 +1,309 @@
+import { mkdir, rename, writeFile } from 'fs/promises';
+import { once } from 'events';
+import crypto from 'crypto';
+import net from 'net';
+import os from 'os';
+import path from 'path';
+import tls from 'tls';
+
+/**
+ * Outgoing mail: MIME rendering and the transports that deliver it. A transport is
+ * anything with send(); SMTP talks to a relay, the maildir sink writes messages to disk.
+ */
+
+export interface MailAttachment {
+  filename: string;
+  contentType: string;
+  content: Buffer;
+}
+
+export interface MailMessage {
+  from: string;
+  to: string[];
+  subject: string;
+  text: string;
+  attachments?: MailAttachment[];
+}
+
+export interface MailTransport {
+  readonly name: string;
+  /**
+   * Deliver a message; resolves to where it went (a queue ID or a file path)
+   */
+  send(message: MailMessage): Promise<string>;
+}
+
+const CRLF = '\r\n';
+
+// RFC 2047 encoded-word for header values outside printable ASCII
+const encodeHeader = (value: string): string =>
+  /^[\x20-\x7E]*$/.test(value) ? value : `=?UTF-8?B?${Buffer.from(value, 'utf8').toString('base64')}?=`;
+
+const toBase64Lines = (content: Buffer): string => (content.toString('base64').match(/.{1,76}/g) ?? []).join(CRLF);
+
+/**
+ * Bare address of "Name <address>" or of an address on its own
+ */
+export const extractAddress = (value: string): string => /<([^>]+)>/.exec(value)?.[1]?.trim() ?? value.trim();
+
+/**
+ * RFC 5322 message with CRLF line ends: a base64 UTF-8 text part, then each attachment
+ */
+export const buildMimeMessage = (message: MailMessage, date: Date = new Date(), messageId?: string): string => {
+  const domain = extractAddress(message.from).split('@')[1] ?? 'localhost';
+  const boundary = `=_${crypto.randomBytes(12).toString('hex')}`;
+  const headers = [
+    `From: ${message.from}`,
+    `To: ${message.to.join(', ')}`,
+    `Subject: ${encodeHeader(message.subject)}`,
+    `Date: ${date.toUTCString().replace('GMT', '+0000')}`,
+    `Message-ID: <${messageId ?? crypto.randomUUID()}@${domain}>`,
+    'MIME-Version: 1.0',
+    `Content-Type: multipart/mixed; boundary="${boundary}"`,
+  ];
+
+  const parts = [
+    [
+      'Content-Type: text/plain; charset=UTF-8',
+      'Content-Transfer-Encoding: base64',
+      '',
+      toBase64Lines(Buffer.from(message.text, 'utf8')),
+    ].join(CRLF),
+    ...(message.attachments ?? []).map((attachment) => {
+      const filename = encodeHeader(attachment.filename).replace(/"/g, '');
+      return [
+        `Content-Type: ${attachment.contentType}; name="${filename}"`,
+        'Content-Transfer-Encoding: base64',
+        `Content-Disposition: attachment; filename="${filename}"`,
+        '',
+        toBase64Lines(attachment.content),
+      ].join(CRLF);
+    }),
+  ];
+
+  return [
+    ...headers,
+    '',
+    ...parts.map((part) => `--${boundary}${CRLF}${part}`),
+    `--${boundary}--`,
+    '',
+  ].join(CRLF);
+};
+
+/**
+ * Maildir sink: each message becomes a file in <directory>/new, written through tmp
+ * so readers never see a partial message. Meant for development and testing.
+ */
+export class MaildirTransport implements MailTransport {
+  readonly name = 'maildir';
+  private readonly directory: string;
+
+  constructor(directory: string) {
+    this.directory = directory;
+  }
+
+  async send(message: MailMessage): Promise<string> {
+    await Promise.all(['tmp', 'new', 'cur'].map((sub) => mkdir(path.join(this.directory, sub), { recursive: true })));
+    const name = `${Date.now()}.${process.pid}_${crypto.randomBytes(6).toString('hex')}.${os.hostname()}`;
+    const tmpPath = path.join(this.directory, 'tmp', name);
+    const newPath = path.join(this.directory, 'new', name);
+    await writeFile(tmpPath, buildMimeMessage(message));
+    await rename(tmpPath, newPath);
+    return newPath;
+  }
+}
+
+export interface SmtpOptions {
+  host: string;
+  port: number;
+  // Implicit TLS from the first byte (port 465); otherwise STARTTLS when the server offers it
+  secure: boolean;
+  // Only sent over TLS: a server without STARTTLS is refused rather than sent the password in clear
+  user?: string | undefined;
+  pass?: string | undefined;
+  // Idle limit while connecting, during the TLS handshake and for every reply
+  timeoutMs?: number;
+  // Name sent in EHLO
+  clientName?: string;
+}
+
+interface SmtpReply {
+  code: number;
+  lines: string[];
+}
+
+/**
+ * One SMTP session: reads replies (multi-line ones included) and sends commands
+ */
+class SmtpSession {
+  private socket: net.Socket;
+  private buffer = '';
+  private lines: string[] = [];
+  private waiting: { resolve: (reply: SmtpReply) => void; reject: (error: Error) => void } | null = null;
+  private replies: SmtpReply[] = [];
+  private failure: Error | null = null;
+
+  constructor(socket: net.Socket, timeoutMs: number) {
+    this.socket = socket;
+    this.attach(socket, timeoutMs);
+  }
+
+  /**
+   * Switch the session to TLS after STARTTLS was accepted
+   */
+  async upgrade(host: string, timeoutMs: number): Promise<void> {
+    // The TLS socket takes over the connection; the plain one must not time out or fail the session
+    this.socket.setTimeout(0);
+    for (const event of ['data', 'timeout', 'error', 'close']) {
+      this.socket.removeAllListeners(event);
+    }
+    const secure = tls.connect({ socket: this.socket, servername: host });
+    this.socket = secure;
+    this.attach(secure, timeoutMs);
+    await once(secure, 'secureConnect');
+  }
+
+  read(): Promise<SmtpReply> {
+    const reply = this.replies.shift();
+    if (reply) {
+      return Promise.resolve(reply);
+    }
+    if (this.failure) {
+      return Promise.reject(this.failure);
+    }
+    return new Promise((resolve, reject) => {
+      this.waiting = { resolve, reject };
+    });
+  }
+
+  /**
+   * Send a command and expect one of the reply codes; the text logged on failure hides credentials
+   */
+  async command(line: string, expected: number[], label = line): Promise<SmtpReply> {
+    this.socket.write(`${line}${CRLF}`);
+    return this.expect(expected, label);
+  }
+
+  async expect(expected: number[], label: string): Promise<SmtpReply> {
+    const reply = await this.read();
+    if (!expected.includes(reply.code)) {
+      throw new Error(`SMTP ${label} failed: ${reply.code} ${reply.lines.join(' ')}`);
+    }
+    return reply;
+  }
+
+  write(data: string): void {
+    this.socket.write(data);
+  }
+
+  close(): void {
+    this.socket.end();
+  }
+
+  private attach(socket: net.Socket, timeoutMs: number): void {
+    socket.setEncoding('utf8');
+    socket.setTimeout(timeoutMs, () => this.fail(new Error('SMTP connection timed out')));
+    socket.on('data', (chunk: string) => this.receive(chunk));
+    socket.on('error', (error) => this.fail(error));
+    socket.on('close', () => this.fail(new Error('SMTP connection closed')));
+  }
+
+  private receive(chunk: string): void {
+    this.buffer += chunk;
+    let index: number;
+    while ((index = this.buffer.indexOf('\n')) >= 0) {
+      const line = this.buffer.slice(0, index).replace(/\r$/, '');
+      this.buffer = this.buffer.slice(index + 1);
+      this.lines.push(line.slice(4));
+      // "250-..." continues a reply, "250 ..." ends it
+      if (line.charAt(3) !== '-') {
+        this.deliver({ code: Number(line.slice(0, 3)), lines: this.lines });
+        this.lines = [];
+      }
+    }
+  }
+
+  private deliver(reply: SmtpReply): void {
+    if (this.waiting) {
+      const { resolve } = this.waiting;
+      this.waiting = null;
+      resolve(reply);
+    } else {
+      this.replies.push(reply);
+    }
+  }
+
+  private fail(error: Error): void {
+    this.failure ??= error;
+    this.socket.destroy(error);
+    if (this.waiting) {
+      const { reject } = this.waiting;
+      this.waiting = null;
+      reject(error);
+    }
+  }
+}
+
+/**
+ * SMTP relay client: EHLO, STARTTLS when offered, AUTH PLAIN/LOGIN over TLS when credentials are set
+ */
+export class SmtpTransport implements MailTransport {
+  readonly name = 'smtp';
+  private readonly options: SmtpOptions;
+
+  constructor(options: SmtpOptions) {
+    this.options = options;
+  }
+
+  async send(message: MailMessage): Promise<string> {
+    const { host, port, secure, user, pass } = this.options;
+    const timeoutMs = this.options.timeoutMs ?? 30000;
+    const clientName = this.options.clientName ?? os.hostname();
+
+    // Attached while still connecting, so a server that never answers times out like one that stops answering
+    const socket = secure ? tls.connect({ host, port, servername: host }) : net.connect({ host, port });
+    const session = new SmtpSession(socket, timeoutMs);
+    let encrypted = secure;
+
+    try {
+      await session.expect([220], 'greeting');
+      let features = (await session.command(`EHLO ${clientName}`, [250])).lines;
+
+      if (!secure && features.some((line) => /^STARTTLS\b/i.test(line))) {
+        await session.command('STARTTLS', [220]);
+        await session.upgrade(host, timeoutMs);
+        encrypted = true;
+        features = (await session.command(`EHLO ${clientName}`, [250])).lines;
+      }
+
+      if (user) {
+        if (!encrypted) {
+          throw new Error('SMTP server does not offer STARTTLS; refusing to send credentials in clear text');
+        }
+        const auth = features.find((line) => /^AUTH\b/i.test(line))?.toUpperCase() ?? '';
+        if (auth.includes('PLAIN') || !auth.includes('LOGIN')) {
+          const token = Buffer.from(`\0${user}\0${pass ?? ''}`, 'utf8').toString('base64');
+          await session.command(`AUTH PLAIN ${token}`, [235], 'AUTH PLAIN');
+        } else {
+          await session.command('AUTH LOGIN', [334]);
+          await session.command(Buffer.from(user, 'utf8').toString('base64'), [334], 'AUTH LOGIN user');
+          await session.command(Buffer.from(pass ?? '', 'utf8').toString('base64'), [235], 'AUTH LOGIN password');
+        }
+      }
+
+      await session.command(`MAIL FROM:<${extractAddress(message.from)}>`, [250]);
+      for (const recipient of message.to) {
+        await session.command(`RCPT TO:<${extractAddress(recipient)}>`, [250, 251]);
+      }
+      await session.command('DATA', [354]);
+      // Dot-stuffing: a line starting with "." gets another one
+      session.write(`${buildMimeMessage(message).replace(/^\./gm, '..')}.${CRLF}`);
+      const accepted = await session.expect([250], 'DATA');
+      await session.command('QUIT', [221]).catch(() => undefined);
+
+      return accepted.lines.join(' ');
+    } finally {
+      session.close();
+    }
+  }
+}
@@ -0,0 +1,275 @@
+import { deflateSync } from 'zlib';
+
+/**
+ * Minimal PDF writer for reports and documents: text in the standard Helvetica
+ * fonts (no embedding, WinAnsi encoding, see toWinAnsi), lines and filled rectangles.
+ * Coordinates are in points with the origin at the top-left of the page.
+ */
+
+export interface PdfPageSize {
+  width: number;
+  height: number;
+}
+
+export const PAGE_SIZES = {
+  A4_PORTRAIT: { width: 595.28, height: 841.89 },
+  A4_LANDSCAPE: { width: 841.89, height: 595.28 },
+} satisfies Record<string, PdfPageSize>;
+
+export interface PdfTextOptions {
+  size?: number;
+  bold?: boolean;
+  // Alignment within `width` starting at x; left when omitted
+  align?: 'left' | 'center' | 'right';
+  width?: number;
+}
+
+// Glyph widths (1/1000 em) of ASCII 32..126 from the Helvetica AFM metrics
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278, 556, 556, 556, 556, 556, 556,
+  556, 556, 556, 556, 278, 278, 584, 584, 584, 556, 1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667,
+  556, 833, 722, 778, 667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556, 333, 556,
+  556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556, 556, 556, 333, 500, 278, 556, 500, 722,
+  500, 500, 500, 334, 260, 334, 584,
+];
+
+const HELVETICA_BOLD_WIDTHS = [
+  278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278, 556, 556, 556, 556, 556, 556,
+  556, 556, 556, 556, 333, 333, 584, 584, 584, 611, 975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722,
+  611, 833, 722, 778, 667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556, 333, 556,
+  611, 556, 611, 556, 333, 611, 611, 278, 278, 556, 278, 889, 611, 611, 611, 611, 389, 556, 333, 611, 556, 778,
+  556, 556, 500, 389, 280, 389, 584,
+];
+
+// Width used for characters outside ASCII
+const DEFAULT_WIDTH = 556;
+
+/**
+ * Width of a text in points
+ */
+export const measureText = (text: string, size: number, bold = false): number => {
+  const widths = bold ? HELVETICA_BOLD_WIDTHS : HELVETICA_WIDTHS;
+  let total = 0;
+  for (const char of text) {
+    const code = char.charCodeAt(0);
+    total += (code >= 32 && code <= 126 ? widths[code - 32] : undefined) ?? DEFAULT_WIDTH;
+  }
+  return (total * size) / 1000;
+};
+
+/**
+ * Cut a text to fit a width, ending it with "..." when shortened
+ */
+export const truncateText = (text: string, maxWidth: number, size: number, bold = false): string => {
+  if (measureText(text, size, bold) <= maxWidth) {
+    return text;
+  }
+  let cut = text;
+  while (cut.length > 0 && measureText(`${cut}...`, size, bold) > maxWidth) {
+    cut = cut.slice(0, -1);
+  }
+  return cut.length > 0 ? `${cut.trimEnd()}...` : '';
+};
+
+/**
+ * Break a text into lines no wider than maxWidth, at spaces and explicit line breaks.
+ * A single word wider than the line is truncated.
+ */
+export const wrapText = (text: string, maxWidth: number, size: number, bold = false): string[] => {
+  const lines: string[] = [];
+  for (const paragraph of text.split(/\r?\n/)) {
+    let line = '';
+    for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+      const candidate = line ? `${line} ${word}` : word;
+      if (measureText(candidate, size, bold) <= maxWidth) {
+        line = candidate;
+      } else {
+        if (line) {
+          lines.push(line);
+        }
+        line = truncateText(word, maxWidth, size, bold);
+      }
+    }
+    lines.push(line);
+  }
+  return lines;
+};
+
+// WinAnsi glyphs at 0x80-0x9F, where Latin-1 has control codes; spaces mark unused codes
+const WINANSI_EXTRAS = new Map(
+  Array.from('€ ‚ƒ„…†‡ˆ‰Š‹Œ Ž  ‘’“”•–—˜™š›œ žŸ', (char, index) => [char, String.fromCharCode(0x80 + index)] as const)
+    .filter(([char]) => char !== ' ')
+);
+
+const toWinAnsiChar = (char: string): string | undefined => {
+  const code = char.charCodeAt(0);
+  if (char.length === 1 && (code < 0x7f || (code >= 0xa0 && code <= 0xff))) {
+    return char;
+  }
+  return WINANSI_EXTRAS.get(char);
+};
+
+/**
+ * Bring a text into the WinAnsi character set of the standard fonts. Accented letters
+ * outside it lose their accents and anything else becomes "?", so no glyph comes out garbled.
+ */
+export const toWinAnsi = (text: string): string =>
+  Array.from(text, (char) => {
+    const direct = toWinAnsiChar(char);
+    if (direct !== undefined) {
+      return direct;
+    }
+    const base = Array.from(char.normalize('NFKD').replace(/\p{M}/gu, ''), toWinAnsiChar);
+    return base.length > 0 && base.every((part) => part !== undefined) ? base.join('') : '?';
+  }).join('');
+
+// Literal string operand: WinAnsi bytes, delimiters escaped
+const toPdfString = (text: string): string =>
+  `(${toWinAnsi(text).replace(/[\\()]/g, (match) => `\\${match}`).replace(/\r?\n/g, ' ')})`;
+
+const formatNumber = (value: number): string => String(Math.round(value * 100) / 100);
+
+const formatPdfDate = (date: Date): string =>
+  `D:${date.toISOString().replace(/[-:T]/g, '').slice(0, 14)}Z`;
+
+export class PdfDocument {
+  private readonly pages: string[][] = [];
+  private readonly size: PdfPageSize;
+  private readonly title: string;
+
+  constructor(size: PdfPageSize = PAGE_SIZES.A4_PORTRAIT, title = '') {
+    this.size = size;
+    this.title = title;
+    this.addPage();
+  }
+
+  get width(): number {
+    return this.size.width;
+  }
+
+  get height(): number {
+    return this.size.height;
+  }
+
+  get pageCount(): number {
+    return this.pages.length;
+  }
+
+  /**
+   * Start a new page; later drawing goes to it
+   */
+  addPage(): void {
+    this.pages.push([]);
+  }
+
+  /**
+   * Draw a single line of text with its top at y
+   */
+  text(text: string, x: number, y: number, options: PdfTextOptions = {}): void {
+    const size = options.size ?? 10;
+    const bold = options.bold ?? false;
+    let left = x;
+    if (options.width !== undefined && options.align && options.align !== 'left') {
+      const free = options.width - measureText(text, size, bold);
+      left += options.align === 'center' ? free / 2 : free;
+    }
+    // The text baseline sits about 0.8 em below the top of the line
+    const baseline = this.height - y - size * 0.8;
+    this.draw(
+      `BT /${bold ? 'F2' : 'F1'} ${formatNumber(size)} Tf ${formatNumber(left)} ${formatNumber(baseline)} Td ${toPdfString(text)} Tj ET`
+    );
+  }
+
+  /**
+   * Draw a straight line
+   */
+  line(x1: number, y1: number, x2: number, y2: number, lineWidth = 0.5): void {
+    this.draw(
+      `${formatNumber(lineWidth)} w ${formatNumber(x1)} ${formatNumber(this.height - y1)} m ` +
+        `${formatNumber(x2)} ${formatNumber(this.height - y2)} l S`
+    );
+  }
+
+  /**
+   * Fill a rectangle with a gray level (0 black, 1 white)
+   */
+  fillRect(x: number, y: number, width: number, height: number, gray = 0.9): void {
+    this.draw(
+      `q ${formatNumber(gray)} g ${formatNumber(x)} ${formatNumber(this.height - y - height)} ` +
+        `${formatNumber(width)} ${formatNumber(height)} re f Q`
+    );
+  }
+
+  /**
+   * Serialize the document; page content streams are deflated
+   */
+  toBuffer(): Buffer {
+    const objects: Buffer[] = [];
+    const add = (body: Buffer | string): number => {
+      objects.push(typeof body === 'string' ? Buffer.from(body, 'latin1') : body);
+      return objects.length;
+    };
+
+    // Fixed object numbers: 1 catalog, 2 page tree, 3-4 fonts, 5 info
+    add('<< /Type /Catalog /Pages 2 0 R >>');
+    add('');
+    add('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>');
+    add('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>');
+    add(`<< /Title ${toPdfString(this.title)} /Producer (Procure Flow) /CreationDate (${formatPdfDate(new Date())}) >>`);
+
+    const pageIds: number[] = [];
+    for (const operations of this.pages) {
+      const content = deflateSync(Buffer.from(operations.join('\n'), 'latin1'));
+      const contentId = add(
+        Buffer.concat([
+          Buffer.from(`<< /Length ${content.length} /Filter /FlateDecode >>\nstream\n`, 'latin1'),
+          content,
+          Buffer.from('\nendstream', 'latin1'),
+        ])
+      );
+      pageIds.push(
+        add(
+          `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${formatNumber(this.width)} ${formatNumber(this.height)}] ` +
+            `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${contentId} 0 R >>`
+        )
+      );
+    }
+    objects[1] = Buffer.from(
+      `<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(' ')}] /Count ${pageIds.length} >>`,
+      'latin1'
+    );
+
+    const chunks: Buffer[] = [Buffer.from('%PDF-1.4\n%\xE2\xE3\xCF\xD3\n', 'latin1')];
+    let offset = chunks[0]?.length ?? 0;
+    const offsets: number[] = [];
+    objects.forEach((body, index) => {
+      const chunk = Buffer.concat([
+        Buffer.from(`${index + 1} 0 obj\n`, 'latin1'),
+        body,
+        Buffer.from('\nendobj\n', 'latin1'),
+      ]);
+      offsets.push(offset);
+      offset += chunk.length;
+      chunks.push(chunk);
+    });
+
+    const xref = [
+      'xref',
+      `0 ${objects.length + 1}`,
+      '0000000000 65535 f ',
+      ...offsets.map((value) => `${String(value).padStart(10, '0')} 00000 n `),
+      'trailer',
+      `<< /Size ${objects.length + 1} /Root 1 0 R /Info 5 0 R >>`,
+      'startxref',
+      String(offset),
+      '%%EOF',
+    ].join('\n');
+    chunks.push(Buffer.from(`${xref}\n`, 'latin1'));
+
+    return Buffer.concat(chunks);
+  }
+
+  private draw(operation: string): void {
+    this.pages[this.pages.length - 1]?.push(operation);
+  }
+}
@@ -0,0 +1,58 @@
+/**
+ * Reporting periods as entered on the pengadaan form: quarters ("TW I" .. "TW IV"),
+ * months ("2024-03") or Indonesian month names ("Maret")
+ */
+
+const QUARTERS: Record<string, number> = { I: 1, II: 2, III: 3, IV: 4 };
+
+const MONTH_NAMES = [
+  'januari',
+  'februari',
+  'maret',
+  'april',
+  'mei',
+  'juni',
+  'juli',
+  'agustus',
+  'september',
+  'oktober',
+  'november',
+  'desember',
+];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Last day (UTC midnight) of a period. Quarters and month names carry no year,
+ * so they are placed in `year`; "YYYY-MM" keeps its own year.
+ */
+export const getPeriodEnd = (period: string, year: number): Date | undefined => {
+  const text = period.trim();
+
+  const quarter = /^TW\s*(I{1,3}|IV)$/i.exec(text);
+  if (quarter) {
+    const lastMonth = (QUARTERS[(quarter[1] as string).toUpperCase()] as number) * 3;
+    return new Date(Date.UTC(year, lastMonth, 0));
+  }
+
+  const month = /^(\d{4})-(\d{2})$/.exec(text);
+  if (month) {
+    const monthNumber = Number(month[2]);
+    return monthNumber >= 1 && monthNumber <= 12
+      ? new Date(Date.UTC(Number(month[1]), monthNumber, 0))
+      : undefined;
+  }
+
+  const monthIndex = MONTH_NAMES.indexOf(text.toLowerCase());
+  return monthIndex >= 0 ? new Date(Date.UTC(year, monthIndex + 1, 0)) : undefined;
+};
+
+/**
+ * Whole calendar days from `from` to `to`; negative when `to` is earlier
+ */
+export const daysBetween = (from: Date, to: Date): number =>
+  Math.round(
+    (Date.UTC(to.getUTCFullYear(), to.getUTCMonth(), to.getUTCDate()) -
+      Date.UTC(from.getUTCFullYear(), from.getUTCMonth(), from.getUTCDate())) /
+      DAY_MS
+  );
@@ -19,6 +19,9 @@ export interface ApiError {
   message: string;
   statusCode?: number;
   details?: unknown;
+  // Offending field and value of a validation error
+  field?: string;
+  value?: unknown;
   requestId?: string;
 }
 
@@ -161,7 +164,8 @@ export const sendError = (
   message: string,
   statusCode = 500,
   details?: unknown,
-  requestId?: string
+  requestId?: string,
+  validation?: { field?: string | undefined; value?: unknown }
 ): void => {
   const payload: ApiError = {
     success: false,
@@ -169,6 +173,10 @@ export const sendError = (
     statusCode,
     details,
   };
+  if (validation?.field !== undefined) {
+    payload.field = validation.field;
+    payload.value = validation.value;
+  }
   if (requestId !== undefined) payload.requestId = requestId;
   res.status(statusCode).json(payload);
 };
@@ -1,6 +1,21 @@
 import { Request, Response, NextFunction } from 'express';
 import { z, ZodSchema } from 'zod';
 import { sendError, getRequestId } from './response';
+import { AnalyticsBucket, AnalyticsMeasure, Currency, PengadaanStatus, SlaStatus } from '../types/pengadaan';
+import { ANALYTICS_DIMENSIONS, AnalyticsDimension, PENGADAAN_DATE_FIELDS } from '../config/pengadaanFields';
+import { AuditAction } from '../models/AuditLog';
+import { VendorUmkmStatus } from '../models/Vendor';
+import { JenisAnggaran } from '../models/Budget';
+import { FOREIGN_CURRENCIES } from '../models/ExchangeRate';
+import { HolidayType } from '../models/Holiday';
+import { SLA_DATE_FIELDS } from '../models/SlaTarget';
+import { ReportFormat } from '../types/report';
+import { BACKUP_COLLECTIONS } from '../types/backup';
+import { TEMPLATE_KEY_PATTERN } from '../models/DocumentTemplate';
+import { SCHEDULE_FORMATS } from '../models/ReportSchedule';
+import { parseCron } from './cron';
+import { normalizeAmount } from './amount';
+import { parseDateOnly } from './date';
 
 type Location = 'body' | 'query' | 'params';
 
@@ -76,6 +91,88 @@ export const commonSchemas = {
   objectId: z.string().regex(/^[a-fA-F0-9]{24}$/),
 };
 
+// Form fields shared by create and update; amounts may arrive as numbers or formatted strings
+// ("1.500.000,50") and are stored as Decimal128, so text must parse as a number
+const amount = z
+  .union([z.number(), z.string()])
+  .refine((value) => value === '' || normalizeAmount(value) !== undefined, { message: 'Invalid amount' });
+const pengadaanAmount = amount.optional();
+// Dates are stored as dates: ISO ("2024-03-15") or day-first ("15/03/2024"), empty to clear
+const pengadaanDate = z
+  .string()
+  .refine((value) => value === '' || parseDateOnly(value) !== undefined, { message: 'Invalid date' })
+  .optional();
+
+// Comma-separated query list ("metodePengadaan,picTimPpsm"), deduplicated
+const csvList = <T extends z.ZodTypeAny>(item: T) =>
+  z
+    .string()
+    .optional()
+    .transform((value) => [...new Set((value ?? '').split(',').map((part) => part.trim()).filter(Boolean))])
+    .pipe(z.array(item));
+
+// Equality filter per analytics dimension, e.g. ?metodePengadaan=Tender
+const analyticsFilters = Object.fromEntries(
+  ANALYTICS_DIMENSIONS.map((dimension) => [dimension, z.string().trim().min(1).optional()])
+) as Record<AnalyticsDimension, z.ZodOptional<z.ZodString>>;
+
+const pengadaanFormFields = {
+  sinergi: z.string().optional(),
+  namaPaket: z.string().optional(),
+  lapPtm: z.string().optional(),
+  sla: z.string().optional(),
+  tahunSla: z.string().optional(),
+  costSaving: z.string().optional(),
+  tahunCostSaving: z.string().optional(),
+  barangJasa: z.string().optional(),
+  penggunaBarangJasa: z.string().optional(),
+  jenisPaket: z.string().optional(),
+  jenisPengadaan: z.string().optional(),
+  baseline: z.string().optional(),
+  noPpl: z.string().optional(),
+  metodePengadaan: z.string().optional(),
+  tahunAnggaran: z.string().optional(),
+  jenisAnggaran: z.string().optional(),
+  jenisKontrak: z.string().optional(),
+  nilaiHpsCurrency: z.string().optional(),
+  bulanPermintaan: z.string().optional(),
+  tanggalPermintaan: pengadaanDate,
+  tanggalPermintaanDiterima: pengadaanDate,
+  tanggalRapatPersiapan: pengadaanDate,
+  tanggalRevisiPermintaan: pengadaanDate,
+  noPurchaseRequisition: z.string().optional(),
+  tanggalPurchaseRequisition: pengadaanDate,
+  jenisMySap: z.string().optional(),
+  tanggalPerintahPengadaan: pengadaanDate,
+  kategoriRisiko: z.string().optional(),
+  keteranganPersiapan: z.string().optional(),
+  picTimPpsm: z.string().optional(),
+  suratPenunjukan: pengadaanDate,
+  jangkaWaktuPengerjaan: z.string().optional(),
+  nilaiPenunjukanCurrency: z.string().optional(),
+  statusPengadaan: z.string().optional(),
+  bulanSelesai: z.string().optional(),
+  keteranganPengadaan: z.string().optional(),
+  vendorId: commonSchemas.objectId.or(z.literal('')).nullable().optional(),
+  // Admin reason for awarding the package to a blacklisted vendor anyway
+  blacklistOverrideReason: z.string().trim().min(1).max(500).optional(),
+  penyediaBarangJasa: z.string().optional(),
+  statusPenyedia: z.string().optional(),
+  kontrakNomor: z.string().optional(),
+  kontrakTanggal: pengadaanDate,
+  nilaiAnggaranIdr: pengadaanAmount,
+  nilaiAnggaranUsd: pengadaanAmount,
+  nilaiHpsAmount: pengadaanAmount,
+  nilaiHpsEqRupiah: pengadaanAmount,
+  nilaiHpsPortiTahun: pengadaanAmount,
+  nilaiPenunjukanAmount: pengadaanAmount,
+  nilaiPenunjukanEqRupiah: pengadaanAmount,
+  costSavingRp: pengadaanAmount,
+  nilaiKontrakRupiah: pengadaanAmount,
+  nilaiKontrakUsd: pengadaanAmount,
+  nilaiKontrakPortiTahun: pengadaanAmount,
+};
+
 export const pengadaanSchemas = {
   query: z.object({
     page: z.coerce.number().int().min(1).default(1),
@@ -89,30 +186,450 @@ export const pengadaanSchemas = {
     endDate: z.string().optional(),
     minNilai: z.coerce.number().optional(),
     maxNilai: z.coerce.number().optional(),
+    slaStatus: z.nativeEnum(SlaStatus).optional(),
   }),
   paramsId: z.object({
     id: commonSchemas.objectId,
   }),
   create: z.object({
+    ...pengadaanFormFields,
     nama: z.string().min(3),
     vendor: z.string().min(2),
-    nilai: z.union([z.coerce.number(), z.string()]),
+    nilai: amount,
     kategori: z.string().optional(),
     status: z.string().optional(),
-    tanggal: z.string().optional(),
-    deadline: z.string().optional(),
+    deskripsi: z.string().optional(),
+    tanggal: pengadaanDate,
+    deadline: pengadaanDate,
   }),
   update: z.object({
+    ...pengadaanFormFields,
     nama: z.string().min(3).optional(),
     vendor: z.string().min(2).optional(),
-    nilai: z.union([z.coerce.number(), z.string()]).optional(),
+    nilai: pengadaanAmount,
     kategori: z.string().optional(),
     status: z.string().optional(),
     deskripsi: z.string().optional(),
-    tanggal: z.string().optional(),
-    deadline: z.string().optional(),
+    tanggal: pengadaanDate,
+    deadline: pengadaanDate,
+  }),
+  transition: z.object({
+    to: z.nativeEnum(PengadaanStatus),
+    reason: z.string().trim().max(500).optional(),
+  }),
+  approve: z.object({
+    reason: z.string().trim().max(500).optional(),
+  }),
+  reject: z.object({
+    reason: z.string().trim().min(1, 'Reason is required').max(500),
+  }),
+  reviewQueue: z.object({
+    page: z.coerce.number().int().min(1).default(1),
+    limit: z.coerce.number().int().min(1).max(100).default(10),
+  }),
+  exportQuery: z.object({
+    search: z.string().optional(),
+    status: z.string().optional(),
+    kategori: z.string().optional(),
+    sortBy: z.enum(['nama', 'vendor', 'nilai', 'status', 'createdAt', 'updatedAt']).optional(),
+    sortOrder: z.enum(['asc', 'desc']).optional(),
+    startDate: z.string().optional(),
+    endDate: z.string().optional(),
+    slaStatus: z.nativeEnum(SlaStatus).optional(),
+    format: z.enum(['json', 'csv', 'excel']).default('json'),
+    columns: z.string().optional(),
+  }),
+  statsQuery: z.object({
+    tahunAnggaran: z.string().trim().optional(),
+    penggunaBarangJasa: z.string().trim().optional(),
+  }),
+  activityQuery: z.object({
+    limit: z.coerce.number().int().min(1).max(50).default(10),
+    tahunAnggaran: z.string().trim().optional(),
+    penggunaBarangJasa: z.string().trim().optional(),
+  }),
+  analyticsQuery: z.object({
+    ...analyticsFilters,
+    groupBy: csvList(z.enum(ANALYTICS_DIMENSIONS)).refine((value) => value.length <= 3, 'Group by at most 3 dimensions'),
+    measures: csvList(z.nativeEnum(AnalyticsMeasure)).transform((value) =>
+      value.length > 0 ? value : [AnalyticsMeasure.COUNT]
+    ),
+    bucket: z.nativeEnum(AnalyticsBucket).optional(),
+    dateField: z.enum(PENGADAAN_DATE_FIELDS as [string, ...string[]]).default('tanggalPermintaan'),
+    from: z.coerce.date().optional(),
+    to: z.coerce.date().optional(),
+  }),
+  pointInTime: z.object({
+    at: z.coerce.date({ invalid_type_error: 'at must be a valid date' }),
+  }),
+  restore: z.object({
+    blacklistOverrideReason: pengadaanFormFields.blacklistOverrideReason,
+  }),
+  // Multipart fields sent alongside the uploaded spreadsheet
+  importOptions: z.object({
+    dryRun: z.enum(['true', 'false']).default('true').transform((value) => value === 'true'),
+    mapping: z
+      .string()
+      .optional()
+      .transform((value, ctx) => {
+        if (!value) return undefined;
+        try {
+          return JSON.parse(value) as unknown;
+        } catch {
+          ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'mapping must be valid JSON' });
+          return z.NEVER;
+        }
+      })
+      .pipe(z.record(z.string().nullable()).optional()),
+  }),
+  importReportList: z.object({
+    page: z.coerce.number().int().min(1).default(1),
+    limit: z.coerce.number().int().min(1).max(100).default(10),
+  }),
+  importReportQuery: z.object({
+    format: z.enum(['json', 'csv']).default('json'),
+  }),
+  createBackup: z.object({
+    reason: z.string().trim().max(200).optional(),
+  }),
+  restoreBackup: z.object({
+    backupId: z.string().trim().min(1, 'backupId is required'),
+    mode: z.enum(['replace', 'merge']).default('merge'),
+    dryRun: z.boolean().default(true),
+    collections: z.array(z.enum(BACKUP_COLLECTIONS)).min(1).optional(),
+  }),
+  recycleBinList: z.object({
+    page: z.coerce.number().int().min(1).default(1),
+    limit: z.coerce.number().int().min(1).max(100).default(10),
+  }),
+  purge: z.object({
+    confirm: z.literal('PURGE_ALL_DATA', {
+      errorMap: () => ({ message: 'Confirmation required. Send { "confirm": "PURGE_ALL_DATA" } to proceed.' }),
+    }),
+  }),
+  auditLogList: z.object({
+    page: z.coerce.number().int().min(1).default(1),
+    limit: z.coerce.number().int().min(1).max(100).default(20),
+    action: z.nativeEnum(AuditAction).optional(),
+  }),
+};
+
+const vendorFields = {
+  nama: z.string().trim().min(2, 'Vendor name is required').max(200),
+  npwp: z
+    .string()
+    .trim()
+    .refine((value) => /^(\d{15}|\d{16})$/.test(value.replace(/\D/g, '')), 'NPWP must have 15 or 16 digits')
+    .optional(),
+  alamat: z.string().trim().max(500).optional(),
+  statusUmkm: z.nativeEnum(VendorUmkmStatus),
+  bankAccount: z
+    .object({
+      namaBank: z.string().trim().min(1),
+      nomorRekening: z.string().trim().min(1),
+      atasNama: z.string().trim().min(1),
+    })
+    .optional(),
+  contacts: z
+    .array(
+      z.object({
+        nama: z.string().trim().min(1).max(100),
+        jabatan: z.string().trim().optional(),
+        email: z.string().trim().email().optional(),
+        telepon: z.string().trim().optional(),
+      })
+    )
+    .max(20)
+    .optional(),
+  isActive: z.boolean().optional(),
+};
+
+const ratingScore = z.number().int().min(1, 'Score must be between 1 and 5').max(5, 'Score must be between 1 and 5');
+
+export const vendorSchemas = {
+  create: z.object(vendorFields),
+  update: z.object(vendorFields).partial(),
+  query: z.object({
+    page: z.coerce.number().int().min(1).default(1),
+    limit: z.coerce.number().int().min(1).max(100).default(20),
+    search: z.string().trim().optional(),
+    status: z.enum(['active', 'inactive', 'blacklisted']).optional(),
+    statusUmkm: z.nativeEnum(VendorUmkmStatus).optional(),
+  }),
+  linkSuggestions: z.object({
+    threshold: z.coerce.number().min(0).max(1).default(0.6),
+    limit: z.coerce.number().int().min(1).max(10).default(3),
+  }),
+  applyLinks: z.object({
+    links: z
+      .array(
+        z.object({
+          name: z.string().min(1),
+          vendorId: commonSchemas.objectId,
+        })
+      )
+      .min(1, 'At least one link is required'),
+  }),
+  blacklistQuery: z.object({
+    page: z.coerce.number().int().min(1).default(1),
+    limit: z.coerce.number().int().min(1).max(100).default(20),
+    vendorId: commonSchemas.objectId.optional(),
+    status: z.enum(['active', 'upcoming', 'expired', 'revoked']).optional(),
+  }),
+  blacklistCreate: z
+    .object({
+      vendorId: commonSchemas.objectId,
+      reason: z.string().trim().min(1, 'Reason is required').max(1000),
+      startDate: z.coerce.date(),
+      endDate: z.coerce.date(),
+      referenceDocument: z.string().trim().min(1, 'Reference document is required').max(200),
+    })
+    .refine((data) => data.endDate >= data.startDate, {
+      message: 'End date cannot be before start date',
+      path: ['endDate'],
+    }),
+  blacklistRevoke: z.object({
+    reason: z.string().trim().min(1, 'Reason is required').max(1000),
+  }),
+  rating: z.object({
+    timeliness: ratingScore,
+    quality: ratingScore,
+    compliance: ratingScore,
+    comment: z.string().trim().max(1000).optional(),
+  }),
+};
+
+const budgetFields = {
+  tahunAnggaran: z.coerce.number().int().min(2000).max(2100),
+  jenisAnggaran: z.nativeEnum(JenisAnggaran),
+  penggunaBarangJasa: z.string().trim().min(1, 'User unit is required').max(200),
+  pagu: z.coerce.number().min(0, 'Budget ceiling cannot be negative'),
+  keterangan: z.string().trim().max(1000).optional(),
+};
+
+const budgetFilterFields = {
+  tahunAnggaran: budgetFields.tahunAnggaran.optional(),
+  jenisAnggaran: budgetFields.jenisAnggaran.optional(),
+  penggunaBarangJasa: z.string().trim().optional(),
+};
+
+export const budgetSchemas = {
+  create: z.object(budgetFields),
+  update: z.object(budgetFields).partial(),
+  query: z.object({
+    page: z.coerce.number().int().min(1).default(1),
+    limit: z.coerce.number().int().min(1).max(100).default(20),
+    ...budgetFilterFields,
+  }),
+  absorption: z.object(budgetFilterFields),
+  check: z.object({
+    tahunAnggaran: z.string().trim().min(1),
+    jenisAnggaran: z.string().trim().min(1),
+    penggunaBarangJasa: z.string().trim().min(1),
+    amount: z.coerce.number().min(0),
+  }),
+};
+
+const foreignCurrency = z.enum(FOREIGN_CURRENCIES as [Currency, ...Currency[]]);
+const exchangeRateValue = z.coerce.number().positive('Rate must be greater than zero');
+
+export const exchangeRateSchemas = {
+  create: z.object({
+    currency: foreignCurrency,
+    date: z.coerce.date(),
+    rate: exchangeRateValue,
+    source: z.string().trim().max(200).optional(),
+  }),
+  update: z.object({
+    rate: exchangeRateValue.optional(),
+    source: z.string().trim().max(200).optional(),
+  }),
+  query: z.object({
+    page: z.coerce.number().int().min(1).default(1),
+    limit: z.coerce.number().int().min(1).max(100).default(20),
+    currency: foreignCurrency.optional(),
+    dateFrom: z.coerce.date().optional(),
+    dateTo: z.coerce.date().optional(),
+  }),
+  effective: z.object({
+    currency: z.nativeEnum(Currency),
+    date: z.coerce.date().optional(),
+  }),
+};
+
+const calendarYear = z.coerce.number().int().min(2000).max(2100);
+
+export const calendarSchemas = {
+  holidayQuery: z.object({
+    tahun: calendarYear.optional(),
+    jenis: z.nativeEnum(HolidayType).optional(),
+  }),
+  createHoliday: z.object({
+    date: z.coerce.date(),
+    name: z.string().trim().min(1, 'Holiday name is required').max(200),
+    jenis: z.nativeEnum(HolidayType),
+  }),
+  updateHoliday: z.object({
+    date: z.coerce.date().optional(),
+    name: z.string().trim().min(1, 'Holiday name is required').max(200).optional(),
+    jenis: z.nativeEnum(HolidayType).optional(),
+  }),
+  seedHolidays: z.object({
+    tahun: calendarYear.optional(),
+  }),
+  workingDays: z.object({
+    from: z.coerce.date(),
+    to: z.coerce.date(),
+  }),
+  addWorkingDays: z.object({
+    from: z.coerce.date(),
+    days: z.coerce.number().int().min(-3650).max(3650),
+  }),
+};
+
+const slaDateField = z.enum(SLA_DATE_FIELDS as [string, ...string[]]);
+
+export const slaSchemas = {
+  createTarget: z.object({
+    metodePengadaan: z.string().trim().min(1, 'Metode pengadaan is required').max(200),
+    jenisPengadaan: z.string().trim().max(200).nullable().optional(),
+    hariKerja: z.coerce.number().int().min(1),
+    dari: slaDateField.default('tanggalPerintahPengadaan'),
+    sampai: slaDateField.default('suratPenunjukan'),
+    keterangan: z.string().trim().max(500).optional(),
+  }),
+  updateTarget: z.object({
+    metodePengadaan: z.string().trim().min(1, 'Metode pengadaan is required').max(200).optional(),
+    jenisPengadaan: z.string().trim().max(200).nullable().optional(),
+    hariKerja: z.coerce.number().int().min(1).optional(),
+    dari: slaDateField.optional(),
+    sampai: slaDateField.optional(),
+    keterangan: z.string().trim().max(500).optional(),
+  }),
+};
+
+export const reportSchemas = {
+  // Report parameters vary per report; the service keeps the ones the report takes
+  run: z
+    .object({
+      format: z.nativeEnum(ReportFormat).default(ReportFormat.JSON),
+    })
+    .catchall(z.string().trim().max(200)),
+};
+
+const cronExpression = z
+  .string()
+  .trim()
+  .min(1, 'Cron expression is required')
+  .max(100)
+  .refine(
+    (value) => {
+      try {
+        parseCron(value);
+        return true;
+      } catch {
+        return false;
+      }
+    },
+    { message: 'Invalid cron expression (minute hour day-of-month month day-of-week)' }
+  );
+
+const scheduleRecipients = z
+  .array(z.string().trim().toLowerCase().email())
+  .min(1, 'At least one recipient is required')
+  .max(50)
+  .transform((value) => [...new Set(value)]);
+
+export const scheduleSchemas = {
+  create: z.object({
+    nama: z.string().trim().min(1, 'Schedule name is required').max(200),
+    reportId: z.string().trim().min(1, 'Report is required').max(100),
+    params: z.record(z.string().trim().max(200)).optional(),
+    format: z.enum(SCHEDULE_FORMATS),
+    cron: cronExpression,
+    recipients: scheduleRecipients,
+    aktif: z.boolean().optional(),
+  }),
+  update: z.object({
+    nama: z.string().trim().min(1, 'Schedule name is required').max(200).optional(),
+    reportId: z.string().trim().min(1, 'Report is required').max(100).optional(),
+    params: z.record(z.string().trim().max(200)).optional(),
+    format: z.enum(SCHEDULE_FORMATS).optional(),
+    cron: cronExpression.optional(),
+    recipients: scheduleRecipients.optional(),
+    aktif: z.boolean().optional(),
+  }),
+};
+
+const templateKey = z
+  .string()
+  .trim()
+  .toLowerCase()
+  .max(60)
+  .regex(TEMPLATE_KEY_PATTERN, 'Template key may only contain lowercase letters, digits and dashes');
+
+export const documentSchemas = {
+  createTemplate: z.object({
+    key: templateKey,
+    nama: z.string().trim().min(1, 'Template name is required').max(200),
+    isi: z.string().min(1, 'Template content is required').max(20000),
+    keterangan: z.string().trim().max(500).optional(),
+  }),
+  updateTemplate: z.object({
+    key: templateKey.optional(),
+    nama: z.string().trim().min(1, 'Template name is required').max(200).optional(),
+    isi: z.string().min(1, 'Template content is required').max(20000).optional(),
+    keterangan: z.string().trim().max(500).optional(),
   }),
 };
 
 export type ValidatedCreatePengadaan = z.infer<typeof pengadaanSchemas.create>;
-export type ValidatedUpdatePengadaan = z.infer<typeof pengadaanSchemas.update>;
\ No newline at end of file
+export type ValidatedUpdatePengadaan = z.infer<typeof pengadaanSchemas.update>;
+export type ValidatedTransitionPengadaan = z.infer<typeof pengadaanSchemas.transition>;
+export type ValidatedApprovePengadaan = z.infer<typeof pengadaanSchemas.approve>;
+export type ValidatedRejectPengadaan = z.infer<typeof pengadaanSchemas.reject>;
+export type ValidatedReviewQueue = z.infer<typeof pengadaanSchemas.reviewQueue>;
+export type ValidatedExportQuery = z.infer<typeof pengadaanSchemas.exportQuery>;
+export type ValidatedStatsQuery = z.infer<typeof pengadaanSchemas.statsQuery>;
+export type ValidatedActivityQuery = z.infer<typeof pengadaanSchemas.activityQuery>;
+export type ValidatedAnalyticsQuery = z.infer<typeof pengadaanSchemas.analyticsQuery>;
+export type ValidatedPointInTime = z.infer<typeof pengadaanSchemas.pointInTime>;
+export type ValidatedRestorePengadaan = z.infer<typeof pengadaanSchemas.restore>;
+export type ValidatedImportOptions = z.infer<typeof pengadaanSchemas.importOptions>;
+export type ValidatedImportReportList = z.infer<typeof pengadaanSchemas.importReportList>;
+export type ValidatedImportReportQuery = z.infer<typeof pengadaanSchemas.importReportQuery>;
+export type ValidatedCreateBackup = z.infer<typeof pengadaanSchemas.createBackup>;
+export type ValidatedRestoreBackup = z.infer<typeof pengadaanSchemas.restoreBackup>;
+export type ValidatedRecycleBinList = z.infer<typeof pengadaanSchemas.recycleBinList>;
+export type ValidatedAuditLogList = z.infer<typeof pengadaanSchemas.auditLogList>;
+export type ValidatedCreateVendor = z.infer<typeof vendorSchemas.create>;
+export type ValidatedUpdateVendor = z.infer<typeof vendorSchemas.update>;
+export type ValidatedVendorQuery = z.infer<typeof vendorSchemas.query>;
+export type ValidatedVendorLinkSuggestions = z.infer<typeof vendorSchemas.linkSuggestions>;
+export type ValidatedApplyVendorLinks = z.infer<typeof vendorSchemas.applyLinks>;
+export type ValidatedVendorRating = z.infer<typeof vendorSchemas.rating>;
+export type ValidatedBlacklistQuery = z.infer<typeof vendorSchemas.blacklistQuery>;
+export type ValidatedCreateBlacklistEntry = z.infer<typeof vendorSchemas.blacklistCreate>;
+export type ValidatedRevokeBlacklistEntry = z.infer<typeof vendorSchemas.blacklistRevoke>;
+export type ValidatedCreateBudget = z.infer<typeof budgetSchemas.create>;
+export type ValidatedUpdateBudget = z.infer<typeof budgetSchemas.update>;
+export type ValidatedBudgetQuery = z.infer<typeof budgetSchemas.query>;
+export type ValidatedBudgetAbsorption = z.infer<typeof budgetSchemas.absorption>;
+export type ValidatedBudgetCheck = z.infer<typeof budgetSchemas.check>;
+export type ValidatedCreateExchangeRate = z.infer<typeof exchangeRateSchemas.create>;
+export type ValidatedUpdateExchangeRate = z.infer<typeof exchangeRateSchemas.update>;
+export type ValidatedExchangeRateQuery = z.infer<typeof exchangeRateSchemas.query>;
+export type ValidatedEffectiveExchangeRate = z.infer<typeof exchangeRateSchemas.effective>;
+export type ValidatedHolidayQuery = z.infer<typeof calendarSchemas.holidayQuery>;
+export type ValidatedCreateHoliday = z.infer<typeof calendarSchemas.createHoliday>;
+export type ValidatedUpdateHoliday = z.infer<typeof calendarSchemas.updateHoliday>;
+export type ValidatedSeedHolidays = z.infer<typeof calendarSchemas.seedHolidays>;
+export type ValidatedWorkingDays = z.infer<typeof calendarSchemas.workingDays>;
+export type ValidatedAddWorkingDays = z.infer<typeof calendarSchemas.addWorkingDays>;
+export type ValidatedCreateSlaTarget = z.infer<typeof slaSchemas.createTarget>;
+export type ValidatedUpdateSlaTarget = z.infer<typeof slaSchemas.updateTarget>;
+export type ValidatedRunReport = z.infer<typeof reportSchemas.run>;
+export type ValidatedCreateDocumentTemplate = z.infer<typeof documentSchemas.createTemplate>;
+export type ValidatedUpdateDocumentTemplate = z.infer<typeof documentSchemas.updateTemplate>;
+export type ValidatedCreateReportSchedule = z.infer<typeof scheduleSchemas.create>;
+export type ValidatedUpdateReportSchedule = z.infer<typeof scheduleSchemas.update>;
@@ -0,0 +1,47 @@
+import { formatDateOnly, parseDateOnly } from './date';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Whether a date is a hari kerja: Monday to Friday and not a listed holiday ("YYYY-MM-DD")
+ */
+export const isWorkingDay = (date: Date, holidays: ReadonlySet<string>): boolean => {
+  const day = date.getUTCDay();
+  return day !== 0 && day !== 6 && !holidays.has(formatDateOnly(date));
+};
+
+/**
+ * Working days from `from` to `to`: the working days after `from` up to and
+ * including `to`, so the same day counts 0. Negative when `to` is earlier.
+ */
+export const countWorkingDays = (from: Date, to: Date, holidays: ReadonlySet<string>): number => {
+  const start = parseDateOnly(from) as Date;
+  const end = parseDateOnly(to) as Date;
+  if (end < start) {
+    return -countWorkingDays(end, start, holidays);
+  }
+
+  let count = 0;
+  for (let time = start.getTime() + DAY_MS; time <= end.getTime(); time += DAY_MS) {
+    if (isWorkingDay(new Date(time), holidays)) {
+      count += 1;
+    }
+  }
+  return count;
+};
+
+/**
+ * The date `days` working days after `from` (before it when negative),
+ * so that countWorkingDays(from, result) === days. Zero returns `from` itself.
+ */
+export const addWorkingDays = (from: Date, days: number, holidays: ReadonlySet<string>): Date => {
+  const step = days < 0 ? -DAY_MS : DAY_MS;
+  let time = (parseDateOnly(from) as Date).getTime();
+  for (let remaining = Math.abs(days); remaining > 0; ) {
+    time += step;
+    if (isWorkingDay(new Date(time), holidays)) {
+      remaining -= 1;
+    }
+  }
+  return new Date(time);
+};
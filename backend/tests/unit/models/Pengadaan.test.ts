@@ -0,0 +1,73 @@
+import { Types } from 'mongoose';
+import PengadaanModel from '../../../src/models/Pengadaan';
+import { UserRole } from '../../../src/models/User';
+import { PengadaanStatus } from '../../../src/types/pengadaan';
+
+describe('Pengadaan Model', () => {
+  const ownerId = new Types.ObjectId().toString();
+  const adminId = new Types.ObjectId().toString();
+
+  const buildPengadaan = () =>
+    new PengadaanModel({
+      id: 'PGD-001',
+      createdBy: ownerId,
+      status: PengadaanStatus.DRAFT,
+    });
+
+  describe('canUserEdit', () => {
+    it('should let the owner edit an unsubmitted draft', () => {
+      const pengadaan = buildPengadaan();
+      expect(pengadaan.canUserEdit(ownerId, UserRole.USER)).toBe(true);
+    });
+
+    it('should not let other users edit', () => {
+      const pengadaan = buildPengadaan();
+      expect(pengadaan.canUserEdit(new Types.ObjectId().toString(), UserRole.USER)).toBe(false);
+    });
+
+    it('should always let admins edit', () => {
+      const pengadaan = buildPengadaan();
+      pengadaan.submitForm(ownerId);
+      expect(pengadaan.canUserEdit(adminId, UserRole.ADMIN)).toBe(true);
+    });
+  });
+
+  describe('Review workflow', () => {
+    it('should lock the form and record history on submit', () => {
+      const pengadaan = buildPengadaan();
+      pengadaan.submitForm(ownerId);
+
+      expect(pengadaan.status).toBe(PengadaanStatus.SUBMITTED);
+      expect(pengadaan.isEditable).toBe(false);
+      expect(pengadaan.submittedAt).toBeInstanceOf(Date);
+      expect(pengadaan.canUserEdit(ownerId, UserRole.USER)).toBe(false);
+      expect(pengadaan.editHistory[0]?.action).toBe('submitted');
+      expect(pengadaan.editHistory[0]?.changes).toEqual({
+        status: { from: PengadaanStatus.DRAFT, to: PengadaanStatus.SUBMITTED },
+      });
+    });
+
+    it('should set status to approved on approve', () => {
+      const pengadaan = buildPengadaan();
+      pengadaan.submitForm(ownerId);
+      pengadaan.status = PengadaanStatus.IN_REVIEW;
+      pengadaan.approveForm(adminId, 'Sesuai');
+
+      expect(pengadaan.status).toBe(PengadaanStatus.APPROVED);
+      expect(pengadaan.editHistory[1]?.reason).toBe('Sesuai');
+    });
+
+    it('should reopen the form for its owner on reject', () => {
+      const pengadaan = buildPengadaan();
+      pengadaan.submitForm(ownerId);
+      pengadaan.rejectForm(adminId, 'HPS belum lengkap');
+
+      expect(pengadaan.status).toBe(PengadaanStatus.REJECTED);
+      expect(pengadaan.isEditable).toBe(true);
+      expect(pengadaan.submittedAt).toBeUndefined();
+      expect(pengadaan.canUserEdit(ownerId, UserRole.USER)).toBe(true);
+      expect(pengadaan.editHistory[1]?.action).toBe('rejected');
+      expect(pengadaan.editHistory[1]?.reason).toBe('HPS belum lengkap');
+    });
+  });
+});
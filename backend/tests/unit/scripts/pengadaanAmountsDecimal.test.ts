@@ -0,0 +1,31 @@
+import { Types } from 'mongoose';
+import { toDecimalAmounts, toTextAmounts } from '../../../src/scripts/migrations/001-pengadaan-amounts-decimal';
+
+describe('Pengadaan amounts migration', () => {
+  it('should convert text and number amounts to Decimal128', () => {
+    const { set, invalid } = toDecimalAmounts({
+      nilai: '1.500.000',
+      nilaiHpsAmount: 2500.5,
+      costSavingRp: ' ',
+      nilaiKontrakUsd: 'n/a',
+      nilaiHpsEqRupiah: Types.Decimal128.fromString('10'),
+      namaPaket: '123',
+    });
+
+    expect(Object.keys(set).sort()).toEqual(['costSavingRp', 'nilai', 'nilaiHpsAmount']);
+    expect(String(set['nilai'])).toBe('1500000');
+    expect(String(set['nilaiHpsAmount'])).toBe('2500.5');
+    expect(set['costSavingRp']).toBeNull();
+    expect(invalid).toEqual(['nilaiKontrakUsd']);
+  });
+
+  it('should revert Decimal128 amounts to text', () => {
+    const { set } = toTextAmounts({
+      nilai: Types.Decimal128.fromString('1500000'),
+      costSavingRp: null,
+      nilaiHpsAmount: 'legacy',
+    });
+
+    expect(set).toEqual({ nilai: '1500000', costSavingRp: '' });
+  });
+});
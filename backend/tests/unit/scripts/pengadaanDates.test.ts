@@ -0,0 +1,41 @@
+import { toDateFields, toTextDateFields } from '../../../src/scripts/migrations/002-pengadaan-dates';
+
+describe('Pengadaan dates migration', () => {
+  it('should convert text dates and recompute the durations', () => {
+    const { set, invalid } = toDateFields(
+      {
+        tanggalPermintaanDiterima: '01/03/2024',
+        tanggalPerintahPengadaan: '2024-03-08',
+        suratPenunjukan: '2024-03-01',
+        tanggalRevisiPermintaan: '',
+        kontrakTanggal: 'segera',
+        lamaProsesPersiapan: '10 hari',
+      },
+      new Set()
+    );
+
+    expect(set['tanggalPermintaanDiterima']).toEqual(new Date('2024-03-01T00:00:00.000Z'));
+    expect(set['tanggalRevisiPermintaan']).toBeNull();
+    expect(set).not.toHaveProperty('kontrakTanggal');
+    expect(set['lamaProsesPersiapan']).toBe(5);
+    expect(set['lamaRevisiPermintaan']).toBeNull();
+    expect(set['lamaProsesPengadaan']).toBeNull();
+    expect(invalid).toEqual(['kontrakTanggal', 'lamaProsesPengadaan']);
+  });
+
+  it('should revert dates and durations to text', () => {
+    const { set } = toTextDateFields({
+      tanggalPermintaan: new Date('2024-03-01T00:00:00.000Z'),
+      kontrakTanggal: null,
+      lamaProsesPersiapan: 5,
+      lamaRevisiPermintaan: null,
+    });
+
+    expect(set).toEqual({
+      tanggalPermintaan: '2024-03-01',
+      kontrakTanggal: '',
+      lamaProsesPersiapan: '5',
+      lamaRevisiPermintaan: '',
+    });
+  });
+});
@@ -0,0 +1,130 @@
+import mongoose from 'mongoose';
+import {
+  buildAnalyticsPipeline,
+  formatPeriod,
+  toAnalyticsRow,
+} from '../../../src/services/analyticsService';
+import { AnalyticsBucket, AnalyticsMeasure, AnalyticsQuery } from '../../../src/types/pengadaan';
+import { pengadaanSchemas } from '../../../src/utils/validation';
+
+const query = (overrides: Partial<AnalyticsQuery> = {}): AnalyticsQuery => ({
+  groupBy: [],
+  measures: [AnalyticsMeasure.COUNT],
+  dateField: 'tanggalPermintaan',
+  filters: {},
+  ...overrides,
+});
+
+describe('Analytics Service', () => {
+  describe('formatPeriod', () => {
+    it('should label months, quarters and years', () => {
+      expect(formatPeriod(AnalyticsBucket.MONTH, 2024, 3)).toBe('2024-03');
+      expect(formatPeriod(AnalyticsBucket.QUARTER, 2024, 1)).toBe('2024 TW I');
+      expect(formatPeriod(AnalyticsBucket.QUARTER, 2024, 4)).toBe('2024 TW IV');
+      expect(formatPeriod(AnalyticsBucket.YEAR, 2024, 0)).toBe('2024');
+    });
+  });
+
+  describe('buildAnalyticsPipeline', () => {
+    it('should group by the dimensions with the requested measures, largest first', () => {
+      const pipeline = buildAnalyticsPipeline(
+        query({
+          groupBy: ['metodePengadaan', 'picTimPpsm'],
+          measures: [AnalyticsMeasure.HPS, AnalyticsMeasure.COUNT],
+          filters: { tahunAnggaran: '2024' },
+        })
+      );
+
+      expect(pipeline).toEqual([
+        { $match: { tahunAnggaran: '2024' } },
+        {
+          $group: {
+            _id: { metodePengadaan: '$metodePengadaan', picTimPpsm: '$picTimPpsm' },
+            hps: { $sum: '$nilaiHpsEqRupiah' },
+            count: { $sum: 1 },
+          },
+        },
+        { $sort: { hps: -1 } },
+      ]);
+    });
+
+    it('should bucket quarters on the date field and order by period', () => {
+      const from = new Date('2024-01-01T00:00:00.000Z');
+      const pipeline = buildAnalyticsPipeline(query({ bucket: AnalyticsBucket.QUARTER, from }));
+
+      expect(pipeline[0]).toEqual({ $match: { tanggalPermintaan: { $type: 'date', $gte: from } } });
+      expect(pipeline[1]).toEqual({
+        $group: {
+          _id: {
+            tahun: { $year: '$tanggalPermintaan' },
+            bagian: { $ceil: { $divide: [{ $month: '$tanggalPermintaan' }, 3] } },
+          },
+          count: { $sum: 1 },
+        },
+      });
+      expect(pipeline[2]).toEqual({ $sort: { '_id.tahun': 1, '_id.bagian': 1, count: -1 } });
+    });
+
+    it('should total everything in one group without dimensions or bucket', () => {
+      const pipeline = buildAnalyticsPipeline(query({ measures: [AnalyticsMeasure.KONTRAK] }));
+
+      expect(pipeline[0]).toEqual({ $match: {} });
+      expect(pipeline[1]).toEqual({ $group: { _id: null, kontrak: { $sum: '$nilaiKontrakRupiah' } } });
+    });
+  });
+
+  describe('toAnalyticsRow', () => {
+    it('should flatten dimensions, period and measures', () => {
+      const row = toAnalyticsRow(
+        {
+          _id: { metodePengadaan: 'Tender', picTimPpsm: null, tahun: 2024, bagian: 2 },
+          count: 3,
+          costSaving: mongoose.Types.Decimal128.fromString('1500000.50'),
+        },
+        query({
+          groupBy: ['metodePengadaan', 'picTimPpsm'],
+          measures: [AnalyticsMeasure.COUNT, AnalyticsMeasure.COST_SAVING],
+          bucket: AnalyticsBucket.QUARTER,
+        })
+      );
+
+      expect(row).toEqual({
+        metodePengadaan: 'Tender',
+        picTimPpsm: null,
+        periode: '2024 TW II',
+        count: 3,
+        costSaving: 1500000.5,
+      });
+    });
+
+    it('should read a missing sum as zero', () => {
+      const row = toAnalyticsRow({ _id: null, hps: null }, query({ measures: [AnalyticsMeasure.HPS] }));
+
+      expect(row).toEqual({ hps: 0 });
+    });
+  });
+
+  describe('analyticsQuery validation', () => {
+    it('should parse comma lists and default to counting', () => {
+      const parsed = pengadaanSchemas.analyticsQuery.parse({
+        groupBy: 'metodePengadaan, picTimPpsm,metodePengadaan',
+        bucket: 'quarter',
+        metodePengadaan: 'Tender',
+      });
+
+      expect(parsed.groupBy).toEqual(['metodePengadaan', 'picTimPpsm']);
+      expect(parsed.measures).toEqual([AnalyticsMeasure.COUNT]);
+      expect(parsed.dateField).toBe('tanggalPermintaan');
+      expect(parsed.metodePengadaan).toBe('Tender');
+    });
+
+    it('should reject unknown dimensions and more than 3 groups', () => {
+      expect(pengadaanSchemas.analyticsQuery.safeParse({ groupBy: 'vendorSecret' }).success).toBe(false);
+      expect(
+        pengadaanSchemas.analyticsQuery.safeParse({
+          groupBy: 'metodePengadaan,jenisPengadaan,picTimPpsm,kategoriRisiko',
+        }).success
+      ).toBe(false);
+    });
+  });
+});
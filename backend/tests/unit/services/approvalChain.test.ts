@@ -0,0 +1,104 @@
+import {
+  buildApprovalChain,
+  canDecideStep,
+  createApprovalChainRules,
+  findDutyConflict,
+  getCurrentStep,
+  isChainApproved,
+  resolveApprovalSteps,
+} from '../../../src/services/approvalChain';
+import { ApprovalDecision } from '../../../src/types/pengadaan';
+import { ApproverRole, UserRole } from '../../../src/models/User';
+
+const rules = createApprovalChainRules(1000000000, ['Penunjukan Langsung']);
+
+describe('Approval Chain', () => {
+  describe('resolveApprovalSteps', () => {
+    it('should only require a manager below the threshold', () => {
+      expect(resolveApprovalSteps(rules, { metodePengadaan: 'Tender', nilaiHpsEqRupiah: '50000000' }))
+        .toEqual([ApproverRole.MANAGER]);
+    });
+
+    it('should add the director from the HPS threshold', () => {
+      expect(resolveApprovalSteps(rules, { metodePengadaan: 'Tender', nilaiHpsEqRupiah: '1000000000' }))
+        .toEqual([ApproverRole.MANAGER, ApproverRole.DIRECTOR]);
+    });
+
+    it('should require the board for listed methods regardless of value', () => {
+      expect(resolveApprovalSteps(rules, { metodePengadaan: ' penunjukan langsung ', nilaiHpsEqRupiah: '10' }))
+        .toEqual([ApproverRole.MANAGER, ApproverRole.DIRECTOR, ApproverRole.BOARD]);
+    });
+
+    it('should treat a missing HPS as zero', () => {
+      expect(resolveApprovalSteps(rules, {})).toEqual([ApproverRole.MANAGER]);
+    });
+  });
+
+  describe('buildApprovalChain', () => {
+    it('should number steps and start them pending', () => {
+      const chain = buildApprovalChain(rules, { nilaiHpsEqRupiah: '2000000000' });
+
+      expect(chain).toEqual([
+        { step: 1, approverRole: ApproverRole.MANAGER, decision: ApprovalDecision.PENDING },
+        { step: 2, approverRole: ApproverRole.DIRECTOR, decision: ApprovalDecision.PENDING },
+      ]);
+      expect(getCurrentStep(chain)?.step).toBe(1);
+      expect(isChainApproved(chain)).toBe(false);
+    });
+  });
+
+  describe('getCurrentStep / isChainApproved', () => {
+    it('should advance past approved steps and finish when all are approved', () => {
+      const chain = buildApprovalChain(rules, { nilaiHpsEqRupiah: '2000000000' });
+      chain[0]!.decision = ApprovalDecision.APPROVED;
+      expect(getCurrentStep(chain)?.approverRole).toBe(ApproverRole.DIRECTOR);
+
+      chain[1]!.decision = ApprovalDecision.APPROVED;
+      expect(getCurrentStep(chain)).toBeUndefined();
+      expect(isChainApproved(chain)).toBe(true);
+    });
+
+    it('should not treat an empty chain as approved', () => {
+      expect(isChainApproved([])).toBe(false);
+    });
+  });
+
+  describe('canDecideStep', () => {
+    const step = { step: 2, approverRole: ApproverRole.DIRECTOR, decision: ApprovalDecision.PENDING };
+
+    it('should allow admins and holders of the step role', () => {
+      expect(canDecideStep(step, { role: UserRole.ADMIN })).toBe(true);
+      expect(canDecideStep(step, { role: UserRole.USER, approverRoles: [ApproverRole.DIRECTOR] })).toBe(true);
+    });
+
+    it('should deny users without the step role', () => {
+      expect(canDecideStep(step, { role: UserRole.USER, approverRoles: [ApproverRole.MANAGER] })).toBe(false);
+      expect(canDecideStep(step, { role: UserRole.USER })).toBe(false);
+    });
+  });
+
+  describe('findDutyConflict', () => {
+    const creatorId = '665f1c2e8b3a4d0012345601';
+    const managerId = '665f1c2e8b3a4d0012345602';
+    const chain = [
+      { step: 1, approverRole: ApproverRole.MANAGER, decision: ApprovalDecision.APPROVED, decidedBy: managerId },
+      { step: 2, approverRole: ApproverRole.DIRECTOR, decision: ApprovalDecision.PENDING },
+    ];
+
+    it('should not let the creator decide on their own package', () => {
+      expect(findDutyConflict(chain, creatorId, creatorId)).toBe(
+        'The creator of a pengadaan cannot decide on its approval'
+      );
+    });
+
+    it('should not let one user decide a second step of the same chain', () => {
+      expect(findDutyConflict(chain, managerId, creatorId)).toBe(
+        'Approval step 1 was already decided by the same user'
+      );
+    });
+
+    it('should allow any other user', () => {
+      expect(findDutyConflict(chain, '665f1c2e8b3a4d0012345603', creatorId)).toBeUndefined();
+    });
+  });
+});
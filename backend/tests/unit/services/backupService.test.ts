@@ -0,0 +1,119 @@
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { Types } from 'mongoose';
+import backupService, {
+  BACKUP_ID_PATTERN,
+  decodeArchiveLine,
+  encodeArchiveLine,
+  selectExpiredBackups,
+} from '../../../src/services/backupService';
+import DocumentTemplateModel from '../../../src/models/DocumentTemplate';
+import { config } from '../../../src/config/environment';
+import { ValidationError } from '../../../src/utils/errors';
+
+describe('Backup Service', () => {
+  describe('archive lines', () => {
+    it('should round-trip documents with ObjectIds and dates', () => {
+      const _id = new Types.ObjectId();
+      const createdAt = new Date('2024-05-01T08:30:00.000Z');
+      const line = encodeArchiveLine({
+        type: 'document',
+        collection: 'pengadaan',
+        document: { _id, createdAt, namaPaket: 'Paket A', editHistory: [{ userId: _id }] },
+      });
+
+      expect(line.endsWith('\n')).toBe(true);
+      const decoded = decodeArchiveLine(line.trim());
+      expect(decoded.type).toBe('document');
+      if (decoded.type !== 'document') return;
+      expect(decoded.collection).toBe('pengadaan');
+      expect(decoded.document['_id']).toBeInstanceOf(Types.ObjectId);
+      expect(String(decoded.document['_id'])).toBe(String(_id));
+      expect(decoded.document['createdAt']).toEqual(createdAt);
+      expect(decoded.document['namaPaket']).toBe('Paket A');
+    });
+
+    it('should read the header line', () => {
+      const line = encodeArchiveLine({
+        type: 'header',
+        format: 'procure-flow-backup',
+        formatVersion: 1,
+        id: 'backup-20240501T083000000Z',
+      });
+      expect(decodeArchiveLine(line.trim())).toEqual({
+        type: 'header',
+        format: 'procure-flow-backup',
+        formatVersion: 1,
+        id: 'backup-20240501T083000000Z',
+      });
+    });
+
+    it('should reject malformed lines and unknown collections', () => {
+      expect(() => decodeArchiveLine('{not json')).toThrow(ValidationError);
+      expect(() =>
+        decodeArchiveLine(JSON.stringify({ type: 'document', collection: 'sessions', document: {} }))
+      ).toThrow(ValidationError);
+    });
+  });
+
+  describe('BACKUP_ID_PATTERN', () => {
+    it('should only accept generated IDs', () => {
+      expect(BACKUP_ID_PATTERN.test('backup-20240501T083000000Z')).toBe(true);
+      expect(BACKUP_ID_PATTERN.test('../backup-20240501T083000000Z')).toBe(false);
+      expect(BACKUP_ID_PATTERN.test('backup-latest')).toBe(false);
+    });
+  });
+
+  describe('selectExpiredBackups', () => {
+    const now = new Date('2024-06-30T00:00:00.000Z');
+    const manifests = [
+      { id: 'a', createdAt: '2024-06-29T00:00:00.000Z' },
+      { id: 'b', createdAt: '2024-06-20T00:00:00.000Z' },
+      { id: 'c', createdAt: '2024-06-25T00:00:00.000Z' },
+      { id: 'd', createdAt: '2024-04-01T00:00:00.000Z' },
+    ];
+
+    it('should keep only the newest backups beyond the count limit', () => {
+      expect(selectExpiredBackups(manifests, now, 2, 0)).toEqual(['b', 'd']);
+    });
+
+    it('should drop backups older than the age limit', () => {
+      expect(selectExpiredBackups(manifests, now, 0, 30)).toEqual(['d']);
+    });
+
+    it('should keep everything when both rules are disabled', () => {
+      expect(selectExpiredBackups(manifests, now, 0, 0)).toEqual([]);
+    });
+  });
+
+  describe('restoreBackup', () => {
+    let backupPath: string;
+
+    beforeEach(async () => {
+      backupPath = await fs.mkdtemp(path.join(os.tmpdir(), 'backups-'));
+      jest.replaceProperty(config, 'backupPath', backupPath);
+    });
+
+    afterEach(async () => {
+      await fs.rm(backupPath, { recursive: true, force: true });
+    });
+
+    it('should restore only the selected document templates', async () => {
+      await DocumentTemplateModel.create({ key: 'berita-acara', nama: 'Berita Acara', isi: 'Paket {{namaPaket}}' });
+      const manifest = await backupService.createBackup(new Types.ObjectId().toString());
+      await DocumentTemplateModel.deleteMany({});
+
+      const result = await backupService.restoreBackup(
+        manifest.id,
+        { mode: 'replace', dryRun: false, collections: ['documentTemplates'] },
+        new Types.ObjectId().toString()
+      );
+
+      expect(Object.keys(result.collections)).toEqual(['documentTemplates']);
+      expect(result.collections.documentTemplates?.inBackup).toBe(1);
+      const restored = await DocumentTemplateModel.find();
+      expect(restored.map((template) => template.key)).toEqual(['berita-acara']);
+    });
+  });
+});
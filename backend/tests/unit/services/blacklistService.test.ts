@@ -0,0 +1,31 @@
+import { ActiveSanction, matchSanction } from '../../../src/services/blacklistService';
+
+describe('Blacklist Service', () => {
+  describe('matchSanction', () => {
+    const sanction: ActiveSanction = {
+      blacklistId: 'b1',
+      vendorId: 'v1',
+      vendorName: 'PT Maju Jaya',
+      normalizedName: 'maju jaya',
+      reason: 'Wanprestasi kontrak',
+      referenceDocument: 'SK-001/2024',
+      startDate: new Date('2024-01-01'),
+      endDate: new Date('2025-12-31T23:59:59.999Z'),
+    };
+
+    it('should match a package linked to the sanctioned vendor', () => {
+      expect(matchSanction({ vendorId: 'v1', name: 'Nama Lain' }, [sanction])).toBe(sanction);
+    });
+
+    it('should match a free-text penyedia name regardless of legal form and case', () => {
+      expect(matchSanction({ name: 'MAJU JAYA, PT' }, [sanction])).toBe(sanction);
+      expect(matchSanction({ vendorId: null, name: 'CV Maju Jaya' }, [sanction])).toBe(sanction);
+    });
+
+    it('should not match other vendors or empty names', () => {
+      expect(matchSanction({ vendorId: 'v2', name: 'PT Maju Jaya Abadi' }, [sanction])).toBeUndefined();
+      expect(matchSanction({ name: '' }, [sanction])).toBeUndefined();
+      expect(matchSanction({ name: 'PT Maju Jaya' }, [])).toBeUndefined();
+    });
+  });
+});
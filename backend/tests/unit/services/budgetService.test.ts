@@ -0,0 +1,90 @@
+import {
+  computeBudgetConsumption,
+  evaluateCeiling,
+  getBudgetKey,
+  sumConsumption,
+} from '../../../src/services/budgetService';
+import { JenisAnggaran } from '../../../src/models/Budget';
+import { PengadaanStatus } from '../../../src/types/pengadaan';
+
+describe('Budget Service', () => {
+  describe('computeBudgetConsumption', () => {
+    it('should count HPS of open packages as committed and contract values as realised', () => {
+      const consumption = computeBudgetConsumption(1_000_000_000, [
+        { status: PengadaanStatus.SUBMITTED, nilaiHpsEqRupiah: '100.000.000' },
+        { status: PengadaanStatus.APPROVED, nilaiHpsEqRupiah: '50000000' },
+        { status: PengadaanStatus.IN_PROGRESS, nilaiHpsEqRupiah: '300000000', nilaiKontrakRupiah: '250000000' },
+        { status: PengadaanStatus.COMPLETED, nilaiPenunjukanEqRupiah: '150000000' },
+      ]);
+
+      expect(consumption).toEqual({
+        pagu: 1_000_000_000,
+        committed: 150_000_000,
+        realised: 400_000_000,
+        remaining: 450_000_000,
+        absorption: 40,
+        committedCount: 2,
+        realisedCount: 2,
+      });
+    });
+
+    it('should fall back to the budget line when no HPS is set', () => {
+      const consumption = computeBudgetConsumption(100, [{ status: PengadaanStatus.IN_REVIEW, nilaiAnggaranIdr: '40' }]);
+      expect(consumption.committed).toBe(40);
+    });
+
+    it('should ignore drafts, rejected and cancelled packages', () => {
+      const consumption = computeBudgetConsumption(100, [
+        { status: PengadaanStatus.DRAFT, nilaiHpsEqRupiah: '10' },
+        { status: PengadaanStatus.REJECTED, nilaiHpsEqRupiah: '20' },
+        { status: PengadaanStatus.CANCELLED, nilaiKontrakRupiah: '30' },
+      ]);
+      expect(consumption).toMatchObject({ committed: 0, realised: 0, remaining: 100, committedCount: 0 });
+    });
+
+    it('should leave absorption empty for a zero ceiling', () => {
+      expect(computeBudgetConsumption(0, []).absorption).toBeNull();
+    });
+  });
+
+  describe('sumConsumption', () => {
+    it('should add up budgets and recompute absorption from the totals', () => {
+      const totals = sumConsumption([
+        computeBudgetConsumption(100, [{ status: PengadaanStatus.COMPLETED, nilaiKontrakRupiah: '50' }]),
+        computeBudgetConsumption(300, [{ status: PengadaanStatus.SUBMITTED, nilaiHpsEqRupiah: '100' }]),
+      ]);
+      expect(totals).toMatchObject({ pagu: 400, committed: 100, realised: 50, remaining: 250, absorption: 12.5 });
+    });
+  });
+
+  describe('evaluateCeiling', () => {
+    const budget = {
+      id: 'b1',
+      tahunAnggaran: 2025,
+      jenisAnggaran: JenisAnggaran.ABO,
+      penggunaBarangJasa: 'Divisi TI',
+      pagu: 1000,
+    };
+
+    it('should warn with the excess when a package does not fit', () => {
+      const consumption = computeBudgetConsumption(1000, [{ status: PengadaanStatus.SUBMITTED, nilaiHpsEqRupiah: '700' }]);
+      expect(evaluateCeiling(budget, consumption, 500)).toMatchObject({
+        budgetId: 'b1',
+        remaining: 300,
+        amount: 500,
+        excess: 200,
+      });
+    });
+
+    it('should not warn when the package fits exactly', () => {
+      const consumption = computeBudgetConsumption(1000, [{ status: PengadaanStatus.SUBMITTED, nilaiHpsEqRupiah: '700' }]);
+      expect(evaluateCeiling(budget, consumption, 300)).toBeNull();
+    });
+  });
+
+  describe('getBudgetKey', () => {
+    it('should match budgets to packages regardless of case and spacing', () => {
+      expect(getBudgetKey('2025 ', 'abo', ' Divisi TI')).toBe(getBudgetKey(2025, 'ABO', 'divisi ti'));
+    });
+  });
+});
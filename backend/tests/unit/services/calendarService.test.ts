@@ -0,0 +1,68 @@
+import { Types } from 'mongoose';
+import calendarService, { getSeedHolidays, getSeedYears } from '../../../src/services/calendarService';
+import slaService from '../../../src/services/slaService';
+import { HolidayType } from '../../../src/models/Holiday';
+import PengadaanModel from '../../../src/models/Pengadaan';
+import { formatDateOnly } from '../../../src/utils/date';
+
+describe('Calendar Service', () => {
+  describe('getSeedHolidays', () => {
+    it('should read every bundled holiday as a valid date of a known type', () => {
+      const holidays = getSeedHolidays();
+
+      expect(holidays.length).toBeGreaterThan(0);
+      for (const holiday of holidays) {
+        expect(Number.isNaN(holiday.date.getTime())).toBe(false);
+        expect(Object.values(HolidayType)).toContain(holiday.jenis);
+        expect(holiday.name).not.toBe('');
+      }
+    });
+
+    it('should not list a day twice', () => {
+      const dates = getSeedHolidays().map((holiday) => formatDateOnly(holiday.date));
+      expect(new Set(dates).size).toBe(dates.length);
+    });
+
+    it('should filter by year', () => {
+      const holidays = getSeedHolidays(2025);
+
+      expect(holidays.every((holiday) => holiday.date.getUTCFullYear() === 2025)).toBe(true);
+      expect(holidays.map((holiday) => formatDateOnly(holiday.date))).toContain('2025-08-17');
+      expect(getSeedHolidays(1999)).toEqual([]);
+    });
+  });
+
+  describe('getSeedYears', () => {
+    it('should list the bundled years', () => {
+      expect(getSeedYears()).toEqual([2024, 2025, 2026]);
+    });
+  });
+
+  describe('createHoliday', () => {
+    const userId = new Types.ObjectId().toString();
+    const date = (text: string): Date => new Date(`${text}T00:00:00.000Z`);
+
+    it('should move the due dates and durations of packages running across the new holiday', async () => {
+      const { insertedId } = await PengadaanModel.collection.insertOne({
+        id: 'PGD-2024-0001',
+        sla: 'SLA',
+        metodePengadaan: 'Penunjukan Langsung',
+        tanggalPermintaanDiterima: date('2024-03-01'),
+        tanggalPerintahPengadaan: date('2024-03-08'),
+        suratPenunjukan: null,
+        lamaProsesPersiapan: 5,
+      });
+      await slaService.createTarget(
+        { metodePengadaan: 'Penunjukan Langsung', hariKerja: 5, dari: 'tanggalPermintaanDiterima', sampai: 'suratPenunjukan' },
+        userId
+      );
+      expect((await PengadaanModel.findById(insertedId).lean())?.slaTracking?.jatuhTempo).toEqual(date('2024-03-08'));
+
+      await calendarService.createHoliday({ date: date('2024-03-06'), name: 'Libur', jenis: HolidayType.LIBUR_NASIONAL }, userId);
+
+      const pengadaan = await PengadaanModel.findById(insertedId).lean();
+      expect(pengadaan?.slaTracking?.jatuhTempo).toEqual(date('2024-03-11'));
+      expect(pengadaan?.lamaProsesPersiapan).toBe(4);
+    });
+  });
+});
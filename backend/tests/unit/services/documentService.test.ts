@@ -0,0 +1,124 @@
+import { inflateSync } from 'zlib';
+import {
+  assertTemplateFormats,
+  fillTemplate,
+  findPlaceholders,
+  formatTemplateValue,
+  renderDocumentPdf,
+} from '../../../src/services/documentService';
+import { DEFAULT_DOCUMENT_TEMPLATES } from '../../../src/config/documentTemplates';
+import { ValidationError } from '../../../src/utils/errors';
+
+const today = new Date('2024-03-15T00:00:00.000Z');
+
+const pengadaan = {
+  id: 'PGD-2024-001',
+  namaPaket: 'Pengadaan Laptop (Tahap 1)',
+  nilaiHpsEqRupiah: '1500000000.50',
+  nilaiHpsCurrency: 'USD',
+  nilaiHpsAmount: '100000',
+  nilaiKontrakUsd: '2500',
+  tanggalPermintaan: '2024-01-05',
+  lamaProsesPengadaan: 12,
+  picTimPpsm: 'Budi',
+  penyediaBarangJasa: '',
+  slaStatus: { jatuhTempo: '2024-02-20' },
+};
+
+// Text drawn on every page of a rendered PDF
+const drawnText = (pdf: Buffer): string => {
+  const text = pdf.toString('latin1');
+  const pages: string[] = [];
+  let start = text.indexOf('stream\n');
+  while (start !== -1) {
+    const end = text.indexOf('\nendstream', start);
+    pages.push(inflateSync(pdf.subarray(start + 'stream\n'.length, end)).toString('latin1'));
+    start = text.indexOf('stream\n', end + 'endstream'.length);
+  }
+  return pages.join('\n');
+};
+
+describe('Document Service', () => {
+  describe('findPlaceholders', () => {
+    it('should list fields with their formats', () => {
+      expect(findPlaceholders('{{ namaPaket }} senilai {{nilaiHpsAmount|angka}} per {{slaStatus.jatuhTempo}}')).toEqual([
+        { field: 'namaPaket', format: null },
+        { field: 'nilaiHpsAmount', format: 'angka' },
+        { field: 'slaStatus.jatuhTempo', format: null },
+      ]);
+    });
+  });
+
+  describe('formatTemplateValue', () => {
+    it('should print rupiah amounts and Indonesian dates by field type', () => {
+      expect(formatTemplateValue(pengadaan, 'nilaiHpsEqRupiah', null, today)).toBe('Rp 1.500.000.000,5');
+      expect(formatTemplateValue(pengadaan, 'tanggalPermintaan', null, today)).toBe('5 Januari 2024');
+      expect(formatTemplateValue(pengadaan, 'hariIni', null, today)).toBe('15 Maret 2024');
+    });
+
+    it('should print amounts in the currency of their field', () => {
+      expect(formatTemplateValue(pengadaan, 'nilaiHpsAmount', null, today)).toBe('USD 100.000');
+      expect(formatTemplateValue(pengadaan, 'nilaiKontrakUsd', null, today)).toBe('USD 2.500');
+      expect(formatTemplateValue({ nilaiHpsAmount: '5000' }, 'nilaiHpsAmount', null, today)).toBe('Rp 5.000');
+    });
+
+    it('should apply explicit formats and dotted paths', () => {
+      expect(formatTemplateValue(pengadaan, 'nilaiHpsAmount', 'rupiah', today)).toBe('Rp 100.000');
+      expect(formatTemplateValue(pengadaan, 'nilaiHpsEqRupiah', 'angka', today)).toBe('1.500.000.000,5');
+      expect(formatTemplateValue(pengadaan, 'slaStatus.jatuhTempo', 'tanggal', today)).toBe('20 Februari 2024');
+      expect(formatTemplateValue(pengadaan, 'picTimPpsm', 'kapital', today)).toBe('BUDI');
+      expect(formatTemplateValue(pengadaan, 'lamaProsesPengadaan', null, today)).toBe('12');
+    });
+
+    it('should print empty and unknown fields as a dash', () => {
+      expect(formatTemplateValue(pengadaan, 'penyediaBarangJasa', null, today)).toBe('-');
+      expect(formatTemplateValue(pengadaan, 'tidakAda', null, today)).toBe('-');
+    });
+  });
+
+  describe('fillTemplate', () => {
+    it('should replace every placeholder', () => {
+      expect(fillTemplate('{{id}}: {{namaPaket}} ({{tanggalPermintaan}})', pengadaan, today)).toBe(
+        'PGD-2024-001: Pengadaan Laptop (Tahap 1) (5 Januari 2024)'
+      );
+    });
+  });
+
+  describe('assertTemplateFormats', () => {
+    it('should reject unknown formats', () => {
+      expect(() => assertTemplateFormats('{{nilaiHpsAmount|dolar}}')).toThrow(ValidationError);
+      expect(() => assertTemplateFormats('{{nilaiHpsAmount|rupiah}} {{namaPaket}}')).not.toThrow();
+    });
+
+    it('should accept the bundled templates', () => {
+      for (const template of DEFAULT_DOCUMENT_TEMPLATES) {
+        expect(() => assertTemplateFormats(template.isi)).not.toThrow();
+      }
+    });
+  });
+
+  describe('renderDocumentPdf', () => {
+    it('should draw titles, labelled rows and filled paragraphs', () => {
+      const pdf = renderDocumentPdf(
+        'Lembar Ringkasan',
+        '# RINGKASAN\n---\nNama Paket :: {{namaPaket}}\n\nNilai HPS {{nilaiHpsEqRupiah}}.',
+        pengadaan,
+        today
+      );
+      const text = drawnText(pdf);
+
+      expect(pdf.toString('latin1').startsWith('%PDF-1.4')).toBe(true);
+      expect(text).toContain('(RINGKASAN) Tj');
+      expect(text).toContain('(Nama Paket) Tj');
+      expect(text).toContain('(Pengadaan Laptop \\(Tahap 1\\)) Tj');
+      expect(text).toContain('(Nilai HPS Rp 1.500.000.000,5.) Tj');
+    });
+
+    it('should continue long documents on new pages', () => {
+      const isi = Array.from({ length: 80 }, (_, index) => `Baris ${index} :: {{namaPaket}}`).join('\n');
+      const pdf = renderDocumentPdf('Panjang', isi, pengadaan, today).toString('latin1');
+
+      expect(pdf).toContain('/Count 2');
+    });
+  });
+});
@@ -0,0 +1,25 @@
+import { convertToRupiah, parseRateDate } from '../../../src/services/exchangeRateService';
+
+describe('Exchange Rate Service', () => {
+  describe('parseRateDate', () => {
+    it('should read ISO and day-first dates as UTC midnight', () => {
+      expect(parseRateDate('2024-03-15')).toEqual(new Date('2024-03-15T00:00:00.000Z'));
+      expect(parseRateDate('15/03/2024')).toEqual(new Date('2024-03-15T00:00:00.000Z'));
+      expect(parseRateDate(new Date('2024-03-15T17:45:00.000Z'))).toEqual(new Date('2024-03-15T00:00:00.000Z'));
+    });
+
+    it('should reject empty and unreadable dates', () => {
+      expect(parseRateDate('')).toBeUndefined();
+      expect(parseRateDate(undefined)).toBeUndefined();
+      expect(parseRateDate('bukan tanggal')).toBeUndefined();
+    });
+  });
+
+  describe('convertToRupiah', () => {
+    it('should convert at the rate and round to the sen', () => {
+      expect(convertToRupiah(1250.5, 15750)).toBe(19695375);
+      expect(convertToRupiah(0.333, 11650.25)).toBe(3879.53);
+      expect(convertToRupiah(1_000_000, 1)).toBe(1_000_000);
+    });
+  });
+});
@@ -0,0 +1,138 @@
+import { PassThrough } from 'stream';
+import ExcelJS from 'exceljs';
+import exportService from '../../../src/services/exportService';
+import { ValidationError } from '../../../src/utils/errors';
+
+async function* rowsOf(rows: Record<string, unknown>[]) {
+  for (const row of rows) {
+    yield row;
+  }
+}
+
+const collect = (stream: PassThrough): Promise<string> => {
+  return new Promise((resolve) => {
+    let output = '';
+    stream.on('data', (chunk: Buffer) => {
+      output += chunk.toString('utf8');
+    });
+    stream.on('end', () => resolve(output));
+  });
+};
+
+const collectBuffer = (stream: PassThrough): Promise<Buffer> => {
+  return new Promise((resolve) => {
+    const chunks: Buffer[] = [];
+    stream.on('data', (chunk: Buffer) => chunks.push(chunk));
+    stream.on('end', () => resolve(Buffer.concat(chunks)));
+  });
+};
+
+describe('Export Service', () => {
+  describe('resolveColumns', () => {
+    it('should export every column by default', () => {
+      const columns = exportService.resolveColumns();
+      expect(columns[0]?.key).toBe('id');
+      expect(columns.map((column) => column.key)).toContain('nilaiPenunjukanAmount');
+    });
+
+    it('should keep the requested order and drop duplicates', () => {
+      const columns = exportService.resolveColumns('namaPaket, id,namaPaket');
+      expect(columns.map((column) => column.label)).toEqual(['Nama Paket Pengadaan', 'ID Pengadaan']);
+    });
+
+    it('should reject unknown columns', () => {
+      expect(() => exportService.resolveColumns('id,password')).toThrow(ValidationError);
+    });
+  });
+
+  describe('streamCsv', () => {
+    it('should write a BOM, Indonesian headers and quoted rows', async () => {
+      const output = new PassThrough();
+      const result = collect(output);
+      const columns = exportService.resolveColumns('id,namaPaket');
+
+      const count = await exportService.streamCsv(
+        rowsOf([
+          { id: 'PGD-001', namaPaket: 'Paket, "Satu"' },
+          { id: 'PGD-002' },
+        ]),
+        columns,
+        output
+      );
+
+      expect(count).toBe(2);
+      expect(await result).toBe(
+        '\uFEFFID Pengadaan,Nama Paket Pengadaan\r\n' +
+          'PGD-001,"Paket, ""Satu"""\r\n' +
+          'PGD-002,\r\n'
+      );
+    });
+  });
+
+  describe('streamJson', () => {
+    it('should write the success envelope with the selected columns', async () => {
+      const output = new PassThrough();
+      const result = collect(output);
+
+      await exportService.streamJson(
+        rowsOf([{ id: 'PGD-001', status: 'Draft', extra: 'x' }]),
+        exportService.resolveColumns('id,status'),
+        output,
+        'req-1'
+      );
+
+      expect(JSON.parse(await result)).toEqual({
+        success: true,
+        message: 'Data exported successfully',
+        data: [{ id: 'PGD-001', status: 'Draft' }],
+        requestId: 'req-1',
+      });
+    });
+  });
+
+  describe('streamXlsx', () => {
+    it('should write grouped headers, typed cells and a yearly summary', async () => {
+      const output = new PassThrough();
+      const result = collectBuffer(output);
+      const columns = exportService.resolveColumns(
+        'id,namaPaket,tahunAnggaran,nilaiHpsEqRupiah,tanggalPermintaan,costSavingRp'
+      );
+
+      const count = await exportService.streamXlsx(
+        rowsOf([
+          { id: 'PGD-001', namaPaket: 'Paket A', tahunAnggaran: '2024', nilaiHpsEqRupiah: '1.500.000', tanggalPermintaan: '2024-03-01', costSavingRp: 100 },
+          { id: 'PGD-002', namaPaket: 'Paket B', tahunAnggaran: '2024', nilaiHpsEqRupiah: 500000, costSavingRp: '50' },
+          { id: 'PGD-003', namaPaket: 'Paket C', tahunAnggaran: '2025', nilaiHpsEqRupiah: 'n/a' },
+        ]),
+        columns,
+        output
+      );
+      expect(count).toBe(3);
+
+      const workbook = new ExcelJS.Workbook();
+      await workbook.xlsx.load(await result);
+
+      const sheet = workbook.getWorksheet('Pengadaan');
+      expect(sheet?.views[0]).toMatchObject({ state: 'frozen', ySplit: 2 });
+      expect(sheet?.getCell('A1').value).toBe('IDENTITAS');
+      expect(sheet?.getCell('B1').value).toBe('DATA UMUM PENGADAAN');
+      expect(sheet?.getCell('C1').value).toBe('PROSES PERSIAPAN PENGADAAN');
+      expect(sheet?.getCell('E1').isMerged).toBe(true);
+      expect(sheet?.getCell('D2').value).toBe('Nilai HPS Eq. Rupiah');
+      expect(sheet?.getCell('D3').value).toBe(1500000);
+      expect(sheet?.getCell('E3').value).toBeInstanceOf(Date);
+      expect(sheet?.getCell('D5').value).toBe('n/a');
+
+      const summary = workbook.getWorksheet('Ringkasan');
+      expect(summary?.getCell('A2').value).toBe('2024');
+      expect(summary?.getCell('B2').value).toMatchObject({ result: 2 });
+      expect(summary?.getCell('C2').value).toMatchObject({
+        formula: 'SUMIF(Pengadaan!$C$3:$C$5,$A2,Pengadaan!$D$3:$D$5)',
+        result: 2000000,
+      });
+      expect(summary?.getCell('E2').value).toMatchObject({ result: 150 });
+      expect(summary?.getCell('A4').value).toBe('Total');
+      expect(summary?.getCell('B4').value).toMatchObject({ formula: 'SUM(B2:B3)', result: 3 });
+    });
+  });
+});
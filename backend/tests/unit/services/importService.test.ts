@@ -0,0 +1,151 @@
+import ExcelJS from 'exceljs';
+import { Types } from 'mongoose';
+import importService from '../../../src/services/importService';
+import ExchangeRateModel from '../../../src/models/ExchangeRate';
+import PengadaanModel from '../../../src/models/Pengadaan';
+import { PENGADAAN_FIELDS } from '../../../src/config/pengadaanFields';
+import { Currency } from '../../../src/types/pengadaan';
+import { parseAmount } from '../../../src/utils/amount';
+import { ValidationError } from '../../../src/utils/errors';
+import { toCsvRow } from '../../../src/utils/csv';
+
+const userId = new Types.ObjectId().toString();
+
+// A row filling every form field, as a complete line of the monitoring sheet would
+const completeRecord = (): Record<string, string> => {
+  const record: Record<string, string> = {};
+  for (const field of PENGADAAN_FIELDS) {
+    if (field.type === 'amount') record[field.key] = '1500000';
+    else if (field.type === 'date') record[field.key] = '2024-03-01';
+    else if (field.type === 'number') record[field.key] = '5';
+    else record[field.key] = `Isi ${field.key}`;
+  }
+  record['nilaiHpsCurrency'] = 'IDR';
+  record['nilaiPenunjukanCurrency'] = 'IDR';
+  record['barangJasa'] = 'Jasa';
+  for (const legacy of ['nama', 'kategori', 'deskripsi', 'vendor', 'nilai', 'tanggal', 'deadline']) {
+    delete record[legacy];
+  }
+  return record;
+};
+
+describe('Import Service', () => {
+  describe('resolveColumns', () => {
+    it('should match headers by form label or field key, ignoring case and spacing', () => {
+      const columns = importService.resolveColumns([' nama  paket pengadaan', 'tahunAnggaran', 'Catatan']);
+      expect(columns).toEqual([
+        { header: ' nama  paket pengadaan', field: 'namaPaket' },
+        { header: 'tahunAnggaran', field: 'tahunAnggaran' },
+        { header: 'Catatan', field: null },
+      ]);
+    });
+
+    it('should apply mapping overrides', () => {
+      const columns = importService.resolveColumns(['Paket', 'Tahun Anggaran'], {
+        Paket: 'namaPaket',
+        'Tahun Anggaran': null,
+      });
+      expect(columns.map((column) => column.field)).toEqual(['namaPaket', null]);
+    });
+
+    it('should reject unknown fields, unknown headers and duplicate targets', () => {
+      expect(() => importService.resolveColumns(['Paket'], { Paket: 'password' })).toThrow(ValidationError);
+      expect(() => importService.resolveColumns(['Paket'], { Lainnya: 'namaPaket' })).toThrow(ValidationError);
+      expect(() => importService.resolveColumns(['Nama Paket Pengadaan', 'namaPaket'])).toThrow(ValidationError);
+    });
+  });
+
+  describe('mapRow', () => {
+    it('should fill legacy fields like the pengadaan form', () => {
+      const columns = importService.resolveColumns(['Nama Paket Pengadaan', 'Barang/Jasa', 'Tanggal Permintaan']);
+      const record = importService.mapRow(['Paket A', 'jasa', new Date('2024-03-01T00:00:00.000Z')], columns);
+
+      expect(record).toMatchObject({
+        namaPaket: 'Paket A',
+        barangJasa: 'jasa',
+        tanggalPermintaan: '2024-03-01',
+        nama: 'Paket A',
+        kategori: 'Jasa',
+        vendor: 'TBD',
+        nilai: '0',
+        tanggal: '2024-03-01',
+      });
+    });
+  });
+
+  describe('validateRow', () => {
+    it('should accept a complete row', () => {
+      const record = completeRecord();
+      const mapped = importService.mapRow(Object.values(record), importService.resolveColumns(Object.keys(record)));
+      const { data, issues } = importService.validateRow(mapped, userId);
+
+      expect(issues).toEqual([]);
+      expect(data).toMatchObject({ namaPaket: 'Isi namaPaket', kategori: 'Jasa' });
+    });
+
+    it('should report missing required fields per field', () => {
+      const record = completeRecord();
+      delete record['namaPaket'];
+      delete record['sinergi'];
+      const mapped = importService.mapRow(Object.values(record), importService.resolveColumns(Object.keys(record)));
+      const { data, issues } = importService.validateRow(mapped, userId);
+
+      expect(data).toBeUndefined();
+      expect(issues.map((issue) => issue.field).sort()).toEqual(['namaPaket', 'sinergi']);
+    });
+  });
+
+  describe('parseFile', () => {
+    it('should read a CSV file and skip blank lines', async () => {
+      const text = toCsvRow(['Nama Paket Pengadaan', 'Tahun Anggaran']) + toCsvRow(['Paket A', '2024']) + toCsvRow(['', '']);
+      const sheet = await importService.parseFile({ name: 'data.csv', buffer: Buffer.from(text), size: text.length });
+
+      expect(sheet.headers).toEqual(['Nama Paket Pengadaan', 'Tahun Anggaran']);
+      expect(sheet.rows).toEqual([{ rowNumber: 2, values: ['Paket A', '2024'] }]);
+    });
+
+    it('should find the label row below a section row in an XLSX file', async () => {
+      const workbook = new ExcelJS.Workbook();
+      const worksheet = workbook.addWorksheet('Monitoring');
+      worksheet.addRow(['DATA UMUM PENGADAAN', '']);
+      worksheet.addRow(['Nama Paket Pengadaan', 'Nilai HPS Eq. Rupiah']);
+      worksheet.addRow(['Paket A', { formula: 'B4*2', result: 3000000 }]);
+      const buffer = Buffer.from(await workbook.xlsx.writeBuffer());
+
+      const sheet = await importService.parseFile({ name: 'data.xlsx', buffer, size: buffer.length });
+
+      expect(sheet.headers).toEqual(['Nama Paket Pengadaan', 'Nilai HPS Eq. Rupiah']);
+      expect(sheet.rows).toEqual([{ rowNumber: 3, values: ['Paket A', 3000000] }]);
+    });
+
+    it('should reject unsupported file types', async () => {
+      await expect(
+        importService.parseFile({ name: 'data.pdf', buffer: Buffer.from(''), size: 0 })
+      ).rejects.toThrow(ValidationError);
+    });
+  });
+
+  describe('importPengadaan', () => {
+    it('should compute rupiah equivalents of a USD row at the rate on its request date', async () => {
+      await ExchangeRateModel.create({
+        currency: Currency.USD,
+        date: new Date('2024-02-28T00:00:00.000Z'),
+        rate: 15600,
+        createdBy: userId,
+      });
+      const record = { ...completeRecord(), nilaiHpsCurrency: 'USD', nilaiHpsAmount: '1000', nilaiHpsEqRupiah: '1' };
+      const text = toCsvRow(Object.keys(record)) + toCsvRow(Object.values(record));
+
+      const report = await importService.importPengadaan(
+        { name: 'data.csv', buffer: Buffer.from(text), size: text.length },
+        { dryRun: false },
+        userId
+      );
+
+      expect(report.importedRows).toBe(1);
+      const pengadaan = await PengadaanModel.findOne({ id: report.rows[0]?.pengadaanId });
+      expect(parseAmount(pengadaan?.nilaiHpsEqRupiah)).toBe(15600000);
+      expect(pengadaan?.nilaiHpsKurs).toMatchObject({ currency: Currency.USD, rate: 15600 });
+    });
+  });
+});
@@ -0,0 +1,35 @@
+import { computeDurations } from '../../../src/services/pengadaanDurations';
+import { ValidationError } from '../../../src/utils/errors';
+
+describe('Pengadaan Durations', () => {
+  const holidays = new Set(['2024-03-11']);
+
+  it('should count each duration in working days between its dates', () => {
+    expect(
+      computeDurations(
+        {
+          tanggalPermintaanDiterima: '2024-03-01',
+          tanggalRapatPersiapan: '2024-03-04',
+          tanggalRevisiPermintaan: '06/03/2024',
+          tanggalPerintahPengadaan: new Date('2024-03-12T00:00:00.000Z'),
+          suratPenunjukan: '2024-04-12',
+        },
+        holidays
+      )
+    ).toEqual({ lamaRevisiPermintaan: 2, lamaProsesPersiapan: 6, lamaProsesPengadaan: 23 });
+  });
+
+  it('should leave durations empty while a date is missing', () => {
+    expect(computeDurations({ tanggalPermintaanDiterima: '2024-03-01', suratPenunjukan: '' }, holidays)).toEqual({
+      lamaRevisiPermintaan: null,
+      lamaProsesPersiapan: null,
+      lamaProsesPengadaan: null,
+    });
+  });
+
+  it('should reject dates out of order', () => {
+    expect(() =>
+      computeDurations({ tanggalPerintahPengadaan: '2024-03-12', suratPenunjukan: '2024-03-01' }, holidays)
+    ).toThrow(ValidationError);
+  });
+});
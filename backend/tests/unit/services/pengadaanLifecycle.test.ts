@@ -0,0 +1,99 @@
+import {
+  assertTransition,
+  findTransition,
+  getAllowedTransitions,
+  isPengadaanStatus,
+} from '../../../src/services/pengadaanLifecycle';
+import { PengadaanStatus } from '../../../src/types/pengadaan';
+import { UserRole } from '../../../src/models/User';
+import { AuthorizationError, InvalidTransitionError } from '../../../src/utils/errors';
+
+const user = { id: 'user-1', role: UserRole.USER };
+const admin = { id: 'admin-1', role: UserRole.ADMIN };
+
+describe('Pengadaan Lifecycle', () => {
+  describe('isPengadaanStatus', () => {
+    it('should accept known statuses', () => {
+      expect(isPengadaanStatus('Draft')).toBe(true);
+      expect(isPengadaanStatus('In Review')).toBe(true);
+    });
+
+    it('should reject unknown statuses', () => {
+      expect(isPengadaanStatus('SELESAI')).toBe(false);
+      expect(isPengadaanStatus(undefined)).toBe(false);
+    });
+  });
+
+  describe('findTransition', () => {
+    it('should find the rule for a defined transition', () => {
+      const rule = findTransition(PengadaanStatus.DRAFT, PengadaanStatus.SUBMITTED);
+      expect(rule?.roles).toContain(UserRole.USER);
+    });
+
+    it('should return undefined for a skipped step', () => {
+      expect(findTransition(PengadaanStatus.DRAFT, PengadaanStatus.COMPLETED)).toBeUndefined();
+    });
+  });
+
+  describe('getAllowedTransitions', () => {
+    it('should let the owner submit or cancel a draft', () => {
+      expect(getAllowedTransitions(PengadaanStatus.DRAFT, user, true)).toEqual([
+        PengadaanStatus.SUBMITTED,
+        PengadaanStatus.CANCELLED,
+      ]);
+    });
+
+    it('should give non-owners no transitions', () => {
+      expect(getAllowedTransitions(PengadaanStatus.DRAFT, user, false)).toEqual([]);
+    });
+
+    it('should give admins the review transitions', () => {
+      expect(getAllowedTransitions(PengadaanStatus.IN_REVIEW, admin, false)).toEqual([
+        PengadaanStatus.APPROVED,
+        PengadaanStatus.REJECTED,
+      ]);
+    });
+
+    it('should treat completed as final', () => {
+      expect(getAllowedTransitions(PengadaanStatus.COMPLETED, admin, true)).toEqual([]);
+    });
+  });
+
+  describe('assertTransition', () => {
+    it('should reject jumping from Draft to Completed', () => {
+      expect(() =>
+        assertTransition(PengadaanStatus.DRAFT, PengadaanStatus.COMPLETED, admin, true)
+      ).toThrow(InvalidTransitionError);
+    });
+
+    it('should reject a user approving their own package', () => {
+      expect(() =>
+        assertTransition(PengadaanStatus.IN_REVIEW, PengadaanStatus.APPROVED, user, true)
+      ).toThrow(AuthorizationError);
+    });
+
+    it('should reject a user submitting a package they do not own', () => {
+      expect(() =>
+        assertTransition(PengadaanStatus.DRAFT, PengadaanStatus.SUBMITTED, user, false)
+      ).toThrow(AuthorizationError);
+    });
+
+    it('should allow an admin to start an approved package', () => {
+      const rule = assertTransition(PengadaanStatus.APPROVED, PengadaanStatus.IN_PROGRESS, admin, false);
+      expect(rule.to).toBe(PengadaanStatus.IN_PROGRESS);
+    });
+
+    it('should expose from and to on the error', () => {
+      try {
+        assertTransition(PengadaanStatus.CANCELLED, PengadaanStatus.DRAFT, admin, true);
+        fail('expected an error');
+      } catch (error) {
+        expect(error).toBeInstanceOf(InvalidTransitionError);
+        const transitionError = error as InvalidTransitionError;
+        expect(transitionError.statusCode).toBe(409);
+        expect(transitionError.from).toBe(PengadaanStatus.CANCELLED);
+        expect(transitionError.to).toBe(PengadaanStatus.DRAFT);
+      }
+    });
+  });
+});
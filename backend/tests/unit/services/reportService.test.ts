@@ -0,0 +1,130 @@
+import reportService, {
+  describeReportParams,
+  formatReportCell,
+  renderReportCsv,
+  renderReportPdf,
+  share,
+  sumRows,
+} from '../../../src/services/reportService';
+import { ReportColumn, ReportResult } from '../../../src/types/report';
+import { CSV_BOM } from '../../../src/utils/csv';
+import { NotFoundError, ValidationError } from '../../../src/utils/errors';
+
+const columns: ReportColumn[] = [
+  { key: 'metodePengadaan', label: 'Metode Pengadaan' },
+  { key: 'count', label: 'Jumlah Paket', type: 'number' },
+  { key: 'hps', label: 'Total HPS', type: 'amount' },
+  { key: 'persentase', label: 'Porsi (%)', type: 'percent' },
+];
+
+const result = (overrides: Partial<ReportResult> = {}): ReportResult => ({
+  id: 'rekap-metode',
+  title: 'Rekap per Metode Pengadaan',
+  params: { tahunAnggaran: '2024' },
+  generatedAt: new Date('2024-03-15T00:00:00.000Z'),
+  columns,
+  rows: [
+    { metodePengadaan: 'Tender', count: 3, hps: 1500000.5, persentase: 75 },
+    { metodePengadaan: 'Penunjukan, Langsung', count: 1, hps: 500000, persentase: 25 },
+  ],
+  totals: { metodePengadaan: 'Total', count: 4, hps: 2000000.5, persentase: null },
+  ...overrides,
+});
+
+describe('Report Service', () => {
+  describe('share', () => {
+    it('should round to one decimal and skip an empty whole', () => {
+      expect(share(1, 3)).toBe(33.3);
+      expect(share(5, 0)).toBeNull();
+    });
+  });
+
+  describe('sumRows', () => {
+    it('should label the first column and sum the numeric ones', () => {
+      expect(sumRows(result().rows, columns)).toEqual({
+        metodePengadaan: 'Total',
+        count: 4,
+        hps: 2000000.5,
+        persentase: null,
+      });
+    });
+  });
+
+  describe('formatReportCell', () => {
+    it('should format numbers, percentages, dates and empty cells', () => {
+      expect(formatReportCell(1500000.5, 'amount')).toBe('1.500.000,5');
+      expect(formatReportCell(12.5, 'percent')).toBe('12,5%');
+      expect(formatReportCell(new Date('2024-03-15T00:00:00.000Z'), 'date')).toBe('15 Maret 2024');
+      expect(formatReportCell(null, 'number')).toBe('-');
+      expect(formatReportCell('Tender', undefined)).toBe('Tender');
+    });
+  });
+
+  describe('describeReportParams', () => {
+    it('should list parameters by label', () => {
+      expect(describeReportParams(result())).toBe('Tahun Anggaran: 2024');
+      expect(describeReportParams(result({ params: {} }))).toBe('Semua data');
+    });
+  });
+
+  describe('renderReportCsv', () => {
+    it('should write labels, raw values and the totals row', () => {
+      const csv = renderReportCsv(result());
+
+      expect(csv.split('\r\n')).toEqual([
+        `${CSV_BOM}Metode Pengadaan,Jumlah Paket,Total HPS,Porsi (%)`,
+        'Tender,3,1500000.5,75',
+        '"Penunjukan, Langsung",1,500000,25',
+        'Total,4,2000000.5,',
+        '',
+      ]);
+    });
+  });
+
+  describe('renderReportPdf', () => {
+    it('should render a PDF document', () => {
+      const pdf = renderReportPdf(result()).toString('latin1');
+
+      expect(pdf.startsWith('%PDF-1.4')).toBe(true);
+      expect(pdf).toContain('/Count 1');
+      expect(pdf.trimEnd().endsWith('%%EOF')).toBe(true);
+    });
+
+    it('should continue long reports on new pages', () => {
+      const rows = Array.from({ length: 80 }, (_, index) => ({
+        metodePengadaan: `Metode ${index}`,
+        count: index,
+        hps: 0,
+        persentase: null,
+      }));
+      const pdf = renderReportPdf(result({ rows })).toString('latin1');
+
+      expect(pdf).toMatch(/\/Count [2-9]/);
+    });
+  });
+
+  describe('runReport', () => {
+    it('should reject unknown reports', async () => {
+      await expect(reportService.runReport('tidak-ada')).rejects.toBeInstanceOf(NotFoundError);
+    });
+
+    it('should reject a malformed year', async () => {
+      await expect(reportService.runReport('rekap-metode', { tahunAnggaran: '24' })).rejects.toBeInstanceOf(
+        ValidationError
+      );
+    });
+  });
+
+  it('should list every report with its parameters', () => {
+    const reports = reportService.listReports();
+
+    expect(reports.map((report) => report.id)).toEqual([
+      'rekap-metode',
+      'rekap-cost-saving',
+      'partisipasi-umkm',
+      'paket-per-pic',
+      'paket-terlambat',
+    ]);
+    expect(reports.every((report) => report.columns.length > 0)).toBe(true);
+  });
+});
@@ -0,0 +1,41 @@
+import { buildReportMail, computeNextRun } from '../../../src/services/scheduleService';
+import { ReportResult } from '../../../src/types/report';
+import { ValidationError } from '../../../src/utils/errors';
+
+const result: ReportResult = {
+  id: 'rekap-metode',
+  title: 'Rekap per Metode Pengadaan',
+  params: { tahunAnggaran: '2026' },
+  generatedAt: new Date('2026-03-02T00:00:00.000Z'),
+  columns: [{ key: 'metodePengadaan', label: 'Metode Pengadaan' }],
+  rows: [{ metodePengadaan: 'Tender' }, { metodePengadaan: 'Penunjukan Langsung' }],
+  totals: null,
+};
+
+describe('ScheduleService', () => {
+  describe('computeNextRun', () => {
+    it('should compute the next run at the UTC offset', () => {
+      // Mondays at 07:00 WIB
+      expect(computeNextRun('0 7 * * 1', new Date('2026-02-27T12:00:00.000Z'), 420)).toEqual(
+        new Date('2026-03-02T00:00:00.000Z')
+      );
+    });
+
+    it('should reject an invalid expression as a validation error', () => {
+      expect(() => computeNextRun('0 25 * * *', new Date())).toThrow(ValidationError);
+    });
+  });
+
+  describe('buildReportMail', () => {
+    it('should attach the rendered report and describe the run', () => {
+      const file = { buffer: Buffer.from('csv'), contentType: 'text/csv', filename: 'rekap-metode.csv' };
+      const mail = buildReportMail('Rekap Mingguan', ['a@example.com'], result, file);
+
+      expect(mail.to).toEqual(['a@example.com']);
+      expect(mail.subject).toBe('Rekap Mingguan: Rekap per Metode Pengadaan (2 Maret 2026)');
+      expect(mail.text).toContain('Parameter: Tahun Anggaran: 2026');
+      expect(mail.text).toContain('Jumlah baris: 2');
+      expect(mail.attachments).toEqual([{ filename: 'rekap-metode.csv', contentType: 'text/csv', content: file.buffer }]);
+    });
+  });
+});
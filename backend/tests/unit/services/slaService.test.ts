@@ -0,0 +1,183 @@
+import mongoose from 'mongoose';
+import {
+  buildSlaStatusFilter,
+  computeSlaTracking,
+  describeSla,
+  getSlaCutoffs,
+  matchSlaTarget,
+  SlaTargetRule,
+} from '../../../src/services/slaService';
+import { SlaStatus } from '../../../src/types/pengadaan';
+
+const date = (text: string): Date => new Date(`${text}T00:00:00.000Z`);
+
+const target = (metodePengadaan: string, jenisPengadaan: string | null, hariKerja: number): SlaTargetRule => ({
+  _id: new mongoose.Types.ObjectId(),
+  metodePengadaan,
+  jenisPengadaan,
+  hariKerja,
+  dari: 'tanggalPerintahPengadaan',
+  sampai: 'suratPenunjukan',
+});
+
+describe('SLA Service', () => {
+  const holidays = new Set(['2024-03-11']);
+  const lelang = target('Lelang Terbuka', null, 45);
+  const lelangKonstruksi = target('Lelang Terbuka', 'Jasa Konstruksi', 60);
+  const penunjukan = target('Penunjukan Langsung', null, 5);
+  const targets = [lelang, lelangKonstruksi, penunjukan];
+
+  describe('matchSlaTarget', () => {
+    it('should prefer the target naming the jenis pengadaan', () => {
+      expect(matchSlaTarget(targets, 'Lelang Terbuka', 'Jasa Konstruksi')).toBe(lelangKonstruksi);
+      expect(matchSlaTarget(targets, 'Lelang Terbuka', 'Barang')).toBe(lelang);
+    });
+
+    it('should ignore case and spaces', () => {
+      expect(matchSlaTarget(targets, ' penunjukan langsung ', 'Barang')).toBe(penunjukan);
+    });
+
+    it('should find nothing for a method without a target', () => {
+      expect(matchSlaTarget(targets, 'Pengadaan Langsung', 'Barang')).toBeUndefined();
+    });
+  });
+
+  describe('computeSlaTracking', () => {
+    const source = {
+      sla: 'SLA',
+      metodePengadaan: 'Penunjukan Langsung',
+      jenisPengadaan: 'Barang',
+      tanggalPerintahPengadaan: date('2024-03-04'),
+      suratPenunjukan: null,
+    };
+
+    it('should set the due date in working days from the start', () => {
+      const tracking = computeSlaTracking(source, targets, holidays);
+
+      expect(tracking).toMatchObject({
+        targetId: penunjukan._id,
+        hariKerja: 5,
+        mulai: date('2024-03-04'),
+        // Skips the weekend and the holiday on Monday 11 March
+        jatuhTempo: date('2024-03-12'),
+        selesai: null,
+        terlambat: null,
+      });
+    });
+
+    it('should record whether a finished package was late', () => {
+      expect(computeSlaTracking({ ...source, suratPenunjukan: '2024-03-12' }, targets, holidays)).toMatchObject({
+        selesai: date('2024-03-12'),
+        terlambat: false,
+      });
+      expect(computeSlaTracking({ ...source, suratPenunjukan: '2024-03-13' }, targets, holidays)).toMatchObject({
+        terlambat: true,
+      });
+    });
+
+    it('should not track Non SLA packages, unmatched methods or packages not started', () => {
+      expect(computeSlaTracking({ ...source, sla: 'Non SLA' }, targets, holidays)).toBeNull();
+      expect(computeSlaTracking({ ...source, metodePengadaan: 'Swakelola' }, targets, holidays)).toBeNull();
+      expect(computeSlaTracking({ ...source, tanggalPerintahPengadaan: '' }, targets, holidays)).toBeNull();
+    });
+  });
+
+  describe('describeSla', () => {
+    const tracking = {
+      targetId: penunjukan._id,
+      hariKerja: 5,
+      dari: 'tanggalPerintahPengadaan',
+      sampai: 'suratPenunjukan',
+      mulai: date('2024-03-04'),
+      jatuhTempo: date('2024-03-12'),
+      selesai: null,
+      terlambat: null,
+    };
+
+    it('should count elapsed and remaining working days of a running package', () => {
+      expect(describeSla(tracking, date('2024-03-05'), holidays, 2)).toEqual({
+        status: SlaStatus.ON_TRACK,
+        hariKerja: 5,
+        jatuhTempo: '2024-03-12',
+        hariBerjalan: 1,
+        sisaHari: 4,
+      });
+      expect(describeSla(tracking, date('2024-03-08'), holidays, 2)).toMatchObject({
+        status: SlaStatus.AT_RISK,
+        sisaHari: 1,
+      });
+      expect(describeSla(tracking, date('2024-03-13'), holidays, 2)).toMatchObject({
+        status: SlaStatus.BREACHED,
+        hariBerjalan: 6,
+        sisaHari: -1,
+      });
+    });
+
+    it('should report finished packages as met or breached', () => {
+      const met = { ...tracking, selesai: date('2024-03-07'), terlambat: false };
+      const late = { ...tracking, selesai: date('2024-03-14'), terlambat: true };
+
+      expect(describeSla(met, date('2024-06-03'), holidays, 2)).toMatchObject({
+        status: SlaStatus.MET,
+        hariBerjalan: 3,
+        sisaHari: 2,
+      });
+      expect(describeSla(late, date('2024-06-03'), holidays, 2)).toMatchObject({
+        status: SlaStatus.BREACHED,
+        sisaHari: -2,
+      });
+    });
+  });
+
+  describe('getSlaCutoffs', () => {
+    it('should agree with describeSla on every day around the due date', () => {
+      const jatuhTempo = date('2024-03-12');
+      const tracking = {
+        targetId: penunjukan._id,
+        hariKerja: 5,
+        dari: 'tanggalPerintahPengadaan',
+        sampai: 'suratPenunjukan',
+        mulai: date('2024-03-04'),
+        jatuhTempo,
+        selesai: null,
+        terlambat: null,
+      };
+
+      for (let day = 1; day <= 20; day += 1) {
+        const today = new Date(Date.UTC(2024, 2, day));
+        const { breachedBefore, atRiskBefore } = getSlaCutoffs(today, holidays, 2);
+        let expected = SlaStatus.ON_TRACK;
+        if (jatuhTempo < breachedBefore) {
+          expected = SlaStatus.BREACHED;
+        } else if (jatuhTempo < atRiskBefore) {
+          expected = SlaStatus.AT_RISK;
+        }
+        expect(describeSla(tracking, today, holidays, 2).status).toBe(expected);
+      }
+    });
+  });
+
+  describe('buildSlaStatusFilter', () => {
+    const cutoffs = { breachedBefore: date('2024-03-08'), atRiskBefore: date('2024-03-13') };
+
+    it('should filter finished packages by their result', () => {
+      expect(buildSlaStatusFilter(SlaStatus.MET, cutoffs)).toEqual({ 'slaTracking.terlambat': false });
+    });
+
+    it('should include late finished and overdue running packages as breached', () => {
+      expect(buildSlaStatusFilter(SlaStatus.BREACHED, cutoffs)).toEqual({
+        $or: [
+          { 'slaTracking.terlambat': true },
+          { 'slaTracking.jatuhTempo': { $lt: cutoffs.breachedBefore }, 'slaTracking.selesai': null },
+        ],
+      });
+    });
+
+    it('should bound at-risk packages by both cutoffs', () => {
+      expect(buildSlaStatusFilter(SlaStatus.AT_RISK, cutoffs)).toEqual({
+        'slaTracking.jatuhTempo': { $gte: cutoffs.breachedBefore, $lt: cutoffs.atRiskBefore },
+        'slaTracking.selesai': null,
+      });
+    });
+  });
+});
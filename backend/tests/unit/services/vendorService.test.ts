@@ -0,0 +1,112 @@
+import {
+  buildVendorScorecard,
+  getContractDelayDays,
+  rankVendorMatches,
+} from '../../../src/services/vendorService';
+
+describe('Vendor Service', () => {
+  describe('rankVendorMatches', () => {
+    const vendors = [
+      { id: 'v1', nama: 'PT Maju Jaya', npwp: '012345678901234' },
+      { id: 'v2', nama: 'PT Maju Jaya Abadi' },
+      { id: 'v3', nama: 'CV Sinar Abadi' },
+    ];
+
+    it('should rank the closest vendor first and drop those under the threshold', () => {
+      const matches = rankVendorMatches('Maju Jaya, PT', vendors, 0.6, 3);
+
+      expect(matches.map((match) => match.vendorId)).toEqual(['v1', 'v2']);
+      expect(matches[0]).toEqual({ vendorId: 'v1', nama: 'PT Maju Jaya', npwp: '012345678901234', score: 1 });
+    });
+
+    it('should cap the number of suggestions', () => {
+      expect(rankVendorMatches('Maju Jaya', vendors, 0, 1)).toHaveLength(1);
+    });
+  });
+
+  describe('getContractDelayDays', () => {
+    it('should count days from signing to the end of the completion quarter', () => {
+      expect(getContractDelayDays('2024-02-01', 'TW I')).toBe(59);
+    });
+
+    it('should move a period that already ended at signing to the next year', () => {
+      expect(getContractDelayDays('2024-11-15', 'Februari')).toBe(105);
+    });
+
+    it('should keep the year of a YYYY-MM period', () => {
+      expect(getContractDelayDays('2024-03-10', '2024-02')).toBe(-10);
+    });
+
+    it('should return null when a date or period is missing or unreadable', () => {
+      expect(getContractDelayDays(undefined, 'TW I')).toBeNull();
+      expect(getContractDelayDays('2024-02-01', '')).toBeNull();
+      expect(getContractDelayDays('2024-02-01', 'Q1')).toBeNull();
+    });
+  });
+
+  describe('buildVendorScorecard', () => {
+    const pengadaanList = [
+      {
+        _id: 'p1',
+        id: 'PGD-2024-0001',
+        namaPaket: 'Pengadaan Server',
+        status: 'Completed',
+        kontrakTanggal: '2024-02-01',
+        bulanSelesai: 'TW I',
+        nilaiKontrakRupiah: '1.500.000',
+      },
+      {
+        _id: 'p2',
+        id: 'PGD-2024-0002',
+        status: 'In Progress',
+        kontrakTanggal: '2024-01-01',
+        bulanSelesai: 'Januari',
+        nilaiPenunjukanEqRupiah: '500000',
+      },
+      { _id: 'p3', id: 'PGD-2024-0003', status: 'Draft' },
+    ];
+
+    const ratings = [
+      { pengadaan: 'p1', timeliness: 5, quality: 4, compliance: 3, comment: 'Tepat waktu' },
+      { pengadaan: 'p2', timeliness: 3, quality: 4, compliance: 5 },
+      // Rating of a package that is no longer listed
+      { pengadaan: 'gone', timeliness: 1, quality: 1, compliance: 1 },
+    ] as unknown as Parameters<typeof buildVendorScorecard>[1];
+
+    it('should total contract values and average delays and scores', () => {
+      const { summary } = buildVendorScorecard(pengadaanList, ratings);
+
+      expect(summary).toEqual({
+        packageCount: 3,
+        ratedCount: 2,
+        totalContractValue: 2000000,
+        averageDelayDays: 44.5,
+        ratings: { timeliness: 4, quality: 4, compliance: 4, overall: 4 },
+      });
+    });
+
+    it('should list every package with its own rating', () => {
+      const { packages } = buildVendorScorecard(pengadaanList, ratings);
+
+      expect(packages.map((item) => item.id)).toEqual(['PGD-2024-0001', 'PGD-2024-0002', 'PGD-2024-0003']);
+      expect(packages[0]?.rating).toEqual({
+        timeliness: 5,
+        quality: 4,
+        compliance: 3,
+        comment: 'Tepat waktu',
+        average: 4,
+      });
+      expect(packages[2]).toMatchObject({ contractValue: 0, delayDays: null, rating: null });
+    });
+
+    it('should report no averages for a vendor without packages', () => {
+      expect(buildVendorScorecard([], []).summary).toEqual({
+        packageCount: 0,
+        ratedCount: 0,
+        totalContractValue: 0,
+        averageDelayDays: null,
+        ratings: null,
+      });
+    });
+  });
+});
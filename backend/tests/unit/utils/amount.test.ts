@@ -0,0 +1,66 @@
+import { Types } from 'mongoose';
+import {
+  formatAmount,
+  normalizeAmount,
+  parseAmount,
+  serializeAmounts,
+  toDecimal128,
+} from '../../../src/utils/amount';
+
+describe('Amount Utils', () => {
+  describe('normalizeAmount', () => {
+    it('should read Indonesian and English notation', () => {
+      expect(normalizeAmount('1.500.000')).toBe('1500000');
+      expect(normalizeAmount('Rp 1.500.000,50')).toBe('1500000.5');
+      expect(normalizeAmount('1,500,000.50')).toBe('1500000.5');
+      expect(normalizeAmount('2500,75')).toBe('2500.75');
+    });
+
+    it('should canonicalize numbers and Decimal128 values', () => {
+      expect(normalizeAmount(1500000)).toBe('1500000');
+      expect(normalizeAmount(Types.Decimal128.fromString('001500.500'))).toBe('1500.5');
+      expect(normalizeAmount('-0.00')).toBe('0');
+    });
+
+    it('should reject empty and unparseable values', () => {
+      expect(normalizeAmount('')).toBeUndefined();
+      expect(normalizeAmount(null)).toBeUndefined();
+      expect(normalizeAmount('abc')).toBeUndefined();
+      expect(normalizeAmount(Number.NaN)).toBeUndefined();
+    });
+  });
+
+  describe('parseAmount', () => {
+    it('should parse text, numbers and Decimal128 values', () => {
+      expect(parseAmount('1.500.000')).toBe(1500000);
+      expect(parseAmount(Types.Decimal128.fromString('1.5'))).toBe(1.5);
+      expect(parseAmount(undefined)).toBeUndefined();
+    });
+  });
+
+  describe('toDecimal128', () => {
+    it('should store parsed amounts as Decimal128', () => {
+      const value = toDecimal128('1.500.000,50');
+      expect(value).toBeInstanceOf(Types.Decimal128);
+      expect(String(value)).toBe('1500000.5');
+    });
+
+    it('should clear empty amounts and pass unparseable text on', () => {
+      expect(toDecimal128('')).toBeNull();
+      expect(toDecimal128(undefined)).toBeUndefined();
+      expect(toDecimal128('abc')).toBe('abc');
+    });
+  });
+
+  describe('serializeAmounts', () => {
+    it('should serve stored amounts as text', () => {
+      const record = serializeAmounts(
+        { nilai: Types.Decimal128.fromString('1500000'), costSavingRp: null, nama: 'Paket' },
+        ['nilai', 'costSavingRp', 'nilaiKontrakUsd']
+      );
+
+      expect(record).toEqual({ nilai: '1500000', costSavingRp: '', nama: 'Paket' });
+      expect(formatAmount('legacy')).toBe('legacy');
+    });
+  });
+});
@@ -0,0 +1,65 @@
+import { nextCronRun, parseCron } from '../../../src/utils/cron';
+
+// WIB, the default REPORT_SCHEDULE_UTC_OFFSET_MINUTES
+const WIB = 420;
+
+const next = (expression: string, after: string, offset = 0): string | undefined =>
+  nextCronRun(parseCron(expression), new Date(after), offset)?.toISOString();
+
+describe('Cron Utils', () => {
+  describe('parseCron', () => {
+    it('should expand lists, ranges and steps', () => {
+      const schedule = parseCron('0,30 8-10 */10 1-12/3 *');
+
+      expect([...schedule.minutes]).toEqual([0, 30]);
+      expect([...schedule.hours]).toEqual([8, 9, 10]);
+      expect([...schedule.daysOfMonth]).toEqual([1, 11, 21, 31]);
+      expect([...schedule.months]).toEqual([1, 4, 7, 10]);
+      expect(schedule.anyDayOfWeek).toBe(true);
+    });
+
+    it('should accept month and day names, shorthands and 7 for Sunday', () => {
+      expect([...parseCron('0 7 * jan,JUL mon-fri').daysOfWeek]).toEqual([1, 2, 3, 4, 5]);
+      expect([...parseCron('0 7 * jan,JUL *').months]).toEqual([1, 7]);
+      expect([...parseCron('0 0 * * 7').daysOfWeek]).toEqual([0]);
+      expect(parseCron('@weekly')).toEqual(parseCron('0 0 * * 0'));
+    });
+
+    it('should reject invalid expressions', () => {
+      expect(() => parseCron('0 7 * *')).toThrow('5 fields');
+      expect(() => parseCron('60 7 * * *')).toThrow('Invalid minute "60"');
+      expect(() => parseCron('0 7 0 * *')).toThrow('Invalid day of month');
+      expect(() => parseCron('0 7 * * fun')).toThrow('Invalid day of week');
+      expect(() => parseCron('*/0 * * * *')).toThrow('Invalid step');
+      expect(() => parseCron('0 10-8 * * *')).toThrow();
+    });
+  });
+
+  describe('nextCronRun', () => {
+    it('should return the first run strictly after the moment', () => {
+      expect(next('*/15 * * * *', '2026-03-02T10:07:30Z')).toBe('2026-03-02T10:15:00.000Z');
+      expect(next('*/15 * * * *', '2026-03-02T10:15:00Z')).toBe('2026-03-02T10:30:00.000Z');
+      expect(next('0 0 1 * *', '2026-12-15T00:00:00Z')).toBe('2027-01-01T00:00:00.000Z');
+    });
+
+    it('should read times as wall-clock times at the UTC offset', () => {
+      // Monday 2 March 2026, 07:00 WIB is 00:00 UTC
+      expect(next('0 7 * * mon', '2026-02-27T12:00:00Z', WIB)).toBe('2026-03-02T00:00:00.000Z');
+      // 06:00 WIB on 1 March is still 28 February in UTC
+      expect(next('0 6 1 * *', '2026-02-20T00:00:00Z', WIB)).toBe('2026-02-28T23:00:00.000Z');
+    });
+
+    it('should run on either day field when both are restricted', () => {
+      // The 15th (a Sunday) or any Friday
+      expect(next('0 0 15 * fri', '2026-03-07T00:00:00Z')).toBe('2026-03-13T00:00:00.000Z');
+      expect(next('0 0 15 * fri', '2026-03-13T00:00:00Z')).toBe('2026-03-15T00:00:00.000Z');
+      // Only Fridays when the day of month is unrestricted
+      expect(next('0 0 * * fri', '2026-03-13T00:00:00Z')).toBe('2026-03-20T00:00:00.000Z');
+    });
+
+    it('should return null for a date that never comes', () => {
+      expect(next('0 0 31 2 *', '2026-01-01T00:00:00Z')).toBeUndefined();
+      expect(next('0 0 29 2 *', '2026-01-01T00:00:00Z')).toBe('2028-02-29T00:00:00.000Z');
+    });
+  });
+});
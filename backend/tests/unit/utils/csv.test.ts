@@ -0,0 +1,72 @@
+import { CSV_BOM, detectCsvDelimiter, escapeCsvValue, parseCsv, toCsvRow } from '../../../src/utils/csv';
+
+describe('CSV Utils', () => {
+  describe('escapeCsvValue', () => {
+    it('should leave plain values unquoted', () => {
+      expect(escapeCsvValue('Paket A')).toBe('Paket A');
+      expect(escapeCsvValue(1500000)).toBe('1500000');
+    });
+
+    it('should quote delimiters, quotes and line breaks', () => {
+      expect(escapeCsvValue('Jakarta, Indonesia')).toBe('"Jakarta, Indonesia"');
+      expect(escapeCsvValue('PT "Maju"')).toBe('"PT ""Maju"""');
+      expect(escapeCsvValue('baris 1\nbaris 2')).toBe('"baris 1\nbaris 2"');
+      expect(escapeCsvValue(' spasi ')).toBe('" spasi "');
+    });
+
+    it('should keep formulas from running when the file is opened in a spreadsheet', () => {
+      expect(escapeCsvValue('=HYPERLINK("http://example.com")')).toBe('"\'=HYPERLINK(""http://example.com"")"');
+      expect(escapeCsvValue('+62 812')).toBe("'+62 812");
+      expect(escapeCsvValue('-SUM(A1:A2)')).toBe("'-SUM(A1:A2)");
+      expect(escapeCsvValue('@cmd')).toBe("'@cmd");
+    });
+
+    it('should leave signed numbers as numbers', () => {
+      expect(escapeCsvValue(-2500)).toBe('-2500');
+      expect(escapeCsvValue('-2500.50')).toBe('-2500.50');
+      expect(escapeCsvValue('+1.500.000,00')).toBe('"+1.500.000,00"');
+    });
+
+    it('should render empty values and dates', () => {
+      expect(escapeCsvValue(null)).toBe('');
+      expect(escapeCsvValue(undefined)).toBe('');
+      expect(escapeCsvValue(new Date('2024-05-01T00:00:00.000Z'))).toBe('2024-05-01T00:00:00.000Z');
+    });
+  });
+
+  describe('toCsvRow', () => {
+    it('should join fields with CRLF line endings', () => {
+      expect(toCsvRow(['a', 'b,c', null])).toBe('a,"b,c",\r\n');
+    });
+  });
+
+  it('should expose the UTF-8 BOM', () => {
+    expect(CSV_BOM).toBe('\uFEFF');
+  });
+
+  describe('parseCsv', () => {
+    it('should read back what toCsvRow writes', () => {
+      const text = CSV_BOM + toCsvRow(['Nama', 'Catatan']) + toCsvRow(['Paket, "A"', 'baris 1\nbaris 2']);
+      expect(parseCsv(text)).toEqual([
+        ['Nama', 'Catatan'],
+        ['Paket, "A"', 'baris 1\nbaris 2'],
+      ]);
+    });
+
+    it('should detect semicolon-delimited files', () => {
+      const text = 'Nama;Nilai\nPaket A;1.500.000,00';
+      expect(detectCsvDelimiter(text)).toBe(';');
+      expect(parseCsv(text)).toEqual([
+        ['Nama', 'Nilai'],
+        ['Paket A', '1.500.000,00'],
+      ]);
+    });
+
+    it('should keep empty trailing fields', () => {
+      expect(parseCsv('a,b,\r\n,,x')).toEqual([
+        ['a', 'b', ''],
+        ['', '', 'x'],
+      ]);
+    });
+  });
+});
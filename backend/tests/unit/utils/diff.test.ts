@@ -0,0 +1,56 @@
+import { Types } from 'mongoose';
+import { diffFields, hasChanges, normalizeDiffValue, reconstructSnapshot } from '../../../src/utils/diff';
+
+describe('Diff Utils', () => {
+  describe('normalizeDiffValue', () => {
+    it('should treat empty values as null', () => {
+      expect(normalizeDiffValue(undefined)).toBeNull();
+      expect(normalizeDiffValue('')).toBeNull();
+    });
+
+    it('should serialize dates and ObjectIds', () => {
+      const id = new Types.ObjectId();
+      expect(normalizeDiffValue(new Date('2024-01-02T00:00:00.000Z'))).toBe('2024-01-02T00:00:00.000Z');
+      expect(normalizeDiffValue(id)).toBe(id.toHexString());
+    });
+  });
+
+  describe('diffFields', () => {
+    it('should only report changed fields', () => {
+      const changes = diffFields(
+        { nilaiPenunjukanAmount: '1000', namaPaket: 'Paket A', kontrakNomor: '' },
+        { nilaiPenunjukanAmount: '1500', namaPaket: 'Paket A' },
+        ['nilaiPenunjukanAmount', 'namaPaket', 'kontrakNomor']
+      );
+
+      expect(changes).toEqual({ nilaiPenunjukanAmount: { from: '1000', to: '1500' } });
+      expect(hasChanges(changes)).toBe(true);
+    });
+
+    it('should ignore fields outside the list', () => {
+      const changes = diffFields({ a: 1, b: 1 }, { a: 1, b: 2 }, ['a']);
+      expect(hasChanges(changes)).toBe(false);
+    });
+  });
+
+  describe('reconstructSnapshot', () => {
+    const history = [
+      { timestamp: new Date('2024-01-01T00:00:00Z'), changes: { kontrakNomor: { from: null, to: 'K-1' } } },
+      { timestamp: new Date('2024-02-01T00:00:00Z'), changes: { kontrakNomor: { from: 'K-1', to: 'K-2' } } },
+      { timestamp: new Date('2024-03-01T00:00:00Z'), changes: { status: { from: 'Draft', to: 'Submitted' } } },
+    ];
+    const current = { kontrakNomor: 'K-2', status: 'Submitted' };
+
+    it('should revert changes made after the requested moment', () => {
+      expect(reconstructSnapshot(current, history, new Date('2024-01-15T00:00:00Z'), ['kontrakNomor']))
+        .toEqual({ kontrakNomor: 'K-1' });
+      expect(reconstructSnapshot(current, history, new Date('2023-12-31T00:00:00Z'), ['kontrakNomor']))
+        .toEqual({ kontrakNomor: null });
+    });
+
+    it('should leave fields outside the list untouched', () => {
+      const snapshot = reconstructSnapshot(current, history, new Date('2023-12-31T00:00:00Z'), ['kontrakNomor']);
+      expect(snapshot).not.toHaveProperty('status');
+    });
+  });
+});
@@ -0,0 +1,27 @@
+import { companyNameSimilarity, normalizeCompanyName } from '../../../src/utils/fuzzy';
+
+describe('Fuzzy Utils', () => {
+  describe('normalizeCompanyName', () => {
+    it('should drop legal forms, punctuation and case', () => {
+      expect(normalizeCompanyName('PT. Maju Jaya, Tbk')).toBe('maju jaya');
+      expect(normalizeCompanyName('CV  Sinar-Abadi')).toBe('sinar abadi');
+      expect(normalizeCompanyName('PT (Persero) Telkom Indonesia')).toBe('telkom indonesia');
+    });
+  });
+
+  describe('companyNameSimilarity', () => {
+    it('should treat names differing only in legal form as equal', () => {
+      expect(companyNameSimilarity('PT Maju Jaya', 'maju jaya tbk')).toBe(1);
+    });
+
+    it('should score typos and reordered words highly', () => {
+      expect(companyNameSimilarity('PT Maju Jya', 'PT Maju Jaya')).toBeGreaterThan(0.8);
+      expect(companyNameSimilarity('Indonesia Telkom', 'PT Telkom Indonesia')).toBe(1);
+    });
+
+    it('should score unrelated names low', () => {
+      expect(companyNameSimilarity('PT Maju Jaya', 'CV Sinar Abadi')).toBeLessThan(0.5);
+      expect(companyNameSimilarity('PT', 'PT Maju Jaya')).toBe(0);
+    });
+  });
+});
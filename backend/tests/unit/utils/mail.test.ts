@@ -0,0 +1,183 @@
+import fs from 'fs';
+import net from 'net';
+import os from 'os';
+import path from 'path';
+import { MailMessage, MaildirTransport, SmtpTransport, buildMimeMessage, extractAddress } from '../../../src/utils/mail';
+
+const message: MailMessage = {
+  from: 'Procurement <noreply@procurement.local>',
+  to: ['a@example.com', 'B <b@example.com>'],
+  subject: 'Rekap per Metode: Laporan (2 Maret 2026)',
+  text: 'Terlampir laporan.\n.titik di awal baris',
+  attachments: [{ filename: 'rekap.csv', contentType: 'text/csv', content: Buffer.from('a;b\n1;2\n') }],
+};
+
+// Decoded base64 body of the MIME part with the given content type
+const partBody = (mime: string, contentType: string): string => {
+  const part = mime.split(/\r\n--=_[0-9a-f]+/).find((item) => item.includes(`Content-Type: ${contentType}`)) ?? '';
+  return Buffer.from(part.split('\r\n\r\n')[1] ?? '', 'base64').toString('utf8');
+};
+
+describe('Mail Utils', () => {
+  describe('extractAddress', () => {
+    it('should take the address out of a display name', () => {
+      expect(extractAddress('Procurement <noreply@procurement.local>')).toBe('noreply@procurement.local');
+      expect(extractAddress(' a@example.com ')).toBe('a@example.com');
+    });
+  });
+
+  describe('buildMimeMessage', () => {
+    it('should build a multipart message with the text and attachments', () => {
+      const mime = buildMimeMessage(message, new Date('2026-03-02T00:00:00Z'), 'abc');
+
+      expect(mime).toContain('From: Procurement <noreply@procurement.local>\r\n');
+      expect(mime).toContain('To: a@example.com, B <b@example.com>\r\n');
+      expect(mime).toContain('Subject: Rekap per Metode: Laporan (2 Maret 2026)\r\n');
+      expect(mime).toContain('Date: Mon, 02 Mar 2026 00:00:00 +0000\r\n');
+      expect(mime).toContain('Message-ID: <abc@procurement.local>\r\n');
+      expect(mime).toContain('Content-Disposition: attachment; filename="rekap.csv"');
+      expect(partBody(mime, 'text/plain')).toBe(message.text);
+      expect(partBody(mime, 'text/csv')).toBe('a;b\n1;2\n');
+      expect(mime.endsWith('--\r\n')).toBe(true);
+    });
+
+    it('should encode a subject that is not ASCII', () => {
+      const mime = buildMimeMessage({ ...message, subject: 'Laporan – Maret' });
+      const encoded = /^Subject: =\?UTF-8\?B\?([^?]+)\?=/m.exec(mime)?.[1] ?? '';
+
+      expect(Buffer.from(encoded, 'base64').toString('utf8')).toBe('Laporan – Maret');
+    });
+  });
+
+  describe('MaildirTransport', () => {
+    let directory: string;
+
+    beforeEach(() => {
+      directory = fs.mkdtempSync(path.join(os.tmpdir(), 'maildir-'));
+    });
+
+    afterEach(() => {
+      fs.rmSync(directory, { recursive: true, force: true });
+    });
+
+    it('should write each message into new', async () => {
+      const file = await new MaildirTransport(directory).send(message);
+
+      expect(path.dirname(file)).toBe(path.join(directory, 'new'));
+      expect(fs.readdirSync(path.join(directory, 'tmp'))).toEqual([]);
+      expect(fs.readFileSync(file, 'utf8')).toContain('Subject: Rekap per Metode');
+    });
+  });
+
+  describe('SmtpTransport', () => {
+    let server: net.Server;
+    let port: number;
+    let commands: string[];
+    let data: string;
+
+    // Relay accepting any mail, with AUTH but without STARTTLS
+    beforeEach(async () => {
+      commands = [];
+      data = '';
+      server = net.createServer((socket) => {
+        let buffer = '';
+        let inData = false;
+        socket.setEncoding('utf8');
+        socket.write('220 relay.local ESMTP\r\n');
+        socket.on('data', (chunk: string) => {
+          buffer += chunk;
+          let index: number;
+          while ((index = buffer.indexOf('\r\n')) >= 0) {
+            const line = buffer.slice(0, index);
+            buffer = buffer.slice(index + 2);
+            if (inData) {
+              if (line === '.') {
+                inData = false;
+                socket.write('250 2.0.0 Ok: queued as 42\r\n');
+              } else {
+                data += `${line}\r\n`;
+              }
+              continue;
+            }
+            commands.push(line);
+            if (line.startsWith('EHLO')) {
+              socket.write('250-relay.local\r\n250-AUTH LOGIN PLAIN\r\n250 8BITMIME\r\n');
+            } else if (line.startsWith('AUTH PLAIN')) {
+              socket.write('235 2.7.0 Authentication successful\r\n');
+            } else if (line === 'DATA') {
+              inData = true;
+              socket.write('354 End data with <CR><LF>.<CR><LF>\r\n');
+            } else if (line === 'QUIT') {
+              socket.end('221 2.0.0 Bye\r\n');
+            } else {
+              socket.write('250 2.1.0 Ok\r\n');
+            }
+          }
+        });
+      });
+      await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+      port = (server.address() as net.AddressInfo).port;
+    });
+
+    afterEach(async () => {
+      await new Promise((resolve) => server.close(resolve));
+    });
+
+    it('should send the message to every recipient', async () => {
+      const transport = new SmtpTransport({
+        host: '127.0.0.1',
+        port,
+        secure: false,
+        timeoutMs: 5000,
+        clientName: 'app.local',
+      });
+
+      await expect(transport.send(message)).resolves.toBe('2.0.0 Ok: queued as 42');
+      expect(commands).toEqual([
+        'EHLO app.local',
+        'MAIL FROM:<noreply@procurement.local>',
+        'RCPT TO:<a@example.com>',
+        'RCPT TO:<b@example.com>',
+        'DATA',
+        'QUIT',
+      ]);
+      expect(data).toContain('Subject: Rekap per Metode');
+    });
+
+    it('should not send credentials to a server without STARTTLS', async () => {
+      const transport = new SmtpTransport({
+        host: '127.0.0.1',
+        port,
+        secure: false,
+        user: 'mailer',
+        pass: 'secret',
+        timeoutMs: 5000,
+        clientName: 'app.local',
+      });
+
+      await expect(transport.send(message)).rejects.toThrow('refusing to send credentials in clear text');
+      expect(commands).toEqual(['EHLO app.local']);
+    });
+
+    it('should time out when the server does not answer', async () => {
+      server.removeAllListeners('connection');
+      const transport = new SmtpTransport({ host: '127.0.0.1', port, secure: false, timeoutMs: 100 });
+
+      await expect(transport.send(message)).rejects.toThrow('SMTP connection timed out');
+    });
+
+    it('should fail on a rejected recipient', async () => {
+      server.removeAllListeners('connection');
+      server.on('connection', (socket: net.Socket) => {
+        socket.write('220 relay.local ESMTP\r\n');
+        socket.on('data', (chunk: Buffer) => {
+          const line = chunk.toString();
+          socket.write(line.startsWith('RCPT') ? '550 5.1.1 No such user\r\n' : '250 Ok\r\n');
+        });
+      });
+      const transport = new SmtpTransport({ host: '127.0.0.1', port, secure: false, timeoutMs: 5000 });
+
+      await expect(transport.send(message)).rejects.toThrow('SMTP RCPT TO:<a@example.com> failed: 550');
+    });
+  });
+});
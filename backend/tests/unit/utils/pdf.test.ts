@@ -0,0 +1,93 @@
+import { inflateSync } from 'zlib';
+import { PAGE_SIZES, PdfDocument, measureText, toWinAnsi, truncateText, wrapText } from '../../../src/utils/pdf';
+
+// Content stream of the only page in a document
+const pageContent = (pdf: Buffer): string => {
+  const text = pdf.toString('latin1');
+  const start = text.indexOf('stream\n') + 'stream\n'.length;
+  const end = text.indexOf('\nendstream');
+  return inflateSync(pdf.subarray(start, end)).toString('latin1');
+};
+
+describe('PDF Utils', () => {
+  describe('measureText', () => {
+    it('should use the Helvetica glyph widths', () => {
+      expect(measureText('i', 10)).toBeCloseTo(2.22);
+      expect(measureText('W', 10, true)).toBeCloseTo(9.44);
+      expect(measureText('', 10)).toBe(0);
+    });
+  });
+
+  describe('truncateText', () => {
+    it('should keep fitting text and shorten the rest', () => {
+      expect(truncateText('Tender', 100, 10)).toBe('Tender');
+
+      const cut = truncateText('Pengadaan Jasa Konsultansi Pengawasan', 60, 10);
+      expect(cut.endsWith('...')).toBe(true);
+      expect(measureText(cut, 10)).toBeLessThanOrEqual(60);
+    });
+  });
+
+  describe('wrapText', () => {
+    it('should break at spaces and explicit line breaks', () => {
+      expect(wrapText('satu dua tiga', measureText('satu dua', 10), 10)).toEqual(['satu dua', 'tiga']);
+      expect(wrapText('baris 1\nbaris 2', 500, 10)).toEqual(['baris 1', 'baris 2']);
+    });
+  });
+
+  describe('toWinAnsi', () => {
+    it('should keep Latin-1 text and map typographic marks to their WinAnsi codes', () => {
+      expect(toWinAnsi('CV Café Sejahtera')).toBe('CV Café Sejahtera');
+      expect(toWinAnsi('“Paket” – €')).toBe('\x93Paket\x94 \x96 \x80');
+    });
+
+    it('should strip accents the character set lacks and replace what it cannot show', () => {
+      expect(toWinAnsi('PT Şirket Ăn')).toBe('PT Sirket An');
+      expect(toWinAnsi('東京 Łódź 🚚')).toBe('?? ?ódz ?');
+      expect(toWinAnsi('\u0085')).toBe('?');
+    });
+  });
+
+  describe('PdfDocument', () => {
+    it('should write a valid document with one object per page', () => {
+      const doc = new PdfDocument(PAGE_SIZES.A4_LANDSCAPE, 'Laporan');
+      doc.addPage();
+      const pdf = doc.toBuffer().toString('latin1');
+
+      expect(doc.pageCount).toBe(2);
+      expect(pdf.startsWith('%PDF-1.4')).toBe(true);
+      expect(pdf).toContain('/Count 2');
+      expect(pdf).toContain('/MediaBox [0 0 841.89 595.28]');
+      expect(pdf).toContain('/Title (Laporan)');
+    });
+
+    it('should place text from the top-left and escape delimiters', () => {
+      const doc = new PdfDocument(PAGE_SIZES.A4_PORTRAIT);
+      doc.text('Nilai (Rp)', 40, 40, { size: 10, bold: true });
+
+      expect(pageContent(doc.toBuffer())).toBe('BT /F2 10 Tf 40 793.89 Td (Nilai \\(Rp\\)) Tj ET');
+    });
+
+    it('should write text outside WinAnsi without garbling it', () => {
+      const doc = new PdfDocument();
+      doc.text('Tōkyō “Ekspres” 東', 10, 10);
+
+      expect(pageContent(doc.toBuffer())).toContain('(Tokyo \x93Ekspres\x94 ?) Tj');
+    });
+
+    it('should point the xref at every object', () => {
+      const doc = new PdfDocument();
+      doc.text('Halo', 10, 10);
+      const pdf = doc.toBuffer();
+      const text = pdf.toString('latin1');
+
+      const startxref = Number(text.slice(text.lastIndexOf('startxref') + 10).split('\n')[0]);
+      expect(text.slice(startxref, startxref + 4)).toBe('xref');
+      const offsets = text.match(/^\d{10} 00000 n $/gm) ?? [];
+      offsets.forEach((entry, index) => {
+        const offset = Number(entry.slice(0, 10));
+        expect(text.slice(offset, offset + `${index + 1} 0 obj`.length)).toBe(`${index + 1} 0 obj`);
+      });
+    });
+  });
+});
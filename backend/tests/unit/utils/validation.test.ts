@@ -2,6 +2,7 @@ import {
   sanitizeInput,
   commonSchemas,
   pengadaanSchemas,
+  vendorSchemas,
 } from '../../../src/utils/validation';
 
 describe('Validation Utils', () => {
@@ -391,6 +392,84 @@ describe('Validation Utils', () => {
 
         expect(() => pengadaanSchemas.update.parse(partialData)).not.toThrow();
       });
+
+      it('should keep form fields and drop unknown ones', () => {
+        const parsed = pengadaanSchemas.update.parse({
+          nilaiPenunjukanAmount: 1500000,
+          statusPengadaan: 'Selesai',
+          editHistory: [],
+        });
+
+        expect(parsed).toEqual({ nilaiPenunjukanAmount: 1500000, statusPengadaan: 'Selesai' });
+      });
+
+      it('should accept formatted amounts and reject text that is not a number', () => {
+        expect(pengadaanSchemas.update.safeParse({ nilaiHpsAmount: '1.500.000,50' }).success).toBe(true);
+        expect(pengadaanSchemas.update.safeParse({ costSavingRp: '' }).success).toBe(true);
+        expect(pengadaanSchemas.update.safeParse({ nilai: 'satu juta' }).success).toBe(false);
+      });
+    });
+
+    describe('Purge schema', () => {
+      it('should require the confirmation phrase', () => {
+        expect(pengadaanSchemas.purge.safeParse({ confirm: 'PURGE_ALL_DATA' }).success).toBe(true);
+        expect(pengadaanSchemas.purge.safeParse({ confirm: 'yes' }).success).toBe(false);
+        expect(pengadaanSchemas.purge.safeParse({}).success).toBe(false);
+      });
+    });
+
+    describe('Restore backup schema', () => {
+      const restore = (collections: string[]) =>
+        pengadaanSchemas.restoreBackup.safeParse({ backupId: 'backup-20240501T083000000Z', collections });
+
+      it('should accept the collections a backup holds and reject others', () => {
+        expect(restore(['pengadaan', 'documentTemplates', 'reportSchedules']).success).toBe(true);
+        expect(restore(['sessions']).success).toBe(false);
+        expect(restore([]).success).toBe(false);
+      });
+    });
+
+    describe('Audit log list schema', () => {
+      it('should default paging and reject unknown actions', () => {
+        expect(pengadaanSchemas.auditLogList.parse({})).toEqual({ page: 1, limit: 20 });
+        expect(pengadaanSchemas.auditLogList.parse({ action: 'pengadaan.purge', page: '2' })).toEqual({
+          page: 2,
+          limit: 20,
+          action: 'pengadaan.purge',
+        });
+        expect(pengadaanSchemas.auditLogList.safeParse({ action: 'pengadaan.delete' }).success).toBe(false);
+      });
+    });
+  });
+
+  describe('Vendor schemas', () => {
+    describe('Blacklist create schema', () => {
+      const entry = {
+        vendorId: '507f1f77bcf86cd799439011',
+        reason: 'Wanprestasi kontrak',
+        startDate: '2024-01-01',
+        endDate: '2025-12-31',
+        referenceDocument: 'SK-001/2024',
+      };
+
+      it('should coerce the sanction period to dates', () => {
+        const parsed = vendorSchemas.blacklistCreate.parse(entry);
+
+        expect(parsed.startDate).toEqual(new Date('2024-01-01'));
+        expect(parsed.endDate).toEqual(new Date('2025-12-31'));
+      });
+
+      it('should reject a period ending before it starts', () => {
+        const result = vendorSchemas.blacklistCreate.safeParse({ ...entry, endDate: '2023-12-31' });
+
+        expect(result.success).toBe(false);
+        expect(result.success ? [] : result.error.issues[0]?.path).toEqual(['endDate']);
+      });
+
+      it('should require a reason and reference document', () => {
+        expect(vendorSchemas.blacklistCreate.safeParse({ ...entry, reason: ' ' }).success).toBe(false);
+        expect(vendorSchemas.blacklistCreate.safeParse({ ...entry, referenceDocument: '' }).success).toBe(false);
+      });
     });
   });
-});
\ No newline at end of file
+});
@@ -0,0 +1,46 @@
+import { addWorkingDays, countWorkingDays, isWorkingDay } from '../../../src/utils/workingDays';
+
+const date = (text: string): Date => new Date(`${text}T00:00:00.000Z`);
+
+describe('Working Day Utils', () => {
+  const holidays = new Set(['2024-03-11']);
+
+  describe('isWorkingDay', () => {
+    it('should skip weekends and holidays', () => {
+      expect(isWorkingDay(date('2024-03-08'), holidays)).toBe(true);
+      expect(isWorkingDay(date('2024-03-09'), holidays)).toBe(false);
+      expect(isWorkingDay(date('2024-03-10'), holidays)).toBe(false);
+      expect(isWorkingDay(date('2024-03-11'), holidays)).toBe(false);
+    });
+  });
+
+  describe('countWorkingDays', () => {
+    it('should count working days after the start up to the end', () => {
+      expect(countWorkingDays(date('2024-03-04'), date('2024-03-04'), holidays)).toBe(0);
+      expect(countWorkingDays(date('2024-03-04'), date('2024-03-08'), holidays)).toBe(4);
+      // Over a weekend and the holiday on Monday 11 March
+      expect(countWorkingDays(date('2024-03-08'), date('2024-03-12'), holidays)).toBe(1);
+    });
+
+    it('should be negative when the end is earlier', () => {
+      expect(countWorkingDays(date('2024-03-08'), date('2024-03-04'), holidays)).toBe(-4);
+    });
+  });
+
+  describe('addWorkingDays', () => {
+    it('should land on the Nth working day after the start', () => {
+      expect(addWorkingDays(date('2024-03-04'), 0, holidays)).toEqual(date('2024-03-04'));
+      expect(addWorkingDays(date('2024-03-04'), 4, holidays)).toEqual(date('2024-03-08'));
+      expect(addWorkingDays(date('2024-03-08'), 1, holidays)).toEqual(date('2024-03-12'));
+    });
+
+    it('should go back when the count is negative', () => {
+      expect(addWorkingDays(date('2024-03-12'), -1, holidays)).toEqual(date('2024-03-08'));
+    });
+
+    it('should agree with countWorkingDays', () => {
+      const from = date('2024-03-06');
+      expect(countWorkingDays(from, addWorkingDays(from, 7, holidays), holidays)).toBe(7);
+    });
+  });
+});
@@ -0,0 +1,345 @@
+import { useState, type FormEvent } from "react";
+import { Pencil, Plus, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Card, CardContent } from "@/components/ui/card";
+import { Progress } from "@/components/ui/progress";
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { formatCurrency } from "@/lib/utils";
+import { JENIS_ANGGARAN, PENGGUNA_BARANG_JASA } from "@/lib/budget";
+import { useBudgetAbsorption, useCreateBudget, useDeleteBudget, useUpdateBudget } from "@/services/budget";
+import type { BudgetAbsorptionItem, JenisAnggaran } from "@/types/budget";
+
+const currentYear = new Date().getFullYear();
+const yearOptions = Array.from({ length: 10 }, (_, i) => currentYear - 5 + i);
+
+const EMPTY_FORM = {
+  tahunAnggaran: String(currentYear),
+  jenisAnggaran: "ABO" as JenisAnggaran,
+  penggunaBarangJasa: "",
+  pagu: "",
+  keterangan: "",
+};
+
+const formatPercent = (value: number | null) => (value === null ? "-" : `${value.toLocaleString("id-ID")}%`);
+
+// Budget ceilings per year, budget type and user unit, with committed, realised and remaining amounts
+export const Anggaran = () => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const isAdmin = user?.role === "admin";
+  const [year, setYear] = useState(String(currentYear));
+  const [editing, setEditing] = useState<BudgetAbsorptionItem | null>(null);
+  const [showForm, setShowForm] = useState(false);
+  const [form, setForm] = useState(EMPTY_FORM);
+
+  const { data: absorption, isLoading } = useBudgetAbsorption(year === "all" ? {} : { tahunAnggaran: Number(year) });
+  const createBudget = useCreateBudget();
+  const updateBudget = useUpdateBudget();
+  const deleteBudget = useDeleteBudget();
+  const items = absorption?.items ?? [];
+
+  const showError = (error: unknown, fallback: string) =>
+    toast({
+      title: "Error!",
+      description: error instanceof Error ? error.message : fallback,
+      variant: "destructive",
+    });
+
+  const openForm = (item?: BudgetAbsorptionItem) => {
+    setEditing(item ?? null);
+    setForm(
+      item
+        ? {
+            tahunAnggaran: String(item.tahunAnggaran),
+            jenisAnggaran: item.jenisAnggaran,
+            penggunaBarangJasa: item.penggunaBarangJasa,
+            pagu: String(item.pagu),
+            keterangan: item.keterangan ?? "",
+          }
+        : EMPTY_FORM
+    );
+    setShowForm(true);
+  };
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    const data = {
+      tahunAnggaran: Number(form.tahunAnggaran),
+      jenisAnggaran: form.jenisAnggaran,
+      penggunaBarangJasa: form.penggunaBarangJasa,
+      pagu: Number(form.pagu),
+      ...(form.keterangan.trim() ? { keterangan: form.keterangan.trim() } : {}),
+    };
+    try {
+      if (editing) {
+        await updateBudget.mutateAsync({ id: editing.id, data });
+      } else {
+        await createBudget.mutateAsync(data);
+      }
+      toast({ title: "Berhasil!", description: "Pagu anggaran telah disimpan." });
+      setShowForm(false);
+    } catch (error) {
+      showError(error, "Gagal menyimpan pagu anggaran.");
+    }
+  };
+
+  const handleDelete = async (item: BudgetAbsorptionItem) => {
+    if (!window.confirm(`Hapus pagu ${item.jenisAnggaran} ${item.tahunAnggaran} ${item.penggunaBarangJasa}?`)) return;
+    try {
+      await deleteBudget.mutateAsync(item.id);
+      toast({ title: "Berhasil!", description: "Pagu anggaran telah dihapus." });
+    } catch (error) {
+      showError(error, "Gagal menghapus pagu anggaran.");
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold text-gray-900">Anggaran</h1>
+        <p className="text-gray-600 mt-1">Pagu dan penyerapan anggaran per tahun, jenis anggaran dan pengguna</p>
+      </div>
+
+      <div className="flex flex-col md:flex-row justify-between gap-4">
+        <Select value={year} onValueChange={setYear}>
+          <SelectTrigger className="md:w-48">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {yearOptions.map((option) => (
+              <SelectItem key={option} value={String(option)}>
+                {option}
+              </SelectItem>
+            ))}
+            <SelectItem value="all">Semua Tahun</SelectItem>
+          </SelectContent>
+        </Select>
+        {isAdmin && (
+          <Button onClick={() => openForm()}>
+            <Plus className="w-4 h-4 mr-2" />
+            Tambah Pagu
+          </Button>
+        )}
+      </div>
+
+      {absorption && (
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+          <Card className="border-0 shadow">
+            <CardContent className="p-6">
+              <p className="text-sm text-gray-600">Total Pagu</p>
+              <p className="text-2xl font-bold">{formatCurrency(absorption.totals.pagu)}</p>
+            </CardContent>
+          </Card>
+          <Card className="border-0 shadow">
+            <CardContent className="p-6">
+              <p className="text-sm text-gray-600">Terikat (HPS)</p>
+              <p className="text-2xl font-bold">{formatCurrency(absorption.totals.committed)}</p>
+            </CardContent>
+          </Card>
+          <Card className="border-0 shadow">
+            <CardContent className="p-6">
+              <p className="text-sm text-gray-600">Terealisasi (Kontrak)</p>
+              <p className="text-2xl font-bold">{formatCurrency(absorption.totals.realised)}</p>
+            </CardContent>
+          </Card>
+          <Card className="border-0 shadow">
+            <CardContent className="p-6">
+              <p className="text-sm text-gray-600">Penyerapan</p>
+              <p className="text-2xl font-bold">{formatPercent(absorption.totals.absorption)}</p>
+            </CardContent>
+          </Card>
+        </div>
+      )}
+
+      <Card className="border-0 shadow">
+        <CardContent className="p-0">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Tahun</TableHead>
+                <TableHead>Jenis</TableHead>
+                <TableHead>Pengguna</TableHead>
+                <TableHead className="text-right">Pagu</TableHead>
+                <TableHead className="text-right">Terikat</TableHead>
+                <TableHead className="text-right">Terealisasi</TableHead>
+                <TableHead className="text-right">Sisa</TableHead>
+                <TableHead className="w-40">Penyerapan</TableHead>
+                {isAdmin && <TableHead />}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {items.map((item) => (
+                <TableRow key={item.id}>
+                  <TableCell>{item.tahunAnggaran}</TableCell>
+                  <TableCell>{item.jenisAnggaran}</TableCell>
+                  <TableCell className="font-medium">{item.penggunaBarangJasa}</TableCell>
+                  <TableCell className="text-right">{formatCurrency(item.pagu)}</TableCell>
+                  <TableCell className="text-right">
+                    {formatCurrency(item.committed)}
+                    <div className="text-xs text-muted-foreground">{item.committedCount} paket</div>
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {formatCurrency(item.realised)}
+                    <div className="text-xs text-muted-foreground">{item.realisedCount} paket</div>
+                  </TableCell>
+                  <TableCell className={`text-right ${item.remaining < 0 ? "text-red-600 font-medium" : ""}`}>
+                    {formatCurrency(item.remaining)}
+                  </TableCell>
+                  <TableCell>
+                    <Progress value={Math.min(item.absorption ?? 0, 100)} />
+                    <div className="text-xs text-muted-foreground mt-1">{formatPercent(item.absorption)}</div>
+                  </TableCell>
+                  {isAdmin && (
+                    <TableCell className="text-right whitespace-nowrap">
+                      <Button variant="ghost" size="sm" onClick={() => openForm(item)}>
+                        <Pencil className="w-4 h-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => handleDelete(item)}
+                        disabled={deleteBudget.isPending}
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    </TableCell>
+                  )}
+                </TableRow>
+              ))}
+              {!isLoading && items.length === 0 && (
+                <TableRow>
+                  <TableCell colSpan={isAdmin ? 9 : 8} className="text-center text-muted-foreground">
+                    Belum ada pagu anggaran.
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      <Dialog open={showForm} onOpenChange={setShowForm}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{editing ? "Ubah Pagu Anggaran" : "Tambah Pagu Anggaran"}</DialogTitle>
+          </DialogHeader>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="budget-year">Tahun Anggaran</Label>
+                <Select
+                  value={form.tahunAnggaran}
+                  onValueChange={(value) => setForm((prev) => ({ ...prev, tahunAnggaran: value }))}
+                >
+                  <SelectTrigger id="budget-year">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {yearOptions.map((option) => (
+                      <SelectItem key={option} value={String(option)}>
+                        {option}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="budget-type">Jenis Anggaran</Label>
+                <Select
+                  value={form.jenisAnggaran}
+                  onValueChange={(value) => setForm((prev) => ({ ...prev, jenisAnggaran: value as JenisAnggaran }))}
+                >
+                  <SelectTrigger id="budget-type">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {JENIS_ANGGARAN.map((item) => (
+                      <SelectItem key={item} value={item}>
+                        {item}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="budget-unit">Pengguna Barang/ Jasa</Label>
+              <Select
+                value={form.penggunaBarangJasa}
+                onValueChange={(value) => setForm((prev) => ({ ...prev, penggunaBarangJasa: value }))}
+              >
+                <SelectTrigger id="budget-unit">
+                  <SelectValue placeholder="Pilih Pengguna" />
+                </SelectTrigger>
+                <SelectContent>
+                  {PENGGUNA_BARANG_JASA.map((item) => (
+                    <SelectItem key={item} value={item}>
+                      {item}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="budget-pagu">Pagu (Rp)</Label>
+              <Input
+                id="budget-pagu"
+                type="number"
+                min={0}
+                required
+                value={form.pagu}
+                onChange={(e) => setForm((prev) => ({ ...prev, pagu: e.target.value }))}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="budget-notes">Keterangan</Label>
+              <Textarea
+                id="budget-notes"
+                maxLength={1000}
+                value={form.keterangan}
+                onChange={(e) => setForm((prev) => ({ ...prev, keterangan: e.target.value }))}
+              />
+            </div>
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setShowForm(false)}>
+                Batal
+              </Button>
+              <Button
+                type="submit"
+                disabled={!form.penggunaBarangJasa || createBudget.isPending || updateBudget.isPending}
+              >
+                Simpan
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
@@ -0,0 +1,273 @@
+import { useState, type FormEvent } from "react";
+import { Plus } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent } from "@/components/ui/card";
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { VendorPicker } from "@/components/VendorPicker";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { useCreateBlacklistEntry, useRevokeBlacklistEntry, useVendorBlacklist } from "@/services/vendor";
+import type { Vendor, VendorBlacklistEntry, VendorBlacklistStatus } from "@/types/vendor";
+
+type StatusFilter = VendorBlacklistStatus | "all";
+
+const STATUS_LABELS: Record<VendorBlacklistStatus, string> = {
+  active: "Berlaku",
+  upcoming: "Akan berlaku",
+  expired: "Berakhir",
+  revoked: "Dicabut",
+};
+
+const EMPTY_FORM = { reason: "", startDate: "", endDate: "", referenceDocument: "" };
+
+const formatDate = (value: string) => new Date(value).toLocaleDateString("id-ID");
+
+const getEntryStatus = (entry: VendorBlacklistEntry): VendorBlacklistStatus => {
+  if (entry.revokedAt) return "revoked";
+  if (entry.isActive) return "active";
+  return new Date(entry.startDate) > new Date() ? "upcoming" : "expired";
+};
+
+const getVendorName = (entry: VendorBlacklistEntry) =>
+  typeof entry.vendorId === "string" ? entry.vendorId : entry.vendorId.nama;
+
+// Blacklist (Daftar Hitam) register; admins add and revoke sanctions
+export const DaftarHitam = () => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const isAdmin = user?.role === "admin";
+  const [status, setStatus] = useState<StatusFilter>("active");
+  const [showForm, setShowForm] = useState(false);
+  const [vendor, setVendor] = useState<Vendor | null>(null);
+  const [form, setForm] = useState(EMPTY_FORM);
+
+  const { data: entries = [], isLoading } = useVendorBlacklist({
+    ...(status !== "all" ? { status } : {}),
+    limit: 100,
+  });
+  const createEntry = useCreateBlacklistEntry();
+  const revokeEntry = useRevokeBlacklistEntry();
+
+  const showError = (error: unknown, fallback: string) =>
+    toast({
+      title: "Error!",
+      description: error instanceof Error ? error.message : fallback,
+      variant: "destructive",
+    });
+
+  const handleCreate = async (e: FormEvent) => {
+    e.preventDefault();
+    if (!vendor) {
+      toast({ title: "Penyedia belum dipilih", variant: "destructive" });
+      return;
+    }
+    try {
+      await createEntry.mutateAsync({ vendorId: vendor.id, ...form });
+      toast({ title: "Berhasil!", description: `${vendor.nama} dimasukkan ke daftar hitam.` });
+      setShowForm(false);
+      setVendor(null);
+      setForm(EMPTY_FORM);
+    } catch (error) {
+      showError(error, "Gagal menyimpan daftar hitam.");
+    }
+  };
+
+  const handleRevoke = async (entry: VendorBlacklistEntry) => {
+    const reason = window.prompt(`Alasan mencabut sanksi ${getVendorName(entry)}:`);
+    if (!reason || !reason.trim()) return;
+    try {
+      await revokeEntry.mutateAsync({ id: entry.id, reason: reason.trim() });
+      toast({ title: "Berhasil!", description: "Sanksi telah dicabut." });
+    } catch (error) {
+      showError(error, "Gagal mencabut sanksi.");
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-col md:flex-row justify-between gap-4">
+        <Select value={status} onValueChange={(value) => setStatus(value as StatusFilter)}>
+          <SelectTrigger className="md:w-48">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {(Object.keys(STATUS_LABELS) as VendorBlacklistStatus[]).map((key) => (
+              <SelectItem key={key} value={key}>
+                {STATUS_LABELS[key]}
+              </SelectItem>
+            ))}
+            <SelectItem value="all">Semua</SelectItem>
+          </SelectContent>
+        </Select>
+        {isAdmin && (
+          <Button onClick={() => setShowForm(true)}>
+            <Plus className="w-4 h-4 mr-2" />
+            Tambah Sanksi
+          </Button>
+        )}
+      </div>
+
+      <Card className="border-0 shadow">
+        <CardContent className="p-0">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Penyedia</TableHead>
+                <TableHead>Alasan</TableHead>
+                <TableHead>Dokumen Referensi</TableHead>
+                <TableHead>Masa Sanksi</TableHead>
+                <TableHead>Status</TableHead>
+                {isAdmin && <TableHead />}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {entries.map((entry) => {
+                const entryStatus = getEntryStatus(entry);
+                return (
+                  <TableRow key={entry.id}>
+                    <TableCell className="font-medium">{getVendorName(entry)}</TableCell>
+                    <TableCell className="max-w-xs">
+                      <div>{entry.reason}</div>
+                      {entry.revokeReason && (
+                        <div className="text-xs text-muted-foreground">Dicabut: {entry.revokeReason}</div>
+                      )}
+                    </TableCell>
+                    <TableCell>{entry.referenceDocument}</TableCell>
+                    <TableCell>
+                      {formatDate(entry.startDate)} – {formatDate(entry.endDate)}
+                    </TableCell>
+                    <TableCell>
+                      <Badge
+                        className={entryStatus === "active" ? "bg-red-100 text-red-800" : undefined}
+                        variant={entryStatus === "active" ? "default" : "outline"}
+                      >
+                        {STATUS_LABELS[entryStatus]}
+                      </Badge>
+                    </TableCell>
+                    {isAdmin && (
+                      <TableCell className="text-right">
+                        {entryStatus !== "revoked" && entryStatus !== "expired" && (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => handleRevoke(entry)}
+                            disabled={revokeEntry.isPending}
+                          >
+                            Cabut
+                          </Button>
+                        )}
+                      </TableCell>
+                    )}
+                  </TableRow>
+                );
+              })}
+              {!isLoading && entries.length === 0 && (
+                <TableRow>
+                  <TableCell colSpan={isAdmin ? 6 : 5} className="text-center text-muted-foreground">
+                    Tidak ada sanksi.
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      <Dialog open={showForm} onOpenChange={setShowForm}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Tambah Daftar Hitam</DialogTitle>
+          </DialogHeader>
+          <form onSubmit={handleCreate} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="blacklist-vendor">Penyedia</Label>
+              <VendorPicker
+                id="blacklist-vendor"
+                value={vendor?.id ?? null}
+                selectedName={vendor?.nama ?? ""}
+                onSelect={setVendor}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="blacklist-reason">Alasan Sanksi</Label>
+              <Textarea
+                id="blacklist-reason"
+                required
+                maxLength={1000}
+                value={form.reason}
+                onChange={(e) => setForm((prev) => ({ ...prev, reason: e.target.value }))}
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="blacklist-start">Mulai</Label>
+                <Input
+                  id="blacklist-start"
+                  type="date"
+                  required
+                  value={form.startDate}
+                  onChange={(e) => setForm((prev) => ({ ...prev, startDate: e.target.value }))}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="blacklist-end">Berakhir</Label>
+                <Input
+                  id="blacklist-end"
+                  type="date"
+                  required
+                  min={form.startDate || undefined}
+                  value={form.endDate}
+                  onChange={(e) => setForm((prev) => ({ ...prev, endDate: e.target.value }))}
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="blacklist-reference">Dokumen Referensi</Label>
+              <Input
+                id="blacklist-reference"
+                required
+                maxLength={200}
+                placeholder="Nomor SK / surat penetapan sanksi"
+                value={form.referenceDocument}
+                onChange={(e) => setForm((prev) => ({ ...prev, referenceDocument: e.target.value }))}
+              />
+            </div>
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setShowForm(false)}>
+                Batal
+              </Button>
+              <Button type="submit" disabled={createEntry.isPending}>
+                Simpan
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
@@ -1,21 +1,243 @@
-import React from 'react';
+import React, { useState } from 'react';
+import { Bar, BarChart, CartesianGrid, Cell, Line, LineChart, Pie, PieChart, XAxis, YAxis } from 'recharts';
 import { Card, CardHeader, CardTitle, CardContent } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from '@/components/ui/chart';
+import { formatCurrency } from '@/lib/utils';
+import { PENGGUNA_BARANG_JASA } from '@/lib/budget';
+import { HISTORY_ACTION_LABELS } from '@/lib/pengadaan-fields';
+import { usePengadaanActivity, usePengadaanStats } from '@/services/pengadaan';
+import type { PengadaanStatsFilter } from '@/types/pengadaan';
 
+const currentYear = new Date().getFullYear();
+const yearOptions = Array.from({ length: 10 }, (_, i) => currentYear - 5 + i);
+
+const CHART_COLORS = ['#2563eb', '#16a34a', '#f97316', '#dc2626', '#9333ea', '#0891b2', '#ca8a04', '#64748b'];
+
+const countConfig = {
+  count: { label: 'Paket', color: '#2563eb' },
+} satisfies ChartConfig;
+
+// Record<string, number> from the stats endpoint as chart rows, largest first
+const toChartData = (counts: Record<string, number>) =>
+  Object.entries(counts)
+    .map(([name, count]) => ({ name: name === 'null' ? 'Tidak diisi' : name, count }))
+    .sort((a, b) => b.count - a.count);
+
+// bulanPermintaan is YYYY-MM
+const formatMonth = (value: string) => {
+  const [year, month] = value.split('-').map(Number);
+  if (!year || !month) return value;
+  return new Date(Date.UTC(year, month - 1, 1)).toLocaleDateString('id-ID', {
+    month: 'short',
+    year: 'numeric',
+    timeZone: 'UTC',
+  });
+};
+
+const formatDateTime = (value: string) => new Date(value).toLocaleString('id-ID');
+
+// Procurement overview: KPI cards, charts and recent activity for a budget year and/or user unit
 export const Dashboard: React.FC = () => {
+  const [tahunAnggaran, setTahunAnggaran] = useState('all');
+  const [penggunaBarangJasa, setPenggunaBarangJasa] = useState('all');
+
+  const filter: PengadaanStatsFilter = {
+    ...(tahunAnggaran !== 'all' && { tahunAnggaran }),
+    ...(penggunaBarangJasa !== 'all' && { penggunaBarangJasa }),
+  };
+  const { data: stats, isLoading, error } = usePengadaanStats(filter);
+  const { data: activity = [] } = usePengadaanActivity(filter, 10);
+
+  const statusData = toChartData(stats?.byStatus ?? {});
+  const kategoriData = toChartData(stats?.byKategori ?? {});
+  const trendData = (stats?.byBulanPermintaan ?? []).map((item) => ({ ...item, label: formatMonth(item.bulan) }));
+  const kategoriConfig: ChartConfig = Object.fromEntries(
+    kategoriData.map((item, index) => [item.name, { label: item.name, color: CHART_COLORS[index % CHART_COLORS.length] }])
+  );
+
+  const sla = (stats?.slaCompliance ?? []).reduce(
+    (acc, year) => ({ total: acc.total + year.total, met: acc.met + year.met }),
+    { total: 0, met: 0 }
+  );
+  const slaRate = sla.total > 0 ? Math.round((sla.met / sla.total) * 1000) / 10 : null;
+
   return (
-    <div className="space-y-4">
-      <Card>
+    <div className="space-y-6">
+      <div className="flex flex-col md:flex-row md:items-end justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">Dashboard</h1>
+          <p className="text-gray-600 mt-1">Ringkasan aktivitas dan statistik pengadaan</p>
+        </div>
+        <div className="flex flex-col md:flex-row gap-2">
+          <Select value={tahunAnggaran} onValueChange={setTahunAnggaran}>
+            <SelectTrigger className="md:w-44">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">Semua Tahun</SelectItem>
+              {yearOptions.map((option) => (
+                <SelectItem key={option} value={String(option)}>
+                  {option}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={penggunaBarangJasa} onValueChange={setPenggunaBarangJasa}>
+            <SelectTrigger className="md:w-44">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">Semua Pengguna</SelectItem>
+              {PENGGUNA_BARANG_JASA.map((option) => (
+                <SelectItem key={option} value={option}>
+                  {option}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      {error && <p className="text-sm text-red-600">Gagal memuat statistik: {error.message}</p>}
+
+      <div className="grid grid-cols-1 md:grid-cols-5 gap-4">
+        <Card className="border-0 shadow">
+          <CardContent className="p-6">
+            <p className="text-sm text-gray-600">Total Paket</p>
+            <p className="text-2xl font-bold">{isLoading ? '-' : (stats?.total ?? 0).toLocaleString('id-ID')}</p>
+          </CardContent>
+        </Card>
+        <Card className="border-0 shadow">
+          <CardContent className="p-6">
+            <p className="text-sm text-gray-600">Total HPS</p>
+            <p className="text-2xl font-bold">{formatCurrency(stats?.totalRupiah.hps)}</p>
+          </CardContent>
+        </Card>
+        <Card className="border-0 shadow">
+          <CardContent className="p-6">
+            <p className="text-sm text-gray-600">Nilai Kontrak</p>
+            <p className="text-2xl font-bold">{formatCurrency(stats?.totalRupiah.kontrak)}</p>
+          </CardContent>
+        </Card>
+        <Card className="border-0 shadow">
+          <CardContent className="p-6">
+            <p className="text-sm text-gray-600">Cost Saving</p>
+            <p className="text-2xl font-bold">{formatCurrency(stats?.totalRupiah.costSaving)}</p>
+          </CardContent>
+        </Card>
+        <Card className="border-0 shadow">
+          <CardContent className="p-6">
+            <p className="text-sm text-gray-600">Kepatuhan SLA</p>
+            <p className="text-2xl font-bold">{slaRate === null ? '-' : `${slaRate.toLocaleString('id-ID')}%`}</p>
+            <p className="text-xs text-gray-500">
+              {sla.met} dari {sla.total} paket selesai tepat waktu
+            </p>
+          </CardContent>
+        </Card>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+        <Card className="border-0 shadow">
+          <CardHeader>
+            <CardTitle>Paket per Status</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <ChartContainer config={countConfig} className="h-64 w-full">
+              <BarChart data={statusData} layout="vertical" margin={{ left: 24 }}>
+                <CartesianGrid horizontal={false} />
+                <XAxis type="number" allowDecimals={false} />
+                <YAxis type="category" dataKey="name" width={110} />
+                <ChartTooltip content={<ChartTooltipContent />} />
+                <Bar dataKey="count" fill="var(--color-count)" radius={4} />
+              </BarChart>
+            </ChartContainer>
+          </CardContent>
+        </Card>
+        <Card className="border-0 shadow">
+          <CardHeader>
+            <CardTitle>Paket per Kategori</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <ChartContainer config={kategoriConfig} className="h-64 w-full">
+              <PieChart>
+                <ChartTooltip content={<ChartTooltipContent nameKey="name" />} />
+                <Pie data={kategoriData} dataKey="count" nameKey="name" innerRadius={50}>
+                  {kategoriData.map((item, index) => (
+                    <Cell key={item.name} fill={CHART_COLORS[index % CHART_COLORS.length]} />
+                  ))}
+                </Pie>
+                <ChartLegend content={<ChartLegendContent nameKey="name" />} />
+              </PieChart>
+            </ChartContainer>
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card className="border-0 shadow">
+        <CardHeader>
+          <CardTitle>Tren Bulan Permintaan</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <ChartContainer config={countConfig} className="h-64 w-full">
+            <LineChart data={trendData}>
+              <CartesianGrid vertical={false} />
+              <XAxis dataKey="label" />
+              <YAxis allowDecimals={false} />
+              <ChartTooltip content={<ChartTooltipContent />} />
+              <Line dataKey="count" stroke="var(--color-count)" strokeWidth={2} />
+            </LineChart>
+          </ChartContainer>
+        </CardContent>
+      </Card>
+
+      <Card className="border-0 shadow">
         <CardHeader>
-          <CardTitle>Dashboard</CardTitle>
+          <CardTitle>Aktivitas Terbaru</CardTitle>
         </CardHeader>
         <CardContent>
-          <p className="text-sm text-muted-foreground">
-            Ringkasan aktivitas dan statistik akan tampil di sini.
-          </p>
+          {activity.length === 0 ? (
+            <p className="text-sm text-muted-foreground">Belum ada aktivitas.</p>
+          ) : (
+            <ul className="space-y-3">
+              {activity.map((entry) => (
+                <li
+                  key={`${entry.pengadaanId}-${entry.timestamp}-${entry.action}`}
+                  className="flex flex-col md:flex-row md:items-center justify-between gap-1 border-b pb-3 last:border-0 last:pb-0"
+                >
+                  <div className="space-y-1">
+                    <div className="flex items-center gap-2">
+                      <Badge variant="outline">{HISTORY_ACTION_LABELS[entry.action] ?? entry.action}</Badge>
+                      <span className="text-sm font-medium">{entry.namaPaket}</span>
+                    </div>
+                    <p className="text-xs text-gray-500">
+                      {entry.pengadaanId} · {entry.user.name}
+                      {entry.reason && ` · ${entry.reason}`}
+                    </p>
+                  </div>
+                  <span className="text-xs text-gray-500 whitespace-nowrap">{formatDateTime(entry.timestamp)}</span>
+                </li>
+              ))}
+            </ul>
+          )}
         </CardContent>
       </Card>
     </div>
   );
 };
 
-export default Dashboard;
\ No newline at end of file
+export default Dashboard;
@@ -0,0 +1,267 @@
+import { useState, type FormEvent } from "react";
+import { Download, Pencil, Plus, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import {
+  useCreateHoliday,
+  useDeleteHoliday,
+  useHolidays,
+  useSeedHolidays,
+  useUpdateHoliday,
+} from "@/services/calendar";
+import type { Holiday, HolidayType } from "@/types/calendar";
+
+const HOLIDAY_TYPES: HolidayType[] = ["Libur Nasional", "Cuti Bersama"];
+
+const CURRENT_YEAR = new Date().getFullYear();
+const YEARS = [CURRENT_YEAR - 2, CURRENT_YEAR - 1, CURRENT_YEAR, CURRENT_YEAR + 1];
+
+const EMPTY_FORM = {
+  date: new Date().toISOString().slice(0, 10),
+  name: "",
+  jenis: "Libur Nasional" as HolidayType,
+};
+
+const formatDate = (value: string) =>
+  new Date(value).toLocaleDateString("id-ID", {
+    weekday: "long",
+    day: "numeric",
+    month: "long",
+    year: "numeric",
+    timeZone: "UTC",
+  });
+
+// Holiday calendar; process durations and SLAs count working days, skipping weekends and these dates
+export const KalenderLibur = () => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const isAdmin = user?.role === "admin";
+  const [tahun, setTahun] = useState(CURRENT_YEAR);
+  const [showForm, setShowForm] = useState(false);
+  const [form, setForm] = useState(EMPTY_FORM);
+
+  const { data: holidays = [], isLoading } = useHolidays({ tahun });
+  const createHoliday = useCreateHoliday();
+  const updateHoliday = useUpdateHoliday();
+  const deleteHoliday = useDeleteHoliday();
+  const seedHolidays = useSeedHolidays();
+
+  const showError = (error: unknown, fallback: string) =>
+    toast({
+      title: "Error!",
+      description: error instanceof Error ? error.message : fallback,
+      variant: "destructive",
+    });
+
+  const handleCreate = async (e: FormEvent) => {
+    e.preventDefault();
+    try {
+      await createHoliday.mutateAsync({ date: form.date, name: form.name.trim(), jenis: form.jenis });
+      toast({ title: "Berhasil!", description: `Hari libur ${formatDate(form.date)} telah disimpan.` });
+      setShowForm(false);
+      setForm(EMPTY_FORM);
+    } catch (error) {
+      showError(error, "Gagal menyimpan hari libur.");
+    }
+  };
+
+  const handleEdit = async (holiday: Holiday) => {
+    const name = window.prompt(`Keterangan hari libur ${formatDate(holiday.date)}:`, holiday.name);
+    if (!name?.trim() || name.trim() === holiday.name) return;
+    try {
+      await updateHoliday.mutateAsync({ id: holiday.id, data: { name: name.trim() } });
+      toast({ title: "Berhasil!", description: "Hari libur telah diperbarui." });
+    } catch (error) {
+      showError(error, "Gagal memperbarui hari libur.");
+    }
+  };
+
+  const handleDelete = async (holiday: Holiday) => {
+    if (!window.confirm(`Hapus ${holiday.name} (${formatDate(holiday.date)})?`)) return;
+    try {
+      await deleteHoliday.mutateAsync(holiday.id);
+      toast({ title: "Berhasil!", description: "Hari libur telah dihapus." });
+    } catch (error) {
+      showError(error, "Gagal menghapus hari libur.");
+    }
+  };
+
+  const handleSeed = async () => {
+    try {
+      const { added } = await seedHolidays.mutateAsync(tahun);
+      toast({
+        title: "Berhasil!",
+        description: added > 0
+          ? `${added} hari libur ${tahun} dari SKB bawaan telah ditambahkan.`
+          : `Tidak ada hari libur ${tahun} bawaan yang belum tercatat.`,
+      });
+    } catch (error) {
+      showError(error, "Gagal memuat hari libur bawaan.");
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Kalender Hari Libur</CardTitle>
+        <p className="text-sm text-muted-foreground">
+          Lama proses dan SLA dihitung dalam hari kerja: Sabtu, Minggu, libur nasional dan cuti bersama tidak
+          dihitung. Perubahan berlaku untuk paket yang tanggal prosesnya diubah setelahnya.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-col md:flex-row justify-between gap-4">
+          <Select value={String(tahun)} onValueChange={(value) => setTahun(Number(value))}>
+            <SelectTrigger className="md:w-48">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {YEARS.map((year) => (
+                <SelectItem key={year} value={String(year)}>
+                  {year}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {isAdmin && (
+            <div className="flex gap-2">
+              <Button variant="outline" onClick={handleSeed} disabled={seedHolidays.isPending}>
+                <Download className="w-4 h-4 mr-2" />
+                Muat Libur Bawaan
+              </Button>
+              <Button onClick={() => setShowForm(true)}>
+                <Plus className="w-4 h-4 mr-2" />
+                Tambah Hari Libur
+              </Button>
+            </div>
+          )}
+        </div>
+
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Tanggal</TableHead>
+              <TableHead>Keterangan</TableHead>
+              <TableHead>Jenis</TableHead>
+              {isAdmin && <TableHead />}
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {holidays.map((holiday) => (
+              <TableRow key={holiday.id}>
+                <TableCell className="whitespace-nowrap">{formatDate(holiday.date)}</TableCell>
+                <TableCell className="font-medium">{holiday.name}</TableCell>
+                <TableCell>
+                  <Badge variant={holiday.jenis === "Cuti Bersama" ? "secondary" : "default"}>{holiday.jenis}</Badge>
+                </TableCell>
+                {isAdmin && (
+                  <TableCell className="text-right whitespace-nowrap">
+                    <Button variant="ghost" size="sm" onClick={() => handleEdit(holiday)} disabled={updateHoliday.isPending}>
+                      <Pencil className="w-4 h-4" />
+                    </Button>
+                    <Button variant="ghost" size="sm" onClick={() => handleDelete(holiday)} disabled={deleteHoliday.isPending}>
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </TableCell>
+                )}
+              </TableRow>
+            ))}
+            {!isLoading && holidays.length === 0 && (
+              <TableRow>
+                <TableCell colSpan={isAdmin ? 4 : 3} className="text-center text-muted-foreground">
+                  Belum ada hari libur untuk tahun {tahun}.
+                </TableCell>
+              </TableRow>
+            )}
+          </TableBody>
+        </Table>
+      </CardContent>
+
+      <Dialog open={showForm} onOpenChange={setShowForm}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Tambah Hari Libur</DialogTitle>
+          </DialogHeader>
+          <form onSubmit={handleCreate} className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="holiday-date">Tanggal</Label>
+                <Input
+                  id="holiday-date"
+                  type="date"
+                  required
+                  value={form.date}
+                  onChange={(e) => setForm((prev) => ({ ...prev, date: e.target.value }))}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="holiday-type">Jenis</Label>
+                <Select
+                  value={form.jenis}
+                  onValueChange={(value) => setForm((prev) => ({ ...prev, jenis: value as HolidayType }))}
+                >
+                  <SelectTrigger id="holiday-type">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {HOLIDAY_TYPES.map((item) => (
+                      <SelectItem key={item} value={item}>
+                        {item}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="holiday-name">Keterangan</Label>
+              <Input
+                id="holiday-name"
+                required
+                maxLength={200}
+                placeholder="mis. Hari Raya Idul Fitri"
+                value={form.name}
+                onChange={(e) => setForm((prev) => ({ ...prev, name: e.target.value }))}
+              />
+            </div>
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setShowForm(false)}>
+                Batal
+              </Button>
+              <Button type="submit" disabled={createHoliday.isPending}>
+                Simpan
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+};
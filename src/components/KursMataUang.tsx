@@ -0,0 +1,262 @@
+import { useState, type FormEvent } from "react";
+import { Pencil, Plus, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { formatCurrency } from "@/lib/utils";
+import { FOREIGN_CURRENCIES } from "@/lib/currency";
+import {
+  useCreateExchangeRate,
+  useDeleteExchangeRate,
+  useExchangeRates,
+  useUpdateExchangeRate,
+} from "@/services/exchange-rate";
+import type { ExchangeRate } from "@/types/exchange-rate";
+
+type CurrencyFilter = ExchangeRate["currency"] | "all";
+
+const EMPTY_FORM = {
+  currency: "USD" as ExchangeRate["currency"],
+  date: new Date().toISOString().slice(0, 10),
+  rate: "",
+  source: "",
+};
+
+const formatDate = (value: string) => new Date(value).toLocaleDateString("id-ID");
+
+// Exchange rate (kurs) table; packages convert HPS and award values at the rate on their request date
+export const KursMataUang = () => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const isAdmin = user?.role === "admin";
+  const [currency, setCurrency] = useState<CurrencyFilter>("all");
+  const [showForm, setShowForm] = useState(false);
+  const [form, setForm] = useState(EMPTY_FORM);
+
+  const { data: rates = [], isLoading } = useExchangeRates({
+    ...(currency !== "all" ? { currency } : {}),
+    limit: 100,
+  });
+  const createRate = useCreateExchangeRate();
+  const updateRate = useUpdateExchangeRate();
+  const deleteRate = useDeleteExchangeRate();
+
+  const showError = (error: unknown, fallback: string) =>
+    toast({
+      title: "Error!",
+      description: error instanceof Error ? error.message : fallback,
+      variant: "destructive",
+    });
+
+  const handleCreate = async (e: FormEvent) => {
+    e.preventDefault();
+    try {
+      await createRate.mutateAsync({
+        currency: form.currency,
+        date: form.date,
+        rate: Number(form.rate),
+        ...(form.source.trim() ? { source: form.source.trim() } : {}),
+      });
+      toast({ title: "Berhasil!", description: `Kurs ${form.currency} ${formatDate(form.date)} telah disimpan.` });
+      setShowForm(false);
+      setForm(EMPTY_FORM);
+    } catch (error) {
+      showError(error, "Gagal menyimpan kurs.");
+    }
+  };
+
+  const handleEdit = async (rate: ExchangeRate) => {
+    const value = window.prompt(
+      `Kurs ${rate.currency} ${formatDate(rate.date)} (Rp per 1 ${rate.currency}):`,
+      String(rate.rate)
+    );
+    if (!value || !(Number(value) > 0)) return;
+    try {
+      await updateRate.mutateAsync({ id: rate.id, data: { rate: Number(value) } });
+      toast({ title: "Berhasil!", description: "Kurs telah diperbarui." });
+    } catch (error) {
+      showError(error, "Gagal memperbarui kurs.");
+    }
+  };
+
+  const handleDelete = async (rate: ExchangeRate) => {
+    if (!window.confirm(`Hapus kurs ${rate.currency} ${formatDate(rate.date)}?`)) return;
+    try {
+      await deleteRate.mutateAsync(rate.id);
+      toast({ title: "Berhasil!", description: "Kurs telah dihapus." });
+    } catch (error) {
+      showError(error, "Gagal menghapus kurs.");
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Kurs Mata Uang</CardTitle>
+        <p className="text-sm text-muted-foreground">
+          Nilai ekuivalen rupiah dihitung dari kurs terakhir pada atau sebelum tanggal permintaan. Paket yang sudah
+          dihitung tetap menyimpan kurs yang dipakai.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-col md:flex-row justify-between gap-4">
+          <Select value={currency} onValueChange={(value) => setCurrency(value as CurrencyFilter)}>
+            <SelectTrigger className="md:w-48">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">Semua Mata Uang</SelectItem>
+              {FOREIGN_CURRENCIES.map((item) => (
+                <SelectItem key={item} value={item}>
+                  {item}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {isAdmin && (
+            <Button onClick={() => setShowForm(true)}>
+              <Plus className="w-4 h-4 mr-2" />
+              Tambah Kurs
+            </Button>
+          )}
+        </div>
+
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Tanggal</TableHead>
+              <TableHead>Mata Uang</TableHead>
+              <TableHead className="text-right">Kurs (Rp)</TableHead>
+              <TableHead>Sumber</TableHead>
+              {isAdmin && <TableHead />}
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {rates.map((rate) => (
+              <TableRow key={rate.id}>
+                <TableCell>{formatDate(rate.date)}</TableCell>
+                <TableCell className="font-medium">{rate.currency}</TableCell>
+                <TableCell className="text-right">{formatCurrency(rate.rate)}</TableCell>
+                <TableCell>{rate.source || "-"}</TableCell>
+                {isAdmin && (
+                  <TableCell className="text-right whitespace-nowrap">
+                    <Button variant="ghost" size="sm" onClick={() => handleEdit(rate)} disabled={updateRate.isPending}>
+                      <Pencil className="w-4 h-4" />
+                    </Button>
+                    <Button variant="ghost" size="sm" onClick={() => handleDelete(rate)} disabled={deleteRate.isPending}>
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </TableCell>
+                )}
+              </TableRow>
+            ))}
+            {!isLoading && rates.length === 0 && (
+              <TableRow>
+                <TableCell colSpan={isAdmin ? 5 : 4} className="text-center text-muted-foreground">
+                  Belum ada kurs.
+                </TableCell>
+              </TableRow>
+            )}
+          </TableBody>
+        </Table>
+      </CardContent>
+
+      <Dialog open={showForm} onOpenChange={setShowForm}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Tambah Kurs</DialogTitle>
+          </DialogHeader>
+          <form onSubmit={handleCreate} className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="rate-currency">Mata Uang</Label>
+                <Select
+                  value={form.currency}
+                  onValueChange={(value) =>
+                    setForm((prev) => ({ ...prev, currency: value as ExchangeRate["currency"] }))
+                  }
+                >
+                  <SelectTrigger id="rate-currency">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {FOREIGN_CURRENCIES.map((item) => (
+                      <SelectItem key={item} value={item}>
+                        {item}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="rate-date">Berlaku Mulai</Label>
+                <Input
+                  id="rate-date"
+                  type="date"
+                  required
+                  value={form.date}
+                  onChange={(e) => setForm((prev) => ({ ...prev, date: e.target.value }))}
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="rate-value">Kurs (Rp per 1 {form.currency})</Label>
+              <Input
+                id="rate-value"
+                type="number"
+                min={0}
+                step="any"
+                required
+                value={form.rate}
+                onChange={(e) => setForm((prev) => ({ ...prev, rate: e.target.value }))}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="rate-source">Sumber</Label>
+              <Input
+                id="rate-source"
+                maxLength={200}
+                placeholder="mis. Kurs Tengah BI"
+                value={form.source}
+                onChange={(e) => setForm((prev) => ({ ...prev, source: e.target.value }))}
+              />
+            </div>
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setShowForm(false)}>
+                Batal
+              </Button>
+              <Button type="submit" disabled={createRate.isPending}>
+                Simpan
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+};
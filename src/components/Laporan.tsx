@@ -1,21 +1,226 @@
-import React from 'react';
+import React, { useState, type FormEvent } from 'react';
+import { Download } from 'lucide-react';
 import { Card, CardHeader, CardTitle, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { useToast } from '@/hooks/use-toast';
+import { PENGGUNA_BARANG_JASA } from '@/lib/budget';
+import { useDownloadReport, useReportResult, useReports } from '@/services/report';
+import type { ReportCell, ReportColumn, ReportFormat, ReportParameter, ReportParams } from '@/types/report';
 
+const currentYear = new Date().getFullYear();
+const yearOptions = Array.from({ length: 10 }, (_, i) => currentYear - 5 + i);
+
+// Select value standing for an unset parameter
+const ALL = 'all';
+
+const DOWNLOAD_FORMATS: { format: Exclude<ReportFormat, 'json'>; label: string }[] = [
+  { format: 'csv', label: 'CSV' },
+  { format: 'xlsx', label: 'Excel' },
+  { format: 'pdf', label: 'PDF' },
+];
+
+const formatCell = (value: ReportCell | undefined, type: ReportColumn['type']) => {
+  if (value === null || value === undefined || value === '') return '-';
+  if (type === 'date') {
+    return new Date(value).toLocaleDateString('id-ID', { day: 'numeric', month: 'long', year: 'numeric', timeZone: 'UTC' });
+  }
+  if (typeof value === 'number') {
+    const text = value.toLocaleString('id-ID', { maximumFractionDigits: 2 });
+    return type === 'percent' ? `${text}%` : text;
+  }
+  return value;
+};
+
+const isNumeric = (type: ReportColumn['type']) => type === 'number' || type === 'amount' || type === 'percent';
+
+// Select options of a parameter; free text when there is no fixed list
+const parameterOptions = (parameter: ReportParameter): string[] | null => {
+  if (parameter.type === 'year') return yearOptions.map(String);
+  if (parameter.key === 'penggunaBarangJasa') return [...PENGGUNA_BARANG_JASA];
+  return null;
+};
+
+// Predefined procurement reports: pick one, narrow it with parameters, view it and download it
 export const Laporan: React.FC = () => {
+  const { toast } = useToast();
+  const { data: reports = [], isLoading: loadingReports } = useReports();
+  const [reportId, setReportId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<ReportParams>({});
+  const [params, setParams] = useState<ReportParams>({});
+  const { data: result, isFetching, error } = useReportResult(reportId, params);
+  const download = useDownloadReport();
+
+  const report = reports.find((item) => item.id === reportId);
+
+  const selectReport = (id: string) => {
+    setReportId(id);
+    setDraft({});
+    setParams({});
+  };
+
+  const handleSubmit = (event: FormEvent) => {
+    event.preventDefault();
+    setParams(Object.fromEntries(Object.entries(draft).filter(([, value]) => value.trim() !== '')));
+  };
+
+  const handleDownload = async (format: Exclude<ReportFormat, 'json'>) => {
+    if (!reportId) return;
+    try {
+      await download.mutateAsync({ id: reportId, params, format });
+    } catch (err) {
+      toast({
+        title: 'Gagal mengunduh laporan',
+        description: err instanceof Error ? err.message : undefined,
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const rows = result ? [...result.rows, ...(result.totals ? [result.totals] : [])] : [];
+
   return (
     <div className="space-y-4">
+      <div>
+        <h1 className="text-3xl font-bold text-gray-900">Laporan</h1>
+        <p className="text-gray-600 mt-1">Laporan pengadaan siap pakai, dapat diunduh sebagai CSV, Excel atau PDF</p>
+      </div>
+
       <Card>
         <CardHeader>
-          <CardTitle>Laporan</CardTitle>
+          <CardTitle>Pilih Laporan</CardTitle>
         </CardHeader>
-        <CardContent>
-          <p className="text-sm text-muted-foreground">
-            Modul laporan akan tersedia di sini.
-          </p>
+        <CardContent className="space-y-4">
+          <Select value={reportId ?? undefined} onValueChange={selectReport} disabled={loadingReports}>
+            <SelectTrigger className="md:w-96">
+              <SelectValue placeholder={loadingReports ? 'Memuat...' : 'Pilih laporan'} />
+            </SelectTrigger>
+            <SelectContent>
+              {reports.map((item) => (
+                <SelectItem key={item.id} value={item.id}>
+                  {item.title}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {report && <p className="text-sm text-muted-foreground">{report.description}</p>}
+
+          {report && report.parameters.length > 0 && (
+            <form onSubmit={handleSubmit} className="grid grid-cols-1 md:grid-cols-4 gap-4 items-end">
+              {report.parameters.map((parameter) => {
+                const options = parameterOptions(parameter);
+                const value = draft[parameter.key] ?? '';
+                return (
+                  <div key={parameter.key} className="space-y-2">
+                    <Label htmlFor={`param-${parameter.key}`}>{parameter.label}</Label>
+                    {options ? (
+                      <Select
+                        value={value || ALL}
+                        onValueChange={(next) => setDraft({ ...draft, [parameter.key]: next === ALL ? '' : next })}
+                      >
+                        <SelectTrigger id={`param-${parameter.key}`}>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value={ALL}>Semua</SelectItem>
+                          {options.map((option) => (
+                            <SelectItem key={option} value={option}>
+                              {option}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    ) : (
+                      <Input
+                        id={`param-${parameter.key}`}
+                        value={value}
+                        placeholder="Semua"
+                        onChange={(event) => setDraft({ ...draft, [parameter.key]: event.target.value })}
+                      />
+                    )}
+                  </div>
+                );
+              })}
+              <Button type="submit">Tampilkan</Button>
+            </form>
+          )}
         </CardContent>
       </Card>
+
+      {report && (
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0">
+            <CardTitle>{report.title}</CardTitle>
+            <div className="flex gap-2">
+              {DOWNLOAD_FORMATS.map(({ format, label }) => (
+                <Button
+                  key={format}
+                  variant="outline"
+                  size="sm"
+                  disabled={!result || download.isPending}
+                  onClick={() => handleDownload(format)}
+                >
+                  <Download className="h-4 w-4 mr-1" />
+                  {label}
+                </Button>
+              ))}
+            </div>
+          </CardHeader>
+          <CardContent>
+            {error && <p className="text-sm text-red-600">Gagal memuat laporan: {error.message}</p>}
+            {isFetching && !result && <p className="text-sm text-muted-foreground">Memuat laporan...</p>}
+            {result && (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    {result.columns.map((column) => (
+                      <TableHead key={column.key} className={isNumeric(column.type) ? 'text-right' : undefined}>
+                        {column.label}
+                      </TableHead>
+                    ))}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {rows.length === 0 && (
+                    <TableRow>
+                      <TableCell colSpan={result.columns.length} className="text-center text-muted-foreground">
+                        Tidak ada data.
+                      </TableCell>
+                    </TableRow>
+                  )}
+                  {rows.map((row, index) => (
+                    <TableRow key={index} className={result.totals && index === rows.length - 1 ? 'font-semibold' : undefined}>
+                      {result.columns.map((column) => (
+                        <TableCell key={column.key} className={isNumeric(column.type) ? 'text-right' : undefined}>
+                          {formatCell(row[column.key], column.type)}
+                        </TableCell>
+                      ))}
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      )}
     </div>
   );
 };
 
-export default Laporan;
\ No newline at end of file
+export default Laporan;
@@ -1,9 +1,16 @@
 import React, { useState, useEffect } from "react";
-import { Plus, Search, Filter, Eye, Edit, Trash2, Lock } from "lucide-react";
+import { Plus, Search, Eye, Edit, Trash2, Lock } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import {
   Table,
   TableBody,
@@ -15,7 +22,8 @@ import {
 import { PengadaanForm } from "./PengadaanForm";
 import { PengadaanDetail } from "./PengadaanDetail";
 import { useGetPengadaan, useDeletePengadaan } from "@/services/pengadaan";
-import type { Pengadaan as PengadaanItem } from "@/types/pengadaan";
+import type { Pengadaan as PengadaanItem, SlaStatus } from "@/types/pengadaan";
+import { SLA_STATUS_COLORS, SLA_STATUS_LABELS } from "@/lib/sla";
 import { useToast } from "@/hooks/use-toast";
 import { useAuth } from "@/hooks/use-auth";
 // Permission request dialog removed for simplification
@@ -25,11 +33,12 @@ export const Pengadaan = () => {
   const [showDetail, setShowDetail] = useState(false);
   // Permission request dialog removed; show toast for non-admin edit attempts
   const [searchTerm, setSearchTerm] = useState("");
+  const [slaStatus, setSlaStatus] = useState<SlaStatus | "all">("all");
   const [selectedPengadaan, setSelectedPengadaan] = useState<PengadaanItem | null>(null);
   const { toast } = useToast();
   const { user } = useAuth();
 
-  const { data: pengadaanData = [] } = useGetPengadaan();
+  const { data: pengadaanData = [] } = useGetPengadaan(slaStatus !== "all" ? { slaStatus } : {});
   const deletePengadaan = useDeletePengadaan();
 
   const getStatusColor = (status: string) => {
@@ -132,10 +141,19 @@ export const Pengadaan = () => {
                 className="pl-10"
               />
             </div>
-            <Button variant="outline" className="flex items-center">
-              <Filter className="w-4 h-4 mr-2" />
-              Filter
-            </Button>
+            <Select value={slaStatus} onValueChange={(value) => setSlaStatus(value as SlaStatus | "all")}>
+              <SelectTrigger className="md:w-48">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">Semua SLA</SelectItem>
+                {(Object.keys(SLA_STATUS_LABELS) as SlaStatus[]).map((status) => (
+                  <SelectItem key={status} value={status}>
+                    {SLA_STATUS_LABELS[status]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
           </div>
         </CardContent>
       </Card>
@@ -161,6 +179,16 @@ export const Pengadaan = () => {
                   <Badge className={getStatusColor(item.status)}>
                     {item.status}
                   </Badge>
+                  {item.slaStatus && (
+                    <Badge
+                      className={SLA_STATUS_COLORS[item.slaStatus.status]}
+                      title={`Jatuh tempo ${item.slaStatus.jatuhTempo}`}
+                    >
+                      SLA: {SLA_STATUS_LABELS[item.slaStatus.status]}
+                      {(item.slaStatus.status === "On Track" || item.slaStatus.status === "At Risk") &&
+                        ` (sisa ${item.slaStatus.sisaHari} hari kerja)`}
+                    </Badge>
+                  )}
                   <div className="flex items-center gap-2">
                     <Button
                       variant="outline"
@@ -1,11 +1,25 @@
 import React from "react";
-import { X } from "lucide-react";
+import { Download, X } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Separator } from "@/components/ui/separator";
 import { Badge } from "@/components/ui/badge";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { PengadaanHistory } from "@/components/PengadaanHistory";
+import { VendorRatingPanel } from "@/components/VendorRatingPanel";
 import type { Pengadaan } from "@/types/pengadaan";
 import { formatCurrency } from "@/lib/utils";
+import { SLA_STATUS_COLORS, SLA_STATUS_LABELS } from "@/lib/sla";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { useApprovePengadaan, useRejectPengadaan, useSubmitPengadaan } from "@/services/pengadaan";
+import { useDocumentTemplates, useDownloadDocument } from "@/services/document";
 
 interface PengadaanDetailProps {
   pengadaan: Pengadaan;
@@ -13,8 +27,65 @@ interface PengadaanDetailProps {
 }
 
 export const PengadaanDetail = ({ onClose, pengadaan }: PengadaanDetailProps) => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const submitPengadaan = useSubmitPengadaan();
+  const approvePengadaan = useApprovePengadaan();
+  const rejectPengadaan = useRejectPengadaan();
+  const { data: documentTemplates = [] } = useDocumentTemplates();
+  const downloadDocument = useDownloadDocument();
+
   if (!pengadaan) return null;
 
+  const isAdmin = user?.role === "admin";
+  const canSubmit = pengadaan.status === "Draft";
+  const isPendingOnUser =
+    !!pengadaan.pendingApproverRole && !!user?.approverRoles?.includes(pengadaan.pendingApproverRole);
+  const canReview =
+    (isAdmin || isPendingOnUser) && (pengadaan.status === "Submitted" || pengadaan.status === "In Review");
+  const approvalChain = pengadaan.approvalChain ?? [];
+
+  const runReviewAction = async (action: () => Promise<unknown>, successMessage: string) => {
+    try {
+      await action();
+      toast({ title: "Berhasil!", description: successMessage });
+      onClose();
+    } catch (error) {
+      toast({
+        title: "Error!",
+        description: error instanceof Error ? error.message : "Gagal memproses pengadaan.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleSubmitForReview = () =>
+    runReviewAction(() => submitPengadaan.mutateAsync(pengadaan.id), "Pengadaan telah diajukan untuk direview.");
+
+  const handleApprove = () =>
+    runReviewAction(() => approvePengadaan.mutateAsync({ id: pengadaan.id }), "Pengadaan telah disetujui.");
+
+  const handleReject = () => {
+    const reason = window.prompt("Alasan penolakan:");
+    if (!reason || !reason.trim()) return;
+    runReviewAction(
+      () => rejectPengadaan.mutateAsync({ id: pengadaan.id, reason: reason.trim() }),
+      "Pengadaan telah ditolak."
+    );
+  };
+
+  const handleDownloadDocument = async (key: string) => {
+    try {
+      await downloadDocument.mutateAsync({ pengadaanId: pengadaan.id, key });
+    } catch (error) {
+      toast({
+        title: "Error!",
+        description: error instanceof Error ? error.message : "Gagal mengunduh dokumen.",
+        variant: "destructive",
+      });
+    }
+  };
+
   const formatDate = (dateString: string) => {
     if (!dateString) return "-";
     return new Date(dateString).toLocaleDateString('id-ID');
@@ -27,207 +98,335 @@ export const PengadaanDetail = ({ onClose, pengadaan }: PengadaanDetailProps) =>
           <CardTitle className="text-xl font-bold">
             Detail Pengadaan: {pengadaan.namaPaket || pengadaan.nama}
           </CardTitle>
-          <Button variant="ghost" size="sm" onClick={onClose}>
-            <X className="w-4 h-4" />
-          </Button>
+          <div className="flex items-center gap-2">
+            {documentTemplates.length > 0 && (
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <Button variant="outline" size="sm" disabled={downloadDocument.isPending}>
+                    <Download className="w-4 h-4 mr-2" />
+                    Unduh Dokumen
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="end">
+                  {documentTemplates.map((template) => (
+                    <DropdownMenuItem key={template.id} onSelect={() => handleDownloadDocument(template.key)}>
+                      {template.nama}
+                    </DropdownMenuItem>
+                  ))}
+                </DropdownMenuContent>
+              </DropdownMenu>
+            )}
+            <Button variant="ghost" size="sm" onClick={onClose}>
+              <X className="w-4 h-4" />
+            </Button>
+          </div>
         </CardHeader>
 
-        <CardContent className="space-y-8">
-          {/* Section 1: DATA UMUM PENGADAAN */}
-          <div className="space-y-4">
-            <h3 className="text-lg font-semibold text-blue-600">DATA UMUM PENGADAAN</h3>
-            <Separator />
-            
-            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-              <div className="space-y-1">
-                <p className="text-sm font-medium text-gray-500">Sinergi/ Non Sinergi</p>
-                <p className="text-sm">{pengadaan.sinergi || "-"}</p>
-              </div>
-              <div className="space-y-1">
-                <p className="text-sm font-medium text-gray-500">Nama Paket Pengadaan</p>
-                <p className="text-sm font-semibold">{pengadaan.namaPaket || pengadaan.nama || "-"}</p>
-              </div>
-              <div className="space-y-1">
-                <p className="text-sm font-medium text-gray-500">Lap PTM</p>
-                <p className="text-sm">{pengadaan.lapPtm || "-"}</p>
-              </div>
-              <div className="space-y-1">
-                <p className="text-sm font-medium text-gray-500">SLA/ Non SLA</p>
-                <p className="text-sm">{pengadaan.sla || "-"}</p>
-              </div>
-              <div className="space-y-1">
-                <p className="text-sm font-medium text-gray-500">Tahun SLA</p>
-                <p className="text-sm">{pengadaan.tahunSla || "-"}</p>
-              </div>
-              <div className="space-y-1">
-                <p className="text-sm font-medium text-gray-500">CostSaving/ Non CostSaving</p>
-                <p className="text-sm">{pengadaan.costSaving || "-"}</p>
-              </div>
-              <div className="space-y-1">
-                <p className="text-sm font-medium text-gray-500">Tahun CostSaving</p>
-                <p className="text-sm">{pengadaan.tahunCostSaving || "-"}</p>
-              </div>
-              <div className="space-y-1">
-                <p className="text-sm font-medium text-gray-500">Barang/Jasa</p>
-                <Badge variant="outline">{pengadaan.barangJasa || pengadaan.kategori || "-"}</Badge>
-              </div>
-            </div>
-          </div>
+        <CardContent>
+          <Tabs defaultValue="detail">
+            <TabsList className="mb-6">
+              <TabsTrigger value="detail">Detail</TabsTrigger>
+              <TabsTrigger value="penilaian">Penilaian Penyedia</TabsTrigger>
+              <TabsTrigger value="riwayat">Riwayat</TabsTrigger>
+            </TabsList>
 
-          {/* Section 2: PROSES PERSIAPAN PENGADAAN */}
-          <div className="space-y-4">
-            <h3 className="text-lg font-semibold text-green-600">PROSES PERSIAPAN PENGADAAN</h3>
-            <Separator />
-            
-            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-              <div className="space-y-1">
-                <p className="text-sm font-medium text-gray-500">Pengguna Barang/ Jasa</p>
-                <p className="text-sm">{pengadaan.penggunaBarangJasa || "-"}</p>
-              </div>
-              <div className="space-y-1">
-                <p className="text-sm font-medium text-gray-500">Jenis Paket</p>
-                <p className="text-sm">{pengadaan.jenisPaket || "-"}</p>
-              </div>
-              <div className="space-y-1">
-                <p className="text-sm font-medium text-gray-500">Jenis Pengadaan</p>
-                <p className="text-sm">{pengadaan.jenisPengadaan || "-"}</p>
-              </div>
-              <div className="space-y-1">
-                <p className="text-sm font-medium text-gray-500">Baseline</p>
-                <p className="text-sm">{pengadaan.baseline || "-"}</p>
-              </div>
-              <div className="space-y-1">
-                <p className="text-sm font-medium text-gray-500">No PPL</p>
-                <p className="text-sm">{pengadaan.noPpl || "-"}</p>
-              </div>
-              <div className="space-y-1">
-                <p className="text-sm font-medium text-gray-500">Metode Pengadaan</p>
-                <p className="text-sm">{pengadaan.metodePengadaan || "-"}</p>
-              </div>
-              <div className="space-y-1">
-                <p className="text-sm font-medium text-gray-500">Tahun Anggaran</p>
-                <p className="text-sm">{pengadaan.tahunAnggaran || "-"}</p>
-              </div>
-              <div className="space-y-1">
-                <p className="text-sm font-medium text-gray-500">Jenis Anggaran</p>
-                <p className="text-sm">{pengadaan.jenisAnggaran || "-"}</p>
-              </div>
-              <div className="space-y-1">
-                <p className="text-sm font-medium text-gray-500">Jenis Kontrak</p>
-                <p className="text-sm">{pengadaan.jenisKontrak || "-"}</p>
-              </div>
-              <div className="space-y-1">
-                <p className="text-sm font-medium text-gray-500">Nilai Anggaran (IDR)</p>
-                <p className="text-sm">{formatCurrency(pengadaan.nilaiAnggaranIdr || "0", "IDR")}</p>
-              </div>
-              <div className="space-y-1">
-                <p className="text-sm font-medium text-gray-500">Nilai Anggaran (USD)</p>
-                <p className="text-sm">{formatCurrency(pengadaan.nilaiAnggaranUsd || "0", "USD")}</p>
-              </div>
-              <div className="space-y-1">
-                <p className="text-sm font-medium text-gray-500">Nilai HPS</p>
-                <p className="text-sm">{formatCurrency(pengadaan.nilaiHpsAmount || "0", pengadaan.nilaiHpsCurrency)}</p>
-              </div>
-              <div className="space-y-1">
-                <p className="text-sm font-medium text-gray-500">Bulan Permintaan</p>
-                <p className="text-sm">{pengadaan.bulanPermintaan || "-"}</p>
-              </div>
-              <div className="space-y-1">
-                <p className="text-sm font-medium text-gray-500">Tanggal Permintaan</p>
-                <p className="text-sm">{formatDate(pengadaan.tanggalPermintaan)}</p>
+            <TabsContent value="detail" className="space-y-8">
+              {/* Section 1: DATA UMUM PENGADAAN */}
+              <div className="space-y-4">
+                <h3 className="text-lg font-semibold text-blue-600">DATA UMUM PENGADAAN</h3>
+                <Separator />
+                
+                <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+                  <div className="space-y-1">
+                    <p className="text-sm font-medium text-gray-500">Sinergi/ Non Sinergi</p>
+                    <p className="text-sm">{pengadaan.sinergi || "-"}</p>
+                  </div>
+                  <div className="space-y-1">
+                    <p className="text-sm font-medium text-gray-500">Nama Paket Pengadaan</p>
+                    <p className="text-sm font-semibold">{pengadaan.namaPaket || pengadaan.nama || "-"}</p>
+                  </div>
+                  <div className="space-y-1">
+                    <p className="text-sm font-medium text-gray-500">Lap PTM</p>
+                    <p className="text-sm">{pengadaan.lapPtm || "-"}</p>
+                  </div>
+                  <div className="space-y-1">
+                    <p className="text-sm font-medium text-gray-500">SLA/ Non SLA</p>
+                    <p className="text-sm">{pengadaan.sla || "-"}</p>
+                  </div>
+                  <div className="space-y-1">
+                    <p className="text-sm font-medium text-gray-500">Tahun SLA</p>
+                    <p className="text-sm">{pengadaan.tahunSla || "-"}</p>
+                  </div>
+                  <div className="space-y-1">
+                    <p className="text-sm font-medium text-gray-500">Status SLA</p>
+                    {pengadaan.slaStatus ? (
+                      <div className="space-y-1">
+                        <Badge className={SLA_STATUS_COLORS[pengadaan.slaStatus.status]}>
+                          {SLA_STATUS_LABELS[pengadaan.slaStatus.status]}
+                        </Badge>
+                        <p className="text-xs text-gray-500">
+                          Target {pengadaan.slaStatus.hariKerja} hari kerja, jatuh tempo{" "}
+                          {new Date(pengadaan.slaStatus.jatuhTempo).toLocaleDateString("id-ID", { timeZone: "UTC" })}.
+                          {pengadaan.slaStatus.status === "Met"
+                            ? ` Selesai dalam ${pengadaan.slaStatus.hariBerjalan} hari kerja.`
+                            : pengadaan.slaStatus.status === "Breached"
+                              ? ` Terlambat ${-pengadaan.slaStatus.sisaHari} hari kerja.`
+                              : ` Berjalan ${pengadaan.slaStatus.hariBerjalan} hari kerja, sisa ${pengadaan.slaStatus.sisaHari} hari kerja.`}
+                        </p>
+                      </div>
+                    ) : (
+                      <p className="text-sm">-</p>
+                    )}
+                  </div>
+                  <div className="space-y-1">
+                    <p className="text-sm font-medium text-gray-500">CostSaving/ Non CostSaving</p>
+                    <p className="text-sm">{pengadaan.costSaving || "-"}</p>
+                  </div>
+                  <div className="space-y-1">
+                    <p className="text-sm font-medium text-gray-500">Tahun CostSaving</p>
+                    <p className="text-sm">{pengadaan.tahunCostSaving || "-"}</p>
+                  </div>
+                  <div className="space-y-1">
+                    <p className="text-sm font-medium text-gray-500">Barang/Jasa</p>
+                    <Badge variant="outline">{pengadaan.barangJasa || pengadaan.kategori || "-"}</Badge>
+                  </div>
+                </div>
               </div>
-              <div className="space-y-1">
-                <p className="text-sm font-medium text-gray-500">PIC Tim PPSM</p>
-                <p className="text-sm">{pengadaan.picTimPpsm || "-"}</p>
-              </div>
-            </div>
-          </div>
 
-          {/* Section 3: PROSES PENGADAAN */}
-          <div className="space-y-4">
-            <h3 className="text-lg font-semibold text-orange-600">PROSES PENGADAAN</h3>
-            <Separator />
-            
-            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-              <div className="space-y-1">
-                <p className="text-sm font-medium text-gray-500">Surat Penunjukan</p>
-                <p className="text-sm">{pengadaan.suratPenunjukan || "-"}</p>
-              </div>
-              <div className="space-y-1">
-                <p className="text-sm font-medium text-gray-500">Lama Proses Pengadaan</p>
-                <p className="text-sm">{pengadaan.lamaProsesPengadaan || "-"}</p>
-              </div>
-              <div className="space-y-1">
-                <p className="text-sm font-medium text-gray-500">Jangka Waktu Pengerjaan</p>
-                <p className="text-sm">{pengadaan.jangkaWaktuPengerjaan || "-"}</p>
-              </div>
-              <div className="space-y-1">
-                <p className="text-sm font-medium text-gray-500">Nilai Penunjukan</p>
-                <p className="text-sm">{formatCurrency(pengadaan.nilaiPenunjukanAmount || "0", pengadaan.nilaiPenunjukanCurrency)}</p>
-              </div>
-              <div className="space-y-1">
-                <p className="text-sm font-medium text-gray-500">Status Pengadaan</p>
-                <Badge className={getStatusColor(pengadaan.statusPengadaan || pengadaan.status)}>
-                  {pengadaan.statusPengadaan || pengadaan.status || "-"}
-                </Badge>
-              </div>
-              <div className="space-y-1">
-                <p className="text-sm font-medium text-gray-500">Bulan Selesai</p>
-                <p className="text-sm">{pengadaan.bulanSelesai || "-"}</p>
-              </div>
-              <div className="space-y-1">
-                <p className="text-sm font-medium text-gray-500">Keterangan Pengadaan</p>
-                <p className="text-sm">{pengadaan.keteranganPengadaan || "-"}</p>
+              {/* Section 2: PROSES PERSIAPAN PENGADAAN */}
+              <div className="space-y-4">
+                <h3 className="text-lg font-semibold text-green-600">PROSES PERSIAPAN PENGADAAN</h3>
+                <Separator />
+                
+                <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+                  <div className="space-y-1">
+                    <p className="text-sm font-medium text-gray-500">Pengguna Barang/ Jasa</p>
+                    <p className="text-sm">{pengadaan.penggunaBarangJasa || "-"}</p>
+                  </div>
+                  <div className="space-y-1">
+                    <p className="text-sm font-medium text-gray-500">Jenis Paket</p>
+                    <p className="text-sm">{pengadaan.jenisPaket || "-"}</p>
+                  </div>
+                  <div className="space-y-1">
+                    <p className="text-sm font-medium text-gray-500">Jenis Pengadaan</p>
+                    <p className="text-sm">{pengadaan.jenisPengadaan || "-"}</p>
+                  </div>
+                  <div className="space-y-1">
+                    <p className="text-sm font-medium text-gray-500">Baseline</p>
+                    <p className="text-sm">{pengadaan.baseline || "-"}</p>
+                  </div>
+                  <div className="space-y-1">
+                    <p className="text-sm font-medium text-gray-500">No PPL</p>
+                    <p className="text-sm">{pengadaan.noPpl || "-"}</p>
+                  </div>
+                  <div className="space-y-1">
+                    <p className="text-sm font-medium text-gray-500">Metode Pengadaan</p>
+                    <p className="text-sm">{pengadaan.metodePengadaan || "-"}</p>
+                  </div>
+                  <div className="space-y-1">
+                    <p className="text-sm font-medium text-gray-500">Tahun Anggaran</p>
+                    <p className="text-sm">{pengadaan.tahunAnggaran || "-"}</p>
+                  </div>
+                  <div className="space-y-1">
+                    <p className="text-sm font-medium text-gray-500">Jenis Anggaran</p>
+                    <p className="text-sm">{pengadaan.jenisAnggaran || "-"}</p>
+                  </div>
+                  <div className="space-y-1">
+                    <p className="text-sm font-medium text-gray-500">Jenis Kontrak</p>
+                    <p className="text-sm">{pengadaan.jenisKontrak || "-"}</p>
+                  </div>
+                  <div className="space-y-1">
+                    <p className="text-sm font-medium text-gray-500">Nilai Anggaran (IDR)</p>
+                    <p className="text-sm">{formatCurrency(pengadaan.nilaiAnggaranIdr || "0", "IDR")}</p>
+                  </div>
+                  <div className="space-y-1">
+                    <p className="text-sm font-medium text-gray-500">Nilai Anggaran (USD)</p>
+                    <p className="text-sm">{formatCurrency(pengadaan.nilaiAnggaranUsd || "0", "USD")}</p>
+                  </div>
+                  <div className="space-y-1">
+                    <p className="text-sm font-medium text-gray-500">Nilai HPS</p>
+                    <p className="text-sm">{formatCurrency(pengadaan.nilaiHpsAmount || "0", pengadaan.nilaiHpsCurrency)}</p>
+                  </div>
+                  <div className="space-y-1">
+                    <p className="text-sm font-medium text-gray-500">Bulan Permintaan</p>
+                    <p className="text-sm">{pengadaan.bulanPermintaan || "-"}</p>
+                  </div>
+                  <div className="space-y-1">
+                    <p className="text-sm font-medium text-gray-500">Tanggal Permintaan</p>
+                    <p className="text-sm">{formatDate(pengadaan.tanggalPermintaan)}</p>
+                  </div>
+                  <div className="space-y-1">
+                    <p className="text-sm font-medium text-gray-500">PIC Tim PPSM</p>
+                    <p className="text-sm">{pengadaan.picTimPpsm || "-"}</p>
+                  </div>
+                </div>
               </div>
-            </div>
-          </div>
 
-          {/* Section 4: PROSES KONTRAK */}
-          <div className="space-y-4">
-            <h3 className="text-lg font-semibold text-purple-600">PROSES KONTRAK</h3>
-            <Separator />
-            
-            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-              <div className="space-y-1">
-                <p className="text-sm font-medium text-gray-500">Cost Saving (Rp)</p>
-                <p className="text-sm">{formatCurrency(pengadaan.costSavingRp || "0", "IDR")}</p>
-              </div>
-              <div className="space-y-1">
-                <p className="text-sm font-medium text-gray-500">Nilai Kontrak (Rupiah)</p>
-                <p className="text-sm">{formatCurrency(pengadaan.nilaiKontrakRupiah || "0", "IDR")}</p>
-              </div>
-              <div className="space-y-1">
-                <p className="text-sm font-medium text-gray-500">Nilai Kontrak (USD)</p>
-                <p className="text-sm">{formatCurrency(pengadaan.nilaiKontrakUsd || "0", "USD")}</p>
-              </div>
-              <div className="space-y-1">
-                <p className="text-sm font-medium text-gray-500">Nilai Kontrak Porsi Tahun</p>
-                <p className="text-sm">{formatCurrency(pengadaan.nilaiKontrakPortiTahun || "0", "IDR")}</p>
+              {/* Section 3: PROSES PENGADAAN */}
+              <div className="space-y-4">
+                <h3 className="text-lg font-semibold text-orange-600">PROSES PENGADAAN</h3>
+                <Separator />
+                
+                <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+                  <div className="space-y-1">
+                    <p className="text-sm font-medium text-gray-500">Surat Penunjukan</p>
+                    <p className="text-sm">{pengadaan.suratPenunjukan || "-"}</p>
+                  </div>
+                  <div className="space-y-1">
+                    <p className="text-sm font-medium text-gray-500">Lama Proses Pengadaan (Hari Kerja)</p>
+                    <p className="text-sm">{pengadaan.lamaProsesPengadaan ?? "-"}</p>
+                  </div>
+                  <div className="space-y-1">
+                    <p className="text-sm font-medium text-gray-500">Jangka Waktu Pengerjaan</p>
+                    <p className="text-sm">{pengadaan.jangkaWaktuPengerjaan || "-"}</p>
+                  </div>
+                  <div className="space-y-1">
+                    <p className="text-sm font-medium text-gray-500">Nilai Penunjukan</p>
+                    <p className="text-sm">{formatCurrency(pengadaan.nilaiPenunjukanAmount || "0", pengadaan.nilaiPenunjukanCurrency)}</p>
+                  </div>
+                  <div className="space-y-1">
+                    <p className="text-sm font-medium text-gray-500">Status Pengadaan</p>
+                    <Badge className={getStatusColor(pengadaan.statusPengadaan || pengadaan.status)}>
+                      {pengadaan.statusPengadaan || pengadaan.status || "-"}
+                    </Badge>
+                  </div>
+                  <div className="space-y-1">
+                    <p className="text-sm font-medium text-gray-500">Bulan Selesai</p>
+                    <p className="text-sm">{pengadaan.bulanSelesai || "-"}</p>
+                  </div>
+                  <div className="space-y-1">
+                    <p className="text-sm font-medium text-gray-500">Keterangan Pengadaan</p>
+                    <p className="text-sm">{pengadaan.keteranganPengadaan || "-"}</p>
+                  </div>
+                </div>
               </div>
-              <div className="space-y-1">
-                <p className="text-sm font-medium text-gray-500">Penyedia Barang/ Jasa/ Konsultan</p>
-                <p className="text-sm">{pengadaan.penyediaBarangJasa || pengadaan.vendor || "-"}</p>
-              </div>
-              <div className="space-y-1">
-                <p className="text-sm font-medium text-gray-500">Status Penyedia</p>
-                <p className="text-sm">{pengadaan.statusPenyedia || "-"}</p>
-              </div>
-              <div className="space-y-1">
-                <p className="text-sm font-medium text-gray-500">Kontrak Nomor</p>
-                <p className="text-sm">{pengadaan.kontrakNomor || "-"}</p>
-              </div>
-              <div className="space-y-1">
-                <p className="text-sm font-medium text-gray-500">Kontrak Tanggal</p>
-                <p className="text-sm">{formatDate(pengadaan.kontrakTanggal || pengadaan.deadline)}</p>
+
+              {/* Section 4: PROSES KONTRAK */}
+              <div className="space-y-4">
+                <h3 className="text-lg font-semibold text-purple-600">PROSES KONTRAK</h3>
+                <Separator />
+                
+                <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+                  <div className="space-y-1">
+                    <p className="text-sm font-medium text-gray-500">Cost Saving (Rp)</p>
+                    <p className="text-sm">{formatCurrency(pengadaan.costSavingRp || "0", "IDR")}</p>
+                  </div>
+                  <div className="space-y-1">
+                    <p className="text-sm font-medium text-gray-500">Nilai Kontrak (Rupiah)</p>
+                    <p className="text-sm">{formatCurrency(pengadaan.nilaiKontrakRupiah || "0", "IDR")}</p>
+                  </div>
+                  <div className="space-y-1">
+                    <p className="text-sm font-medium text-gray-500">Nilai Kontrak (USD)</p>
+                    <p className="text-sm">{formatCurrency(pengadaan.nilaiKontrakUsd || "0", "USD")}</p>
+                  </div>
+                  <div className="space-y-1">
+                    <p className="text-sm font-medium text-gray-500">Nilai Kontrak Porsi Tahun</p>
+                    <p className="text-sm">{formatCurrency(pengadaan.nilaiKontrakPortiTahun || "0", "IDR")}</p>
+                  </div>
+                  <div className="space-y-1">
+                    <p className="text-sm font-medium text-gray-500">Penyedia Barang/ Jasa/ Konsultan</p>
+                    <p className="text-sm">{pengadaan.penyediaBarangJasa || pengadaan.vendor || "-"}</p>
+                  </div>
+                  <div className="space-y-1">
+                    <p className="text-sm font-medium text-gray-500">Status Penyedia</p>
+                    <p className="text-sm">{pengadaan.statusPenyedia || "-"}</p>
+                  </div>
+                  <div className="space-y-1">
+                    <p className="text-sm font-medium text-gray-500">Kontrak Nomor</p>
+                    <p className="text-sm">{pengadaan.kontrakNomor || "-"}</p>
+                  </div>
+                  <div className="space-y-1">
+                    <p className="text-sm font-medium text-gray-500">Kontrak Tanggal</p>
+                    <p className="text-sm">{formatDate(pengadaan.kontrakTanggal || pengadaan.deadline)}</p>
+                  </div>
+                </div>
               </div>
-            </div>
-          </div>
+
+              {/* Approval chain progress */}
+              {approvalChain.length > 0 && (
+                <div className="space-y-4">
+                  <h3 className="text-lg font-semibold text-gray-700">ALUR PERSETUJUAN</h3>
+                  <Separator />
+
+                  <div className="space-y-2">
+                    {approvalChain.map((step) => (
+                      <div key={step.step} className="flex flex-wrap items-center gap-3 text-sm">
+                        <span className="font-medium">Tahap {step.step}</span>
+                        <span>{APPROVER_ROLE_LABELS[step.approverRole] ?? step.approverRole}</span>
+                        <Badge className={getDecisionColor(step.decision)}>
+                          {DECISION_LABELS[step.decision] ?? step.decision}
+                        </Badge>
+                        {step.decidedAt && <span className="text-gray-500">{formatDate(step.decidedAt)}</span>}
+                        {step.comment && <span className="text-gray-500 italic">"{step.comment}"</span>}
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              {(canSubmit || canReview) && (
+                <div className="flex justify-end gap-2">
+                  {canSubmit && (
+                    <Button onClick={handleSubmitForReview} disabled={submitPengadaan.isPending}>
+                      Ajukan Review
+                    </Button>
+                  )}
+                  {canReview && (
+                    <>
+                      <Button
+                        variant="outline"
+                        className="text-red-600 hover:text-red-700"
+                        onClick={handleReject}
+                        disabled={rejectPengadaan.isPending}
+                      >
+                        Tolak
+                      </Button>
+                      <Button onClick={handleApprove} disabled={approvePengadaan.isPending}>
+                        Setujui
+                      </Button>
+                    </>
+                  )}
+                </div>
+              )}
+            </TabsContent>
+
+            <TabsContent value="penilaian">
+              <VendorRatingPanel pengadaan={pengadaan} />
+            </TabsContent>
+
+            <TabsContent value="riwayat">
+              <PengadaanHistory pengadaan={pengadaan} />
+            </TabsContent>
+          </Tabs>
         </CardContent>
       </Card>
     </div>
   );
 };
 
+const APPROVER_ROLE_LABELS: Record<string, string> = {
+  manager: "Manajer",
+  director: "Direktur",
+  board: "Direksi",
+};
+
+const DECISION_LABELS: Record<string, string> = {
+  pending: "Menunggu",
+  approved: "Disetujui",
+  rejected: "Ditolak",
+};
+
+const getDecisionColor = (decision: string) => {
+  switch (decision) {
+    case "approved":
+      return "bg-green-100 text-green-800";
+    case "rejected":
+      return "bg-red-100 text-red-800";
+    default:
+      return "bg-gray-100 text-gray-800";
+  }
+};
+
 // Helper function for status colors
 const getStatusColor = (status: string) => {
   switch (status) {
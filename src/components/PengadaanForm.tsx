@@ -14,19 +14,58 @@ import {
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Separator } from "@/components/ui/separator";
 import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { ApiError } from "@/services/api";
 import { useCreatePengadaan, useUpdatePengadaan } from "@/services/pengadaan";
+import { budgetService } from "@/services/budget";
+import { useEffectiveExchangeRate } from "@/services/exchange-rate";
+import { JENIS_ANGGARAN, PENGGUNA_BARANG_JASA } from "@/lib/budget";
+import { CURRENCIES } from "@/lib/currency";
+import { formatCurrency } from "@/lib/utils";
+import { VendorPicker } from "@/components/VendorPicker";
+import type { Vendor } from "@/types/vendor";
 import type { Pengadaan } from "@/types/pengadaan";
+import type { AppliedExchangeRate } from "@/types/exchange-rate";
 
 interface PengadaanFormProps {
   onClose: () => void;
   pengadaan?: Pengadaan;
 }
 
-// Mock exchange rate - in real app, this would come from an API
-const USD_TO_IDR_RATE = 15000;
+const formatRateDate = (value: string) => new Date(value).toLocaleDateString("id-ID");
+
+// Rate a rupiah equivalent is computed with, or why it cannot be
+const RateHint = ({
+  currency,
+  rate,
+  error,
+}: {
+  currency: string;
+  rate: AppliedExchangeRate | undefined;
+  error: Error | null;
+}) => {
+  if (currency === "IDR") return null;
+  if (error) return <p className="text-xs text-red-600">{error.message}</p>;
+  if (!rate) return null;
+  return (
+    <p className="text-xs text-muted-foreground">
+      Kurs {formatRateDate(rate.rateDate)}: 1 {currency} = {formatCurrency(rate.rate)}
+    </p>
+  );
+};
+
+const formatDuration = (value?: number | null) => (value === null || value === undefined ? "" : String(value));
+
+// Durations are counted by the server in working days between two dates when the package is saved
+const DurationHint = ({ from, to }: { from: string; to: string }) => (
+  <p className="text-xs text-muted-foreground">
+    Hari kerja dari {from} sampai {to}, dihitung saat disimpan.
+  </p>
+);
 
 export const PengadaanForm = ({ onClose, pengadaan }: PengadaanFormProps) => {
   const { toast } = useToast();
+  const { user } = useAuth();
   const createPengadaan = useCreatePengadaan();
   const updatePengadaan = useUpdatePengadaan();
 
@@ -62,19 +101,16 @@ export const PengadaanForm = ({ onClose, pengadaan }: PengadaanFormProps) => {
     tanggalPermintaanDiterima: pengadaan?.tanggalPermintaanDiterima || "",
     tanggalRapatPersiapan: pengadaan?.tanggalRapatPersiapan || "",
     tanggalRevisiPermintaan: pengadaan?.tanggalRevisiPermintaan || "",
-    lamaRevisiPermintaan: pengadaan?.lamaRevisiPermintaan || "",
     noPurchaseRequisition: pengadaan?.noPurchaseRequisition || "",
     tanggalPurchaseRequisition: pengadaan?.tanggalPurchaseRequisition || "",
     jenisMySap: pengadaan?.jenisMySap || "",
     tanggalPerintahPengadaan: pengadaan?.tanggalPerintahPengadaan || "",
-    lamaProsesPersiapan: pengadaan?.lamaProsesPersiapan || "",
     kategoriRisiko: pengadaan?.kategoriRisiko || "",
     keteranganPersiapan: pengadaan?.keteranganPersiapan || "",
     picTimPpsm: pengadaan?.picTimPpsm || "",
 
     // Section 3: PROSES PENGADAAN
     suratPenunjukan: pengadaan?.suratPenunjukan || "",
-    lamaProsesPengadaan: pengadaan?.lamaProsesPengadaan || "",
     jangkaWaktuPengerjaan: pengadaan?.jangkaWaktuPengerjaan || "",
     nilaiPenunjukanCurrency: pengadaan?.nilaiPenunjukanCurrency || "IDR",
     nilaiPenunjukanAmount: pengadaan?.nilaiPenunjukanAmount || "",
@@ -88,6 +124,7 @@ export const PengadaanForm = ({ onClose, pengadaan }: PengadaanFormProps) => {
     nilaiKontrakRupiah: pengadaan?.nilaiKontrakRupiah || "",
     nilaiKontrakUsd: pengadaan?.nilaiKontrakUsd || "",
     nilaiKontrakPortiTahun: pengadaan?.nilaiKontrakPortiTahun || "",
+    vendorId: pengadaan?.vendorId || "",
     penyediaBarangJasa: pengadaan?.penyediaBarangJasa || "",
     statusPenyedia: pengadaan?.statusPenyedia || "",
     kontrakNomor: pengadaan?.kontrakNomor || "",
@@ -98,30 +135,43 @@ export const PengadaanForm = ({ onClose, pengadaan }: PengadaanFormProps) => {
   const currentYear = new Date().getFullYear();
   const yearOptions = Array.from({ length: 10 }, (_, i) => currentYear - 5 + i);
 
+  // Rates on the request date. The server computes the stored rupiah equivalents;
+  // these only preview them.
+  const hpsRate = useEffectiveExchangeRate(formData.nilaiHpsCurrency, formData.tanggalPermintaan);
+  const penunjukanRate = useEffectiveExchangeRate(formData.nilaiPenunjukanCurrency, formData.tanggalPermintaan);
+  const usdRate = useEffectiveExchangeRate("USD", formData.tanggalPermintaan);
+  const hpsRateValue = formData.nilaiHpsCurrency === "IDR" ? 1 : hpsRate.data?.rate;
+  const penunjukanRateValue = formData.nilaiPenunjukanCurrency === "IDR" ? 1 : penunjukanRate.data?.rate;
+
   // Handle currency conversion
   useEffect(() => {
-    if (formData.nilaiAnggaranUsd) {
+    if (formData.nilaiAnggaranUsd && usdRate.data) {
       const usdValue = parseFloat(formData.nilaiAnggaranUsd);
       if (!isNaN(usdValue)) {
         setFormData(prev => ({
           ...prev,
-          nilaiAnggaranIdr: (usdValue * USD_TO_IDR_RATE).toString()
+          nilaiAnggaranIdr: (usdValue * (usdRate.data?.rate ?? 0)).toString()
         }));
       }
     }
-  }, [formData.nilaiAnggaranUsd]);
+  }, [formData.nilaiAnggaranUsd, usdRate.data]);
 
   useEffect(() => {
-    if (formData.nilaiPenunjukanCurrency === "USD" && formData.nilaiPenunjukanAmount) {
-      const usdValue = parseFloat(formData.nilaiPenunjukanAmount);
-      if (!isNaN(usdValue)) {
-        setFormData(prev => ({
-          ...prev,
-          nilaiPenunjukanEqRupiah: (usdValue * USD_TO_IDR_RATE).toString()
-        }));
-      }
+    const amount = parseFloat(formData.nilaiHpsAmount);
+    if (!isNaN(amount) && hpsRateValue !== undefined) {
+      setFormData(prev => ({ ...prev, nilaiHpsEqRupiah: (Math.round(amount * hpsRateValue * 100) / 100).toString() }));
     }
-  }, [formData.nilaiPenunjukanCurrency, formData.nilaiPenunjukanAmount]);
+  }, [formData.nilaiHpsAmount, hpsRateValue]);
+
+  useEffect(() => {
+    const amount = parseFloat(formData.nilaiPenunjukanAmount);
+    if (!isNaN(amount) && penunjukanRateValue !== undefined) {
+      setFormData(prev => ({
+        ...prev,
+        nilaiPenunjukanEqRupiah: (Math.round(amount * penunjukanRateValue * 100) / 100).toString()
+      }));
+    }
+  }, [formData.nilaiPenunjukanAmount, penunjukanRateValue]);
 
   // Calculate cost saving automatically
   useEffect(() => {
@@ -141,42 +191,85 @@ export const PengadaanForm = ({ onClose, pengadaan }: PengadaanFormProps) => {
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
 
-    try {
-      // Map comprehensive form data to include legacy fields for backward compatibility
-      const pengadaanData = {
-        ...formData,
-        // Map new fields to legacy fields for backward compatibility
-        nama: formData.namaPaket || "Untitled",
-        kategori: formData.barangJasa || "Barang",
-        vendor: formData.penyediaBarangJasa || "TBD",
-        nilai: formData.nilaiHpsEqRupiah || "0",
-        status: formData.statusPengadaan || "Draft",
-        tanggal: formData.tanggalPermintaan || new Date().toISOString().split('T')[0],
-        deadline: formData.kontrakTanggal || new Date().toISOString().split('T')[0],
-        deskripsi: `${formData.jenisPengadaan || "Pengadaan"} - ${formData.metodePengadaan || "Standar"}`,
-      };
+    if (!formData.penyediaBarangJasa) {
+      toast({
+        title: "Penyedia belum dipilih",
+        description: "Pilih penyedia barang/jasa dari daftar vendor.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    // Map comprehensive form data to include legacy fields for backward compatibility
+    const pengadaanData = {
+      ...formData,
+      // Map new fields to legacy fields for backward compatibility
+      nama: formData.namaPaket || "Untitled",
+      kategori: formData.barangJasa || "Barang",
+      vendor: formData.penyediaBarangJasa || "TBD",
+      nilai: formData.nilaiHpsEqRupiah || "0",
+      // Lifecycle status only changes through the transitions endpoint
+      status: pengadaan?.status || "Draft",
+      tanggal: formData.tanggalPermintaan || new Date().toISOString().split('T')[0],
+      deadline: formData.kontrakTanggal || new Date().toISOString().split('T')[0],
+      deskripsi: `${formData.jenisPengadaan || "Pengadaan"} - ${formData.metodePengadaan || "Standar"}`,
+    };
 
+    const save = async (blacklistOverrideReason?: string) => {
+      const data = blacklistOverrideReason ? { ...pengadaanData, blacklistOverrideReason } : pengadaanData;
       if (pengadaan) {
-        await updatePengadaan.mutateAsync({
-          id: pengadaan.id,
-          data: pengadaanData,
-        });
+        await updatePengadaan.mutateAsync({ id: pengadaan.id, data });
         toast({
           title: "Berhasil!",
           description: `Pengadaan "${formData.namaPaket}" telah diperbarui.`,
         });
       } else {
-        await createPengadaan.mutateAsync(pengadaanData);
+        await createPengadaan.mutateAsync(data);
         toast({
           title: "Berhasil!",
           description: `Pengadaan "${formData.namaPaket}" telah ditambahkan.`,
         });
       }
       onClose();
+    };
+
+    // A new package whose HPS exceeds what is left of its budget needs confirmation
+    if (!pengadaan) {
+      const amount = parseFloat(formData.nilaiHpsEqRupiah || formData.nilaiAnggaranIdr);
+      if (formData.tahunAnggaran && formData.jenisAnggaran && formData.penggunaBarangJasa && amount > 0) {
+        const warning = await budgetService
+          .check({
+            tahunAnggaran: formData.tahunAnggaran,
+            jenisAnggaran: formData.jenisAnggaran,
+            penggunaBarangJasa: formData.penggunaBarangJasa,
+            amount,
+          })
+          .catch(() => null);
+        if (warning && !window.confirm(`${warning.message}.\nTetap simpan pengadaan?`)) return;
+      }
+    }
+
+    try {
+      try {
+        await save();
+      } catch (error) {
+        // The penyedia is on the blacklist: only an admin may proceed, with a recorded reason
+        const isBlacklisted =
+          error instanceof ApiError &&
+          (error.data as { field?: string } | undefined)?.field === "blacklistOverrideReason";
+        if (!isBlacklisted || user?.role !== "admin") throw error;
+
+        const reason = window.prompt(`${error.message}.\nAlasan tetap menggunakan penyedia ini:`);
+        if (!reason || !reason.trim()) return;
+        await save(reason.trim());
+      }
     } catch (error) {
       toast({
         title: "Error!",
-        description: "Gagal menyimpan pengadaan.",
+        description:
+          error instanceof ApiError && error.status === 400
+            ? error.message
+            : "Gagal menyimpan pengadaan.",
         variant: "destructive",
       });
     }
@@ -186,6 +279,16 @@ export const PengadaanForm = ({ onClose, pengadaan }: PengadaanFormProps) => {
     setFormData((prev) => ({ ...prev, [field]: value }));
   };
 
+  // Penyedia name and UMKM status come from the vendor record
+  const handleVendorSelect = (vendor: Vendor) => {
+    setFormData((prev) => ({
+      ...prev,
+      vendorId: vendor.id,
+      penyediaBarangJasa: vendor.nama,
+      statusPenyedia: vendor.statusUmkm,
+    }));
+  };
+
   return (
     <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
       <Card className="w-full max-w-6xl max-h-[90vh] overflow-y-auto">
@@ -330,7 +433,7 @@ export const PengadaanForm = ({ onClose, pengadaan }: PengadaanFormProps) => {
                       <SelectValue placeholder="Pilih Pengguna" />
                     </SelectTrigger>
                     <SelectContent>
-                      {["ACCT", "AFM", "BD", "CGP", "CORCOM", "CORFIN", "CSR", "CSS", "CST", "ET", "FCMA", "GCR", "GLS", "GLSM", "HCM", "HSSE", "ICT", "IR", "IT-BP", "IT-DP", "IT-TP", "LCC", "OMM", "PCCM", "PMO", "PRC", "RM", "SCM", "SOR I", "SOR II", "SOR III", "SOR III-ROM", "SOR II-ROM", "SOR IV"].map(item => (
+                      {PENGGUNA_BARANG_JASA.map(item => (
                         <SelectItem key={item} value={item}>{item}</SelectItem>
                       ))}
                     </SelectContent>
@@ -421,8 +524,9 @@ export const PengadaanForm = ({ onClose, pengadaan }: PengadaanFormProps) => {
                       <SelectValue placeholder="Pilih Jenis Anggaran" />
                     </SelectTrigger>
                     <SelectContent>
-                      <SelectItem value="ABO">ABO</SelectItem>
-                      <SelectItem value="ABI">ABI</SelectItem>
+                      {JENIS_ANGGARAN.map(item => (
+                        <SelectItem key={item} value={item}>{item}</SelectItem>
+                      ))}
                     </SelectContent>
                   </Select>
                 </div>
@@ -480,8 +584,9 @@ export const PengadaanForm = ({ onClose, pengadaan }: PengadaanFormProps) => {
                           <SelectValue />
                         </SelectTrigger>
                         <SelectContent>
-                          <SelectItem value="USD">USD</SelectItem>
-                          <SelectItem value="IDR">IDR</SelectItem>
+                          {CURRENCIES.map(currency => (
+                            <SelectItem key={currency} value={currency}>{currency}</SelectItem>
+                          ))}
                         </SelectContent>
                       </Select>
                       <Input
@@ -499,10 +604,10 @@ export const PengadaanForm = ({ onClose, pengadaan }: PengadaanFormProps) => {
                       id="nilaiHpsEqRupiah"
                       type="number"
                       value={formData.nilaiHpsEqRupiah}
-                      onChange={(e) => handleChange("nilaiHpsEqRupiah", e.target.value)}
-                      placeholder="Masukkan nilai IDR"
-                      required
+                      placeholder="Dihitung otomatis"
+                      readOnly
                     />
+                    <RateHint currency={formData.nilaiHpsCurrency} rate={hpsRate.data} error={hpsRate.error} />
                   </div>
                   <div className="space-y-2">
                     <Label htmlFor="nilaiHpsPortiTahun">Porsi tahun berjalan</Label>
@@ -576,13 +681,14 @@ export const PengadaanForm = ({ onClose, pengadaan }: PengadaanFormProps) => {
 
                 {formData.tanggalRevisiPermintaan && (
                   <div className="space-y-2">
-                    <Label htmlFor="lamaRevisiPermintaan">Berapa lama Revisi Permintaan?</Label>
+                    <Label htmlFor="lamaRevisiPermintaan">Lama Revisi Permintaan (Hari Kerja)</Label>
                     <Input
                       id="lamaRevisiPermintaan"
-                      value={formData.lamaRevisiPermintaan}
-                      onChange={(e) => handleChange("lamaRevisiPermintaan", e.target.value)}
-                      placeholder="Masukkan lama revisi"
+                      value={formatDuration(pengadaan?.lamaRevisiPermintaan)}
+                      placeholder="Dihitung otomatis"
+                      readOnly
                     />
+                    <DurationHint from="Tanggal Rapat Persiapan" to="Tanggal Revisi Permintaan" />
                   </div>
                 )}
 
@@ -633,14 +739,14 @@ export const PengadaanForm = ({ onClose, pengadaan }: PengadaanFormProps) => {
                 </div>
 
                 <div className="space-y-2">
-                  <Label htmlFor="lamaProsesPersiapan">Lama Proses Persiapan Pengadaan (Hari Kerja) *</Label>
+                  <Label htmlFor="lamaProsesPersiapan">Lama Proses Persiapan Pengadaan (Hari Kerja)</Label>
                   <Input
                     id="lamaProsesPersiapan"
-                    value={formData.lamaProsesPersiapan}
-                    onChange={(e) => handleChange("lamaProsesPersiapan", e.target.value)}
-                    placeholder="Masukkan lama proses"
-                    required
+                    value={formatDuration(pengadaan?.lamaProsesPersiapan)}
+                    placeholder="Dihitung otomatis"
+                    readOnly
                   />
+                  <DurationHint from="Tanggal Permintaan diterima" to="Tanggal Perintah Pengadaan" />
                 </div>
 
                 <div className="space-y-2">
@@ -700,14 +806,14 @@ export const PengadaanForm = ({ onClose, pengadaan }: PengadaanFormProps) => {
                 </div>
 
                 <div className="space-y-2">
-                  <Label htmlFor="lamaProsesPengadaan">Lama Proses Pengadaan (Hari Kerja) *</Label>
+                  <Label htmlFor="lamaProsesPengadaan">Lama Proses Pengadaan (Hari Kerja)</Label>
                   <Input
                     id="lamaProsesPengadaan"
-                    value={formData.lamaProsesPengadaan}
-                    onChange={(e) => handleChange("lamaProsesPengadaan", e.target.value)}
-                    placeholder="Masukkan lama proses"
-                    required
+                    value={formatDuration(pengadaan?.lamaProsesPengadaan)}
+                    placeholder="Dihitung otomatis"
+                    readOnly
                   />
+                  <DurationHint from="Tanggal Perintah Pengadaan" to="Surat Penunjukan" />
                 </div>
 
                 <div className="space-y-2">
@@ -721,15 +827,16 @@ export const PengadaanForm = ({ onClose, pengadaan }: PengadaanFormProps) => {
                 </div>
 
                 <div className="space-y-2">
-                  <Label>Nilai Penunjukan (USD / IDR) *</Label>
+                  <Label>Nilai Penunjukan *</Label>
                   <div className="flex gap-2">
                     <Select value={formData.nilaiPenunjukanCurrency} onValueChange={(value) => handleChange("nilaiPenunjukanCurrency", value)}>
                       <SelectTrigger className="w-20">
                         <SelectValue />
                       </SelectTrigger>
                       <SelectContent>
-                        <SelectItem value="USD">USD</SelectItem>
-                        <SelectItem value="IDR">IDR</SelectItem>
+                        {CURRENCIES.map(currency => (
+                          <SelectItem key={currency} value={currency}>{currency}</SelectItem>
+                        ))}
                       </SelectContent>
                     </Select>
                     <Input
@@ -748,10 +855,13 @@ export const PengadaanForm = ({ onClose, pengadaan }: PengadaanFormProps) => {
                     id="nilaiPenunjukanEqRupiah"
                     type="number"
                     value={formData.nilaiPenunjukanEqRupiah}
-                    onChange={(e) => handleChange("nilaiPenunjukanEqRupiah", e.target.value)}
-                    placeholder="Masukkan nilai IDR"
-                    required
-                    readOnly={formData.nilaiPenunjukanCurrency === "USD"}
+                    placeholder="Dihitung otomatis"
+                    readOnly
+                  />
+                  <RateHint
+                    currency={formData.nilaiPenunjukanCurrency}
+                    rate={penunjukanRate.data}
+                    error={penunjukanRate.error}
                   />
                 </div>
 
@@ -854,18 +964,22 @@ export const PengadaanForm = ({ onClose, pengadaan }: PengadaanFormProps) => {
               <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
                 <div className="space-y-2">
                   <Label htmlFor="penyediaBarangJasa">Penyedia Barang / Jasa / Konsultan *</Label>
-                  <Input
+                  <VendorPicker
                     id="penyediaBarangJasa"
-                    value={formData.penyediaBarangJasa}
-                    onChange={(e) => handleChange("penyediaBarangJasa", e.target.value)}
-                    placeholder="Masukkan nama penyedia"
-                    required
+                    value={formData.vendorId || null}
+                    selectedName={formData.penyediaBarangJasa}
+                    onSelect={handleVendorSelect}
                   />
                 </div>
 
                 <div className="space-y-2">
                   <Label htmlFor="statusPenyedia">Status Penyedia Barang / Jasa / Konsultan (UMKM/Non UMKM) *</Label>
-                  <Select value={formData.statusPenyedia} onValueChange={(value) => handleChange("statusPenyedia", value)} required>
+                  <Select
+                    value={formData.statusPenyedia}
+                    onValueChange={(value) => handleChange("statusPenyedia", value)}
+                    disabled={!!formData.vendorId}
+                    required
+                  >
                     <SelectTrigger>
                       <SelectValue placeholder="Pilih Status Penyedia" />
                     </SelectTrigger>
@@ -0,0 +1,211 @@
+import { useEffect, useMemo, useState } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Separator } from "@/components/ui/separator";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { usePengadaanHistory, useRestorePengadaan } from "@/services/pengadaan";
+import type { Pengadaan } from "@/types/pengadaan";
+import {
+  HISTORY_ACTION_LABELS,
+  PENGADAAN_FIELD_GROUPS,
+  buildRevisions,
+  formatFieldValue,
+  getFieldLabel,
+  type PengadaanRevision,
+} from "@/lib/pengadaan-fields";
+
+interface PengadaanHistoryProps {
+  pengadaan: Pengadaan;
+}
+
+const formatDateTime = (value: string) => new Date(value).toLocaleString("id-ID");
+
+const getRevisionLabel = (revision: PengadaanRevision) => {
+  if (!revision.entry) return "Versi awal";
+  const { action, timestamp, user } = revision.entry;
+  return `Rev. ${revision.index} · ${HISTORY_ACTION_LABELS[action] ?? action} · ${formatDateTime(timestamp)} · ${user.name}`;
+};
+
+export const PengadaanHistory = ({ pengadaan }: PengadaanHistoryProps) => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const { data: history = [], isLoading, error } = usePengadaanHistory(pengadaan.id);
+  const restorePengadaan = useRestorePengadaan();
+  const isAdmin = user?.role === "admin";
+  const revisions = useMemo(() => buildRevisions(pengadaan, history), [pengadaan, history]);
+
+  const [leftIndex, setLeftIndex] = useState(0);
+  const [rightIndex, setRightIndex] = useState(0);
+
+  // Default to comparing the latest revision with the one before it
+  useEffect(() => {
+    const latest = revisions.length - 1;
+    setRightIndex(latest);
+    setLeftIndex(Math.max(latest - 1, 0));
+  }, [revisions.length]);
+
+  const left = revisions[leftIndex];
+  const right = revisions[rightIndex];
+
+  const changedGroups = useMemo(() => {
+    if (!left || !right) return [];
+    return PENGADAAN_FIELD_GROUPS.map((group) => ({
+      title: group.title,
+      fields: group.fields.filter(
+        (field) => formatFieldValue(left.snapshot[field.key]) !== formatFieldValue(right.snapshot[field.key])
+      ),
+    })).filter((group) => group.fields.length > 0);
+  }, [left, right]);
+
+  const handleRestore = async (at: string) => {
+    if (!window.confirm(`Pulihkan data ke kondisi per ${formatDateTime(at)}?`)) return;
+    try {
+      await restorePengadaan.mutateAsync({ id: pengadaan.id, at });
+      toast({ title: "Berhasil!", description: "Pengadaan telah dipulihkan sebagai revisi baru." });
+    } catch (restoreError) {
+      toast({
+        title: "Error!",
+        description: restoreError instanceof Error ? restoreError.message : "Gagal memulihkan pengadaan.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  if (isLoading) {
+    return <p className="text-sm text-gray-500">Memuat riwayat...</p>;
+  }
+
+  if (error) {
+    return <p className="text-sm text-red-600">Gagal memuat riwayat: {error.message}</p>;
+  }
+
+  if (history.length === 0) {
+    return <p className="text-sm text-gray-500">Belum ada riwayat perubahan.</p>;
+  }
+
+  return (
+    <div className="space-y-8">
+      {/* Timeline */}
+      <div className="space-y-4">
+        <h3 className="text-lg font-semibold text-blue-600">RIWAYAT PERUBAHAN</h3>
+        <Separator />
+
+        <ol className="space-y-4">
+          {[...history].reverse().map((entry, reversedIndex) => {
+            const changedFields = Object.entries(entry.changes ?? {});
+            return (
+              <li key={history.length - reversedIndex} className="border-l-2 border-gray-200 pl-4 space-y-1">
+                <div className="flex flex-wrap items-center gap-2 text-sm">
+                  <Badge variant="outline">{HISTORY_ACTION_LABELS[entry.action] ?? entry.action}</Badge>
+                  <span className="font-medium">{entry.user.name}</span>
+                  <span className="text-gray-500">{formatDateTime(entry.timestamp)}</span>
+                  {isAdmin && reversedIndex > 0 && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="ml-auto"
+                      onClick={() => handleRestore(entry.timestamp)}
+                      disabled={restorePengadaan.isPending}
+                    >
+                      Pulihkan ke sini
+                    </Button>
+                  )}
+                </div>
+                {entry.reason && <p className="text-sm text-gray-600 italic">Alasan: {entry.reason}</p>}
+                {changedFields.length > 0 && (
+                  <ul className="text-sm text-gray-700 space-y-0.5">
+                    {changedFields.map(([field, change]) => (
+                      <li key={field}>
+                        <span className="font-medium">{getFieldLabel(field)}</span>:{" "}
+                        <span className="line-through text-red-600">{formatFieldValue(change.from)}</span>
+                        {" → "}
+                        <span className="text-green-700">{formatFieldValue(change.to)}</span>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </li>
+            );
+          })}
+        </ol>
+      </div>
+
+      {/* Side-by-side compare */}
+      <div className="space-y-4">
+        <h3 className="text-lg font-semibold text-purple-600">BANDINGKAN REVISI</h3>
+        <Separator />
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <Select value={String(leftIndex)} onValueChange={(value) => setLeftIndex(Number(value))}>
+            <SelectTrigger>
+              <SelectValue placeholder="Pilih revisi" />
+            </SelectTrigger>
+            <SelectContent>
+              {revisions.map((revision) => (
+                <SelectItem key={revision.index} value={String(revision.index)}>
+                  {getRevisionLabel(revision)}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={String(rightIndex)} onValueChange={(value) => setRightIndex(Number(value))}>
+            <SelectTrigger>
+              <SelectValue placeholder="Pilih revisi" />
+            </SelectTrigger>
+            <SelectContent>
+              {revisions.map((revision) => (
+                <SelectItem key={revision.index} value={String(revision.index)}>
+                  {getRevisionLabel(revision)}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {changedGroups.length === 0 ? (
+          <p className="text-sm text-gray-500">Tidak ada perbedaan antara kedua revisi.</p>
+        ) : (
+          changedGroups.map((group) => (
+            <div key={group.title} className="space-y-2">
+              <h4 className="text-sm font-semibold text-gray-700">{group.title}</h4>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-1/3">Field</TableHead>
+                    <TableHead className="w-1/3">{left ? getRevisionLabel(left) : "-"}</TableHead>
+                    <TableHead className="w-1/3">{right ? getRevisionLabel(right) : "-"}</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {group.fields.map((field) => (
+                    <TableRow key={field.key}>
+                      <TableCell className="font-medium">{field.label}</TableCell>
+                      <TableCell className="bg-red-50">{formatFieldValue(left?.snapshot[field.key])}</TableCell>
+                      <TableCell className="bg-green-50">{formatFieldValue(right?.snapshot[field.key])}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          ))
+        )}
+      </div>
+    </div>
+  );
+};
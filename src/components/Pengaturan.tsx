@@ -1,5 +1,9 @@
 import React from 'react';
 import { Card, CardHeader, CardTitle, CardContent } from '@/components/ui/card';
+import { KursMataUang } from '@/components/KursMataUang';
+import { KalenderLibur } from '@/components/KalenderLibur';
+import { TargetSla } from '@/components/TargetSla';
+import { TemplateDokumen } from '@/components/TemplateDokumen';
 
 export const Pengaturan: React.FC = () => {
   return (
@@ -14,6 +18,10 @@ export const Pengaturan: React.FC = () => {
           </p>
         </CardContent>
       </Card>
+      <KursMataUang />
+      <KalenderLibur />
+      <TargetSla />
+      <TemplateDokumen />
     </div>
   );
 };
@@ -0,0 +1,155 @@
+import { useEffect, useState } from "react";
+import { Search, Star } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { VendorScorecard } from "@/components/VendorScorecard";
+import { DaftarHitam } from "@/components/DaftarHitam";
+import { useVendors } from "@/services/vendor";
+import type { VendorQueryParams } from "@/types/vendor";
+
+type StatusFilter = NonNullable<VendorQueryParams["status"]> | "all";
+
+// Vendor list with ratings, where a row opens the vendor's scorecard, and the blacklist register
+export const Penyedia = () => {
+  const [search, setSearch] = useState("");
+  const [debouncedSearch, setDebouncedSearch] = useState("");
+  const [status, setStatus] = useState<StatusFilter>("active");
+  const [selectedVendorId, setSelectedVendorId] = useState<string | null>(null);
+
+  useEffect(() => {
+    const timer = setTimeout(() => setDebouncedSearch(search.trim()), 300);
+    return () => clearTimeout(timer);
+  }, [search]);
+
+  const { data: vendors = [], isLoading } = useVendors({
+    search: debouncedSearch,
+    ...(status !== "all" ? { status } : {}),
+    limit: 100,
+  });
+
+  if (selectedVendorId) {
+    return <VendorScorecard vendorId={selectedVendorId} onBack={() => setSelectedVendorId(null)} />;
+  }
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold text-gray-900">Penyedia</h1>
+        <p className="text-gray-600 mt-1">Kinerja penyedia barang dan jasa untuk pemilihan Penunjukan Langsung</p>
+      </div>
+
+      <Tabs defaultValue="penyedia">
+        <TabsList>
+          <TabsTrigger value="penyedia">Daftar Penyedia</TabsTrigger>
+          <TabsTrigger value="daftar-hitam">Daftar Hitam</TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="penyedia" className="space-y-6">
+          <Card className="border-0 shadow-lg">
+            <CardContent className="p-6">
+              <div className="flex flex-col md:flex-row gap-4">
+                <div className="flex-1 relative">
+                  <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-4 h-4" />
+                  <Input
+                    placeholder="Cari nama atau NPWP..."
+                    value={search}
+                    onChange={(e) => setSearch(e.target.value)}
+                    className="pl-10"
+                  />
+                </div>
+                <Select value={status} onValueChange={(value) => setStatus(value as StatusFilter)}>
+                  <SelectTrigger className="md:w-48">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="active">Aktif</SelectItem>
+                    <SelectItem value="inactive">Nonaktif</SelectItem>
+                    <SelectItem value="blacklisted">Blacklist</SelectItem>
+                    <SelectItem value="all">Semua</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </CardContent>
+          </Card>
+
+          <Card className="border-0 shadow">
+            <CardContent className="p-0">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Nama</TableHead>
+                    <TableHead>NPWP</TableHead>
+                    <TableHead>Status UMKM</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead className="text-right">Nilai</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {vendors.map((vendor) => (
+                    <TableRow
+                      key={vendor.id}
+                      className="cursor-pointer"
+                      onClick={() => setSelectedVendorId(vendor.id)}
+                    >
+                      <TableCell className="font-medium">{vendor.nama}</TableCell>
+                      <TableCell>{vendor.npwp || "-"}</TableCell>
+                      <TableCell>{vendor.statusUmkm}</TableCell>
+                      <TableCell>
+                        {vendor.isBlacklisted ? (
+                          <Badge className="bg-red-100 text-red-800">Blacklist</Badge>
+                        ) : vendor.isActive ? (
+                          <Badge className="bg-green-100 text-green-800">Aktif</Badge>
+                        ) : (
+                          <Badge variant="outline">Nonaktif</Badge>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {vendor.rating ? (
+                          <span className="inline-flex items-center gap-1">
+                            <Star className="w-4 h-4 fill-yellow-400 text-yellow-400" />
+                            {vendor.rating.overall.toFixed(2)}
+                            <span className="text-xs text-muted-foreground">({vendor.rating.count})</span>
+                          </span>
+                        ) : (
+                          "-"
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                  {!isLoading && vendors.length === 0 && (
+                    <TableRow>
+                      <TableCell colSpan={5} className="text-center text-muted-foreground">
+                        Penyedia tidak ditemukan.
+                      </TableCell>
+                    </TableRow>
+                  )}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="daftar-hitam">
+          <DaftarHitam />
+        </TabsContent>
+      </Tabs>
+    </div>
+  );
+};
@@ -8,6 +8,8 @@ type Props = {
 const items = [
   { key: 'dashboard', label: 'Dashboard' },
   { key: 'pengadaan', label: 'Pengadaan' },
+  { key: 'penyedia', label: 'Penyedia' },
+  { key: 'anggaran', label: 'Anggaran' },
   { key: 'laporan', label: 'Laporan' },
   { key: 'pengaturan', label: 'Pengaturan' },
   { key: 'user-management', label: 'User Management' },
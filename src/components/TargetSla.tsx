@@ -0,0 +1,295 @@
+import { useState, type FormEvent } from "react";
+import { Pencil, Plus, RefreshCw, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import {
+  useCreateSlaTarget,
+  useDeleteSlaTarget,
+  useRecomputeSla,
+  useSlaTargets,
+  useUpdateSlaTarget,
+} from "@/services/sla";
+import { JENIS_PENGADAAN, SLA_DATE_FIELDS } from "@/lib/sla";
+import type { SlaTarget } from "@/types/sla";
+
+// Select value standing for a target that covers every jenis pengadaan
+const ALL_JENIS = "all";
+
+const EMPTY_FORM = {
+  metodePengadaan: "",
+  jenisPengadaan: ALL_JENIS,
+  hariKerja: "",
+  dari: "tanggalPerintahPengadaan",
+  sampai: "suratPenunjukan",
+  keterangan: "",
+};
+
+const dateFieldLabel = (key: string) => SLA_DATE_FIELDS.find((field) => field.key === key)?.label ?? key;
+
+// SLA targets per procurement method; running packages are flagged against them
+export const TargetSla = () => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const isAdmin = user?.role === "admin";
+  const [showForm, setShowForm] = useState(false);
+  const [form, setForm] = useState(EMPTY_FORM);
+
+  const { data: targets = [], isLoading } = useSlaTargets();
+  const createTarget = useCreateSlaTarget();
+  const updateTarget = useUpdateSlaTarget();
+  const deleteTarget = useDeleteSlaTarget();
+  const recomputeSla = useRecomputeSla();
+
+  const showError = (error: unknown, fallback: string) =>
+    toast({
+      title: "Error!",
+      description: error instanceof Error ? error.message : fallback,
+      variant: "destructive",
+    });
+
+  const handleCreate = async (e: FormEvent) => {
+    e.preventDefault();
+    try {
+      await createTarget.mutateAsync({
+        metodePengadaan: form.metodePengadaan.trim(),
+        jenisPengadaan: form.jenisPengadaan === ALL_JENIS ? null : form.jenisPengadaan,
+        hariKerja: Number(form.hariKerja),
+        dari: form.dari,
+        sampai: form.sampai,
+        ...(form.keterangan.trim() && { keterangan: form.keterangan.trim() }),
+      });
+      toast({ title: "Berhasil!", description: `Target SLA ${form.metodePengadaan.trim()} telah disimpan.` });
+      setShowForm(false);
+      setForm(EMPTY_FORM);
+    } catch (error) {
+      showError(error, "Gagal menyimpan target SLA.");
+    }
+  };
+
+  const handleEdit = async (target: SlaTarget) => {
+    const value = window.prompt(`Target hari kerja ${target.metodePengadaan}:`, String(target.hariKerja));
+    const hariKerja = Number(value);
+    if (!value || !Number.isInteger(hariKerja) || hariKerja < 1 || hariKerja === target.hariKerja) return;
+    try {
+      await updateTarget.mutateAsync({ id: target.id, data: { hariKerja } });
+      toast({ title: "Berhasil!", description: "Target SLA telah diperbarui." });
+    } catch (error) {
+      showError(error, "Gagal memperbarui target SLA.");
+    }
+  };
+
+  const handleDelete = async (target: SlaTarget) => {
+    if (!window.confirm(`Hapus target SLA ${target.metodePengadaan}?`)) return;
+    try {
+      await deleteTarget.mutateAsync(target.id);
+      toast({ title: "Berhasil!", description: "Target SLA telah dihapus." });
+    } catch (error) {
+      showError(error, "Gagal menghapus target SLA.");
+    }
+  };
+
+  const handleRecompute = async () => {
+    try {
+      const { updated } = await recomputeSla.mutateAsync();
+      toast({ title: "Berhasil!", description: `SLA ${updated} paket berjalan telah dihitung ulang.` });
+    } catch (error) {
+      showError(error, "Gagal menghitung ulang SLA.");
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Target SLA</CardTitle>
+        <p className="text-sm text-muted-foreground">
+          Batas hari kerja per metode pengadaan. Target untuk jenis pengadaan tertentu mendahului target untuk
+          semua jenis. Hitung ulang SLA setelah kalender hari libur diubah.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isAdmin && (
+          <div className="flex justify-end gap-2">
+            <Button variant="outline" onClick={handleRecompute} disabled={recomputeSla.isPending}>
+              <RefreshCw className="w-4 h-4 mr-2" />
+              Hitung Ulang SLA
+            </Button>
+            <Button onClick={() => setShowForm(true)}>
+              <Plus className="w-4 h-4 mr-2" />
+              Tambah Target
+            </Button>
+          </div>
+        )}
+
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Metode Pengadaan</TableHead>
+              <TableHead>Jenis</TableHead>
+              <TableHead className="text-right">Hari Kerja</TableHead>
+              <TableHead>Dihitung</TableHead>
+              {isAdmin && <TableHead />}
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {targets.map((target) => (
+              <TableRow key={target.id}>
+                <TableCell className="font-medium">{target.metodePengadaan}</TableCell>
+                <TableCell>{target.jenisPengadaan ?? "Semua"}</TableCell>
+                <TableCell className="text-right">{target.hariKerja}</TableCell>
+                <TableCell className="text-sm text-muted-foreground">
+                  {dateFieldLabel(target.dari)} → {dateFieldLabel(target.sampai)}
+                </TableCell>
+                {isAdmin && (
+                  <TableCell className="text-right whitespace-nowrap">
+                    <Button variant="ghost" size="sm" onClick={() => handleEdit(target)} disabled={updateTarget.isPending}>
+                      <Pencil className="w-4 h-4" />
+                    </Button>
+                    <Button variant="ghost" size="sm" onClick={() => handleDelete(target)} disabled={deleteTarget.isPending}>
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </TableCell>
+                )}
+              </TableRow>
+            ))}
+            {!isLoading && targets.length === 0 && (
+              <TableRow>
+                <TableCell colSpan={isAdmin ? 5 : 4} className="text-center text-muted-foreground">
+                  Belum ada target SLA.
+                </TableCell>
+              </TableRow>
+            )}
+          </TableBody>
+        </Table>
+      </CardContent>
+
+      <Dialog open={showForm} onOpenChange={setShowForm}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Tambah Target SLA</DialogTitle>
+          </DialogHeader>
+          <form onSubmit={handleCreate} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="sla-metode">Metode Pengadaan</Label>
+              <Input
+                id="sla-metode"
+                required
+                maxLength={200}
+                placeholder="mis. Penunjukan Langsung"
+                value={form.metodePengadaan}
+                onChange={(e) => setForm((prev) => ({ ...prev, metodePengadaan: e.target.value }))}
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="sla-jenis">Jenis Pengadaan</Label>
+                <Select
+                  value={form.jenisPengadaan}
+                  onValueChange={(value) => setForm((prev) => ({ ...prev, jenisPengadaan: value }))}
+                >
+                  <SelectTrigger id="sla-jenis">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ALL_JENIS}>Semua</SelectItem>
+                    {JENIS_PENGADAAN.map((item) => (
+                      <SelectItem key={item} value={item}>
+                        {item}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="sla-hari">Hari Kerja</Label>
+                <Input
+                  id="sla-hari"
+                  type="number"
+                  min={1}
+                  step={1}
+                  required
+                  value={form.hariKerja}
+                  onChange={(e) => setForm((prev) => ({ ...prev, hariKerja: e.target.value }))}
+                />
+              </div>
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="sla-dari">Dari</Label>
+                <Select value={form.dari} onValueChange={(value) => setForm((prev) => ({ ...prev, dari: value }))}>
+                  <SelectTrigger id="sla-dari">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {SLA_DATE_FIELDS.map((field) => (
+                      <SelectItem key={field.key} value={field.key}>
+                        {field.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="sla-sampai">Sampai</Label>
+                <Select value={form.sampai} onValueChange={(value) => setForm((prev) => ({ ...prev, sampai: value }))}>
+                  <SelectTrigger id="sla-sampai">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {SLA_DATE_FIELDS.map((field) => (
+                      <SelectItem key={field.key} value={field.key}>
+                        {field.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="sla-keterangan">Keterangan</Label>
+              <Input
+                id="sla-keterangan"
+                maxLength={500}
+                value={form.keterangan}
+                onChange={(e) => setForm((prev) => ({ ...prev, keterangan: e.target.value }))}
+              />
+            </div>
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setShowForm(false)}>
+                Batal
+              </Button>
+              <Button type="submit" disabled={createTarget.isPending || form.dari === form.sampai}>
+                Simpan
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+};
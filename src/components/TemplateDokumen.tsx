@@ -0,0 +1,228 @@
+import { useState, type FormEvent } from "react";
+import { Pencil, Plus, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import {
+  useCreateDocumentTemplate,
+  useDeleteDocumentTemplate,
+  useDocumentTemplates,
+  useUpdateDocumentTemplate,
+} from "@/services/document";
+import type { DocumentTemplate } from "@/types/document";
+
+const EMPTY_FORM = {
+  key: "",
+  nama: "",
+  isi: "",
+  keterangan: "",
+};
+
+// Templates of the PDF documents printed from a pengadaan's detail view
+export const TemplateDokumen = () => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const isAdmin = user?.role === "admin";
+  // Null while adding a template, the template while editing one
+  const [editing, setEditing] = useState<DocumentTemplate | null>(null);
+  const [showForm, setShowForm] = useState(false);
+  const [form, setForm] = useState(EMPTY_FORM);
+
+  const { data: templates = [], isLoading } = useDocumentTemplates();
+  const createTemplate = useCreateDocumentTemplate();
+  const updateTemplate = useUpdateDocumentTemplate();
+  const deleteTemplate = useDeleteDocumentTemplate();
+
+  const showError = (error: unknown, fallback: string) =>
+    toast({
+      title: "Error!",
+      description: error instanceof Error ? error.message : fallback,
+      variant: "destructive",
+    });
+
+  const openForm = (template: DocumentTemplate | null) => {
+    setEditing(template);
+    setForm(
+      template
+        ? { key: template.key, nama: template.nama, isi: template.isi, keterangan: template.keterangan ?? "" }
+        : EMPTY_FORM
+    );
+    setShowForm(true);
+  };
+
+  const handleSave = async (e: FormEvent) => {
+    e.preventDefault();
+    const data = {
+      key: form.key.trim(),
+      nama: form.nama.trim(),
+      isi: form.isi,
+      ...(form.keterangan.trim() && { keterangan: form.keterangan.trim() }),
+    };
+    try {
+      if (editing) {
+        await updateTemplate.mutateAsync({ id: editing.id, data });
+      } else {
+        await createTemplate.mutateAsync(data);
+      }
+      toast({ title: "Berhasil!", description: `Template ${data.nama} telah disimpan.` });
+      setShowForm(false);
+    } catch (error) {
+      showError(error, "Gagal menyimpan template dokumen.");
+    }
+  };
+
+  const handleDelete = async (template: DocumentTemplate) => {
+    if (!window.confirm(`Hapus template ${template.nama}?`)) return;
+    try {
+      await deleteTemplate.mutateAsync(template.id);
+      toast({ title: "Berhasil!", description: "Template dokumen telah dihapus." });
+    } catch (error) {
+      showError(error, "Gagal menghapus template dokumen.");
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Template Dokumen</CardTitle>
+        <p className="text-sm text-muted-foreground">
+          Dokumen PDF yang dapat diunduh dari detail pengadaan, diisi dengan data paket.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isAdmin && (
+          <div className="flex justify-end">
+            <Button onClick={() => openForm(null)}>
+              <Plus className="w-4 h-4 mr-2" />
+              Tambah Template
+            </Button>
+          </div>
+        )}
+
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Nama</TableHead>
+              <TableHead>File</TableHead>
+              <TableHead>Keterangan</TableHead>
+              {isAdmin && <TableHead />}
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {templates.map((template) => (
+              <TableRow key={template.id}>
+                <TableCell className="font-medium">{template.nama}</TableCell>
+                <TableCell className="font-mono text-sm">{template.key}.pdf</TableCell>
+                <TableCell className="text-sm text-muted-foreground">{template.keterangan || "-"}</TableCell>
+                {isAdmin && (
+                  <TableCell className="text-right whitespace-nowrap">
+                    <Button variant="ghost" size="sm" onClick={() => openForm(template)}>
+                      <Pencil className="w-4 h-4" />
+                    </Button>
+                    <Button variant="ghost" size="sm" onClick={() => handleDelete(template)} disabled={deleteTemplate.isPending}>
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </TableCell>
+                )}
+              </TableRow>
+            ))}
+            {!isLoading && templates.length === 0 && (
+              <TableRow>
+                <TableCell colSpan={isAdmin ? 4 : 3} className="text-center text-muted-foreground">
+                  Belum ada template dokumen.
+                </TableCell>
+              </TableRow>
+            )}
+          </TableBody>
+        </Table>
+      </CardContent>
+
+      <Dialog open={showForm} onOpenChange={setShowForm}>
+        <DialogContent className="max-w-3xl">
+          <DialogHeader>
+            <DialogTitle>{editing ? "Ubah Template Dokumen" : "Tambah Template Dokumen"}</DialogTitle>
+          </DialogHeader>
+          <form onSubmit={handleSave} className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="template-nama">Nama</Label>
+                <Input
+                  id="template-nama"
+                  required
+                  maxLength={200}
+                  value={form.nama}
+                  onChange={(e) => setForm((prev) => ({ ...prev, nama: e.target.value }))}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="template-key">Nama File</Label>
+                <Input
+                  id="template-key"
+                  required
+                  maxLength={60}
+                  pattern="[a-z0-9]+(-[a-z0-9]+)*"
+                  placeholder="mis. lembar-ringkasan"
+                  value={form.key}
+                  onChange={(e) => setForm((prev) => ({ ...prev, key: e.target.value.toLowerCase() }))}
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="template-isi">Isi</Label>
+              <Textarea
+                id="template-isi"
+                required
+                rows={16}
+                maxLength={20000}
+                className="font-mono text-sm"
+                value={form.isi}
+                onChange={(e) => setForm((prev) => ({ ...prev, isi: e.target.value }))}
+              />
+              <p className="text-xs text-muted-foreground">
+                {"{{namaField}}"} diisi data paket; nilai tampil dalam rupiah dan tanggal dalam format Indonesia,
+                atau pilih format dengan {"{{namaField|rupiah}}"}, angka, tanggal, kapital. {"{{hariIni}}"} adalah
+                tanggal cetak. Baris "# " judul, "## " subjudul, "Label :: nilai" baris berlabel, "---" garis.
+              </p>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="template-keterangan">Keterangan</Label>
+              <Input
+                id="template-keterangan"
+                maxLength={500}
+                value={form.keterangan}
+                onChange={(e) => setForm((prev) => ({ ...prev, keterangan: e.target.value }))}
+              />
+            </div>
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setShowForm(false)}>
+                Batal
+              </Button>
+              <Button type="submit" disabled={createTemplate.isPending || updateTemplate.isPending}>
+                Simpan
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+};
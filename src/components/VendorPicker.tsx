@@ -0,0 +1,95 @@
+import { useEffect, useState } from "react";
+import { Check, ChevronsUpDown } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import {
+  Command,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+} from "@/components/ui/command";
+import { cn } from "@/lib/utils";
+import { useVendors } from "@/services/vendor";
+import type { Vendor } from "@/types/vendor";
+
+interface VendorPickerProps {
+  id?: string;
+  value: string | null;
+  // Name shown for the current selection, or the free-text penyedia of an unlinked package
+  selectedName: string;
+  onSelect: (vendor: Vendor) => void;
+}
+
+// Searchable picker over active, non-blacklisted vendors
+export const VendorPicker = ({ id, value, selectedName, onSelect }: VendorPickerProps) => {
+  const [open, setOpen] = useState(false);
+  const [search, setSearch] = useState("");
+  const [debouncedSearch, setDebouncedSearch] = useState("");
+
+  useEffect(() => {
+    const timer = setTimeout(() => setDebouncedSearch(search.trim()), 300);
+    return () => clearTimeout(timer);
+  }, [search]);
+
+  const { data: vendors = [], isLoading } = useVendors({
+    search: debouncedSearch,
+    status: "active",
+    limit: 20,
+  });
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button
+          id={id}
+          type="button"
+          variant="outline"
+          role="combobox"
+          aria-expanded={open}
+          className="w-full justify-between font-normal"
+        >
+          <span className={cn("truncate", !selectedName && "text-muted-foreground")}>
+            {selectedName || "Pilih penyedia"}
+          </span>
+          {selectedName && !value && (
+            <Badge variant="outline" className="ml-2 shrink-0">Belum tertaut</Badge>
+          )}
+          <ChevronsUpDown className="ml-2 h-4 w-4 shrink-0 opacity-50" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-[--radix-popover-trigger-width] p-0" align="start">
+        <Command shouldFilter={false}>
+          <CommandInput placeholder="Cari nama atau NPWP..." value={search} onValueChange={setSearch} />
+          <CommandList>
+            <CommandEmpty>{isLoading ? "Memuat..." : "Penyedia tidak ditemukan."}</CommandEmpty>
+            <CommandGroup>
+              {vendors.map((vendor) => (
+                <CommandItem
+                  key={vendor.id}
+                  value={vendor.id}
+                  onSelect={() => {
+                    onSelect(vendor);
+                    setOpen(false);
+                  }}
+                >
+                  <Check className={cn("mr-2 h-4 w-4", value === vendor.id ? "opacity-100" : "opacity-0")} />
+                  <div className="flex flex-col">
+                    <span>{vendor.nama}</span>
+                    <span className="text-xs text-muted-foreground">
+                      {vendor.statusUmkm}
+                      {vendor.npwp ? ` · NPWP ${vendor.npwp}` : ""}
+                      {vendor.rating ? ` · ★ ${vendor.rating.overall.toFixed(1)} (${vendor.rating.count})` : ""}
+                    </span>
+                  </div>
+                </CommandItem>
+              ))}
+            </CommandGroup>
+          </CommandList>
+        </Command>
+      </PopoverContent>
+    </Popover>
+  );
+};
@@ -0,0 +1,141 @@
+import { useEffect, useState } from "react";
+import { Star } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/hooks/use-toast";
+import { cn } from "@/lib/utils";
+import { CONTRACT_STAGE_STATUSES, RATING_CRITERIA } from "@/lib/vendor-rating";
+import { usePengadaanVendorRating, useRatePengadaanVendor } from "@/services/vendor";
+import type { Pengadaan } from "@/types/pengadaan";
+import type { VendorRatingCriterion } from "@/types/vendor";
+
+interface VendorRatingPanelProps {
+  pengadaan: Pengadaan;
+}
+
+const EMPTY_SCORES: Record<VendorRatingCriterion, number> = { timeliness: 0, quality: 0, compliance: 0 };
+
+interface StarInputProps {
+  id: string;
+  value: number;
+  disabled: boolean;
+  onChange: (value: number) => void;
+}
+
+const StarInput = ({ id, value, disabled, onChange }: StarInputProps) => (
+  <div id={id} role="radiogroup" className="flex gap-1">
+    {[1, 2, 3, 4, 5].map((score) => (
+      <button
+        key={score}
+        type="button"
+        role="radio"
+        aria-checked={value === score}
+        aria-label={`${score} bintang`}
+        disabled={disabled}
+        onClick={() => onChange(score)}
+        className="disabled:cursor-default"
+      >
+        <Star
+          className={cn(
+            "h-6 w-6",
+            score <= value ? "fill-yellow-400 text-yellow-400" : "text-muted-foreground"
+          )}
+        />
+      </button>
+    ))}
+  </div>
+);
+
+export const VendorRatingPanel = ({ pengadaan }: VendorRatingPanelProps) => {
+  const { toast } = useToast();
+  const { data: rating, isLoading } = usePengadaanVendorRating(pengadaan.id);
+  const ratePengadaanVendor = useRatePengadaanVendor();
+  const [scores, setScores] = useState(EMPTY_SCORES);
+  const [comment, setComment] = useState("");
+
+  useEffect(() => {
+    if (rating) {
+      setScores({ timeliness: rating.timeliness, quality: rating.quality, compliance: rating.compliance });
+      setComment(rating.comment ?? "");
+    }
+  }, [rating]);
+
+  if (!pengadaan.vendorId) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        Penyedia belum tertaut ke data master penyedia, sehingga belum dapat dinilai.
+      </p>
+    );
+  }
+
+  const canRate = CONTRACT_STAGE_STATUSES.includes(pengadaan.status);
+  const isComplete = RATING_CRITERIA.every(({ key }) => scores[key] > 0);
+
+  const handleSubmit = async () => {
+    try {
+      await ratePengadaanVendor.mutateAsync({
+        pengadaanId: pengadaan.id,
+        scores: { ...scores, ...(comment.trim() ? { comment: comment.trim() } : {}) },
+      });
+      toast({ title: "Berhasil!", description: "Penilaian penyedia telah disimpan." });
+    } catch (error) {
+      toast({
+        title: "Error!",
+        description: error instanceof Error ? error.message : "Gagal menyimpan penilaian.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  if (isLoading) {
+    return <p className="text-sm text-muted-foreground">Memuat penilaian...</p>;
+  }
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h3 className="text-lg font-semibold">Penilaian {pengadaan.penyediaBarangJasa || "Penyedia"}</h3>
+        {!canRate && (
+          <p className="text-sm text-muted-foreground">
+            Penyedia dapat dinilai setelah pengadaan memasuki tahap kontrak (In Progress atau Completed).
+          </p>
+        )}
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+        {RATING_CRITERIA.map(({ key, label, description }) => (
+          <div key={key} className="space-y-2">
+            <Label htmlFor={`rating-${key}`}>{label}</Label>
+            <p className="text-xs text-muted-foreground">{description}</p>
+            <StarInput
+              id={`rating-${key}`}
+              value={scores[key]}
+              disabled={!canRate}
+              onChange={(value) => setScores((current) => ({ ...current, [key]: value }))}
+            />
+          </div>
+        ))}
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="rating-comment">Catatan</Label>
+        <Textarea
+          id="rating-comment"
+          value={comment}
+          maxLength={1000}
+          disabled={!canRate}
+          onChange={(event) => setComment(event.target.value)}
+        />
+      </div>
+
+      {canRate && (
+        <div className="flex justify-end">
+          <Button onClick={handleSubmit} disabled={!isComplete || ratePengadaanVendor.isPending}>
+            {rating ? "Perbarui Penilaian" : "Simpan Penilaian"}
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+};
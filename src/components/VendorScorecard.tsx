@@ -0,0 +1,163 @@
+import { ArrowLeft, Star } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { formatCurrency } from "@/lib/utils";
+import { RATING_CRITERIA } from "@/lib/vendor-rating";
+import { useVendorScorecard } from "@/services/vendor";
+
+interface VendorScorecardProps {
+  vendorId: string;
+  onBack: () => void;
+}
+
+const formatScore = (score: number | null | undefined) => (score ? score.toFixed(2) : "-");
+
+const formatDelay = (days: number | null) => (days === null ? "-" : `${days} hari`);
+
+const formatDate = (value: string) => {
+  if (!value) return "-";
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? value : date.toLocaleDateString("id-ID");
+};
+
+export const VendorScorecard = ({ vendorId, onBack }: VendorScorecardProps) => {
+  const { data: scorecard, isLoading, error } = useVendorScorecard(vendorId);
+
+  if (isLoading) {
+    return <p className="text-sm text-muted-foreground">Memuat scorecard...</p>;
+  }
+
+  if (error || !scorecard) {
+    return (
+      <div className="space-y-4">
+        <Button variant="ghost" onClick={onBack}>
+          <ArrowLeft className="w-4 h-4 mr-2" />
+          Kembali
+        </Button>
+        <p className="text-sm text-red-600">{error?.message ?? "Scorecard tidak ditemukan."}</p>
+      </div>
+    );
+  }
+
+  const { vendor, summary, packages } = scorecard;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center gap-4">
+        <Button variant="ghost" size="sm" onClick={onBack}>
+          <ArrowLeft className="w-4 h-4" />
+        </Button>
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">{vendor.nama}</h1>
+          <p className="text-gray-600 mt-1">
+            {vendor.statusUmkm}
+            {vendor.npwp ? ` · NPWP ${vendor.npwp}` : ""}
+          </p>
+        </div>
+        {vendor.isBlacklisted && <Badge className="bg-red-100 text-red-800">Blacklist</Badge>}
+        {!vendor.isActive && <Badge variant="outline">Nonaktif</Badge>}
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+        <Card className="border-0 shadow">
+          <CardContent className="p-6">
+            <p className="text-sm text-gray-600">Pengadaan Dimenangkan</p>
+            <p className="text-2xl font-bold">{summary.packageCount}</p>
+          </CardContent>
+        </Card>
+        <Card className="border-0 shadow">
+          <CardContent className="p-6">
+            <p className="text-sm text-gray-600">Total Nilai Kontrak</p>
+            <p className="text-2xl font-bold">{formatCurrency(summary.totalContractValue)}</p>
+          </CardContent>
+        </Card>
+        <Card className="border-0 shadow">
+          <CardContent className="p-6">
+            <p className="text-sm text-gray-600">Rata-rata Kontrak s.d. Selesai</p>
+            <p className="text-2xl font-bold">{formatDelay(summary.averageDelayDays)}</p>
+          </CardContent>
+        </Card>
+        <Card className="border-0 shadow">
+          <CardContent className="p-6">
+            <p className="text-sm text-gray-600">Nilai Keseluruhan</p>
+            <p className="text-2xl font-bold flex items-center gap-2">
+              <Star className="w-5 h-5 fill-yellow-400 text-yellow-400" />
+              {formatScore(summary.ratings?.overall)}
+            </p>
+            <p className="text-xs text-gray-500">{summary.ratedCount} penilaian</p>
+          </CardContent>
+        </Card>
+      </div>
+
+      {summary.ratings && (
+        <Card className="border-0 shadow">
+          <CardHeader>
+            <CardTitle className="text-lg">Rata-rata Penilaian</CardTitle>
+          </CardHeader>
+          <CardContent className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            {RATING_CRITERIA.map(({ key, label }) => (
+              <div key={key}>
+                <p className="text-sm text-gray-600">{label}</p>
+                <p className="text-xl font-semibold">{formatScore(summary.ratings?.[key])}</p>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+
+      <Card className="border-0 shadow">
+        <CardHeader>
+          <CardTitle className="text-lg">Riwayat Pengadaan</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {packages.length === 0 ? (
+            <p className="text-sm text-muted-foreground">Belum ada pengadaan yang tertaut ke penyedia ini.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Nama Paket</TableHead>
+                  <TableHead>Metode</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Tanggal Kontrak</TableHead>
+                  <TableHead>Bulan Selesai</TableHead>
+                  <TableHead className="text-right">Nilai Kontrak</TableHead>
+                  <TableHead className="text-right">Kontrak s.d. Selesai</TableHead>
+                  <TableHead className="text-right">Nilai</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {packages.map((item) => (
+                  <TableRow key={item.id}>
+                    <TableCell>
+                      <div className="font-medium">{item.namaPaket || "-"}</div>
+                      <div className="text-xs text-muted-foreground">{item.kontrakNomor || item.id}</div>
+                    </TableCell>
+                    <TableCell>{item.metodePengadaan || "-"}</TableCell>
+                    <TableCell>
+                      <Badge variant="outline">{item.status}</Badge>
+                    </TableCell>
+                    <TableCell>{formatDate(item.kontrakTanggal)}</TableCell>
+                    <TableCell>{item.bulanSelesai || "-"}</TableCell>
+                    <TableCell className="text-right">{formatCurrency(item.contractValue)}</TableCell>
+                    <TableCell className="text-right">{formatDelay(item.delayDays)}</TableCell>
+                    <TableCell className="text-right">{formatScore(item.rating?.average)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
@@ -1,6 +1,7 @@
 import React, { createContext, useState, useEffect, ReactNode } from 'react';
 import { toast } from '@/hooks/use-toast';
 import { apiClient } from '@/services/api';
+import type { ApproverRole } from '@/types/pengadaan';
 
 export interface User {
   id: string;
@@ -8,6 +9,7 @@ export interface User {
   email: string;
   role: 'user' | 'admin';
   status: 'active' | 'inactive';
+  approverRoles?: ApproverRole[];
   createdAt: string;
   updatedAt: string;
 }
@@ -0,0 +1,8 @@
+// User units (pengguna barang/jasa) that packages and budgets are charged to
+export const PENGGUNA_BARANG_JASA = [
+  "ACCT", "AFM", "BD", "CGP", "CORCOM", "CORFIN", "CSR", "CSS", "CST", "ET", "FCMA", "GCR", "GLS", "GLSM", "HCM",
+  "HSSE", "ICT", "IR", "IT-BP", "IT-DP", "IT-TP", "LCC", "OMM", "PCCM", "PMO", "PRC", "RM", "SCM", "SOR I",
+  "SOR II", "SOR III", "SOR III-ROM", "SOR II-ROM", "SOR IV",
+];
+
+export const JENIS_ANGGARAN = ["ABO", "ABI"] as const;
@@ -0,0 +1,8 @@
+import type { CurrencyCode } from "@/types/exchange-rate";
+
+// Currencies offered for HPS and award values; everything else converts to rupiah
+export const CURRENCIES: CurrencyCode[] = ["IDR", "USD", "EUR", "SGD"];
+
+export const FOREIGN_CURRENCIES = CURRENCIES.filter(
+  (currency): currency is Exclude<CurrencyCode, "IDR"> => currency !== "IDR"
+);
@@ -0,0 +1,150 @@
+import type { Pengadaan, PengadaanHistoryAction, PengadaanHistoryEntry } from "@/types/pengadaan";
+
+export interface PengadaanFieldGroup {
+  title: string;
+  fields: { key: keyof Pengadaan; label: string }[];
+}
+
+// The four form sections, in form order; legacy fields stay under Data Umum
+export const PENGADAAN_FIELD_GROUPS: PengadaanFieldGroup[] = [
+  {
+    title: "Data Umum",
+    fields: [
+      { key: "status", label: "Status Alur" },
+      { key: "sinergi", label: "Sinergi/ Non Sinergi" },
+      { key: "namaPaket", label: "Nama Paket Pengadaan" },
+      { key: "lapPtm", label: "Lap PTM" },
+      { key: "sla", label: "SLA/ Non SLA" },
+      { key: "tahunSla", label: "Tahun SLA" },
+      { key: "costSaving", label: "CostSaving/ Non CostSaving" },
+      { key: "tahunCostSaving", label: "Tahun CostSaving" },
+      { key: "barangJasa", label: "Barang/Jasa" },
+      { key: "nama", label: "Nama" },
+      { key: "kategori", label: "Kategori" },
+      { key: "deskripsi", label: "Deskripsi" },
+      { key: "vendor", label: "Vendor" },
+      { key: "nilai", label: "Nilai" },
+      { key: "tanggal", label: "Tanggal" },
+      { key: "deadline", label: "Deadline" },
+    ],
+  },
+  {
+    title: "Persiapan",
+    fields: [
+      { key: "penggunaBarangJasa", label: "Pengguna Barang/ Jasa" },
+      { key: "jenisPaket", label: "Jenis Paket Pengadaan" },
+      { key: "jenisPengadaan", label: "Jenis Pengadaan" },
+      { key: "baseline", label: "Baseline" },
+      { key: "noPpl", label: "No PPL" },
+      { key: "metodePengadaan", label: "Metode Pengadaan" },
+      { key: "tahunAnggaran", label: "Tahun Anggaran" },
+      { key: "jenisAnggaran", label: "Jenis Anggaran" },
+      { key: "jenisKontrak", label: "Jenis Kontrak" },
+      { key: "nilaiAnggaranIdr", label: "Nilai Anggaran (IDR)" },
+      { key: "nilaiAnggaranUsd", label: "Nilai Anggaran (USD)" },
+      { key: "nilaiHpsCurrency", label: "Mata Uang HPS" },
+      { key: "nilaiHpsAmount", label: "Nilai HPS" },
+      { key: "nilaiHpsEqRupiah", label: "Nilai HPS Eq. Rupiah" },
+      { key: "nilaiHpsPortiTahun", label: "Nilai HPS Porsi Tahun Berjalan" },
+      { key: "bulanPermintaan", label: "Bulan Permintaan" },
+      { key: "tanggalPermintaan", label: "Tanggal Permintaan" },
+      { key: "tanggalPermintaanDiterima", label: "Tanggal Permintaan Diterima" },
+      { key: "tanggalRapatPersiapan", label: "Tanggal Rapat Persiapan" },
+      { key: "tanggalRevisiPermintaan", label: "Tanggal Revisi Permintaan" },
+      { key: "lamaRevisiPermintaan", label: "Lama Revisi Permintaan (Hari Kerja)" },
+      { key: "noPurchaseRequisition", label: "No Purchase Requisition" },
+      { key: "tanggalPurchaseRequisition", label: "Tanggal Purchase Requisition MySAP" },
+      { key: "jenisMySap", label: "Jenis MySAP" },
+      { key: "tanggalPerintahPengadaan", label: "Tanggal Perintah Pengadaan" },
+      { key: "lamaProsesPersiapan", label: "Lama Proses Persiapan (Hari Kerja)" },
+      { key: "kategoriRisiko", label: "Kategori Risiko" },
+      { key: "keteranganPersiapan", label: "Keterangan Persiapan" },
+      { key: "picTimPpsm", label: "PIC Tim PPSM" },
+    ],
+  },
+  {
+    title: "Pengadaan",
+    fields: [
+      { key: "suratPenunjukan", label: "Surat Penunjukan Pelaksana Pekerjaan" },
+      { key: "lamaProsesPengadaan", label: "Lama Proses Pengadaan (Hari Kerja)" },
+      { key: "jangkaWaktuPengerjaan", label: "Jangka Waktu Pengerjaan" },
+      { key: "nilaiPenunjukanCurrency", label: "Mata Uang Penunjukan" },
+      { key: "nilaiPenunjukanAmount", label: "Nilai Penunjukan" },
+      { key: "nilaiPenunjukanEqRupiah", label: "Nilai Penunjukan Eq. Rupiah" },
+      { key: "statusPengadaan", label: "Status Pengadaan" },
+      { key: "bulanSelesai", label: "Bulan Selesai" },
+      { key: "keteranganPengadaan", label: "Keterangan Pengadaan" },
+    ],
+  },
+  {
+    title: "Kontrak",
+    fields: [
+      { key: "costSavingRp", label: "Cost Saving (Rp)" },
+      { key: "nilaiKontrakRupiah", label: "Nilai Kontrak (Rupiah)" },
+      { key: "nilaiKontrakUsd", label: "Nilai Kontrak (USD)" },
+      { key: "nilaiKontrakPortiTahun", label: "Nilai Kontrak Porsi Tahun Berjalan" },
+      { key: "penyediaBarangJasa", label: "Penyedia Barang/ Jasa/ Konsultan" },
+      { key: "statusPenyedia", label: "Status Penyedia" },
+      { key: "kontrakNomor", label: "Nomor Kontrak" },
+      { key: "kontrakTanggal", label: "Tanggal Kontrak" },
+    ],
+  },
+];
+
+const FIELD_LABELS: Record<string, string> = Object.fromEntries(
+  PENGADAAN_FIELD_GROUPS.flatMap((group) => group.fields.map((field) => [field.key, field.label]))
+);
+
+export const getFieldLabel = (key: string) => FIELD_LABELS[key] ?? key;
+
+export const HISTORY_ACTION_LABELS: Record<PengadaanHistoryAction, string> = {
+  created: "Dibuat",
+  updated: "Diubah",
+  submitted: "Diajukan",
+  approved: "Disetujui",
+  rejected: "Ditolak",
+  transitioned: "Status diubah",
+  restored: "Dipulihkan",
+  deleted: "Dihapus",
+  undeleted: "Dikembalikan",
+  blacklist_override: "Override daftar hitam",
+};
+
+export type PengadaanSnapshot = Record<string, unknown>;
+
+export interface PengadaanRevision {
+  index: number;
+  entry?: PengadaanHistoryEntry;
+  snapshot: PengadaanSnapshot;
+}
+
+/**
+ * Rebuild what the record looked like after every history entry by walking the
+ * diffs backwards from the current state. Revision 0 is the state before the first entry.
+ */
+export const buildRevisions = (
+  current: Pengadaan,
+  history: PengadaanHistoryEntry[]
+): PengadaanRevision[] => {
+  let snapshot: PengadaanSnapshot = { ...current };
+  const revisions: PengadaanRevision[] = [];
+
+  for (let i = history.length - 1; i >= 0; i--) {
+    const entry = history[i];
+    revisions.unshift({ index: i + 1, entry, snapshot });
+    snapshot = { ...snapshot };
+    for (const [field, change] of Object.entries(entry.changes ?? {})) {
+      if (field in FIELD_LABELS) {
+        snapshot[field] = change.from;
+      }
+    }
+  }
+
+  revisions.unshift({ index: 0, snapshot });
+  return revisions;
+};
+
+export const formatFieldValue = (value: unknown) => {
+  if (value === null || value === undefined || value === "") return "-";
+  return String(value);
+};
@@ -0,0 +1,29 @@
+import type { SlaStatus } from "@/types/pengadaan";
+
+export const SLA_STATUS_LABELS: Record<SlaStatus, string> = {
+  "On Track": "Sesuai Jadwal",
+  "At Risk": "Berisiko",
+  Breached: "Melewati SLA",
+  Met: "Tercapai",
+};
+
+export const SLA_STATUS_COLORS: Record<SlaStatus, string> = {
+  "On Track": "bg-blue-100 text-blue-800",
+  "At Risk": "bg-orange-100 text-orange-800",
+  Breached: "bg-red-100 text-red-800",
+  Met: "bg-green-100 text-green-800",
+};
+
+// Process dates an SLA can run between, in form order
+export const SLA_DATE_FIELDS: { key: string; label: string }[] = [
+  { key: "tanggalPermintaan", label: "Tanggal Permintaan" },
+  { key: "tanggalPermintaanDiterima", label: "Tanggal Permintaan Diterima" },
+  { key: "tanggalRapatPersiapan", label: "Tanggal Rapat Persiapan" },
+  { key: "tanggalRevisiPermintaan", label: "Tanggal Revisi Permintaan" },
+  { key: "tanggalPurchaseRequisition", label: "Tanggal Purchase Requisition MySAP" },
+  { key: "tanggalPerintahPengadaan", label: "Tanggal Perintah Pengadaan" },
+  { key: "suratPenunjukan", label: "Surat Penunjukan Pelaksana Pekerjaan" },
+  { key: "kontrakTanggal", label: "Tanggal Kontrak" },
+];
+
+export const JENIS_PENGADAAN = ["Barang", "Jasa Lainnya", "Jasa Konstruksi", "Jasa Konsultasi"];
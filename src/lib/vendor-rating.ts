@@ -0,0 +1,10 @@
+import type { VendorRatingCriterion } from "@/types/vendor";
+
+export const RATING_CRITERIA: { key: VendorRatingCriterion; label: string; description: string }[] = [
+  { key: "timeliness", label: "Ketepatan Waktu", description: "Penyelesaian pekerjaan sesuai jadwal kontrak" },
+  { key: "quality", label: "Kualitas", description: "Mutu barang/jasa yang diserahkan" },
+  { key: "compliance", label: "Kepatuhan", description: "Kepatuhan terhadap ketentuan kontrak dan administrasi" },
+];
+
+// Statuses at which the contract is signed and the vendor can be rated
+export const CONTRACT_STAGE_STATUSES = ["In Progress", "Completed"];
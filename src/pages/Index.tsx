@@ -3,6 +3,8 @@ import { useState } from "react";
 import { Sidebar } from "@/components/Sidebar";
 import { Dashboard } from "@/components/Dashboard";
 import { Pengadaan } from "@/components/Pengadaan";
+import { Penyedia } from "@/components/Penyedia";
+import { Anggaran } from "@/components/Anggaran";
 import { Laporan } from "@/components/Laporan";
 import { Pengaturan } from "@/components/Pengaturan";
 import { UserManagement } from "@/components/admin/UserManagement";
@@ -16,6 +18,10 @@ const Index = () => {
         return <Dashboard />;
       case "pengadaan":
         return <Pengadaan />;
+      case "penyedia":
+        return <Penyedia />;
+      case "anggaran":
+        return <Anggaran />;
       case "laporan":
         return <Laporan />;
       case "pengaturan":
@@ -1,6 +1,14 @@
 // Shared API client for all services
 // Handles base URL, JSON headers, auth token injection, and error parsing
 
+const parseJson = async (response: Response): Promise<unknown> => {
+  try {
+    return await response.json();
+  } catch {
+    return {} as unknown;
+  }
+};
+
 export class ApiClient {
   private baseUrl: string;
 
@@ -17,7 +25,8 @@ export class ApiClient {
 
   // Rich error type is defined below as a standalone export
 
-  private async request<T>(endpoint: string, options: RequestInit = {}): Promise<T> {
+  // Send a request and throw ApiError unless it succeeded; the body is left to the caller
+  private async send(endpoint: string, options: RequestInit = {}): Promise<Response> {
     const url = this.joinUrl(this.baseUrl, endpoint);
     const token = typeof window !== 'undefined' ? localStorage.getItem('authToken') : null;
 
@@ -54,16 +63,8 @@ export class ApiClient {
       );
     }
 
-    const parseJson = async () => {
-      try {
-        return await response.json();
-      } catch {
-        return {} as unknown;
-      }
-    };
-
     if (!response.ok) {
-      const errorData: any = await parseJson();
+      const errorData: any = await parseJson(response);
       const message =
         (errorData && (errorData.message || errorData.error)) ||
         response.statusText ||
@@ -72,13 +73,26 @@ export class ApiClient {
       throw new ApiError(message, response.status, code, errorData);
     }
 
-    return (await parseJson()) as T;
+    return response;
+  }
+
+  private async request<T>(endpoint: string, options: RequestInit = {}): Promise<T> {
+    const response = await this.send(endpoint, options);
+    return (await parseJson(response)) as T;
   }
 
   get<T>(endpoint: string): Promise<T> {
     return this.request<T>(endpoint, { method: 'GET' });
   }
 
+  // File download: the body as a Blob with the filename from Content-Disposition
+  async getBlob(endpoint: string): Promise<{ blob: Blob; filename: string | null }> {
+    const response = await this.send(endpoint, { method: 'GET' });
+    const disposition = response.headers.get('Content-Disposition') ?? '';
+    const filename = /filename="?([^";]+)"?/.exec(disposition)?.[1] ?? null;
+    return { blob: await response.blob(), filename };
+  }
+
   post<T>(endpoint: string, body?: unknown): Promise<T> {
     return this.request<T>(endpoint, {
       method: 'POST',
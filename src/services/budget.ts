@@ -0,0 +1,125 @@
+import { useQuery, useMutation, useQueryClient, keepPreviousData } from "@tanstack/react-query";
+import type {
+  Budget,
+  CreateBudgetDTO,
+  UpdateBudgetDTO,
+  BudgetQueryParams,
+  BudgetAbsorption,
+  BudgetCheckParams,
+  BudgetWarning,
+} from '@/types/budget';
+import { apiClient } from '@/services/api';
+
+interface ApiResponse<T> {
+  success: boolean;
+  data: T;
+  message?: string;
+}
+
+interface PaginatedResponse<T> {
+  success: boolean;
+  data: T[];
+  pagination: {
+    page: number;
+    limit: number;
+    total: number;
+    totalPages: number;
+  };
+  message?: string;
+}
+
+const toQueryString = (params: BudgetQueryParams | BudgetCheckParams): string => {
+  const query = new URLSearchParams();
+  for (const [key, value] of Object.entries(params)) {
+    if (value !== undefined && value !== '') {
+      query.set(key, String(value));
+    }
+  }
+  const text = query.toString();
+  return text ? `?${text}` : '';
+};
+
+// API Service Functions
+const budgetService = {
+  async getAll(params: BudgetQueryParams = {}): Promise<Budget[]> {
+    const response = await apiClient.get<PaginatedResponse<Budget>>(`/budgets${toQueryString(params)}`);
+    return response.data;
+  },
+
+  async create(data: CreateBudgetDTO): Promise<Budget> {
+    const response = await apiClient.post<ApiResponse<Budget>>('/budgets', data);
+    return response.data;
+  },
+
+  async update(id: string, data: UpdateBudgetDTO): Promise<Budget> {
+    const response = await apiClient.put<ApiResponse<Budget>>(`/budgets/${id}`, data);
+    return response.data;
+  },
+
+  async delete(id: string): Promise<void> {
+    await apiClient.delete<ApiResponse<void>>(`/budgets/${id}`);
+  },
+
+  async getAbsorption(params: Omit<BudgetQueryParams, 'page' | 'limit'> = {}): Promise<BudgetAbsorption> {
+    const response = await apiClient.get<ApiResponse<BudgetAbsorption>>(`/budgets/absorption${toQueryString(params)}`);
+    return response.data;
+  },
+
+  async check(params: BudgetCheckParams): Promise<BudgetWarning | null> {
+    const response = await apiClient.get<ApiResponse<BudgetWarning | null>>(`/budgets/check${toQueryString(params)}`);
+    return response.data;
+  },
+};
+
+// React Query Hooks
+export const useBudgets = (params: BudgetQueryParams = {}) => {
+  return useQuery<Budget[], Error>({
+    queryKey: ["budgets", params],
+    queryFn: () => budgetService.getAll(params),
+    placeholderData: keepPreviousData,
+  });
+};
+
+export const useBudgetAbsorption = (params: Omit<BudgetQueryParams, 'page' | 'limit'> = {}) => {
+  return useQuery<BudgetAbsorption, Error>({
+    queryKey: ["budgets", "absorption", params],
+    queryFn: () => budgetService.getAbsorption(params),
+    placeholderData: keepPreviousData,
+  });
+};
+
+export const useCreateBudget = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation<Budget, Error, CreateBudgetDTO>({
+    mutationFn: budgetService.create,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["budgets"] });
+    },
+  });
+};
+
+export const useUpdateBudget = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation<Budget, Error, { id: string; data: UpdateBudgetDTO }>({
+    mutationFn: ({ id, data }) => budgetService.update(id, data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["budgets"] });
+    },
+  });
+};
+
+export const useDeleteBudget = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation<void, Error, string>({
+    mutationFn: budgetService.delete,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["budgets"] });
+    },
+  });
+};
+
+// Export the service for direct use if needed
+export { budgetService };
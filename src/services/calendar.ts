@@ -0,0 +1,135 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import type {
+  AddWorkingDaysResult,
+  CreateHolidayDTO,
+  Holiday,
+  HolidayQueryParams,
+  UpdateHolidayDTO,
+  WorkingDaysResult,
+} from '@/types/calendar';
+import { apiClient } from '@/services/api';
+
+interface ApiResponse<T> {
+  success: boolean;
+  data: T;
+  message?: string;
+}
+
+const toQueryString = (params: object): string => {
+  const query = new URLSearchParams();
+  for (const [key, value] of Object.entries(params)) {
+    if (value !== undefined && value !== '') {
+      query.set(key, String(value));
+    }
+  }
+  const text = query.toString();
+  return text ? `?${text}` : '';
+};
+
+// API Service Functions
+const calendarService = {
+  async getHolidays(params: HolidayQueryParams = {}): Promise<Holiday[]> {
+    const response = await apiClient.get<ApiResponse<Holiday[]>>(`/calendar/holidays${toQueryString(params)}`);
+    return response.data;
+  },
+
+  async getWorkingDays(from: string, to: string): Promise<WorkingDaysResult> {
+    const response = await apiClient.get<ApiResponse<WorkingDaysResult>>(
+      `/calendar/working-days${toQueryString({ from, to })}`
+    );
+    return response.data;
+  },
+
+  async addWorkingDays(from: string, days: number): Promise<AddWorkingDaysResult> {
+    const response = await apiClient.get<ApiResponse<AddWorkingDaysResult>>(
+      `/calendar/add-working-days${toQueryString({ from, days })}`
+    );
+    return response.data;
+  },
+
+  async create(data: CreateHolidayDTO): Promise<Holiday> {
+    const response = await apiClient.post<ApiResponse<Holiday>>('/calendar/holidays', data);
+    return response.data;
+  },
+
+  async update(id: string, data: UpdateHolidayDTO): Promise<Holiday> {
+    const response = await apiClient.put<ApiResponse<Holiday>>(`/calendar/holidays/${id}`, data);
+    return response.data;
+  },
+
+  async delete(id: string): Promise<void> {
+    await apiClient.delete<ApiResponse<void>>(`/calendar/holidays/${id}`);
+  },
+
+  // Loads the bundled holidays of a year that are not stored yet
+  async seed(tahun?: number): Promise<{ added: number }> {
+    const response = await apiClient.post<ApiResponse<{ added: number }>>(
+      '/calendar/holidays/seed',
+      tahun === undefined ? {} : { tahun }
+    );
+    return response.data;
+  },
+};
+
+// React Query Hooks
+export const useHolidays = (params: HolidayQueryParams = {}) => {
+  return useQuery<Holiday[], Error>({
+    queryKey: ["holidays", params],
+    queryFn: () => calendarService.getHolidays(params),
+  });
+};
+
+export const useWorkingDays = (from?: string, to?: string) => {
+  return useQuery<WorkingDaysResult, Error>({
+    queryKey: ["holidays", "working-days", from, to],
+    queryFn: () => calendarService.getWorkingDays(from as string, to as string),
+    enabled: !!from && !!to,
+  });
+};
+
+export const useCreateHoliday = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation<Holiday, Error, CreateHolidayDTO>({
+    mutationFn: calendarService.create,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["holidays"] });
+    },
+  });
+};
+
+export const useUpdateHoliday = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation<Holiday, Error, { id: string; data: UpdateHolidayDTO }>({
+    mutationFn: ({ id, data }) => calendarService.update(id, data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["holidays"] });
+    },
+  });
+};
+
+export const useDeleteHoliday = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation<void, Error, string>({
+    mutationFn: calendarService.delete,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["holidays"] });
+    },
+  });
+};
+
+export const useSeedHolidays = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation<{ added: number }, Error, number | undefined>({
+    mutationFn: calendarService.seed,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["holidays"] });
+    },
+  });
+};
+
+// Export the service for direct use if needed
+export { calendarService };
@@ -0,0 +1,86 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import type { CreateDocumentTemplateDTO, DocumentTemplate, UpdateDocumentTemplateDTO } from '@/types/document';
+import { apiClient } from '@/services/api';
+
+interface ApiResponse<T> {
+  success: boolean;
+  data: T;
+  message?: string;
+}
+
+// API Service Functions
+const documentService = {
+  async getTemplates(): Promise<DocumentTemplate[]> {
+    const response = await apiClient.get<ApiResponse<DocumentTemplate[]>>('/document-templates');
+    return response.data;
+  },
+
+  async create(data: CreateDocumentTemplateDTO): Promise<DocumentTemplate> {
+    const response = await apiClient.post<ApiResponse<DocumentTemplate>>('/document-templates', data);
+    return response.data;
+  },
+
+  async update(id: string, data: UpdateDocumentTemplateDTO): Promise<DocumentTemplate> {
+    const response = await apiClient.put<ApiResponse<DocumentTemplate>>(`/document-templates/${id}`, data);
+    return response.data;
+  },
+
+  async delete(id: string): Promise<void> {
+    await apiClient.delete<ApiResponse<void>>(`/document-templates/${id}`);
+  },
+
+  // Saves the PDF of a pengadaan filled from a template through a temporary link
+  async download(pengadaanId: string, key: string): Promise<void> {
+    const { blob, filename } = await apiClient.getBlob(`/pengadaan/${pengadaanId}/documents/${key}.pdf`);
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename ?? `${key}_${pengadaanId}.pdf`;
+    link.click();
+    URL.revokeObjectURL(url);
+  },
+};
+
+// React Query Hooks
+export const useDocumentTemplates = () => {
+  return useQuery<DocumentTemplate[], Error>({
+    queryKey: ["document-templates"],
+    queryFn: documentService.getTemplates,
+  });
+};
+
+export const useCreateDocumentTemplate = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation<DocumentTemplate, Error, CreateDocumentTemplateDTO>({
+    mutationFn: documentService.create,
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ["document-templates"] }),
+  });
+};
+
+export const useUpdateDocumentTemplate = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation<DocumentTemplate, Error, { id: string; data: UpdateDocumentTemplateDTO }>({
+    mutationFn: ({ id, data }) => documentService.update(id, data),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ["document-templates"] }),
+  });
+};
+
+export const useDeleteDocumentTemplate = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation<void, Error, string>({
+    mutationFn: documentService.delete,
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ["document-templates"] }),
+  });
+};
+
+export const useDownloadDocument = () => {
+  return useMutation<void, Error, { pengadaanId: string; key: string }>({
+    mutationFn: ({ pengadaanId, key }) => documentService.download(pengadaanId, key),
+  });
+};
+
+// Export the service for direct use if needed
+export { documentService };
@@ -0,0 +1,124 @@
+import { useQuery, useMutation, useQueryClient, keepPreviousData } from "@tanstack/react-query";
+import type {
+  AppliedExchangeRate,
+  CreateExchangeRateDTO,
+  CurrencyCode,
+  ExchangeRate,
+  ExchangeRateQueryParams,
+  UpdateExchangeRateDTO,
+} from '@/types/exchange-rate';
+import { apiClient } from '@/services/api';
+
+interface ApiResponse<T> {
+  success: boolean;
+  data: T;
+  message?: string;
+}
+
+interface PaginatedResponse<T> {
+  success: boolean;
+  data: T[];
+  pagination: {
+    page: number;
+    limit: number;
+    total: number;
+    totalPages: number;
+  };
+  message?: string;
+}
+
+const toQueryString = (params: object): string => {
+  const query = new URLSearchParams();
+  for (const [key, value] of Object.entries(params)) {
+    if (value !== undefined && value !== '') {
+      query.set(key, String(value));
+    }
+  }
+  const text = query.toString();
+  return text ? `?${text}` : '';
+};
+
+// API Service Functions
+const exchangeRateService = {
+  async getAll(params: ExchangeRateQueryParams = {}): Promise<ExchangeRate[]> {
+    const response = await apiClient.get<PaginatedResponse<ExchangeRate>>(`/exchange-rates${toQueryString(params)}`);
+    return response.data;
+  },
+
+  async getEffective(currency: CurrencyCode, date?: string): Promise<AppliedExchangeRate> {
+    const response = await apiClient.get<ApiResponse<AppliedExchangeRate>>(
+      `/exchange-rates/effective${toQueryString({ currency, date })}`
+    );
+    return response.data;
+  },
+
+  async create(data: CreateExchangeRateDTO): Promise<ExchangeRate> {
+    const response = await apiClient.post<ApiResponse<ExchangeRate>>('/exchange-rates', data);
+    return response.data;
+  },
+
+  async update(id: string, data: UpdateExchangeRateDTO): Promise<ExchangeRate> {
+    const response = await apiClient.put<ApiResponse<ExchangeRate>>(`/exchange-rates/${id}`, data);
+    return response.data;
+  },
+
+  async delete(id: string): Promise<void> {
+    await apiClient.delete<ApiResponse<void>>(`/exchange-rates/${id}`);
+  },
+};
+
+// React Query Hooks
+export const useExchangeRates = (params: ExchangeRateQueryParams = {}) => {
+  return useQuery<ExchangeRate[], Error>({
+    queryKey: ["exchange-rates", params],
+    queryFn: () => exchangeRateService.getAll(params),
+    placeholderData: keepPreviousData,
+  });
+};
+
+// Rate in force on `date` (today when empty); IDR needs no lookup
+export const useEffectiveExchangeRate = (currency: string, date?: string) => {
+  return useQuery<AppliedExchangeRate, Error>({
+    queryKey: ["exchange-rates", "effective", currency, date || "today"],
+    queryFn: () => exchangeRateService.getEffective(currency as CurrencyCode, date || undefined),
+    enabled: !!currency && currency !== "IDR",
+    retry: false,
+    staleTime: 5 * 60 * 1000,
+  });
+};
+
+export const useCreateExchangeRate = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation<ExchangeRate, Error, CreateExchangeRateDTO>({
+    mutationFn: exchangeRateService.create,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["exchange-rates"] });
+    },
+  });
+};
+
+export const useUpdateExchangeRate = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation<ExchangeRate, Error, { id: string; data: UpdateExchangeRateDTO }>({
+    mutationFn: ({ id, data }) => exchangeRateService.update(id, data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["exchange-rates"] });
+    },
+  });
+};
+
+export const useDeleteExchangeRate = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation<void, Error, string>({
+    mutationFn: exchangeRateService.delete,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["exchange-rates"] });
+    },
+  });
+};
+
+// Export the service for direct use if needed
+export { exchangeRateService };
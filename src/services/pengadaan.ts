@@ -1,5 +1,5 @@
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
-import type { Pengadaan, CreatePengadaanDTO, UpdatePengadaanDTO, PaginatedPengadaanResponse, PengadaanStats } from '@/types/pengadaan';
+import type { Pengadaan, CreatePengadaanDTO, UpdatePengadaanDTO, PaginatedPengadaanResponse, PengadaanQueryParams, PengadaanStats, PengadaanStatsFilter, PengadaanActivityEntry, PengadaanHistoryEntry } from '@/types/pengadaan';
 import { apiClient } from '@/services/api';
 
 // API Response Types
@@ -23,10 +23,22 @@ interface PaginatedResponse<T> {
 
 // Use Pengadaan type from '@/types/pengadaan' to avoid duplicate interface conflicts
 
+// Query string of the set parameters, with its leading "?"
+const toQueryString = (params: object): string => {
+  const query = new URLSearchParams();
+  for (const [key, value] of Object.entries(params)) {
+    if (value !== undefined && value !== '') {
+      query.set(key, String(value));
+    }
+  }
+  const text = query.toString();
+  return text ? `?${text}` : '';
+};
+
 // API Service Functions
 const pengadaanService = {
-  async getAll(): Promise<Pengadaan[]> {
-    const response = await apiClient.get<PaginatedResponse<Pengadaan>>('/pengadaan');
+  async getAll(params: PengadaanQueryParams = {}): Promise<Pengadaan[]> {
+    const response = await apiClient.get<PaginatedResponse<Pengadaan>>(`/pengadaan${toQueryString(params)}`);
     return response.data;
   },
 
@@ -54,18 +66,56 @@ const pengadaanService = {
     return response.data;
   },
 
-  async getStats(): Promise<PengadaanStats> {
-    const response = await apiClient.get<ApiResponse<PengadaanStats>>('/pengadaan/stats');
+  async getStats(filter: PengadaanStatsFilter = {}): Promise<PengadaanStats> {
+    const response = await apiClient.get<ApiResponse<PengadaanStats>>(`/pengadaan/stats${toQueryString(filter)}`);
+    return response.data;
+  },
+
+  // Latest edit history entries across packages, newest first
+  async getActivity(filter: PengadaanStatsFilter = {}, limit = 10): Promise<PengadaanActivityEntry[]> {
+    const response = await apiClient.get<ApiResponse<PengadaanActivityEntry[]>>(
+      `/pengadaan/recent${toQueryString({ ...filter, limit })}`
+    );
+    return response.data;
+  },
+
+  async submit(id: string): Promise<Pengadaan> {
+    const response = await apiClient.post<ApiResponse<Pengadaan>>(`/pengadaan/${id}/submit`);
+    return response.data;
+  },
+
+  async approve(id: string, reason?: string): Promise<Pengadaan> {
+    const response = await apiClient.post<ApiResponse<Pengadaan>>(`/pengadaan/${id}/approve`, { reason });
+    return response.data;
+  },
+
+  async reject(id: string, reason: string): Promise<Pengadaan> {
+    const response = await apiClient.post<ApiResponse<Pengadaan>>(`/pengadaan/${id}/reject`, { reason });
+    return response.data;
+  },
+
+  async getHistory(id: string): Promise<PengadaanHistoryEntry[]> {
+    const response = await apiClient.get<ApiResponse<{ history: PengadaanHistoryEntry[] }>>(`/pengadaan/${id}/history`);
+    return response.data.history;
+  },
+
+  async restore(id: string, at: string): Promise<Pengadaan> {
+    const response = await apiClient.post<ApiResponse<Pengadaan>>(`/pengadaan/${id}/restore?at=${encodeURIComponent(at)}`);
+    return response.data;
+  },
+
+  async getReviewQueue(): Promise<Pengadaan[]> {
+    const response = await apiClient.get<PaginatedResponse<Pengadaan>>('/pengadaan/review-queue');
     return response.data;
   },
 };
 
 // React Query Hooks
 
-export const useGetPengadaan = () => {
+export const useGetPengadaan = (params: PengadaanQueryParams = {}) => {
   return useQuery<Pengadaan[], Error>({
-    queryKey: ["pengadaan"],
-    queryFn: pengadaanService.getAll,
+    queryKey: ["pengadaan", "list", params],
+    queryFn: () => pengadaanService.getAll(params),
     staleTime: 5 * 60 * 1000, // 5 minutes
     retry: 3,
   });
@@ -87,7 +137,7 @@ export const useCreatePengadaan = () => {
     mutationFn: pengadaanService.create,
     onSuccess: (newPengadaan) => {
       // Update the cache with the new item
-      queryClient.setQueryData<Pengadaan[]>(["pengadaan"], (old) => {
+      queryClient.setQueriesData<Pengadaan[]>({ queryKey: ["pengadaan", "list"] }, (old) => {
         return old ? [...old, newPengadaan] : [newPengadaan];
       });
       // Invalidate to ensure fresh data
@@ -107,7 +157,7 @@ export const useUpdatePengadaan = () => {
     mutationFn: ({ id, data }) => pengadaanService.update(id, data),
     onSuccess: (updatedPengadaan) => {
       // Update the cache
-      queryClient.setQueryData<Pengadaan[]>(["pengadaan"], (old) => {
+      queryClient.setQueriesData<Pengadaan[]>({ queryKey: ["pengadaan", "list"] }, (old) => {
         return old?.map((item) =>
           item.id === updatedPengadaan.id ? updatedPengadaan : item
         ) || [];
@@ -131,7 +181,7 @@ export const useDeletePengadaan = () => {
     mutationFn: pengadaanService.delete,
     onSuccess: (_, deletedId) => {
       // Remove from cache
-      queryClient.setQueryData<Pengadaan[]>(["pengadaan"], (old) => {
+      queryClient.setQueriesData<Pengadaan[]>({ queryKey: ["pengadaan", "list"] }, (old) => {
         return old?.filter((item) => item.id !== deletedId) || [];
       });
       // Remove individual item cache
@@ -155,13 +205,64 @@ export const useSearchPengadaan = (query: string) => {
   });
 };
 
-export const usePengadaanStats = () => {
-  return useQuery({
-    queryKey: ["pengadaan", "stats"],
-    queryFn: pengadaanService.getStats,
+export const usePengadaanStats = (filter: PengadaanStatsFilter = {}) => {
+  return useQuery<PengadaanStats, Error>({
+    queryKey: ["pengadaan", "stats", filter],
+    queryFn: () => pengadaanService.getStats(filter),
     staleTime: 10 * 60 * 1000, // 10 minutes
   });
 };
 
+export const usePengadaanActivity = (filter: PengadaanStatsFilter = {}, limit = 10) => {
+  return useQuery<PengadaanActivityEntry[], Error>({
+    queryKey: ["pengadaan", "activity", filter, limit],
+    queryFn: () => pengadaanService.getActivity(filter, limit),
+  });
+};
+
+export const usePengadaanHistory = (id: string) => {
+  return useQuery<PengadaanHistoryEntry[], Error>({
+    queryKey: ["pengadaan", id, "history"],
+    queryFn: () => pengadaanService.getHistory(id),
+    enabled: !!id,
+    staleTime: 60 * 1000, // 1 minute
+  });
+};
+
+export const useReviewQueue = () => {
+  return useQuery<Pengadaan[], Error>({
+    queryKey: ["pengadaan", "review-queue"],
+    queryFn: pengadaanService.getReviewQueue,
+    staleTime: 60 * 1000, // 1 minute
+  });
+};
+
+// Shared cache refresh after a review workflow step
+const useReviewMutation = <TVariables,>(
+  mutationFn: (variables: TVariables) => Promise<Pengadaan>
+) => {
+  const queryClient = useQueryClient();
+
+  return useMutation<Pengadaan, Error, TVariables>({
+    mutationFn,
+    onSuccess: (updatedPengadaan) => {
+      queryClient.setQueryData(["pengadaan", updatedPengadaan.id], updatedPengadaan);
+      queryClient.invalidateQueries({ queryKey: ["pengadaan"] });
+    },
+  });
+};
+
+export const useSubmitPengadaan = () =>
+  useReviewMutation<string>((id) => pengadaanService.submit(id));
+
+export const useApprovePengadaan = () =>
+  useReviewMutation<{ id: string; reason?: string }>(({ id, reason }) => pengadaanService.approve(id, reason));
+
+export const useRejectPengadaan = () =>
+  useReviewMutation<{ id: string; reason: string }>(({ id, reason }) => pengadaanService.reject(id, reason));
+
+export const useRestorePengadaan = () =>
+  useReviewMutation<{ id: string; at: string }>(({ id, at }) => pengadaanService.restore(id, at));
+
 // Export the service for direct use if needed
 export { pengadaanService };
@@ -0,0 +1,69 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import type { ReportDefinition, ReportFormat, ReportParams, ReportResult } from '@/types/report';
+import { apiClient } from '@/services/api';
+
+interface ApiResponse<T> {
+  success: boolean;
+  data: T;
+  message?: string;
+}
+
+const toQueryString = (params: Record<string, string>): string => {
+  const query = new URLSearchParams();
+  for (const [key, value] of Object.entries(params)) {
+    if (value !== '') {
+      query.set(key, value);
+    }
+  }
+  const text = query.toString();
+  return text ? `?${text}` : '';
+};
+
+// API Service Functions
+const reportService = {
+  async list(): Promise<ReportDefinition[]> {
+    const response = await apiClient.get<ApiResponse<ReportDefinition[]>>('/reports');
+    return response.data;
+  },
+
+  async run(id: string, params: ReportParams): Promise<ReportResult> {
+    const response = await apiClient.get<ApiResponse<ReportResult>>(`/reports/${id}${toQueryString(params)}`);
+    return response.data;
+  },
+
+  // Saves the rendered file through a temporary link
+  async download(id: string, params: ReportParams, format: Exclude<ReportFormat, 'json'>): Promise<void> {
+    const { blob, filename } = await apiClient.getBlob(`/reports/${id}${toQueryString({ ...params, format })}`);
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename ?? `${id}.${format}`;
+    link.click();
+    URL.revokeObjectURL(url);
+  },
+};
+
+// React Query Hooks
+export const useReports = () => {
+  return useQuery<ReportDefinition[], Error>({
+    queryKey: ["reports"],
+    queryFn: reportService.list,
+  });
+};
+
+export const useReportResult = (id: string | null, params: ReportParams) => {
+  return useQuery<ReportResult, Error>({
+    queryKey: ["reports", id, params],
+    queryFn: () => reportService.run(id as string, params),
+    enabled: !!id,
+  });
+};
+
+export const useDownloadReport = () => {
+  return useMutation<void, Error, { id: string; params: ReportParams; format: Exclude<ReportFormat, 'json'> }>({
+    mutationFn: ({ id, params, format }) => reportService.download(id, params, format),
+  });
+};
+
+// Export the service for direct use if needed
+export { reportService };
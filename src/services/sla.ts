@@ -0,0 +1,90 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import type { CreateSlaTargetDTO, SlaTarget, UpdateSlaTargetDTO } from '@/types/sla';
+import { apiClient } from '@/services/api';
+
+interface ApiResponse<T> {
+  success: boolean;
+  data: T;
+  message?: string;
+}
+
+// API Service Functions
+const slaService = {
+  async getTargets(): Promise<SlaTarget[]> {
+    const response = await apiClient.get<ApiResponse<SlaTarget[]>>('/sla/targets');
+    return response.data;
+  },
+
+  async create(data: CreateSlaTargetDTO): Promise<SlaTarget> {
+    const response = await apiClient.post<ApiResponse<SlaTarget>>('/sla/targets', data);
+    return response.data;
+  },
+
+  async update(id: string, data: UpdateSlaTargetDTO): Promise<SlaTarget> {
+    const response = await apiClient.put<ApiResponse<SlaTarget>>(`/sla/targets/${id}`, data);
+    return response.data;
+  },
+
+  async delete(id: string): Promise<void> {
+    await apiClient.delete<ApiResponse<void>>(`/sla/targets/${id}`);
+  },
+
+  // Re-tracks running packages, e.g. after the holiday calendar changed
+  async recompute(): Promise<{ updated: number }> {
+    const response = await apiClient.post<ApiResponse<{ updated: number }>>('/sla/recompute', {});
+    return response.data;
+  },
+};
+
+// Target changes re-track packages, so their SLA status is refetched too
+const invalidateSla = (queryClient: ReturnType<typeof useQueryClient>) => {
+  queryClient.invalidateQueries({ queryKey: ["sla-targets"] });
+  queryClient.invalidateQueries({ queryKey: ["pengadaan"] });
+};
+
+// React Query Hooks
+export const useSlaTargets = () => {
+  return useQuery<SlaTarget[], Error>({
+    queryKey: ["sla-targets"],
+    queryFn: slaService.getTargets,
+  });
+};
+
+export const useCreateSlaTarget = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation<SlaTarget, Error, CreateSlaTargetDTO>({
+    mutationFn: slaService.create,
+    onSuccess: () => invalidateSla(queryClient),
+  });
+};
+
+export const useUpdateSlaTarget = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation<SlaTarget, Error, { id: string; data: UpdateSlaTargetDTO }>({
+    mutationFn: ({ id, data }) => slaService.update(id, data),
+    onSuccess: () => invalidateSla(queryClient),
+  });
+};
+
+export const useDeleteSlaTarget = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation<void, Error, string>({
+    mutationFn: slaService.delete,
+    onSuccess: () => invalidateSla(queryClient),
+  });
+};
+
+export const useRecomputeSla = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation<{ updated: number }, Error, void>({
+    mutationFn: () => slaService.recompute(),
+    onSuccess: () => invalidateSla(queryClient),
+  });
+};
+
+// Export the service for direct use if needed
+export { slaService };
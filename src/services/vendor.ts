@@ -0,0 +1,224 @@
+import { useQuery, useMutation, useQueryClient, keepPreviousData } from "@tanstack/react-query";
+import type {
+  Vendor,
+  CreateVendorDTO,
+  UpdateVendorDTO,
+  VendorQueryParams,
+  VendorRating,
+  VendorRatingScores,
+  VendorScorecard,
+  VendorBlacklistEntry,
+  CreateVendorBlacklistDTO,
+  VendorBlacklistQueryParams,
+} from '@/types/vendor';
+import { apiClient } from '@/services/api';
+
+interface ApiResponse<T> {
+  success: boolean;
+  data: T;
+  message?: string;
+}
+
+interface PaginatedResponse<T> {
+  success: boolean;
+  data: T[];
+  pagination: {
+    page: number;
+    limit: number;
+    total: number;
+    totalPages: number;
+  };
+  message?: string;
+}
+
+const toQueryString = (params: VendorQueryParams | VendorBlacklistQueryParams): string => {
+  const query = new URLSearchParams();
+  for (const [key, value] of Object.entries(params)) {
+    if (value !== undefined && value !== '') {
+      query.set(key, String(value));
+    }
+  }
+  const text = query.toString();
+  return text ? `?${text}` : '';
+};
+
+// API Service Functions
+const vendorService = {
+  async getAll(params: VendorQueryParams = {}): Promise<Vendor[]> {
+    const response = await apiClient.get<PaginatedResponse<Vendor>>(`/vendors${toQueryString(params)}`);
+    return response.data;
+  },
+
+  async getById(id: string): Promise<Vendor> {
+    const response = await apiClient.get<ApiResponse<Vendor>>(`/vendors/${id}`);
+    return response.data;
+  },
+
+  async create(data: CreateVendorDTO): Promise<Vendor> {
+    const response = await apiClient.post<ApiResponse<Vendor>>('/vendors', data);
+    return response.data;
+  },
+
+  async update(id: string, data: UpdateVendorDTO): Promise<Vendor> {
+    const response = await apiClient.put<ApiResponse<Vendor>>(`/vendors/${id}`, data);
+    return response.data;
+  },
+
+  async delete(id: string): Promise<void> {
+    await apiClient.delete<ApiResponse<void>>(`/vendors/${id}`);
+  },
+
+  async getScorecard(id: string): Promise<VendorScorecard> {
+    const response = await apiClient.get<ApiResponse<VendorScorecard>>(`/vendors/${id}/scorecard`);
+    return response.data;
+  },
+
+  async getPengadaanRating(pengadaanId: string): Promise<VendorRating | null> {
+    const response = await apiClient.get<ApiResponse<VendorRating | null>>(`/pengadaan/${pengadaanId}/vendor-rating`);
+    return response.data;
+  },
+
+  async getBlacklist(params: VendorBlacklistQueryParams = {}): Promise<VendorBlacklistEntry[]> {
+    const response = await apiClient.get<PaginatedResponse<VendorBlacklistEntry>>(
+      `/vendors/blacklist${toQueryString(params)}`
+    );
+    return response.data;
+  },
+
+  async createBlacklistEntry(data: CreateVendorBlacklistDTO): Promise<VendorBlacklistEntry> {
+    const response = await apiClient.post<ApiResponse<VendorBlacklistEntry>>('/vendors/blacklist', data);
+    return response.data;
+  },
+
+  async revokeBlacklistEntry(id: string, reason: string): Promise<VendorBlacklistEntry> {
+    const response = await apiClient.post<ApiResponse<VendorBlacklistEntry>>(`/vendors/blacklist/${id}/revoke`, {
+      reason,
+    });
+    return response.data;
+  },
+
+  async ratePengadaan(pengadaanId: string, scores: VendorRatingScores): Promise<VendorRating> {
+    const response = await apiClient.put<ApiResponse<VendorRating>>(`/pengadaan/${pengadaanId}/vendor-rating`, scores);
+    return response.data;
+  },
+};
+
+// React Query Hooks
+
+export const useVendors = (params: VendorQueryParams = {}) => {
+  return useQuery<Vendor[], Error>({
+    queryKey: ["vendors", params],
+    queryFn: () => vendorService.getAll(params),
+    placeholderData: keepPreviousData,
+    staleTime: 5 * 60 * 1000, // 5 minutes
+  });
+};
+
+export const useVendor = (id: string | null | undefined) => {
+  return useQuery<Vendor, Error>({
+    queryKey: ["vendors", id],
+    queryFn: () => vendorService.getById(id as string),
+    enabled: !!id,
+    staleTime: 5 * 60 * 1000,
+  });
+};
+
+export const useCreateVendor = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation<Vendor, Error, CreateVendorDTO>({
+    mutationFn: vendorService.create,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["vendors"] });
+    },
+  });
+};
+
+export const useUpdateVendor = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation<Vendor, Error, { id: string; data: UpdateVendorDTO }>({
+    mutationFn: ({ id, data }) => vendorService.update(id, data),
+    onSuccess: (updatedVendor) => {
+      queryClient.setQueryData(["vendors", updatedVendor.id], updatedVendor);
+      queryClient.invalidateQueries({ queryKey: ["vendors"] });
+    },
+  });
+};
+
+export const useDeleteVendor = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation<void, Error, string>({
+    mutationFn: vendorService.delete,
+    onSuccess: (_, deletedId) => {
+      queryClient.removeQueries({ queryKey: ["vendors", deletedId] });
+      queryClient.invalidateQueries({ queryKey: ["vendors"] });
+    },
+  });
+};
+
+export const useVendorScorecard = (id: string | null | undefined) => {
+  return useQuery<VendorScorecard, Error>({
+    queryKey: ["vendors", id, "scorecard"],
+    queryFn: () => vendorService.getScorecard(id as string),
+    enabled: !!id,
+  });
+};
+
+export const usePengadaanVendorRating = (pengadaanId: string | null | undefined) => {
+  return useQuery<VendorRating | null, Error>({
+    queryKey: ["vendor-rating", pengadaanId],
+    queryFn: () => vendorService.getPengadaanRating(pengadaanId as string),
+    enabled: !!pengadaanId,
+  });
+};
+
+export const useRatePengadaanVendor = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation<VendorRating, Error, { pengadaanId: string; scores: VendorRatingScores }>({
+    mutationFn: ({ pengadaanId, scores }) => vendorService.ratePengadaan(pengadaanId, scores),
+    onSuccess: (rating, { pengadaanId }) => {
+      queryClient.setQueryData(["vendor-rating", pengadaanId], rating);
+      // List ratings and scorecards aggregate this rating
+      queryClient.invalidateQueries({ queryKey: ["vendors"] });
+    },
+  });
+};
+
+export const useVendorBlacklist = (params: VendorBlacklistQueryParams = {}) => {
+  return useQuery<VendorBlacklistEntry[], Error>({
+    queryKey: ["vendor-blacklist", params],
+    queryFn: () => vendorService.getBlacklist(params),
+    placeholderData: keepPreviousData,
+  });
+};
+
+export const useCreateBlacklistEntry = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation<VendorBlacklistEntry, Error, CreateVendorBlacklistDTO>({
+    mutationFn: vendorService.createBlacklistEntry,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["vendor-blacklist"] });
+      // Vendor lists filter on the blacklist flag
+      queryClient.invalidateQueries({ queryKey: ["vendors"] });
+    },
+  });
+};
+
+export const useRevokeBlacklistEntry = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation<VendorBlacklistEntry, Error, { id: string; reason: string }>({
+    mutationFn: ({ id, reason }) => vendorService.revokeBlacklistEntry(id, reason),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["vendor-blacklist"] });
+      queryClient.invalidateQueries({ queryKey: ["vendors"] });
+    },
+  });
+};
+
+// Export the service for direct use if needed
+export { vendorService };
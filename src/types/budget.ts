@@ -0,0 +1,67 @@
+// Frontend Budget (Anggaran) types based on backend interface
+
+export type JenisAnggaran = 'ABO' | 'ABI';
+
+export interface Budget {
+  id: string;
+  tahunAnggaran: number;
+  jenisAnggaran: JenisAnggaran;
+  penggunaBarangJasa: string;
+  // Ceiling (pagu) in Rupiah
+  pagu: number;
+  keterangan?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type CreateBudgetDTO = Pick<Budget, 'tahunAnggaran' | 'jenisAnggaran' | 'penggunaBarangJasa' | 'pagu' | 'keterangan'>
+
+export type UpdateBudgetDTO = Partial<CreateBudgetDTO>
+
+export interface BudgetQueryParams {
+  tahunAnggaran?: number;
+  jenisAnggaran?: JenisAnggaran;
+  penggunaBarangJasa?: string;
+  page?: number;
+  limit?: number;
+}
+
+// Committed: HPS of packages submitted but not yet under contract.
+// Realised: contract value of packages In Progress or Completed.
+export interface BudgetConsumption {
+  pagu: number;
+  committed: number;
+  realised: number;
+  remaining: number;
+  // Realised over ceiling, in percent; null for a zero ceiling
+  absorption: number | null;
+  committedCount: number;
+  realisedCount: number;
+}
+
+export type BudgetAbsorptionItem = Omit<Budget, 'createdAt' | 'updatedAt'> & BudgetConsumption
+
+export interface BudgetAbsorption {
+  items: BudgetAbsorptionItem[];
+  totals: BudgetConsumption;
+}
+
+export interface BudgetCheckParams {
+  tahunAnggaran: string;
+  jenisAnggaran: string;
+  penggunaBarangJasa: string;
+  amount: number;
+}
+
+// Returned when a package's HPS exceeds what is left of its budget
+export interface BudgetWarning {
+  budgetId: string;
+  tahunAnggaran: number;
+  jenisAnggaran: JenisAnggaran;
+  penggunaBarangJasa: string;
+  pagu: number;
+  remaining: number;
+  amount: number;
+  excess: number;
+  message: string;
+}
@@ -0,0 +1,34 @@
+// Frontend working-day calendar types based on backend interface
+
+export type HolidayType = 'Libur Nasional' | 'Cuti Bersama';
+
+// A weekday on which no working days (hari kerja) are counted
+export interface Holiday {
+  id: string;
+  date: string;
+  name: string;
+  jenis: HolidayType;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type CreateHolidayDTO = Pick<Holiday, 'date' | 'name' | 'jenis'>
+
+export type UpdateHolidayDTO = Partial<CreateHolidayDTO>
+
+export interface HolidayQueryParams {
+  tahun?: number;
+  jenis?: HolidayType;
+}
+
+export interface WorkingDaysResult {
+  from: string;
+  to: string;
+  workingDays: number;
+}
+
+export interface AddWorkingDaysResult {
+  from: string;
+  days: number;
+  date: string;
+}
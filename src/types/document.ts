@@ -0,0 +1,16 @@
+// Frontend document template types based on backend interface
+
+// Printable document filled per pengadaan; key names the PDF file
+export interface DocumentTemplate {
+  id: string;
+  key: string;
+  nama: string;
+  isi: string;
+  keterangan?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type CreateDocumentTemplateDTO = Pick<DocumentTemplate, 'key' | 'nama' | 'isi' | 'keterangan'>
+
+export type UpdateDocumentTemplateDTO = Partial<CreateDocumentTemplateDTO>
@@ -0,0 +1,34 @@
+// Frontend exchange rate (kurs) types based on backend interface
+
+export type CurrencyCode = 'IDR' | 'USD' | 'EUR' | 'SGD';
+
+// Rupiah per one unit of the currency, valid from `date` until the next rate
+export interface ExchangeRate {
+  id: string;
+  currency: Exclude<CurrencyCode, 'IDR'>;
+  date: string;
+  rate: number;
+  source?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type CreateExchangeRateDTO = Pick<ExchangeRate, 'currency' | 'date' | 'rate' | 'source'>
+
+export type UpdateExchangeRateDTO = Partial<Pick<ExchangeRate, 'rate' | 'source'>>
+
+export interface ExchangeRateQueryParams {
+  currency?: ExchangeRate['currency'];
+  dateFrom?: string;
+  dateTo?: string;
+  page?: number;
+  limit?: number;
+}
+
+// Rate a rupiah equivalent was computed with; IDR carries rate 1 and no exchangeRateId
+export interface AppliedExchangeRate {
+  currency: string;
+  rate: number;
+  rateDate: string;
+  exchangeRateId?: string | null;
+}
@@ -1,5 +1,7 @@
 // Frontend Pengadaan types based on backend interface
 
+import type { AppliedExchangeRate } from '@/types/exchange-rate';
+
 export interface Pengadaan {
   id: string;
   // Legacy fields for backward compatibility
@@ -37,29 +39,33 @@ export interface Pengadaan {
   nilaiHpsCurrency: string;
   nilaiHpsAmount: string;
   nilaiHpsEqRupiah: string;
+  // Rate the rupiah equivalent was computed with, on the request date
+  nilaiHpsKurs?: AppliedExchangeRate | null;
   nilaiHpsPortiTahun: string;
   bulanPermintaan: string;
   tanggalPermintaan: string;
   tanggalPermintaanDiterima: string;
   tanggalRapatPersiapan: string;
   tanggalRevisiPermintaan?: string;
-  lamaRevisiPermintaan?: string;
+  // Working days, computed by the server from the process dates
+  lamaRevisiPermintaan?: number | null;
   noPurchaseRequisition: string;
   tanggalPurchaseRequisition: string;
   jenisMySap: string;
   tanggalPerintahPengadaan: string;
-  lamaProsesPersiapan: string;
+  lamaProsesPersiapan?: number | null;
   kategoriRisiko: string;
   keteranganPersiapan?: string;
   picTimPpsm: string;
 
   // Section 3: PROSES PENGADAAN
   suratPenunjukan: string;
-  lamaProsesPengadaan: string;
+  lamaProsesPengadaan?: number | null;
   jangkaWaktuPengerjaan?: string;
   nilaiPenunjukanCurrency: string;
   nilaiPenunjukanAmount: string;
   nilaiPenunjukanEqRupiah: string;
+  nilaiPenunjukanKurs?: AppliedExchangeRate | null;
   statusPengadaan: string;
   bulanSelesai: string;
   keteranganPengadaan?: string;
@@ -69,19 +75,78 @@ export interface Pengadaan {
   nilaiKontrakRupiah?: string;
   nilaiKontrakUsd?: string;
   nilaiKontrakPortiTahun?: string;
+  vendorId?: string | null;
   penyediaBarangJasa: string;
   statusPenyedia: string;
   kontrakNomor: string;
   kontrakTanggal: string;
 
+  // SLA position as of today; null when the package is not measured against an SLA
+  slaStatus?: SlaSummary | null;
+
+  // Approval chain
+  approvalChain?: ApprovalStep[];
+  pendingApproverRole?: ApproverRole;
+
   // Metadata
   createdAt: Date;
   updatedAt: Date;
 }
 
-export type CreatePengadaanDTO = Omit<Pengadaan, 'id' | 'createdAt' | 'updatedAt'>
+export type ApproverRole = 'manager' | 'director' | 'board';
+
+export type SlaStatus = 'On Track' | 'At Risk' | 'Breached' | 'Met';
 
-export type UpdatePengadaanDTO = Partial<Omit<Pengadaan, 'id' | 'createdAt' | 'updatedAt'>>
+// SLA of a package in working days; sisaHari is negative once overdue
+export interface SlaSummary {
+  status: SlaStatus;
+  hariKerja: number;
+  jatuhTempo: string;
+  hariBerjalan: number;
+  sisaHari: number;
+}
+
+export interface ApprovalStep {
+  step: number;
+  approverRole: ApproverRole;
+  decision: 'pending' | 'approved' | 'rejected';
+  decidedBy?: string;
+  decidedAt?: string;
+  comment?: string;
+}
+
+export type PengadaanHistoryAction =
+  | 'created'
+  | 'updated'
+  | 'submitted'
+  | 'approved'
+  | 'rejected'
+  | 'transitioned'
+  | 'restored'
+  | 'deleted'
+  | 'undeleted'
+  | 'blacklist_override';
+
+export interface PengadaanHistoryEntry {
+  action: PengadaanHistoryAction;
+  timestamp: string;
+  changes: Record<string, { from: unknown; to: unknown }>;
+  reason?: string;
+  user: {
+    id: string;
+    name: string;
+    email: string;
+  };
+}
+
+// Admin reason for awarding a package to a blacklisted vendor anyway
+interface BlacklistOverride {
+  blacklistOverrideReason?: string;
+}
+
+export type CreatePengadaanDTO = Omit<Pengadaan, 'id' | 'createdAt' | 'updatedAt'> & BlacklistOverride
+
+export type UpdatePengadaanDTO = Partial<Omit<Pengadaan, 'id' | 'createdAt' | 'updatedAt'>> & BlacklistOverride
 
 export interface PengadaanQueryParams {
   page?: number;
@@ -94,6 +159,7 @@ export interface PengadaanQueryParams {
   sortOrder?: 'asc' | 'desc';
   dateFrom?: string;
   dateTo?: string;
+  slaStatus?: SlaStatus;
 }
 
 export interface PaginatedPengadaanResponse {
@@ -112,6 +178,43 @@ export interface PengadaanStats {
   total: number;
   byStatus: Record<string, number>;
   byKategori: Record<string, number>;
-  totalNilai: number;
-  averageNilai: number;
+  // HPS per currency
+  totalNilai: { idr: number; usd: number; eur: number; sgd: number };
+  // Rupiah equivalents summed over every package
+  totalRupiah: { hps: number; kontrak: number; costSaving: number };
+  byBulanPermintaan: PengadaanMonthlyStats[];
+  recentActivity: { created: number; updated: number; completed: number };
+  slaCompliance: SlaComplianceYear[];
+}
+
+// Dashboard filter; narrows the statistics and the activity feed
+export interface PengadaanStatsFilter {
+  tahunAnggaran?: string;
+  penggunaBarangJasa?: string;
+}
+
+// Packages requested in a month (YYYY-MM) and their HPS in rupiah
+export interface PengadaanMonthlyStats {
+  bulan: string;
+  count: number;
+  nilaiHps: number;
+}
+
+// Edit history entry of any package, for the dashboard activity feed
+export interface PengadaanActivityEntry {
+  pengadaanId: string;
+  namaPaket: string;
+  action: PengadaanHistoryAction;
+  timestamp: string;
+  reason?: string;
+  user: { id: string; name: string };
+}
+
+// Finished SLA packages of a year and how many met their target; rate in percent
+export interface SlaComplianceYear {
+  tahun: string;
+  total: number;
+  met: number;
+  breached: number;
+  rate: number;
 }
\ No newline at end of file
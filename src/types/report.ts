@@ -0,0 +1,41 @@
+// Frontend report types based on backend interface
+
+export type ReportFormat = 'json' | 'csv' | 'xlsx' | 'pdf';
+
+export type ReportColumnType = 'text' | 'number' | 'amount' | 'percent' | 'date';
+
+export interface ReportColumn {
+  key: string;
+  label: string;
+  type?: ReportColumnType;
+}
+
+// Optional field of a report's parameter form
+export interface ReportParameter {
+  key: string;
+  label: string;
+  type: 'year' | 'text';
+}
+
+export interface ReportDefinition {
+  id: string;
+  title: string;
+  description: string;
+  parameters: ReportParameter[];
+  columns: ReportColumn[];
+}
+
+export type ReportParams = Record<string, string>;
+
+export type ReportCell = string | number | null;
+
+// Rows are keyed by column; dates arrive as ISO strings
+export interface ReportResult {
+  id: string;
+  title: string;
+  params: ReportParams;
+  generatedAt: string;
+  columns: ReportColumn[];
+  rows: Record<string, ReportCell>[];
+  totals: Record<string, ReportCell> | null;
+}
@@ -0,0 +1,18 @@
+// Frontend SLA target types based on backend interface
+
+// Working days allowed from one process date to another for a method, optionally one jenis pengadaan
+export interface SlaTarget {
+  id: string;
+  metodePengadaan: string;
+  jenisPengadaan: string | null;
+  hariKerja: number;
+  dari: string;
+  sampai: string;
+  keterangan?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type CreateSlaTargetDTO = Pick<SlaTarget, 'metodePengadaan' | 'jenisPengadaan' | 'hariKerja' | 'dari' | 'sampai' | 'keterangan'>
+
+export type UpdateSlaTargetDTO = Partial<CreateSlaTargetDTO>
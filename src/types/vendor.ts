@@ -0,0 +1,114 @@
+// Frontend Vendor (penyedia) types based on backend interface
+
+export type VendorUmkmStatus = 'UMKM' | 'Non UMKM';
+
+export interface VendorBankAccount {
+  namaBank: string;
+  nomorRekening: string;
+  atasNama: string;
+}
+
+export interface VendorContact {
+  nama: string;
+  jabatan?: string;
+  email?: string;
+  telepon?: string;
+}
+
+export interface Vendor {
+  id: string;
+  nama: string;
+  npwp?: string;
+  alamat?: string;
+  statusUmkm: VendorUmkmStatus;
+  bankAccount?: VendorBankAccount;
+  contacts: VendorContact[];
+  isActive: boolean;
+  isBlacklisted: boolean;
+  // Average rating over the vendor's rated pengadaan (list endpoint only)
+  rating?: { overall: number; count: number } | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type CreateVendorDTO = Omit<Vendor, 'id' | 'isBlacklisted' | 'rating' | 'createdAt' | 'updatedAt'>
+
+export type UpdateVendorDTO = Partial<CreateVendorDTO>
+
+export interface VendorQueryParams {
+  search?: string;
+  status?: 'active' | 'inactive' | 'blacklisted';
+  statusUmkm?: VendorUmkmStatus;
+  page?: number;
+  limit?: number;
+}
+
+export type VendorRatingCriterion = 'timeliness' | 'quality' | 'compliance';
+
+export type VendorRatingScores = Record<VendorRatingCriterion, number> & { comment?: string };
+
+export interface VendorRating extends VendorRatingScores {
+  id: string;
+  vendorId: string;
+  pengadaanId: string;
+  ratedBy: string | { firstName?: string; lastName?: string; username?: string; email?: string };
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface VendorScorecardPackage {
+  id: string;
+  namaPaket: string;
+  metodePengadaan: string;
+  status: string;
+  kontrakNomor: string;
+  kontrakTanggal: string;
+  bulanSelesai: string;
+  contractValue: number;
+  delayDays: number | null;
+  rating: (VendorRatingScores & { average: number }) | null;
+}
+
+export interface VendorScorecard {
+  vendor: Vendor;
+  summary: {
+    packageCount: number;
+    ratedCount: number;
+    totalContractValue: number;
+    averageDelayDays: number | null;
+    ratings: Record<VendorRatingCriterion | 'overall', number> | null;
+  };
+  packages: VendorScorecardPackage[];
+}
+
+export type VendorBlacklistStatus = 'active' | 'upcoming' | 'expired' | 'revoked';
+
+export interface VendorBlacklistEntry {
+  id: string;
+  // Populated with the vendor's name in list responses
+  vendorId: string | (Pick<Vendor, 'nama' | 'npwp' | 'statusUmkm'> & { _id: string });
+  reason: string;
+  startDate: string;
+  endDate: string;
+  referenceDocument: string;
+  isActive: boolean;
+  revokedAt?: string | null;
+  revokeReason?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface CreateVendorBlacklistDTO {
+  vendorId: string;
+  reason: string;
+  startDate: string;
+  endDate: string;
+  referenceDocument: string;
+}
+
+export interface VendorBlacklistQueryParams {
+  vendorId?: string;
+  status?: VendorBlacklistStatus;
+  page?: number;
+  limit?: number;
+}